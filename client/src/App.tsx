@@ -11,13 +11,19 @@ const NotFound = lazy(() => import("@/pages/not-found"));
 const Landing = lazy(() => import("@/pages/landing"));
 const Login = lazy(() => import("@/pages/login"));
 const Register = lazy(() => import("@/pages/register"));
+const ForgotPassword = lazy(() => import("@/pages/forgot-password"));
+const ResetPassword = lazy(() => import("@/pages/reset-password"));
+const ConfirmEmail = lazy(() => import("@/pages/confirm-email"));
 const Home = lazy(() => import("@/pages/home"));
+const AccountSessions = lazy(() => import("@/pages/account-sessions"));
 const TeacherDashboard = lazy(() => import("@/pages/teacher/dashboard"));
 const TeacherProjects = lazy(() => import("@/pages/teacher/projects"));
 const TeacherAssessments = lazy(() => import("@/pages/teacher/assessments"));
 const AssessmentDetails = lazy(() => import("@/pages/teacher/assessment-details"));
 const AssessmentSubmissions = lazy(() => import("./pages/teacher/assessment-submissions"));
 const SubmissionReview = lazy(() => import("./pages/teacher/submission-review"));
+const TeacherClasses = lazy(() => import("@/pages/teacher/classes"));
+const TeacherClassDetail = lazy(() => import("@/pages/teacher/class-detail"));
 const StudentDashboard = lazy(() => import("@/pages/student/dashboard"));
 const StudentProjects = lazy(() => import("@/pages/student/projects"));
 const StudentProjectDetail = lazy(() => import("@/pages/student/project-detail"));
@@ -25,8 +31,14 @@ const StudentMilestoneDetail = lazy(() => import("@/pages/student/milestone-deta
 const StudentPortfolio = lazy(() => import("@/pages/student/portfolio"));
 const TakeAssessment = lazy(() => import("@/pages/student/take-assessment"));
 const EnterCode = lazy(() => import("@/pages/student/enter-code"));
+const GuardianDashboard = lazy(() => import("@/pages/guardian/dashboard"));
+const GuardianRegister = lazy(() => import("@/pages/guardian-register"));
+const DistrictDashboard = lazy(() => import("@/pages/district/dashboard"));
 const AdminDashboard = lazy(() => import("@/pages/admin/dashboard"));
 const AdminUsers = lazy(() => import("@/pages/admin/users"));
+const AdminRosterImport = lazy(() => import("@/pages/admin/roster-import"));
+const AdminAuditLog = lazy(() => import("@/pages/admin/audit-log"));
+const AdminPrompts = lazy(() => import("@/pages/admin/prompts"));
 const PublicPortfolio = lazy(() => import("@/pages/public-portfolio"));
 const ProjectExplorer = lazy(() => import("@/pages/project-explorer"));
 const PublicProjectDetail = lazy(() => import("@/pages/public-project-detail"));
@@ -54,6 +66,10 @@ function Router() {
       <Switch>
         <Route path="/login" component={Login} />
         <Route path="/register" component={Register} />
+        <Route path="/register/guardian" component={GuardianRegister} />
+        <Route path="/forgot-password" component={ForgotPassword} />
+        <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/confirm-email" component={ConfirmEmail} />
 
         {/* Public pages - accessible without authentication */}
         <Route path="/portfolio/public/:publicUrl" component={PublicPortfolio} />
@@ -65,6 +81,7 @@ function Router() {
         ) : (
           <>
             <Route path="/" component={Home} />
+            <Route path="/account/sessions" component={AccountSessions} />
             {(user as any)?.role === 'teacher' && (
               <>
                 {(user as any)?.tier !== 'free' && (
@@ -74,6 +91,8 @@ function Router() {
                     <Route path="/teacher/assessments/:id/submissions/:submissionId" component={SubmissionReview} />
                     <Route path="/teacher/assessments/:id/submissions" component={AssessmentSubmissions} />
                     <Route path="/teacher/assessments/:id" component={AssessmentDetails} />
+                    <Route path="/teacher/classes" component={TeacherClasses} />
+                    <Route path="/teacher/classes/:id" component={TeacherClassDetail} />
                   </>
                 )}
                 <Route path="/teacher/projects" component={TeacherProjects} />
@@ -90,10 +109,19 @@ function Router() {
                 <Route path="/student/portfolio" component={StudentPortfolio} />
               </>
             )}
+            {(user as any)?.role === 'guardian' && (
+              <Route path="/guardian/dashboard" component={GuardianDashboard} />
+            )}
+            {(user as any)?.role === 'district_admin' && (
+              <Route path="/district/dashboard" component={DistrictDashboard} />
+            )}
             {(user as any)?.role === 'admin' && (
               <>
                 <Route path="/admin/dashboard" component={AdminDashboard} />
                 <Route path="/admin/users" component={AdminUsers} />
+                <Route path="/admin/roster" component={AdminRosterImport} />
+                <Route path="/admin/audit-log" component={AdminAuditLog} />
+                <Route path="/admin/prompts" component={AdminPrompts} />
               </>
             )}
           </>
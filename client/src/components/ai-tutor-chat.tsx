@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Loader2, Send, Brain, User, MessageCircle } from 'lucide-react';
+import { getQuotaExceededMessage } from '@/lib/plans';
+import { streamTutorChat } from '@/lib/tutor-stream';
 
 interface ChatMessage {
   id: string;
@@ -85,6 +87,8 @@ export default function AITutorChat({
   const [currentStep, setCurrentStep] = useState<1 | 2>(1);
   const [isTerminated, setIsTerminated] = useState(false);
   const [studentMessageCount, setStudentMessageCount] = useState(0);
+  // Server-side conversation the turns are saved to; a new one starts with each level choice
+  const [sessionId, setSessionId] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const safeSelfAssessedLevel = isValidSelfAssessedLevel(selfEvaluation.selfAssessedLevel)
     ? selfEvaluation.selfAssessedLevel
@@ -107,6 +111,7 @@ export default function AITutorChat({
     setIsTerminated(false);
     setIsLoading(false);
     setStudentMessageCount(0);
+    setSessionId(null);
   }, [componentSkill.id]);
 
   useEffect(() => {
@@ -176,36 +181,36 @@ ${getLevelSpecificGreeting(safeSelfAssessedLevel)}`,
     const newStudentMessageCount = studentMessageCount + 1;
     setStudentMessageCount(newStudentMessageCount);
 
+    // The reply is shown as it streams in, then replaced by the final text once the safety check is in
+    const tutorMessageId = `msg_${Date.now()}_tutor`;
+    const showTutorText = (content: string) => {
+      setMessages(prev => prev.some(message => message.id === tutorMessageId)
+        ? prev.map(message => message.id === tutorMessageId ? { ...message, content } : message)
+        : [...prev, { id: tutorMessageId, role: 'tutor', content, timestamp: new Date() }]);
+    };
+
     try {
-      const response = await fetch('/api/ai/tutor/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      let streamedText = '';
+      const reply = await streamTutorChat(
+        {
+          sessionId,
           assessmentId,
           componentSkill,
-          conversationHistory: [...messages, userMessage],
+          message: userMessage.content,
+          openingMessage: sessionId === null ? messages.find(message => message.role === 'tutor')?.content : undefined,
           currentEvaluation: selfEvaluation
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to get tutor response');
-      }
-
-      const data = await response.json();
-
-      const tutorMessage: ChatMessage = {
-        id: `msg_${Date.now()}_tutor`,
-        role: 'tutor',
-        content: typeof data?.response === 'string'
-          ? data.response
-          : 'I apologize, but I encountered an unexpected response. Please continue with your self-evaluation.',
-        timestamp: new Date()
-      };
+        },
+        {
+          onSession: setSessionId,
+          onText: (text) => {
+            streamedText += text;
+            showTutorText(streamedText);
+          }
+        }
+      );
 
-      setMessages(prev => [...prev, tutorMessage]);
+      // A flagged reply retracts whatever was streamed
+      showTutorText(reply.response || 'I apologize, but I encountered an unexpected response. Please continue with your self-evaluation.');
 
       // Check if we've reached the 3-message limit
       if (newStudentMessageCount >= 3) {
@@ -226,13 +231,13 @@ ${getLevelSpecificGreeting(safeSelfAssessedLevel)}`,
       }
 
       // Handle safety flags and conversation termination
-      if (data?.shouldTerminate && typeof data?.safetyFlag === 'string') {
+      if (reply.shouldTerminate && typeof reply.safetyFlag === 'string') {
         // Add appropriate system message based on safety flag
         let systemMessage = "This conversation has ended. Please complete your self-evaluation or speak with your teacher if you need assistance.";
 
-        if (data.safetyFlag.includes('inappropriate_language')) {
+        if (reply.safetyFlag.includes('inappropriate_language')) {
           systemMessage = "This conversation has ended due to inappropriate language. Please complete your self-evaluation or speak with your teacher.";
-        } else if (data.safetyFlag.includes('homicidal') || data.safetyFlag.includes('suicidal')) {
+        } else if (reply.safetyFlag.includes('homicidal') || reply.safetyFlag.includes('suicidal')) {
           systemMessage = "This conversation has ended for safety reasons. Please speak with a trusted adult or counselor if you need support.";
         }
 
@@ -256,22 +261,22 @@ ${getLevelSpecificGreeting(safeSelfAssessedLevel)}`,
       }
 
       // Update self-evaluation if the AI suggests changes
-      if (
-        data?.suggestedEvaluation &&
-        isValidSelfAssessedLevel(data.suggestedEvaluation.selfAssessedLevel) &&
-        data.suggestedEvaluation.selfAssessedLevel !== ''
-      ) {
-        onEvaluationUpdate(data.suggestedEvaluation);
+      const suggestedLevel = reply.suggestedEvaluation?.selfAssessedLevel;
+      if (isValidSelfAssessedLevel(suggestedLevel) && suggestedLevel !== '') {
+        onEvaluationUpdate({ ...reply.suggestedEvaluation, selfAssessedLevel: suggestedLevel });
       }
     } catch (error) {
       console.error('Error getting tutor response:', error);
       const errorMessage: ChatMessage = {
         id: `msg_${Date.now()}_error`,
         role: 'tutor',
-        content: 'I apologize, but I encountered an error. Please try again or continue with your self-evaluation.',
+        content: getQuotaExceededMessage(error)
+          ? "The AI tutor isn't available right now because your school has used its AI tutor allowance. Please continue with your self-evaluation."
+          : 'I apologize, but I encountered an error. Please try again or continue with your self-evaluation.',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMessage]);
+      // A stream that fails part-way leaves an unfinished reply behind; the error replaces it
+      setMessages(prev => [...prev.filter(message => message.id !== tutorMessageId), errorMessage]);
     } finally {
       setIsLoading(false);
     }
@@ -405,6 +410,7 @@ ${getLevelSpecificGreeting(safeSelfAssessedLevel)}`,
                 setHasGreeted(false);
                 setCurrentMessage('');
                 setIsTerminated(false);
+                setSessionId(null);
               }}
             >
               Change Level
@@ -455,7 +461,7 @@ ${getLevelSpecificGreeting(safeSelfAssessedLevel)}`,
                       </div>
                     </div>
                   ))}
-                  {isLoading && (
+                  {isLoading && messages[messages.length - 1]?.role !== 'tutor' && (
                     <div className="flex justify-start">
                       <div className="flex gap-2">
                         <Avatar className="w-8 h-8">
@@ -16,22 +16,34 @@ interface CompetencyProgressData {
   lastScore: number;
   lastUpdated: string;
   progressDirection: 'improving' | 'declining' | 'stable';
+  masteryLevel: 'emerging' | 'developing' | 'proficient' | 'applying';
+  masteryScore: number;
+  masteryRule: string;
 }
 
+const MASTERY_LEVEL_SEGMENTS: { level: CompetencyProgressData['masteryLevel']; label: string; activeClass: string }[] = [
+  { level: 'emerging', label: 'Emerging', activeClass: 'bg-red-200 text-red-800' },
+  { level: 'developing', label: 'Developing', activeClass: 'bg-yellow-200 text-yellow-800' },
+  { level: 'proficient', label: 'Proficient', activeClass: 'bg-blue-200 text-blue-800' },
+  { level: 'applying', label: 'Applying', activeClass: 'bg-green-200 text-green-800' },
+];
+
 interface CompetencyProgressProps {
   studentId?: number;
+  // Overrides the default students endpoint, e.g. for the guardian view
+  endpoint?: string;
   onProgressDecline?: (competency: CompetencyProgressData) => void;
 }
 
-export function CompetencyProgress({ studentId, onProgressDecline }: CompetencyProgressProps) {
+export function CompetencyProgress({ studentId, endpoint, onProgressDecline }: CompetencyProgressProps) {
   const [collapsedCompetencies, setCollapsedCompetencies] = useState<Set<string>>(new Set());
 
   const { data: competencyProgress = [], isLoading } = useQuery<CompetencyProgressData[]>({
-    queryKey: ['/api/students/competency-progress', studentId],
+    queryKey: [endpoint ?? '/api/students/competency-progress', studentId],
     queryFn: async () => {
-      const url = studentId 
+      const url = endpoint ?? (studentId
         ? `/api/students/competency-progress?studentId=${studentId}`
-        : '/api/students/competency-progress';
+        : '/api/students/competency-progress');
       const response = await fetch(url);
       if (!response.ok) {
         throw new Error('Failed to fetch competency progress');
@@ -185,14 +197,14 @@ export function CompetencyProgress({ studentId, onProgressDecline }: CompetencyP
                             <h4 className="font-medium text-gray-900 text-sm">
                               {skill.componentSkillName}
                             </h4>
-                            <span className="text-xs font-medium text-gray-700 bg-gray-100 px-2 py-1 rounded">
-                              Current Level: {
-                                skill.averageScore < 1.5 ? 'Emerging' :
-                                skill.averageScore >= 1.5 && skill.averageScore < 2.5 ? 'Developing' :
-                                skill.averageScore >= 2.5 && skill.averageScore < 3.5 ? 'Proficient' : 'Applying'
-                              } (Score: {skill.averageScore.toFixed(1)})
+                            <span className="text-xs font-medium text-gray-700 bg-gray-100 px-2 py-1 rounded capitalize">
+                              Current Level: {skill.masteryLevel} (Score: {skill.masteryScore.toFixed(1)})
                             </span>
+                            {getProgressIcon(skill.progressDirection)}
                           </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Based on {skill.totalScores.length} grade{skill.totalScores.length !== 1 ? 's' : ''} · {skill.masteryRule}
+                          </p>
                         </div>
                       </div>
 
@@ -201,28 +213,17 @@ export function CompetencyProgress({ studentId, onProgressDecline }: CompetencyP
                         <div className="w-full">
                           {/* Achievement Level Indicator */}
                           <div className="flex w-full h-8 bg-gray-50 rounded-lg overflow-hidden mb-2">
-                            <div className={`flex-1 flex items-center justify-center text-xs font-medium border-r border-white ${
-                              skill.averageScore < 1.5 ? 'bg-red-200 text-red-800' : 'bg-gray-100 text-gray-500'
-                            }`}>
-                              Emerging
-                            </div>
-                            <div className={`flex-1 flex items-center justify-center text-xs font-medium border-r border-white ${
-                              skill.averageScore >= 1.5 && skill.averageScore < 2.5 ? 'bg-yellow-200 text-yellow-800' : 'bg-gray-100 text-gray-500'
-                            }`}>
-                              Developing
-                            </div>
-                            <div className={`flex-1 flex items-center justify-center text-xs font-medium border-r border-white ${
-                              skill.averageScore >= 2.5 && skill.averageScore < 3.5 ? 'bg-blue-200 text-blue-800' : 'bg-gray-100 text-gray-500'
-                            }`}>
-                              Proficient
-                            </div>
-                            <div className={`flex-1 flex items-center justify-center text-xs font-medium ${
-                              skill.averageScore >= 3.5 ? 'bg-green-200 text-green-800' : 'bg-gray-100 text-gray-500'
-                            }`}>
-                              Applying
-                            </div>
+                            {MASTERY_LEVEL_SEGMENTS.map((segment, index) => (
+                              <div
+                                key={segment.level}
+                                className={`flex-1 flex items-center justify-center text-xs font-medium ${
+                                  index < MASTERY_LEVEL_SEGMENTS.length - 1 ? 'border-r border-white' : ''
+                                } ${skill.masteryLevel === segment.level ? segment.activeClass : 'bg-gray-100 text-gray-500'}`}
+                              >
+                                {segment.label}
+                              </div>
+                            ))}
                           </div>
-
                           
                         </div>
                       </div>
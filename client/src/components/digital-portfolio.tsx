@@ -107,7 +107,10 @@ export default function DigitalPortfolio({
       description: 'Demonstrated proficiency in multiple digital tools and platforms',
       iconUrl: null,
       awardedAt: new Date('2024-11-15T10:00:00Z'),
-      approvedBy: 1
+      approvedBy: 1,
+      revokedAt: null,
+      revokedBy: null,
+      revokedReason: null
     },
     {
       id: 2,
@@ -120,7 +123,10 @@ export default function DigitalPortfolio({
       description: 'Found innovative solutions to project challenges',
       iconUrl: null,
       awardedAt: new Date('2024-11-12T15:30:00Z'),
-      approvedBy: 1
+      approvedBy: 1,
+      revokedAt: null,
+      revokedBy: null,
+      revokedReason: null
     },
     {
       id: 3,
@@ -133,7 +139,10 @@ export default function DigitalPortfolio({
       description: 'Presented ideas clearly and persuasively',
       iconUrl: null,
       awardedAt: new Date('2024-11-08T11:20:00Z'),
-      approvedBy: 1
+      approvedBy: 1,
+      revokedAt: null,
+      revokedBy: null,
+      revokedReason: null
     }
   ];
 
@@ -0,0 +1,99 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatGuardianInviteCode, GUARDIAN_INVITE_TTL_DAYS } from "@shared/guardians";
+import type { StudentGuardiansDTO } from "@shared/contracts/api";
+
+interface GuardianInviteDialogProps {
+  student: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Guardians linked to a student, their open invite codes, and a button to issue another code. */
+export function GuardianInviteDialog({ student, onOpenChange }: GuardianInviteDialogProps) {
+  const { toast } = useToast();
+  const queryKey = [`/api/guardian/roster/${student?.id}`];
+
+  const { data, isLoading } = useQuery<StudentGuardiansDTO>({
+    queryKey,
+    queryFn: () => api.getStudentGuardians(student!.id),
+    enabled: student !== null,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () => api.createGuardianInvite(student!.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => {
+      toast({ title: "Couldn't create an invite code", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (linkId: number) => api.unlinkGuardian(student!.id, linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Guardian unlinked" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't unlink the guardian", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={student !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Guardians for {student?.name}</DialogTitle>
+          <DialogDescription>
+            Give a family an invite code to create a read-only account. Each code links one guardian and expires after{" "}
+            {GUARDIAN_INVITE_TTL_DAYS} days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading && <p className="text-sm text-gray-600">Loading guardians...</p>}
+          {data && data.guardians.length === 0 && <p className="text-sm text-gray-600">No guardians linked yet.</p>}
+          {data?.guardians.map((guardian) => (
+            <div key={guardian.linkId} className="flex items-center justify-between rounded-lg border border-gray-200 p-3">
+              <div>
+                <p className="font-medium text-gray-900">{guardian.name}</p>
+                {guardian.email && <p className="text-sm text-gray-600">{guardian.email}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => unlinkMutation.mutate(guardian.linkId)}
+                disabled={unlinkMutation.isPending}
+              >
+                Unlink
+              </Button>
+            </div>
+          ))}
+
+          {data && data.openInvites.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Open invite codes</p>
+              {data.openInvites.map((invite) => (
+                <div key={invite.id} className="flex items-center justify-between rounded-lg bg-gray-50 p-3">
+                  <span className="font-mono text-lg tracking-wider">{formatGuardianInviteCode(invite.code)}</span>
+                  <span className="text-xs text-gray-500">
+                    Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={() => inviteMutation.mutate()} disabled={!student || inviteMutation.isPending}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            {inviteMutation.isPending ? "Creating..." : "Create invite code"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -31,6 +38,7 @@ import { useToast } from "@/hooks/use-toast";
 import { api } from "@/lib/api";
 import { CircleHelp, Loader2, X, Sparkles, Brain, FileText, Upload } from "lucide-react";
 import type {
+  AssessmentCreateRequestDTO,
   LearnerOutcomeHierarchyItemDTO,
 } from "@shared/contracts/api";
 import { AssessmentCompetencySelector } from "@/components/modals/create-assessment/assessment-competency-selector";
@@ -38,7 +46,10 @@ import { AssessmentQuestionsEditor } from "@/components/modals/create-assessment
 import {
   assessmentSchema,
   collectSelectedSkills,
+  ATTEMPT_LIMIT_OPTIONS,
+  LATE_POLICY_LABELS,
   type AssessmentForm,
+  type LatePolicy,
 } from "@/components/modals/create-assessment/assessment-form";
 import { useAssessmentAiGeneration } from "@/components/modals/create-assessment/use-assessment-ai-generation";
 
@@ -69,6 +80,11 @@ export default function CreateAssessmentModal({
       title: "",
       description: "",
       dueDate: "",
+      timeLimitMinutes: "",
+      availableFrom: "",
+      availableUntil: "",
+      latePolicy: "flag",
+      maxAttempts: "1",
       componentSkillIds: [],
       assessmentType: "teacher",
       allowSelfEvaluation: false,
@@ -158,7 +174,7 @@ export default function CreateAssessmentModal({
 
   // Create assessment mutation
   const createAssessmentMutation = useMutation({
-    mutationFn: async (data: AssessmentForm) => {
+    mutationFn: async (data: AssessmentCreateRequestDTO) => {
       return api.createAssessment(data);
     },
     onSuccess: (assessment) => {
@@ -184,10 +200,31 @@ export default function CreateAssessmentModal({
   });
 
   const onSubmit = (data: AssessmentForm) => {
-    const submissionData = {
-      ...data,
-      questions: data.assessmentType === "teacher" ? data.questions : undefined,
+    const { timeLimitMinutes, availableFrom, availableUntil, maxAttempts, ...formData } = data;
+    const submissionData: AssessmentCreateRequestDTO = {
+      ...formData,
+      questions: data.assessmentType === "teacher"
+        ? data.questions?.map(({ points, tolerance, pairs, ...question }) => ({
+          ...question,
+          ...(question.type === "multiple-choice" && points ? { points: Number(points) } : {}),
+          ...(question.type === "numeric" ? { tolerance: tolerance ? Number(tolerance) : 0 } : {}),
+          ...(question.type === "ranking"
+            ? { options: (question.options ?? []).map((option) => option.trim()).filter(Boolean) }
+            : {}),
+          ...(question.type === "matching"
+            ? {
+              pairs: (pairs ?? [])
+                .map((pair) => ({ left: pair.left.trim(), right: pair.right.trim() }))
+                .filter((pair) => pair.left && pair.right),
+            }
+            : {}),
+        }))
+        : undefined,
       pdfUrl: pdfObjectPath || undefined,
+      timeLimitMinutes: timeLimitMinutes ? Number(timeLimitMinutes) : null,
+      availableFrom: availableFrom ? new Date(availableFrom).toISOString() : null,
+      availableUntil: availableUntil ? new Date(availableUntil).toISOString() : null,
+      maxAttempts: maxAttempts === "unlimited" ? null : Number(maxAttempts),
     };
 
     createAssessmentMutation.mutate(submissionData);
@@ -425,6 +462,119 @@ export default function CreateAssessmentModal({
               )}
             />
 
+            {/* Timing and Late Policy */}
+            {assessmentType === "teacher" && (
+              <div className="space-y-4 rounded-lg border border-gray-200 p-4">
+                <div>
+                  <Label className="text-base font-medium">Timing</Label>
+                  <p className="text-sm text-gray-500">
+                    Optional. Limits are enforced when students start and submit.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="timeLimitMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Time Limit (minutes)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={1440}
+                            placeholder="No limit"
+                            {...field}
+                            className="focus-ring"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="availableFrom"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Opens</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} className="focus-ring" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="availableUntil"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Closes</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} className="focus-ring" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="latePolicy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Late Submissions</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select late policy" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(LATE_POLICY_LABELS) as LatePolicy[]).map((policy) => (
+                              <SelectItem key={policy} value={policy}>
+                                {LATE_POLICY_LABELS[policy]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxAttempts"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Attempts Allowed</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select attempt limit" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ATTEMPT_LIMIT_OPTIONS.map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {option === "unlimited" ? "Unlimited" : option === "1" ? "1 (no resubmission)" : option}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Students can revise and resubmit after each attempt has been graded.
+                </p>
+              </div>
+            )}
+
             {/* Component Skills Selection */}
             <FormField
               control={form.control}
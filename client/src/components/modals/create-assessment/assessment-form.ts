@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { QUESTION_TYPES, parseNumericAnswer, type QuestionType } from "@shared/question-types";
 import type {
   ComponentSkillWithDetailsDTO,
   HierarchyCompetencyDTO,
@@ -19,15 +20,38 @@ export const assessmentSchema = z.object({
       message: "Due date must be today or in the future",
     },
   ),
+  timeLimitMinutes: z.string().optional().refine(
+    (value) => !value || (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 1440),
+    {
+      message: "Time limit must be between 1 and 1440 minutes",
+    },
+  ),
+  availableFrom: z.string().optional(),
+  availableUntil: z.string().optional(),
+  latePolicy: z.enum(["accept", "reject", "flag"]).default("flag"),
+  maxAttempts: z.enum(["1", "2", "3", "5", "unlimited"]).default("1"),
   componentSkillIds: z.array(z.number()).min(1, "At least one component skill must be selected"),
   assessmentType: z.enum(["teacher", "self-evaluation"]).default("teacher"),
   allowSelfEvaluation: z.boolean().default(false),
   questions: z.array(z.object({
     text: z.string().min(1, "Question text is required"),
-    type: z.enum(["open-ended", "multiple-choice", "short-answer"]),
+    type: z.enum(QUESTION_TYPES),
     rubricCriteria: z.string().optional(),
     options: z.array(z.string()).optional(),
     correctAnswer: z.string().optional(),
+    tolerance: z.string().optional().refine(
+      (value) => !value || (parseNumericAnswer(value) !== null && Number(value) >= 0),
+      {
+        message: "Tolerance must be zero or a positive number",
+      },
+    ),
+    pairs: z.array(z.object({ left: z.string(), right: z.string() })).optional(),
+    points: z.string().optional().refine(
+      (value) => !value || (Number(value) > 0 && Number(value) <= 100),
+      {
+        message: "Points must be greater than 0 and at most 100",
+      },
+    ),
   })).optional(),
 }).refine((data) => {
   if (data.assessmentType === "teacher") {
@@ -37,11 +61,59 @@ export const assessmentSchema = z.object({
 }, {
   message: "Questions are required for teacher assessments",
   path: ["questions"],
+}).refine((data) => {
+  // Multiple-choice questions are auto-graded, so each needs an answer key that matches an option
+  return (data.questions ?? []).every((question) => {
+    if (question.type !== "multiple-choice") {
+      return true;
+    }
+    const options = (question.options ?? []).map((option) => option.trim()).filter(Boolean);
+    return Boolean(question.correctAnswer && options.includes(question.correctAnswer.trim()));
+  });
+}, {
+  message: "Each multiple-choice question needs a correct answer selected from its options",
+  path: ["questions"],
+}).refine((data) => {
+  return (data.questions ?? []).every((question) => {
+    if (question.type === "numeric") {
+      return parseNumericAnswer(question.correctAnswer) !== null;
+    }
+    if (question.type === "ranking") {
+      return (question.options ?? []).filter((option) => option.trim()).length >= 2;
+    }
+    if (question.type === "matching") {
+      const pairs = (question.pairs ?? []).filter((pair) => pair.left.trim() && pair.right.trim());
+      const lefts = new Set(pairs.map((pair) => pair.left.trim()));
+      return pairs.length >= 2 && lefts.size === pairs.length;
+    }
+    return true;
+  });
+}, {
+  message: "Numeric questions need a numeric answer, ranking questions at least two items, and matching questions at least two complete pairs with distinct prompts",
+  path: ["questions"],
+}).refine((data) => {
+  if (data.availableFrom && data.availableUntil) {
+    return new Date(data.availableFrom) < new Date(data.availableUntil);
+  }
+  return true;
+}, {
+  message: "Closing time must be after the opening time",
+  path: ["availableUntil"],
 });
 
 export type AssessmentForm = z.infer<typeof assessmentSchema>;
-export type QuestionTypeKey = "open-ended" | "multiple-choice" | "short-answer";
+// Question types the AI generator can produce; the editor supports every QuestionType
+export type QuestionTypeKey = Extract<QuestionType, "open-ended" | "multiple-choice" | "short-answer">;
 export type AssessmentType = AssessmentForm["assessmentType"];
+export type LatePolicy = AssessmentForm["latePolicy"];
+
+export const ATTEMPT_LIMIT_OPTIONS: AssessmentForm["maxAttempts"][] = ["1", "2", "3", "5", "unlimited"];
+
+export const LATE_POLICY_LABELS: Record<LatePolicy, string> = {
+  accept: "Accept late work",
+  flag: "Accept and flag as late",
+  reject: "Reject late work",
+};
 
 export function collectSelectedSkills(
   hierarchy: LearnerOutcomeHierarchyItemDTO[],
@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { CircleHelp, Plus, Trash2, X } from "lucide-react";
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from "@shared/question-types";
 import type { AssessmentForm } from "./assessment-form";
 
 interface AssessmentQuestionsEditorProps {
@@ -56,6 +57,12 @@ export function AssessmentQuestionsEditor({
         </Button>
       </div>
 
+      {form.formState.errors.questions?.root?.message || form.formState.errors.questions?.message ? (
+        <p className="text-sm font-medium text-destructive">
+          {form.formState.errors.questions?.root?.message ?? form.formState.errors.questions?.message}
+        </p>
+      ) : null}
+
       {questionFields.map((question, index) => (
         <Card key={question.id} className="border border-gray-200">
           <CardHeader className="pb-3">
@@ -121,11 +128,15 @@ export function AssessmentQuestionsEditor({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="open-ended">Open-ended</SelectItem>
-                      <SelectItem value="multiple-choice" disabled={disableMultipleChoice}>
-                        Multiple Choice
-                      </SelectItem>
-                      <SelectItem value="short-answer">Short Answer</SelectItem>
+                      {QUESTION_TYPES.map((type) => (
+                        <SelectItem
+                          key={type}
+                          value={type}
+                          disabled={type === "multiple-choice" && disableMultipleChoice}
+                        >
+                          {QUESTION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -133,10 +144,13 @@ export function AssessmentQuestionsEditor({
               )}
             />
 
-            {form.watch(`questions.${index}.type`) === "multiple-choice" && (
+            {(form.watch(`questions.${index}.type`) === "multiple-choice" ||
+              form.watch(`questions.${index}.type`) === "ranking") && (
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label className="text-sm font-medium">Answer Options</Label>
+                  <Label className="text-sm font-medium">
+                    {form.watch(`questions.${index}.type`) === "ranking" ? "Items (in the correct order)" : "Answer Options"}
+                  </Label>
                   <Button
                     type="button"
                     onClick={() => onAddMultipleChoiceOption(index)}
@@ -151,7 +165,11 @@ export function AssessmentQuestionsEditor({
                 {(form.watch(`questions.${index}.options`) || []).map((option: string, optionIndex: number) => (
                   <div key={`option-${index}-${optionIndex}`} className="flex items-center space-x-2">
                     <Input
-                      placeholder={`Option ${optionIndex + 1}`}
+                      placeholder={
+                        form.watch(`questions.${index}.type`) === "ranking"
+                          ? `Item ${optionIndex + 1}`
+                          : `Option ${optionIndex + 1}`
+                      }
                       value={option}
                       onChange={(e) => {
                         const currentOptions = form.getValues(`questions.${index}.options`) || [];
@@ -173,16 +191,165 @@ export function AssessmentQuestionsEditor({
                   </div>
                 ))}
 
+                {form.watch(`questions.${index}.type`) === "ranking" ? (
+                  <p className="text-xs text-gray-500">
+                    Students see these items shuffled and put them back in order.
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <FormField
+                        control={form.control}
+                        name={`questions.${index}.correctAnswer`}
+                        render={({ field }) => {
+                          const filledOptions = (form.watch(`questions.${index}.options`) || [])
+                            .map((option: string) => option.trim())
+                            .filter(Boolean);
+                          return (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Correct Answer</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value || undefined}>
+                                <FormControl>
+                                  <SelectTrigger className="focus-ring">
+                                    <SelectValue placeholder="Select the correct option" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {filledOptions.map((option: string, optionIndex: number) => (
+                                    <SelectItem key={`correct-${index}-${optionIndex}`} value={option}>
+                                      {option}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          );
+                        }}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name={`questions.${index}.points`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Points</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                step="0.5"
+                                placeholder="1"
+                                {...field}
+                                value={field.value ?? ""}
+                                className="focus-ring"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Multiple-choice answers are scored automatically when students submit.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {form.watch(`questions.${index}.type`) === "matching" && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Matching Pairs</Label>
+                  <Button
+                    type="button"
+                    onClick={() => {
+                      const currentPairs = form.getValues(`questions.${index}.pairs`) || [];
+                      form.setValue(`questions.${index}.pairs`, [...currentPairs, { left: "", right: "" }]);
+                    }}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Plus className="mr-2 h-3 w-3" />
+                    Add Pair
+                  </Button>
+                </div>
+
+                {(form.watch(`questions.${index}.pairs`) || []).map((pair, pairIndex) => (
+                  <div key={`pair-${index}-${pairIndex}`} className="flex items-center space-x-2">
+                    {(["left", "right"] as const).map((side) => (
+                      <Input
+                        key={side}
+                        placeholder={side === "left" ? `Prompt ${pairIndex + 1}` : `Match ${pairIndex + 1}`}
+                        value={pair[side]}
+                        onChange={(e) => {
+                          const newPairs = [...(form.getValues(`questions.${index}.pairs`) || [])];
+                          newPairs[pairIndex] = { ...newPairs[pairIndex], [side]: e.target.value };
+                          form.setValue(`questions.${index}.pairs`, newPairs);
+                        }}
+                        className="flex-1"
+                      />
+                    ))}
+                    <Button
+                      type="button"
+                      onClick={() => {
+                        const currentPairs = form.getValues(`questions.${index}.pairs`) || [];
+                        form.setValue(
+                          `questions.${index}.pairs`,
+                          currentPairs.filter((_, currentIndex) => currentIndex !== pairIndex),
+                        );
+                      }}
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Students match each prompt to one of the shuffled answers.
+                </p>
+              </div>
+            )}
+
+            {form.watch(`questions.${index}.type`) === "numeric" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
                   name={`questions.${index}.correctAnswer`}
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Correct Answer</FormLabel>
+                      <FormLabel>Correct Value</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter the correct answer"
+                          type="number"
+                          step="any"
+                          placeholder="e.g. 9.81"
                           {...field}
+                          value={field.value ?? ""}
+                          className="focus-ring"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`questions.${index}.tolerance`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tolerance (±)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          placeholder="0"
+                          {...field}
+                          value={field.value ?? ""}
                           className="focus-ring"
                         />
                       </FormControl>
@@ -193,6 +360,12 @@ export function AssessmentQuestionsEditor({
               </div>
             )}
 
+            {form.watch(`questions.${index}.type`) === "file-upload" && (
+              <p className="text-xs text-gray-500">
+                Students upload a file as their answer. It is scored against the rubric criteria below.
+              </p>
+            )}
+
             <FormField
               control={form.control}
               name={`questions.${index}.rubricCriteria`}
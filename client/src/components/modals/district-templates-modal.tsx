@@ -0,0 +1,93 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FolderOpen, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { getQuotaExceededMessage } from "@/lib/plans";
+import type { DistrictProjectTemplateDTO, ProjectDTO } from "@shared/contracts/api";
+
+interface DistrictTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onProjectCreated: (project: ProjectDTO) => void;
+}
+
+/** Lists the district's published templates; using one creates a draft project with its milestones. */
+export default function DistrictTemplatesModal({ isOpen, onClose, onProjectCreated }: DistrictTemplatesModalProps) {
+  const { toast } = useToast();
+
+  const { data: templates = [], isLoading } = useQuery<DistrictProjectTemplateDTO[]>({
+    queryKey: ["/api/districts/templates"],
+    queryFn: api.getDistrictTemplates,
+    enabled: isOpen,
+  });
+
+  const useTemplateMutation = useMutation({
+    mutationFn: api.createProjectFromDistrictTemplate,
+    onSuccess: (project) => {
+      toast({ title: "Project created", description: `${project.title} was added to your projects as a draft.` });
+      onProjectCreated(project);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't use the template",
+        description: getQuotaExceededMessage(error) ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FolderOpen className="h-5 w-5 text-green-600" />
+            <span>District Templates</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-gray-600">Loading templates...</p>}
+        {!isLoading && templates.length === 0 && (
+          <p className="text-sm text-gray-600">Your district hasn't published any project templates yet.</p>
+        )}
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-3 pr-2">
+            {templates.map((template) => (
+              <div key={template.id} className="rounded-lg border border-gray-200 p-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{template.title}</p>
+                    {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => useTemplateMutation.mutate(template.id)}
+                    disabled={useTemplateMutation.isPending}
+                  >
+                    {useTemplateMutation.isPending && useTemplateMutation.variables === template.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Use template"
+                    )}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {template.subjectArea && <Badge variant="secondary">{template.subjectArea}</Badge>}
+                  {template.gradeLevel && <Badge variant="secondary">Grade {template.gradeLevel}</Badge>}
+                  {template.estimatedDuration && <Badge variant="secondary">{template.estimatedDuration}</Badge>}
+                  <Badge variant="outline">{template.milestones.length} milestones</Badge>
+                  <Badge variant="outline">{template.componentSkillIds.length} skills</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
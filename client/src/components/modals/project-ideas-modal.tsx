@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, throwIfResNotOk } from "@/lib/queryClient";
+import { getQuotaExceededMessage } from "@/lib/plans";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -47,6 +48,8 @@ import {
   ChevronRight,
   Search
 } from "lucide-react";
+import type { PlanUsageDTO } from "@shared/contracts/api";
+import { getPlan } from "@shared/plans";
 
 const projectIdeaSchema = z.object({
   subject: z.string().min(1, "Subject is required"),
@@ -125,17 +128,19 @@ export default function ProjectIdeasModal({
   const [selectedGrade, setSelectedGrade] = useState('');
   const [selectedBodyOfKnowledge, setSelectedBodyOfKnowledge] = useState('');
 
-  // Fetch user data to check usage limits
-  const { data: user } = useQuery<any>({
-    queryKey: ['/api/auth/user'],
+  // Fetch plan usage to check the AI generation allowance
+  const { data: planUsage } = useQuery<PlanUsageDTO>({
+    queryKey: ['/api/plans/usage'],
   });
 
   // Calculate usage
-  const isFreeTier = user?.tier === 'free';
-  const usageCount = user?.projectGenerationCount || 0;
-  const usageLimit = 5;
-  const isLimitReached = isFreeTier && usageCount >= usageLimit;
-  const remainingGenerations = Math.max(0, usageLimit - usageCount);
+  const generationUsage = planUsage?.usage.find((item) => item.metric === 'ai_generation');
+  const usageLimit = generationUsage?.limit ?? null;
+  const isLimited = usageLimit !== null;
+  const usageCount = generationUsage?.used ?? 0;
+  const isLimitReached = usageLimit !== null && usageCount >= usageLimit;
+  const remainingGenerations = usageLimit === null ? 0 : Math.max(0, usageLimit - usageCount);
+  const planName = getPlan(planUsage?.planId).name;
 
   // Fetch the complete 3-level hierarchy
   const { data: hierarchyData = [], isLoading } = useQuery<LearnerOutcome[]>({
@@ -231,13 +236,13 @@ export default function ProjectIdeasModal({
         },
         body: JSON.stringify(data),
       });
-      if (!response.ok) throw new Error('Failed to generate project ideas');
+      await throwIfResNotOk(response);
       return response.json();
     },
     onSuccess: (data) => {
       setGeneratedIdeas(data.ideas || []);
-      // Refresh user data to update usage count
-      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      // Refresh plan usage to update the generation count
+      queryClient.invalidateQueries({ queryKey: ['/api/plans/usage'] });
       toast({
         title: "Ideas Generated!",
         description: `Generated ${data.ideas?.length || 0} project ideas based on your criteria.`,
@@ -247,7 +252,7 @@ export default function ProjectIdeasModal({
     onError: (error: any) => {
       toast({
         title: "Generation Failed",
-        description: error.message || "Failed to generate project ideas. Please try again.",
+        description: getQuotaExceededMessage(error) || error.message || "Failed to generate project ideas. Please try again.",
         variant: "destructive",
       });
     },
@@ -744,10 +749,10 @@ export default function ProjectIdeasModal({
                       )}
                     </div>
 
-                    {isFreeTier && (
+                    {isLimited && (
                       <div className={`p-3 rounded-md mb-4 ${isLimitReached ? 'bg-red-50 text-red-800' : 'bg-blue-50 text-blue-800'}`}>
                         <div className="flex items-center justify-between mb-1">
-                          <span className="font-semibold text-sm">Free Tier Usage</span>
+                          <span className="font-semibold text-sm">{planName} Plan Usage</span>
                           <span className="text-xs font-medium">{usageCount} / {usageLimit} used</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
@@ -758,7 +763,7 @@ export default function ProjectIdeasModal({
                         </div>
                         {isLimitReached ? (
                           <p className="text-xs mt-2">
-                            You have reached your monthly limit. Please upgrade to Enterprise for unlimited AI generation.
+                            You have reached your monthly limit. Ask your district administrator about a larger plan.
                           </p>
                         ) : (
                           <p className="text-xs mt-1">
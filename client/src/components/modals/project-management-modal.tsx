@@ -426,6 +426,7 @@ export default function ProjectManagementModal({ projectId, isOpen, readOnly = f
         componentSkillIds: projectComponentSkillIds,
         questions,
         aiGenerated: true,
+        aiPromptVersion: aiAssessment.promptVersion ?? null,
         assessmentType: "teacher",
       };
 
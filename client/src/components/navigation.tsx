@@ -11,7 +11,11 @@ import {
   Award,
   LayoutDashboard,
   Users,
-  Settings
+  Settings,
+  FileSpreadsheet,
+  History,
+  School,
+  Sparkles
 } from "lucide-react";
 
 export default function Navigation() {
@@ -48,6 +52,7 @@ function NavigationContent({ user, location, mobileMenuOpen, setMobileMenuOpen }
         { name: 'Dashboard', href: '/teacher/dashboard', icon: LayoutDashboard },
         { name: 'Projects', href: '/teacher/projects', icon: BookOpen },
         { name: 'Assessments', href: '/teacher/assessments', icon: Target },
+        { name: 'Classes', href: '/teacher/classes', icon: School },
       ];
     }
 
@@ -59,10 +64,25 @@ function NavigationContent({ user, location, mobileMenuOpen, setMobileMenuOpen }
       ];
     }
 
+    if (user?.role === 'guardian') {
+      return [
+        { name: 'Progress', href: '/guardian/dashboard', icon: LayoutDashboard },
+      ];
+    }
+
+    if (user?.role === 'district_admin') {
+      return [
+        { name: 'District', href: '/district/dashboard', icon: LayoutDashboard },
+      ];
+    }
+
     if (user?.role === 'admin') {
       return [
         { name: 'Dashboard', href: '/admin/dashboard', icon: LayoutDashboard },
         { name: 'Users', href: '/admin/users', icon: Users },
+        { name: 'Roster', href: '/admin/roster', icon: FileSpreadsheet },
+        { name: 'Audit Log', href: '/admin/audit-log', icon: History },
+        { name: 'Prompts', href: '/admin/prompts', icon: Sparkles },
       ];
     }
 
@@ -108,6 +128,12 @@ function NavigationContent({ user, location, mobileMenuOpen, setMobileMenuOpen }
 
           {/* Right side items */}
           <div className="flex items-center space-x-4">
+            <Button asChild variant="ghost" size="sm" title="Devices and sessions">
+              <Link href="/account/sessions">
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
+
             {/* Sign Out Button */}
             <Button
               variant="outline"
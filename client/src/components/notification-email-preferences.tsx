@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import {
+  EMAIL_DELIVERY_LABELS,
+  NOTIFICATION_TYPE_LABELS,
+  type EmailDelivery,
+} from '@shared/notification-preferences';
+import type { NotificationPreferenceDTO } from '@shared/contracts/api';
+
+const PREFERENCES_QUERY_KEY = ["/api/notifications/preferences"];
+
+/** Dialog for choosing instant email, a daily digest or in-app only per notification type. */
+export function NotificationEmailPreferences() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<NotificationPreferenceDTO[]>([]);
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferenceDTO[]>({
+    queryKey: PREFERENCES_QUERY_KEY,
+    queryFn: api.getNotificationPreferences,
+    enabled: open,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      setDraft(preferences);
+    }
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.updateNotificationPreferences(
+        draft
+          .filter((preference) => !preference.locked)
+          .map(({ type, emailDelivery }) => ({ type, emailDelivery })),
+      ),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, saved);
+      setOpen(false);
+      toast({ title: "Email preferences saved" });
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't save email preferences",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDelivery = (type: NotificationPreferenceDTO['type'], emailDelivery: EmailDelivery) => {
+    setDraft((current) =>
+      current.map((preference) => (preference.type === type ? { ...preference, emailDelivery } : preference))
+    );
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => setOpen(true)} title="Email preferences">
+        <Mail className="h-4 w-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Email notifications</DialogTitle>
+            <DialogDescription>
+              Choose how each kind of notification reaches your inbox. Everything still appears in the app.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading preferences...</p>
+          ) : (
+            <div className="space-y-3">
+              {draft.map((preference) => (
+                <div key={preference.type} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-gray-900">{NOTIFICATION_TYPE_LABELS[preference.type]}</span>
+                  {preference.locked ? (
+                    <span className="text-xs text-gray-500">Always emailed right away</span>
+                  ) : (
+                    <Select
+                      value={preference.emailDelivery}
+                      onValueChange={(value) => setDelivery(preference.type, value as EmailDelivery)}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EMAIL_DELIVERY_LABELS) as EmailDelivery[]).map((delivery) => (
+                          <SelectItem key={delivery} value={delivery}>
+                            {EMAIL_DELIVERY_LABELS[delivery]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={isLoading || saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -3,16 +3,19 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Bell, X, CheckCircle, Clock, AlertTriangle, FileText, Users, Award } from 'lucide-react';
+import { Bell, X, CheckCircle, Clock, AlertTriangle, FileText, Users, Award, Wallet } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { useNotificationStream } from '@/hooks/use-notification-stream';
+import { NotificationEmailPreferences } from '@/components/notification-email-preferences';
 import { api } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
 import type { NotificationDTO } from '@shared/contracts/api';
 
 interface Notification {
   id: number;
-  type: 'assignment' | 'deadline' | 'feedback' | 'grade' | 'credential' | 'system';
+  type: 'assignment' | 'deadline' | 'feedback' | 'grade' | 'credential' | 'system' | 'ai_budget';
   title: string;
   message: string;
   timestamp: string;
@@ -25,6 +28,9 @@ interface Notification {
   } | null;
 }
 
+// Used only while the real-time stream is unavailable
+const POLL_INTERVAL_MS = 30000;
+
 interface NotificationSystemProps {
   userId: number;
   userRole: 'teacher' | 'student' | 'admin';
@@ -37,19 +43,32 @@ export default function NotificationSystem({ userId, userRole }: NotificationSys
   const [isOpen, setIsOpen] = useState(false);
 
   const mapNotificationType = (type: string): Notification['type'] => {
-    if (type === 'safety_alert') return 'system';
-    if (type === 'assignment' || type === 'deadline' || type === 'feedback' || type === 'grade' || type === 'credential' || type === 'system') {
+    if (type === 'safety_alert' || type === 'safety_incident') return 'system';
+    if (type === 'assignment' || type === 'deadline' || type === 'feedback' || type === 'grade' || type === 'credential' || type === 'system' || type === 'ai_budget') {
       return type;
     }
     return 'system';
   };
 
-  // Fetch notifications from API
+  // Push new notifications into the cached list as soon as the server streams them
+  const { isStreaming } = useNotificationStream(isAuthenticated, (notification) => {
+    queryClient.setQueryData<NotificationDTO[]>(["/api/notifications"], (current = []) =>
+      current.some((existing) => existing.id === notification.id) ? current : [notification, ...current]
+    );
+    toast({
+      title: notification.title,
+      description: notification.message,
+      variant: notification.priority === 'high' ? 'destructive' : 'default',
+    });
+  });
+
+  // Fetch notifications from API, polling only when the stream is down
   const { data: apiNotifications = [], isLoading: notificationsLoading } = useQuery<NotificationDTO[]>({
     queryKey: ["/api/notifications"],
     queryFn: api.getNotifications,
     enabled: isAuthenticated,
     retry: false,
+    refetchInterval: isStreaming ? false : POLL_INTERVAL_MS,
   });
 
   useEffect(() => {
@@ -62,7 +81,7 @@ export default function NotificationSystem({ userId, userRole }: NotificationSys
         message: notif.message,
         timestamp: notif.createdAt ? String(notif.createdAt) : new Date().toISOString(),
         read: Boolean(notif.read),
-        actionUrl: notif.type === 'safety_alert' ? '/teacher/safety-incidents' : undefined,
+        actionUrl: notif.type === 'safety_alert' || notif.type === 'safety_incident' ? '/teacher/safety-incidents' : undefined,
         metadata: notif.metadata
       }));
       setNotifications(transformedNotifications);
@@ -83,6 +102,8 @@ export default function NotificationSystem({ userId, userRole }: NotificationSys
         return <Award className="h-4 w-4 text-yellow-600" />;
       case 'system':
         return <AlertTriangle className="h-4 w-4 text-red-600" />;
+      case 'ai_budget':
+        return <Wallet className="h-4 w-4 text-orange-600" />;
       default:
         return <Bell className="h-4 w-4 text-gray-600" />;
     }
@@ -189,6 +210,7 @@ export default function NotificationSystem({ userId, userRole }: NotificationSys
                     Mark all read
                   </Button>
                 )}
+                <NotificationEmailPreferences />
                 <Button
                   variant="ghost"
                   size="sm"
@@ -32,6 +32,7 @@ interface ComponentSkillProgress {
     proficient: number;
     applying: number;
   };
+  masteryRule: string;
 }
 
 interface SchoolSkillsStats {
@@ -85,18 +86,28 @@ function compareGradeValues(a: string, b: string): number {
   return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
 }
 
-export default function SchoolSkillsTracker() {
+interface SchoolSkillsTrackerProps {
+  // Limits the school view to students enrolled in one class
+  classId?: number | null;
+}
+
+export default function SchoolSkillsTracker({ classId = null }: SchoolSkillsTrackerProps) {
   const [selectedOutcome, setSelectedOutcome] = useState<string>(ALL_FILTER_OPTION);
   const [selectedGrade, setSelectedGrade] = useState<string>(ALL_FILTER_OPTION);
   const [sortBy, setSortBy] = useState<SortOption>('assessed');
   const [viewMode, setViewMode] = useState<'overview' | 'details'>('overview');
 
-  const gradeQuery = selectedGrade === ALL_FILTER_OPTION
-    ? ''
-    : `?grade=${encodeURIComponent(selectedGrade)}`;
+  const filterParams = new URLSearchParams();
+  if (selectedGrade !== ALL_FILTER_OPTION) {
+    filterParams.set('grade', selectedGrade);
+  }
+  if (classId) {
+    filterParams.set('classId', String(classId));
+  }
+  const filterQuery = filterParams.toString() ? `?${filterParams.toString()}` : '';
 
-  const skillsProgressPath = `/api/assessments/teacher/school-component-skills-progress${gradeQuery}`;
-  const schoolStatsPath = `/api/assessments/teacher/school-skills-stats${gradeQuery}`;
+  const skillsProgressPath = `/api/assessments/teacher/school-component-skills-progress${filterQuery}`;
+  const schoolStatsPath = `/api/assessments/teacher/school-skills-stats${filterQuery}`;
 
   const { data: skillsData = [], isLoading, error } = useQuery<ComponentSkillProgress[]>({
     queryKey: [skillsProgressPath],
@@ -426,12 +437,13 @@ export default function SchoolSkillsTracker() {
                           </div>
                           <p className="mb-1 text-sm text-gray-700">{skill.competencyName}</p>
                           <p className="text-xs font-medium text-gray-600">{skill.learnerOutcomeName}</p>
+                          <p className="mt-1 text-xs text-gray-500">Current level per student · {skill.masteryRule}</p>
                         </div>
 
                         <div className="flex items-center space-x-6">
                           <div className="text-center">
                             <p className="text-2xl font-bold text-gray-900">{skill.averageScore.toFixed(1)}</p>
-                            <p className="text-xs text-gray-600">Avg Score</p>
+                            <p className="text-xs text-gray-600">Avg Mastery</p>
                           </div>
 
                           <div className="text-center">
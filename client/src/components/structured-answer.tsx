@@ -0,0 +1,36 @@
+import { Paperclip } from "lucide-react";
+import { formatAnswerForDisplay, parseFileUploadAnswer } from "@shared/question-types";
+
+interface StructuredAnswerProps {
+  type?: string;
+  answer: string;
+  className?: string;
+}
+
+/**
+ * Renders a stored answer for teachers, decoding ranking, matching and
+ * file-upload answers instead of showing their raw JSON.
+ */
+export function StructuredAnswer({ type, answer, className = "text-gray-900" }: StructuredAnswerProps) {
+  const uploadedFile = type === "file-upload" ? parseFileUploadAnswer(answer) : null;
+
+  if (uploadedFile) {
+    return (
+      <a
+        href={uploadedFile.objectPath}
+        target="_blank"
+        rel="noreferrer"
+        className="inline-flex items-center text-blue-700 hover:underline"
+      >
+        <Paperclip className="h-4 w-4 mr-2" />
+        {uploadedFile.name}
+      </a>
+    );
+  }
+
+  return (
+    <p className={`${className} whitespace-pre-wrap break-words`}>
+      {formatAnswerForDisplay(type, answer) || answer}
+    </p>
+  );
+}
@@ -72,13 +72,27 @@ function normalizeGradeLabel(grade: string | null | undefined): string {
   return normalized;
 }
 
-export default function StudentProgressView() {
+interface StudentProgressViewProps {
+  // Limits the list to students enrolled in one class
+  classId?: number | null;
+  // Read-only view of the signed-in guardian's linked students
+  guardianView?: boolean;
+}
+
+function progressQueryUrl(classId: number | null, guardianView: boolean): string {
+  if (guardianView) {
+    return "/api/guardian/students";
+  }
+  return classId ? `/api/schools/students-progress?classId=${classId}` : "/api/schools/students-progress";
+}
+
+export default function StudentProgressView({ classId = null, guardianView = false }: StudentProgressViewProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedGrade, setSelectedGrade] = useState<string>(ALL_GRADES_FILTER);
   const [selectedStudent, setSelectedStudent] = useState<StudentProgress | null>(null);
 
   const { data: studentsProgress = [], isLoading } = useQuery<StudentProgress[]>({
-    queryKey: ["/api/schools/students-progress"],
+    queryKey: [progressQueryUrl(classId, guardianView)],
     retry: false,
   });
 
@@ -232,7 +246,9 @@ export default function StudentProgressView() {
                     <p className="mt-1 text-xs text-gray-600">
                       {searchTerm || selectedGrade !== ALL_GRADES_FILTER
                         ? 'Try another username, choose a different grade, or clear filters.'
-                        : 'Students will appear here once they are enrolled.'}
+                        : guardianView
+                          ? 'Enter an invite code from your student\'s school to link them.'
+                          : 'Students will appear here once they are enrolled.'}
                     </p>
                     {(searchTerm || selectedGrade !== ALL_GRADES_FILTER) && (
                       <div className="mt-3 flex justify-center">
@@ -447,7 +463,10 @@ export default function StudentProgressView() {
                     </CardContent>
                   </Card>
                 ) : (
-                  <CompetencyProgress studentId={selectedStudent.id} />
+                  <CompetencyProgress
+                    studentId={selectedStudent.id}
+                    endpoint={guardianView ? `/api/guardian/students/${selectedStudent.id}/competency-progress` : undefined}
+                  />
                 )}
               </TabsContent>
             </Tabs>
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from "react";
+import type { NotificationDTO } from "@shared/contracts/api";
+import { tryRefreshToken } from "@/lib/queryClient";
+
+const STREAM_URL = "/api/notifications/stream";
+const INITIAL_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Opens the server-sent notification stream and keeps it open until the
+ * returned function is called. The browser reconnects on its own and sends
+ * Last-Event-ID so missed notifications are replayed. When the server refuses
+ * the reconnect (an expired access token answers 401), the browser gives up,
+ * so the stream is reopened here after refreshing the session, backing off
+ * between attempts and passing the last event id so nothing sent in between
+ * is lost.
+ */
+export function openNotificationStream(
+  onNotification: (notification: NotificationDTO) => void,
+  onStreamingChange: (isStreaming: boolean) => void,
+): () => void {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = INITIAL_RETRY_DELAY_MS;
+  let lastEventId: string | null = null;
+  let disposed = false;
+
+  const handleNotification = (event: MessageEvent<string>) => {
+    if (event.lastEventId) {
+      lastEventId = event.lastEventId;
+    }
+    try {
+      onNotification(JSON.parse(event.data) as NotificationDTO);
+    } catch (error) {
+      console.error("Error parsing streamed notification:", error);
+    }
+  };
+
+  const scheduleReopen = () => {
+    const delay = retryDelay;
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    retryTimer = setTimeout(async () => {
+      await tryRefreshToken();
+      if (!disposed) {
+        connect();
+      }
+    }, delay);
+  };
+
+  const connect = () => {
+    const url = lastEventId ? `${STREAM_URL}?lastEventId=${encodeURIComponent(lastEventId)}` : STREAM_URL;
+    const current = new EventSource(url, { withCredentials: true });
+    source = current;
+    current.onopen = () => {
+      retryDelay = INITIAL_RETRY_DELAY_MS;
+      onStreamingChange(true);
+    };
+    current.onerror = () => {
+      onStreamingChange(false);
+      // A closed source won't reconnect on its own; one still connecting will
+      if (current.readyState === EventSource.CLOSED && !disposed) {
+        current.removeEventListener("notification", handleNotification);
+        scheduleReopen();
+      }
+    };
+    current.addEventListener("notification", handleNotification);
+  };
+
+  connect();
+
+  return () => {
+    disposed = true;
+    clearTimeout(retryTimer);
+    source?.removeEventListener("notification", handleNotification);
+    source?.close();
+    onStreamingChange(false);
+  };
+}
+
+/**
+ * Subscribes to the notification stream while `enabled`. `isStreaming` is
+ * false whenever the stream is unavailable so callers can fall back to polling.
+ */
+export function useNotificationStream(
+  enabled: boolean,
+  onNotification: (notification: NotificationDTO) => void,
+) {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const onNotificationRef = useRef(onNotification);
+  onNotificationRef.current = onNotification;
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || typeof window.EventSource === "undefined") {
+      setIsStreaming(false);
+      return;
+    }
+
+    return openNotificationStream((notification) => onNotificationRef.current(notification), setIsStreaming);
+  }, [enabled]);
+
+  return { isStreaming };
+}
@@ -51,7 +51,7 @@ export function useUpload(options: UseUploadOptions = {}) {
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "Failed to upload file");
+          throw new Error(errorData.message || errorData.error || "Failed to upload file");
         }
 
         const uploadResponse: UploadApiResponse = await response.json();
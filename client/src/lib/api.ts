@@ -1,18 +1,28 @@
 import type {
+  AiBudgetDTO,
+  AiBudgetUpdateRequestDTO,
+  AiUsageSummaryDTO,
   AIAssessmentGenerationRequestDTO,
   AIAssessmentGenerationResponseDTO,
+  AssessmentItemAnalysisDTO,
   AssessmentSubmissionSummaryDTO,
   BestStandardDTO,
   AssessmentCreateRequestDTO,
   ApiMessageResponse,
   AssessmentDTO,
   AssessmentUpdateRequestDTO,
+  AuthConfirmEmailRequestDTO,
   AuthCurrentUserResponseDTO,
+  AuthForgotPasswordRequestDTO,
+  AuthResetPasswordRequestDTO,
+  AuthSessionDTO,
   ComponentSkillWithDetailsDTO,
   CredentialDTO,
+  CredentialReportPeriod,
   LearnerOutcomeHierarchyItemDTO,
   MilestoneDTO,
   NotificationDTO,
+  NotificationPreferenceDTO,
   PortfolioArtifactDTO,
   PortfolioSettingsDTO,
   PortfolioShareLinkDTO,
@@ -22,25 +32,73 @@ import type {
   ProjectUpdateRequestDTO,
   ProjectDTO,
   ProjectIdeaMilestoneDTO,
+  SchoolSsoProviderRequestDTO,
+  SchoolSsoSettingsDTO,
+  SsoDiscoveryDTO,
   StudentAssessmentSubmissionDTO,
   StudentSchoolProgressDTO,
   StudentSummaryDTO,
   SubmissionCreateRequestDTO,
+  SubmissionAttemptDTO,
+  SubmissionAttemptHistoryDTO,
+  SubmissionDraftDTO,
+  SubmissionDraftSaveRequestDTO,
   SubmissionFeedbackPreviewRequestDTO,
   SubmissionFeedbackPreviewResponseDTO,
   SubmissionGradeRequestDTO,
   SubmissionDTO,
   SubmissionWithAssessmentDTO,
+  TutorSessionDetailDTO,
+  TutorSessionSummaryDTO,
+  TutorSkillMisconceptionsDTO,
+  TeacherCredentialReportDTO,
   TeacherCurrentMilestoneDTO,
   TeacherDashboardStatsDTO,
   TeacherPendingTaskDTO,
   TeacherProjectOverviewDTO,
   FileUploadResponseDTO,
+  RosterImportDTO,
+  RosterImportPreviewDTO,
+  SchoolClassDTO,
+  SchoolClassDetailDTO,
+  ClassAssignmentDTO,
+  ClassAssignmentRequestDTO,
+  ClassCreateRequestDTO,
+  ClassUpdateRequestDTO,
+  StudentClassAssessmentDTO,
+  GuardianInviteDTO,
+  GuardianRedeemRequestDTO,
+  GuardianRegisterRequestDTO,
+  GuardianStudentPortfolioDTO,
+  GuardianStudentProgressDTO,
+  StudentGuardiansDTO,
+  DistrictCredentialReportDTO,
+  DistrictDTO,
+  DistrictFrameworkPublishDTO,
+  DistrictProjectOptionDTO,
+  DistrictProjectTemplateDTO,
+  DistrictSkillMasteryReportDTO,
+  DistrictUsageReportDTO,
+  DistrictSchoolAiCostDTO,
+  DistrictSchoolPlanDTO,
+  PlanUsageDTO,
+  AuditLogPageDTO,
+  PromptDetailDTO,
+  PromptSummaryDTO,
+  PromptVersionCreateRequestDTO,
+  PromptVersionDTO,
 } from "@shared/contracts/api";
+import type { SchoolMasteryRules } from "@shared/mastery-rules";
+import type { CredentialAwardRule } from "@shared/credential-award-rules";
+import type { NotificationPreferencesUpdate } from "@shared/notification-preferences";
+import type { PlanId } from "@shared/plans";
 import { apiJsonRequest } from "./queryClient";
 import { apiUploadFile } from "./apiHelpers";
 
 type UnknownRecord = Record<string, unknown>;
+
+const MASTERY_RULES_ENDPOINT = "/api/competencies/mastery-rules";
+const CREDENTIAL_AWARD_RULES_ENDPOINT = "/api/credentials/award-rules";
 type TeacherContentScope = "mine" | "school";
 
 function normalizeScope(scope: unknown): TeacherContentScope {
@@ -59,6 +117,108 @@ export const api = {
 
   // Auth endpoints
   getCurrentUser: () => apiJsonRequest<AuthCurrentUserResponseDTO>("/api/auth/user", "GET"),
+  requestPasswordReset: (data: AuthForgotPasswordRequestDTO) =>
+    apiJsonRequest<ApiMessageResponse>("/api/auth/forgot-password", "POST", data),
+  resetPassword: (data: AuthResetPasswordRequestDTO) =>
+    apiJsonRequest<ApiMessageResponse>("/api/auth/reset-password", "POST", data),
+  confirmEmail: (data: AuthConfirmEmailRequestDTO) =>
+    apiJsonRequest<ApiMessageResponse>("/api/auth/confirm-email", "POST", data),
+  resendEmailConfirmation: () =>
+    apiJsonRequest<ApiMessageResponse>("/api/auth/resend-confirmation", "POST"),
+  getSessions: () => apiJsonRequest<AuthSessionDTO[]>("/api/auth/sessions", "GET"),
+  revokeSession: (sessionId: string) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, "DELETE"),
+  revokeOtherSessions: () => apiJsonRequest<ApiMessageResponse>("/api/auth/sessions", "DELETE"),
+  discoverSso: (email: string) =>
+    apiJsonRequest<SsoDiscoveryDTO>(`/api/auth/sso/discover?email=${encodeURIComponent(email)}`, "GET"),
+  getSsoSettings: () => apiJsonRequest<SchoolSsoSettingsDTO>("/api/admin/sso", "GET"),
+  saveSsoSettings: (settings: SchoolSsoProviderRequestDTO) =>
+    apiJsonRequest<SchoolSsoSettingsDTO>("/api/admin/sso", "PUT", settings),
+  deleteSsoSettings: () => apiJsonRequest<ApiMessageResponse>("/api/admin/sso", "DELETE"),
+  getRosterImports: () => apiJsonRequest<RosterImportDTO[]>("/api/admin/roster/imports", "GET"),
+  previewRosterImport: (files: File[], orgSourcedId?: string) => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("files", file));
+    if (orgSourcedId) {
+      formData.append("orgSourcedId", orgSourcedId);
+    }
+    return apiJsonRequest<RosterImportPreviewDTO>("/api/admin/roster/imports", "POST", formData);
+  },
+  applyRosterImport: (importId: number) =>
+    apiJsonRequest<RosterImportPreviewDTO>(`/api/admin/roster/imports/${importId}/apply`, "POST"),
+  getAuditLogs: (params: URLSearchParams) =>
+    apiJsonRequest<AuditLogPageDTO>(`/api/admin/audit-logs?${params.toString()}`, "GET"),
+  getAiUsage: (days: number) => apiJsonRequest<AiUsageSummaryDTO>(`/api/admin/ai-usage?days=${days}`, "GET"),
+  updateAiBudget: (data: AiBudgetUpdateRequestDTO) =>
+    apiJsonRequest<AiBudgetDTO>("/api/admin/ai-usage/budget", "PUT", data),
+  getPrompts: () => apiJsonRequest<PromptSummaryDTO[]>("/api/admin/prompts", "GET"),
+  getPrompt: (key: string) => apiJsonRequest<PromptDetailDTO>(`/api/admin/prompts/${key}`, "GET"),
+  createPromptVersion: (key: string, data: PromptVersionCreateRequestDTO) =>
+    apiJsonRequest<PromptVersionDTO>(`/api/admin/prompts/${key}/versions`, "POST", data),
+  activatePromptVersion: (key: string, version: number) =>
+    apiJsonRequest<PromptVersionDTO>(`/api/admin/prompts/${key}/versions/${version}/activate`, "POST"),
+
+  // Classes
+  getClasses: (includeArchived = false) =>
+    apiJsonRequest<SchoolClassDTO[]>(includeArchived ? "/api/classes?includeArchived=true" : "/api/classes", "GET"),
+  getClass: (id: number) => apiJsonRequest<SchoolClassDetailDTO>(`/api/classes/${id}`, "GET"),
+  createClass: (data: ClassCreateRequestDTO) => apiJsonRequest<SchoolClassDTO>("/api/classes", "POST", data),
+  updateClass: (id: number, data: ClassUpdateRequestDTO) =>
+    apiJsonRequest<SchoolClassDTO>(`/api/classes/${id}`, "PATCH", data),
+  deleteClass: (id: number) => apiJsonRequest<ApiMessageResponse>(`/api/classes/${id}`, "DELETE"),
+  addClassStudents: (id: number, studentIds: number[]) =>
+    apiJsonRequest<SchoolClassDetailDTO>(`/api/classes/${id}/students`, "POST", { studentIds }),
+  removeClassStudent: (id: number, studentId: number) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/classes/${id}/students/${studentId}`, "DELETE"),
+  assignToClass: (id: number, data: ClassAssignmentRequestDTO) =>
+    apiJsonRequest<ClassAssignmentDTO[]>(`/api/classes/${id}/assignments`, "POST", data),
+  removeClassAssignment: (id: number, assignmentId: number) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/classes/${id}/assignments/${assignmentId}`, "DELETE"),
+  getStudentClassAssessments: () =>
+    apiJsonRequest<StudentClassAssessmentDTO[]>("/api/classes/assessments", "GET"),
+
+  // Guardians
+  registerGuardian: (data: GuardianRegisterRequestDTO) =>
+    apiJsonRequest<AuthCurrentUserResponseDTO>("/api/guardian/register", "POST", data),
+  redeemGuardianInvite: (data: GuardianRedeemRequestDTO) =>
+    apiJsonRequest<GuardianStudentProgressDTO[]>("/api/guardian/redeem", "POST", data),
+  getGuardianStudents: () => apiJsonRequest<GuardianStudentProgressDTO[]>("/api/guardian/students", "GET"),
+  getGuardianStudentPortfolio: (studentId: number) =>
+    apiJsonRequest<GuardianStudentPortfolioDTO>(`/api/guardian/students/${studentId}/portfolio`, "GET"),
+  setGuardianWeeklySummary: (studentId: number, weeklySummary: boolean) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/guardian/students/${studentId}`, "PATCH", { weeklySummary }),
+  createGuardianInvite: (studentId: number) =>
+    apiJsonRequest<GuardianInviteDTO>("/api/guardian/invites", "POST", { studentId }),
+  getStudentGuardians: (studentId: number) =>
+    apiJsonRequest<StudentGuardiansDTO>(`/api/guardian/roster/${studentId}`, "GET"),
+  unlinkGuardian: (studentId: number, linkId: number) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/guardian/roster/${studentId}/links/${linkId}`, "DELETE"),
+
+  // Districts
+  getDistrict: () => apiJsonRequest<DistrictDTO>("/api/districts/current", "GET"),
+  getDistrictUsage: () => apiJsonRequest<DistrictUsageReportDTO>("/api/districts/reports/usage", "GET"),
+  getDistrictSkillMastery: () =>
+    apiJsonRequest<DistrictSkillMasteryReportDTO>("/api/districts/reports/skill-mastery", "GET"),
+  getDistrictCredentialReport: (period: CredentialReportPeriod) =>
+    apiJsonRequest<DistrictCredentialReportDTO>(`/api/districts/reports/credentials?period=${period}`, "GET"),
+  searchDistrictProjects: (search: string) =>
+    apiJsonRequest<DistrictProjectOptionDTO[]>(`/api/districts/projects?search=${encodeURIComponent(search)}`, "GET"),
+  getDistrictTemplates: () => apiJsonRequest<DistrictProjectTemplateDTO[]>("/api/districts/templates", "GET"),
+  publishDistrictTemplate: (projectId: number) =>
+    apiJsonRequest<DistrictProjectTemplateDTO>("/api/districts/templates", "POST", { projectId }),
+  deleteDistrictTemplate: (templateId: number) =>
+    apiJsonRequest<ApiMessageResponse>(`/api/districts/templates/${templateId}`, "DELETE"),
+  createProjectFromDistrictTemplate: (templateId: number) =>
+    apiJsonRequest<ProjectDTO>(`/api/districts/templates/${templateId}/use`, "POST"),
+  publishDistrictFramework: () =>
+    apiJsonRequest<DistrictFrameworkPublishDTO>("/api/districts/framework/publish", "POST"),
+  getDistrictSchoolPlans: () => apiJsonRequest<DistrictSchoolPlanDTO[]>("/api/districts/plans", "GET"),
+  updateSchoolPlan: (schoolId: number, planId: PlanId) =>
+    apiJsonRequest<DistrictSchoolPlanDTO>(`/api/districts/schools/${schoolId}/plan`, "PUT", { planId }),
+  getDistrictAiCosts: () => apiJsonRequest<DistrictSchoolAiCostDTO[]>("/api/districts/ai-costs", "GET"),
+
+  // Plans
+  getPlanUsage: () => apiJsonRequest<PlanUsageDTO>("/api/plans/usage", "GET"),
 
   // Projects
   getProjects: (...args: unknown[]) =>
@@ -150,24 +310,53 @@ export const api = {
   // Submissions
   createSubmission: (data: SubmissionCreateRequestDTO) =>
     apiJsonRequest<SubmissionDTO>("/api/submissions", "POST", data),
+  getSubmissionDraft: (assessmentId: number) =>
+    apiJsonRequest<SubmissionDraftDTO | null>(`/api/submissions/drafts/${assessmentId}`, "GET"),
+  saveSubmissionDraft: (assessmentId: number, data: SubmissionDraftSaveRequestDTO) =>
+    apiJsonRequest<SubmissionDraftDTO>(`/api/submissions/drafts/${assessmentId}`, "PUT", data),
+  startSubmissionAttempt: (assessmentId: number) =>
+    apiJsonRequest<SubmissionAttemptDTO>(`/api/submissions/start/${assessmentId}`, "POST"),
   previewSubmissionFeedback: (data: SubmissionFeedbackPreviewRequestDTO) =>
     apiJsonRequest<SubmissionFeedbackPreviewResponseDTO>("/api/submissions/preview-feedback", "POST", data),
+  getSubmissionAttempts: (submissionId: number) =>
+    apiJsonRequest<SubmissionAttemptHistoryDTO>(`/api/submissions/${submissionId}/attempts`, "GET"),
   getStudentSubmissions: () =>
     apiJsonRequest<SubmissionWithAssessmentDTO[]>("/api/submissions/student", "GET"),
   getAssessmentSubmissions: (assessmentId: number) =>
     apiJsonRequest<AssessmentSubmissionSummaryDTO[]>(`/api/assessments/${assessmentId}/submissions`, "GET"),
+  getAssessmentItemAnalysis: (assessmentId: number) =>
+    apiJsonRequest<AssessmentItemAnalysisDTO>(`/api/assessments/${assessmentId}/item-analysis`, "GET"),
+  getAssessmentTutorSessions: (assessmentId: number, search: string) =>
+    apiJsonRequest<TutorSessionSummaryDTO[]>(
+      `/api/assessments/${assessmentId}/tutor-sessions?${new URLSearchParams({ search }).toString()}`,
+      "GET",
+    ),
+  getAssessmentTutorSession: (assessmentId: number, sessionId: number) =>
+    apiJsonRequest<TutorSessionDetailDTO>(`/api/assessments/${assessmentId}/tutor-sessions/${sessionId}`, "GET"),
+  getAssessmentTutorMisconceptions: (assessmentId: number) =>
+    apiJsonRequest<TutorSkillMisconceptionsDTO[]>(`/api/assessments/${assessmentId}/tutor-misconceptions`, "GET"),
+  refreshAssessmentTutorMisconceptions: (assessmentId: number) =>
+    apiJsonRequest<TutorSkillMisconceptionsDTO[]>(`/api/assessments/${assessmentId}/tutor-misconceptions/refresh`, "POST"),
   gradeSubmission: (submissionId: number, data: SubmissionGradeRequestDTO) =>
     apiJsonRequest<ApiMessageResponse>(`/api/submissions/${submissionId}/grade`, "POST", data),
 
   // Credentials
   getStudentCredentials: () =>
     apiJsonRequest<CredentialDTO[]>("/api/credentials/student", "GET"),
-  getTeacherCredentialStats: () =>
-    apiJsonRequest<CredentialDTO[]>("/api/credentials/teacher-stats", "GET"),
+  getTeacherCredentialStats: (period: CredentialReportPeriod) =>
+    apiJsonRequest<TeacherCredentialReportDTO>(`/api/credentials/teacher-stats?period=${period}`, "GET"),
+  approveCredential: (credentialId: number) =>
+    apiJsonRequest<CredentialDTO>(`/api/credentials/${credentialId}/approve`, "POST"),
+  revokeCredential: (credentialId: number, reason: string) =>
+    apiJsonRequest<CredentialDTO>(`/api/credentials/${credentialId}/revoke`, "POST", { reason }),
   getStudentCredentialsByStudentId: (studentId: number) =>
     apiJsonRequest<CredentialDTO[]>(`/api/credentials/student?studentId=${studentId}`, "GET"),
   awardCredential: (data: UnknownRecord) =>
     apiJsonRequest<CredentialDTO>("/api/credentials", "POST", data),
+  getCredentialAwardRules: (endpoint: string = CREDENTIAL_AWARD_RULES_ENDPOINT) =>
+    apiJsonRequest<CredentialAwardRule[]>(endpoint, "GET"),
+  updateCredentialAwardRules: (rules: CredentialAwardRule[], endpoint: string = CREDENTIAL_AWARD_RULES_ENDPOINT) =>
+    apiJsonRequest<CredentialAwardRule[]>(endpoint, "PUT", rules),
 
   // Portfolio
   getPortfolioArtifacts: () =>
@@ -215,6 +404,10 @@ export const api = {
     apiJsonRequest<UnknownRecord[]>("/api/learner-outcomes", "GET"),
   getLearnerOutcomesHierarchyComplete: () =>
     apiJsonRequest<LearnerOutcomeHierarchyItemDTO[]>("/api/competencies/learner-outcomes-hierarchy/complete", "GET"),
+  getMasteryRules: (endpoint: string = MASTERY_RULES_ENDPOINT) =>
+    apiJsonRequest<SchoolMasteryRules>(endpoint, "GET"),
+  updateMasteryRules: (rules: SchoolMasteryRules, endpoint: string = MASTERY_RULES_ENDPOINT) =>
+    apiJsonRequest<SchoolMasteryRules>(endpoint, "PUT", rules),
 
   // Notifications
   getNotifications: () =>
@@ -223,6 +416,10 @@ export const api = {
     apiJsonRequest<ApiMessageResponse>(`/api/notifications/${notificationId}/mark-read`, "POST"),
   markAllNotificationsAsRead: () =>
     apiJsonRequest<ApiMessageResponse>("/api/notifications/mark-all-read", "POST"),
+  getNotificationPreferences: () =>
+    apiJsonRequest<NotificationPreferenceDTO[]>("/api/notifications/preferences", "GET"),
+  updateNotificationPreferences: (preferences: NotificationPreferencesUpdate) =>
+    apiJsonRequest<NotificationPreferenceDTO[]>("/api/notifications/preferences", "PUT", { preferences }),
 
   // Dashboard endpoints
   getTeacherDashboardStats: () =>
@@ -0,0 +1,15 @@
+import { describeQuotaExcess, type QuotaExceededDetails } from "@shared/plans";
+import { isApiError } from "./queryClient";
+
+/** The quota behind a 402 response, or null for any other error. */
+export function getQuotaExceeded(error: unknown): QuotaExceededDetails | null {
+  if (!isApiError(error) || error.status !== 402 || !error.payload?.quota) {
+    return null;
+  }
+  return error.payload.quota as QuotaExceededDetails;
+}
+
+export function getQuotaExceededMessage(error: unknown): string | null {
+  const quota = getQuotaExceeded(error);
+  return quota ? describeQuotaExcess(quota) : null;
+}
@@ -0,0 +1,53 @@
+import type { TutorChatRequestDTO } from "@shared/contracts/api";
+import { parseTutorStreamEvents, type TutorStreamEvent } from "@shared/tutor-stream";
+import { apiRequest } from "./queryClient";
+
+export type TutorReply = Extract<TutorStreamEvent, { type: "complete" }>;
+
+interface TutorStreamHandlers {
+  onSession: (sessionId: number) => void;
+  onText: (text: string) => void;
+}
+
+/**
+ * Sends a student message to the AI tutor, passing the reply text to `onText`
+ * as it streams in, and resolves with the finished reply and its safety check.
+ * Errors before the stream starts (quota, validation) are thrown as ApiError
+ * like any other request.
+ */
+export async function streamTutorChat(request: TutorChatRequestDTO, handlers: TutorStreamHandlers): Promise<TutorReply> {
+  const response = await apiRequest("/api/ai/tutor/chat", "POST", request, {
+    headers: { Accept: "text/event-stream" },
+  });
+  if (!response.body) {
+    throw new Error("The tutor reply could not be read");
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let reply: TutorReply | null = null;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    const parsed = parseTutorStreamEvents(buffer + value);
+    buffer = parsed.rest;
+    for (const event of parsed.events) {
+      if (event.type === "session") {
+        handlers.onSession(event.sessionId);
+      } else if (event.type === "delta") {
+        handlers.onText(event.text);
+      } else if (event.type === "complete") {
+        reply = event;
+      } else {
+        throw new Error(event.message);
+      }
+    }
+  }
+
+  if (!reply) {
+    throw new Error("The tutor reply ended before it was complete");
+  }
+  return reply;
+}
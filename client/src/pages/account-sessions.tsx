@@ -0,0 +1,115 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Laptop, LogOut } from 'lucide-react';
+import Navigation from '@/components/navigation';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import type { AuthSessionDTO } from '@shared/contracts/api';
+
+const SESSIONS_QUERY_KEY = ['/api/auth/sessions'];
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function AccountSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<AuthSessionDTO[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: api.getSessions,
+  });
+
+  const onError = (title: string) => () => {
+    toast({ title, description: 'Please try again.', variant: 'destructive' });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: AuthSessionDTO) => api.revokeSession(session.id),
+    onSuccess: (_result, session) => {
+      if (session.current) {
+        window.location.href = '/login';
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: 'Session signed out', description: `${session.device} can no longer refresh its sign-in.` });
+    },
+    onError: onError("Couldn't sign out session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: api.revokeOtherSessions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: 'Signed out everywhere else' });
+    },
+    onError: onError("Couldn't sign out other sessions"),
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-3xl mx-auto">
+          <Card className="apple-shadow border-0">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+              <div>
+                <CardTitle className="text-xl font-semibold text-gray-900">Devices and sessions</CardTitle>
+                <CardDescription>
+                  Everywhere you're signed in. Signing out a device takes effect within 15 minutes.
+                </CardDescription>
+              </div>
+              {otherSessions.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => revokeOthersMutation.mutate()}
+                  disabled={revokeOthersMutation.isPending}
+                >
+                  Sign out all others
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isLoading && <p className="text-sm text-gray-500">Loading sessions...</p>}
+              {!isLoading && sessions.length === 0 && (
+                <p className="text-sm text-gray-500">No active sessions.</p>
+              )}
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Laptop className="h-5 w-5 text-gray-500 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {session.device}
+                        {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {[session.ipAddress, `Last active ${formatDateTime(session.lastUsedAt)}`].filter(Boolean).join(' · ')}
+                      </p>
+                      <p className="text-xs text-gray-500">Signed in {formatDateTime(session.signedInAt)}</p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate(session)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Sign out
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
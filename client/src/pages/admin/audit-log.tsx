@@ -0,0 +1,247 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Download, History, Search } from "lucide-react";
+import Navigation from "@/components/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, type AuditAction, type AuditChanges } from "@shared/audit";
+import type { AuditLogPageDTO } from "@shared/contracts/api";
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  action: AuditAction | "all";
+  search: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: "all", search: "", from: "", to: "" };
+
+// Date inputs are local calendar days; the range covers the whole of both days
+function filterParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.action !== "all") {
+    params.set("action", filters.action);
+  }
+  if (filters.search.trim()) {
+    params.set("search", filters.search.trim());
+  }
+  if (filters.from) {
+    params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  return params;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function ChangeList({ changes }: { changes: AuditChanges | null }) {
+  if (!changes) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const keys = Array.from(new Set([...Object.keys(changes.before ?? {}), ...Object.keys(changes.after ?? {})]));
+  return (
+    <ul className="space-y-1">
+      {keys.map((key) => (
+        <li key={key} className="text-xs text-gray-700">
+          <span className="font-medium">{key}:</span>{" "}
+          {changes.before && <span className="text-red-700 line-through">{formatValue(changes.before[key])}</span>}
+          {changes.before && changes.after && " → "}
+          {changes.after && <span className="text-green-700">{formatValue(changes.after[key])}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Search the school's record of grading, deletions, password resets and other sensitive actions. */
+export default function AdminAuditLog() {
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+
+  const params = useMemo(() => filterParams(filters), [filters]);
+
+  const { data, isLoading } = useQuery<AuditLogPageDTO>({
+    queryKey: ["/api/admin/audit-logs", params.toString(), page],
+    queryFn: () => {
+      const pageParams = new URLSearchParams(params);
+      pageParams.set("page", String(page));
+      pageParams.set("pageSize", String(PAGE_SIZE));
+      return api.getAuditLogs(pageParams);
+    },
+  });
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const exportQuery = params.toString();
+
+  const applyFilters = () => {
+    setFilters(draft);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h1>
+            <p className="text-gray-600">
+              Every grade, deletion, password reset, portfolio visibility change and safety incident resolution in your
+              school, with who did it, from where, and what changed. Entries can't be edited or removed.
+            </p>
+          </div>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center space-x-2">
+                  <History className="h-5 w-5 text-blue-600" />
+                  <span>Entries</span>
+                </span>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/admin/audit-logs/export.csv${exportQuery ? `?${exportQuery}` : ""}`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </a>
+                </Button>
+              </CardTitle>
+              <CardDescription>{total === 1 ? "1 matching entry" : `${total.toLocaleString()} matching entries`}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form
+                className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyFilters();
+                }}
+              >
+                <div className="space-y-1">
+                  <Label>Action</Label>
+                  <Select
+                    value={draft.action}
+                    onValueChange={(action) => setDraft({ ...draft, action: action as AuditFilters["action"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All actions</SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {AUDIT_ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-search">User or target</Label>
+                  <Input
+                    id="audit-search"
+                    value={draft.search}
+                    onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+                    placeholder="Username or title"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-from">From</Label>
+                  <Input id="audit-from" type="date" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="audit-to">To</Label>
+                  <Input id="audit-to" type="date" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} />
+                </div>
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+              </form>
+
+              {isLoading && <p className="text-sm text-gray-600">Loading audit log...</p>}
+              {!isLoading && entries.length === 0 && <p className="text-sm text-gray-600">No entries match these filters.</p>}
+
+              {entries.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="p-3 text-left">Time</th>
+                        <th className="p-3 text-left">User</th>
+                        <th className="p-3 text-left">Action</th>
+                        <th className="p-3 text-left">Target</th>
+                        <th className="p-3 text-left">Changes</th>
+                        <th className="p-3 text-left">IP address</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map((entry) => (
+                        <tr key={entry.id} className="border-b align-top hover:bg-gray-50">
+                          <td className="p-3 whitespace-nowrap text-gray-800">{new Date(entry.createdAt).toLocaleString()}</td>
+                          <td className="p-3">
+                            <p className="font-medium text-gray-900">{entry.actorUsername}</p>
+                            <p className="text-xs text-gray-500">{entry.actorRole}</p>
+                          </td>
+                          <td className="p-3">
+                            <Badge variant="secondary">{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                          </td>
+                          <td className="p-3 text-gray-800">
+                            {entry.targetLabel ?? "—"}
+                            <p className="text-xs text-gray-500">
+                              {entry.targetType.replace("_", " ")} #{entry.targetId}
+                            </p>
+                          </td>
+                          <td className="p-3">
+                            <ChangeList changes={entry.changes} />
+                          </td>
+                          <td className="p-3 text-gray-600">{entry.ipAddress ?? "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {pageCount > 1 && (
+                <div className="flex items-center justify-end gap-3">
+                  <span className="text-sm text-gray-600">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
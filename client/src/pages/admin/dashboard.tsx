@@ -31,6 +31,11 @@ import {
   Cell,
 } from "recharts";
 import type { AdminAnalyticsDashboardDTO } from "@shared/contracts/api";
+import { MasteryRulesCard } from "./dashboard/mastery-rules-card";
+import { CredentialAwardRulesCard } from "./dashboard/credential-award-rules-card";
+import { SsoSettingsCard } from "./dashboard/sso-settings-card";
+import { PlanUsageCard } from "./dashboard/plan-usage-card";
+import { AiUsageCard } from "./dashboard/ai-usage-card";
 
 function formatRelativeTime(timestamp: string): string {
   const date = new Date(timestamp);
@@ -329,7 +334,7 @@ export default function AdminDashboard() {
             </Card>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
             <Card className="apple-shadow border-0">
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
@@ -399,6 +404,16 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </div>
+
+          <MasteryRulesCard />
+
+          <CredentialAwardRulesCard />
+
+          <SsoSettingsCard />
+
+          <PlanUsageCard />
+
+          <AiUsageCard />
         </div>
       </main>
     </div>
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Cpu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { DEFAULT_AI_BUDGET_ALERT_PERCENT, LLM_FEATURE_LABELS, LLM_FEATURES, formatUsd } from "@shared/ai-usage";
+import type { AiUsageSummaryDTO } from "@shared/contracts/api";
+
+const AI_USAGE_QUERY_KEY = "/api/admin/ai-usage";
+const WINDOW_OPTIONS = [7, 30, 90];
+
+// Shared with the district console's per-school chart
+export const FEATURE_COLORS = { tutor: "#3B82F6", grading: "#10B981", generation: "#8B5CF6" } as const;
+
+function BudgetForm({ budget }: { budget: AiUsageSummaryDTO["budget"] }) {
+  const { toast } = useToast();
+  const [monthlyBudget, setMonthlyBudget] = useState("");
+  const [threshold, setThreshold] = useState(String(DEFAULT_AI_BUDGET_ALERT_PERCENT));
+
+  useEffect(() => {
+    setMonthlyBudget(budget.monthlyBudgetUsd === null ? "" : String(budget.monthlyBudgetUsd));
+    setThreshold(String(budget.alertThresholdPercent));
+  }, [budget.monthlyBudgetUsd, budget.alertThresholdPercent]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.updateAiBudget({
+        monthlyBudgetUsd: monthlyBudget.trim() ? Number(monthlyBudget) : null,
+        alertThresholdPercent: Number(threshold),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [AI_USAGE_QUERY_KEY] });
+      toast({ title: "AI budget saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save the budget", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const spentShare = budget.monthlyBudgetUsd ? (budget.monthToDateCostUsd / budget.monthlyBudgetUsd) * 100 : 0;
+
+  return (
+    <div className="rounded-lg bg-gray-50 p-4 space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">This month</p>
+        <p className="text-sm font-medium text-gray-900">
+          {budget.monthlyBudgetUsd === null
+            ? `${formatUsd(budget.monthToDateCostUsd)} (no budget set)`
+            : `${formatUsd(budget.monthToDateCostUsd)} of ${formatUsd(budget.monthlyBudgetUsd)}`}
+        </p>
+        {budget.monthlyBudgetUsd !== null && <Progress value={Math.min(100, spentShare)} className="h-2" />}
+      </div>
+      <form
+        className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate();
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="ai-budget">Monthly budget (USD)</Label>
+          <Input
+            id="ai-budget"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={monthlyBudget}
+            onChange={(e) => setMonthlyBudget(e.target.value)}
+            placeholder="No budget"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ai-budget-threshold">Alert at (% of budget)</Label>
+          <Input
+            id="ai-budget-threshold"
+            type="number"
+            min="1"
+            max="99"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={saveMutation.isPending}>
+          Save budget
+        </Button>
+      </form>
+      <p className="text-xs text-gray-500">
+        Admins are notified once a month when spending reaches the alert level and again when it reaches the budget.
+        Leave the budget empty to turn alerts off.
+      </p>
+    </div>
+  );
+}
+
+/** Model calls, tokens and estimated cost for the school, by feature and by day, with the monthly budget. */
+export function AiUsageCard() {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading } = useQuery<AiUsageSummaryDTO>({
+    queryKey: [AI_USAGE_QUERY_KEY, days],
+    queryFn: () => api.getAiUsage(days),
+  });
+
+  const totals = data?.totals;
+  const stats = [
+    { label: "Estimated cost", value: formatUsd(totals?.costUsd ?? 0) },
+    { label: "Model calls", value: (totals?.calls ?? 0).toLocaleString() },
+    { label: "Tokens", value: ((totals?.promptTokens ?? 0) + (totals?.completionTokens ?? 0)).toLocaleString() },
+    { label: "Failed calls", value: (totals?.errors ?? 0).toLocaleString() },
+    { label: "Average latency", value: `${(totals?.averageLatencyMs ?? 0).toLocaleString()} ms` },
+  ];
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Cpu className="h-5 w-5 text-blue-600" />
+            <span>AI usage & cost</span>
+          </span>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading AI usage...</p>}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {data && (
+          <>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={data.daily}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} />
+                <YAxis tickFormatter={(value: number) => formatUsd(value)} width={80} />
+                <Tooltip formatter={(value: number) => formatUsd(value)} />
+                <Legend />
+                {LLM_FEATURES.map((feature) => (
+                  <Bar key={feature} dataKey={feature} stackId="cost" fill={FEATURE_COLORS[feature]} name={LLM_FEATURE_LABELS[feature]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-3 text-left">Feature</th>
+                    <th className="p-3 text-center">Calls</th>
+                    <th className="p-3 text-center">Failed</th>
+                    <th className="p-3 text-center">Prompt tokens</th>
+                    <th className="p-3 text-center">Completion tokens</th>
+                    <th className="p-3 text-center">Avg latency</th>
+                    <th className="p-3 text-right">Estimated cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.features.map((row) => (
+                    <tr key={row.feature} className="border-b hover:bg-gray-50">
+                      <td className="p-3 font-medium text-gray-900">{LLM_FEATURE_LABELS[row.feature]}</td>
+                      <td className="p-3 text-center text-gray-800">{row.calls.toLocaleString()}</td>
+                      <td className="p-3 text-center text-gray-800">{row.errors.toLocaleString()}</td>
+                      <td className="p-3 text-center text-gray-800">{row.promptTokens.toLocaleString()}</td>
+                      <td className="p-3 text-center text-gray-800">{row.completionTokens.toLocaleString()}</td>
+                      <td className="p-3 text-center text-gray-800">{row.averageLatencyMs.toLocaleString()} ms</td>
+                      <td className="p-3 text-right text-gray-800">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {data.models.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">By model</p>
+                <ul className="space-y-1">
+                  {data.models.map((row) => (
+                    <li key={`${row.provider}:${row.model}`} className="flex justify-between text-sm text-gray-700">
+                      <span>
+                        {row.model} <span className="text-gray-500">({row.provider})</span>
+                      </span>
+                      <span>
+                        {row.calls.toLocaleString()} calls · {formatUsd(row.costUsd)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <BudgetForm budget={data.budget} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
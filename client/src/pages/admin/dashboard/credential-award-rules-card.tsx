@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Award } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import {
+  CREDENTIAL_AWARD_RULE_LABELS,
+  DEFAULT_CREDENTIAL_AWARD_RULES,
+  type CredentialAwardRule,
+} from "@shared/credential-award-rules";
+
+const RUBRIC_LEVEL_OPTIONS: Array<{ value: CredentialAwardRule["minLevel"]; label: string }> = [
+  { value: "emerging", label: "Emerging" },
+  { value: "developing", label: "Developing" },
+  { value: "proficient", label: "Proficient" },
+  { value: "applying", label: "Applying" },
+];
+
+interface CredentialAwardRulesCardProps {
+  /** Defaults to the signed-in admin's school; the district console edits the district's draft instead. */
+  endpoint?: string;
+  scope?: "school" | "district";
+}
+
+/** Lets a school or district admin decide which credentials are awarded automatically after grading. */
+export function CredentialAwardRulesCard({
+  endpoint = "/api/credentials/award-rules",
+  scope = "school",
+}: CredentialAwardRulesCardProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<CredentialAwardRule[]>(DEFAULT_CREDENTIAL_AWARD_RULES);
+
+  const { data: savedRules } = useQuery<CredentialAwardRule[]>({
+    queryKey: [endpoint],
+    queryFn: () => api.getCredentialAwardRules(endpoint),
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules);
+    }
+  }, [savedRules]);
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: CredentialAwardRule[]) => api.updateCredentialAwardRules(updated, endpoint),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([endpoint], updated);
+      toast({
+        title: "Award rules saved",
+        description: scope === "district"
+          ? "Publish the framework to apply them in every school."
+          : "New grades are checked against the updated rules.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save award rules",
+        description: error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRule = (index: number, changes: Partial<CredentialAwardRule>) => {
+    setRules((current) =>
+      current.map((rule, ruleIndex) => (ruleIndex === index ? ({ ...rule, ...changes } as CredentialAwardRule) : rule)),
+    );
+  };
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Award className="h-5 w-5 text-amber-600" />
+          <span>Credential Award Rules</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Stickers, badges and plaques are awarded automatically after grading when a student's current level meets these rules.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map((rule, index) => (
+          <div key={rule.kind} className="flex flex-wrap items-center gap-4 rounded-lg border p-3">
+            <div className="flex items-center gap-2 w-56">
+              <Checkbox
+                id={`award-rule-${rule.kind}`}
+                checked={rule.enabled}
+                onCheckedChange={(checked) => updateRule(index, { enabled: checked === true })}
+              />
+              <Label htmlFor={`award-rule-${rule.kind}`} className="text-sm font-medium text-gray-900">
+                {CREDENTIAL_AWARD_RULE_LABELS[rule.kind]}
+              </Label>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>at</span>
+              <Select
+                value={rule.minLevel}
+                onValueChange={(value) => updateRule(index, { minLevel: value as CredentialAwardRule["minLevel"] })}
+                disabled={!rule.enabled}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RUBRIC_LEVEL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>or above</span>
+            </div>
+            {rule.kind === "subject-plaque" && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <span>in</span>
+                <Input
+                  type="number"
+                  min={10}
+                  max={100}
+                  step={5}
+                  className="w-20"
+                  value={Math.round(rule.minSkillShare * 100)}
+                  onChange={(e) =>
+                    updateRule(index, { minSkillShare: Math.min(100, Math.max(10, Number(e.target.value) || 10)) / 100 })
+                  }
+                  disabled={!rule.enabled}
+                  aria-label="Share of subject skills required"
+                />
+                <span>% of the subject's skills</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`award-rule-${rule.kind}-approval`}
+                checked={rule.requiresApproval}
+                onCheckedChange={(checked) => updateRule(index, { requiresApproval: checked === true })}
+                disabled={!rule.enabled}
+              />
+              <Label htmlFor={`award-rule-${rule.kind}-approval`} className="text-sm text-gray-600">
+                Requires teacher approval
+              </Label>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate(rules)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Award Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
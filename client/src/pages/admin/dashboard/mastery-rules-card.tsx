@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Scale, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import {
+  DEFAULT_SCHOOL_MASTERY_RULES,
+  MASTERY_RULE_DESCRIPTIONS,
+  MASTERY_RULE_LABELS,
+  MASTERY_RULE_TYPES,
+  type MasteryRule,
+  type MasteryRuleType,
+  type SchoolMasteryRules,
+} from "@shared/mastery-rules";
+import type { ComponentSkillWithDetailsDTO } from "@shared/contracts/api";
+
+function createRule(type: MasteryRuleType): MasteryRule {
+  switch (type) {
+    case "decaying-average":
+      return { type, recentWeight: 0.65 };
+    case "n-of-last-m":
+      return { type, required: 3, window: 4 };
+    default:
+      return { type };
+  }
+}
+
+interface MasteryRuleEditorProps {
+  rule: MasteryRule;
+  onChange: (rule: MasteryRule) => void;
+}
+
+function MasteryRuleEditor({ rule, onChange }: MasteryRuleEditorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={rule.type} onValueChange={(value) => onChange(createRule(value as MasteryRuleType))}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MASTERY_RULE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {MASTERY_RULE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {rule.type === "decaying-average" && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Input
+              type="number"
+              min={5}
+              max={100}
+              step={5}
+              className="w-20"
+              value={Math.round(rule.recentWeight * 100)}
+              onChange={(e) => onChange({ ...rule, recentWeight: Math.min(100, Math.max(5, Number(e.target.value) || 5)) / 100 })}
+              aria-label="Weight of the newest grade"
+            />
+            <span>% weight on newest grade</span>
+          </div>
+        )}
+        {rule.type === "n-of-last-m" && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Input
+              type="number"
+              min={1}
+              max={rule.window}
+              className="w-16"
+              value={rule.required}
+              onChange={(e) => onChange({ ...rule, required: Math.min(rule.window, Math.max(1, Number(e.target.value) || 1)) })}
+              aria-label="Required grades at level (N)"
+            />
+            <span>of last</span>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              className="w-16"
+              value={rule.window}
+              onChange={(e) => {
+                const window = Math.min(10, Math.max(1, Number(e.target.value) || 1));
+                onChange({ ...rule, window, required: Math.min(rule.required, window) });
+              }}
+              aria-label="Grades considered (M)"
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">{MASTERY_RULE_DESCRIPTIONS[rule.type]}</p>
+    </div>
+  );
+}
+
+interface MasteryRulesCardProps {
+  /** Defaults to the signed-in admin's school; the district console edits the district's draft instead. */
+  endpoint?: string;
+  scope?: "school" | "district";
+}
+
+/** Lets a school or district admin choose how grade history rolls up into each skill's current level. */
+export function MasteryRulesCard({ endpoint = "/api/competencies/mastery-rules", scope = "school" }: MasteryRulesCardProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<SchoolMasteryRules>(DEFAULT_SCHOOL_MASTERY_RULES);
+  const [skillToAdd, setSkillToAdd] = useState<string>("");
+  const scopeLabel = scope === "district" ? "district" : "school";
+
+  const { data: savedRules } = useQuery<SchoolMasteryRules>({
+    queryKey: [endpoint],
+    queryFn: () => api.getMasteryRules(endpoint),
+    retry: false,
+  });
+
+  const { data: componentSkills = [] } = useQuery<ComponentSkillWithDetailsDTO[]>({
+    queryKey: ["/api/competencies/component-skills/details"],
+    queryFn: api.getComponentSkillsWithDetails,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules);
+    }
+  }, [savedRules]);
+
+  const saveMutation = useMutation({
+    mutationFn: (updated: SchoolMasteryRules) => api.updateMasteryRules(updated, endpoint),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([endpoint], updated);
+      toast({
+        title: "Mastery rules saved",
+        description: scope === "district"
+          ? "Publish the framework to apply them in every school."
+          : "Progress views now use the updated rules.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save mastery rules",
+        description: error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const skillNames = new Map(componentSkills.map((skill) => [String(skill.id), skill.name]));
+  const overrideIds = Object.keys(rules.componentSkillRules);
+  const availableSkills = componentSkills.filter((skill) => !(String(skill.id) in rules.componentSkillRules));
+
+  const setOverride = (skillId: string, rule: MasteryRule | null) => {
+    setRules((current) => {
+      const { [skillId]: _removed, ...rest } = current.componentSkillRules;
+      return { ...current, componentSkillRules: rule ? { ...rest, [skillId]: rule } : rest };
+    });
+  };
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Scale className="h-5 w-5 text-indigo-600" />
+          <span>Mastery Rules</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Decide how each student's grade history becomes their current rubric level on dashboards and skill trackers.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700 capitalize">{scopeLabel} default</Label>
+          <MasteryRuleEditor rule={rules.defaultRule} onChange={(defaultRule) => setRules({ ...rules, defaultRule })} />
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-sm font-medium text-gray-700">Component skill overrides</Label>
+          {overrideIds.length === 0 && (
+            <p className="text-sm text-gray-500">Every component skill uses the {scopeLabel} default.</p>
+          )}
+          {overrideIds.map((skillId) => (
+            <div key={skillId} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div className="flex-1 space-y-2">
+                <p className="text-sm font-medium text-gray-900">{skillNames.get(skillId) ?? `Skill ${skillId}`}</p>
+                <MasteryRuleEditor
+                  rule={rules.componentSkillRules[skillId]}
+                  onChange={(rule) => setOverride(skillId, rule)}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setOverride(skillId, null)}
+                aria-label={`Remove override for ${skillNames.get(skillId) ?? skillId}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Select value={skillToAdd} onValueChange={setSkillToAdd}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Choose a component skill" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableSkills.map((skill) => (
+                  <SelectItem key={skill.id} value={String(skill.id)}>
+                    {skill.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!skillToAdd}
+              onClick={() => {
+                setOverride(skillToAdd, rules.defaultRule);
+                setSkillToAdd("");
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add override
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate(rules)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Mastery Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { api } from "@/lib/api";
+import { USAGE_METRIC_LABELS, formatUsageAmount, getPlan } from "@shared/plans";
+import type { PlanUsageItemDTO, PlanUsageDTO } from "@shared/contracts/api";
+
+/** One meter per metric; shared with the district console's school plans card. */
+export function PlanUsageMeters({ usage }: { usage: PlanUsageItemDTO[] }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+      {usage.map((item) => {
+        const used = formatUsageAmount(item.metric, item.used);
+        return (
+          <div key={item.metric} className="rounded-lg bg-gray-50 p-4 space-y-2">
+            <p className="text-sm text-gray-600">{USAGE_METRIC_LABELS[item.metric]}</p>
+            <p className="text-sm font-medium text-gray-900">
+              {item.limit === null ? `${used} (unlimited)` : `${used} of ${formatUsageAmount(item.metric, item.limit)}`}
+            </p>
+            {item.limit !== null && (
+              <Progress value={item.limit > 0 ? Math.min(100, (item.used / item.limit) * 100) : 100} className="h-2" />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Read-only view of the school's plan; district admins change plans from the district console. */
+export function PlanUsageCard() {
+  const { data, isLoading } = useQuery<PlanUsageDTO>({
+    queryKey: ["/api/plans/usage"],
+    queryFn: api.getPlanUsage,
+  });
+
+  const plan = getPlan(data?.planId);
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5 text-blue-600" />
+          <span>Plan & usage</span>
+          {data && <Badge variant="secondary">{plan.name}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-gray-600">Loading usage...</p>}
+        {data && (
+          <>
+            <p className="text-sm text-gray-600">
+              {plan.description}. AI generations, thumbnails and tutor messages reset on the first of each month.
+            </p>
+            <PlanUsageMeters usage={data.usage} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
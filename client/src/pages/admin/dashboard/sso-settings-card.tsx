@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { KeyRound, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import { SSO_ROLE_LABELS, SSO_ROLES, type SsoDomainRule, type SsoRole } from "@shared/school-sso";
+import type { SchoolSsoSettingsDTO } from "@shared/contracts/api";
+
+const SSO_SETTINGS_QUERY_KEY = ["/api/admin/sso"];
+
+interface SsoForm {
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  allowedDomains: SsoDomainRule[];
+  enabled: boolean;
+}
+
+const EMPTY_FORM: SsoForm = {
+  displayName: "Google Workspace",
+  issuer: "https://accounts.google.com",
+  clientId: "",
+  clientSecret: "",
+  allowedDomains: [{ domain: "", role: "student" }],
+  enabled: true,
+};
+
+function errorDescription(error: unknown): string {
+  return error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.";
+}
+
+/** Lets a school admin connect Google Workspace or another OpenID Connect provider for sign-in. */
+export function SsoSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SsoForm>(EMPTY_FORM);
+
+  const { data: settings } = useQuery<SchoolSsoSettingsDTO>({
+    queryKey: SSO_SETTINGS_QUERY_KEY,
+    queryFn: api.getSsoSettings,
+    retry: false,
+  });
+  const provider = settings?.provider ?? null;
+
+  useEffect(() => {
+    if (provider) {
+      setForm({
+        displayName: provider.displayName,
+        issuer: provider.issuer,
+        clientId: provider.clientId,
+        clientSecret: "",
+        allowedDomains: provider.allowedDomains,
+        enabled: provider.enabled,
+      });
+    }
+  }, [provider]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.saveSsoSettings({
+        displayName: form.displayName,
+        issuer: form.issuer,
+        clientId: form.clientId,
+        // A blank secret keeps the stored one
+        clientSecret: form.clientSecret || undefined,
+        allowedDomains: form.allowedDomains.filter((rule) => rule.domain.trim()),
+        enabled: form.enabled,
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(SSO_SETTINGS_QUERY_KEY, updated);
+      setForm((current) => ({ ...current, clientSecret: "" }));
+      toast({ title: "Single sign-on saved", description: "Users with an allowed email domain can now sign in with it." });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save single sign-on", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: api.deleteSsoSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SSO_SETTINGS_QUERY_KEY });
+      setForm(EMPTY_FORM);
+      toast({ title: "Single sign-on removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't remove single sign-on", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const updateRule = (index: number, rule: SsoDomainRule | null) => {
+    setForm((current) => ({
+      ...current,
+      allowedDomains: rule
+        ? current.allowedDomains.map((existing, position) => (position === index ? rule : existing))
+        : current.allowedDomains.filter((_, position) => position !== index),
+    }));
+  };
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5 text-indigo-600" />
+          <span>Single Sign-On</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Let students and teachers sign in with Google Workspace or another OpenID Connect provider. New accounts are
+          created on first sign-in with the role set for their email domain; existing accounts with the same email are
+          linked.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="sso-display-name">Button label</Label>
+            <Input
+              id="sso-display-name"
+              value={form.displayName}
+              onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sso-issuer">Issuer URL</Label>
+            <Input id="sso-issuer" value={form.issuer} onChange={(e) => setForm({ ...form, issuer: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sso-client-id">Client ID</Label>
+            <Input
+              id="sso-client-id"
+              value={form.clientId}
+              onChange={(e) => setForm({ ...form, clientId: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sso-client-secret">Client secret</Label>
+            <Input
+              id="sso-client-secret"
+              type="password"
+              autoComplete="off"
+              placeholder={provider?.hasClientSecret ? "Stored — leave blank to keep" : "Optional for public clients"}
+              value={form.clientSecret}
+              onChange={(e) => setForm({ ...form, clientSecret: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {settings && (
+          <p className="text-xs text-gray-500">
+            Register this redirect URI with your provider: <code className="break-all">{settings.redirectUri}</code>
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Allowed email domains</Label>
+          {form.allowedDomains.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                placeholder="students.yourschool.org"
+                value={rule.domain}
+                onChange={(e) => updateRule(index, { ...rule, domain: e.target.value })}
+                aria-label="Email domain"
+              />
+              <Select value={rule.role} onValueChange={(role) => updateRule(index, { ...rule, role: role as SsoRole })}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SSO_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {SSO_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateRule(index, null)}
+                disabled={form.allowedDomains.length === 1}
+                aria-label={`Remove ${rule.domain || "domain"}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setForm({ ...form, allowedDomains: [...form.allowedDomains, { domain: "", role: "teacher" }] })
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add domain
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="sso-enabled"
+            checked={form.enabled}
+            onCheckedChange={(checked) => setForm({ ...form, enabled: checked === true })}
+          />
+          <Label htmlFor="sso-enabled">Allow sign-in with this provider</Label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {provider && (
+            <Button variant="outline" onClick={() => removeMutation.mutate()} disabled={removeMutation.isPending}>
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.clientId.trim() || !form.issuer.trim()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save single sign-on"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
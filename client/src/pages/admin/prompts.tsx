@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle2, History, Save, Sparkles } from "lucide-react";
+import Navigation from "@/components/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import type { PromptKey } from "@shared/prompts";
+import type { PromptDetailDTO, PromptSummaryDTO, PromptVersionDTO } from "@shared/contracts/api";
+
+const PROMPTS_QUERY_KEY = ["/api/admin/prompts"];
+
+interface PromptDraft {
+  systemPrompt: string;
+  userTemplate: string;
+  notes: string;
+  activate: boolean;
+}
+
+function errorDescription(error: unknown): string {
+  return error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.";
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function draftFrom(version: PromptVersionDTO | undefined): PromptDraft {
+  return {
+    systemPrompt: version?.systemPrompt ?? "",
+    userTemplate: version?.userTemplate ?? "",
+    notes: "",
+    activate: false,
+  };
+}
+
+function VersionHistory({
+  prompt,
+  onEdit,
+  onActivate,
+  activating,
+}: {
+  prompt: PromptDetailDTO;
+  onEdit: (version: PromptVersionDTO) => void;
+  onActivate: (version: number) => void;
+  activating: boolean;
+}) {
+  return (
+    <ul className="divide-y divide-gray-100">
+      {prompt.versions.map((version) => (
+        <li key={version.version} className="py-3 flex items-start justify-between gap-4">
+          <div>
+            <p className="font-medium text-gray-900 flex items-center gap-2">
+              v{version.version}
+              {version.isActive && <Badge className="bg-green-100 text-green-800">Active</Badge>}
+            </p>
+            <p className="text-sm text-gray-600">{version.notes || "No notes"}</p>
+            <p className="text-xs text-gray-500">Saved {formatDate(version.createdAt)}</p>
+          </div>
+          {prompt.canEdit && (
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => onEdit(version)}>
+                Edit a copy
+              </Button>
+              {!version.isActive && (
+                <Button size="sm" onClick={() => onActivate(version.version)} disabled={activating}>
+                  Activate
+                </Button>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Edit the prompts behind every AI feature, keeping each saved version so a change can be rolled back. */
+export default function AdminPrompts() {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<PromptKey | null>(null);
+  const [draft, setDraft] = useState<PromptDraft>(draftFrom(undefined));
+
+  const { data: prompts = [], isLoading } = useQuery<PromptSummaryDTO[]>({
+    queryKey: PROMPTS_QUERY_KEY,
+    queryFn: api.getPrompts,
+  });
+
+  const { data: prompt } = useQuery<PromptDetailDTO>({
+    queryKey: [...PROMPTS_QUERY_KEY, selectedKey],
+    queryFn: () => api.getPrompt(selectedKey!),
+    enabled: selectedKey !== null,
+  });
+
+  // Start each prompt's editor from the version AI features are using now
+  useEffect(() => {
+    if (prompt) {
+      setDraft(draftFrom(prompt.versions.find((version) => version.isActive) ?? prompt.versions[0]));
+    }
+  }, [prompt?.key]);
+
+  const refreshPrompts = () => queryClient.invalidateQueries({ queryKey: PROMPTS_QUERY_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      api.createPromptVersion(selectedKey!, {
+        systemPrompt: draft.systemPrompt,
+        userTemplate: draft.userTemplate,
+        notes: draft.notes.trim() || undefined,
+        activate: draft.activate,
+      }),
+    onSuccess: (version) => {
+      refreshPrompts();
+      setDraft({ ...draft, notes: "", activate: false });
+      toast({
+        title: `Saved v${version.version}`,
+        description: version.isActive ? "AI features now use this version." : "Activate it when you're ready to use it.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save the prompt", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: (version: number) => api.activatePromptVersion(selectedKey!, version),
+    onSuccess: (version) => {
+      refreshPrompts();
+      toast({ title: `v${version.version} is now active` });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't activate the version", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">AI Prompts</h1>
+            <p className="text-gray-600">
+              The instructions sent to the model for project ideas, assessments, grading, feedback and the tutor. Changes
+              apply to every school, and each grade or generated item records the prompt version that produced it.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="apple-shadow border-0">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Sparkles className="h-5 w-5 text-blue-600" />
+                  <span>Prompts</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {isLoading && <p className="text-sm text-gray-600">Loading prompts...</p>}
+                {prompts.map((summary) => (
+                  <button
+                    key={summary.key}
+                    type="button"
+                    onClick={() => setSelectedKey(summary.key)}
+                    className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                      summary.key === selectedKey ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white hover:bg-gray-50"
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900">{summary.label}</p>
+                    <p className="text-xs text-gray-500">
+                      Active v{summary.activeVersion}
+                      {summary.latestVersion > summary.activeVersion && ` · latest v${summary.latestVersion}`}
+                    </p>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-2 space-y-6">
+              {!prompt && (
+                <Card className="apple-shadow border-0">
+                  <CardContent className="py-12 text-center text-gray-600">Choose a prompt to see its versions.</CardContent>
+                </Card>
+              )}
+
+              {prompt && (
+                <>
+                  <Card className="apple-shadow border-0">
+                    <CardHeader>
+                      <CardTitle>{prompt.label}</CardTitle>
+                      <CardDescription>{prompt.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {!prompt.canEdit && (
+                        <p className="text-sm text-gray-600">
+                          Prompts are shared by every school, so only platform operators can change them.
+                        </p>
+                      )}
+                      {prompt.canEdit && (
+                        <form
+                          className="space-y-4"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            saveMutation.mutate();
+                          }}
+                        >
+                          <div className="space-y-1">
+                            <Label htmlFor="prompt-system">System prompt</Label>
+                            <Textarea
+                              id="prompt-system"
+                              rows={4}
+                              value={draft.systemPrompt}
+                              onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="prompt-user">User message template</Label>
+                            <Textarea
+                              id="prompt-user"
+                              rows={14}
+                              className="font-mono text-xs"
+                              value={draft.userTemplate}
+                              onChange={(e) => setDraft({ ...draft, userTemplate: e.target.value })}
+                            />
+                            <p className="text-xs text-gray-500">
+                              Placeholders:{" "}
+                              {prompt.variables.length > 0
+                                ? prompt.variables.map((variable) => `{{${variable}}}`).join(", ")
+                                : "none"}
+                            </p>
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="prompt-notes">What changed</Label>
+                            <Input
+                              id="prompt-notes"
+                              value={draft.notes}
+                              maxLength={500}
+                              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                              placeholder="e.g. Ask for shorter feedback"
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id="prompt-activate"
+                                checked={draft.activate}
+                                onCheckedChange={(checked) => setDraft({ ...draft, activate: checked === true })}
+                              />
+                              <Label htmlFor="prompt-activate">Use this version right away</Label>
+                            </div>
+                            <Button type="submit" disabled={saveMutation.isPending || !draft.userTemplate.trim()}>
+                              <Save className="h-4 w-4 mr-2" />
+                              {saveMutation.isPending ? "Saving..." : "Save version"}
+                            </Button>
+                          </div>
+                        </form>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="apple-shadow border-0">
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <History className="h-5 w-5 text-blue-600" />
+                        <span>Versions</span>
+                      </CardTitle>
+                      <CardDescription className="flex items-center gap-1">
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        {prompt.activatedAt
+                          ? `v${prompt.activeVersion} active since ${formatDate(prompt.activatedAt)}`
+                          : `v${prompt.activeVersion} is active`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <VersionHistory
+                        prompt={prompt}
+                        onEdit={(version) => setDraft(draftFrom(version))}
+                        onActivate={(version) => activateMutation.mutate(version)}
+                        activating={activateMutation.isPending}
+                      />
+                    </CardContent>
+                  </Card>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
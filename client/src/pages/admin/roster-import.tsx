@@ -0,0 +1,315 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Upload } from "lucide-react";
+import Navigation from "@/components/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import type { RosterChangeDTO, RosterImportDTO, RosterImportPreviewDTO } from "@shared/contracts/api";
+
+const ROSTER_IMPORTS_QUERY_KEY = ["/api/admin/roster/imports"];
+
+const ACTION_LABELS: Record<RosterChangeDTO["action"], string> = {
+  create: "New",
+  update: "Update",
+  deactivate: "Deactivate",
+  archive: "Archive",
+};
+
+const ACTION_STYLES: Record<RosterChangeDTO["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  deactivate: "bg-red-100 text-red-800",
+  archive: "bg-amber-100 text-amber-800",
+};
+
+function errorDescription(error: unknown): string {
+  return error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.";
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function reportUrl(importId: number): string {
+  return `/api/admin/roster/imports/${importId}/report.csv`;
+}
+
+function SummaryCounts({ preview }: { preview: RosterImportPreviewDTO }) {
+  const summary = preview.import.summary;
+  if (!summary) {
+    return null;
+  }
+  const rows = [
+    { label: "Users", values: [`${summary.users.create} new`, `${summary.users.update} updated`, `${summary.users.deactivate} deactivated`, `${summary.users.unchanged} unchanged`] },
+    { label: "Classes", values: [`${summary.classes.create} new`, `${summary.classes.update} updated`, `${summary.classes.archive} archived`, `${summary.classes.unchanged} unchanged`] },
+    { label: "Enrollments", values: [`${summary.enrollments.add} added`, `${summary.enrollments.remove} removed`] },
+  ];
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {rows.map((row) => (
+        <div key={row.label} className="rounded-lg border border-gray-200 bg-white p-4">
+          <p className="text-sm font-medium text-gray-900">{row.label}</p>
+          <ul className="mt-2 space-y-1 text-sm text-gray-600">
+            {row.values.map((value) => (
+              <li key={value}>{value}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Upload a OneRoster 1.2 CSV bundle, review what would change, then apply it. */
+export default function AdminRosterImport() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [orgSourcedId, setOrgSourcedId] = useState<string>("");
+  const [preview, setPreview] = useState<RosterImportPreviewDTO | null>(null);
+
+  const { data: imports = [] } = useQuery<RosterImportDTO[]>({
+    queryKey: ROSTER_IMPORTS_QUERY_KEY,
+    queryFn: api.getRosterImports,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => api.previewRosterImport(files, orgSourcedId || undefined),
+    onSuccess: (result) => {
+      setPreview(result);
+      setOrgSourcedId(result.import.orgSourcedId ?? "");
+      queryClient.invalidateQueries({ queryKey: ROSTER_IMPORTS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't read the roster", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (importId: number) => api.applyRosterImport(importId),
+    onSuccess: (result) => {
+      setPreview(result);
+      queryClient.invalidateQueries({ queryKey: ROSTER_IMPORTS_QUERY_KEY });
+      toast({ title: "Roster imported", description: "Users, classes and enrollments are up to date." });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ROSTER_IMPORTS_QUERY_KEY });
+      toast({ title: "Import failed", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const summary = preview?.import.summary;
+  const hasChanges =
+    !!summary &&
+    summary.users.create + summary.users.update + summary.users.deactivate +
+      summary.classes.create + summary.classes.update + summary.classes.archive +
+      summary.enrollments.add + summary.enrollments.remove > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Roster Import</h1>
+            <p className="text-gray-600">
+              Sync students, teachers and classes from your student information system's OneRoster export. Nothing
+              changes until you review the preview and apply it, and importing the same roster again is safe.
+            </p>
+          </div>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+                <span>Upload roster</span>
+              </CardTitle>
+              <CardDescription>
+                Choose the OneRoster zip bundle, or its orgs.csv, users.csv, classes.csv and enrollments.csv files
+                (roles.csv, academicSessions.csv and manifest.csv are used when present).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".zip,.csv"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  setFiles(Array.from(e.target.files ?? []));
+                  setPreview(null);
+                  setOrgSourcedId("");
+                }}
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <Button variant="outline" onClick={() => fileInput.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Choose files
+                </Button>
+                <span className="text-sm text-gray-600">
+                  {files.length > 0 ? files.map((file) => file.name).join(", ") : "No files chosen"}
+                </span>
+              </div>
+
+              {preview && preview.orgs.length > 1 && (
+                <div className="space-y-1 max-w-sm">
+                  <Label>School in this roster</Label>
+                  <Select value={orgSourcedId} onValueChange={setOrgSourcedId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose your school" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preview.orgs.map((org) => (
+                        <SelectItem key={org.sourcedId} value={org.sourcedId}>
+                          {org.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <Button onClick={() => previewMutation.mutate()} disabled={files.length === 0 || previewMutation.isPending}>
+                {previewMutation.isPending ? "Reading roster..." : "Preview changes"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {preview && summary && (
+            <Card className="apple-shadow border-0">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{preview.import.status === "applied" ? "Import applied" : "Preview"}</span>
+                  <div className="flex items-center gap-2">
+                    {(summary.errors > 0 || summary.warnings > 0) && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={reportUrl(preview.import.id)} download>
+                          <Download className="h-4 w-4 mr-2" />
+                          Error report
+                        </a>
+                      </Button>
+                    )}
+                    {preview.import.status !== "applied" && (
+                      <Button
+                        size="sm"
+                        onClick={() => applyMutation.mutate(preview.import.id)}
+                        disabled={!preview.import.orgSourcedId || !hasChanges || applyMutation.isPending}
+                      >
+                        {applyMutation.isPending ? "Applying..." : "Apply import"}
+                      </Button>
+                    )}
+                  </div>
+                </CardTitle>
+                <CardDescription>
+                  {summary.errors} error{summary.errors === 1 ? "" : "s"} and {summary.warnings} warning
+                  {summary.warnings === 1 ? "" : "s"}. Rows with errors are skipped; everything else is applied
+                  together.
+                  {summary.schoolLinked && " This school will be linked to the roster's org."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <SummaryCounts preview={preview} />
+
+                {!hasChanges && preview.import.orgSourcedId && (
+                  <div className="flex items-center gap-2 text-sm text-green-700">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Everything already matches this roster.
+                  </div>
+                )}
+
+                {preview.changes.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 mb-2">Changes</h3>
+                    <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+                      {preview.changes.map((change, index) => (
+                        <div key={index} className="flex items-center gap-3 px-4 py-2 text-sm">
+                          <Badge className={ACTION_STYLES[change.action]}>{ACTION_LABELS[change.action]}</Badge>
+                          <span className="text-gray-500 w-12">{change.kind === "user" ? "User" : "Class"}</span>
+                          <span className="font-medium text-gray-900">{change.label}</span>
+                          {change.detail && <span className="text-gray-500">{change.detail}</span>}
+                        </div>
+                      ))}
+                    </div>
+                    {preview.changesTruncated && (
+                      <p className="mt-2 text-xs text-gray-500">Showing the first {preview.changes.length} changes.</p>
+                    )}
+                  </div>
+                )}
+
+                {preview.issues.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 mb-2">Issues</h3>
+                    <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+                      {preview.issues.map((issue, index) => (
+                        <div key={index} className="flex items-start gap-3 px-4 py-2 text-sm">
+                          <AlertTriangle
+                            className={`h-4 w-4 mt-0.5 shrink-0 ${issue.severity === "error" ? "text-red-600" : "text-amber-500"}`}
+                          />
+                          <span className="text-gray-500 shrink-0">
+                            {issue.file}
+                            {issue.line !== null && `:${issue.line}`}
+                          </span>
+                          <span className="text-gray-900">{issue.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle>Recent imports</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {imports.length === 0 ? (
+                <p className="text-sm text-gray-600">No roster imports yet.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {imports.map((rosterImport) => (
+                    <div key={rosterImport.id} className="flex flex-wrap items-center justify-between gap-2 py-3 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900">{rosterImport.fileNames.join(", ")}</p>
+                        <p className="text-gray-500">
+                          Uploaded {formatDate(rosterImport.createdAt)}
+                          {rosterImport.appliedAt && ` · applied ${formatDate(rosterImport.appliedAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={rosterImport.status === "failed" ? "destructive" : "secondary"}>
+                          {rosterImport.status}
+                        </Badge>
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={reportUrl(rosterImport.id)} download>
+                            <Download className="h-4 w-4 mr-1" />
+                            Report
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -15,7 +15,8 @@ import {
     GraduationCap,
     School,
     MoreVertical,
-    AlertTriangle
+    AlertTriangle,
+    LogOut
 } from 'lucide-react';
 import {
     DropdownMenu,
@@ -170,6 +171,26 @@ export default function AdminUsers() {
         },
     });
 
+    // Force logout mutation
+    const forceLogoutMutation = useMutation({
+        mutationFn: async (userId: number) => {
+            await apiRequest(`/api/admin/users/${userId}/force-logout`, 'POST');
+        },
+        onSuccess: () => {
+            toast({
+                title: "Success",
+                description: "User signed out of all devices",
+            });
+        },
+        onError: (error: Error) => {
+            toast({
+                title: "Error",
+                description: error.message || "Failed to sign out user",
+                variant: "destructive",
+            });
+        },
+    });
+
     // Filter users
     const filteredUsers = users?.filter(user => {
         const matchesSearch = user.username.toLowerCase().includes(searchTerm.toLowerCase());
@@ -282,6 +303,13 @@ export default function AdminUsers() {
                                                     <Key className="h-4 w-4 mr-2" />
                                                     Reset Password
                                                 </DropdownMenuItem>
+                                                <DropdownMenuItem
+                                                    onClick={() => forceLogoutMutation.mutate(user.id)}
+                                                    disabled={forceLogoutMutation.isPending}
+                                                >
+                                                    <LogOut className="h-4 w-4 mr-2" />
+                                                    Sign Out Everywhere
+                                                </DropdownMenuItem>
                                                 <DropdownMenuSeparator />
                                                 <DropdownMenuItem
                                                     className="text-red-600 focus:text-red-600"
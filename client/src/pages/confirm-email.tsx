@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { api } from '@/lib/api';
+import { ApiError, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+
+export default function ConfirmEmail() {
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const submitted = useRef(false);
+
+  const confirmMutation = useMutation({
+    mutationFn: api.confirmEmail,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: api.resendEmailConfirmation,
+    onSuccess: () => {
+      toast({ title: 'Confirmation Sent', description: 'Check your inbox for a new link.' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Could Not Send Email',
+        description: error instanceof ApiError && error.payload?.message ? error.payload.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Links are single use, so confirm once even if the component re-renders
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true;
+      confirmMutation.mutate({ token });
+    }
+  }, [token, confirmMutation]);
+
+  const failed = !token || confirmMutation.isError;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Confirm Email</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {confirmMutation.isSuccess && (
+            <p className="text-sm text-gray-700">Thanks, your email address is confirmed.</p>
+          )}
+          {!failed && !confirmMutation.isSuccess && (
+            <p className="text-sm text-gray-700">Confirming your email address...</p>
+          )}
+          {failed && (
+            <>
+              <p className="text-sm text-gray-700">This confirmation link is invalid or has expired.</p>
+              {isAuthenticated && (
+                <Button onClick={() => resendMutation.mutate()} disabled={resendMutation.isPending}>
+                  {resendMutation.isPending ? 'Sending...' : 'Send a New Link'}
+                </Button>
+              )}
+            </>
+          )}
+          <div className="text-sm">
+            <Link href={isAuthenticated ? '/' : '/login'} className="text-blue-600 hover:underline">
+              {isAuthenticated ? 'Continue to MasteryMap' : 'Go to sign in'}
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
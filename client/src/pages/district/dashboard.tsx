@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import Navigation from "@/components/navigation";
+import { api } from "@/lib/api";
+import type { DistrictDTO } from "@shared/contracts/api";
+import { MasteryRulesCard } from "@/pages/admin/dashboard/mastery-rules-card";
+import { CredentialAwardRulesCard } from "@/pages/admin/dashboard/credential-award-rules-card";
+import { DistrictUsageCard } from "./dashboard/usage-card";
+import { DistrictSkillMasteryCard } from "./dashboard/skill-mastery-card";
+import { DistrictCredentialsCard } from "./dashboard/credentials-card";
+import { DistrictTemplatesCard } from "./dashboard/templates-card";
+import { FrameworkPublishCard } from "./dashboard/framework-publish-card";
+import { DistrictSchoolPlansCard } from "./dashboard/school-plans-card";
+import { DistrictAiCostsCard } from "./dashboard/ai-costs-card";
+
+/** Cross-school reports, school plans, shared project templates and the district competency framework. */
+export default function DistrictDashboard() {
+  const { data: district } = useQuery<DistrictDTO>({
+    queryKey: ["/api/districts/current"],
+    queryFn: api.getDistrict,
+  });
+
+  const schools = district?.schools ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{district?.name ?? "District"}</h1>
+            <p className="text-gray-600">
+              {schools.length === 1 ? "1 school" : `${schools.length} schools`}
+              {schools.length > 0 && `: ${schools.map((school) => school.name).join(", ")}`}
+            </p>
+          </div>
+
+          <DistrictUsageCard />
+          <DistrictSchoolPlansCard />
+          <DistrictAiCostsCard />
+          <DistrictSkillMasteryCard />
+          <DistrictCredentialsCard />
+          <DistrictTemplatesCard />
+
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900">Competency framework</h2>
+            <MasteryRulesCard endpoint="/api/districts/framework/mastery-rules" scope="district" />
+            <CredentialAwardRulesCard endpoint="/api/districts/framework/award-rules" scope="district" />
+            <FrameworkPublishCard publishedAt={district?.frameworkPublishedAt ?? null} schoolCount={schools.length} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Cpu } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/lib/api";
+import { FEATURE_COLORS } from "@/pages/admin/dashboard/ai-usage-card";
+import { LLM_FEATURE_LABELS, LLM_FEATURES, formatUsd } from "@shared/ai-usage";
+import type { DistrictSchoolAiCostDTO } from "@shared/contracts/api";
+
+/** This month's estimated AI cost for each school, split by feature, next to the school's budget. */
+export function DistrictAiCostsCard() {
+  const { data: schools = [], isLoading } = useQuery<DistrictSchoolAiCostDTO[]>({
+    queryKey: ["/api/districts/ai-costs"],
+    queryFn: api.getDistrictAiCosts,
+  });
+
+  const total = schools.reduce((sum, school) => sum + school.costUsd, 0);
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Cpu className="h-5 w-5 text-blue-600" />
+          <span>AI cost this month</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading AI costs...</p>}
+        {schools.length > 0 && (
+          <>
+            <p className="text-sm text-gray-600">{formatUsd(total)} estimated across the district so far this month.</p>
+            <ResponsiveContainer width="100%" height={Math.max(160, schools.length * 48)}>
+              <BarChart data={schools} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" tickFormatter={(value: number) => formatUsd(value)} />
+                <YAxis type="category" dataKey="schoolName" width={160} />
+                <Tooltip formatter={(value: number) => formatUsd(value)} />
+                <Legend />
+                {LLM_FEATURES.map((feature) => (
+                  <Bar key={feature} dataKey={feature} stackId="cost" fill={FEATURE_COLORS[feature]} name={LLM_FEATURE_LABELS[feature]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-3 text-left">School</th>
+                    <th className="p-3 text-right">Estimated cost</th>
+                    <th className="p-3 text-right">Monthly budget</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schools.map((school) => (
+                    <tr key={school.schoolId} className="border-b hover:bg-gray-50">
+                      <td className="p-3 font-medium text-gray-900">{school.schoolName}</td>
+                      <td className="p-3 text-right text-gray-800">{formatUsd(school.costUsd)}</td>
+                      <td className="p-3 text-right text-gray-800">
+                        {school.monthlyBudgetUsd === null ? "—" : formatUsd(school.monthlyBudgetUsd)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Award } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "@/lib/api";
+import type { CredentialReportPeriod, DistrictCredentialReportDTO } from "@shared/contracts/api";
+
+const PERIOD_OPTIONS: Array<{ value: CredentialReportPeriod; label: string }> = [
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "365d", label: "Last 12 months" },
+  { value: "all", label: "All time" },
+];
+
+/** Approved credentials across the district by type, competency and school. */
+export function DistrictCredentialsCard() {
+  const [period, setPeriod] = useState<CredentialReportPeriod>("90d");
+
+  const { data, isLoading } = useQuery<DistrictCredentialReportDTO>({
+    queryKey: ["/api/districts/reports/credentials", period],
+    queryFn: () => api.getDistrictCredentialReport(period),
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Award className="h-5 w-5 text-amber-600" />
+          <span>Credentials</span>
+        </CardTitle>
+        <Select value={period} onValueChange={(value) => setPeriod(value as CredentialReportPeriod)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading credentials...</p>}
+        {data && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-600">Awarded</p>
+                <p className="text-2xl font-bold text-gray-900">{data.totals.awarded}</p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-600">Students recognized</p>
+                <p className="text-2xl font-bold text-gray-900">{data.totals.studentsRecognized}</p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-600">Stickers</p>
+                <p className="text-2xl font-bold text-gray-900">{data.byType.sticker}</p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-600">Badges</p>
+                <p className="text-2xl font-bold text-gray-900">{data.byType.badge}</p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-600">Plaques</p>
+                <p className="text-2xl font-bold text-gray-900">{data.byType.plaque}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="p-3 text-left">School</th>
+                      <th className="p-3 text-center">Awarded</th>
+                      <th className="p-3 text-center">Pending</th>
+                      <th className="p-3 text-center">Revoked</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.schools.map((school) => (
+                      <tr key={school.schoolId} className="border-b hover:bg-gray-50">
+                        <td className="p-3 font-medium text-gray-900">{school.schoolName}</td>
+                        <td className="p-3 text-center text-gray-800">{school.awarded}</td>
+                        <td className="p-3 text-center text-gray-800">{school.pending}</td>
+                        <td className="p-3 text-center text-gray-800">{school.revoked}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">Top competencies</p>
+                {data.byCompetency.length === 0 && <p className="text-sm text-gray-600">No credentials in this period.</p>}
+                {data.byCompetency.map((competency) => (
+                  <div key={competency.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-800">{competency.name}</span>
+                    <span className="font-medium text-gray-900">{competency.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { useMutation } from "@tanstack/react-query";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+
+interface FrameworkPublishCardProps {
+  publishedAt: Date | string | null;
+  schoolCount: number;
+}
+
+/** Pushes the district's saved mastery and award rules to every school, replacing their own. */
+export function FrameworkPublishCard({ publishedAt, schoolCount }: FrameworkPublishCardProps) {
+  const { toast } = useToast();
+
+  const publishMutation = useMutation({
+    mutationFn: api.publishDistrictFramework,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/districts/current"] });
+      toast({ title: "Framework published", description: `Updated ${result.schoolsUpdated} schools.` });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't publish the framework", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
+        <div>
+          <p className="font-medium text-gray-900">Publish competency framework</p>
+          <p className="text-sm text-gray-600">
+            Replaces the mastery rules and credential award rules in all {schoolCount} schools.{" "}
+            {publishedAt ? `Last published ${new Date(publishedAt).toLocaleString()}.` : "Not published yet."}
+          </p>
+        </div>
+        <Button onClick={() => publishMutation.mutate()} disabled={publishMutation.isPending || schoolCount === 0}>
+          <Send className="h-4 w-4 mr-2" />
+          {publishMutation.isPending ? "Publishing..." : "Publish to all schools"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Gauge } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { PlanUsageMeters } from "@/pages/admin/dashboard/plan-usage-card";
+import { PLANS, PLAN_IDS, type PlanId } from "@shared/plans";
+import type { DistrictSchoolPlanDTO } from "@shared/contracts/api";
+
+const SCHOOL_PLANS_QUERY_KEY = ["/api/districts/plans"];
+
+/** Assigns each school a plan and shows how much of its allowance is used. */
+export function DistrictSchoolPlansCard() {
+  const { toast } = useToast();
+
+  const { data: schools = [], isLoading } = useQuery<DistrictSchoolPlanDTO[]>({
+    queryKey: SCHOOL_PLANS_QUERY_KEY,
+    queryFn: api.getDistrictSchoolPlans,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ schoolId, planId }: { schoolId: number; planId: PlanId }) => api.updateSchoolPlan(schoolId, planId),
+    onSuccess: (school) => {
+      queryClient.invalidateQueries({ queryKey: SCHOOL_PLANS_QUERY_KEY });
+      toast({ title: "Plan updated", description: `${school.schoolName} is now on the ${PLANS[school.planId].name} plan.` });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't update the plan", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5 text-blue-600" />
+          <span>School plans</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading plans...</p>}
+        {schools.map((school) => (
+          <div key={school.schoolId} className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <p className="font-medium text-gray-900">{school.schoolName}</p>
+              <Select
+                value={school.planId}
+                onValueChange={(planId) => updateMutation.mutate({ schoolId: school.schoolId, planId: planId as PlanId })}
+                disabled={updateMutation.isPending}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAN_IDS.map((planId) => (
+                    <SelectItem key={planId} value={planId}>
+                      {PLANS[planId].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <PlanUsageMeters usage={school.usage} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
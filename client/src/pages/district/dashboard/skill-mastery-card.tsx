@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Target } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/lib/api";
+import type { DistrictSkillMasteryReportDTO } from "@shared/contracts/api";
+
+const SKILL_ROWS = 15;
+
+/** Skill mastery across the district's schools, each computed with that school's mastery rules. */
+export function DistrictSkillMasteryCard() {
+  const { data, isLoading } = useQuery<DistrictSkillMasteryReportDTO>({
+    queryKey: ["/api/districts/reports/skill-mastery"],
+    queryFn: api.getDistrictSkillMastery,
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Target className="h-5 w-5 text-purple-600" />
+          <span>Skill Mastery</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Pass rate counts students at Proficient or Applying. Averages weigh each school by the students it assessed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading skill mastery...</p>}
+        {data && data.skills.length === 0 && <p className="text-sm text-gray-600">No graded skills yet.</p>}
+
+        {data && data.skills.length > 0 && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-3 text-left">School</th>
+                    <th className="p-3 text-center">Skills assessed</th>
+                    <th className="p-3 text-center">Avg Score</th>
+                    <th className="p-3 text-center">Pass Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.schools.map((school) => (
+                    <tr key={school.schoolId} className="border-b hover:bg-gray-50">
+                      <td className="p-3 font-medium text-gray-900">{school.schoolName}</td>
+                      <td className="p-3 text-center text-gray-800">{school.skillsAssessed}</td>
+                      <td className="p-3 text-center text-gray-800">{school.averageScore.toFixed(1)}</td>
+                      <td className="p-3 text-center text-gray-800">{Math.round(school.passRate)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-3 text-left">Component Skill</th>
+                    <th className="p-3 text-left">Competency</th>
+                    <th className="p-3 text-center">Students</th>
+                    <th className="p-3 text-center">Avg Score</th>
+                    <th className="p-3 text-center">Pass Rate</th>
+                    <th className="p-3 text-left">By school</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.skills.slice(0, SKILL_ROWS).map((skill) => (
+                    <tr key={skill.componentSkillId} className="border-b hover:bg-gray-50">
+                      <td className="p-3">
+                        <p className="font-medium text-gray-900">{skill.name}</p>
+                        <p className="text-xs font-medium text-gray-600">{skill.learnerOutcomeName}</p>
+                      </td>
+                      <td className="p-3 text-gray-800">{skill.competencyName}</td>
+                      <td className="p-3 text-center text-gray-800">{skill.studentsAssessed}</td>
+                      <td className="p-3 text-center text-gray-800">{skill.averageScore.toFixed(1)}</td>
+                      <td className="p-3 text-center text-gray-800">{Math.round(skill.passRate)}%</td>
+                      <td className="p-3 text-xs text-gray-600">
+                        {skill.schools.map((school) => `${school.schoolName} ${Math.round(school.passRate)}%`).join(" · ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FolderOpen, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { DistrictProjectOptionDTO, DistrictProjectTemplateDTO } from "@shared/contracts/api";
+
+const TEMPLATES_QUERY_KEY = ["/api/districts/templates"];
+
+/** Publishes projects from the district's schools as templates every school can copy. */
+export function DistrictTemplatesCard() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+
+  const { data: templates = [] } = useQuery<DistrictProjectTemplateDTO[]>({
+    queryKey: TEMPLATES_QUERY_KEY,
+    queryFn: api.getDistrictTemplates,
+  });
+
+  const { data: projects = [] } = useQuery<DistrictProjectOptionDTO[]>({
+    queryKey: ["/api/districts/projects", search],
+    queryFn: () => api.searchDistrictProjects(search),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: api.publishDistrictTemplate,
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      toast({ title: "Template published", description: `${template.title} is now available to every school.` });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't publish the template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: api.deleteDistrictTemplate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY }),
+    onError: (error) => {
+      toast({ title: "Couldn't remove the template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FolderOpen className="h-5 w-5 text-green-600" />
+          <span>Project Templates</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Teachers in every school can start a draft project from a template. Publishing copies the project as it is
+          now; later edits to the original don't change the template.
+        </p>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-900">Published</p>
+          {templates.length === 0 && <p className="text-sm text-gray-600">No templates published yet.</p>}
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between rounded-lg border border-gray-200 p-3">
+              <div>
+                <p className="font-medium text-gray-900">{template.title}</p>
+                <p className="text-xs text-gray-600">
+                  {[template.subjectArea, template.gradeLevel && `Grade ${template.gradeLevel}`, `${template.milestones.length} milestones`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeMutation.mutate(template.id)}
+                disabled={removeMutation.isPending}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-900">Publish a project</p>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search projects in your schools"
+              className="pl-9"
+            />
+          </div>
+          {projects.map((project) => (
+            <div key={project.id} className="flex items-center justify-between rounded-lg bg-gray-50 p-3">
+              <div>
+                <p className="font-medium text-gray-900">{project.title}</p>
+                <p className="text-xs text-gray-600">
+                  {[project.schoolName, project.teacherName].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => publishMutation.mutate(project.id)}
+                disabled={publishMutation.isPending}
+              >
+                Publish
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
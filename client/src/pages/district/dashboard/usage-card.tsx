@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Activity } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/lib/api";
+import type { DistrictUsageReportDTO } from "@shared/contracts/api";
+
+/** District-wide totals and a per-school breakdown of accounts, projects and recent submissions. */
+export function DistrictUsageCard() {
+  const { data, isLoading } = useQuery<DistrictUsageReportDTO>({
+    queryKey: ["/api/districts/reports/usage"],
+    queryFn: api.getDistrictUsage,
+  });
+
+  const overview = data?.overview;
+  const totals = [
+    { label: "Students", value: overview?.roleDistribution.students ?? 0 },
+    { label: "Teachers", value: overview?.roleDistribution.teachers ?? 0 },
+    { label: "Active users (30d)", value: overview?.activeUsers ?? 0 },
+    { label: "Active projects", value: overview?.activeProjects ?? 0 },
+    { label: "Credentials issued", value: overview?.totalCredentials ?? 0 },
+  ];
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-blue-600" />
+          <span>Usage</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-sm text-gray-600">Loading usage...</p>}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {totals.map((total) => (
+            <div key={total.label} className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">{total.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{total.value.toLocaleString()}</p>
+            </div>
+          ))}
+        </div>
+        {data && data.schools.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="p-3 text-left">School</th>
+                  <th className="p-3 text-center">Students</th>
+                  <th className="p-3 text-center">Teachers</th>
+                  <th className="p-3 text-center">Active users (30d)</th>
+                  <th className="p-3 text-center">Projects</th>
+                  <th className="p-3 text-center">Active projects</th>
+                  <th className="p-3 text-center">Submissions (30d)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.schools.map((school) => (
+                  <tr key={school.schoolId} className="border-b hover:bg-gray-50">
+                    <td className="p-3 font-medium text-gray-900">{school.schoolName}</td>
+                    <td className="p-3 text-center text-gray-800">{school.students}</td>
+                    <td className="p-3 text-center text-gray-800">{school.teachers}</td>
+                    <td className="p-3 text-center text-gray-800">{school.activeUsers}</td>
+                    <td className="p-3 text-center text-gray-800">{school.projects}</td>
+                    <td className="p-3 text-center text-gray-800">{school.activeProjects}</td>
+                    <td className="p-3 text-center text-gray-800">{school.submissionsLast30Days}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { forgotPasswordSchema } from '@shared/schema';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import type { z } from 'zod';
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { identifier: '' },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: api.requestPasswordReset,
+    onSuccess: () => setSent(true),
+    onError: () => {
+      toast({
+        title: 'Request Failed',
+        description: 'Too many attempts or a network problem. Please try again later.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Forgot Password</CardTitle>
+          <p className="text-sm text-muted-foreground text-center">
+            Enter your username or email and we'll send you a link to choose a new password
+          </p>
+        </CardHeader>
+        <CardContent>
+          {sent ? (
+            <p className="text-sm text-center text-gray-700">
+              If an account matches, a reset link is on its way. Check your inbox; the link expires in 1 hour.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="identifier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username or email</FormLabel>
+                      <FormControl>
+                        <Input type="text" placeholder="Enter your username or email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+                  {requestMutation.isPending ? 'Sending...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-4 text-center text-sm">
+            <Link href="/login" className="text-blue-600 hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { GuardianRegisterRequestDTO } from "@shared/contracts/api";
+
+const EMPTY_FORM: GuardianRegisterRequestDTO = {
+  code: "",
+  firstName: "",
+  lastName: "",
+  email: "",
+  username: "",
+  password: "",
+};
+
+/** Family account sign-up; the invite code from the school links the new account to a student. */
+export default function GuardianRegister() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [form, setForm] = useState<GuardianRegisterRequestDTO>(EMPTY_FORM);
+
+  const update = (field: keyof GuardianRegisterRequestDTO) => (event: ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const registerMutation = useMutation({
+    mutationFn: () => api.registerGuardian(form),
+    onSuccess: () => {
+      toast({ title: "Account created", description: "Check your email for a link to confirm your address." });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/");
+    },
+    onError: (error) => {
+      toast({ title: "Registration Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 overflow-y-auto py-8">
+      <Card className="w-full max-w-md my-8">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Parent or Guardian Account</CardTitle>
+          <p className="text-sm text-muted-foreground text-center">
+            Use the invite code from your student's teacher to follow their progress
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              registerMutation.mutate();
+            }}
+          >
+            <div>
+              <Label htmlFor="guardian-code">Invite code</Label>
+              <Input id="guardian-code" value={form.code} onChange={update("code")} placeholder="ABCD-EFGH" autoComplete="off" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="guardian-first-name">First Name</Label>
+                <Input id="guardian-first-name" value={form.firstName} onChange={update("firstName")} />
+              </div>
+              <div>
+                <Label htmlFor="guardian-last-name">Last Name</Label>
+                <Input id="guardian-last-name" value={form.lastName} onChange={update("lastName")} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="guardian-email">Email</Label>
+              <Input id="guardian-email" type="email" value={form.email} onChange={update("email")} />
+            </div>
+            <div>
+              <Label htmlFor="guardian-username">Username</Label>
+              <Input id="guardian-username" value={form.username} onChange={update("username")} placeholder="Choose a username" />
+            </div>
+            <div>
+              <Label htmlFor="guardian-password">Password</Label>
+              <Input
+                id="guardian-password"
+                type="password"
+                value={form.password}
+                onChange={update("password")}
+                placeholder="Choose a password (min 8 characters)"
+              />
+            </div>
+            <Button type="submit" className="w-full mt-6" disabled={registerMutation.isPending}>
+              {registerMutation.isPending ? "Creating Account..." : "Create Account"}
+            </Button>
+          </form>
+          <div className="mt-4 text-center text-sm">
+            <p className="text-gray-600">
+              Already have an account?{" "}
+              <Link href="/login" className="text-blue-600 hover:underline">
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import Navigation from "@/components/navigation";
+import StudentProgressView from "@/components/student-progress-view";
+import { api } from "@/lib/api";
+import type { GuardianStudentProgressDTO } from "@shared/contracts/api";
+import { GUARDIAN_STUDENTS_QUERY_KEY, LinkedStudentsCard } from "./dashboard/linked-students-card";
+import { StudentPortfolioCard } from "./dashboard/student-portfolio-card";
+
+/** Read-only progress, credentials and portfolio for the students linked to a guardian. */
+export default function GuardianDashboard() {
+  const { data: students = [] } = useQuery<GuardianStudentProgressDTO[]>({
+    queryKey: GUARDIAN_STUDENTS_QUERY_KEY,
+    queryFn: api.getGuardianStudents,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Student progress</h1>
+            <p className="text-gray-600">
+              Projects, credentials and skill progress for your students, updated as teachers grade their work.
+            </p>
+          </div>
+
+          <LinkedStudentsCard students={students} />
+          <StudentProgressView guardianView />
+          <StudentPortfolioCard students={students} />
+        </div>
+      </main>
+    </div>
+  );
+}
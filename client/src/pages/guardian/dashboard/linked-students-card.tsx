@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { GuardianStudentProgressDTO } from "@shared/contracts/api";
+
+export const GUARDIAN_STUDENTS_QUERY_KEY = ["/api/guardian/students"];
+
+function studentName(student: GuardianStudentProgressDTO): string {
+  return [student.firstName, student.lastName].filter(Boolean).join(" ") || student.username;
+}
+
+/** Linked students with their weekly email setting, plus a form to link another student by invite code. */
+export function LinkedStudentsCard({ students }: { students: GuardianStudentProgressDTO[] }) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const redeemMutation = useMutation({
+    mutationFn: () => api.redeemGuardianInvite({ code }),
+    onSuccess: (linked) => {
+      setCode("");
+      queryClient.setQueryData(GUARDIAN_STUDENTS_QUERY_KEY, linked);
+      toast({ title: "Student linked" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't link the student", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const summaryMutation = useMutation({
+    mutationFn: ({ studentId, weeklySummary }: { studentId: number; weeklySummary: boolean }) =>
+      api.setGuardianWeeklySummary(studentId, weeklySummary),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: GUARDIAN_STUDENTS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save your email setting", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Link2 className="h-5 w-5 text-blue-600" />
+          <span>Your students</span>
+        </CardTitle>
+        <CardDescription>Each invite code from a teacher links one student to your account.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {students.map((student) => (
+          <div key={student.id} className="flex items-center justify-between rounded-lg border border-gray-200 p-3">
+            <div>
+              <p className="font-medium text-gray-900">{studentName(student)}</p>
+              <p className="text-sm text-gray-600">
+                {[student.schoolName, student.grade && `Grade ${student.grade}`].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`weekly-summary-${student.id}`}
+                checked={student.weeklySummary}
+                disabled={summaryMutation.isPending}
+                onCheckedChange={(checked) =>
+                  summaryMutation.mutate({ studentId: student.id, weeklySummary: checked === true })
+                }
+              />
+              <Label htmlFor={`weekly-summary-${student.id}`} className="flex items-center gap-1 text-sm text-gray-700">
+                <Mail className="h-4 w-4" />
+                Weekly email
+              </Label>
+            </div>
+          </div>
+        ))}
+
+        <form
+          className="flex flex-col gap-2 sm:flex-row sm:items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            redeemMutation.mutate();
+          }}
+        >
+          <div className="flex-1">
+            <Label htmlFor="guardian-invite-code">Invite code</Label>
+            <Input
+              id="guardian-invite-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder="ABCD-EFGH"
+              autoComplete="off"
+            />
+          </div>
+          <Button type="submit" disabled={!code.trim() || redeemMutation.isPending}>
+            {redeemMutation.isPending ? "Linking..." : "Link student"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink, FolderOpen } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api } from "@/lib/api";
+import type { GuardianStudentPortfolioDTO, GuardianStudentProgressDTO } from "@shared/contracts/api";
+
+/** Read-only portfolio work for one linked student at a time. */
+export function StudentPortfolioCard({ students }: { students: GuardianStudentProgressDTO[] }) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const studentId = selectedId ?? students[0]?.id ?? null;
+
+  const { data: portfolio, isLoading } = useQuery<GuardianStudentPortfolioDTO>({
+    queryKey: [`/api/guardian/students/${studentId}/portfolio`],
+    queryFn: () => api.getGuardianStudentPortfolio(studentId!),
+    enabled: studentId !== null,
+  });
+
+  if (students.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center space-x-2">
+          <FolderOpen className="h-5 w-5 text-blue-600" />
+          <span>Portfolio</span>
+        </CardTitle>
+        {students.length > 1 && (
+          <Select value={String(studentId)} onValueChange={(value) => setSelectedId(Number(value))}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {students.map((student) => (
+                <SelectItem key={student.id} value={String(student.id)}>
+                  {[student.firstName, student.lastName].filter(Boolean).join(" ") || student.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-gray-600">Loading portfolio...</p>}
+        {portfolio && portfolio.artifacts.length === 0 && (
+          <p className="text-sm text-gray-600">No portfolio work yet. Completed milestones show up here.</p>
+        )}
+        {portfolio?.artifacts.map((artifact) => (
+          <div key={artifact.id} className="rounded-lg border border-gray-200 p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">{artifact.title}</p>
+                {(artifact.projectTitle || artifact.milestoneTitle) && (
+                  <p className="text-xs text-gray-500">
+                    {[artifact.projectTitle, artifact.milestoneTitle].filter(Boolean).join(" · ")}
+                  </p>
+                )}
+              </div>
+              {artifact.artifactType && <Badge variant="secondary">{artifact.artifactType}</Badge>}
+            </div>
+            {artifact.description && <p className="mt-2 text-sm text-gray-600">{artifact.description}</p>}
+            {artifact.artifactUrl && (
+              <a
+                href={artifact.artifactUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="mt-2 inline-flex items-center text-sm text-blue-600 hover:underline"
+              >
+                <ExternalLink className="h-3 w-3 mr-1" />
+                Open
+              </a>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
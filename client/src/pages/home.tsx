@@ -23,6 +23,12 @@ export default function Home() {
         case 'admin':
           setLocation('/admin/dashboard');
           break;
+        case 'guardian':
+          setLocation('/guardian/dashboard');
+          break;
+        case 'district_admin':
+          setLocation('/district/dashboard');
+          break;
         default:
           setLocation('/student/dashboard');
       }
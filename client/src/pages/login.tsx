@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation } from '@tanstack/react-query';
 import { loginSchema } from '@shared/schema';
+import { ssoErrorMessage } from '@shared/school-sso';
+import { api } from '@/lib/api';
 import { apiWithRetry } from '@/lib/apiHelpers';
 import { apiRequest, isApiError, queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
@@ -10,7 +12,7 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import type { z } from 'zod';
 
 type LoginForm = z.infer<typeof loginSchema>;
@@ -41,6 +43,38 @@ export default function Login() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [ssoEmail, setSsoEmail] = useState('');
+
+  // The SSO callback redirects here with an error code when a provider sign-in fails
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get('sso_error');
+    if (!ssoError) {
+      return;
+    }
+    toast({
+      title: 'Single sign-on failed',
+      description: ssoErrorMessage(ssoError),
+      variant: 'destructive',
+    });
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [toast]);
+
+  const ssoMutation = useMutation({
+    mutationFn: (email: string) => api.discoverSso(email),
+    onSuccess: (discovery) => {
+      window.location.assign(discovery.startUrl);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Single sign-on unavailable',
+        description:
+          isApiError(error) && error.status === 404
+            ? "Your school hasn't set up single sign-on for that email domain. Sign in with your username instead."
+            : 'Failed to look up your school. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -99,6 +133,10 @@ export default function Login() {
           return 'Login timed out while waiting for the database. Please try again.';
         }
 
+        if (isApiError(error) && error.status === 403 && error.payload?.message) {
+          return error.payload.message;
+        }
+
         if (error instanceof Error && error.message.includes('Invalid credentials')) {
           return 'Invalid username or password. Please try again.';
         }
@@ -176,7 +214,40 @@ export default function Login() {
               ) : null}
             </form>
           </Form>
-          <div className="mt-4 text-center text-sm">
+          <div className="mt-6 border-t pt-6">
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                if (ssoEmail.includes('@')) {
+                  ssoMutation.mutate(ssoEmail.trim());
+                }
+              }}
+              className="space-y-3"
+            >
+              <label htmlFor="sso-email" className="text-sm font-medium">
+                Sign in with your school account
+              </label>
+              <Input
+                id="sso-email"
+                type="email"
+                placeholder="you@yourschool.org"
+                value={ssoEmail}
+                onChange={(event) => setSsoEmail(event.target.value)}
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                className="w-full"
+                disabled={!ssoEmail.includes('@') || ssoMutation.isPending || ssoMutation.isSuccess}
+              >
+                {ssoMutation.isPending || ssoMutation.isSuccess ? 'Redirecting...' : 'Continue with single sign-on'}
+              </Button>
+            </form>
+          </div>
+          <div className="mt-4 text-center text-sm space-y-2">
+            <Link href="/forgot-password" className="text-blue-600 hover:underline">
+              Forgot your password?
+            </Link>
             <p className="text-gray-600">
               Need an account? Contact your administrator for access.
             </p>
@@ -13,6 +13,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import CredentialBadge from "@/components/credential-badge";
+import { OpenBadgeActions } from "./public-portfolio/open-badge-actions";
 import {
   Award,
   Calendar,
@@ -597,6 +598,9 @@ export default function PublicPortfolio({ params }: { params: { publicUrl: strin
             <p>
               Last verified update: {verification.lastVerifiedAt ? format(new Date(verification.lastVerifiedAt), "MMMM d, yyyy") : "Not available"}
             </p>
+            <p>
+              Each credential can be downloaded as a signed Open Badges 3.0 credential and verified independently, including whether the school has since revoked it.
+            </p>
             <p>
               Proficiency rubric reference: <span className="font-medium">Emerging → Developing → Proficient → Applying</span>
             </p>
@@ -718,6 +722,7 @@ export default function PublicPortfolio({ params }: { params: { publicUrl: strin
                   <Card key={credential.id} className="border border-slate-200">
                     <CardContent className="pt-4">
                       <CredentialBadge credential={credential as any} size="lg" showDetails />
+                      <OpenBadgeActions credentialId={credential.id} title={credential.title} />
                     </CardContent>
                   </Card>
                 ))}
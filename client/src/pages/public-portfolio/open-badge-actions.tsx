@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Code, Download, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { OpenBadgeVerificationDTO } from "@shared/contracts/api";
+
+interface OpenBadgeActionsProps {
+  credentialId: number;
+  title: string;
+}
+
+function openBadgeUrl(credentialId: number): string {
+  return `${window.location.origin}/api/credentials/${credentialId}/open-badge`;
+}
+
+/** Export, verify and embed links for one credential as a signed Open Badges 3.0 credential. */
+export function OpenBadgeActions({ credentialId, title }: OpenBadgeActionsProps) {
+  const { toast } = useToast();
+  const [verification, setVerification] = useState<OpenBadgeVerificationDTO | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const verify = async () => {
+    setIsVerifying(true);
+    try {
+      const badgeResponse = await fetch(openBadgeUrl(credentialId));
+      if (!badgeResponse.ok) {
+        throw new Error(badgeResponse.status === 410 ? "This credential has been revoked" : "Credential unavailable");
+      }
+      const verifyResponse = await fetch("/api/credentials/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await badgeResponse.text(),
+      });
+      if (!verifyResponse.ok) {
+        throw new Error("Verification service unavailable");
+      }
+      setVerification(await verifyResponse.json());
+    } catch (error) {
+      toast({
+        title: "Couldn't verify credential",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const copyEmbedCode = async () => {
+    const embedCode = `<a href="${openBadgeUrl(credentialId)}" rel="noopener" target="_blank">Open Badge: ${title.replace(/[<>&"]/g, "")}</a>`;
+    try {
+      await navigator.clipboard.writeText(embedCode);
+      toast({ title: "Embed code copied", description: "Paste it into an application or website to link the signed badge." });
+    } catch {
+      toast({ title: "Couldn't copy embed code", description: embedCode });
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 print:hidden">
+      <div className="flex flex-wrap gap-2">
+        <Button asChild size="sm" variant="outline">
+          <a href={`${openBadgeUrl(credentialId)}?download`} download>
+            <Download className="h-3.5 w-3.5 mr-1" />
+            Open Badge
+          </a>
+        </Button>
+        <Button size="sm" variant="outline" onClick={verify} disabled={isVerifying}>
+          <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+          {isVerifying ? "Verifying..." : "Verify"}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={copyEmbedCode}>
+          <Code className="h-3.5 w-3.5 mr-1" />
+          Embed
+        </Button>
+      </div>
+      {verification && (
+        <p className={`flex items-center text-xs ${verification.verified ? "text-emerald-700" : "text-red-700"}`}>
+          {verification.verified ? (
+            <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+          ) : (
+            <ShieldAlert className="h-3.5 w-3.5 mr-1" />
+          )}
+          {verification.verified
+            ? `Signature valid · issued by ${verification.issuerName ?? "this school"}`
+            : verification.errors.join(". ")}
+        </p>
+      )}
+    </div>
+  );
+}
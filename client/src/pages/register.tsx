@@ -55,7 +55,7 @@ export default function Register() {
     onSuccess: () => {
       toast({
         title: 'Success',
-        description: 'Account created successfully',
+        description: 'Account created. Check your email for a link to confirm your address.',
       });
       // Invalidate auth query to refetch user data
       queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
@@ -251,6 +251,12 @@ export default function Register() {
                 Sign in
               </Link>
             </p>
+            <p className="text-gray-600 mt-2">
+              Parent or guardian with an invite code?{' '}
+              <Link href="/register/guardian" className="text-blue-600 hover:underline">
+                Create a family account
+              </Link>
+            </p>
           </div>
         </CardContent>
       </Card>
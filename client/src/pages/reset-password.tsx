@@ -0,0 +1,94 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { Link, useLocation } from 'wouter';
+import { resetPasswordSchema } from '@shared/schema';
+import { api } from '@/lib/api';
+import { ApiError, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import type { z } from 'zod';
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { token, newPassword: '' },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: api.resetPassword,
+    onSuccess: () => {
+      toast({
+        title: 'Password Updated',
+        description: 'Sign in with your new password.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      setLocation('/login');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Reset Failed',
+        description: error instanceof ApiError && error.payload?.message ? error.payload.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">Choose a New Password</CardTitle>
+          <p className="text-sm text-muted-foreground text-center">
+            Resetting your password signs you out on every device
+          </p>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-center text-gray-700">
+              This reset link is incomplete. Request a new one from the forgot password page.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="At least 8 characters" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending ? 'Saving...' : 'Reset Password'}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <div className="mt-4 text-center text-sm space-x-4">
+            <Link href="/forgot-password" className="text-blue-600 hover:underline">
+              Request a new link
+            </Link>
+            <Link href="/login" className="text-blue-600 hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
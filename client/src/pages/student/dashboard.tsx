@@ -32,6 +32,7 @@ import {
   FileText,
   Search
 } from "lucide-react";
+import { ClassAssessmentsCard } from "./dashboard/class-assessments-card";
 import type {
   AssessmentDTO,
   CredentialDTO,
@@ -208,6 +209,8 @@ export default function StudentDashboard() {
 
           {/* Main Content */}
           <div className="space-y-8">
+            <ClassAssessmentsCard />
+
             {/* Search Bar */}
             <Card>
               <CardContent className="p-4">
@@ -520,6 +523,10 @@ function AssessmentCard({
       : <Badge className="bg-gray-100 text-gray-800">Not Started</Badge>;
   };
 
+  // Another attempt opens once the latest one has been graded and the limit allows it
+  const canResubmit = submission?.status === 'graded' &&
+    (assessment.maxAttempts === null || (submission.attemptNumber ?? 1) < (assessment.maxAttempts ?? 1));
+
   const handleViewAssessment = () => {
     if (submission) {
       // If there's a submission, expand to show details instead of navigating
@@ -572,7 +579,17 @@ function AssessmentCard({
             <h6 className="text-sm font-medium text-gray-700 mb-2">Submission Details</h6>
             <div className="text-xs text-gray-600 space-y-1">
               <p>Submitted: {submission.submittedAt ? new Date(submission.submittedAt).toLocaleString() : 'Not submitted yet'}</p>
+              {(submission.attemptNumber ?? 1) > 1 && <p>Attempt {submission.attemptNumber}</p>}
             </div>
+            {canResubmit && (
+              <Button
+                size="sm"
+                className="mt-2"
+                onClick={() => setLocation(`/student/assessments/${assessment.id}`)}
+              >
+                Revise & Resubmit
+              </Button>
+            )}
           </div>
 
           {/* Earned Credentials - Only show for graded assessments */}
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowRight, Calendar, School } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/lib/api";
+import type { StudentClassAssessmentDTO } from "@shared/contracts/api";
+
+/** Standalone assessments a teacher assigned to one of the student's classes; hidden when there are none. */
+export function ClassAssessmentsCard() {
+  const { data: assessments = [] } = useQuery<StudentClassAssessmentDTO[]>({
+    queryKey: ["/api/classes/assessments"],
+    queryFn: api.getStudentClassAssessments,
+    retry: false,
+  });
+
+  if (assessments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <School className="h-5 w-5 text-blue-600" />
+          <span>Class assessments</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {assessments.map((assessment) => (
+          <div
+            key={assessment.assessmentId}
+            className="flex items-center justify-between rounded-lg border border-gray-200 p-4"
+          >
+            <div className="space-y-1">
+              <p className="font-medium text-gray-900">{assessment.title}</p>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Badge variant="secondary">{assessment.className}</Badge>
+                {assessment.dueDate && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    Due {new Date(assessment.dueDate).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+            </div>
+            <Link href={`/student/assessments/${assessment.assessmentId}`}>
+              <Button size="sm">
+                Open
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </Link>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
@@ -17,7 +17,10 @@ import {
   CheckCircle,
   ArrowRight,
   ArrowLeft,
-  Send
+  Send,
+  CloudUpload,
+  Timer,
+  RotateCcw
 } from 'lucide-react';
 import { format } from "date-fns";
 import { getCompetencyInfo } from "@/lib/competencyUtils";
@@ -25,17 +28,31 @@ import { formatRubricCriteria } from "@/lib/rubric";
 import AIFeedbackModal from '@/components/modals/ai-feedback-modal';
 import AITutorChat from '@/components/ai-tutor-chat';
 import { api } from '@/lib/api';
+import { ApiError } from '@/lib/queryClient';
+import type { QuestionType } from '@shared/question-types';
+import {
+  FileUploadQuestionInput,
+  MatchingQuestionInput,
+  NumericQuestionInput,
+  RankingQuestionInput,
+} from './take-assessment/structured-question-inputs';
+import { PreviousAttemptFeedback } from './take-assessment/previous-attempt-feedback';
 import type {
   ComponentSkillWithDetailsDTO,
+  SubmissionAttemptDTO,
+  SubmissionAttemptHistoryDTO,
   SubmissionCreateRequestDTO,
+  SubmissionDraftDTO,
   SubmissionFeedbackPreviewResponseDTO,
 } from '@shared/contracts/api';
 
 interface Question {
   id: string;
   text: string;
-  type: 'open-ended' | 'multiple-choice' | 'short-answer';
+  type: QuestionType;
   options?: string[];
+  prompts?: string[];
+  tolerance?: number;
   rubricCriteria?: string;
 }
 
@@ -49,6 +66,8 @@ interface Assessment {
   aiGenerated: boolean;
   assessmentType: 'teacher' | 'self-evaluation';
   allowSelfEvaluation: boolean;
+  timeLimitMinutes?: number | null;
+  latePolicy?: 'accept' | 'reject' | 'flag' | null;
 }
 
 interface SelfEvaluationData {
@@ -86,6 +105,21 @@ const parseQuestionOptions = (options: any): { options: string[], hasError: bool
   }
 };
 
+// Questions whose stored configuration can't be answered; these block submission
+const hasQuestionConfigurationError = (question: Question): boolean => {
+  if (question.type === 'multiple-choice') {
+    const { options, hasError } = parseQuestionOptions(question.options);
+    return hasError || options.length === 0;
+  }
+  if (question.type === 'ranking') {
+    return parseQuestionOptions(question.options).options.length < 2;
+  }
+  if (question.type === 'matching') {
+    return !question.prompts?.length || parseQuestionOptions(question.options).options.length === 0;
+  }
+  return false;
+};
+
 const normalizeRubricLevels = (rubricLevels: unknown): Record<string, string> | null => {
   if (!rubricLevels || typeof rubricLevels !== "object") {
     return null;
@@ -105,6 +139,24 @@ const normalizeRubricLevels = (rubricLevels: unknown): Record<string, string> |
 };
 
 const MAX_PRE_SUBMIT_FEEDBACK_REQUESTS = 3;
+const DRAFT_AUTOSAVE_INTERVAL_MS = 15000;
+
+const formatRemainingTime = (remainingMs: number) => {
+  const totalSeconds = Math.max(0, Math.floor(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const paddedSeconds = String(seconds).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`;
+};
+
+const toResponseList = (answers: Record<string, string>) =>
+  Object.entries(answers).map(([questionId, answer]) => ({
+    questionId,
+    answer
+  }));
 
 export default function TakeAssessment() {
   const { id } = useParams();
@@ -117,6 +169,19 @@ export default function TakeAssessment() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [preSubmitFeedback, setPreSubmitFeedback] = useState('');
   const [feedbackRequestCount, setFeedbackRequestCount] = useState(0);
+  const [lastDraftSavedAt, setLastDraftSavedAt] = useState<Date | null>(null);
+
+  // Draft autosave bookkeeping kept in refs so the interval always sees the latest answers
+  const answersRef = useRef<Record<string, string>>({});
+  const hasUnsavedChangesRef = useRef(false);
+  const draftRestoredRef = useRef(false);
+  const previousAttemptRestoredRef = useRef(false);
+  const isSavingDraftRef = useRef(false);
+
+  // Countdown for timed attempts; the auto-submit handler is refreshed every render
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const autoSubmitRef = useRef<(() => void) | null>(null);
+  const timeUpHandledRef = useRef(false);
 
   // Self-evaluation specific state
   const [currentSkillIndex, setCurrentSkillIndex] = useState(0);
@@ -163,6 +228,148 @@ export default function TakeAssessment() {
     retry: false,
   });
 
+  const assessmentId = id ? parseInt(id) : NaN;
+  const draftsEnabled =
+    isAuthenticated &&
+    user?.role === 'student' &&
+    assessment?.assessmentType === 'teacher' &&
+    !Number.isNaN(assessmentId);
+
+  // Resume from the latest server-side draft, which may come from another device
+  const { data: savedDraft } = useQuery<SubmissionDraftDTO | null>({
+    queryKey: ['/api/submissions/drafts', assessmentId],
+    queryFn: () => api.getSubmissionDraft(assessmentId),
+    enabled: draftsEnabled,
+    retry: false,
+  });
+
+  // Record the start time on the server so the time limit survives reloads and device switches
+  const { data: attempt, error: attemptError } = useQuery<SubmissionAttemptDTO>({
+    queryKey: ['/api/submissions/start', assessmentId],
+    queryFn: () => api.startSubmissionAttempt(assessmentId),
+    enabled: draftsEnabled,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!savedDraft || draftRestoredRef.current) {
+      return;
+    }
+    draftRestoredRef.current = true;
+
+    const restoredAnswers = savedDraft.responses.reduce<Record<string, string>>((accumulator, response) => {
+      accumulator[String(response.questionId)] = response.answer;
+      return accumulator;
+    }, {});
+
+    if (Object.keys(restoredAnswers).length === 0) {
+      return;
+    }
+
+    setAnswers(prev => ({ ...restoredAnswers, ...prev }));
+    answersRef.current = { ...restoredAnswers, ...answersRef.current };
+    setLastDraftSavedAt(savedDraft.lastSavedAt ? new Date(savedDraft.lastSavedAt) : null);
+    toast({
+      title: "Draft restored",
+      description: "We picked up where you left off.",
+    });
+  }, [savedDraft, toast]);
+
+  // Resubmissions start from the previous attempt so students revise rather than rewrite
+  const previousSubmissionId = attempt?.previousSubmissionId ?? null;
+  const { data: attemptHistory } = useQuery<SubmissionAttemptHistoryDTO>({
+    queryKey: ['/api/submissions', previousSubmissionId, 'attempts'],
+    queryFn: () => api.getSubmissionAttempts(previousSubmissionId as number),
+    enabled: draftsEnabled && previousSubmissionId !== null,
+    retry: false,
+  });
+  const previousAttempt = attemptHistory?.attempts.find(item => item.id === previousSubmissionId);
+
+  useEffect(() => {
+    // A saved draft for this attempt takes precedence over the previous attempt's answers
+    if (!previousAttempt || savedDraft === undefined || previousAttemptRestoredRef.current) {
+      return;
+    }
+    previousAttemptRestoredRef.current = true;
+    if (savedDraft && savedDraft.responses.length > 0) {
+      return;
+    }
+
+    const previousAnswers = previousAttempt.responses.reduce<Record<string, string>>((accumulator, response) => {
+      accumulator[String(response.questionId)] = response.answer;
+      return accumulator;
+    }, {});
+
+    setAnswers(prev => ({ ...previousAnswers, ...prev }));
+    answersRef.current = { ...previousAnswers, ...answersRef.current };
+  }, [previousAttempt, savedDraft]);
+
+  const saveDraft = useCallback(async () => {
+    if (!draftsEnabled || !hasUnsavedChangesRef.current || isSavingDraftRef.current) {
+      return;
+    }
+
+    isSavingDraftRef.current = true;
+    hasUnsavedChangesRef.current = false;
+    try {
+      const draft = await api.saveSubmissionDraft(assessmentId, {
+        responses: toResponseList(answersRef.current),
+      });
+      setLastDraftSavedAt(draft.lastSavedAt ? new Date(draft.lastSavedAt) : new Date());
+    } catch {
+      // Keep the changes flagged so the next autosave tick retries them
+      hasUnsavedChangesRef.current = true;
+    } finally {
+      isSavingDraftRef.current = false;
+    }
+  }, [draftsEnabled, assessmentId]);
+
+  useEffect(() => {
+    if (!draftsEnabled) {
+      return;
+    }
+
+    const intervalId = window.setInterval(() => {
+      void saveDraft();
+    }, DRAFT_AUTOSAVE_INTERVAL_MS);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        void saveDraft();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [draftsEnabled, saveDraft]);
+
+  useEffect(() => {
+    // Wait for the draft to be restored so an expired attempt submits the saved answers
+    if (!attempt?.expiresAt || savedDraft === undefined) {
+      setRemainingMs(null);
+      return;
+    }
+
+    const expiresAt = new Date(attempt.expiresAt).getTime();
+    const clockOffset = new Date(attempt.serverTime).getTime() - Date.now();
+
+    const tick = () => {
+      const remaining = expiresAt - (Date.now() + clockOffset);
+      setRemainingMs(remaining);
+      if (remaining <= 0 && !timeUpHandledRef.current) {
+        timeUpHandledRef.current = true;
+        autoSubmitRef.current?.();
+      }
+    };
+
+    tick();
+    const intervalId = window.setInterval(tick, 1000);
+    return () => window.clearInterval(intervalId);
+  }, [attempt, savedDraft]);
+
   const submitAssessmentMutation = useMutation({
     mutationFn: async (submissionData: SubmissionCreateRequestDTO) => {
       const response = await fetch('/api/submissions', {
@@ -174,12 +381,14 @@ export default function TakeAssessment() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to submit assessment');
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.message || 'There was an error submitting your assessment. Please try again.');
       }
 
       return response.json();
     },
     onSuccess: () => {
+      hasUnsavedChangesRef.current = false;
       toast({
         title: "Assessment submitted successfully!",
         description: "Your responses were saved. AI grading has started and feedback will appear shortly.",
@@ -187,9 +396,10 @@ export default function TakeAssessment() {
       setLocation('/student/projects');
     },
     onError: (error) => {
+      setIsSubmitting(false);
       toast({
         title: "Submission failed",
-        description: "There was an error submitting your assessment. Please try again.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -389,27 +599,36 @@ export default function TakeAssessment() {
     );
   }
 
+  if (attemptError) {
+    const unavailableMessage = attemptError instanceof ApiError && attemptError.payload?.message
+      ? attemptError.payload.message
+      : "This assessment can't be started right now.";
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-purple-50">
+        <Card className="max-w-md">
+          <CardContent className="p-6 text-center">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Assessment Unavailable</h2>
+            <p className="text-gray-600 mb-4">{unavailableMessage}</p>
+            <Button onClick={() => setLocation('/student/projects')}>
+              Go to Projects
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const currentQuestion = assessment.questions?.[currentQuestionIndex];
   const currentQuestionRubricCriteria = formatRubricCriteria(currentQuestion?.rubricCriteria);
   const isLastQuestion = currentQuestionIndex === (assessment.questions?.length || 1) - 1;
-  const questionsWithConfigurationErrors = assessment.questions.filter(question => {
-    if (question.type !== 'multiple-choice') {
-      return false;
-    }
-    const { options, hasError } = parseQuestionOptions(question.options);
-    return hasError || options.length === 0;
-  });
-  const answerableQuestions = assessment.questions.filter(question => {
-    if (question.type !== 'multiple-choice') {
-      return true;
-    }
-    const { options, hasError } = parseQuestionOptions(question.options);
-    return !hasError && options.length > 0;
-  });
+  const questionsWithConfigurationErrors = assessment.questions.filter(hasQuestionConfigurationError);
+  const answerableQuestions = assessment.questions.filter(question => !hasQuestionConfigurationError(question));
   const allAnswerableQuestionsAnswered = answerableQuestions.every(q => answers[q.id]);
   const feedbackRequestsRemaining = Math.max(0, MAX_PRE_SUBMIT_FEEDBACK_REQUESTS - feedbackRequestCount);
 
   const handleAnswerChange = (questionId: string, answer: string) => {
+    answersRef.current = { ...answersRef.current, [questionId]: answer };
+    hasUnsavedChangesRef.current = true;
     setAnswers(prev => ({
       ...prev,
       [questionId]: answer
@@ -421,6 +640,7 @@ export default function TakeAssessment() {
     } else {
       if (currentQuestionIndex < (assessment.questions?.length || 0) - 1) {
         setCurrentQuestionIndex(prev => prev + 1);
+        void saveDraft();
       }
     }
   };
@@ -430,6 +650,7 @@ export default function TakeAssessment() {
     } else {
       if (currentQuestionIndex > 0) {
         setCurrentQuestionIndex(prev => prev - 1);
+        void saveDraft();
       }
     }
   };
@@ -474,15 +695,29 @@ export default function TakeAssessment() {
 
     const submissionData: SubmissionCreateRequestDTO = {
       assessmentId: assessment.id,
-      responses: Object.entries(answers).map(([questionId, answer]) => ({
-        questionId,
-        answer
-      }))
+      responses: toResponseList(answers)
     };
 
     submitAssessmentMutation.mutate(submissionData);
   };
 
+  // When time runs out, submit whatever has been answered instead of losing the attempt
+  autoSubmitRef.current = () => {
+    if (isSubmitting || submitAssessmentMutation.isPending || assessment.assessmentType !== 'teacher') {
+      return;
+    }
+
+    toast({
+      title: "Time is up",
+      description: "Your answers are being submitted automatically.",
+    });
+    setIsSubmitting(true);
+    submitAssessmentMutation.mutate({
+      assessmentId: assessment.id,
+      responses: toResponseList(answersRef.current),
+    });
+  };
+
   const handleRequestFeedback = () => {
     if (assessment.assessmentType !== 'teacher') {
       return;
@@ -517,10 +752,7 @@ export default function TakeAssessment() {
 
     const submissionData: SubmissionCreateRequestDTO = {
       assessmentId: assessment.id,
-      responses: Object.entries(answers).map(([questionId, answer]) => ({
-        questionId,
-        answer,
-      })),
+      responses: toResponseList(answers),
     };
 
     requestFeedbackMutation.mutate(submissionData);
@@ -566,6 +798,29 @@ export default function TakeAssessment() {
           </div>
         )}
 
+        {/* Time Remaining */}
+        {remainingMs !== null && (
+          <div className={`mb-6 p-4 rounded-lg border ${
+            remainingMs <= 60 * 1000
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : remainingMs <= 5 * 60 * 1000
+                ? 'bg-orange-50 border-orange-200 text-orange-800'
+                : 'bg-blue-50 border-blue-200 text-blue-800'
+          }`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Timer className="h-5 w-5" />
+                <span className="font-medium">
+                  {remainingMs > 0 ? `Time remaining: ${formatRemainingTime(remainingMs)}` : 'Time is up'}
+                </span>
+              </div>
+              {assessment.timeLimitMinutes && (
+                <span className="text-sm">{assessment.timeLimitMinutes} minute limit</span>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Header */}
         <Card className="mb-6">
           <CardHeader>
@@ -630,9 +885,29 @@ export default function TakeAssessment() {
               <span className="text-sm text-gray-600">{Math.round(progress)}% Complete</span>
             </div>
             <Progress value={progress} />
+            {attempt && attempt.attemptNumber > 1 && (
+              <div className="flex items-center mt-2 text-xs text-gray-600">
+                <RotateCcw className="h-3 w-3 mr-1" />
+                {attempt.maxAttempts
+                  ? `Attempt ${attempt.attemptNumber} of ${attempt.maxAttempts}`
+                  : `Attempt ${attempt.attemptNumber}`}
+              </div>
+            )}
+            {draftsEnabled && (
+              <div className="flex items-center justify-end mt-2 text-xs text-gray-500">
+                <CloudUpload className="h-3 w-3 mr-1" />
+                {lastDraftSavedAt
+                  ? `Draft saved at ${format(lastDraftSavedAt, 'h:mm a')}`
+                  : 'Your answers are saved automatically'}
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {previousAttempt && (
+          <PreviousAttemptFeedback attempt={previousAttempt} />
+        )}
+
         {/* Main Content - Question or Self-Evaluation */}
         {assessment.assessmentType === 'self-evaluation' ? (
           // AI Tutor Chat Interface for Self-Evaluation
@@ -725,6 +1000,51 @@ export default function TakeAssessment() {
               </div>
             )}
 
+            {currentQuestion.type !== 'multiple-choice' && hasQuestionConfigurationError(currentQuestion) && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-800 font-medium">Question Configuration Error</p>
+                <p className="text-red-700 text-sm">
+                  This question is missing the items needed to answer it. Please contact your teacher to resolve this issue.
+                </p>
+              </div>
+            )}
+
+            {currentQuestion.type === 'ranking' && !hasQuestionConfigurationError(currentQuestion) && (
+              <RankingQuestionInput
+                questionId={currentQuestion.id}
+                items={parseQuestionOptions(currentQuestion.options).options}
+                answer={answers[currentQuestion.id] || ''}
+                onAnswerChange={handleAnswerChange}
+              />
+            )}
+
+            {currentQuestion.type === 'matching' && !hasQuestionConfigurationError(currentQuestion) && (
+              <MatchingQuestionInput
+                questionId={currentQuestion.id}
+                prompts={currentQuestion.prompts ?? []}
+                options={parseQuestionOptions(currentQuestion.options).options}
+                answer={answers[currentQuestion.id] || ''}
+                onAnswerChange={handleAnswerChange}
+              />
+            )}
+
+            {currentQuestion.type === 'numeric' && (
+              <NumericQuestionInput
+                questionId={currentQuestion.id}
+                tolerance={currentQuestion.tolerance}
+                answer={answers[currentQuestion.id] || ''}
+                onAnswerChange={handleAnswerChange}
+              />
+            )}
+
+            {currentQuestion.type === 'file-upload' && (
+              <FileUploadQuestionInput
+                questionId={currentQuestion.id}
+                answer={answers[currentQuestion.id] || ''}
+                onAnswerChange={handleAnswerChange}
+              />
+            )}
+
             {(currentQuestion.type === 'open-ended' || currentQuestion.type === 'short-answer') && (
               <Textarea
                 placeholder="Type your answer here..."
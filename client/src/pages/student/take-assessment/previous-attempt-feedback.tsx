@@ -0,0 +1,49 @@
+import { MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { SubmissionAttemptHistoryItemDTO } from "@shared/contracts/api";
+
+interface PreviousAttemptFeedbackProps {
+  attempt: SubmissionAttemptHistoryItemDTO;
+}
+
+/** Feedback from the attempt being revised, shown above the questions while resubmitting. */
+export function PreviousAttemptFeedback({ attempt }: PreviousAttemptFeedbackProps) {
+  const gradedSkills = attempt.grades.filter((grade) => grade.rubricLevel || grade.feedback);
+
+  if (!attempt.feedback && gradedSkills.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-amber-200 bg-amber-50">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <MessageSquare className="h-4 w-4" />
+          <span>Feedback on attempt {attempt.attemptNumber}</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Your previous answers are filled in below. Revise them using this feedback, then resubmit.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {attempt.feedback && (
+          <p className="text-sm text-gray-800 whitespace-pre-wrap">{attempt.feedback}</p>
+        )}
+        {gradedSkills.map((grade) => (
+          <div key={grade.id} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900">
+                {grade.componentSkillName || `Skill ${grade.componentSkillId}`}
+              </span>
+              {grade.rubricLevel && (
+                <Badge variant="secondary" className="capitalize">{grade.rubricLevel}</Badge>
+              )}
+            </div>
+            {grade.feedback && <p className="text-gray-700 mt-1">{grade.feedback}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useRef } from "react";
+import { ArrowDown, ArrowUp, FileUp, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUpload } from "@/hooks/use-upload";
+import { useToast } from "@/hooks/use-toast";
+import {
+  parseFileUploadAnswer,
+  parseMatchingAnswer,
+  parseRankingAnswer,
+} from "@shared/question-types";
+
+interface StructuredQuestionInputProps {
+  questionId: string;
+  answer: string;
+  onAnswerChange: (questionId: string, answer: string) => void;
+}
+
+interface RankingQuestionInputProps extends StructuredQuestionInputProps {
+  items: string[];
+}
+
+export function RankingQuestionInput({ questionId, items, answer, onAnswerChange }: RankingQuestionInputProps) {
+  const savedOrder = parseRankingAnswer(answer);
+  // Ignore a saved order that no longer matches the item set (e.g. the teacher edited the question)
+  const order = savedOrder && savedOrder.length === items.length && items.every((item) => savedOrder.includes(item))
+    ? savedOrder
+    : items;
+
+  const moveItem = (fromIndex: number, toIndex: number) => {
+    const nextOrder = [...order];
+    const [moved] = nextOrder.splice(fromIndex, 1);
+    nextOrder.splice(toIndex, 0, moved);
+    onAnswerChange(questionId, JSON.stringify(nextOrder));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">Use the arrows to put the items in the correct order.</p>
+      <ol className="space-y-2">
+        {order.map((item, index) => (
+          <li key={item} className="flex items-center space-x-3 p-3 border rounded-lg bg-white">
+            <span className="w-6 text-sm font-semibold text-gray-500">{index + 1}.</span>
+            <span className="flex-1 text-gray-800">{item}</span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={index === 0}
+              onClick={() => moveItem(index, index - 1)}
+              aria-label={`Move "${item}" up`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={index === order.length - 1}
+              onClick={() => moveItem(index, index + 1)}
+              aria-label={`Move "${item}" down`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      {!savedOrder && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onAnswerChange(questionId, JSON.stringify(order))}
+        >
+          Keep this order
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface MatchingQuestionInputProps extends StructuredQuestionInputProps {
+  prompts: string[];
+  options: string[];
+}
+
+export function MatchingQuestionInput({
+  questionId,
+  prompts,
+  options,
+  answer,
+  onAnswerChange,
+}: MatchingQuestionInputProps) {
+  const matches = parseMatchingAnswer(answer) ?? {};
+
+  return (
+    <div className="space-y-3">
+      {prompts.map((prompt, index) => (
+        <div key={prompt} className="grid grid-cols-1 md:grid-cols-2 gap-3 items-center p-3 border rounded-lg">
+          <span className="text-gray-800">{prompt}</span>
+          <Select
+            value={matches[prompt] || undefined}
+            onValueChange={(value) => onAnswerChange(questionId, JSON.stringify({ ...matches, [prompt]: value }))}
+          >
+            <SelectTrigger aria-label={`Match for ${prompt}`}>
+              <SelectValue placeholder="Choose a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option, optionIndex) => (
+                <SelectItem key={`match-${index}-${optionIndex}`} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface NumericQuestionInputProps extends StructuredQuestionInputProps {
+  tolerance?: number;
+}
+
+export function NumericQuestionInput({ questionId, tolerance, answer, onAnswerChange }: NumericQuestionInputProps) {
+  return (
+    <div className="space-y-2">
+      <Input
+        type="number"
+        step="any"
+        inputMode="decimal"
+        placeholder="Enter a number"
+        value={answer}
+        onChange={(e) => onAnswerChange(questionId, e.target.value)}
+        className="max-w-xs"
+      />
+      {typeof tolerance === "number" && tolerance > 0 && (
+        <p className="text-xs text-gray-500">Answers within ±{tolerance} are accepted.</p>
+      )}
+    </div>
+  );
+}
+
+export function FileUploadQuestionInput({ questionId, answer, onAnswerChange }: StructuredQuestionInputProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadedFile = parseFileUploadAnswer(answer);
+  const { uploadFile, isUploading, progress } = useUpload({
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const response = await uploadFile(file);
+    if (response) {
+      onAnswerChange(questionId, JSON.stringify({
+        objectPath: response.objectPath,
+        name: response.metadata.name,
+        contentType: response.metadata.contentType,
+        size: response.metadata.size,
+      }));
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => void handleFileSelected(e.target.files?.[0])}
+      />
+
+      {uploadedFile ? (
+        <div className="flex items-center justify-between p-3 border rounded-lg bg-green-50 border-green-200">
+          <a
+            href={uploadedFile.objectPath}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center text-green-800 hover:underline"
+          >
+            <Paperclip className="h-4 w-4 mr-2" />
+            {uploadedFile.name}
+          </a>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => onAnswerChange(questionId, "")}
+            aria-label="Remove uploaded file"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : null}
+
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isUploading}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <FileUp className="h-4 w-4 mr-2" />
+        {isUploading ? "Uploading..." : uploadedFile ? "Replace file" : "Upload file"}
+      </Button>
+      {isUploading && <Progress value={progress} />}
+    </div>
+  );
+}
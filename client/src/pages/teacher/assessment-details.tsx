@@ -34,12 +34,16 @@ import { formatRubricCriteria } from "@/lib/rubric";
 import { api } from "@/lib/api";
 import { Input } from "@/components/ui/input";
 import { X, Check } from "lucide-react";
+import { ItemAnalysisCard } from "./assessment-details/item-analysis-card";
+import { TutorSessionsCard } from "./assessment-details/tutor-sessions-card";
 import type {
   AssessmentDTO,
+  AssessmentItemAnalysisDTO,
   AssessmentSubmissionSummaryDTO,
   AssessmentUpdateRequestDTO,
   ComponentSkillWithDetailsDTO,
 } from "@shared/contracts/api";
+import { QUESTION_TYPE_LABELS, type QuestionType } from "@shared/question-types";
 
 type Submission = AssessmentSubmissionSummaryDTO & {
   answers?: Record<string, string>;
@@ -105,6 +109,18 @@ export default function AssessmentDetails() {
     refetchInterval: 5000, // Refetch every 5 seconds to keep status updated
   });
 
+  const hasMultipleChoiceQuestions = Array.isArray(assessment?.questions) &&
+    assessment.questions.some((question) =>
+      typeof question === "object" && question !== null && (question as AssessmentQuestion).type === "multiple-choice"
+    );
+
+  // Keyed on the submission count so the distribution refreshes as new work arrives
+  const { data: itemAnalysis } = useQuery<AssessmentItemAnalysisDTO>({
+    queryKey: [`/api/assessments/${id}/item-analysis`, submissions.length],
+    queryFn: () => api.getAssessmentItemAnalysis(Number(id)),
+    enabled: isAuthenticated && !!id && hasMultipleChoiceQuestions,
+  });
+
   const { data: assessmentMilestone } = useQuery({
     queryKey: ["/api/milestones", assessment?.milestoneId],
     queryFn: () => api.getMilestone(Number(assessment?.milestoneId)),
@@ -427,8 +443,7 @@ export default function AssessmentDetails() {
                             <p className="text-gray-900 font-medium mb-2">{question.text}</p>
                             <div className="flex items-center space-x-4 text-sm text-gray-500">
                               <Badge variant="outline" className="text-xs">
-                                {question.type === 'multiple-choice' ? 'Multiple Choice' :
-                                  question.type === 'short-answer' ? 'Short Answer' : 'Open Ended'}
+                                {QUESTION_TYPE_LABELS[question.type as QuestionType] ?? 'Open Ended'}
                               </Badge>
                               {rubricCriteria && (
                                 <span className="text-xs">Rubric: {rubricCriteria}</span>
@@ -442,6 +457,14 @@ export default function AssessmentDetails() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Multiple-choice Item Analysis */}
+            {itemAnalysis && itemAnalysis.questions.length > 0 && (
+              <ItemAnalysisCard itemAnalysis={itemAnalysis} />
+            )}
+
+            {/* AI Tutor Conversations */}
+            <TutorSessionsCard assessmentId={Number(id)} />
           </div>
 
           {/* Right Column - Stats and Submissions */}
@@ -0,0 +1,94 @@
+import { BarChart3, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AssessmentItemAnalysisDTO, ItemAnalysisQuestionDTO } from "@shared/contracts/api";
+
+interface ItemAnalysisCardProps {
+  itemAnalysis: AssessmentItemAnalysisDTO;
+}
+
+function getDifficultyBadge(question: ItemAnalysisQuestionDTO) {
+  if (question.responseCount === 0) {
+    return null;
+  }
+  if (question.percentCorrect >= 80) {
+    return <Badge className="bg-green-100 text-green-800 border-green-200 text-xs">Easy</Badge>;
+  }
+  if (question.percentCorrect >= 50) {
+    return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200 text-xs">Moderate</Badge>;
+  }
+  return <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">Difficult</Badge>;
+}
+
+export function ItemAnalysisCard({ itemAnalysis }: ItemAnalysisCardProps) {
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <BarChart3 className="h-5 w-5 text-purple-600" />
+          <CardTitle className="text-lg">Item Analysis</CardTitle>
+        </div>
+        <p className="text-sm text-gray-500">
+          Answer distribution for auto-graded multiple-choice questions across {itemAnalysis.submissionCount} submission{itemAnalysis.submissionCount === 1 ? "" : "s"}.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {itemAnalysis.questions.map((question, index) => {
+            // The most-picked wrong option is the distractor worth revisiting in class
+            const topDistractor = question.options
+              .filter((option) => !option.isCorrect && option.count > 0)
+              .sort((a, b) => b.count - a.count)[0];
+
+            return (
+              <div key={question.questionId} className="border border-gray-200 rounded-lg p-4 bg-white">
+                <div className="flex items-start justify-between mb-3">
+                  <p className="text-gray-900 font-medium">
+                    {index + 1}. {question.text}
+                  </p>
+                  <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                    {getDifficultyBadge(question)}
+                    <span className="text-sm font-semibold text-gray-700">{question.percentCorrect}% correct</span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {question.options.map((option) => (
+                    <div key={option.option}>
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className={`flex items-center ${option.isCorrect ? "text-green-700 font-medium" : "text-gray-700"}`}>
+                          {option.isCorrect && <CheckCircle className="h-4 w-4 mr-1" />}
+                          {option.option}
+                        </span>
+                        <span className="text-gray-500">
+                          {option.count} ({option.percentage}%)
+                        </span>
+                      </div>
+                      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                        <div
+                          className={`h-full ${option.isCorrect ? "bg-green-500" : "bg-orange-400"}`}
+                          style={{ width: `${option.percentage}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-500">
+                  <span>{question.points} point{question.points === 1 ? "" : "s"}</span>
+                  {question.unansweredCount > 0 && <span>{question.unansweredCount} unanswered</span>}
+                  {question.otherCount > 0 && <span>{question.otherCount} answered outside the options</span>}
+                  {topDistractor && (
+                    <span className="text-orange-700">
+                      Most common distractor: "{topDistractor.option}"
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Bot, Lightbulb, Loader2, MessageSquare, RefreshCw, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type {
+  TutorSessionDetailDTO,
+  TutorSessionSummaryDTO,
+  TutorSkillMisconceptionsDTO,
+} from "@shared/contracts/api";
+
+interface TutorSessionsCardProps {
+  assessmentId: number;
+}
+
+function formatDate(value: Date | string): string {
+  return format(new Date(value), "MMM d, h:mm a");
+}
+
+function SessionStatusBadge({ session }: { session: TutorSessionSummaryDTO }) {
+  if (session.safetyFlag) {
+    return (
+      <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Safety flag
+      </Badge>
+    );
+  }
+  if (session.completedAt) {
+    return <Badge className="bg-green-100 text-green-800 border-green-200 text-xs">Completed</Badge>;
+  }
+  return <Badge variant="outline" className="text-xs">In progress</Badge>;
+}
+
+function MisconceptionsSection({ assessmentId }: TutorSessionsCardProps) {
+  const { toast } = useToast();
+  const queryKey = [`/api/assessments/${assessmentId}/tutor-misconceptions`];
+
+  const { data: skills = [], isLoading } = useQuery<TutorSkillMisconceptionsDTO[]>({
+    queryKey,
+    queryFn: () => api.getAssessmentTutorMisconceptions(assessmentId),
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: () => api.refreshAssessmentTutorMisconceptions(assessmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Summary Failed",
+        description: error instanceof Error ? error.message : "Failed to summarize tutor conversations.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || skills.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Lightbulb className="h-4 w-4 text-amber-600" />
+          <h3 className="font-medium text-gray-900">Common Misconceptions</h3>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isPending}
+        >
+          {refreshMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Summarize
+        </Button>
+      </div>
+
+      {skills.map((skill) => (
+        <div key={skill.componentSkillId} className="border border-gray-200 rounded-lg p-4 bg-white">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-medium text-gray-900">{skill.componentSkillName}</p>
+            <span className="text-xs text-gray-500">
+              {skill.summary
+                ? `From ${skill.summary.sessionCount} of ${skill.sessionCount} conversation${skill.sessionCount === 1 ? "" : "s"}, ${formatDate(skill.summary.generatedAt)}`
+                : `${skill.sessionCount} conversation${skill.sessionCount === 1 ? "" : "s"}, not summarized yet`}
+            </span>
+          </div>
+          {skill.summary && skill.summary.misconceptions.length === 0 && (
+            <p className="text-sm text-gray-500">No common misconceptions found.</p>
+          )}
+          {skill.summary && skill.summary.misconceptions.length > 0 && (
+            <ul className="space-y-3">
+              {skill.summary.misconceptions.map((entry) => (
+                <li key={entry.misconception} className="text-sm">
+                  <p className="text-gray-900">
+                    {entry.misconception}
+                    <span className="text-gray-500"> · {entry.sessionCount} conversation{entry.sessionCount === 1 ? "" : "s"}</span>
+                  </p>
+                  {entry.example && <p className="text-gray-600 italic">“{entry.example}”</p>}
+                  {entry.suggestion && <p className="text-blue-700">Try: {entry.suggestion}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TranscriptDialog({
+  assessmentId,
+  sessionId,
+  onClose,
+}: TutorSessionsCardProps & { sessionId: number | null; onClose: () => void }) {
+  const { data: session, isLoading } = useQuery<TutorSessionDetailDTO>({
+    queryKey: [`/api/assessments/${assessmentId}/tutor-sessions`, sessionId],
+    queryFn: () => api.getAssessmentTutorSession(assessmentId, sessionId!),
+    enabled: sessionId !== null,
+  });
+
+  return (
+    <Dialog open={sessionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session ? `${session.studentName} · ${session.componentSkillName ?? "Component skill"}` : "Tutor conversation"}</DialogTitle>
+          <DialogDescription>
+            {session ? `Started ${formatDate(session.createdAt)}` : "Loading conversation..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+        {session && (
+          <div className="space-y-3">
+            {session.turns.map((turn) => (
+              <div
+                key={turn.id}
+                className={`rounded-lg p-3 text-sm whitespace-pre-wrap ${turn.role === "student" ? "bg-blue-50 ml-8" : "bg-gray-100 mr-8"}`}
+              >
+                <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                  <span className="flex items-center">
+                    {turn.role === "tutor" && <Bot className="h-3 w-3 mr-1" />}
+                    {turn.role === "student" ? session.studentName : "AI Tutor"}
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    {turn.suggestedLevel && <span className="capitalize">Suggested: {turn.suggestedLevel}</span>}
+                    {turn.safetyFlag && <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">Safety flag</Badge>}
+                  </span>
+                </div>
+                {turn.content}
+              </div>
+            ))}
+            {session.finalSummary && (
+              <div className="border-t pt-3">
+                <p className="text-sm font-medium text-gray-900 mb-1">Final summary</p>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{session.finalSummary}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Students' AI tutor conversations on this assessment, with a misconceptions summary per component skill. */
+export function TutorSessionsCard({ assessmentId }: TutorSessionsCardProps) {
+  const [draftSearch, setDraftSearch] = useState("");
+  const [search, setSearch] = useState("");
+  const [openSessionId, setOpenSessionId] = useState<number | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<TutorSessionSummaryDTO[]>({
+    queryKey: [`/api/assessments/${assessmentId}/tutor-sessions`, search],
+    queryFn: () => api.getAssessmentTutorSessions(assessmentId, search),
+  });
+
+  // Nothing to show until a student has talked to the tutor
+  if (!isLoading && sessions.length === 0 && !search) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="h-5 w-5 text-blue-600" />
+          <CardTitle className="text-lg">AI Tutor Conversations</CardTitle>
+        </div>
+        <p className="text-sm text-gray-500">
+          How students used the AI tutor while evaluating their component skills.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <MisconceptionsSection assessmentId={assessmentId} />
+
+        <div className="space-y-3">
+          <form
+            className="flex items-center space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(draftSearch.trim());
+            }}
+          >
+            <Input
+              value={draftSearch}
+              onChange={(e) => setDraftSearch(e.target.value)}
+              placeholder="Search by student or message text"
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+
+          {isLoading && <p className="text-sm text-gray-600">Loading conversations...</p>}
+          {!isLoading && sessions.length === 0 && <p className="text-sm text-gray-600">No conversations match this search.</p>}
+          {sessions.map((session) => (
+            <button
+              key={session.id}
+              type="button"
+              onClick={() => setOpenSessionId(session.id)}
+              className="w-full text-left border border-gray-200 rounded-lg p-3 bg-white hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">{session.studentName}</p>
+                <SessionStatusBadge session={session} />
+              </div>
+              <p className="text-sm text-gray-600">
+                {session.componentSkillName ?? "Component skill"} · {session.studentTurnCount} message{session.studentTurnCount === 1 ? "" : "s"} · {formatDate(session.updatedAt)}
+              </p>
+              {session.finalSummary && (
+                <p className="text-sm text-gray-500 mt-1 line-clamp-2">{session.finalSummary}</p>
+              )}
+            </button>
+          ))}
+        </div>
+      </CardContent>
+
+      <TranscriptDialog assessmentId={assessmentId} sessionId={openSessionId} onClose={() => setOpenSessionId(null)} />
+    </Card>
+  );
+}
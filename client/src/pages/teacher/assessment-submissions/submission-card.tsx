@@ -1,4 +1,4 @@
-import { format } from "date-fns";
+import { differenceInMinutes, format } from "date-fns";
 import {
   AlertCircle,
   Brain,
@@ -18,6 +18,7 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { StructuredAnswer } from "@/components/structured-answer";
 import { RUBRIC_LEVELS, formatRubricCriteria } from "@/lib/rubric";
 import type { ComponentSkillWithDetailsDTO } from "@shared/contracts/api";
 import type { AssessmentQuestion, GradingData, RubricLevel, Submission } from "./types";
@@ -113,6 +114,9 @@ export function SubmissionCard({
   onSaveManualGrading,
 }: SubmissionCardProps) {
   const averageScore = getAverageScore(submission);
+  const minutesTaken = submission.startedAt && submission.submittedAt
+    ? Math.max(1, differenceInMinutes(new Date(submission.submittedAt), new Date(submission.startedAt)))
+    : null;
 
   return (
     <Card className="overflow-hidden">
@@ -130,11 +134,25 @@ export function SubmissionCard({
                 <span className="text-xs text-gray-500">
                   Submitted: {submission.submittedAt ? format(new Date(submission.submittedAt), "MMM d, yyyy h:mm a") : "Not submitted"}
                 </span>
+                {minutesTaken !== null && (
+                  <span className="text-xs text-gray-500">
+                    Time taken: {minutesTaken} min
+                  </span>
+                )}
                 {submission.isLate && (
-                  <Badge variant="destructive" className="text-xs">
+                  <Badge
+                    variant="destructive"
+                    className="text-xs"
+                    title="Submitted after the due date or time limit"
+                  >
                     Late
                   </Badge>
                 )}
+                {(submission.attemptNumber ?? 1) > 1 && (
+                  <Badge variant="outline" className="text-xs" title="Resubmission after feedback">
+                    Attempt {submission.attemptNumber}
+                  </Badge>
+                )}
                 {submission.aiGeneratedFeedback && (
                   <Badge className="text-xs bg-gradient-to-r from-blue-100 to-purple-100 text-blue-800 border-blue-200 flex items-center space-x-1">
                     <Brain className="h-3 w-3" />
@@ -236,7 +254,7 @@ export function SubmissionCard({
                           </p>
                         )}
                         <div className="bg-blue-50 p-3 rounded-lg border border-blue-200">
-                          <p className="text-gray-800 whitespace-pre-wrap break-words">{responseText}</p>
+                          <StructuredAnswer type={question.type} answer={responseText} className="text-gray-800" />
                         </div>
                       </div>
                     </div>
@@ -24,7 +24,6 @@ export type SubmissionResponses =
   | undefined;
 
 export type Submission = AssessmentSubmissionSummaryDTO & {
-  isLate?: boolean;
   responses?: SubmissionResponses;
   grades?: AssessmentSubmissionGradeDTO[];
 };
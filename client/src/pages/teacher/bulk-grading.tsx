@@ -6,6 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   ArrowLeft, 
   Brain, 
@@ -18,6 +25,8 @@ import {
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { classLabel } from "@shared/classes";
+import type { SchoolClassDTO, SchoolClassDetailDTO } from "@shared/contracts/api";
 
 interface Assessment {
   id: number;
@@ -53,6 +62,7 @@ export default function BulkGrading() {
   const [gradingProgress, setGradingProgress] = useState(0);
   const [isGrading, setIsGrading] = useState(false);
   const [gradedSubmissions, setGradedSubmissions] = useState<number[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
 
   // Add atomic state management for grading progress
   const updateGradingProgress = useCallback((completedCount: number, totalCount: number) => {
@@ -76,11 +86,29 @@ export default function BulkGrading() {
   });
 
   // Fetch submissions
-  const { data: submissions = [], isLoading: submissionsLoading } = useQuery<Submission[]>({
+  const { data: allSubmissions = [], isLoading: submissionsLoading } = useQuery<Submission[]>({
     queryKey: [`/api/assessments/${id}/submissions`],
     enabled: isAuthenticated && !!id,
   });
 
+  // Optional class filter: grade one section at a time
+  const { data: classes = [] } = useQuery<SchoolClassDTO[]>({
+    queryKey: ["/api/classes"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: selectedClass } = useQuery<SchoolClassDetailDTO>({
+    queryKey: [`/api/classes/${selectedClassId}`],
+    enabled: isAuthenticated && selectedClassId !== null,
+  });
+
+  const classStudentIds = selectedClassId !== null && selectedClass
+    ? new Set(selectedClass.students.map((student) => student.id))
+    : null;
+  const submissions = classStudentIds
+    ? allSubmissions.filter((submission) => classStudentIds.has(submission.studentId))
+    : allSubmissions;
+
   // Robust queue system for handling bulk grading
   const gradeSubmissionWithRetry = async (submission: Submission, maxRetries = 3): Promise<{ success: boolean; error?: string }> => {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -360,6 +388,25 @@ export default function BulkGrading() {
               <h1 className="text-3xl font-bold text-gray-900 mb-2">AI Bulk Grading</h1>
               <p className="text-gray-600 text-lg mb-4">{assessment.title}</p>
             </div>
+            {classes.length > 0 && (
+              <Select
+                value={selectedClassId !== null ? String(selectedClassId) : "all"}
+                onValueChange={(value) => setSelectedClassId(value === "all" ? null : Number(value))}
+                disabled={isGrading}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="All classes" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All classes</SelectItem>
+                  {classes.map((schoolClass) => (
+                    <SelectItem key={schoolClass.id} value={String(schoolClass.id)}>
+                      {classLabel(schoolClass)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
         </div>
 
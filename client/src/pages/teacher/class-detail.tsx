@@ -0,0 +1,381 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { Archive, ArrowLeft, ClipboardList, Trash2, UserPlus, Users } from "lucide-react";
+import Navigation from "@/components/navigation";
+import { GuardianInviteDialog } from "@/components/guardian-invite-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import { UserRole } from "@shared/schema";
+import { classLabel } from "@shared/classes";
+import type {
+  AssessmentDTO,
+  ClassAssignmentRequestDTO,
+  ProjectDTO,
+  SchoolClassDetailDTO,
+  StudentSummaryDTO,
+} from "@shared/contracts/api";
+
+function errorDescription(error: unknown): string {
+  return error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.";
+}
+
+function studentName(student: { username: string; firstName?: string | null; lastName?: string | null }): string {
+  return [student.firstName, student.lastName].filter(Boolean).join(" ") || student.username;
+}
+
+/** One class: its students, and the projects and standalone assessments given to the whole class. */
+export default function TeacherClassDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute("/teacher/classes/:id");
+  const classId = Number(params?.id);
+  const [studentSearch, setStudentSearch] = useState("");
+  const [selectedStudentIds, setSelectedStudentIds] = useState<number[]>([]);
+  const [assignmentChoice, setAssignmentChoice] = useState("");
+  const [guardianStudent, setGuardianStudent] = useState<{ id: number; name: string } | null>(null);
+
+  const classQueryKey = [`/api/classes/${classId}`];
+  const { data: schoolClass, isLoading } = useQuery<SchoolClassDetailDTO>({
+    queryKey: classQueryKey,
+    queryFn: () => api.getClass(classId),
+    enabled: Number.isInteger(classId),
+  });
+
+  const { data: schoolStudents = [] } = useQuery<StudentSummaryDTO[]>({
+    queryKey: [`/api/schools/${user?.schoolId}/students`],
+    queryFn: () => api.getSchoolStudents(user!.schoolId!),
+    enabled: !!user?.schoolId,
+  });
+
+  const { data: projects = [] } = useQuery<ProjectDTO[]>({
+    queryKey: ["/api/projects"],
+    queryFn: api.getProjects,
+  });
+
+  const { data: standaloneAssessments = [] } = useQuery<AssessmentDTO[]>({
+    queryKey: ["/api/assessments/standalone"],
+    queryFn: api.getStandaloneAssessments,
+  });
+
+  const refreshClass = () => {
+    queryClient.invalidateQueries({ queryKey: classQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+  };
+
+  const addStudentsMutation = useMutation({
+    mutationFn: () => api.addClassStudents(classId, selectedStudentIds),
+    onSuccess: () => {
+      setSelectedStudentIds([]);
+      refreshClass();
+      toast({ title: "Students enrolled", description: "They also received the projects assigned to this class." });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't enroll students", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const removeStudentMutation = useMutation({
+    mutationFn: (studentId: number) => api.removeClassStudent(classId, studentId),
+    onSuccess: refreshClass,
+    onError: (error) => {
+      toast({ title: "Couldn't remove the student", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (assignment: ClassAssignmentRequestDTO) => api.assignToClass(classId, assignment),
+    onSuccess: () => {
+      setAssignmentChoice("");
+      refreshClass();
+      toast({ title: "Assigned to class" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't assign to the class", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: (assignmentId: number) => api.removeClassAssignment(classId, assignmentId),
+    onSuccess: refreshClass,
+    onError: (error) => {
+      toast({ title: "Couldn't remove the assignment", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: (archived: boolean) => api.updateClass(classId, { archived }),
+    onSuccess: refreshClass,
+    onError: (error) => {
+      toast({ title: "Couldn't update the class", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteClass(classId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      setLocation("/teacher/classes");
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't delete the class", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  const enrolledIds = useMemo(
+    () => new Set((schoolClass?.students ?? []).map((student) => student.id)),
+    [schoolClass],
+  );
+  const availableStudents = schoolStudents.filter(
+    (student) =>
+      !enrolledIds.has(student.id) && student.username.toLowerCase().includes(studentSearch.trim().toLowerCase()),
+  );
+
+  const assignedKeys = new Set((schoolClass?.assignments ?? []).map((assignment) => `${assignment.type}:${assignment.itemId}`));
+  const isAdmin = user?.role === UserRole.ADMIN;
+  const assignableProjects = projects.filter(
+    (project) => !assignedKeys.has(`project:${project.id}`) && (isAdmin || project.teacherId === user?.id),
+  );
+  const assignableAssessments = standaloneAssessments.filter(
+    (assessment) =>
+      !assessment.milestoneId &&
+      !assignedKeys.has(`assessment:${assessment.id}`) &&
+      (isAdmin || assessment.createdBy === user?.id),
+  );
+
+  if (isLoading || !schoolClass) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+        <Navigation />
+        <main className="pt-20 px-4 text-gray-600">{isLoading ? "Loading class..." : "Class not found."}</main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Link href="/teacher/classes">
+            <span className="inline-flex items-center text-sm text-blue-600 hover:underline cursor-pointer">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              All classes
+            </span>
+          </Link>
+
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold text-gray-900">{classLabel(schoolClass)}</h1>
+                {schoolClass.rosterManaged && <Badge variant="secondary">Roster</Badge>}
+                {schoolClass.archivedAt && <Badge variant="outline">Archived</Badge>}
+              </div>
+              <p className="text-gray-600">
+                {[schoolClass.term, schoolClass.classCode, schoolClass.teacherName].filter(Boolean).join(" · ")}
+              </p>
+              {schoolClass.rosterManaged && (
+                <p className="text-sm text-amber-700 mt-1">
+                  This class is synced from your school's roster; the next import may undo manual enrollment changes.
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => archiveMutation.mutate(!schoolClass.archivedAt)}
+                disabled={archiveMutation.isPending}
+              >
+                <Archive className="h-4 w-4 mr-2" />
+                {schoolClass.archivedAt ? "Unarchive" : "Archive"}
+              </Button>
+              {!schoolClass.rosterManaged && (
+                <Button
+                  variant="outline"
+                  className="text-red-600"
+                  onClick={() => {
+                    if (window.confirm("Delete this class? Students keep the work they were already assigned.")) {
+                      deleteMutation.mutate();
+                    }
+                  }}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ClipboardList className="h-5 w-5 text-blue-600" />
+                <span>Class assignments</span>
+              </CardTitle>
+              <CardDescription>
+                Projects are assigned to every enrolled student, including students who join later. Standalone
+                assessments show up on each student's dashboard.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col gap-2 md:flex-row">
+                <Select value={assignmentChoice} onValueChange={setAssignmentChoice}>
+                  <SelectTrigger className="md:w-96">
+                    <SelectValue placeholder="Choose a project or assessment..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableProjects.map((project) => (
+                      <SelectItem key={`project:${project.id}`} value={`project:${project.id}`}>
+                        Project · {project.title}
+                      </SelectItem>
+                    ))}
+                    {assignableAssessments.map((assessment) => (
+                      <SelectItem key={`assessment:${assessment.id}`} value={`assessment:${assessment.id}`}>
+                        Assessment · {assessment.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={!assignmentChoice || assignMutation.isPending || !!schoolClass.archivedAt}
+                  onClick={() => {
+                    const [type, id] = assignmentChoice.split(":");
+                    assignMutation.mutate(type === "project" ? { projectId: Number(id) } : { assessmentId: Number(id) });
+                  }}
+                >
+                  Assign to class
+                </Button>
+              </div>
+
+              {schoolClass.assignments.length === 0 ? (
+                <p className="text-sm text-gray-600">Nothing is assigned to this class yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {schoolClass.assignments.map((assignment) => (
+                    <li key={assignment.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <p className="font-medium text-gray-900">{assignment.title}</p>
+                        <p className="text-sm text-gray-600">
+                          {assignment.type === "project" ? "Project" : "Assessment"}
+                          {assignment.dueDate ? ` · Due ${new Date(assignment.dueDate).toLocaleDateString()}` : ""}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => unassignMutation.mutate(assignment.id)}
+                        disabled={unassignMutation.isPending}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5 text-blue-600" />
+                <span>Students ({schoolClass.students.length})</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {schoolClass.students.length === 0 ? (
+                <p className="text-sm text-gray-600">No students enrolled yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {schoolClass.students.map((student) => (
+                    <li key={student.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <p className="font-medium text-gray-900">{studentName(student)}</p>
+                        <p className="text-sm text-gray-600">
+                          {student.username}
+                          {student.grade ? ` · Grade ${student.grade}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setGuardianStudent({ id: student.id, name: studentName(student) })}
+                        >
+                          Guardians
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeStudentMutation.mutate(student.id)}
+                          disabled={removeStudentMutation.isPending}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+                <p className="flex items-center text-sm font-medium text-gray-900">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Enroll students
+                </p>
+                <Input
+                  value={studentSearch}
+                  onChange={(event) => setStudentSearch(event.target.value)}
+                  placeholder="Search students in your school..."
+                />
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {availableStudents.map((student) => (
+                    <label key={student.id} className="flex items-center gap-2 text-sm text-gray-800">
+                      <Checkbox
+                        checked={selectedStudentIds.includes(student.id)}
+                        onCheckedChange={(checked) =>
+                          setSelectedStudentIds((ids) =>
+                            checked ? [...ids, student.id] : ids.filter((id) => id !== student.id),
+                          )
+                        }
+                      />
+                      {student.username}
+                    </label>
+                  ))}
+                  {availableStudents.length === 0 && (
+                    <p className="text-sm text-gray-600">Every matching student is already enrolled.</p>
+                  )}
+                </div>
+                <Button
+                  onClick={() => addStudentsMutation.mutate()}
+                  disabled={selectedStudentIds.length === 0 || addStudentsMutation.isPending}
+                >
+                  Enroll {selectedStudentIds.length || ""} selected
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <GuardianInviteDialog student={guardianStudent} onOpenChange={(open) => !open && setGuardianStudent(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Archive, ChevronRight, Plus, School, Users } from "lucide-react";
+import Navigation from "@/components/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import { classLabel } from "@shared/classes";
+import type { SchoolClassDTO } from "@shared/contracts/api";
+
+const CLASSES_QUERY_KEY = ["/api/classes"];
+
+function errorDescription(error: unknown): string {
+  return error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.";
+}
+
+function ClassRow({ schoolClass }: { schoolClass: SchoolClassDTO }) {
+  return (
+    <Link href={`/teacher/classes/${schoolClass.id}`}>
+      <div className="flex items-center justify-between rounded-lg border border-gray-200 bg-white p-4 hover:border-blue-300 cursor-pointer">
+        <div>
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-gray-900">{classLabel(schoolClass)}</p>
+            {schoolClass.rosterManaged && <Badge variant="secondary">Roster</Badge>}
+            {schoolClass.archivedAt && <Badge variant="outline">Archived</Badge>}
+          </div>
+          <p className="text-sm text-gray-600">
+            {[schoolClass.term, schoolClass.classCode, schoolClass.teacherName].filter(Boolean).join(" · ") || "No term set"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {schoolClass.studentCount}
+          </span>
+          <ChevronRight className="h-4 w-4" />
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+/** The teacher's classes (every class in the school for admins), with a quick form to add one. */
+export default function TeacherClasses() {
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const [name, setName] = useState("");
+  const [period, setPeriod] = useState("");
+  const [term, setTerm] = useState("");
+
+  const { data: classes = [], isLoading } = useQuery<SchoolClassDTO[]>({
+    queryKey: [...CLASSES_QUERY_KEY, { includeArchived: showArchived }],
+    queryFn: () => api.getClasses(showArchived),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createClass({ name, period, term }),
+    onSuccess: () => {
+      setName("");
+      setPeriod("");
+      setTerm("");
+      queryClient.invalidateQueries({ queryKey: CLASSES_QUERY_KEY });
+      toast({ title: "Class created" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't create the class", description: errorDescription(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Classes</h1>
+            <p className="text-gray-600">
+              Group students into classes to assign projects and assessments to everyone at once and to filter your
+              dashboard and grading views.
+            </p>
+          </div>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Plus className="h-5 w-5 text-blue-600" />
+                <span>New class</span>
+              </CardTitle>
+              <CardDescription>Classes synced from a roster import appear here automatically.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="grid grid-cols-1 gap-4 md:grid-cols-4 md:items-end"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  createMutation.mutate();
+                }}
+              >
+                <div className="md:col-span-2">
+                  <Label htmlFor="class-name">Name</Label>
+                  <Input id="class-name" value={name} onChange={(event) => setName(event.target.value)} placeholder="Biology" />
+                </div>
+                <div>
+                  <Label htmlFor="class-period">Period</Label>
+                  <Input id="class-period" value={period} onChange={(event) => setPeriod(event.target.value)} placeholder="3" />
+                </div>
+                <div>
+                  <Label htmlFor="class-term">Term</Label>
+                  <Input id="class-term" value={term} onChange={(event) => setTerm(event.target.value)} placeholder="Fall 2026" />
+                </div>
+                <div className="md:col-span-4">
+                  <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+                    {createMutation.isPending ? "Creating..." : "Create class"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="apple-shadow border-0">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <School className="h-5 w-5 text-blue-600" />
+                <span>Your classes</span>
+              </CardTitle>
+              <Button variant="outline" size="sm" onClick={() => setShowArchived((value) => !value)}>
+                <Archive className="h-4 w-4 mr-2" />
+                {showArchived ? "Hide archived" : "Show archived"}
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isLoading && <p className="text-sm text-gray-600">Loading classes...</p>}
+              {!isLoading && classes.length === 0 && (
+                <p className="text-sm text-gray-600">No classes yet. Create one above to get started.</p>
+              )}
+              {classes.map((schoolClass) => (
+                <ClassRow key={schoolClass.id} schoolClass={schoolClass} />
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -30,7 +30,16 @@ import ProjectManagementModal from "@/components/modals/project-management-modal
 import StudentProgressView from "@/components/student-progress-view";
 import SchoolSkillsTracker from "@/components/school-skills-tracker";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { CredentialDTO, ProjectDTO } from "@shared/contracts/api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { classLabel } from "@shared/classes";
+import type { ProjectDTO, SchoolClassDTO } from "@shared/contracts/api";
+import { CredentialsReportCard } from "./dashboard/credentials-report-card";
 
 type TeacherDashboardProject = ProjectDTO & {
   studentCount?: number | null;
@@ -44,6 +53,7 @@ export default function TeacherDashboard() {
   const [showProjectManagement, setShowProjectManagement] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
   const [showStudentProgress, setShowStudentProgress] = useState(false);
+  const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
 
   const { isNetworkError, isAuthError, hasError } = useAuth();
 
@@ -58,10 +68,8 @@ export default function TeacherDashboard() {
     retry: false,
   });
 
-  // Fetch credentials for stats
-  const { data: credentials = [] } = useQuery<CredentialDTO[]>({
-    queryKey: ["/api/credentials/teacher-stats"],
-    queryFn: api.getTeacherCredentialStats,
+  const { data: classes = [] } = useQuery<SchoolClassDTO[]>({
+    queryKey: ["/api/classes"],
     enabled: isAuthenticated && user?.role === 'teacher',
     retry: false,
   });
@@ -80,7 +88,6 @@ export default function TeacherDashboard() {
   const activeProjects = projects.filter((project) => project.status === 'active').length;
   const totalStudents = projects.reduce((sum, project) => sum + (project.studentCount || 0), 0);
   const pendingGrades = 8; // This would come from submissions API
-  const credentialsAwarded = credentials.length || 45;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
@@ -99,7 +106,27 @@ export default function TeacherDashboard() {
                   Manage your projects, track student progress, and create engaging learning experiences.
                 </p>
               </div>
-              <NotificationSystem userId={user.id} userRole="teacher" />
+              <div className="flex items-center gap-3">
+                {classes.length > 0 && (
+                  <Select
+                    value={selectedClassId ? String(selectedClassId) : "all"}
+                    onValueChange={(value) => setSelectedClassId(value === "all" ? null : Number(value))}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="All classes" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All students</SelectItem>
+                      {classes.map((schoolClass) => (
+                        <SelectItem key={schoolClass.id} value={String(schoolClass.id)}>
+                          {classLabel(schoolClass)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <NotificationSystem userId={user.id} userRole="teacher" />
+              </div>
             </div>
           </div>
 
@@ -121,7 +148,7 @@ export default function TeacherDashboard() {
                     <ScrollArea className="h-full w-full">
                       <div className="space-y-6 pr-4">
                         {/* Search and student list without header */}
-                        <StudentProgressView />
+                        <StudentProgressView classId={selectedClassId} />
                       </div>
                     </ScrollArea>
                   </div>
@@ -142,13 +169,18 @@ export default function TeacherDashboard() {
                   <div className="h-[700px]">
                     <ScrollArea className="h-full w-full">
                       <div className="space-y-6 pr-4">
-                        <SchoolSkillsTracker />
+                        <SchoolSkillsTracker classId={selectedClassId} />
                       </div>
                     </ScrollArea>
                   </div>
                 </CardContent>
               </Card>
             </div>
+
+            {/* Credentials Report Card */}
+            <div>
+              <CredentialsReportCard />
+            </div>
           </div>
 
           
@@ -194,7 +226,7 @@ export default function TeacherDashboard() {
               </Button>
             </div>
             <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
-              <StudentProgressView />
+              <StudentProgressView classId={selectedClassId} />
             </div>
           </div>
         </div>
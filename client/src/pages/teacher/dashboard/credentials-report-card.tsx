@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Award, Check, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { ApiError, queryClient } from "@/lib/queryClient";
+import type {
+  CredentialReportBreakdownDTO,
+  CredentialReportEntryDTO,
+  CredentialReportPeriod,
+  TeacherCredentialReportDTO,
+} from "@shared/contracts/api";
+
+const PERIOD_OPTIONS: Array<{ value: CredentialReportPeriod; label: string }> = [
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "365d", label: "Last 12 months" },
+  { value: "all", label: "All time" },
+];
+
+const TYPE_LABELS: Record<CredentialReportEntryDTO["type"], string> = {
+  sticker: "Stickers",
+  badge: "Badges",
+  plaque: "Plaques",
+};
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+function describeEntry(entry: CredentialReportEntryDTO): string {
+  return [entry.studentName, entry.componentSkillName ?? entry.competencyName ?? entry.subjectArea, formatDate(entry.awardedAt)]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function BreakdownList({ title, items }: { title: string; items: CredentialReportBreakdownDTO[] }) {
+  const max = Math.max(1, ...items.map((item) => item.count));
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+      {items.length === 0 && <p className="text-sm text-gray-500">Nothing awarded in this period.</p>}
+      {items.map((item) => (
+        <div key={item.id} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="truncate text-gray-900">{item.name}</span>
+            <span className="text-gray-600">{item.count}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-gray-100">
+            <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Credentials earned by the teacher's students, with pending approvals and revocation. */
+export function CredentialsReportCard() {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<CredentialReportPeriod>("90d");
+  const [revoking, setRevoking] = useState<CredentialReportEntryDTO | null>(null);
+  const [revokeReason, setRevokeReason] = useState("");
+
+  const { data: report, isLoading } = useQuery<TeacherCredentialReportDTO>({
+    queryKey: ["/api/credentials/teacher-stats", period],
+    queryFn: () => api.getTeacherCredentialStats(period),
+    retry: false,
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof ApiError && error.payload?.message ? error.payload.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: api.approveCredential,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/credentials/teacher-stats"] });
+      toast({ title: "Credential approved", description: "The student can now see it." });
+    },
+    onError: onError("Couldn't approve credential"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) => api.revokeCredential(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/credentials/teacher-stats"] });
+      setRevoking(null);
+      setRevokeReason("");
+      toast({ title: "Credential revoked" });
+    },
+    onError: onError("Couldn't revoke credential"),
+  });
+
+  const maxBucket = Math.max(1, ...(report?.timeline ?? []).map((bucket) => bucket.count));
+
+  return (
+    <Card className="apple-shadow border-0">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-gray-900 flex items-center">
+          <Award className="h-5 w-5 mr-2" />
+          Credentials
+        </CardTitle>
+        <Select value={period} onValueChange={(value) => setPeriod(value as CredentialReportPeriod)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !report ? (
+          <p className="text-sm text-gray-500">Loading credentials...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Awarded", value: report.totals.awarded },
+                { label: "Students recognized", value: report.totals.studentsRecognized },
+                { label: "Pending approval", value: report.totals.pending },
+                { label: "Revoked", value: report.totals.revoked },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg bg-gray-50 p-3">
+                  <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                  <p className="text-xs text-gray-600">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(TYPE_LABELS) as Array<CredentialReportEntryDTO["type"]>).map((type) => (
+                <Badge key={type} variant="secondary">
+                  {TYPE_LABELS[type]}: {report.byType[type]}
+                </Badge>
+              ))}
+            </div>
+
+            {report.timeline.length > 0 && (
+              <div className="flex items-end gap-1 h-24" aria-label="Credentials awarded over time">
+                {report.timeline.map((bucket) => (
+                  <div
+                    key={bucket.bucket}
+                    className="flex-1 rounded-t bg-purple-400"
+                    style={{ height: `${(bucket.count / maxBucket) * 100}%` }}
+                    title={`${bucket.bucket}: ${bucket.count}`}
+                  />
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <BreakdownList title="By competency" items={report.byCompetency} />
+              <BreakdownList title="By component skill" items={report.byComponentSkill} />
+            </div>
+
+            {report.pending.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Waiting for approval</h4>
+                {report.pending.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{entry.title}</p>
+                      <p className="text-xs text-gray-600 truncate">{describeEntry(entry)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => approveMutation.mutate(entry.id)}
+                        disabled={approveMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setRevoking(entry)}>
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Recent activity</h4>
+              {report.recent.length === 0 && <p className="text-sm text-gray-500">No credentials in this period.</p>}
+              {report.recent.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {entry.title}
+                      {entry.status === "revoked" && (
+                        <Badge variant="destructive" className="ml-2">Revoked</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-600 truncate">
+                      {entry.status === "revoked" ? `${entry.studentName} · ${entry.revokedReason}` : describeEntry(entry)}
+                    </p>
+                  </div>
+                  {entry.status === "approved" && (
+                    <Button size="sm" variant="ghost" onClick={() => setRevoking(entry)}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={revoking !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRevoking(null);
+            setRevokeReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke “{revoking?.title}”</DialogTitle>
+            <DialogDescription>
+              The credential is hidden from {revoking?.studentName ?? "the student"} and kept on record with your reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revoke-reason">Reason</Label>
+            <Textarea
+              id="revoke-reason"
+              value={revokeReason}
+              onChange={(e) => setRevokeReason(e.target.value)}
+              placeholder="Why is this credential being revoked?"
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={revokeReason.trim().length < 3 || revokeMutation.isPending}
+              onClick={() => revoking && revokeMutation.mutate({ id: revoking.id, reason: revokeReason.trim() })}
+            >
+              {revokeMutation.isPending ? "Revoking..." : "Revoke"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import ProjectCard from "@/components/project-card";
 import ProjectCreationModal from "@/components/modals/project-creation-modal-new";
 import ProjectManagementModal from "@/components/modals/project-management-modal";
 import ProjectIdeasModal from "@/components/modals/project-ideas-modal";
+import DistrictTemplatesModal from "@/components/modals/district-templates-modal";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -22,7 +23,8 @@ import {
   Clock,
   CheckCircle,
   Archive,
-  Lightbulb
+  Lightbulb,
+  FolderOpen
 } from "lucide-react";
 import {
   Select,
@@ -41,6 +43,7 @@ export default function TeacherProjects() {
   const [, setLocation] = useLocation();
   const [showCreateProject, setShowCreateProject] = useState(false);
   const [showProjectIdeas, setShowProjectIdeas] = useState(false);
+  const [showDistrictTemplates, setShowDistrictTemplates] = useState(false);
   const [selectedProjectIdea, setSelectedProjectIdea] = useState<any>(null);
   const [showProjectManagement, setShowProjectManagement] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
@@ -166,6 +169,14 @@ export default function TeacherProjects() {
     refetch();
   };
 
+  const handleTemplateProjectCreated = (project: ProjectDTO) => {
+    setShowDistrictTemplates(false);
+    refetch();
+    setSelectedProjectId(project.id);
+    setSelectedProjectReadOnly(false);
+    setShowProjectManagement(true);
+  };
+
   const handleProjectIdeaSelected = (idea: any) => {
     setSelectedProjectIdea(idea);
     setShowProjectIdeas(false);
@@ -199,6 +210,13 @@ export default function TeacherProjects() {
                 <Lightbulb className="h-4 w-4 mr-2" />
                 Get Ideas
               </Button>
+              <Button
+                onClick={() => setShowDistrictTemplates(true)}
+                variant="outline"
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                District Templates
+              </Button>
               <Button 
                 onClick={() => setShowCreateProject(true)}
                 className="bg-blue-600 text-white hover:bg-blue-700 btn-primary"
@@ -391,6 +409,12 @@ export default function TeacherProjects() {
         onSelectIdea={handleProjectIdeaSelected}
       />
 
+      <DistrictTemplatesModal
+        isOpen={showDistrictTemplates}
+        onClose={() => setShowDistrictTemplates(false)}
+        onProjectCreated={handleTemplateProjectCreated}
+      />
+
       <ProjectCreationModal 
         isOpen={showCreateProject} 
         onClose={() => {
@@ -27,13 +27,20 @@ import { format } from "date-fns";
 import Navigation from "@/components/navigation";
 import { getCompetencyInfo } from "@/lib/competencyUtils";
 import { formatRubricCriteria } from "@/lib/rubric";
-import type { ComponentSkillWithDetailsDTO } from "@shared/contracts/api";
+import { StructuredAnswer } from "@/components/structured-answer";
+import { api } from "@/lib/api";
+import type { ComponentSkillWithDetailsDTO, SubmissionAttemptHistoryDTO } from "@shared/contracts/api";
+import type { MatchingPair, QuestionType } from "@shared/question-types";
+import { RevisionHistoryCard } from "./submission-review/revision-history-card";
 
 interface Question {
   id: string;
   text: string;
-  type: 'open-ended' | 'multiple-choice' | 'short-answer';
+  type: QuestionType;
   options?: string[];
+  pairs?: MatchingPair[];
+  correctAnswer?: string;
+  tolerance?: number;
   rubricCriteria?: string;
   sampleAnswer?: string;
 }
@@ -82,6 +89,13 @@ export default function SubmissionReview() {
     enabled: !!submissionId,
   });
 
+  // Earlier and later attempts by the same student, for the revision history
+  const { data: attemptHistory } = useQuery<SubmissionAttemptHistoryDTO>({
+    queryKey: ["/api/submissions", Number(submissionId), "attempts"],
+    queryFn: () => api.getSubmissionAttempts(Number(submissionId)),
+    enabled: !!submissionId,
+  });
+
   // Fetch component skills for context and grading
   const { data: allComponentSkills = [] } = useQuery<ComponentSkillWithDetailsDTO[]>({
     queryKey: ["/api/competencies/component-skills/details"],
@@ -316,6 +330,22 @@ export default function SubmissionReview() {
                           Options: {question.options.join(", ")}
                         </div>
                       )}
+                      {question.type === 'ranking' && question.options && (
+                        <div className="text-sm text-gray-600 mb-2">
+                          Correct order: {question.options.join(" → ")}
+                        </div>
+                      )}
+                      {question.type === 'matching' && question.pairs && (
+                        <div className="text-sm text-gray-600 mb-2">
+                          Correct pairs: {question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join("; ")}
+                        </div>
+                      )}
+                      {question.type === 'numeric' && question.correctAnswer && (
+                        <div className="text-sm text-gray-600 mb-2">
+                          Expected value: {question.correctAnswer}
+                          {question.tolerance ? ` (±${question.tolerance})` : ""}
+                        </div>
+                      )}
                       {rubricCriteria && (
                         <div className="text-sm text-blue-600 mb-2">
                           Rubric: {rubricCriteria}
@@ -327,8 +357,9 @@ export default function SubmissionReview() {
                       <Label className="text-sm font-medium text-gray-700 mb-2 block">
                         Student Answer:
                       </Label>
-                      <p className="text-gray-900 whitespace-pre-wrap">
-                        {(() => {
+                      <StructuredAnswer
+                        type={question.type}
+                        answer={(() => {
                           // Handle both array format (new) and object format (legacy)
                           if (Array.isArray(submission.responses)) {
                             const response = submission.responses.find(r => r.questionId === question.id);
@@ -338,7 +369,7 @@ export default function SubmissionReview() {
                           }
                           return "No answer provided";
                         })()}
-                      </p>
+                      />
                     </div>
 
                     {question.sampleAnswer && (
@@ -354,6 +385,14 @@ export default function SubmissionReview() {
                 })}
               </CardContent>
             </Card>
+
+            {attemptHistory && (
+              <RevisionHistoryCard
+                history={attemptHistory}
+                questions={assessment.questions}
+                currentSubmissionId={submission.id}
+              />
+            )}
           </div>
 
           {/* Sidebar */}
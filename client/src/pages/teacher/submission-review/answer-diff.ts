@@ -0,0 +1,51 @@
+export interface DiffSegment {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+// Answers are short prose, so a word-level LCS is cheap and reads better than a line diff
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const oldTokens = before.split(/(\s+)/).filter(Boolean);
+  const newTokens = after.split(/(\s+)/).filter(Boolean);
+  const lengths = Array.from({ length: oldTokens.length + 1 }, () => new Array<number>(newTokens.length + 1).fill(0));
+
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldTokens[i] === newTokens[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment["kind"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < oldTokens.length && j < newTokens.length) {
+    if (oldTokens[i] === newTokens[j]) {
+      push("same", oldTokens[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", oldTokens[i++]);
+    } else {
+      push("added", newTokens[j++]);
+    }
+  }
+  while (i < oldTokens.length) {
+    push("removed", oldTokens[i++]);
+  }
+  while (j < newTokens.length) {
+    push("added", newTokens[j++]);
+  }
+
+  return segments;
+}
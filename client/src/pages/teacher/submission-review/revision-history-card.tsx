@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getRubricLevelColor } from "@/lib/rubric";
+import { formatAnswerForDisplay } from "@shared/question-types";
+import type { SubmissionAttemptHistoryDTO, SubmissionAttemptHistoryItemDTO } from "@shared/contracts/api";
+import { diffWords } from "./answer-diff";
+
+interface RevisionQuestion {
+  id: string;
+  text: string;
+  type?: string;
+}
+
+interface RevisionHistoryCardProps {
+  history: SubmissionAttemptHistoryDTO;
+  questions: RevisionQuestion[];
+  currentSubmissionId: number;
+}
+
+function getAttemptAnswer(attempt: SubmissionAttemptHistoryItemDTO | undefined, question: RevisionQuestion): string {
+  const response = attempt?.responses.find((item) => String(item.questionId) === question.id);
+  return response ? formatAnswerForDisplay(question.type, response.answer) : "";
+}
+
+function buildSkillTrajectories(attempts: SubmissionAttemptHistoryItemDTO[]) {
+  const trajectories = new Map<number, { name: string; levels: (string | null)[] }>();
+
+  attempts.forEach((attempt, attemptIndex) => {
+    attempt.grades.forEach((grade) => {
+      if (grade.componentSkillId == null) {
+        return;
+      }
+      const trajectory = trajectories.get(grade.componentSkillId) ?? {
+        name: grade.componentSkillName || `Skill ${grade.componentSkillId}`,
+        levels: new Array<string | null>(attempts.length).fill(null),
+      };
+      trajectory.levels[attemptIndex] = grade.rubricLevel;
+      trajectories.set(grade.componentSkillId, trajectory);
+    });
+  });
+
+  return Array.from(trajectories.values());
+}
+
+/**
+ * Compares a student's attempts on the same assessment: what changed in each
+ * answer since the previous attempt, and how rubric levels moved per skill.
+ */
+export function RevisionHistoryCard({ history, questions, currentSubmissionId }: RevisionHistoryCardProps) {
+  const { attempts } = history;
+  const [selectedId, setSelectedId] = useState(currentSubmissionId);
+
+  useEffect(() => {
+    setSelectedId(currentSubmissionId);
+  }, [currentSubmissionId]);
+
+  if (attempts.length < 2) {
+    return null;
+  }
+
+  const selectedIndex = Math.max(0, attempts.findIndex((attempt) => attempt.id === selectedId));
+  const selected = attempts[selectedIndex];
+  const previous = selectedIndex > 0 ? attempts[selectedIndex - 1] : undefined;
+  const trajectories = buildSkillTrajectories(attempts);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-purple-600" />
+            <span>Revision History</span>
+          </CardTitle>
+          <Select value={String(selected.id)} onValueChange={(value) => setSelectedId(Number(value))}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {attempts.map((attempt) => (
+                <SelectItem key={attempt.id} value={String(attempt.id)}>
+                  Attempt {attempt.attemptNumber}
+                  {attempt.submittedAt ? ` · ${format(new Date(attempt.submittedAt), "MMM d, h:mm a")}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {trajectories.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3">Rubric Level Trajectory</h4>
+            <div className="space-y-2">
+              {trajectories.map((trajectory) => (
+                <div key={trajectory.name} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-40 text-gray-700 truncate" title={trajectory.name}>{trajectory.name}</span>
+                  {trajectory.levels.map((level, index) => (
+                    <span key={index} className="flex items-center gap-2">
+                      {index > 0 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+                      <Badge className={`capitalize ${level ? getRubricLevelColor(level) : "bg-gray-100 text-gray-500"}`}>
+                        {level || "Not graded"}
+                      </Badge>
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-medium text-gray-900 mb-1">
+            {previous
+              ? `Changes from attempt ${previous.attemptNumber} to attempt ${selected.attemptNumber}`
+              : `Attempt ${selected.attemptNumber} (first submission)`}
+          </h4>
+          {previous && (
+            <p className="text-xs text-gray-500 mb-3">
+              <span className="bg-green-100 text-green-800 px-1 rounded">Added</span>{" "}
+              <span className="bg-red-100 text-red-800 line-through px-1 rounded">Removed</span>
+            </p>
+          )}
+          <div className="space-y-4">
+            {questions.map((question, index) => {
+              const after = getAttemptAnswer(selected, question);
+              const before = previous ? getAttemptAnswer(previous, question) : after;
+              const unchanged = before === after;
+              return (
+                <div key={question.id} className="border-l-4 border-purple-200 pl-4">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-medium text-gray-900">Question {index + 1}</span>
+                    {previous && unchanged && <Badge variant="outline" className="text-xs">Unchanged</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap break-words bg-gray-50 p-3 rounded">
+                    {!after && !before ? (
+                      <span className="text-gray-500">No answer provided</span>
+                    ) : unchanged ? (
+                      after
+                    ) : (
+                      diffWords(before, after).map((segment, segmentIndex) => (
+                        <span
+                          key={segmentIndex}
+                          className={
+                            segment.kind === "added"
+                              ? "bg-green-100 text-green-800"
+                              : segment.kind === "removed"
+                                ? "bg-red-100 text-red-800 line-through"
+                                : undefined
+                          }
+                        >
+                          {segment.text}
+                        </span>
+                      ))
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import 'dotenv/config';
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+import { getUsagePeriodStart } from "../shared/plans";
+
+// Usage: npm run usage:carry-over-generations (before the db:push that drops the users columns)
+// Copies this month's users.project_generation_count into usage_ledger as ai_generation usage,
+// so the free-tier monthly limit isn't reset when the old counters are dropped.
+async function carryOverProjectGenerations() {
+    const columns = await db.execute(sql`
+        SELECT column_name FROM information_schema.columns
+        WHERE table_name = 'users' AND column_name IN ('project_generation_count', 'last_project_generation_date')
+    `);
+    if (columns.rows.length < 2) {
+        console.log("users.project_generation_count is already gone; nothing to carry over.");
+        process.exit(0);
+    }
+
+    // db:push would drop the old columns in the same run that creates the ledger, so create it here first;
+    // the next db:push adds its indexes
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "usage_ledger" (
+            "id" serial PRIMARY KEY,
+            "school_id" integer REFERENCES "schools"("id") ON DELETE CASCADE,
+            "user_id" integer REFERENCES "users"("id") ON DELETE SET NULL,
+            "metric" varchar NOT NULL,
+            "quantity" bigint NOT NULL,
+            "object_path" text,
+            "created_at" timestamp DEFAULT now() NOT NULL
+        )
+    `);
+
+    const periodStart = getUsagePeriodStart();
+    // Users who already have generations on the ledger this month were metered by the new code; skip them
+    const inserted = await db.execute(sql`
+        INSERT INTO usage_ledger (school_id, user_id, metric, quantity, created_at)
+        SELECT u.school_id, u.id, 'ai_generation', u.project_generation_count, u.last_project_generation_date
+        FROM users u
+        WHERE u.project_generation_count > 0
+          AND u.last_project_generation_date >= ${periodStart}
+          AND NOT EXISTS (
+              SELECT 1 FROM usage_ledger l
+              WHERE l.user_id = u.id AND l.metric = 'ai_generation' AND l.created_at >= ${periodStart}
+          )
+        RETURNING id
+    `);
+
+    console.log("Carried over project generations for", inserted.rows.length, "users.");
+    console.log("Done.");
+    process.exit(0);
+}
+
+carryOverProjectGenerations().catch((err) => {
+    console.error("Error carrying over project generations:", err);
+    process.exit(1);
+});
@@ -0,0 +1,69 @@
+import 'dotenv/config';
+import { db } from "../server/db";
+import { districts, schools, users, UserRole } from "../shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import bcrypt from "bcryptjs";
+
+// Usage: npm run district:create -- --name "Lakeside USD" --state FL --schools 1,2,3 --admin district.admin --password <password>
+function readArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function createDistrict() {
+    const name = readArg("name");
+    const schoolIds = (readArg("schools") ?? "")
+        .split(",")
+        .map((id) => parseInt(id.trim()))
+        .filter((id) => !isNaN(id));
+    const adminUsername = readArg("admin");
+    const adminPassword = readArg("password");
+
+    if (!name || schoolIds.length === 0) {
+        throw new Error('Pass --name "District name" and --schools with comma-separated school ids');
+    }
+
+    let district = await db.query.districts.findFirst({ where: eq(districts.name, name) });
+    if (!district) {
+        [district] = await db.insert(districts).values({ name, state: readArg("state") }).returning();
+        console.log("Created district:", district.id, district.name);
+    } else {
+        console.log("Found existing district:", district.id, district.name);
+    }
+
+    const attached = await db
+        .update(schools)
+        .set({ districtId: district.id })
+        .where(inArray(schools.id, schoolIds))
+        .returning({ id: schools.id, name: schools.name });
+    console.log("Schools in district:", attached.map((school) => `${school.id} ${school.name}`).join(", "));
+
+    if (adminUsername && adminPassword) {
+        const existingUser = await db.query.users.findFirst({ where: eq(users.username, adminUsername) });
+        if (existingUser) {
+            await db
+                .update(users)
+                .set({ role: UserRole.DISTRICT_ADMIN, districtId: district.id, schoolId: null })
+                .where(eq(users.id, existingUser.id));
+            console.log("Made existing user a district admin:", existingUser.username);
+        } else {
+            const hashedPassword = await bcrypt.hash(adminPassword, await bcrypt.genSalt(10));
+            const [admin] = await db.insert(users).values({
+                username: adminUsername,
+                password: hashedPassword,
+                role: UserRole.DISTRICT_ADMIN,
+                districtId: district.id,
+                tier: "enterprise",
+            }).returning();
+            console.log("Created district admin:", admin.username, "with ID:", admin.id);
+        }
+    }
+
+    console.log("Done.");
+    process.exit(0);
+}
+
+createDistrict().catch((err) => {
+    console.error("Error creating district:", err);
+    process.exit(1);
+});
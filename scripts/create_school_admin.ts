@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import { db } from "../server/db";
+import { schools, users, UserRole } from "../shared/schema";
+import { eq } from "drizzle-orm";
+import bcrypt from "bcryptjs";
+
+// Usage: npm run admin:create -- --school 1 --admin school.admin --password <password> [--email admin@example.org]
+function readArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function createSchoolAdmin() {
+    const schoolId = parseInt(readArg("school") ?? "");
+    const adminUsername = readArg("admin");
+    const adminPassword = readArg("password");
+
+    if (isNaN(schoolId) || !adminUsername) {
+        throw new Error("Pass --school with the school id and --admin with the username");
+    }
+
+    const school = await db.query.schools.findFirst({ where: eq(schools.id, schoolId) });
+    if (!school) {
+        throw new Error(`School ${schoolId} not found`);
+    }
+
+    const existingUser = await db.query.users.findFirst({ where: eq(users.username, adminUsername) });
+    if (existingUser) {
+        await db
+            .update(users)
+            .set({ role: UserRole.ADMIN, schoolId: school.id, districtId: null })
+            .where(eq(users.id, existingUser.id));
+        console.log("Made existing user an admin of", school.name, ":", existingUser.username);
+    } else {
+        if (!adminPassword) {
+            throw new Error("Pass --password to create a new admin account");
+        }
+        const hashedPassword = await bcrypt.hash(adminPassword, await bcrypt.genSalt(10));
+        const [admin] = await db.insert(users).values({
+            username: adminUsername,
+            password: hashedPassword,
+            email: readArg("email"),
+            role: UserRole.ADMIN,
+            schoolId: school.id,
+            tier: "enterprise",
+        }).returning();
+        console.log("Created admin of", school.name, ":", admin.username, "with ID:", admin.id);
+    }
+
+    console.log("Done.");
+    process.exit(0);
+}
+
+createSchoolAdmin().catch((err) => {
+    console.error("Error creating school admin:", err);
+    process.exit(1);
+});
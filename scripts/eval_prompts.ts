@@ -0,0 +1,49 @@
+import 'dotenv/config';
+import { readFile } from "node:fs/promises";
+import { llmProvider } from "../server/integrations/llm";
+import { promptService } from "../server/domains/prompts";
+import {
+    comparePromptVersions,
+    formatPromptComparison,
+    parseGradingEvalCases,
+} from "../server/domains/ai";
+
+// Usage: npm run prompts:eval -- --a 1 --b 3 [--cases scripts/fixtures/grading-eval-cases.json] [--json]
+// Replays teacher-graded submissions through two versions of the component skill grading prompt
+// and reports how often each agrees with the teacher's rubric level.
+const DEFAULT_CASES_PATH = "scripts/fixtures/grading-eval-cases.json";
+
+function readArg(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readVersion(name: string): number {
+    const version = Number(readArg(name));
+    if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`Pass --${name} with a version number of the component_skill_grade prompt`);
+    }
+    return version;
+}
+
+async function evalPrompts() {
+    const versionA = readVersion("a");
+    const versionB = readVersion("b");
+    const cases = parseGradingEvalCases(JSON.parse(await readFile(readArg("cases") ?? DEFAULT_CASES_PATH, "utf8")));
+
+    const [promptA, promptB] = await Promise.all([
+        promptService.getVersion("component_skill_grade", versionA),
+        promptService.getVersion("component_skill_grade", versionB),
+    ]);
+
+    console.log(`Grading ${cases.length} cases twice with the ${llmProvider.name} provider...`);
+    const comparison = await comparePromptVersions(cases, promptA, promptB, llmProvider);
+
+    console.log(process.argv.includes("--json") ? JSON.stringify(comparison, null, 2) : formatPromptComparison(comparison));
+    process.exit(0);
+}
+
+evalPrompts().catch((err) => {
+    console.error("Error evaluating prompts:", err);
+    process.exit(1);
+});
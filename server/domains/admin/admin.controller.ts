@@ -1,6 +1,8 @@
 import { Router, type Response } from "express";
 import { z } from "zod";
 import { UserRole, gradeLevelEnum, type User } from "../../../shared/schema";
+import { schoolSsoProviderSchema } from "../../../shared/school-sso";
+import { OidcError } from "../../integrations/oidc";
 import {
   createSuccessResponse,
   sendErrorResponse,
@@ -12,6 +14,7 @@ import type {
   RequireAuthMiddleware,
   RequireRoleMiddlewareFactory,
 } from "../auth";
+import { auditContext, type IAuditService } from "../audit";
 
 const adminCreateUserSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -38,11 +41,20 @@ type AdminAuthStorage = Pick<
   | "getAnalyticsDashboard"
 >;
 
-type AdminAuthService = Pick<AuthServicePort, "registerUser" | "resetUserPassword">;
+type AdminAuthService = Pick<
+  AuthServicePort,
+  | "registerUser"
+  | "resetUserPassword"
+  | "forceLogoutUser"
+  | "getSchoolSsoSettings"
+  | "saveSchoolSsoSettings"
+  | "deleteSchoolSsoSettings"
+>;
 
 interface AdminRouterDependencies {
   authStorage: AdminAuthStorage;
   authService: AdminAuthService;
+  auditLog: Pick<IAuditService, "record">;
   requireAuth: RequireAuthMiddleware;
   requireRole: RequireRoleMiddlewareFactory;
 }
@@ -59,6 +71,19 @@ function sanitizeUser(user: User): UserWithoutPassword {
   return userWithoutPassword;
 }
 
+// The account fields an audit entry compares; never the password
+function auditUserSnapshot(user: User) {
+  return {
+    username: user.username,
+    role: user.role,
+    grade: user.grade,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    schoolId: user.schoolId,
+  };
+}
+
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "Unknown error";
 }
@@ -83,11 +108,19 @@ async function resolveAdminContext(
 }
 
 export function createAdminRouter(dependencies: AdminRouterDependencies): Router {
-  const { authStorage, authService, requireAuth, requireRole } = dependencies;
+  const { authStorage, authService, auditLog, requireAuth, requireRole } = dependencies;
   const router = Router();
 
   router.use(requireAuth, requireRole(UserRole.ADMIN));
 
+  async function recordPasswordReset(req: AuthenticatedRequest, userId: number): Promise<void> {
+    const target = await authStorage.getUser(userId);
+    await auditLog.record(auditContext(req), {
+      action: "user.password_reset",
+      target: { type: "user", id: userId, label: target?.username },
+    });
+  }
+
   router.get("/users", async (req: AuthenticatedRequest, res) => {
     try {
       const context = await resolveAdminContext(req, res, authStorage);
@@ -122,7 +155,7 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
       }
 
       const parsed = adminCreateUserSchema.parse(req.body);
-      if (parsed.role === UserRole.ADMIN) {
+      if (parsed.role === UserRole.ADMIN || parsed.role === UserRole.DISTRICT_ADMIN) {
         sendErrorResponse(res, { message: "Admins cannot create other admins", statusCode: 403 });
         return;
       }
@@ -144,6 +177,11 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
         tier: "enterprise",
       });
 
+      await auditLog.record(auditContext(req), {
+        action: "user.create",
+        target: { type: "user", id: user.id, label: user.username },
+        after: auditUserSnapshot(user),
+      });
       createSuccessResponse(res, sanitizeUser(user), undefined, 201);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -180,7 +218,7 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
       };
 
       for (const userData of parsedUsers) {
-        if (userData.role === UserRole.ADMIN) {
+        if (userData.role === UserRole.ADMIN || userData.role === UserRole.DISTRICT_ADMIN) {
           results.failed.push({
             username: userData.username,
             reason: "Cannot create admin in bulk",
@@ -209,6 +247,11 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
             tier: "enterprise",
           });
 
+          await auditLog.record(auditContext(req), {
+            action: "user.create",
+            target: { type: "user", id: user.id, label: user.username },
+            after: auditUserSnapshot(user),
+          });
           results.created.push(sanitizeUser(user));
         } catch (error) {
           const errorMessage = getErrorMessage(error);
@@ -275,6 +318,11 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
       await authStorage.deleteAuthTokensByUserId(userIdToDelete);
       await authStorage.deleteUser(userIdToDelete);
 
+      await auditLog.record(auditContext(req), {
+        action: "user.delete",
+        target: { type: "user", id: userToDelete.id, label: userToDelete.username },
+        before: auditUserSnapshot(userToDelete),
+      });
       createSuccessResponse(res, { message: "User deleted successfully" });
     } catch (error) {
       console.error("Delete user error:", error);
@@ -305,6 +353,7 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
       }
 
       await authService.resetUserPassword(userIdToReset, newPassword, req.user);
+      await recordPasswordReset(req, userIdToReset);
       createSuccessResponse(res, { message: "Password reset successfully" });
     } catch (error) {
       console.error("Admin password reset error:", error);
@@ -327,6 +376,107 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
     }
   });
 
+  // Ends every session of a user in the admin's school; their access token lapses within 15 minutes
+  router.post("/users/:id/force-logout", async (req: AuthenticatedRequest, res) => {
+    try {
+      if (!req.user) {
+        sendErrorResponse(res, { message: "Unauthorized", statusCode: 401 });
+        return;
+      }
+
+      const userId = Number.parseInt(req.params.id, 10);
+      if (Number.isNaN(userId)) {
+        sendErrorResponse(res, { message: "Invalid user ID", statusCode: 400 });
+        return;
+      }
+
+      await authService.forceLogoutUser(userId, req.user);
+      const target = await authStorage.getUser(userId);
+      await auditLog.record(auditContext(req), {
+        action: "user.force_logout",
+        target: { type: "user", id: userId, label: target?.username },
+      });
+      createSuccessResponse(res, { message: "User signed out of all sessions" });
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+
+      if (errorMessage.includes("Admin access required") || errorMessage.includes("Can only sign out")) {
+        sendErrorResponse(res, { message: errorMessage, statusCode: 403 });
+        return;
+      }
+      if (errorMessage === "User not found") {
+        sendErrorResponse(res, { message: errorMessage, statusCode: 404 });
+        return;
+      }
+
+      console.error("Force logout error:", error);
+      sendErrorResponse(res, { message: "Failed to sign out user", statusCode: 500, error });
+    }
+  });
+
+  router.get("/sso", async (req: AuthenticatedRequest, res) => {
+    try {
+      const context = await resolveAdminContext(req, res, authStorage);
+      if (!context) {
+        return;
+      }
+
+      createSuccessResponse(res, await authService.getSchoolSsoSettings(context.schoolId));
+    } catch (error) {
+      console.error("Fetch SSO settings error:", error);
+      sendErrorResponse(res, { message: "Failed to fetch single sign-on settings", statusCode: 500, error });
+    }
+  });
+
+  router.put("/sso", async (req: AuthenticatedRequest, res) => {
+    try {
+      const context = await resolveAdminContext(req, res, authStorage);
+      if (!context) {
+        return;
+      }
+
+      const parsed = schoolSsoProviderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        sendErrorResponse(res, { message: "Invalid single sign-on settings", statusCode: 400, details: parsed.error.errors });
+        return;
+      }
+
+      createSuccessResponse(res, await authService.saveSchoolSsoSettings(context.schoolId, parsed.data));
+    } catch (error) {
+      if (error instanceof OidcError) {
+        sendErrorResponse(res, { message: `Couldn't verify the issuer: ${error.message}`, statusCode: 400 });
+        return;
+      }
+      const errorMessage = getErrorMessage(error);
+      if (errorMessage.includes("already used by another school")) {
+        sendErrorResponse(res, { message: errorMessage, statusCode: 409 });
+        return;
+      }
+
+      console.error("Save SSO settings error:", error);
+      sendErrorResponse(res, { message: "Failed to save single sign-on settings", statusCode: 500, error });
+    }
+  });
+
+  router.delete("/sso", async (req: AuthenticatedRequest, res) => {
+    try {
+      const context = await resolveAdminContext(req, res, authStorage);
+      if (!context) {
+        return;
+      }
+
+      const deleted = await authService.deleteSchoolSsoSettings(context.schoolId);
+      if (!deleted) {
+        sendErrorResponse(res, { message: "Single sign-on is not configured", statusCode: 404 });
+        return;
+      }
+      createSuccessResponse(res, { message: "Single sign-on removed" });
+    } catch (error) {
+      console.error("Delete SSO settings error:", error);
+      sendErrorResponse(res, { message: "Failed to remove single sign-on settings", statusCode: 500, error });
+    }
+  });
+
   router.get("/analytics/dashboard", async (req: AuthenticatedRequest, res) => {
     try {
       const context = await resolveAdminContext(req, res, authStorage);
@@ -334,7 +484,7 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
         return;
       }
 
-      const analyticsData = await authStorage.getAnalyticsDashboard(context.schoolId);
+      const analyticsData = await authStorage.getAnalyticsDashboard([context.schoolId]);
       createSuccessResponse(res, analyticsData);
     } catch (error) {
       console.error("Analytics error:", error);
@@ -390,6 +540,7 @@ export function createAdminRouter(dependencies: AdminRouterDependencies): Router
       }
 
       await authService.resetUserPassword(userId, newPassword, req.user);
+      await recordPasswordReset(req, userId);
       createSuccessResponse(res, { message: "Password reset successfully" });
     } catch (error) {
       console.error("Admin password reset error:", error);
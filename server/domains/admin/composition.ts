@@ -8,11 +8,21 @@ import {
   type RequireAuthMiddleware,
   type RequireRoleMiddlewareFactory,
 } from "../auth";
+import { auditService, type IAuditService } from "../audit";
 import { createAdminRouter } from "./admin.controller";
 
 interface AdminDomainDependencies {
   authStorage?: IAuthStorage;
-  authService?: Pick<AuthServicePort, "registerUser" | "resetUserPassword">;
+  authService?: Pick<
+    AuthServicePort,
+    | "registerUser"
+    | "resetUserPassword"
+    | "forceLogoutUser"
+    | "getSchoolSsoSettings"
+    | "saveSchoolSsoSettings"
+    | "deleteSchoolSsoSettings"
+  >;
+  auditLog?: Pick<IAuditService, "record">;
   requireAuth?: RequireAuthMiddleware;
   requireRole?: RequireRoleMiddlewareFactory;
 }
@@ -20,12 +30,14 @@ interface AdminDomainDependencies {
 export function createAdminDomain(dependencies: AdminDomainDependencies = {}) {
   const storage = dependencies.authStorage ?? authStorage;
   const service = dependencies.authService ?? authService;
+  const auditLog = dependencies.auditLog ?? auditService;
   const authMiddleware = dependencies.requireAuth ?? requireAuth;
   const roleMiddlewareFactory = dependencies.requireRole ?? requireRole;
 
   const adminRouter = createAdminRouter({
     authStorage: storage,
     authService: service,
+    auditLog,
     requireAuth: authMiddleware,
     requireRole: roleMiddlewareFactory,
   });
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import type { AuthenticatedRequest } from "../auth";
+
+/** Who a model call is charged to; calls outside a signed-in request have no subject. */
+export interface AiUsageSubject {
+  userId: number;
+  schoolId: number | null;
+}
+
+const requestContext = new AsyncLocalStorage<AuthenticatedRequest>();
+
+/**
+ * Makes the current request visible to model calls made while handling it, so
+ * they can be charged to the user and school without passing the user through
+ * every AI helper. Mounted before the domain routers; requireAuth sets
+ * `req.user` later, which is why the request itself is kept rather than the user.
+ */
+export function trackAiUsageRequest(req: Request, _res: Response, next: NextFunction) {
+  requestContext.run(req as AuthenticatedRequest, next);
+}
+
+export function currentAiUsageSubject(): AiUsageSubject | null {
+  const user = requestContext.getStore()?.user;
+  return user ? { userId: user.id, schoolId: user.schoolId ?? null } : null;
+}
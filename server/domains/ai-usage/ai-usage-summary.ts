@@ -0,0 +1,151 @@
+import {
+  DEFAULT_MODEL_PRICES,
+  LLM_FEATURES,
+  microsToUsd,
+  type LlmFeature,
+  type ModelPrice,
+} from "../../../shared/ai-usage";
+import type {
+  AiBudgetDTO,
+  AiUsageDayDTO,
+  AiUsageSummaryDTO,
+  AiUsageTotalsDTO,
+} from "../../../shared/contracts/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Sums over a set of calls; latency is the total so rows can be added up before averaging. */
+export interface AiUsageTotalsRow {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costMicros: number;
+  latencyMs: number;
+}
+
+export interface AiUsageFeatureRow extends AiUsageTotalsRow {
+  feature: LlmFeature;
+}
+
+export interface AiUsageModelRow extends AiUsageTotalsRow {
+  provider: string;
+  model: string;
+}
+
+export interface AiUsageCostRow {
+  feature: LlmFeature;
+  costMicros: number;
+}
+
+export interface AiUsageDayRow extends AiUsageCostRow {
+  date: string;
+}
+
+export function emptyFeatureCosts(): Record<LlmFeature, number> {
+  return { tutor: 0, grading: 0, generation: 0 };
+}
+
+/** Midnight UTC at the start of a window covering today and the `days - 1` days before it. */
+export function getUsageWindowStart(days: number, now: Date = new Date()): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(today - (days - 1) * DAY_MS);
+}
+
+export function toUsageTotals(row: AiUsageTotalsRow): AiUsageTotalsDTO {
+  return {
+    calls: row.calls,
+    errors: row.errors,
+    promptTokens: row.promptTokens,
+    completionTokens: row.completionTokens,
+    costUsd: microsToUsd(row.costMicros),
+    averageLatencyMs: row.calls > 0 ? Math.round(row.latencyMs / row.calls) : 0,
+  };
+}
+
+function addTotals(rows: AiUsageTotalsRow[]): AiUsageTotalsRow {
+  return rows.reduce<AiUsageTotalsRow>(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      errors: sum.errors + row.errors,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      costMicros: sum.costMicros + row.costMicros,
+      latencyMs: sum.latencyMs + row.latencyMs,
+    }),
+    { calls: 0, errors: 0, promptTokens: 0, completionTokens: 0, costMicros: 0, latencyMs: 0 },
+  );
+}
+
+/** One entry per day in the window, including days without calls. */
+export function buildDailyCosts(rows: AiUsageDayRow[], since: Date, days: number): AiUsageDayDTO[] {
+  const daily = Array.from({ length: days }, (_, index) => ({
+    date: new Date(since.getTime() + index * DAY_MS).toISOString().slice(0, 10),
+    ...emptyFeatureCosts(),
+  }));
+  const byDate = new Map(daily.map((day) => [day.date, day]));
+  rows.forEach((row) => {
+    const day = byDate.get(row.date);
+    if (day) {
+      day[row.feature] += microsToUsd(row.costMicros);
+    }
+  });
+  return daily;
+}
+
+export function sumFeatureCosts(rows: AiUsageCostRow[]): Record<LlmFeature, number> {
+  const costs = emptyFeatureCosts();
+  rows.forEach((row) => {
+    costs[row.feature] += microsToUsd(row.costMicros);
+  });
+  return costs;
+}
+
+export function buildAiUsageSummary(input: {
+  since: Date;
+  days: number;
+  features: AiUsageFeatureRow[];
+  models: AiUsageModelRow[];
+  daily: AiUsageDayRow[];
+  budget: AiBudgetDTO;
+}): AiUsageSummaryDTO {
+  const features = LLM_FEATURES.map((feature) => {
+    const row = input.features.find((candidate) => candidate.feature === feature);
+    return { feature, ...toUsageTotals(row ?? addTotals([])) };
+  });
+
+  return {
+    since: input.since,
+    days: input.days,
+    totals: toUsageTotals(addTotals(input.features)),
+    features,
+    models: input.models
+      .map((row) => ({ provider: row.provider, model: row.model, ...toUsageTotals(row) }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    daily: buildDailyCosts(input.daily, input.since, input.days),
+    budget: input.budget,
+  };
+}
+
+/**
+ * Default prices with LLM_MODEL_PRICES merged over them, e.g.
+ * `{"gpt-4o": {"input": 2.5, "output": 10}}` in dollars per million tokens.
+ */
+export function parseModelPrices(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) {
+    return DEFAULT_MODEL_PRICES;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    const prices = { ...DEFAULT_MODEL_PRICES };
+    Object.entries(parsed).forEach(([model, price]) => {
+      if (typeof price?.input === "number" && typeof price?.output === "number") {
+        prices[model] = { input: price.input, output: price.output };
+      }
+    });
+    return prices;
+  } catch (error) {
+    console.error("Ignoring invalid LLM_MODEL_PRICES:", error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
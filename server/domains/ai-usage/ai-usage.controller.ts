@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { aiUsageService, type IAiUsageService } from "./ai-usage.service";
+import { authStorage, requireAuth, requireRole, type AuthenticatedRequest, type IAuthStorage } from "../auth";
+import { createSuccessResponse, resolveSchoolId, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+
+export class AiUsageController {
+  constructor(
+    private service: IAiUsageService = aiUsageService,
+    private users: Pick<IAuthStorage, "getUser"> = authStorage,
+  ) {}
+
+  // Create Express router with the AI usage routes (school admins only, scoped to their school)
+  createRouter(): Router {
+    const router = Router();
+    router.use(requireAuth, requireRole(UserRole.ADMIN));
+
+    // Calls, tokens, latency and estimated cost per feature, model and day over the last `days` days
+    router.get("/", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        createSuccessResponse(res, await this.service.getSchoolSummary(schoolId, req.query));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch AI usage");
+      }
+    });
+
+    router.put("/budget", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        createSuccessResponse(res, await this.service.updateBudget(schoolId, req.body), "AI budget updated");
+      } catch (error) {
+        sendDomainError(res, error, "Failed to update AI budget");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const aiUsageController = new AiUsageController();
+export const aiUsageRouter = aiUsageController.createRouter();
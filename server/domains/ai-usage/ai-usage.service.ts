@@ -0,0 +1,202 @@
+import { aiUsageStorage, type IAiUsageStorage } from "./ai-usage.storage";
+import {
+  buildAiUsageSummary,
+  getUsageWindowStart,
+  parseModelPrices,
+  sumFeatureCosts,
+} from "./ai-usage-summary";
+import type { AiUsageSubject } from "./ai-usage-context";
+import { MeteredLlmProvider } from "./metered-llm-provider";
+import { llmProvider, type LlmProvider } from "../../integrations/llm";
+import { notificationService, type INotificationService } from "../notifications";
+import {
+  aiBudgetUpdateSchema,
+  aiUsageQuerySchema,
+  estimateCostMicros,
+  findModelPrice,
+  findReachedBudgetLevels,
+  formatUsd,
+  microsToUsd,
+  type AiCallOutcome,
+  type LlmFeature,
+  type ModelPrice,
+} from "../../../shared/ai-usage";
+import { getUsagePeriodStart } from "../../../shared/plans";
+import { isPromptKey } from "../../../shared/prompts";
+import type {
+  AiBudgetDTO,
+  AiUsageSummaryDTO,
+  DistrictSchoolAiCostDTO,
+} from "../../../shared/contracts/api";
+import type { School } from "../../../shared/schema";
+import { NotFoundError, ValidationError } from "../../utils/errorTypes";
+
+/** One model call as the metered provider saw it. */
+export interface AiCallRecord {
+  subject: AiUsageSubject | null;
+  feature: LlmFeature;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  outcome: AiCallOutcome;
+  errorMessage?: string;
+  prompt?: { key: string; version: number };
+}
+
+export interface IAiUsageService {
+  recordCall(call: AiCallRecord): Promise<void>;
+  getSchoolSummary(schoolId: number, query: unknown): Promise<AiUsageSummaryDTO>;
+  updateBudget(schoolId: number, body: unknown): Promise<AiBudgetDTO>;
+  getSchoolCosts(schools: School[]): Promise<DistrictSchoolAiCostDTO[]>;
+}
+
+const centsToUsd = (cents: number | null) => (cents === null ? null : cents / 100);
+
+export class AiUsageService implements IAiUsageService {
+  constructor(
+    private storage: IAiUsageStorage = aiUsageStorage,
+    private notifications: Pick<INotificationService, "createNotifications"> = notificationService,
+    private prices: Record<string, ModelPrice> = parseModelPrices(process.env.LLM_MODEL_PRICES),
+  ) {}
+
+  async recordCall(call: AiCallRecord): Promise<void> {
+    const schoolId = call.subject?.schoolId ?? null;
+    const costMicros = estimateCostMicros(findModelPrice(call.model, this.prices), call.promptTokens, call.completionTokens);
+
+    await this.storage.insertEvent({
+      schoolId,
+      userId: call.subject?.userId ?? null,
+      feature: call.feature,
+      provider: call.provider,
+      model: call.model,
+      promptTokens: call.promptTokens,
+      completionTokens: call.completionTokens,
+      costMicros,
+      latencyMs: call.latencyMs,
+      outcome: call.outcome,
+      errorMessage: call.errorMessage?.slice(0, 1000) ?? null,
+      promptKey: call.prompt && isPromptKey(call.prompt.key) ? call.prompt.key : null,
+      promptVersion: call.prompt?.version ?? null,
+    });
+
+    if (schoolId !== null && costMicros > 0) {
+      await this.checkBudget(schoolId);
+    }
+  }
+
+  async getSchoolSummary(schoolId: number, query: unknown): Promise<AiUsageSummaryDTO> {
+    const parsed = aiUsageQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid usage filters");
+    }
+    const school = await this.storage.getSchool(schoolId);
+    if (!school) {
+      throw new NotFoundError("School", schoolId);
+    }
+
+    const { days } = parsed.data;
+    const since = getUsageWindowStart(days);
+    const [features, models, daily, budget] = await Promise.all([
+      this.storage.getFeatureTotals(schoolId, since),
+      this.storage.getModelTotals(schoolId, since),
+      this.storage.getDailyCosts(schoolId, since),
+      this.getBudget(school),
+    ]);
+    return buildAiUsageSummary({ since, days, features, models, daily, budget });
+  }
+
+  async updateBudget(schoolId: number, body: unknown): Promise<AiBudgetDTO> {
+    const parsed = aiBudgetUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid AI budget");
+    }
+    const { monthlyBudgetUsd, alertThresholdPercent } = parsed.data;
+    const school = await this.storage.updateBudget(schoolId, {
+      monthlyBudgetCents: monthlyBudgetUsd === null ? null : Math.round(monthlyBudgetUsd * 100),
+      alertThresholdPercent,
+    });
+    if (!school) {
+      throw new NotFoundError("School", schoolId);
+    }
+    return this.getBudget(school);
+  }
+
+  async getSchoolCosts(schools: School[]): Promise<DistrictSchoolAiCostDTO[]> {
+    const costs = await this.storage.getSchoolFeatureCosts(
+      schools.map((school) => school.id),
+      getUsagePeriodStart(),
+    );
+    return schools.map((school) => {
+      const byFeature = sumFeatureCosts(costs.filter((cost) => cost.schoolId === school.id));
+      return {
+        schoolId: school.id,
+        schoolName: school.name,
+        ...byFeature,
+        costUsd: byFeature.tutor + byFeature.grading + byFeature.generation,
+        monthlyBudgetUsd: centsToUsd(school.aiMonthlyBudgetCents),
+      };
+    });
+  }
+
+  private async getMonthToDateMicros(schoolId: number): Promise<number> {
+    const costs = await this.storage.getSchoolFeatureCosts([schoolId], getUsagePeriodStart());
+    return costs.reduce((total, cost) => total + cost.costMicros, 0);
+  }
+
+  private async getBudget(school: School): Promise<AiBudgetDTO> {
+    return {
+      monthlyBudgetUsd: centsToUsd(school.aiMonthlyBudgetCents),
+      alertThresholdPercent: school.aiBudgetAlertPercent,
+      monthToDateCostUsd: microsToUsd(await this.getMonthToDateMicros(school.id)),
+      periodStart: getUsagePeriodStart(),
+    };
+  }
+
+  // Claims every level reached so far, but only notifies about the highest new one
+  private async checkBudget(schoolId: number): Promise<void> {
+    const school = await this.storage.getSchool(schoolId);
+    const budgetCents = school?.aiMonthlyBudgetCents;
+    if (!school || !budgetCents) {
+      return;
+    }
+
+    const periodStart = getUsagePeriodStart();
+    const spentMicros = await this.getMonthToDateMicros(schoolId);
+    const reached = findReachedBudgetLevels(spentMicros, budgetCents, school.aiBudgetAlertPercent);
+
+    let alertPercent: number | null = null;
+    for (const percent of reached) {
+      if (await this.storage.claimBudgetAlert(schoolId, periodStart, percent)) {
+        alertPercent = percent;
+      }
+    }
+    if (alertPercent === null) {
+      return;
+    }
+
+    const adminIds = await this.storage.getSchoolAdminIds(schoolId);
+    const spent = formatUsd(microsToUsd(spentMicros));
+    const budget = formatUsd(budgetCents / 100);
+    const exhausted = alertPercent >= 100;
+    await this.notifications.createNotifications(
+      adminIds.map((userId) => ({
+        userId,
+        type: "ai_budget",
+        title: exhausted ? "AI budget reached" : `AI budget ${alertPercent}% used`,
+        message: exhausted
+          ? `${school.name} has spent ${spent} on AI this month, reaching its ${budget} monthly budget.`
+          : `${school.name} has spent ${spent} of its ${budget} monthly AI budget.`,
+        metadata: { schoolId, percent: alertPercent, spentUsd: microsToUsd(spentMicros), budgetUsd: budgetCents / 100 },
+        priority: exhausted ? "high" : "medium",
+        read: false,
+      })),
+    );
+  }
+}
+
+export const aiUsageService = new AiUsageService();
+
+// The provider the AI domain calls; every completion is recorded against the current request
+export const meteredLlmProvider: LlmProvider = new MeteredLlmProvider(llmProvider, aiUsageService);
@@ -0,0 +1,126 @@
+import { and, eq, gte, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  aiBudgetAlerts,
+  aiUsageEvents,
+  schools,
+  users,
+  UserRole,
+  type InsertAiUsageEvent,
+  type School,
+} from "../../../shared/schema";
+import type { LlmFeature } from "../../../shared/ai-usage";
+import type { AiUsageDayRow, AiUsageFeatureRow, AiUsageModelRow } from "./ai-usage-summary";
+
+export interface SchoolFeatureCost {
+  schoolId: number;
+  feature: LlmFeature;
+  costMicros: number;
+}
+
+export interface BudgetSettings {
+  monthlyBudgetCents: number | null;
+  alertThresholdPercent: number;
+}
+
+const totalsColumns = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  errors: sql<number>`count(*) filter (where ${aiUsageEvents.outcome} = 'error')`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${aiUsageEvents.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql<number>`coalesce(sum(${aiUsageEvents.completionTokens}), 0)`.mapWith(Number),
+  costMicros: sql<number>`coalesce(sum(${aiUsageEvents.costMicros}), 0)`.mapWith(Number),
+  latencyMs: sql<number>`coalesce(sum(${aiUsageEvents.latencyMs}), 0)`.mapWith(Number),
+};
+
+function schoolSince(schoolId: number, since: Date) {
+  return and(eq(aiUsageEvents.schoolId, schoolId), gte(aiUsageEvents.createdAt, since));
+}
+
+export interface IAiUsageStorage {
+  insertEvent(event: InsertAiUsageEvent): Promise<void>;
+  getFeatureTotals(schoolId: number, since: Date): Promise<AiUsageFeatureRow[]>;
+  getModelTotals(schoolId: number, since: Date): Promise<AiUsageModelRow[]>;
+  getDailyCosts(schoolId: number, since: Date): Promise<AiUsageDayRow[]>;
+  getSchoolFeatureCosts(schoolIds: number[], since: Date): Promise<SchoolFeatureCost[]>;
+  getSchool(id: number): Promise<School | undefined>;
+  updateBudget(schoolId: number, settings: BudgetSettings): Promise<School | undefined>;
+  claimBudgetAlert(schoolId: number, periodStart: Date, percent: number): Promise<boolean>;
+  getSchoolAdminIds(schoolId: number): Promise<number[]>;
+}
+
+export class AiUsageStorage implements IAiUsageStorage {
+  async insertEvent(event: InsertAiUsageEvent): Promise<void> {
+    await db.insert(aiUsageEvents).values(event);
+  }
+
+  async getFeatureTotals(schoolId: number, since: Date): Promise<AiUsageFeatureRow[]> {
+    return db
+      .select({ feature: aiUsageEvents.feature, ...totalsColumns })
+      .from(aiUsageEvents)
+      .where(schoolSince(schoolId, since))
+      .groupBy(aiUsageEvents.feature);
+  }
+
+  async getModelTotals(schoolId: number, since: Date): Promise<AiUsageModelRow[]> {
+    return db
+      .select({ provider: aiUsageEvents.provider, model: aiUsageEvents.model, ...totalsColumns })
+      .from(aiUsageEvents)
+      .where(schoolSince(schoolId, since))
+      .groupBy(aiUsageEvents.provider, aiUsageEvents.model);
+  }
+
+  async getDailyCosts(schoolId: number, since: Date): Promise<AiUsageDayRow[]> {
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageEvents.createdAt}), 'YYYY-MM-DD')`;
+    return db
+      .select({ date: day, feature: aiUsageEvents.feature, costMicros: totalsColumns.costMicros })
+      .from(aiUsageEvents)
+      .where(schoolSince(schoolId, since))
+      .groupBy(day, aiUsageEvents.feature);
+  }
+
+  async getSchoolFeatureCosts(schoolIds: number[], since: Date): Promise<SchoolFeatureCost[]> {
+    if (schoolIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ schoolId: aiUsageEvents.schoolId, feature: aiUsageEvents.feature, costMicros: totalsColumns.costMicros })
+      .from(aiUsageEvents)
+      .where(and(inArray(aiUsageEvents.schoolId, schoolIds), gte(aiUsageEvents.createdAt, since)))
+      .groupBy(aiUsageEvents.schoolId, aiUsageEvents.feature);
+    return rows.map((row) => ({ ...row, schoolId: row.schoolId! }));
+  }
+
+  async getSchool(id: number): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, id));
+    return school;
+  }
+
+  async updateBudget(schoolId: number, settings: BudgetSettings): Promise<School | undefined> {
+    const [school] = await db
+      .update(schools)
+      .set({ aiMonthlyBudgetCents: settings.monthlyBudgetCents, aiBudgetAlertPercent: settings.alertThresholdPercent })
+      .where(eq(schools.id, schoolId))
+      .returning();
+    return school;
+  }
+
+  // True only for the caller that recorded the alert, so concurrent calls notify once
+  async claimBudgetAlert(schoolId: number, periodStart: Date, percent: number): Promise<boolean> {
+    const claimed = await db
+      .insert(aiBudgetAlerts)
+      .values({ schoolId, periodStart, percent })
+      .onConflictDoNothing({ target: [aiBudgetAlerts.schoolId, aiBudgetAlerts.periodStart, aiBudgetAlerts.percent] })
+      .returning({ id: aiBudgetAlerts.id });
+    return claimed.length > 0;
+  }
+
+  async getSchoolAdminIds(schoolId: number): Promise<number[]> {
+    const admins = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.schoolId, schoolId), eq(users.role, UserRole.ADMIN), isNull(users.deactivatedAt)));
+    return admins.map((admin) => admin.id);
+  }
+}
+
+export const aiUsageStorage = new AiUsageStorage();
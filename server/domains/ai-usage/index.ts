@@ -0,0 +1,12 @@
+// Export controller and router
+export { aiUsageRouter, AiUsageController } from './ai-usage.controller';
+
+// Export service
+export { aiUsageService, meteredLlmProvider, type IAiUsageService, type AiCallRecord } from './ai-usage.service';
+
+// Export storage
+export { aiUsageStorage, type IAiUsageStorage } from './ai-usage.storage';
+
+// Export request tracking and the metered provider every AI call goes through
+export { trackAiUsageRequest, currentAiUsageSubject, type AiUsageSubject } from './ai-usage-context';
+export { MeteredLlmProvider } from './metered-llm-provider';
@@ -0,0 +1,78 @@
+import type {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmFeature,
+  LlmProvider,
+} from "../../integrations/llm";
+import type { AiCallRecord, IAiUsageService } from "./ai-usage.service";
+import { currentAiUsageSubject, type AiUsageSubject } from "./ai-usage-context";
+
+/**
+ * Wraps a provider so every call is timed and recorded with its tokens,
+ * outcome and the user and school of the request it was made for; streamed
+ * calls are timed until the last token. Recording happens in the background
+ * and never fails the call.
+ */
+export class MeteredLlmProvider implements LlmProvider {
+  constructor(
+    private inner: LlmProvider,
+    private usage: Pick<IAiUsageService, "recordCall">,
+    private getSubject: () => AiUsageSubject | null = currentAiUsageSubject,
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  modelFor(feature: LlmFeature): string {
+    return this.inner.modelFor(feature);
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return this.measure(request, () => this.inner.complete(request));
+  }
+
+  stream(request: LlmCompletionRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    return this.measure(request, () => this.inner.stream(request, onDelta));
+  }
+
+  private async measure(request: LlmCompletionRequest, call: () => Promise<LlmCompletion>): Promise<LlmCompletion> {
+    const subject = this.getSubject();
+    const startedAt = Date.now();
+    try {
+      const completion = await call();
+      this.record({
+        subject,
+        feature: request.feature,
+        provider: this.inner.name,
+        model: completion.model,
+        promptTokens: completion.usage?.promptTokens ?? 0,
+        completionTokens: completion.usage?.completionTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        outcome: "success",
+        prompt: request.prompt,
+      });
+      return completion;
+    } catch (error) {
+      this.record({
+        subject,
+        feature: request.feature,
+        provider: this.inner.name,
+        model: this.inner.modelFor(request.feature),
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        outcome: "error",
+        errorMessage: error instanceof Error ? error.message : String(error),
+        prompt: request.prompt,
+      });
+      throw error;
+    }
+  }
+
+  private record(call: AiCallRecord): void {
+    this.usage.recordCall(call).catch((error) => {
+      console.error("Error recording AI usage:", error);
+    });
+  }
+}
@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { aiService } from './ai.service';
 import { requireAuth, type AuthenticatedRequest } from '../auth';
+import { meterUsage, refundMeteredUsage } from '../plans';
 import { assessmentStorage, type IAssessmentStorage } from '../assessments/assessments.storage';
-import type { BestStandard } from '../../../shared/schema';
+import { tutorStorage, type ITutorStorage } from './tutor.storage';
+import type { Assessment, BestStandard, TutorSession, TutorTurn, User } from '../../../shared/schema';
+import { TUTOR_STUDENT_TURN_LIMIT, formatTutorStreamEvent, type TutorStreamEvent } from '../../../shared/tutor-stream';
 import { 
   validateIntParam, 
   sanitizeForPrompt, 
@@ -10,18 +13,78 @@ import {
   aiLimiter
 } from '../../middleware/security';
 
+// Keeps one message from crowding the rubric and history out of the tutor prompt
+const MAX_TUTOR_MESSAGE_LENGTH = 5000;
+
+function toSuggestedLevel(level: unknown): TutorTurn["suggestedLevel"] {
+  return level === "emerging" || level === "developing" || level === "proficient" || level === "applying" ? level : null;
+}
+
 export class AIController {
   constructor(
     private service = aiService,
     private assessmentsStorage: IAssessmentStorage = assessmentStorage,
+    private tutorSessions: ITutorStorage = tutorStorage,
   ) {}
 
+  // Loaded on demand: the assessments project gateway pulls in the projects domain, which imports this one
+  private async canAccessAssessment(assessment: Assessment, user: User): Promise<boolean> {
+    const [{ canUserAccessAssessment }, { assessmentProjectGateway }] = await Promise.all([
+      import('../assessments/assessment-access'),
+      import('../assessments/assessment-project-gateway'),
+    ]);
+    return canUserAccessAssessment(assessment, user, assessmentProjectGateway);
+  }
+
+  // Create a safety incident and notify teachers
+  private async reportSafetyIncident(
+    studentId: number,
+    safetyFlag: string,
+    latestMessage: string,
+    componentSkillId: number | undefined,
+    assessmentId: number | undefined,
+    conversationHistory: Array<Record<string, unknown>>,
+  ): Promise<void> {
+    try {
+      // Import notification helper
+      const { notifyTeacherOfSafetyIncident } = await import('../../services/notifications');
+
+      // Map safety flags to incident types using a mapping object
+      const safetyFlagMapping = {
+        'homicidal_ideation': 'homicidal_ideation',
+        'suicidal_ideation': 'suicidal_ideation',
+        'inappropriate_language': 'inappropriate_language',
+        'homicidal_ideation_fallback': 'homicidal_ideation_fallback',
+        'suicidal_ideation_fallback': 'suicidal_ideation_fallback',
+        'inappropriate_language_fallback': 'inappropriate_language_fallback'
+      } as const;
+
+      type SafetyIncidentType = typeof safetyFlagMapping[keyof typeof safetyFlagMapping];
+      const incidentType: SafetyIncidentType =
+        safetyFlagMapping[safetyFlag as keyof typeof safetyFlagMapping] || 'inappropriate_language';
+
+      await notifyTeacherOfSafetyIncident({
+        studentId,
+        assessmentId,
+        componentSkillId,
+        incidentType: incidentType,
+        message: latestMessage,
+        timestamp: new Date(),
+        conversationHistory
+      });
+
+    } catch (notificationError) {
+      console.error("Error creating safety incident notification:", notificationError);
+    }
+  }
+
   // Create Express router with all AI routes
   createRouter(): Router {
     const router = Router();
 
-    // AI Tutor Chat endpoint
-    router.post('/tutor/chat', requireAuth, aiLimiter, async (req: AuthenticatedRequest, res) => {
+    // AI Tutor Chat endpoint; the reply streams back as server-sent events (see shared/tutor-stream.ts)
+    router.post('/tutor/chat', requireAuth, aiLimiter, meterUsage('tutor_turn'), async (req: AuthenticatedRequest, res) => {
+      let streaming = false;
       try {
         const userId = req.user!.id;
 
@@ -29,107 +92,144 @@ export class AIController {
           return res.status(403).json({ message: "Only students and teachers can use the AI tutor" });
         }
 
-        const { componentSkill, conversationHistory, currentEvaluation, assessmentId } = req.body;
+        const { sessionId, componentSkill, message, openingMessage, currentEvaluation, assessmentId } = req.body ?? {};
+        const studentMessage = typeof message === "string" ? message.trim() : "";
         const parsedAssessmentId =
           typeof assessmentId === "number"
             ? assessmentId
             : typeof assessmentId === "string"
               ? Number(assessmentId)
               : NaN;
-        const conversationHistoryList: Array<Record<string, unknown>> = Array.isArray(conversationHistory)
-          ? conversationHistory.filter(
-            (msg: unknown): msg is Record<string, unknown> =>
-              typeof msg === "object" && msg !== null,
-          )
-          : [];
-
-        if (!componentSkill || conversationHistoryList.length === 0) {
+
+        if (!componentSkill || !studentMessage) {
           return res.status(400).json({ message: "Missing required fields" });
         }
+        if (studentMessage.length > MAX_TUTOR_MESSAGE_LENGTH) {
+          return res.status(400).json({ message: `Messages can be at most ${MAX_TUTOR_MESSAGE_LENGTH} characters` });
+        }
 
-        // Add studentId to conversation history for safety incident tracking
-        const enhancedConversationHistory = conversationHistoryList.map((msg: Record<string, unknown>) => ({
-          ...msg,
-          studentId: req.user?.role === 'student' ? userId : msg.studentId
-        }));
+        let assessmentRecord: Assessment | undefined;
         let teacherAssessmentDescription: string | undefined;
         let assessmentPdfContext: string | undefined;
         if (Number.isInteger(parsedAssessmentId) && parsedAssessmentId > 0) {
-          const assessment = await this.assessmentsStorage.getAssessment(parsedAssessmentId);
-          teacherAssessmentDescription = sanitizeForPrompt(assessment?.description || "");
+          assessmentRecord = await this.assessmentsStorage.getAssessment(parsedAssessmentId);
+          if (!assessmentRecord || !(await this.canAccessAssessment(assessmentRecord, req.user!))) {
+            return res.status(404).json({ message: "Assessment not found" });
+          }
+          teacherAssessmentDescription = sanitizeForPrompt(assessmentRecord.description || "");
 
-          if (assessment?.pdfUrl) {
+          if (assessmentRecord.pdfUrl) {
             try {
               const { extractTextFromPdfUrl } = await import('../../utils/pdf');
-              assessmentPdfContext = sanitizeForPrompt(await extractTextFromPdfUrl(assessment.pdfUrl));
+              assessmentPdfContext = sanitizeForPrompt(await extractTextFromPdfUrl(assessmentRecord.pdfUrl));
             } catch (pdfError) {
               console.error("Error extracting assessment PDF for tutor context:", pdfError);
             }
           }
         }
 
-        // Generate AI tutor response
-        const tutorResponse = await this.service.generateTutorResponse(
+        // Continue the student's own session, or start one with the greeting they were shown
+        let session: TutorSession | undefined;
+        if (sessionId !== undefined && sessionId !== null) {
+          session = await this.tutorSessions.getSession(Number(sessionId));
+          if (!session || session.studentId !== userId) {
+            return res.status(404).json({ message: "Tutor session not found" });
+          }
+          const priorTurns = await this.tutorSessions.getTurns(session.id);
+          const priorStudentTurns = priorTurns.filter((turn) => turn.role === "student").length;
+          if (session.completedAt || priorStudentTurns >= TUTOR_STUDENT_TURN_LIMIT) {
+            return res.status(409).json({ message: "This tutor conversation has ended" });
+          }
+        } else {
+          session = await this.tutorSessions.createSession({
+            studentId: userId,
+            assessmentId: assessmentRecord?.id ?? null,
+            componentSkillId: typeof componentSkill.id === "number" ? componentSkill.id : null,
+          });
+          if (typeof openingMessage === "string" && openingMessage.trim()) {
+            await this.tutorSessions.addTurn({ sessionId: session.id, role: "tutor", content: openingMessage.trim() });
+          }
+        }
+        await this.tutorSessions.addTurn({ sessionId: session.id, role: "student", content: studentMessage });
+
+        // studentId is kept on each turn for safety incident tracking
+        const conversationHistory = (await this.tutorSessions.getTurns(session.id)).map((turn) => ({
+          role: turn.role,
+          content: turn.content,
+          studentId: session.studentId,
+        }));
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+        streaming = true;
+        const send = (event: TutorStreamEvent) => res.write(formatTutorStreamEvent(event));
+        send({ type: "session", sessionId: session.id });
+
+        const tutorResponse = await this.service.streamTutorResponse(
           componentSkill,
-          enhancedConversationHistory,
+          conversationHistory,
+          (text) => send({ type: "delta", text }),
           currentEvaluation,
           teacherAssessmentDescription,
           assessmentPdfContext
         );
+        const response = tutorResponse.response ?? "";
 
-        // Handle safety flags by creating notifications
-        if (tutorResponse.safetyFlag) {
-          // Create safety incident and notify teachers
-          const studentId = userId; // Simplified - both branches were returning userId
-          const latestMessage = String(conversationHistoryList
-            .filter((msg: Record<string, unknown>) => msg.role === 'student')
-            .map((msg) => msg.content)
-            .pop() || '');
+        // The reply has been generated; failing to store it shouldn't keep it from the student
+        let turnId: number | null = null;
+        try {
+          const tutorTurn = await this.tutorSessions.addTurn({
+            sessionId: session.id,
+            role: "tutor",
+            content: response,
+            suggestedLevel: toSuggestedLevel(tutorResponse.suggestedEvaluation?.selfAssessedLevel),
+            safetyFlag: tutorResponse.safetyFlag ?? null,
+            aiPromptVersion: tutorResponse.promptVersion ?? null,
+          });
+          turnId = tutorTurn.id;
 
-          try {
-            // Import notification helper
-            const { notifyTeacherOfSafetyIncident } = await import('../../services/notifications');
-
-            // Map safety flags to incident types using a mapping object
-            const safetyFlagMapping = {
-              'homicidal_ideation': 'homicidal_ideation',
-              'suicidal_ideation': 'suicidal_ideation',
-              'inappropriate_language': 'inappropriate_language',
-              'homicidal_ideation_fallback': 'homicidal_ideation_fallback',
-              'suicidal_ideation_fallback': 'suicidal_ideation_fallback',
-              'inappropriate_language_fallback': 'inappropriate_language_fallback'
-            } as const;
-
-            type SafetyIncidentType = typeof safetyFlagMapping[keyof typeof safetyFlagMapping];
-            const incidentType: SafetyIncidentType =
-              safetyFlagMapping[tutorResponse.safetyFlag as keyof typeof safetyFlagMapping] || 'inappropriate_language';
-
-            await notifyTeacherOfSafetyIncident({
-              studentId: studentId,
-              assessmentId:
-                Number.isInteger(parsedAssessmentId) && parsedAssessmentId > 0
-                  ? parsedAssessmentId
-                  : undefined,
-              componentSkillId: componentSkill.id,
-              incidentType: incidentType,
-              message: latestMessage,
-              timestamp: new Date(),
-              conversationHistory: enhancedConversationHistory
-            });
-
-          } catch (notificationError) {
-            console.error("Error creating safety incident notification:", notificationError);
+          // The reply that ends the conversation is its summary, unless it's a safety response
+          const studentTurnCount = conversationHistory.filter((turn) => turn.role === "student").length;
+          if (tutorResponse.shouldTerminate || studentTurnCount >= TUTOR_STUDENT_TURN_LIMIT) {
+            await this.tutorSessions.completeSession(session.id, tutorResponse.safetyFlag ? null : response);
           }
+        } catch (turnError) {
+          console.error("Error saving tutor turn:", turnError);
+        }
+
+        // Handle safety flags by creating notifications
+        if (tutorResponse.safetyFlag) {
+          await this.reportSafetyIncident(
+            userId,
+            tutorResponse.safetyFlag,
+            studentMessage,
+            componentSkill.id,
+            Number.isInteger(parsedAssessmentId) && parsedAssessmentId > 0 ? parsedAssessmentId : undefined,
+            conversationHistory,
+          );
         }
 
-        res.json({
-          response: tutorResponse.response,
+        send({
+          type: "complete",
+          turnId,
+          response,
           suggestedEvaluation: tutorResponse.suggestedEvaluation,
           shouldTerminate: tutorResponse.shouldTerminate || false,
-          safetyFlag: tutorResponse.safetyFlag
+          safetyFlag: tutorResponse.safetyFlag,
         });
+        res.end();
       } catch (error) {
         console.error("Error generating tutor response:", error);
+        if (streaming) {
+          refundMeteredUsage(res);
+          res.write(formatTutorStreamEvent({ type: "error", message: "Failed to generate tutor response" }));
+          res.end();
+          return;
+        }
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
         res.status(500).json({ 
           message: "Failed to generate tutor response", 
@@ -140,7 +240,7 @@ export class AIController {
     });
 
     // Generate assessment questions
-    router.post('/assessment/generate-questions', requireAuth, aiLimiter, async (req: AuthenticatedRequest, res) => {
+    router.post('/assessment/generate-questions', requireAuth, aiLimiter, meterUsage('ai_generation'), async (req: AuthenticatedRequest, res) => {
       try {
         const { milestoneDescription, learningObjectives, difficulty } = req.body;
 
@@ -161,7 +261,7 @@ export class AIController {
       }
     });
 
-    router.post('/generate-assessment', requireAuth, aiLimiter, async (req: AuthenticatedRequest, res) => {
+    router.post('/generate-assessment', requireAuth, aiLimiter, meterUsage('ai_generation'), async (req: AuthenticatedRequest, res) => {
       try {
         const {
           milestoneTitle,
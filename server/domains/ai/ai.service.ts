@@ -1,11 +1,15 @@
 import {
   openAIService,
+  type AiSkillGrade,
   type GeneratedAssessment,
   type GeneratedMilestone,
   type GeneratedProjectIdea,
 } from './openai.service';
 import { notifyTeacherOfSafetyIncident } from '../../services/notifications';
-import OpenAI from "openai";
+import type { LlmCompletionRequest, LlmProvider } from "../../integrations/llm";
+import { meteredLlmProvider } from "../ai-usage";
+import { buildPromptRequest, promptService, promptVersionLabel, type PromptResolver } from "../prompts";
+import { JsonStringFieldReader } from "./json-field-stream";
 import type {
   BestStandard,
   Grade,
@@ -13,20 +17,8 @@ import type {
   Project,
   Submission,
 } from "../../../shared/schema";
-import type {
-  ComponentSkillWithDetailsDTO,
-  SubmissionGradeItemDTO,
-} from "../../../shared/contracts/api";
-
-// Use the same Azure OpenAI endpoint as openai.service.ts for consistency
-const openai = new OpenAI({
-  apiKey: process.env.AZURE_GPT41_API_KEY,
-  baseURL: "https://trueaimopenai.openai.azure.com/openai/deployments/gpt-4o",
-  defaultQuery: { 'api-version': '2025-01-01-preview' },
-  defaultHeaders: {
-    'api-key': process.env.AZURE_GPT41_API_KEY,
-  },
-});
+import type { ComponentSkillWithDetailsDTO } from "../../../shared/contracts/api";
+import { TUTOR_STUDENT_TURN_LIMIT, type TutorMisconception } from "../../../shared/tutor-stream";
 
 interface SelfEvaluationAnalysis {
   improvementFeedback: string;
@@ -81,6 +73,43 @@ type TutorResponsePayload = {
   suggestedEvaluation?: TutorEvaluation;
   shouldTerminate?: boolean;
   safetyFlag?: string;
+  // Unset when the reply is the fallback used after a model error
+  promptVersion?: string;
+};
+
+// Rubric levels from the individual component skill fields, skipping empty ones
+const formatTutorRubricLevels = (componentSkill: TutorComponentSkill): string =>
+  Object.entries({
+    emerging: componentSkill.emerging || '',
+    developing: componentSkill.developing || '',
+    proficient: componentSkill.proficient || '',
+    applying: componentSkill.applying || '',
+  })
+    .filter(([, description]) => description)
+    .map(([level, description]) => `${level.toUpperCase()}: ${description}`)
+    .join("\n");
+
+const normalizeMisconceptions = (value: unknown): TutorMisconception[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((entry): TutorMisconception[] => {
+    if (typeof entry !== "object" || entry === null) {
+      return [];
+    }
+    const record = entry as Record<string, unknown>;
+    if (typeof record.misconception !== "string" || record.misconception.trim().length === 0) {
+      return [];
+    }
+    return [{
+      misconception: record.misconception.trim(),
+      sessionCount: typeof record.sessionCount === "number" && Number.isFinite(record.sessionCount)
+        ? Math.max(0, Math.round(record.sessionCount))
+        : 0,
+      example: typeof record.example === "string" ? record.example.trim() : "",
+      suggestion: typeof record.suggestion === "string" ? record.suggestion.trim() : "",
+    }];
+  });
 };
 
 const VALID_SELF_ASSESSMENT_LEVELS = new Set([
@@ -119,7 +148,11 @@ type CredentialSuggestion = {
 };
 
 export class AIService {
-  constructor(private openaiService = openAIService) { }
+  constructor(
+    private openaiService = openAIService,
+    private llm: LlmProvider = meteredLlmProvider,
+    private prompts: PromptResolver = promptService,
+  ) { }
 
   private parseRubricLevel(level: string | null | undefined): Grade["rubricLevel"] {
     if (level === "emerging" || level === "developing" || level === "proficient" || level === "applying") {
@@ -138,6 +171,7 @@ export class AIService {
       feedback: null,
       gradedBy: null,
       gradedAt: null,
+      aiPromptVersion: null,
     }));
   }
 
@@ -235,7 +269,7 @@ export class AIService {
     assessment: AssessmentWithQuestions,
     componentSkills: ComponentSkillWithDetailsDTO[],
     pdfContent?: string,
-  ): Promise<SubmissionGradeItemDTO[]> {
+  ): Promise<AiSkillGrade[]> {
     return await this.openaiService.generateComponentSkillGrades(
       submission,
       assessment,
@@ -288,60 +322,23 @@ export class AIService {
           ? assessmentDescription.trim()
           : "No teacher-provided assessment description available.";
 
-      const prompt = `You are an AI tutor helping students improve their competency in "${componentSkillName}".
-
-ASSESSMENT CONTEXT (TEACHER DESCRIPTION):
-${teacherAssessmentDescription}
-
-RUBRIC LEVELS:
-${rubricEntries
-          .map(([level, description]) => `${level.toUpperCase()}: ${description}`)
-          .join("\n")}
-
-STUDENT SELF-EVALUATION:
-- Self-assessed level: ${selfAssessedLevel}
-- Justification: ${justification}
-- Examples provided: ${examples}
-
-IMPORTANT SAFETY CHECK:
-First, analyze the student's response for any concerning content including:
-- References to homicide, murder, or harming others
-- Suicidal ideation or self-harm
-- Violence or threats
-- Inappropriate or dangerous content
-
-If ANY concerning content is detected, immediately flag it and do not provide educational feedback.
-
-TASKS:
-1. Safety Analysis: Check for risky content (yes/no)
-2. Educational Feedback: If safe, provide specific, actionable guidance aligned to the teacher's assessment description and rubric expectations to help the student progress from their current level to "applying" (the highest level)
-
-Respond in JSON format:
-{
-  "hasRiskyContent": boolean,
-  "riskType": "string or null",
-  "confidence": number (0-1),
-  "improvementFeedback": "string with specific recommendations for reaching mastery level"
-}`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a safety-aware educational AI assistant. Always prioritize student safety and provide constructive learning guidance.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 800,
+      const prompt = await this.prompts.resolve("self_evaluation_feedback");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          skillName: componentSkillName,
+          assessmentDescription: teacherAssessmentDescription,
+          rubricLevels: rubricEntries
+            .map(([level, description]) => `${level.toUpperCase()}: ${description}`)
+            .join("\n"),
+          selfAssessedLevel,
+          justification,
+          examples,
+        }),
+        json: true,
+        maxTokens: 800,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.content || "{}");
 
       return {
         improvementFeedback: result.improvementFeedback || "Keep practicing and reflecting on your progress!",
@@ -367,63 +364,14 @@ Respond in JSON format:
     difficulty: string = "intermediate"
   ): Promise<AssessmentQuestion[]> {
     try {
-      const prompt = `Generate 5-7 educational assessment questions for this learning milestone:
-
-Milestone: ${milestoneDescription}
-Learning Objectives: ${learningObjectives}
-Difficulty Level: ${difficulty}
-
-Create a mix of question types:
-- 2-3 open-ended questions for deep thinking
-- 2-3 short-answer questions for specific concepts
-- 1-2 multiple-choice questions with 4 answer options each
-- For multiple-choice questions, provide exactly 4 answer choices in a "choices" array
-        - Include a "correctAnswer" field that matches one of the choices exactly
-        - The correctAnswer field is REQUIRED for all multiple-choice questions
-
-Each question should include:
-- Question text (string)
-- Type (string: "open-ended", "short-answer", "multiple-choice")
-- Rubric criteria for grading (string)
-- Sample answer (string, for open-ended and short-answer)
-- Choices (array of strings, for multiple-choice questions only)
-- Correct answer (string, for multiple-choice questions only)
-
-Return as JSON array of question objects. Ensure the JSON is valid and follows the specified structure.
-Example JSON structure:
-[
-  {
-    "text": "What is the capital of France?",
-    "type": "multiple-choice",
-    "rubricCriteria": "Correctly identify the capital city.",
-    "choices": ["Berlin", "Madrid", "Paris", "Rome"],
-    "correctAnswer": "Paris"
-  },
-  {
-    "text": "Explain the process of photosynthesis.",
-    "type": "open-ended",
-    "rubricCriteria": "Describe the key steps and components of photosynthesis.",
-    "sampleAnswer": "Photosynthesis is the process plants use to convert light energy into chemical energy..."
-  }
-]`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in educational assessment design. Create engaging, pedagogically sound questions. Ensure all required fields, especially 'correctAnswer' for multiple-choice questions, are present and valid in the JSON output."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
+      const prompt = await this.prompts.resolve("assessment_questions");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, { milestoneDescription, learningObjectives, difficulty }),
+        json: true,
         temperature: 0.7,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}") as { questions?: AssessmentQuestion[] };
+      const result = JSON.parse(response.content || "{}") as { questions?: AssessmentQuestion[] };
       const questions = Array.isArray(result.questions) ? result.questions : [];
 
       // Post-processing to ensure correctAnswer is valid for multiple-choice questions
@@ -454,161 +402,167 @@ Example JSON structure:
     assessmentPdfContext?: string,
   ): Promise<TutorResponsePayload> {
     try {
-      const historyText = conversationHistory
-        .map((msg) => `${String(msg.role || "unknown")}: ${String(msg.content || "")}`)
-        .join('\n');
-      const latestStudentMessage = conversationHistory
-        .filter((msg) => msg.role === "student")
-        .map((msg) => String(msg.content || "").trim())
-        .filter((content) => content.length > 0)
-        .pop() || "No student response provided.";
-      const recentTutorMessages = conversationHistory
-        .filter((msg) => msg.role === "tutor")
-        .map((msg) => String(msg.content || "").trim())
-        .filter((content) => content.length > 0)
-        .slice(-2)
-        .join("\n---\n");
-
-      const studentMessageCount = conversationHistory.filter(msg => msg.role === 'student').length;
-      const isFinalTurn = studentMessageCount >= 3;
-
-      const currentLevel = currentEvaluation?.selfAssessedLevel || 'unknown';
-      const skillName = componentSkill.name || 'this skill';
-      const teacherAssessmentDescription =
-        typeof assessmentDescription === "string" && assessmentDescription.trim().length > 0
-          ? assessmentDescription.trim()
-          : "No teacher-provided assessment description available.";
-      const teacherAssessmentPdfContext =
-        typeof assessmentPdfContext === "string" && assessmentPdfContext.trim().length > 0
-          ? assessmentPdfContext.trim()
-          : "No teacher-provided PDF context available.";
-
-      // Build rubric levels from individual component skill fields
-      const rubricLevels = {
-        emerging: componentSkill.emerging || '',
-        developing: componentSkill.developing || '',
-        proficient: componentSkill.proficient || '',
-        applying: componentSkill.applying || ''
-      };
+      const { request, promptVersion } = await this.buildTutorRequest(
+        componentSkill,
+        conversationHistory,
+        currentEvaluation,
+        assessmentDescription,
+        assessmentPdfContext,
+      );
+      const response = await this.llm.complete(request);
+      return { ...this.parseTutorResponse(response.content), promptVersion };
+    } catch (error: unknown) {
+      return this.tutorFallbackResponse(error);
+    }
+  }
 
-      const prompt = `You are an AI tutor helping a student develop their competency in "${skillName}".
-
-COMPONENT SKILL: ${skillName}
-CURRENT LEVEL: ${currentLevel}
-ASSESSMENT CONTEXT (TEACHER DESCRIPTION): ${teacherAssessmentDescription}
-ASSESSMENT MATERIAL CONTEXT (TEACHER PDF): ${teacherAssessmentPdfContext}
-${isFinalTurn ? "NOTE: This is the FINAL turn. You must provide a summarizing statement and conclude the session. Do NOT ask any follow-up questions." : ""}
-
-RUBRIC LEVELS:
-${Object.entries(rubricLevels)
-          .filter(([_, description]) => description) // Only include non-empty levels
-          .map(([level, description]) => `${level.toUpperCase()}: ${description}`)
-          .join("\n")}
-
-Previous conversation:
-${historyText}
-
-LATEST STUDENT RESPONSE TO CRITIQUE:
-${latestStudentMessage}
-
-RECENT TUTOR RESPONSES (DO NOT REPEAT THESE PHRASES):
-${recentTutorMessages || "None"}
-
-IMPORTANT SAFETY CHECK:
-First, analyze the student's messages for any concerning content including:
-- References to homicide, murder, or harming others
-- Suicidal ideation or self-harm
-- Violence or threats
-- Inappropriate or dangerous content
-
-If ANY concerning content is detected, immediately flag it and provide a safety response.
-
-TASKS:
-1. Safety Analysis: Check for risky content
-2. Educational Response: Provide detailed, constructive critique of the latest student response and align all feedback to the teacher's assessment description, teacher-provided PDF material context, and rubric.
-3. Suggested Evaluation: Suggest their current level based on evidence in the conversation.
-4. Continue/Terminate: Determine if the conversation should continue
-5. Summary: If this is the 3rd student response, provide a comprehensive summary and concluding statement. Do not ask a follow-up question.
-
-RUBRIC CALIBRATION RULES (CRITICAL):
-- If a student claims "proficient" or "applying", require concrete evidence, not general statements.
-- "proficient" should show consistent independent performance with specific context and outcomes.
-- "applying" should show transfer to complex/novel situations and impact on others (for example mentoring peers, leading, or adapting strategy).
-- If evidence does not meet the claimed level, explicitly and respectfully say the evidence currently fits a lower level, explain why, and state what evidence would justify moving up.
-
-RESPONSE STYLE (BALANCED + DETAILED):
-- Maintain a balanced tone: supportive but direct.
-- Avoid repeating wording from recent tutor responses.
-- The "response" field must include these exact section headers in this order:
-  1) Strengths
-  2) Constructive Critique
-  3) How to Improve Next Submission
-  4) Suggested Next Evidence
-- In "Constructive Critique" include at least 2 concrete gaps tied to rubric language.
-- In "How to Improve Next Submission" include specific, actionable steps the student can do in their next response.
-- If not final turn, end with exactly one targeted follow-up question.
-- If final turn, end with a concise summary and no follow-up question.
-
-Respond in JSON format:
-{
-  "response": "Your helpful educational response",
-  "suggestedEvaluation": {
-    "selfAssessedLevel": "emerging|developing|proficient|applying",
-    "confidence": 0.8
-  },
-  "shouldTerminate": false,
-  "safetyFlag": null
-}
+  /**
+   * Same reply as generateTutorResponse, with the text of the `response` field
+   * passed to `onText` while the model is still writing the rest of the JSON.
+   */
+  async streamTutorResponse(
+    componentSkill: TutorComponentSkill,
+    conversationHistory: TutorConversationMessage[],
+    onText: (text: string) => void,
+    currentEvaluation?: TutorEvaluation,
+    assessmentDescription?: string,
+    assessmentPdfContext?: string,
+  ): Promise<TutorResponsePayload> {
+    try {
+      const { request, promptVersion } = await this.buildTutorRequest(
+        componentSkill,
+        conversationHistory,
+        currentEvaluation,
+        assessmentDescription,
+        assessmentPdfContext,
+      );
+      const reader = new JsonStringFieldReader("response", onText);
+      const response = await this.llm.stream(request, (delta) => reader.push(delta));
+      return { ...this.parseTutorResponse(response.content), promptVersion };
+    } catch (error: unknown) {
+      return this.tutorFallbackResponse(error);
+    }
+  }
 
-If safety concerns are detected:
-{
-  "response": "I'm concerned about what you've shared. Please talk to a trusted adult or counselor.",
-  "safetyFlag": "homicidal_ideation|suicidal_ideation|inappropriate_language",
-  "shouldTerminate": true
-}`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a safety-aware educational AI tutor. Always prioritize student safety and provide constructive learning guidance."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.5,
-        max_tokens: 1000,
-      });
+  private async buildTutorRequest(
+    componentSkill: TutorComponentSkill,
+    conversationHistory: TutorConversationMessage[],
+    currentEvaluation?: TutorEvaluation,
+    assessmentDescription?: string,
+    assessmentPdfContext?: string,
+  ): Promise<{ request: LlmCompletionRequest; promptVersion: string }> {
+    const historyText = conversationHistory
+      .map((msg) => `${String(msg.role || "unknown")}: ${String(msg.content || "")}`)
+      .join('\n');
+    const latestStudentMessage = conversationHistory
+      .filter((msg) => msg.role === "student")
+      .map((msg) => String(msg.content || "").trim())
+      .filter((content) => content.length > 0)
+      .pop() || "No student response provided.";
+    const recentTutorMessages = conversationHistory
+      .filter((msg) => msg.role === "tutor")
+      .map((msg) => String(msg.content || "").trim())
+      .filter((content) => content.length > 0)
+      .slice(-2)
+      .join("\n---\n");
+
+    const studentMessageCount = conversationHistory.filter(msg => msg.role === 'student').length;
+    const isFinalTurn = studentMessageCount >= TUTOR_STUDENT_TURN_LIMIT;
+
+    const currentLevel = currentEvaluation?.selfAssessedLevel || 'unknown';
+    const skillName = componentSkill.name || 'this skill';
+    const teacherAssessmentDescription =
+      typeof assessmentDescription === "string" && assessmentDescription.trim().length > 0
+        ? assessmentDescription.trim()
+        : "No teacher-provided assessment description available.";
+    const teacherAssessmentPdfContext =
+      typeof assessmentPdfContext === "string" && assessmentPdfContext.trim().length > 0
+        ? assessmentPdfContext.trim()
+        : "No teacher-provided PDF context available.";
+
+    const prompt = await this.prompts.resolve("tutor_response");
+    const request: LlmCompletionRequest = {
+      ...buildPromptRequest(prompt, {
+        skillName,
+        currentLevel,
+        assessmentDescription: teacherAssessmentDescription,
+        assessmentPdfContext: teacherAssessmentPdfContext,
+        finalTurnNote: isFinalTurn
+          ? "NOTE: This is the FINAL turn. You must provide a summarizing statement and conclude the session. Do NOT ask further follow-up questions."
+          : "",
+        rubricLevels: formatTutorRubricLevels(componentSkill),
+        history: historyText,
+        latestStudentMessage,
+        recentTutorMessages: recentTutorMessages || "None",
+      }),
+      json: true,
+      temperature: 0.5,
+      maxTokens: 1000,
+    };
+    return { request, promptVersion: promptVersionLabel(prompt) };
+  }
+
+  private parseTutorResponse(content: string): TutorResponsePayload {
+    const result = JSON.parse(content || "{}") as TutorResponsePayload;
+    const normalizedSuggestedEvaluation = normalizeSuggestedEvaluation(result.suggestedEvaluation);
+    const normalizedSafetyFlag = typeof result.safetyFlag === "string" ? result.safetyFlag : undefined;
+
+    return {
+      response: typeof result.response === "string" && result.response.trim().length > 0
+        ? result.response
+        : "I'm here to help you develop this skill!",
+      suggestedEvaluation: normalizedSuggestedEvaluation,
+      shouldTerminate: result.shouldTerminate || false,
+      safetyFlag: normalizedSafetyFlag
+    };
+  }
 
-      const result = JSON.parse(response.choices[0].message.content || "{}") as TutorResponsePayload;
-      const normalizedSuggestedEvaluation = normalizeSuggestedEvaluation(result.suggestedEvaluation);
-      const normalizedSafetyFlag = typeof result.safetyFlag === "string" ? result.safetyFlag : undefined;
+  private tutorFallbackResponse(error: unknown): TutorResponsePayload {
+    const errorDetails = this.parseErrorDetails(error);
+    console.error("Error generating tutor response:", {
+      message: errorDetails.message,
+      status: errorDetails.status,
+      code: errorDetails.code,
+      type: errorDetails.type,
+      error,
+    });
+    return {
+      response: "I'm here to help you develop this skill! Can you tell me more about what you're working on?",
+      shouldTerminate: false
+    };
+  }
 
-      return {
-        response: typeof result.response === "string" && result.response.trim().length > 0
-          ? result.response
-          : "I'm here to help you develop this skill!",
-        suggestedEvaluation: normalizedSuggestedEvaluation,
-        shouldTerminate: result.shouldTerminate || false,
-        safetyFlag: normalizedSafetyFlag
-      };
-    } catch (error: unknown) {
-      const errorDetails = this.parseErrorDetails(error);
-      console.error("Error generating tutor response:", {
-        message: errorDetails.message,
-        status: errorDetails.status,
-        code: errorDetails.code,
-        type: errorDetails.type,
-        error,
+  /**
+   * Reads a set of tutor conversations about one component skill and returns
+   * the misconceptions students showed, most common first.
+   */
+  async summarizeTutorMisconceptions(
+    componentSkill: TutorComponentSkill,
+    conversations: TutorConversationMessage[][],
+  ): Promise<{ misconceptions: TutorMisconception[]; promptVersion: string }> {
+    try {
+      const prompt = await this.prompts.resolve("tutor_misconceptions");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          skillName: componentSkill.name || "this skill",
+          rubricLevels: formatTutorRubricLevels(componentSkill),
+          sessionCount: conversations.length,
+          conversations: conversations
+            .map((turns, index) =>
+              [`Conversation ${index + 1}:`, ...turns.map((turn) => `${String(turn.role || "unknown")}: ${String(turn.content || "")}`)].join("\n"),
+            )
+            .join("\n\n"),
+        }),
+        json: true,
+        temperature: 0.3,
+        maxTokens: 1200,
       });
-      return {
-        response: "I'm here to help you develop this skill! Can you tell me more about what you're working on?",
-        shouldTerminate: false
-      };
+
+      const result = JSON.parse(response.content || "{}") as { misconceptions?: unknown };
+      return { misconceptions: normalizeMisconceptions(result.misconceptions), promptVersion: promptVersionLabel(prompt) };
+    } catch (error) {
+      console.error("Error summarizing tutor misconceptions:", error);
+      throw new Error("Failed to summarize tutor misconceptions");
     }
   }
 
@@ -618,28 +572,14 @@ If safety concerns are detected:
     rubric: string,
   ): Promise<string> {
     try {
-      if (process.env.NODE_ENV === 'test') {
-        return "This is a simulated AI feedback string that is sufficiently long for the test to pass.";
-      }
-
-      const prompt = `
-        You are an expert teacher grading a student's answer.
-        Question: ${questionText}
-        Student's Answer: ${studentResponse}
-        Rubric Level: ${rubric}
-
-        Please provide constructive, encouraging feedback tailored to the student's answer
-        and the expected rubric level. Limit your feedback to 2-3 sentences.
-      `;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
+      const prompt = await this.prompts.resolve("question_feedback");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, { question: questionText, answer: studentResponse, rubricLevel: rubric }),
         temperature: 0.7,
-        max_tokens: 200,
+        maxTokens: 200,
       });
 
-      const feedback = response.choices[0]?.message?.content?.trim();
+      const feedback = response.content.trim();
       return feedback || "Great effort! Keep practicing to master this concept.";
     } catch (error) {
       console.error("Error generating question feedback:", error);
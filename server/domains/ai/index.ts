@@ -3,4 +3,17 @@ export { aiRouter, AIController } from './ai.controller';
 
 // Export services
 export { aiService, AIService } from './ai.service';
+export type { AiSkillGrade, GeneratedAssessment, GeneratedMilestone } from './openai.service';
 export { fluxImageService, FluxImageService } from './flux.service';
+export { tutorSessionService, TutorSessionService, type ITutorSessionService } from './tutor-sessions.service';
+export {
+  comparePromptVersions,
+  evaluateGradingPrompt,
+  formatPromptComparison,
+  parseGradingEvalCases,
+  type GradingEvalCase,
+  type PromptComparison,
+} from './prompt-evaluation';
+
+// Export storage
+export { tutorStorage, type ITutorStorage } from './tutor.storage';
@@ -0,0 +1,86 @@
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Decodes one string field of a JSON object while the model is still writing
+ * it, passing the text to `onText` piece by piece. Used to show the tutor's
+ * reply before the rest of its JSON (evaluation, safety check) has arrived;
+ * the finished object is still parsed as a whole afterwards.
+ */
+export class JsonStringFieldReader {
+  private buffer = "";
+  private state: "searching" | "reading" | "done" = "searching";
+  private fieldStart: RegExp;
+
+  constructor(
+    field: string,
+    private onText: (text: string) => void,
+  ) {
+    this.fieldStart = new RegExp(`"${field}"\\s*:\\s*"`);
+  }
+
+  push(chunk: string): void {
+    if (this.state === "done") {
+      return;
+    }
+    this.buffer += chunk;
+
+    if (this.state === "searching") {
+      const match = this.fieldStart.exec(this.buffer);
+      if (!match) {
+        return;
+      }
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+      this.state = "reading";
+    }
+    this.readString();
+  }
+
+  // Decodes up to the closing quote, leaving an escape split across chunks in the buffer
+  private readString(): void {
+    let text = "";
+    let index = 0;
+    while (index < this.buffer.length) {
+      const char = this.buffer[index];
+      if (char === '"') {
+        this.state = "done";
+        index += 1;
+        break;
+      }
+      if (char !== "\\") {
+        text += char;
+        index += 1;
+        continue;
+      }
+
+      const escape = this.buffer[index + 1];
+      if (escape === undefined) {
+        break;
+      }
+      if (escape === "u") {
+        const hex = this.buffer.slice(index + 2, index + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+        continue;
+      }
+      text += JSON_ESCAPES[escape] ?? escape;
+      index += 2;
+    }
+
+    this.buffer = this.buffer.slice(index);
+    if (text) {
+      this.onText(text);
+    }
+  }
+}
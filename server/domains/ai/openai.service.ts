@@ -1,4 +1,3 @@
-import OpenAI from "openai";
 import type {
   Project,
   Milestone,
@@ -8,23 +7,24 @@ import type {
   ComponentSkill,
   BestStandard,
 } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({
-  apiKey: process.env.AZURE_GPT41_API_KEY,
-  baseURL:
-    "https://trueaimopenai.openai.azure.com/openai/deployments/gpt-4o",
-  defaultQuery: { "api-version": "2025-01-01-preview" },
-  defaultHeaders: {
-    "api-key": process.env.AZURE_GPT41_API_KEY,
-  },
-});
+import type { LlmProvider } from "../../integrations/llm";
+import { meteredLlmProvider } from "../ai-usage";
+import {
+  buildPromptRequest,
+  promptService,
+  promptVersionLabel,
+  type PromptResolver,
+} from "../prompts";
+import type { SubmissionGradeItemDTO } from "@shared/contracts/api";
+import { formatQuestionResponsesForPrompt } from "./question-response-prompt";
 
 export interface GeneratedMilestone {
   title: string;
   description: string;
   dueDate?: string;
   order: number;
+  // Registry prompt that produced it, e.g. "skill_milestones@v2"
+  promptVersion?: string;
 }
 
 export interface GeneratedAssessment {
@@ -37,6 +37,7 @@ export interface GeneratedAssessment {
     rubricCriteria?: string;
     sampleAnswer?: string;
   }>;
+  promptVersion?: string;
 }
 
 export interface ProjectIdeaCriteria {
@@ -66,11 +67,12 @@ export interface GeneratedProjectIdea {
   competencyAlignment: string[];
 }
 
-interface ComponentSkillGrade {
-  componentSkillId: number;
-  rubricLevel: 'emerging' | 'developing' | 'proficient' | 'applying';
+/** A model-suggested grade, stamped with the prompt version that produced it. */
+export interface AiSkillGrade extends SubmissionGradeItemDTO {
+  rubricLevel: "emerging" | "developing" | "proficient" | "applying";
   score: number;
   feedback: string;
+  promptVersion: string;
 }
 
 type RubricLevelKey = "emerging" | "developing" | "proficient" | "applying";
@@ -89,8 +91,17 @@ type EnrichedComponentSkill = Omit<ComponentSkill, "rubricLevels"> & {
   rubricLevels: RubricLevels | null;
 };
 
+// What skill grading reads from a component skill
+export type GradedComponentSkill = Pick<
+  EnrichedComponentSkill,
+  "id" | "name" | "description" | "competencyName" | "learnerOutcomeName"
+>;
+
 export class OpenAIService {
-  private openai = openai;
+  constructor(
+    private llm: LlmProvider = meteredLlmProvider,
+    private prompts: PromptResolver = promptService,
+  ) {}
 
   async generateProjectIdeas(criteria: {
     subject: string;
@@ -115,73 +126,22 @@ export class OpenAIService {
         .join("\n")
       : "- No B.E.S.T. standards were selected";
 
-    const prompt = `Generate 3 creative and engaging project-based learning ideas based on the following criteria:
-
-Subject: ${criteria.subject}
-Topic/Theme: ${criteria.topic}
-Grade Level: ${criteria.gradeLevel}
-Duration: ${criteria.duration}
-
-Target Component Skills:
-${skillsText}
-
-Target B.E.S.T. Standards:
-${standardsText}
-
-For each project idea, provide:
-1. Title - An engaging and descriptive project title
-2. Overview - A brief 1-2 sentence summary
-3. Description - A detailed description of the project (2-3 paragraphs)
-4. Suggested Milestones - 3-5 key milestones with titles, descriptions, and estimated durations
-5. Assessment Suggestions - 2-3 different types of assessments that would work well
-6. Required Resources - List of materials, tools, or resources needed
-7. Learning Outcomes - Specific skills and knowledge students will gain
-8. Competency Alignment - How this project develops the selected component skills
-
-Make the projects authentic, relevant to students' lives, and designed to develop both subject knowledge and the specified component skills. If B.E.S.T. standards are provided, ensure milestones and outcomes clearly align to those benchmarks. Ensure they are appropriate for the specified grade level and can realistically be completed in the given timeframe.
-
-Return the response as a JSON array of project objects with the following structure:
-{
-  "title": "string",
-  "overview": "string", 
-  "description": "string",
-  "suggestedMilestones": [
-    {
-      "title": "string",
-      "description": "string", 
-      "estimatedDuration": "string"
-    }
-  ],
-  "assessmentSuggestions": [
-    {
-      "type": "string",
-      "description": "string"
-    }
-  ],
-  "requiredResources": ["string"],
-  "learningOutcomes": ["string"],
-  "competencyAlignment": ["string"]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in project-based learning and curriculum design. Generate creative, engaging, and pedagogically sound project ideas that align with modern educational standards and XQ competency framework practices.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("project_ideas");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          subject: criteria.subject,
+          topic: criteria.topic,
+          gradeLevel: criteria.gradeLevel,
+          duration: criteria.duration,
+          componentSkills: skillsText,
+          standards: standardsText,
+        }),
         temperature: 0.8,
-        response_format: { type: "json_object" },
+        json: true,
       });
 
-      let content = response.choices[0].message.content || "[]";
+      let content = response.content || "[]";
 
       // Clean up any markdown formatting
       let cleanContent = content.trim();
@@ -215,56 +175,21 @@ Return the response as a JSON array of project objects with the following struct
   }
 
   async generateMilestones(project: Project): Promise<GeneratedMilestone[]> {
-    const prompt = `Generate 4-6 meaningful project milestones for the following project:
-
-Title: ${project.title}
-Description: ${project.description}
-Grade Level: ${project.gradeLevel}
-Duration: ${project.estimatedDuration}
-
-Create milestones that:
-1. Break the project into logical phases
-2. Build upon each other progressively
-3. Are appropriate for the grade level and duration
-4. Include clear deliverables and checkpoints
-5. Are spaced appropriately throughout the project timeline
-
-For each milestone, provide:
-- Title: A clear, engaging milestone title
-- Description: 2-3 sentences explaining what students will accomplish
-- DueDate: When this milestone should be completed (relative to project start)
-- Order: The sequence number (1, 2, 3, etc.)
-
-Return as JSON array with this structure:
-[
-  {
-    "title": "string",
-    "description": "string",
-    "dueDate": "YYYY-MM-DD or relative date like '2 weeks'",
-    "order": 1
-  }
-]`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in project-based learning and milestone planning. Create well-structured, achievable milestones that guide student progress.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("project_milestones");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          title: project.title,
+          description: project.description ?? "",
+          gradeLevel: project.gradeLevel ?? "",
+          duration: project.estimatedDuration ?? "",
+        }),
         temperature: 0.7,
-        response_format: { type: "json_object" },
+        json: true,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      return result.milestones || [];
+      const result = JSON.parse(response.content || "{}");
+      return this.stampMilestones(result.milestones, promptVersionLabel(prompt));
     } catch (error) {
       console.error("Error generating milestones:", error);
       throw new Error("Failed to generate milestones");
@@ -284,60 +209,21 @@ Return as JSON array with this structure:
       )
       .join("\n");
 
-    const prompt = `Generate 3-5 meaningful project milestones that will develop the specified component skills:
-
-Project Title: ${projectTitle}
-Project Description: ${projectDescription}
-Project Due Date: ${projectDueDate}
-
-Target Component Skills:
-${skillsText}
-
-Create milestones that:
-1. Systematically develop each component skill
-2. Build progressively toward the final project goal
-3. Include authentic assessments and deliverables
-4. Are spaced appropriately throughout the project timeline
-5. Connect learning to real-world applications
-
-For each milestone, provide:
-- Title: A clear, engaging milestone title that reflects the skill focus
-- Description: 2-3 sentences explaining what students will accomplish and how it develops the targeted skills
-- DueDate: When this milestone should be completed (as a date string)
-- Order: The sequence number (1, 2, 3, etc.)
-
-Return as JSON with this structure:
-{
-  "milestones": [
-    {
-      "title": "string",
-      "description": "string",
-      "dueDate": "YYYY-MM-DD",
-      "order": 1
-    }
-  ]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in competency-based education and project milestone design. Create milestones that systematically develop component skills through authentic project work.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("skill_milestones");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          projectTitle,
+          projectDescription,
+          projectDueDate,
+          componentSkills: skillsText,
+        }),
         temperature: 0.7,
-        response_format: { type: "json_object" },
+        json: true,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      return result.milestones || [];
+      const result = JSON.parse(response.content || "{}");
+      return this.stampMilestones(result.milestones, promptVersionLabel(prompt));
     } catch (error) {
       console.error(
         "Error generating milestones from component skills:",
@@ -348,65 +234,19 @@ Return as JSON with this structure:
   }
 
   async generateAssessment(milestone: Milestone): Promise<GeneratedAssessment> {
-    const prompt = `Generate a comprehensive assessment for the following project milestone:
-
-Milestone Title: ${milestone.title}
-Milestone Description: ${milestone.description}
-Due Date: ${milestone.dueDate}
-
-Create an assessment that:
-1. Evaluates student understanding and skill development
-2. Includes a variety of question types
-3. Is appropriate for the milestone's learning objectives
-4. Provides opportunities for students to demonstrate mastery
-5. Includes clear rubric criteria for each question
-
-Generate 5-8 assessment questions with a mix of:
-- Open-ended questions for deep thinking
-- Short-answer questions for specific knowledge
-- Multiple-choice questions for foundational understanding
-
-For each question, provide:
-- ID: A unique identifier
-- Text: The question text
-- Type: 'open-ended', 'multiple-choice', or 'short-answer'
-- RubricCriteria: How to evaluate the response
-- SampleAnswer: An example of a good response
-
-Return as JSON with this structure:
-{
-  "title": "Assessment Title",
-  "description": "Brief description of what this assessment evaluates",
-  "questions": [
-    {
-      "id": "q1",
-      "text": "Question text here",
-      "type": "open-ended",
-      "rubricCriteria": "Evaluation criteria",
-      "sampleAnswer": "Example answer"
-    }
-  ]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in educational assessment design. Create fair, comprehensive assessments that accurately measure student learning and skill development.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("milestone_assessment");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          title: milestone.title,
+          description: milestone.description ?? "",
+          dueDate: String(milestone.dueDate),
+        }),
         temperature: 0.7,
-        response_format: { type: "json_object" },
+        json: true,
       });
 
-      return JSON.parse(response.choices[0].message.content || "{}");
+      return { ...JSON.parse(response.content || "{}"), promptVersion: promptVersionLabel(prompt) };
     } catch (error) {
       console.error("Error generating assessment:", error);
       throw new Error("Failed to generate assessment");
@@ -457,72 +297,25 @@ Rubric Levels:
       ? `\n\nREFERENCE DOCUMENT (PDF) CONTENT:\nThe teacher has provided the following reading material/document that students have been working with. Questions MUST be based on or reference this material where appropriate:\n\n${pdfContent}\n`
       : '';
 
-    const prompt = `Generate a comprehensive competency-based assessment for the following milestone:
-
-Milestone Title: ${milestoneTitle}
-Milestone Description: ${milestoneDescription}
-Due Date: ${milestoneDueDate}
-${pdfSection}
-TARGET COMPONENT SKILLS TO ASSESS:
-${detailedSkillsText}
-
-RELATED B.E.S.T. STANDARDS:
-${bestStandardsText}
-
-ASSESSMENT REQUIREMENTS:
-1. Create EXACTLY ${questionCount} questions total
-2. Use these question types and counts: ${typeInstructions}
-3. Questions should collectively assess the component skills listed above
-4. Use authentic, performance-based scenarios relevant to real-world application
-5. Rubric criteria must directly reference the skill's rubric levels (Emerging → Developing → Proficient → Applying)
-6. Questions should enable students to demonstrate mastery through varied approaches
-7. Each question should specify which component skill(s) it primarily assesses
-8. Ensure questions align to the listed B.E.S.T. standards where relevant and cite alignment in rubric criteria when possible
-
-QUESTION DESIGN PRINCIPLES:
-- Open-ended questions: Complex scenarios requiring skill application and analysis
-- Short-answer questions: Focused demonstration of specific skill competency
-- Multiple-choice questions: Assessment of foundational skill understanding with 4 answer choices
-
-Return as JSON with this exact structure:
-{
-  "title": "${milestoneTitle} - Component Skills Assessment",
-  "description": "This assessment systematically evaluates selected component skills through authentic performance tasks aligned to the XQ competency framework.",
-  "questions": [
-    {
-      "id": "q1",
-      "text": "Specific question text here",
-      "type": "open-ended",
-      "rubricCriteria": "Evaluation criteria explicitly referencing Emerging/Developing/Proficient/Applying levels",
-      "sampleAnswer": "Example response demonstrating Proficient level competency",
-      "componentSkillFocus": ["Component Skill Name"],
-      "choices": null
-    }
-  ]
-}
-
-For multiple-choice questions, include a "choices" array with 4 options and specify the correct answer in "sampleAnswer".`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert in competency-based assessment and XQ framework implementation. Create assessments that authentically measure component skill development and mastery.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("skill_assessment");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          milestoneTitle,
+          milestoneDescription,
+          milestoneDueDate,
+          referenceDocument: pdfSection,
+          componentSkills: detailedSkillsText,
+          standards: bestStandardsText,
+          questionCount,
+          questionTypes: typeInstructions,
+        }),
         temperature: 0.7,
-        response_format: { type: "json_object" },
+        json: true,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      return result;
+      const result = JSON.parse(response.content || "{}");
+      return { ...result, promptVersion: promptVersionLabel(prompt) };
     } catch (error) {
       console.error(
         "Error generating assessment from component skills:",
@@ -544,45 +337,17 @@ For multiple-choice questions, include a "choices" array with 4 options and spec
         )
         .join("\n");
 
-      const prompt = `
-You are an expert educator providing personalized feedback to a student. 
-Based on the submission and grades, provide constructive, encouraging feedback that:
-
-1. Acknowledges strengths and achievements
-2. Identifies specific areas for improvement
-3. Provides actionable next steps
-4. Maintains a positive, growth-oriented tone
-5. Connects to the learning objectives
-
-Student Responses: ${JSON.stringify(submission.responses)}
-Grades Summary:
-${gradesSummary}
-
-Provide feedback that is:
-- Specific and detailed
-- Constructive and encouraging  
-- Focused on learning growth
-- Approximately 100-200 words
-`;
-
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert educator providing personalized, constructive feedback to students.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+      const prompt = await this.prompts.resolve("student_feedback");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          responses: JSON.stringify(submission.responses),
+          grades: gradesSummary,
+        }),
         temperature: 0.7,
       });
 
       return (
-        response.choices[0].message.content ||
+        response.content ||
         "Great work! Keep up the excellent effort."
       );
     } catch (error) {
@@ -592,18 +357,11 @@ Provide feedback that is:
   }
 
   async generateComponentSkillGrades(
-    submission: Submission,
+    submission: Pick<Submission, "responses">,
     assessment: any,
-    componentSkills: EnrichedComponentSkill[],
+    componentSkills: GradedComponentSkill[],
     pdfContent?: string,
-  ): Promise<
-    Array<{
-      componentSkillId: number;
-      rubricLevel: "emerging" | "developing" | "proficient" | "applying";
-      feedback: string;
-      score: number;
-    }>
-  > {
+  ): Promise<AiSkillGrade[]> {
     try {
       // Map rubric levels to scores for consistency
       const rubricLevelScores = {
@@ -613,60 +371,29 @@ Provide feedback that is:
         applying: 4,
       };
 
+      const prompt = await this.prompts.resolve("component_skill_grade");
+      const questionResponses = formatQuestionResponsesForPrompt(assessment.questions, submission.responses);
+      const referenceDocument = pdfContent
+        ? `\nREFERENCE DOCUMENT (PDF) CONTENT:\nThe assessment was based on the following reading material. Use this to evaluate accuracy and relevance of the student's responses:\n\n${pdfContent}\n`
+        : "";
+
       const skillGrades = await Promise.all(
         componentSkills.map(async (skill) => {
-          const prompt = `
-You are an expert educator evaluating a student's component skill development. Analyze the student's submission to determine their current level for this specific component skill.
-
-Component Skill: ${skill.name}
-Skill Description: ${skill.description}
-Competency Area: ${skill.competencyName}
-Learning Outcome: ${skill.learnerOutcomeName}
-
-Student Submission Responses: ${JSON.stringify(submission.responses)}
-Assessment Questions: ${JSON.stringify(assessment.questions)}
-${pdfContent ? `\nREFERENCE DOCUMENT (PDF) CONTENT:\nThe assessment was based on the following reading material. Use this to evaluate accuracy and relevance of the student's responses:\n\n${pdfContent}\n` : ''}
-Evaluate the student's performance on this component skill using the XQ Framework rubric levels:
-
-1. EMERGING (Score 1): Student shows initial awareness and attempts at the skill but needs significant support and guidance. Work demonstrates basic understanding but limited application.
-
-2. DEVELOPING (Score 2): Student demonstrates growing competence with the skill. Can apply it with some support and guidance. Shows understanding of core concepts but application may be inconsistent.
-
-3. PROFICIENT (Score 3): Student demonstrates solid competence with the skill. Can apply it independently in familiar contexts. Shows clear understanding and consistent application.
-
-4. APPLYING (Score 4): Student demonstrates advanced competence with the skill. Can apply it independently in new and complex contexts. Shows deep understanding and can transfer the skill to novel situations.
-
-Based on the student's responses, determine:
-1. The appropriate rubric level (emerging, developing, proficient, or applying)
-2. Specific evidence from their responses that supports this level
-3. Constructive feedback for continued growth in this skill
-
-Respond in JSON format:
-{
-  "rubricLevel": "emerging|developing|proficient|applying",
-  "feedback": "Specific feedback about their skill demonstration and growth areas",
-  "score": 1|2|3|4
-}`;
-
-          const response = await this.openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are an expert in competency-based assessment and the XQ Framework. Provide accurate, fair evaluations of student component skill development.",
-              },
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            response_format: { type: "json_object" },
+          const response = await this.llm.complete({
+            ...buildPromptRequest(prompt, {
+              skillName: skill.name,
+              skillDescription: skill.description ?? "",
+              competencyName: skill.competencyName ?? "",
+              learnerOutcomeName: skill.learnerOutcomeName ?? "",
+              questionResponses,
+              referenceDocument,
+            }),
+            json: true,
             temperature: 0.3,
           });
 
           const result = JSON.parse(
-            response.choices[0].message.content || "{}",
+            response.content || "{}",
           );
           const rubricLevel = (result.rubricLevel as RubricLevelKey) || "emerging";
 
@@ -675,6 +402,7 @@ Respond in JSON format:
             rubricLevel,
             feedback: result.feedback || "",
             score: rubricLevelScores[rubricLevel] || 1,
+            promptVersion: promptVersionLabel(prompt),
           };
         }),
       );
@@ -698,59 +426,20 @@ Respond in JSON format:
         ? `\n\nREFERENCE DOCUMENT (PDF) CONTENT:\nThe assessment was based on the following reading material. Use this to evaluate the accuracy and relevance of the student's answer:\n\n${pdfContent}\n`
         : '';
 
-      const prompt = `
-You are an expert educator grading a student's response to a specific question. Analyze the quality, accuracy, and depth of the student's answer.
-
-QUESTION: ${questionText}
-
-STUDENT ANSWER: ${studentAnswer}
-
-RUBRIC CRITERIA: ${rubricCriteria || "Evaluate based on accuracy, completeness, and understanding demonstrated"}
-
-SAMPLE/IDEAL ANSWER: ${sampleAnswer || "Not provided"}
-${pdfSection}
-
-Grade this response on a scale of 0-100 based on:
-1. Accuracy and correctness of information
-2. Completeness of the response
-3. Depth of understanding demonstrated
-4. Clarity and organization of thoughts
-5. Use of relevant examples or evidence
-6. Alignment with rubric criteria
-
-Consider:
-- A score of 90-100: Exceptional understanding, complete and accurate
-- A score of 80-89: Strong understanding, mostly complete and accurate
-- A score of 70-79: Good understanding, adequate response with minor gaps
-- A score of 60-69: Basic understanding, partially complete or some inaccuracies
-- A score of 50-59: Limited understanding, significant gaps or errors
-- A score of 0-49: Poor understanding, incorrect or insufficient response
-
-Respond with JSON in this format:
-{
-  "score": 85,
-  "rationale": "Brief explanation of the grade (1-2 sentences)"
-}
-`;
-
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert educator with extensive experience in assessment and grading. Provide fair, consistent, and educationally sound grades.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        response_format: { type: "json_object" },
+      const prompt = await this.prompts.resolve("question_grade");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          question: questionText,
+          answer: studentAnswer,
+          rubricCriteria: rubricCriteria || "Evaluate based on accuracy, completeness, and understanding demonstrated",
+          sampleAnswer: sampleAnswer || "Not provided",
+          referenceDocument: pdfSection,
+        }),
+        json: true,
         temperature: 0.3, // Lower temperature for more consistent grading
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.content || "{}");
 
       // Validate the response
       const score =
@@ -782,52 +471,18 @@ Respond with JSON in this format:
         )
         .join("\n");
 
-      const prompt = `
-Based on this student's performance, suggest appropriate micro-credentials they have earned:
-
-Project: ${projectTitle}
-Student Performance:
-${gradesSummary}
-
-Responses: ${JSON.stringify(submission.responses)}
-
-Suggest 1-3 micro-credentials this student has demonstrated based on their work. Only suggest credentials for skills where they show proficient or applying level performance.
-
-For each credential, provide:
-- Type: Choose from 'badge', 'certificate', 'sticker', 'medal'
-- Title: A specific, meaningful credential name
-- Description: What achievement this recognizes (1-2 sentences)
-
-Return as JSON:
-{
-  "credentials": [
-    {
-      "type": "sticker",
-      "title": "Credential title",
-      "description": "Brief description of what this recognizes"
-    }
-  ]
-}
-`;
-
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert educator designing meaningful micro-credentials for student achievements.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        response_format: { type: "json_object" },
+      const prompt = await this.prompts.resolve("credential_suggestions");
+      const response = await this.llm.complete({
+        ...buildPromptRequest(prompt, {
+          projectTitle,
+          grades: gradesSummary,
+          responses: JSON.stringify(submission.responses),
+        }),
+        json: true,
         temperature: 0.7,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.content || "{}");
       return result.credentials || [];
     } catch (error) {
       console.error("Error suggesting credentials:", error);
@@ -835,6 +490,10 @@ Return as JSON:
     }
   }
 
+  private stampMilestones(milestones: GeneratedMilestone[] | undefined, promptVersion: string): GeneratedMilestone[] {
+    return (milestones || []).map((milestone) => ({ ...milestone, promptVersion }));
+  }
+
   /**
    * Calculate distribution of question types based on preferences
    */
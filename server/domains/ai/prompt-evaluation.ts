@@ -0,0 +1,193 @@
+import type { LlmProvider } from "../../integrations/llm";
+import { pinnedPromptResolver, promptVersionLabel, type ResolvedPrompt } from "../prompts";
+import { OpenAIService, type GradedComponentSkill } from "./openai.service";
+
+export const EVAL_RUBRIC_LEVELS = ["emerging", "developing", "proficient", "applying"] as const;
+export type EvalRubricLevel = typeof EVAL_RUBRIC_LEVELS[number];
+
+/** A graded submission from the fixture set: what the student wrote and the level their teacher gave. */
+export interface GradingEvalCase {
+  id: string;
+  componentSkill: GradedComponentSkill;
+  questions: unknown[];
+  responses: unknown;
+  pdfContent?: string;
+  teacherLevel: EvalRubricLevel;
+}
+
+export interface GradingEvalResult {
+  caseId: string;
+  teacherLevel: EvalRubricLevel;
+  // Null when the model call failed or returned no usable level
+  aiLevel: EvalRubricLevel | null;
+}
+
+export interface PromptAgreement {
+  promptVersion: string;
+  cases: number;
+  graded: number;
+  // Shares of graded cases, 0-1
+  exactAgreement: number;
+  adjacentAgreement: number;
+  // Quadratic-weighted Cohen's kappa; null when it is undefined for the set
+  weightedKappa: number | null;
+  results: GradingEvalResult[];
+}
+
+export interface PromptComparison {
+  a: PromptAgreement;
+  b: PromptAgreement;
+  changedCases: Array<{ caseId: string; teacherLevel: EvalRubricLevel; a: EvalRubricLevel | null; b: EvalRubricLevel | null }>;
+}
+
+const levelIndex = (level: EvalRubricLevel) => EVAL_RUBRIC_LEVELS.indexOf(level);
+
+function isRubricLevel(value: unknown): value is EvalRubricLevel {
+  return typeof value === "string" && (EVAL_RUBRIC_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Agreement between two raters on the four ordered rubric levels, where a
+ * one-level miss costs far less than a three-level one.
+ */
+export function quadraticWeightedKappa(pairs: Array<[EvalRubricLevel, EvalRubricLevel]>): number | null {
+  const size = EVAL_RUBRIC_LEVELS.length;
+  if (pairs.length === 0) {
+    return null;
+  }
+
+  const observed = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const rowTotals = new Array<number>(size).fill(0);
+  const columnTotals = new Array<number>(size).fill(0);
+  for (const [teacher, ai] of pairs) {
+    observed[levelIndex(teacher)][levelIndex(ai)] += 1;
+    rowTotals[levelIndex(teacher)] += 1;
+    columnTotals[levelIndex(ai)] += 1;
+  }
+
+  let observedDisagreement = 0;
+  let expectedDisagreement = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const weight = ((i - j) * (i - j)) / ((size - 1) * (size - 1));
+      observedDisagreement += weight * observed[i][j];
+      expectedDisagreement += (weight * rowTotals[i] * columnTotals[j]) / pairs.length;
+    }
+  }
+  return expectedDisagreement === 0 ? null : 1 - observedDisagreement / expectedDisagreement;
+}
+
+export function summarizeAgreement(promptVersion: string, results: GradingEvalResult[]): PromptAgreement {
+  const pairs = results
+    .filter((result): result is GradingEvalResult & { aiLevel: EvalRubricLevel } => result.aiLevel !== null)
+    .map((result): [EvalRubricLevel, EvalRubricLevel] => [result.teacherLevel, result.aiLevel]);
+  const share = (count: number) => (pairs.length === 0 ? 0 : count / pairs.length);
+
+  return {
+    promptVersion,
+    cases: results.length,
+    graded: pairs.length,
+    exactAgreement: share(pairs.filter(([teacher, ai]) => teacher === ai).length),
+    adjacentAgreement: share(pairs.filter(([teacher, ai]) => Math.abs(levelIndex(teacher) - levelIndex(ai)) <= 1).length),
+    weightedKappa: quadraticWeightedKappa(pairs),
+    results,
+  };
+}
+
+/** Grades every case with the given version of the component skill grading prompt. */
+export async function evaluateGradingPrompt(
+  cases: GradingEvalCase[],
+  prompt: ResolvedPrompt,
+  llm: LlmProvider,
+): Promise<PromptAgreement> {
+  const grader = new OpenAIService(llm, pinnedPromptResolver({ component_skill_grade: prompt }));
+  const results: GradingEvalResult[] = [];
+
+  // One case at a time keeps provider rate limits out of the comparison
+  for (const evalCase of cases) {
+    let aiLevel: EvalRubricLevel | null = null;
+    try {
+      const [grade] = await grader.generateComponentSkillGrades(
+        { responses: evalCase.responses },
+        { questions: evalCase.questions },
+        [evalCase.componentSkill],
+        evalCase.pdfContent,
+      );
+      aiLevel = isRubricLevel(grade?.rubricLevel) ? grade.rubricLevel : null;
+    } catch (error) {
+      console.error(`Error grading evaluation case ${evalCase.id}:`, error);
+    }
+    results.push({ caseId: evalCase.id, teacherLevel: evalCase.teacherLevel, aiLevel });
+  }
+
+  return summarizeAgreement(promptVersionLabel(prompt), results);
+}
+
+export async function comparePromptVersions(
+  cases: GradingEvalCase[],
+  a: ResolvedPrompt,
+  b: ResolvedPrompt,
+  llm: LlmProvider,
+): Promise<PromptComparison> {
+  const agreementA = await evaluateGradingPrompt(cases, a, llm);
+  const agreementB = await evaluateGradingPrompt(cases, b, llm);
+
+  const changedCases = agreementA.results
+    .map((resultA, index) => ({ resultA, resultB: agreementB.results[index] }))
+    .filter(({ resultA, resultB }) => resultA.aiLevel !== resultB.aiLevel)
+    .map(({ resultA, resultB }) => ({
+      caseId: resultA.caseId,
+      teacherLevel: resultA.teacherLevel,
+      a: resultA.aiLevel,
+      b: resultB.aiLevel,
+    }));
+
+  return { a: agreementA, b: agreementB, changedCases };
+}
+
+/** Checks a parsed fixture file, naming the first malformed case. */
+export function parseGradingEvalCases(value: unknown): GradingEvalCase[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Evaluation cases must be a JSON array");
+  }
+  return value.map((item, index) => {
+    const record = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>;
+    const skill = record.componentSkill as Record<string, unknown> | undefined;
+    if (
+      typeof record.id !== "string" ||
+      !Array.isArray(record.questions) ||
+      !isRubricLevel(record.teacherLevel) ||
+      typeof skill?.id !== "number" ||
+      typeof skill.name !== "string"
+    ) {
+      throw new Error(`Evaluation case ${index + 1} needs an id, questions, teacherLevel and componentSkill { id, name }`);
+    }
+    return record as unknown as GradingEvalCase;
+  });
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+export function formatPromptComparison(comparison: PromptComparison): string {
+  const row = (agreement: PromptAgreement) =>
+    [
+      agreement.promptVersion.padEnd(32),
+      `${agreement.graded}/${agreement.cases}`.padEnd(8),
+      percent(agreement.exactAgreement).padEnd(8),
+      percent(agreement.adjacentAgreement).padEnd(10),
+      agreement.weightedKappa === null ? "n/a" : agreement.weightedKappa.toFixed(3),
+    ].join(" ");
+
+  const lines = [
+    `${"Prompt".padEnd(32)} ${"Graded".padEnd(8)} ${"Exact".padEnd(8)} ${"Within 1".padEnd(10)} Kappa`,
+    row(comparison.a),
+    row(comparison.b),
+  ];
+  if (comparison.changedCases.length > 0) {
+    lines.push("", "Cases graded differently (teacher: A -> B):");
+    for (const change of comparison.changedCases) {
+      lines.push(`  ${change.caseId} (${change.teacherLevel}): ${change.a ?? "failed"} -> ${change.b ?? "failed"}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,120 @@
+import {
+  formatAnswerForDisplay,
+  isNumericAnswerWithinTolerance,
+  parseMatchingAnswer,
+  parseMatchingPairs,
+  parseRankingAnswer,
+} from "@shared/question-types";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function getAnswer(responses: unknown, questionId: string, index: number): string {
+  if (Array.isArray(responses)) {
+    const match = responses.find((response) =>
+      isRecord(response) && String(response.questionId) === questionId,
+    );
+    if (isRecord(match) && typeof match.answer === "string") {
+      return match.answer;
+    }
+    const positional = responses[index];
+    return typeof positional === "string" ? positional : "";
+  }
+
+  if (isRecord(responses)) {
+    const answer = responses[questionId];
+    return typeof answer === "string" ? answer : "";
+  }
+
+  return "";
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function describeAnswerKey(question: Record<string, unknown>, answer: string): string[] {
+  switch (question.type) {
+    case "multiple-choice":
+      return typeof question.correctAnswer === "string" && question.correctAnswer
+        ? [`Correct answer: ${question.correctAnswer}`]
+        : [];
+    case "numeric": {
+      if (question.correctAnswer === undefined || question.correctAnswer === "") {
+        return [];
+      }
+      const tolerance = typeof question.tolerance === "number" ? question.tolerance : 0;
+      const withinTolerance = isNumericAnswerWithinTolerance(answer, question.correctAnswer, tolerance);
+      return [
+        `Expected value: ${question.correctAnswer}${tolerance > 0 ? ` (accepted within ±${tolerance})` : ""}`,
+        `Check: ${withinTolerance === null ? "student answer is not a number" : withinTolerance ? "within tolerance" : "outside tolerance"}`,
+      ];
+    }
+    case "ranking": {
+      const correctOrder = getStringList(question.options);
+      if (correctOrder.length === 0) {
+        return [];
+      }
+      const studentOrder = parseRankingAnswer(answer) ?? [];
+      const inPlace = correctOrder.filter((item, index) => studentOrder[index] === item).length;
+      return [
+        `Correct order: ${correctOrder.map((item, index) => `${index + 1}. ${item}`).join("; ")}`,
+        `Check: ${inPlace} of ${correctOrder.length} items in the correct position`,
+      ];
+    }
+    case "matching": {
+      const pairs = parseMatchingPairs(question.pairs);
+      if (pairs.length === 0) {
+        return [];
+      }
+      const studentMatches = parseMatchingAnswer(answer) ?? {};
+      const correctMatches = pairs.filter((pair) => studentMatches[pair.left] === pair.right).length;
+      return [
+        `Correct pairs: ${pairs.map((pair) => `${pair.left} → ${pair.right}`).join("; ")}`,
+        `Check: ${correctMatches} of ${pairs.length} pairs matched correctly`,
+      ];
+    }
+    case "file-upload":
+      return [
+        "Note: the uploaded file's contents are not included. Judge it only against the rubric criteria and the evidence in other responses, and say in your feedback that the teacher should review the file.",
+      ];
+    default:
+      return typeof question.sampleAnswer === "string" && question.sampleAnswer
+        ? [`Sample answer: ${question.sampleAnswer}`]
+        : [];
+  }
+}
+
+/**
+ * Renders questions and the student's answers as readable text for grading
+ * prompts, decoding structured answers and pre-computing objective checks so
+ * the model doesn't have to parse JSON or compare numbers itself.
+ */
+export function formatQuestionResponsesForPrompt(questions: unknown, responses: unknown): string {
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return `Student Responses: ${JSON.stringify(responses)}`;
+  }
+
+  return questions
+    .map((question, index) => {
+      if (!isRecord(question)) {
+        return "";
+      }
+      const questionId = question.id !== undefined ? String(question.id) : String(index);
+      const type = typeof question.type === "string" ? question.type : "open-ended";
+      const answer = getAnswer(responses, questionId, index);
+
+      const lines = [
+        `Question ${index + 1} (${type}): ${typeof question.text === "string" ? question.text : ""}`,
+        ...(typeof question.rubricCriteria === "string" && question.rubricCriteria
+          ? [`Rubric criteria: ${question.rubricCriteria}`]
+          : []),
+        `Student answer: ${formatAnswerForDisplay(type, answer) || "(no answer)"}`,
+        ...describeAnswerKey(question, answer),
+      ];
+      return lines.join("\n");
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,160 @@
+import { aiService, type AIService } from "./ai.service";
+import {
+  tutorStorage,
+  type ITutorStorage,
+  type TutorSessionListRecord,
+  type TutorSessionViewer,
+} from "./tutor.storage";
+import type {
+  TutorSessionDetailDTO,
+  TutorSessionSummaryDTO,
+  TutorSkillMisconceptionsDTO,
+  TutorTurnDTO,
+} from "../../../shared/contracts/api";
+import type { TutorMisconceptionSummary, TutorTurn } from "../../../shared/schema";
+import { NotFoundError } from "../../utils/errorTypes";
+
+const MAX_LISTED_SESSIONS = 200;
+const MAX_SEARCH_LENGTH = 100;
+// Keeps a misconceptions prompt to a few tens of thousands of tokens
+const MAX_SUMMARIZED_SESSIONS = 20;
+const MAX_SUMMARIZED_TURN_LENGTH = 600;
+
+type MisconceptionSummarizer = Pick<AIService, "summarizeTutorMisconceptions">;
+
+export interface ITutorSessionService {
+  // Only sessions of students the viewer can see, even on an assessment they can access
+  listSessions(assessmentId: number, viewer: TutorSessionViewer, search?: string): Promise<TutorSessionSummaryDTO[]>;
+  getSession(assessmentId: number, sessionId: number, viewer: TutorSessionViewer): Promise<TutorSessionDetailDTO>;
+  getMisconceptions(assessmentId: number): Promise<TutorSkillMisconceptionsDTO[]>;
+  refreshMisconceptions(assessmentId: number): Promise<TutorSkillMisconceptionsDTO[]>;
+}
+
+function toSessionSummaryDTO(record: TutorSessionListRecord): TutorSessionSummaryDTO {
+  const fullName = [record.studentFirstName, record.studentLastName].filter(Boolean).join(" ");
+  return {
+    id: record.id,
+    studentId: record.studentId,
+    studentName: fullName || record.studentUsername,
+    componentSkillId: record.componentSkillId,
+    componentSkillName: record.componentSkillName,
+    studentTurnCount: record.studentTurnCount,
+    safetyFlag: record.latestSafetyFlag,
+    finalSummary: record.finalSummary,
+    completedAt: record.completedAt,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+function toTurnDTO(turn: TutorTurn): TutorTurnDTO {
+  return {
+    id: turn.id,
+    role: turn.role,
+    content: turn.content,
+    suggestedLevel: turn.suggestedLevel,
+    safetyFlag: turn.safetyFlag,
+    createdAt: turn.createdAt,
+  };
+}
+
+function truncateTurn(content: string): string {
+  return content.length > MAX_SUMMARIZED_TURN_LENGTH ? `${content.slice(0, MAX_SUMMARIZED_TURN_LENGTH)}…` : content;
+}
+
+/**
+ * What teachers see of their students' AI tutor conversations: the sessions
+ * on an assessment, each transcript, and AI summaries of the misconceptions
+ * that came up for each component skill.
+ */
+export class TutorSessionService implements ITutorSessionService {
+  constructor(
+    private storage: ITutorStorage = tutorStorage,
+    private summarizer: MisconceptionSummarizer = aiService,
+  ) {}
+
+  async listSessions(assessmentId: number, viewer: TutorSessionViewer, search?: string): Promise<TutorSessionSummaryDTO[]> {
+    const term = search?.trim().slice(0, MAX_SEARCH_LENGTH) || undefined;
+    const studentIds = await this.storage.getVisibleStudentIds(viewer);
+    const records = await this.storage.listSessionsByAssessment(assessmentId, studentIds, term, MAX_LISTED_SESSIONS);
+    return records.map(toSessionSummaryDTO);
+  }
+
+  async getSession(assessmentId: number, sessionId: number, viewer: TutorSessionViewer): Promise<TutorSessionDetailDTO> {
+    const record = await this.storage.getSessionRecord(sessionId);
+    const studentIds = record ? await this.storage.getVisibleStudentIds(viewer) : [];
+    if (!record || record.assessmentId !== assessmentId || !studentIds.includes(record.studentId)) {
+      throw new NotFoundError("Tutor session", sessionId);
+    }
+    const turns = await this.storage.getTurns(sessionId);
+    return { ...toSessionSummaryDTO(record), turns: turns.map(toTurnDTO) };
+  }
+
+  async getMisconceptions(assessmentId: number): Promise<TutorSkillMisconceptionsDTO[]> {
+    const [skills, summaries] = await Promise.all([
+      this.storage.getSessionSkills(assessmentId),
+      this.storage.getMisconceptionSummaries(assessmentId),
+    ]);
+    const summariesBySkill = new Map(summaries.map((summary) => [summary.componentSkillId, summary]));
+
+    return skills.map((skill) => ({
+      componentSkillId: skill.id,
+      componentSkillName: skill.name,
+      sessionCount: skill.sessionCount,
+      summary: this.toSummary(summariesBySkill.get(skill.id)),
+    }));
+  }
+
+  // One model call per skill, in turn, so a large assessment doesn't burst the provider
+  async refreshMisconceptions(assessmentId: number): Promise<TutorSkillMisconceptionsDTO[]> {
+    const skills = await this.storage.getSessionSkills(assessmentId);
+    const refreshed: TutorSkillMisconceptionsDTO[] = [];
+
+    for (const skill of skills) {
+      const conversations = await this.storage.getSkillConversations(assessmentId, skill.id, MAX_SUMMARIZED_SESSIONS);
+      if (conversations.length === 0) {
+        continue;
+      }
+      const rubric = (skill.rubricLevels ?? {}) as Record<string, string | undefined>;
+      const { misconceptions, promptVersion } = await this.summarizer.summarizeTutorMisconceptions(
+        {
+          id: skill.id,
+          name: skill.name,
+          emerging: rubric.emerging,
+          developing: rubric.developing,
+          proficient: rubric.proficient,
+          applying: rubric.applying,
+        },
+        conversations.map((turns) => turns.map((turn) => ({ role: turn.role, content: truncateTurn(turn.content) }))),
+      );
+      const saved = await this.storage.saveMisconceptionSummary({
+        assessmentId,
+        componentSkillId: skill.id,
+        misconceptions,
+        sessionCount: conversations.length,
+        aiPromptVersion: promptVersion,
+      });
+      refreshed.push({
+        componentSkillId: skill.id,
+        componentSkillName: skill.name,
+        sessionCount: skill.sessionCount,
+        summary: this.toSummary(saved),
+      });
+    }
+    return refreshed;
+  }
+
+  private toSummary(summary: TutorMisconceptionSummary | undefined): TutorSkillMisconceptionsDTO["summary"] {
+    if (!summary) {
+      return null;
+    }
+    return {
+      misconceptions: summary.misconceptions,
+      sessionCount: summary.sessionCount,
+      aiPromptVersion: summary.aiPromptVersion,
+      generatedAt: summary.generatedAt,
+    };
+  }
+}
+
+export const tutorSessionService = new TutorSessionService();
@@ -0,0 +1,271 @@
+import { and, asc, desc, eq, exists, ilike, inArray, isNotNull, isNull, notExists, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  componentSkills,
+  projectAssignments,
+  projects,
+  projectTeamMembers,
+  projectTeams,
+  tutorMisconceptionSummaries,
+  tutorSessions,
+  tutorTurns,
+  users,
+  UserRole,
+  type ComponentSkill,
+  type InsertTutorMisconceptionSummary,
+  type InsertTutorSession,
+  type InsertTutorTurn,
+  type TutorMisconceptionSummary,
+  type TutorSession,
+  type TutorTurn,
+  type User,
+} from "../../../shared/schema";
+
+export type TutorSessionViewer = Pick<User, "id" | "role" | "schoolId">;
+
+export type TutorSessionListRecord = TutorSession & {
+  studentFirstName: string | null;
+  studentLastName: string | null;
+  studentUsername: string;
+  componentSkillName: string | null;
+  studentTurnCount: number;
+  latestSafetyFlag: string | null;
+};
+
+export type TutorSessionSkillRecord = Pick<ComponentSkill, "id" | "name" | "rubricLevels"> & {
+  sessionCount: number;
+};
+
+// Subquery over the current session's turns, for exists/notExists
+function sessionTurnsWhere(condition: SQL) {
+  return db
+    .select({ id: tutorTurns.id })
+    .from(tutorTurns)
+    .where(and(eq(tutorTurns.sessionId, tutorSessions.id), condition));
+}
+
+// Sessions worth reading for misconceptions: the student said something, and it wasn't a safety incident
+function summarizableSessions(assessmentId: number): SQL | undefined {
+  return and(
+    eq(tutorSessions.assessmentId, assessmentId),
+    exists(sessionTurnsWhere(eq(tutorTurns.role, "student"))),
+    notExists(sessionTurnsWhere(isNotNull(tutorTurns.safetyFlag))),
+  );
+}
+
+export interface ITutorStorage {
+  createSession(session: InsertTutorSession): Promise<TutorSession>;
+  getSession(id: number): Promise<TutorSession | undefined>;
+  addTurn(turn: InsertTutorTurn): Promise<TutorTurn>;
+  getTurns(sessionId: number): Promise<TutorTurn[]>;
+  completeSession(id: number, finalSummary: string | null): Promise<void>;
+  // Admins see their school's students; teachers also see the students in their projects
+  getVisibleStudentIds(viewer: TutorSessionViewer): Promise<number[]>;
+  // Search matches the student's name or username, or the text of a turn
+  listSessionsByAssessment(
+    assessmentId: number,
+    studentIds: number[],
+    search: string | undefined,
+    limit: number,
+  ): Promise<TutorSessionListRecord[]>;
+  getSessionRecord(id: number): Promise<TutorSessionListRecord | undefined>;
+  getSessionSkills(assessmentId: number): Promise<TutorSessionSkillRecord[]>;
+  // Turns of the most recently active summarizable sessions, one array per session
+  getSkillConversations(assessmentId: number, componentSkillId: number, sessionLimit: number): Promise<TutorTurn[][]>;
+  getMisconceptionSummaries(assessmentId: number): Promise<TutorMisconceptionSummary[]>;
+  saveMisconceptionSummary(summary: InsertTutorMisconceptionSummary): Promise<TutorMisconceptionSummary>;
+}
+
+export class TutorStorage implements ITutorStorage {
+  async createSession(session: InsertTutorSession): Promise<TutorSession> {
+    const [created] = await db.insert(tutorSessions).values(session).returning();
+    return created;
+  }
+
+  async getSession(id: number): Promise<TutorSession | undefined> {
+    const [session] = await db.select().from(tutorSessions).where(eq(tutorSessions.id, id));
+    return session;
+  }
+
+  async addTurn(turn: InsertTutorTurn): Promise<TutorTurn> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(tutorTurns).values(turn).returning();
+      await tx.update(tutorSessions).set({ updatedAt: new Date() }).where(eq(tutorSessions.id, turn.sessionId));
+      return created;
+    });
+  }
+
+  async getTurns(sessionId: number): Promise<TutorTurn[]> {
+    return db.select().from(tutorTurns).where(eq(tutorTurns.sessionId, sessionId)).orderBy(asc(tutorTurns.id));
+  }
+
+  async completeSession(id: number, finalSummary: string | null): Promise<void> {
+    const now = new Date();
+    // A session completes once, so a late reply can't overwrite its summary
+    await db
+      .update(tutorSessions)
+      .set({ finalSummary, completedAt: now, updatedAt: now })
+      .where(and(eq(tutorSessions.id, id), isNull(tutorSessions.completedAt)));
+  }
+
+  async getVisibleStudentIds(viewer: TutorSessionViewer): Promise<number[]> {
+    const schoolStudents = viewer.schoolId
+      ? await db
+        .select({ studentId: users.id })
+        .from(users)
+        .where(and(eq(users.schoolId, viewer.schoolId), eq(users.role, UserRole.STUDENT)))
+      : [];
+    if (viewer.role === UserRole.ADMIN) {
+      return schoolStudents.map((row) => row.studentId);
+    }
+
+    const [assigned, teamMembers] = await Promise.all([
+      db
+        .select({ studentId: projectAssignments.studentId })
+        .from(projectAssignments)
+        .innerJoin(projects, eq(projectAssignments.projectId, projects.id))
+        .where(eq(projects.teacherId, viewer.id)),
+      db
+        .select({ studentId: projectTeamMembers.studentId })
+        .from(projectTeamMembers)
+        .innerJoin(projectTeams, eq(projectTeamMembers.teamId, projectTeams.id))
+        .innerJoin(projects, eq(projectTeams.projectId, projects.id))
+        .where(eq(projects.teacherId, viewer.id)),
+    ]);
+    return Array.from(
+      new Set(
+        [...schoolStudents, ...assigned, ...teamMembers]
+          .map((row) => row.studentId)
+          .filter((id): id is number => id != null),
+      ),
+    );
+  }
+
+  async listSessionsByAssessment(
+    assessmentId: number,
+    studentIds: number[],
+    search: string | undefined,
+    limit: number,
+  ): Promise<TutorSessionListRecord[]> {
+    if (studentIds.length === 0) {
+      return [];
+    }
+
+    const conditions: SQL[] = [
+      eq(tutorSessions.assessmentId, assessmentId),
+      inArray(tutorSessions.studentId, studentIds),
+    ];
+    if (search) {
+      const pattern = `%${search}%`;
+      const matches = or(
+        ilike(sql`concat_ws(' ', ${users.firstName}, ${users.lastName})`, pattern),
+        ilike(users.username, pattern),
+        exists(sessionTurnsWhere(ilike(tutorTurns.content, pattern))),
+      );
+      if (matches) {
+        conditions.push(matches);
+      }
+    }
+
+    return this.sessionRecords()
+      .where(and(...conditions))
+      .orderBy(desc(tutorSessions.updatedAt), desc(tutorSessions.id))
+      .limit(limit);
+  }
+
+  async getSessionRecord(id: number): Promise<TutorSessionListRecord | undefined> {
+    const [record] = await this.sessionRecords().where(eq(tutorSessions.id, id));
+    return record;
+  }
+
+  async getSessionSkills(assessmentId: number): Promise<TutorSessionSkillRecord[]> {
+    return db
+      .select({
+        id: componentSkills.id,
+        name: componentSkills.name,
+        rubricLevels: componentSkills.rubricLevels,
+        sessionCount: sql<number>`count(distinct ${tutorSessions.id})::int`,
+      })
+      .from(tutorSessions)
+      .innerJoin(componentSkills, eq(componentSkills.id, tutorSessions.componentSkillId))
+      .where(summarizableSessions(assessmentId))
+      .groupBy(componentSkills.id)
+      .orderBy(asc(componentSkills.name));
+  }
+
+  async getSkillConversations(assessmentId: number, componentSkillId: number, sessionLimit: number): Promise<TutorTurn[][]> {
+    const sessions = await db
+      .select({ id: tutorSessions.id })
+      .from(tutorSessions)
+      .where(and(summarizableSessions(assessmentId), eq(tutorSessions.componentSkillId, componentSkillId)))
+      .orderBy(desc(tutorSessions.updatedAt))
+      .limit(sessionLimit);
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    const turns = await db
+      .select()
+      .from(tutorTurns)
+      .where(inArray(tutorTurns.sessionId, sessions.map((session) => session.id)))
+      .orderBy(asc(tutorTurns.sessionId), asc(tutorTurns.id));
+    return sessions.map((session) => turns.filter((turn) => turn.sessionId === session.id));
+  }
+
+  async getMisconceptionSummaries(assessmentId: number): Promise<TutorMisconceptionSummary[]> {
+    return db
+      .select()
+      .from(tutorMisconceptionSummaries)
+      .where(eq(tutorMisconceptionSummaries.assessmentId, assessmentId));
+  }
+
+  async saveMisconceptionSummary(summary: InsertTutorMisconceptionSummary): Promise<TutorMisconceptionSummary> {
+    const [saved] = await db
+      .insert(tutorMisconceptionSummaries)
+      .values(summary)
+      .onConflictDoUpdate({
+        target: [tutorMisconceptionSummaries.assessmentId, tutorMisconceptionSummaries.componentSkillId],
+        set: {
+          misconceptions: summary.misconceptions,
+          sessionCount: summary.sessionCount,
+          aiPromptVersion: summary.aiPromptVersion ?? null,
+          generatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  private sessionRecords() {
+    return db
+      .select({
+        id: tutorSessions.id,
+        studentId: tutorSessions.studentId,
+        assessmentId: tutorSessions.assessmentId,
+        componentSkillId: tutorSessions.componentSkillId,
+        finalSummary: tutorSessions.finalSummary,
+        completedAt: tutorSessions.completedAt,
+        createdAt: tutorSessions.createdAt,
+        updatedAt: tutorSessions.updatedAt,
+        studentFirstName: users.firstName,
+        studentLastName: users.lastName,
+        studentUsername: users.username,
+        componentSkillName: componentSkills.name,
+        studentTurnCount: sql<number>`(
+          select count(*)::int from ${tutorTurns}
+          where ${tutorTurns.sessionId} = ${tutorSessions.id} and ${tutorTurns.role} = 'student'
+        )`,
+        latestSafetyFlag: sql<string | null>`(
+          select ${tutorTurns.safetyFlag} from ${tutorTurns}
+          where ${tutorTurns.sessionId} = ${tutorSessions.id} and ${tutorTurns.safetyFlag} is not null
+          order by ${tutorTurns.id} desc limit 1
+        )`,
+      })
+      .from(tutorSessions)
+      .innerJoin(users, eq(users.id, tutorSessions.studentId))
+      .leftJoin(componentSkills, eq(componentSkills.id, tutorSessions.componentSkillId))
+      .$dynamic();
+  }
+}
+
+export const tutorStorage = new TutorStorage();
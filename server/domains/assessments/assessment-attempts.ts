@@ -0,0 +1,71 @@
+import type { Assessment } from "../../../shared/schema";
+
+export type AssessmentAttemptSettings = Pick<Assessment, "maxAttempts">;
+
+export interface SubmittedAttempt {
+  id: number;
+  attemptNumber: number;
+  gradedAt: Date | string | null;
+}
+
+export interface AttemptEligibility {
+  allowed: boolean;
+  message?: string;
+  attemptNumber: number;
+  previousSubmissionId: number | null;
+  attemptsRemaining: number | null;
+}
+
+export function getLatestAttempt<T extends SubmittedAttempt>(attempts: T[]): T | undefined {
+  return attempts.reduce<T | undefined>(
+    (latest, attempt) => (!latest || attempt.attemptNumber > latest.attemptNumber ? attempt : latest),
+    undefined,
+  );
+}
+
+/** Whether the student can still resubmit after `usedAttempts` submitted attempts. */
+export function hasAttemptsLeft(assessment: AssessmentAttemptSettings, usedAttempts: number): boolean {
+  const maxAttempts = assessment.maxAttempts ?? null;
+  return maxAttempts === null || usedAttempts < maxAttempts;
+}
+
+/**
+ * Whether the student may start another attempt. Resubmission is only offered
+ * once the previous attempt has been graded, so each revision responds to
+ * feedback rather than racing the grader.
+ */
+export function evaluateAttemptEligibility(
+  assessment: AssessmentAttemptSettings,
+  attempts: SubmittedAttempt[],
+): AttemptEligibility {
+  const latest = getLatestAttempt(attempts);
+  const usedAttempts = attempts.length;
+  const maxAttempts = assessment.maxAttempts ?? null;
+  const attemptNumber = latest ? latest.attemptNumber + 1 : 1;
+  const previousSubmissionId = latest?.id ?? null;
+  const attemptsRemaining = maxAttempts === null ? null : Math.max(0, maxAttempts - usedAttempts);
+
+  if (attemptsRemaining === 0) {
+    return {
+      allowed: false,
+      message: maxAttempts === 1
+        ? "Assessment already submitted"
+        : `You have used all ${maxAttempts} attempts for this assessment`,
+      attemptNumber,
+      previousSubmissionId,
+      attemptsRemaining,
+    };
+  }
+
+  if (latest && !latest.gradedAt) {
+    return {
+      allowed: false,
+      message: "Your previous attempt is still being reviewed. You can resubmit once feedback is available.",
+      attemptNumber,
+      previousSubmissionId,
+      attemptsRemaining,
+    };
+  }
+
+  return { allowed: true, attemptNumber, previousSubmissionId, attemptsRemaining };
+}
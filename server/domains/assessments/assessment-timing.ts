@@ -0,0 +1,109 @@
+import type { Assessment } from "../../../shared/schema";
+
+export type AssessmentTimingSettings = Pick<
+  Assessment,
+  "dueDate" | "timeLimitMinutes" | "availableFrom" | "availableUntil" | "latePolicy"
+>;
+
+export type AssessmentWindowStatus = "not_open" | "open" | "closed";
+
+export interface SubmissionTimingResult {
+  allowed: boolean;
+  isLate: boolean;
+  message?: string;
+}
+
+// Allowance for network latency when an attempt is auto-submitted right at the limit
+export const TIME_LIMIT_GRACE_MS = 30_000;
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function getAssessmentWindowStatus(
+  assessment: AssessmentTimingSettings,
+  now: Date = new Date(),
+): AssessmentWindowStatus {
+  const availableFrom = toDate(assessment.availableFrom);
+  if (availableFrom && now < availableFrom) {
+    return "not_open";
+  }
+
+  const availableUntil = toDate(assessment.availableUntil);
+  if (availableUntil && now > availableUntil) {
+    return "closed";
+  }
+
+  return "open";
+}
+
+/**
+ * When the student's working time runs out: the end of their time limit or
+ * the close of the availability window, whichever comes first.
+ */
+export function getAttemptExpiresAt(
+  assessment: AssessmentTimingSettings,
+  startedAt: Date | string | null | undefined,
+): Date | null {
+  const start = toDate(startedAt);
+  const availableUntil = toDate(assessment.availableUntil);
+  const limitEnd = start && assessment.timeLimitMinutes
+    ? new Date(start.getTime() + assessment.timeLimitMinutes * 60_000)
+    : null;
+
+  if (limitEnd && availableUntil) {
+    return limitEnd < availableUntil ? limitEnd : availableUntil;
+  }
+  return limitEnd ?? availableUntil;
+}
+
+export function evaluateSubmissionTiming(
+  assessment: AssessmentTimingSettings,
+  startedAt: Date | string | null | undefined,
+  submittedAt: Date = new Date(),
+): SubmissionTimingResult {
+  const availableFrom = toDate(assessment.availableFrom);
+  if (availableFrom && submittedAt < availableFrom) {
+    return { allowed: false, isLate: false, message: "This assessment is not open yet" };
+  }
+
+  const availableUntil = toDate(assessment.availableUntil);
+  if (availableUntil && submittedAt.getTime() > availableUntil.getTime() + TIME_LIMIT_GRACE_MS) {
+    return { allowed: false, isLate: false, message: "This assessment is closed" };
+  }
+
+  const start = toDate(startedAt);
+  // Without a recorded start there is nothing to measure the limit against
+  if (assessment.timeLimitMinutes && !start) {
+    return { allowed: false, isLate: false, message: "Start this timed assessment before submitting" };
+  }
+
+  const dueDate = toDate(assessment.dueDate);
+  const pastDueDate = Boolean(dueDate && submittedAt > dueDate);
+  const pastTimeLimit = Boolean(
+    start &&
+    assessment.timeLimitMinutes &&
+    submittedAt.getTime() > start.getTime() + assessment.timeLimitMinutes * 60_000 + TIME_LIMIT_GRACE_MS,
+  );
+
+  if (!pastDueDate && !pastTimeLimit) {
+    return { allowed: true, isLate: false };
+  }
+
+  const latePolicy = assessment.latePolicy ?? "flag";
+  if (latePolicy === "reject") {
+    return {
+      allowed: false,
+      isLate: true,
+      message: pastTimeLimit
+        ? "Time limit has expired for this assessment"
+        : "Late submissions are not accepted for this assessment",
+    };
+  }
+
+  return { allowed: true, isLate: latePolicy === "flag" };
+}
@@ -1,4 +1,6 @@
 import {
+  classEnrollments,
+  classes,
   componentSkills,
   competencies,
   grades,
@@ -9,6 +11,8 @@ import {
   users,
 } from "../../../shared/schema";
 import { db } from "../../db";
+import { calculateMastery, competencyService } from "../competencies";
+import { describeMasteryRule, resolveMasteryRule } from "../../../shared/mastery-rules";
 import { and, asc, eq, gte, inArray, sql } from "drizzle-orm";
 import type {
   SchoolComponentSkillProgressDTO,
@@ -47,100 +51,66 @@ export class AssessmentAnalyticsQueries {
 
   async getStudentCompetencyProgress(studentId: number): Promise<StudentCompetencyProgressRecord[]> {
     try {
-      const allGrades = await db.select().from(grades);
-      const allSubmissions = await db.select().from(submissions).where(eq(submissions.studentId, studentId));
+      const [student] = await db
+        .select({ schoolId: users.schoolId })
+        .from(users)
+        .where(eq(users.id, studentId))
+        .limit(1);
+      const masteryRules = student?.schoolId
+        ? await competencyService.getSchoolMasteryRules(student.schoolId)
+        : null;
+
+      const studentGrades = await db
+        .select({
+          componentSkillId: grades.componentSkillId,
+          rubricLevel: grades.rubricLevel,
+          score: grades.score,
+          gradedAt: grades.gradedAt,
+        })
+        .from(grades)
+        .innerJoin(submissions, eq(grades.submissionId, submissions.id))
+        .where(eq(submissions.studentId, studentId));
+
       const allComponentSkills = await db.select().from(componentSkills);
       const allCompetencies = await db.select().from(competencies);
-
-      const submissionIds = allSubmissions.map((s) => s.id);
-      const studentGradesRaw = allGrades.filter(
-        (g) => g.submissionId && submissionIds.includes(g.submissionId),
-      );
-
       const skillMap = new Map(allComponentSkills.map((s) => [s.id, s]));
       const competencyMap = new Map(allCompetencies.map((c) => [c.id, c]));
 
-      const studentGrades = studentGradesRaw
-        .map((grade) => {
-          const skill = skillMap.get(grade.componentSkillId || 0);
-          const competency = skill?.competencyId ? competencyMap.get(skill.competencyId) : null;
-
-          return {
-            score: grade.score,
-            gradedAt: grade.gradedAt,
-            componentSkillId: grade.componentSkillId,
-            componentSkillName: skill?.name || "Unknown Skill",
-            competencyId: competency?.id || 0,
-            competencyName: competency?.name || "Unknown Competency",
-          };
-        })
-        .sort((a, b) => new Date(b.gradedAt || 0).getTime() - new Date(a.gradedAt || 0).getTime());
-
-      const progressMap = new Map<
-        string,
-        {
-          competencyId: number;
-          competencyName: string;
-          componentSkillId: number;
-          componentSkillName: string;
-          scores: { score: number; date: Date }[];
-        }
-      >();
-
+      const gradesBySkill = new Map<number, typeof studentGrades>();
       studentGrades.forEach((grade) => {
-        const key = `${grade.competencyId}-${grade.componentSkillId}`;
-        const score = Number(grade.score) || 0;
-
-        if (!progressMap.has(key)) {
-          progressMap.set(key, {
-            competencyId: grade.competencyId || 0,
-            competencyName: grade.competencyName,
-            componentSkillId: grade.componentSkillId || 0,
-            componentSkillName: grade.componentSkillName,
-            scores: [],
-          });
-        }
-
-        progressMap.get(key)!.scores.push({
-          score,
-          date: grade.gradedAt || new Date(),
-        });
+        const skillId = grade.componentSkillId || 0;
+        gradesBySkill.set(skillId, [...(gradesBySkill.get(skillId) ?? []), grade]);
       });
 
-      const results: StudentCompetencyProgressRecord[] = Array.from(progressMap.values()).map((item) => {
-        item.scores.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-        const totalScores = item.scores.map((s) => s.score);
-        const averageScore =
-          totalScores.length > 0
-            ? Math.round(totalScores.reduce((sum, score) => sum + score, 0) / totalScores.length)
-            : 0;
-
-        const lastScore = totalScores[0] || 0;
-        const secondLastScore = totalScores[1];
-
-        let progressDirection: "improving" | "declining" | "stable" = "stable";
-        if (totalScores.length > 1 && secondLastScore !== undefined) {
-          if (lastScore > secondLastScore + 5) {
-            progressDirection = "improving";
-          } else if (lastScore < secondLastScore - 5) {
-            progressDirection = "declining";
-          }
+      const results: StudentCompetencyProgressRecord[] = [];
+      gradesBySkill.forEach((skillGrades, componentSkillId) => {
+        const rule = resolveMasteryRule(masteryRules, componentSkillId);
+        const mastery = calculateMastery(skillGrades, rule);
+        if (!mastery) {
+          return;
         }
 
-        const lastUpdated = item.scores[0]?.date?.toISOString() || new Date().toISOString();
+        const skill = skillMap.get(componentSkillId);
+        const competency = skill?.competencyId ? competencyMap.get(skill.competencyId) : null;
+        const newestFirst = [...skillGrades].sort(
+          (a, b) => new Date(b.gradedAt || 0).getTime() - new Date(a.gradedAt || 0).getTime(),
+        );
+        const totalScores = newestFirst.map((grade) => Number(grade.score) || 0);
 
-        return {
-          competencyId: item.competencyId,
-          competencyName: item.competencyName,
-          componentSkillId: item.componentSkillId,
-          componentSkillName: item.componentSkillName,
-          averageScore,
+        results.push({
+          competencyId: competency?.id || 0,
+          competencyName: competency?.name || "Unknown Competency",
+          componentSkillId,
+          componentSkillName: skill?.name || "Unknown Skill",
+          averageScore: Math.round((totalScores.reduce((sum, score) => sum + score, 0) / totalScores.length) * 100) / 100,
           totalScores,
-          lastScore,
-          lastUpdated,
-          progressDirection,
-        };
+          lastScore: totalScores[0] || 0,
+          lastUpdated: (mastery.lastAssessedAt ?? new Date()).toISOString(),
+          progressDirection: mastery.direction,
+          masteryLevel: mastery.rubricLevel,
+          masteryScore: mastery.score,
+          masteryRule: describeMasteryRule(rule),
+        });
       });
 
       return results.sort((a, b) => a.competencyName.localeCompare(b.competencyName));
@@ -150,20 +120,46 @@ export class AssessmentAnalyticsQueries {
     }
   }
 
+  /**
+   * School-wide view of each component skill. Every student contributes one
+   * current level computed by the school's mastery rule, so repeated grades
+   * don't outweigh students who were assessed once.
+   */
   async getSchoolComponentSkillsProgress(
     teacherId: number,
     grade?: string,
+    classId?: number,
   ): Promise<SchoolComponentSkillProgressDTO[]> {
-    try {
-      const teacher = await db.select().from(users).where(eq(users.id, teacherId)).limit(1);
-      const teacherSchoolId = teacher[0]?.schoolId;
+    const teacher = await db.select().from(users).where(eq(users.id, teacherId)).limit(1);
+    const teacherSchoolId = teacher[0]?.schoolId;
 
-      if (!teacherSchoolId) {
-        return [];
-      }
+    if (!teacherSchoolId) {
+      return [];
+    }
+
+    return this.getSchoolComponentSkillsProgressBySchool(teacherSchoolId, grade, classId);
+  }
 
+  async getSchoolComponentSkillsProgressBySchool(
+    teacherSchoolId: number,
+    grade?: string,
+    classId?: number,
+  ): Promise<SchoolComponentSkillProgressDTO[]> {
+    try {
       const normalizedGrade = this.normalizeGradeFilter(grade);
       const studentConditions = [eq(users.schoolId, teacherSchoolId), eq(users.role, "student")];
+      if (classId) {
+        studentConditions.push(
+          inArray(
+            users.id,
+            db
+              .select({ studentId: classEnrollments.studentId })
+              .from(classEnrollments)
+              .innerJoin(classes, eq(classEnrollments.classId, classes.id))
+              .where(and(eq(classEnrollments.classId, classId), eq(classes.schoolId, teacherSchoolId))),
+          ),
+        );
+      }
 
       const schoolStudents = normalizedGrade === "__unassigned__"
         ? await db
@@ -189,11 +185,19 @@ export class AssessmentAnalyticsQueries {
         return [];
       }
 
-      const allGrades = await db.select().from(grades);
-      const allSubmissions = await db
-        .select()
-        .from(submissions)
+      const masteryRules = await competencyService.getSchoolMasteryRules(teacherSchoolId);
+      const schoolGrades = await db
+        .select({
+          studentId: submissions.studentId,
+          componentSkillId: grades.componentSkillId,
+          rubricLevel: grades.rubricLevel,
+          score: grades.score,
+          gradedAt: grades.gradedAt,
+        })
+        .from(grades)
+        .innerJoin(submissions, eq(grades.submissionId, submissions.id))
         .where(inArray(submissions.studentId, studentIds));
+
       const allComponentSkills = await db.select().from(componentSkills);
       const allCompetencies = await db.select().from(competencies);
       const allLearnerOutcomes = await db.select().from(learnerOutcomes);
@@ -202,88 +206,60 @@ export class AssessmentAnalyticsQueries {
       const competencyMap = new Map(allCompetencies.map((c) => [c.id, c]));
       const learnerOutcomeMap = new Map(allLearnerOutcomes.map((outcome) => [outcome.id, outcome]));
 
-      const submissionIds = allSubmissions.map((s) => s.id);
-      const schoolGrades = allGrades.filter((g) => g.submissionId && submissionIds.includes(g.submissionId));
-
-      const skillProgressMap = new Map<
-        number,
-        {
-          grades: typeof schoolGrades;
-          skill: (typeof allComponentSkills)[0];
-          competency: (typeof allCompetencies)[0] | undefined;
-        }
-      >();
-
-      schoolGrades.forEach((grade) => {
-        const skill = skillMap.get(grade.componentSkillId || 0);
-        if (!skill) {
+      // skill id -> student id -> that student's grade history for the skill
+      const gradesBySkill = new Map<number, Map<number, typeof schoolGrades>>();
+      schoolGrades.forEach((row) => {
+        if (!row.componentSkillId || !row.studentId || !skillMap.has(row.componentSkillId)) {
           return;
         }
-
-        const competency = skill.competencyId ? competencyMap.get(skill.competencyId) : undefined;
-
-        if (!skillProgressMap.has(skill.id)) {
-          skillProgressMap.set(skill.id, {
-            grades: [],
-            skill,
-            competency,
-          });
-        }
-
-        skillProgressMap.get(skill.id)!.grades.push(grade);
+        const byStudent = gradesBySkill.get(row.componentSkillId) ?? new Map<number, typeof schoolGrades>();
+        byStudent.set(row.studentId, [...(byStudent.get(row.studentId) ?? []), row]);
+        gradesBySkill.set(row.componentSkillId, byStudent);
       });
 
       const skillsProgress: SchoolComponentSkillProgressDTO[] = [];
 
-      for (const [, data] of Array.from(skillProgressMap.entries())) {
-        const { grades: skillGrades, skill, competency } = data;
+      for (const [skillId, byStudent] of Array.from(gradesBySkill.entries())) {
+        const skill = skillMap.get(skillId)!;
+        const competency = skill.competencyId ? competencyMap.get(skill.competencyId) : undefined;
         const learnerOutcome = competency?.learnerOutcomeId
           ? learnerOutcomeMap.get(competency.learnerOutcomeId)
           : undefined;
+        const rule = resolveMasteryRule(masteryRules, skillId);
+
+        const studentMastery = Array.from(byStudent.values())
+          .map((history) => calculateMastery(history, rule))
+          .filter((mastery): mastery is NonNullable<typeof mastery> => mastery !== null);
 
-        if (skillGrades.length === 0) {
+        if (studentMastery.length === 0) {
           continue;
         }
 
-        const scores = skillGrades.map((g) => Number(g.score) || 0);
-        const averageScore = scores.reduce((a: number, b: number) => a + b, 0) / scores.length;
-
-        const rubricDistribution = {
-          emerging: skillGrades.filter((g) => g.rubricLevel === "emerging").length,
-          developing: skillGrades.filter((g) => g.rubricLevel === "developing").length,
-          proficient: skillGrades.filter((g) => g.rubricLevel === "proficient").length,
-          applying: skillGrades.filter((g) => g.rubricLevel === "applying").length,
-        };
+        const rubricDistribution = { emerging: 0, developing: 0, proficient: 0, applying: 0 };
+        studentMastery.forEach((mastery) => {
+          rubricDistribution[mastery.rubricLevel] += 1;
+        });
 
-        const strugglingStudents = skillGrades.filter((g) => (Number(g.score) || 0) < 2.5).length;
-        const excellingStudents = skillGrades.filter((g) => (Number(g.score) || 0) >= 3.5).length;
+        const averageScore = studentMastery.reduce((sum, mastery) => sum + mastery.score, 0) / studentMastery.length;
+        const strugglingStudents = studentMastery.filter((mastery) => mastery.score < 2.5).length;
+        const excellingStudents = studentMastery.filter((mastery) => mastery.score >= 3.5).length;
         const passRate =
-          ((rubricDistribution.proficient + rubricDistribution.applying) / skillGrades.length) * 100;
-
-        const sortedByDate = [...skillGrades].sort(
-          (a, b) => new Date(b.gradedAt || 0).getTime() - new Date(a.gradedAt || 0).getTime(),
-        );
-
-        const recentGrades = sortedByDate.slice(0, Math.floor(skillGrades.length / 2));
-        const olderGrades = sortedByDate.slice(Math.floor(skillGrades.length / 2));
+          ((rubricDistribution.proficient + rubricDistribution.applying) / studentMastery.length) * 100;
 
+        const improving = studentMastery.filter((mastery) => mastery.direction === "improving").length;
+        const declining = studentMastery.filter((mastery) => mastery.direction === "declining").length;
         let trend: "improving" | "declining" | "stable" = "stable";
-        if (recentGrades.length > 0 && olderGrades.length > 0) {
-          const recentAvg =
-            recentGrades.reduce((sum: number, g) => sum + (Number(g.score) || 0), 0) /
-            recentGrades.length;
-          const olderAvg =
-            olderGrades.reduce((sum: number, g) => sum + (Number(g.score) || 0), 0) /
-            olderGrades.length;
-
-          if (recentAvg > olderAvg + 0.5) {
-            trend = "improving";
-          } else if (recentAvg < olderAvg - 0.5) {
-            trend = "declining";
-          }
+        if (improving > declining) {
+          trend = "improving";
+        } else if (declining > improving) {
+          trend = "declining";
         }
 
-        const lastAssessmentDate = sortedByDate[0]?.gradedAt || new Date().toISOString();
+        const lastAssessmentDate = studentMastery.reduce<Date | null>(
+          (latest, mastery) =>
+            mastery.lastAssessedAt && (!latest || mastery.lastAssessedAt > latest) ? mastery.lastAssessedAt : latest,
+          null,
+        ) ?? new Date().toISOString();
 
         skillsProgress.push({
           id: skill.id,
@@ -292,7 +268,7 @@ export class AssessmentAnalyticsQueries {
           competencyName: competency?.name || "Unknown Competency",
           learnerOutcomeName: learnerOutcome?.name || "Unknown Learner Outcome",
           averageScore: Math.round(averageScore * 100) / 100,
-          studentsAssessed: skillGrades.length,
+          studentsAssessed: studentMastery.length,
           totalStudents: schoolStudents.length,
           passRate: Math.round(passRate * 100) / 100,
           strugglingStudents,
@@ -300,6 +276,7 @@ export class AssessmentAnalyticsQueries {
           rubricDistribution,
           trend,
           lastAssessmentDate,
+          masteryRule: describeMasteryRule(rule),
         });
       }
 
@@ -310,9 +287,9 @@ export class AssessmentAnalyticsQueries {
     }
   }
 
-  async getSchoolSkillsStats(teacherId: number, grade?: string): Promise<SchoolSkillsStatsDTO> {
+  async getSchoolSkillsStats(teacherId: number, grade?: string, classId?: number): Promise<SchoolSkillsStatsDTO> {
     try {
-      const skillsProgress = await this.getSchoolComponentSkillsProgress(teacherId, grade);
+      const skillsProgress = await this.getSchoolComponentSkillsProgress(teacherId, grade, classId);
 
       if (skillsProgress.length === 0) {
         return {
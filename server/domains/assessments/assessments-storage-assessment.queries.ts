@@ -9,6 +9,7 @@ import {
   type InsertAssessment,
 } from "../../../shared/schema";
 import { db } from "../../db";
+import { collectStoredObjectPaths } from "../../utils/storedObjects";
 import { eq, and, desc, isNull, sql, or, aliasedTable } from "drizzle-orm";
 
 type ErrorWithCode = { code?: string };
@@ -140,10 +141,22 @@ export class AssessmentAssessmentQueries {
     return updatedAssessment;
   }
 
-  async deleteAssessment(id: number): Promise<void> {
+  /** Deletes the assessment and its submissions, returning the uploaded files they referenced. */
+  async deleteAssessment(id: number): Promise<string[]> {
     await db.delete(selfEvaluations).where(eq(selfEvaluations.assessmentId, id));
-    await db.delete(submissions).where(eq(submissions.assessmentId, id));
-    await db.delete(assessments).where(eq(assessments.id, id));
+    const deletedSubmissions = await db
+      .delete(submissions)
+      .where(eq(submissions.assessmentId, id))
+      .returning({ artifacts: submissions.artifacts, responses: submissions.responses });
+    const deletedAssessments = await db
+      .delete(assessments)
+      .where(eq(assessments.id, id))
+      .returning({ pdfUrl: assessments.pdfUrl });
+
+    return collectStoredObjectPaths(
+      deletedAssessments.map((assessment) => assessment.pdfUrl),
+      deletedSubmissions.map((submission) => [submission.artifacts, submission.responses]),
+    );
   }
 
   async generateShareCode(assessmentId: number): Promise<string> {
@@ -13,12 +13,15 @@ import {
   type SubmissionWithAssessment,
 } from "../../../shared/schema";
 import { db } from "../../db";
-import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, sql } from "drizzle-orm";
 import type {
   AssessmentSubmissionSummaryRecord,
   StudentAssessmentSubmissionRecord,
   SubmissionGradeSummaryRecord,
 } from "./assessments.contracts";
+import { hasAttemptsLeft } from "./assessment-attempts";
+import { stripAnswerKeys } from "../../../shared/question-types";
+import { hideCorrectAnswers } from "./multiple-choice-scoring";
 
 export class AssessmentSubmissionQueries {
   constructor(
@@ -37,6 +40,122 @@ export class AssessmentSubmissionQueries {
     return submission;
   }
 
+  async getDraftSubmission(assessmentId: number, studentId: number): Promise<Submission | undefined> {
+    const [draft] = await db
+      .select()
+      .from(submissions)
+      .where(
+        and(
+          eq(submissions.assessmentId, assessmentId),
+          eq(submissions.studentId, studentId),
+          eq(submissions.isDraft, true),
+        ),
+      )
+      .orderBy(desc(submissions.lastSavedAt))
+      .limit(1);
+    return draft;
+  }
+
+  async saveDraftSubmission(assessmentId: number, studentId: number, responses: unknown): Promise<Submission> {
+    const now = new Date();
+    const existingDraft = await this.getDraftSubmission(assessmentId, studentId);
+
+    if (existingDraft) {
+      const [updatedDraft] = await db
+        .update(submissions)
+        .set({ responses, lastSavedAt: now })
+        .where(eq(submissions.id, existingDraft.id))
+        .returning();
+      return updatedDraft;
+    }
+
+    const [newDraft] = await db
+      .insert(submissions)
+      .values({
+        assessmentId,
+        studentId,
+        responses,
+        isDraft: true,
+        lastSavedAt: now,
+        startedAt: now,
+        submittedAt: null,
+      })
+      .returning();
+    return newDraft;
+  }
+
+  async startSubmissionAttempt(assessmentId: number, studentId: number): Promise<Submission> {
+    const now = new Date();
+    const existingDraft = await this.getDraftSubmission(assessmentId, studentId);
+
+    if (existingDraft?.startedAt) {
+      return existingDraft;
+    }
+
+    if (existingDraft) {
+      const [startedDraft] = await db
+        .update(submissions)
+        .set({ startedAt: now })
+        .where(eq(submissions.id, existingDraft.id))
+        .returning();
+      return startedDraft;
+    }
+
+    const [newDraft] = await db
+      .insert(submissions)
+      .values({
+        assessmentId,
+        studentId,
+        responses: [],
+        isDraft: true,
+        lastSavedAt: now,
+        startedAt: now,
+        submittedAt: null,
+      })
+      .returning();
+    return newDraft;
+  }
+
+  async finalizeDraftSubmission(draftId: number, submission: InsertSubmission): Promise<Submission> {
+    const [finalized] = await db
+      .update(submissions)
+      .set({
+        ...submission,
+        isDraft: false,
+        submittedAt: new Date(),
+      })
+      .where(eq(submissions.id, draftId))
+      .returning();
+
+    if (finalized.assessmentId != null && finalized.studentId != null) {
+      await db
+        .delete(submissions)
+        .where(
+          and(
+            eq(submissions.assessmentId, finalized.assessmentId),
+            eq(submissions.studentId, finalized.studentId),
+            eq(submissions.isDraft, true),
+          ),
+        );
+    }
+
+    return finalized;
+  }
+
+  async getSubmissionAttempts(assessmentId: number, studentId: number): Promise<Submission[]> {
+    return await db
+      .select()
+      .from(submissions)
+      .where(
+        and(
+          eq(submissions.assessmentId, assessmentId),
+          eq(submissions.studentId, studentId),
+          eq(submissions.isDraft, false),
+        ),
+      )
+      .orderBy(asc(submissions.attemptNumber));
+  }
+
   async getSubmissionsByStudent(studentId: number): Promise<SubmissionWithAssessment[]> {
     try {
       const submissionsWithAssessments = await db
@@ -52,21 +171,42 @@ export class AssessmentSubmissionQueries {
           aiGeneratedFeedback: submissions.aiGeneratedFeedback,
           isSelfEvaluation: submissions.isSelfEvaluation,
           selfEvaluationData: submissions.selfEvaluationData,
+          isDraft: submissions.isDraft,
+          lastSavedAt: submissions.lastSavedAt,
+          startedAt: submissions.startedAt,
+          isLate: submissions.isLate,
+          autoGradeResult: submissions.autoGradeResult,
+          attemptNumber: submissions.attemptNumber,
+          previousSubmissionId: submissions.previousSubmissionId,
           assessment: assessments,
         })
         .from(submissions)
         .leftJoin(assessments, eq(submissions.assessmentId, assessments.id))
-        .where(eq(submissions.studentId, studentId))
+        .where(and(eq(submissions.studentId, studentId), eq(submissions.isDraft, false)))
         .orderBy(desc(submissions.submittedAt));
 
+      const attemptCounts = new Map<number | null, number>();
+      for (const row of submissionsWithAssessments) {
+        attemptCounts.set(row.assessmentId, (attemptCounts.get(row.assessmentId) ?? 0) + 1);
+      }
+
       return Promise.all(
         submissionsWithAssessments.map(async (row) => {
           const submissionGrades = await this.getGradesBySubmission(row.id);
           const earnedCredentials = await db
             .select()
             .from(credentials)
-            .where(eq(credentials.studentId, studentId))
+            .where(
+              and(
+                eq(credentials.studentId, studentId),
+                isNotNull(credentials.approvedBy),
+                isNull(credentials.revokedAt),
+              ),
+            )
             .orderBy(desc(credentials.awardedAt));
+          const canResubmit = row.assessment
+            ? hasAttemptsLeft(row.assessment, attemptCounts.get(row.assessmentId) ?? 0)
+            : false;
 
           return {
             id: row.id,
@@ -80,7 +220,14 @@ export class AssessmentSubmissionQueries {
             aiGeneratedFeedback: row.aiGeneratedFeedback,
             isSelfEvaluation: row.isSelfEvaluation,
             selfEvaluationData: row.selfEvaluationData,
-            assessment: row.assessment,
+            isDraft: row.isDraft,
+            lastSavedAt: row.lastSavedAt,
+            startedAt: row.startedAt,
+            isLate: row.isLate,
+            autoGradeResult: canResubmit ? hideCorrectAnswers(row.autoGradeResult) : row.autoGradeResult,
+            attemptNumber: row.attemptNumber,
+            previousSubmissionId: row.previousSubmissionId,
+            assessment: row.assessment ? stripAnswerKeys(row.assessment) : null,
             grades: submissionGrades,
             earnedCredentials,
             status: submissionGrades.length > 0 ? "graded" : row.submittedAt ? "submitted" : "draft",
@@ -99,7 +246,7 @@ export class AssessmentSubmissionQueries {
         .select()
         .from(submissions)
         .innerJoin(users, eq(submissions.studentId, users.id))
-        .where(eq(submissions.assessmentId, assessmentId))
+        .where(and(eq(submissions.assessmentId, assessmentId), eq(submissions.isDraft, false)))
         .orderBy(desc(submissions.submittedAt));
 
       return Promise.all(
@@ -115,6 +262,11 @@ export class AssessmentSubmissionQueries {
             submittedAt: row.submissions.submittedAt,
             feedback: row.submissions.feedback,
             aiGeneratedFeedback: row.submissions.aiGeneratedFeedback,
+            startedAt: row.submissions.startedAt,
+            isLate: row.submissions.isLate,
+            autoGradeResult: row.submissions.autoGradeResult,
+            attemptNumber: row.submissions.attemptNumber,
+            previousSubmissionId: row.submissions.previousSubmissionId,
             grades: submissionGrades,
           };
         }),
@@ -136,6 +288,7 @@ export class AssessmentSubmissionQueries {
         responses: submissions.responses,
         submittedAt: submissions.submittedAt,
         feedback: submissions.feedback,
+        attemptNumber: submissions.attemptNumber,
         projectTitle: projects.title,
         milestoneTitle: milestones.title,
       })
@@ -143,7 +296,7 @@ export class AssessmentSubmissionQueries {
       .innerJoin(assessments, eq(submissions.assessmentId, assessments.id))
       .leftJoin(milestones, eq(assessments.milestoneId, milestones.id))
       .leftJoin(projects, eq(milestones.projectId, projects.id))
-      .where(eq(submissions.studentId, studentId))
+      .where(and(eq(submissions.studentId, studentId), eq(submissions.isDraft, false)))
       .orderBy(desc(submissions.submittedAt));
 
     return Promise.all(
@@ -179,6 +332,8 @@ export class AssessmentSubmissionQueries {
               .where(
                 and(
                   eq(credentials.studentId, studentId),
+                  isNotNull(credentials.approvedBy),
+                  isNull(credentials.revokedAt),
                   inArray(credentials.componentSkillId, componentSkillIds),
                   gte(credentials.awardedAt, dayBefore),
                   sql`${credentials.awardedAt} <= ${dayAfter}`,
@@ -248,7 +403,7 @@ export class AssessmentSubmissionQueries {
     const [submission] = await db
       .select()
       .from(submissions)
-      .where(eq(submissions.assessmentId, assessmentId))
+      .where(and(eq(submissions.assessmentId, assessmentId), eq(submissions.isDraft, false)))
       .limit(1);
     return !!submission;
   }
@@ -18,7 +18,7 @@ export type SubmissionGradeRecord = Pick<
   feedback?: string | null;
 };
 
-export type GradeUpdateInput = Partial<Pick<Grade, "rubricLevel" | "feedback" | "gradedBy">> & {
+export type GradeUpdateInput = Partial<Pick<Grade, "rubricLevel" | "feedback" | "gradedBy" | "aiPromptVersion">> & {
   score?: string | null;
 };
 
@@ -50,6 +50,7 @@ export interface SchoolComponentSkillProgressDTO {
   };
   trend: "improving" | "declining" | "stable";
   lastAssessmentDate: string | Date;
+  masteryRule: string;
 }
 
 export interface SchoolSkillsStatsDTO {
@@ -71,6 +72,9 @@ export interface StudentCompetencyProgressRecord {
   lastScore: number;
   lastUpdated: string;
   progressDirection: "improving" | "declining" | "stable";
+  masteryLevel: "emerging" | "developing" | "proficient" | "applying";
+  masteryScore: number;
+  masteryRule: string;
 }
 
 export type SelfEvaluationCreateInput = InsertSelfEvaluation;
@@ -97,6 +101,11 @@ export interface AssessmentSubmissionSummaryRecord {
   submittedAt?: Date | null;
   feedback?: string | null;
   aiGeneratedFeedback?: boolean | null;
+  startedAt?: Date | null;
+  isLate?: boolean;
+  autoGradeResult?: unknown;
+  attemptNumber?: number;
+  previousSubmissionId?: number | null;
   grades?: SubmissionGradeSummaryRecord[];
   assessmentId?: number | null;
 }
@@ -112,6 +121,7 @@ export interface StudentAssessmentSubmissionRecord {
   responses?: unknown;
   submittedAt?: Date | string | null;
   feedback?: string | null;
+  attemptNumber?: number;
   status?: "graded" | "submitted" | "draft";
   earnedCredentials?: Array<
     Pick<CredentialRecord, "id" | "title" | "description" | "type" | "awardedAt">
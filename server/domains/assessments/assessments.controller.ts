@@ -6,6 +6,8 @@ import { registerAssessmentLifecycleRoutes } from './routes/lifecycle.routes';
 import { registerAssessmentShareCodeRoutes } from './routes/share-code.routes';
 import { registerAssessmentStudentRoutes } from './routes/student.routes';
 import { registerAssessmentTeacherSkillsRoutes } from './routes/teacher-skills.routes';
+import { registerAssessmentTutorSessionRoutes } from './routes/tutor-sessions.routes';
+import { tutorSessionService, type ITutorSessionService } from '../ai';
 import {
   assessmentProjectGateway,
   type AssessmentProjectGateway,
@@ -15,6 +17,7 @@ export class AssessmentController {
   constructor(
     private service: AssessmentService,
     private projectGateway: AssessmentProjectGateway = assessmentProjectGateway,
+    private tutorSessions: ITutorSessionService = tutorSessionService,
   ) { }
 
   createRouter(): Router {
@@ -25,6 +28,7 @@ export class AssessmentController {
     registerAssessmentExportRoutes(router, this.service, this.projectGateway);
     registerAssessmentShareCodeRoutes(router, this.service, this.projectGateway);
     registerAssessmentTeacherSkillsRoutes(router, this.service);
+    registerAssessmentTutorSessionRoutes(router, this.service, this.projectGateway, this.tutorSessions);
 
     return router;
   }
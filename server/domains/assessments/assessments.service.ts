@@ -14,14 +14,18 @@ import {
 } from "../../../shared/schema";
 import type {
   AssessmentCreateRequestDTO,
+  AssessmentItemAnalysisDTO,
   SubmissionGradeItemDTO,
   SubmissionCreateRequestDTO,
 } from '../../../shared/contracts/api';
-import { aiService } from '../ai';
+import { aiService, type AiSkillGrade } from '../ai';
+import { credentialService } from '../credentials';
+import { plansService, type IPlansService } from '../plans';
 import {
   assessmentProjectGateway,
   type AssessmentProjectGateway,
 } from "./assessment-project-gateway";
+import { buildItemAnalysis, scoreMultipleChoiceResponses } from "./multiple-choice-scoring";
 import type {
   AssessmentSubmissionSummaryRecord,
   GradeUpdateInput,
@@ -37,6 +41,7 @@ export class AssessmentService {
   constructor(
     private storage: IAssessmentStorage = assessmentStorage,
     private projectGateway: AssessmentProjectGateway = assessmentProjectGateway,
+    private plans: IPlansService = plansService,
   ) { }
 
   // Assessment business logic
@@ -120,11 +125,24 @@ export class AssessmentService {
     return await this.storage.getAllAssessments();
   }
 
-  async updateAssessment(id: number, updates: Partial<InsertAssessment> & { dueDate?: string | Date }): Promise<Assessment> {
+  async updateAssessment(
+    id: number,
+    updates: Partial<InsertAssessment> & {
+      dueDate?: string | Date;
+      availableFrom?: string | Date | null;
+      availableUntil?: string | Date | null;
+    },
+  ): Promise<Assessment> {
     const formattedUpdates = { ...updates };
     if (formattedUpdates.dueDate && typeof formattedUpdates.dueDate === 'string') {
       formattedUpdates.dueDate = new Date(formattedUpdates.dueDate);
     }
+    if (typeof formattedUpdates.availableFrom === 'string') {
+      formattedUpdates.availableFrom = new Date(formattedUpdates.availableFrom);
+    }
+    if (typeof formattedUpdates.availableUntil === 'string') {
+      formattedUpdates.availableUntil = new Date(formattedUpdates.availableUntil);
+    }
     if (formattedUpdates.dueDate) {
       const expiresAt = new Date(formattedUpdates.dueDate as Date);
       expiresAt.setDate(expiresAt.getDate() + 7);
@@ -134,7 +152,10 @@ export class AssessmentService {
   }
 
   async deleteAssessment(id: number): Promise<void> {
-    return await this.storage.deleteAssessment(id);
+    const storedObjects = await this.storage.deleteAssessment(id);
+    await this.plans.releaseStorageUsage(storedObjects).catch((error) => {
+      console.error('Error releasing storage usage:', error);
+    });
   }
 
   async hasSubmissions(assessmentId: number): Promise<boolean> {
@@ -197,15 +218,54 @@ export class AssessmentService {
   }
 
   // Submission business logic
-  async createSubmission(data: SubmissionCreateRequestDTO, studentId: number): Promise<Submission> {
+  async createSubmission(
+    data: SubmissionCreateRequestDTO,
+    studentId: number,
+    options: { isLate?: boolean; attemptNumber?: number; previousSubmissionId?: number | null } = {},
+  ): Promise<Submission> {
+    const draft = typeof data.assessmentId === "number"
+      ? await this.storage.getDraftSubmission(data.assessmentId, studentId)
+      : undefined;
+    const assessment = typeof data.assessmentId === "number"
+      ? await this.storage.getAssessment(data.assessmentId)
+      : undefined;
+
+    // Timing and scoring fields are server-owned; never trust them from the request body
     const submissionData = insertSubmissionSchema.parse({
       ...data,
       studentId,
+      isDraft: false,
+      isLate: options.isLate ?? false,
+      startedAt: draft?.startedAt ?? null,
+      autoGradeResult: assessment ? scoreMultipleChoiceResponses(assessment.questions, data.responses) : null,
+      attemptNumber: options.attemptNumber ?? 1,
+      previousSubmissionId: options.previousSubmissionId ?? null,
     });
 
+    // Promote the autosaved draft so the student keeps a single submission row
+    if (draft) {
+      return await this.storage.finalizeDraftSubmission(draft.id, submissionData);
+    }
+
     return await this.storage.createSubmission(submissionData);
   }
 
+  async getDraftSubmission(assessmentId: number, studentId: number): Promise<Submission | undefined> {
+    return await this.storage.getDraftSubmission(assessmentId, studentId);
+  }
+
+  async saveDraftSubmission(assessmentId: number, studentId: number, responses: unknown): Promise<Submission> {
+    return await this.storage.saveDraftSubmission(assessmentId, studentId, responses);
+  }
+
+  async startSubmissionAttempt(assessmentId: number, studentId: number): Promise<Submission> {
+    return await this.storage.startSubmissionAttempt(assessmentId, studentId);
+  }
+
+  async getSubmissionAttempts(assessmentId: number, studentId: number): Promise<Submission[]> {
+    return await this.storage.getSubmissionAttempts(assessmentId, studentId);
+  }
+
   async getSubmission(id: number): Promise<Submission | undefined> {
     return await this.storage.getSubmission(id);
   }
@@ -243,16 +303,19 @@ export class AssessmentService {
               ...submission,
               answers: submission.responses || {},
               grades: grades || [],
-              isLate: assessment?.dueDate && submission.submittedAt
-                ? new Date(submission.submittedAt) > new Date(assessment.dueDate)
-                : false
+              isLate: submission.isLate || Boolean(
+                (assessment?.latePolicy ?? "flag") === "flag" &&
+                assessment?.dueDate &&
+                submission.submittedAt &&
+                new Date(submission.submittedAt) > new Date(assessment.dueDate)
+              )
             };
           } catch (_error) {
             return {
               ...submission,
               answers: submission?.responses || {},
               grades: [],
-              isLate: false
+              isLate: submission?.isLate ?? false
             };
           }
         })
@@ -265,6 +328,18 @@ export class AssessmentService {
     }
   }
 
+  async getItemAnalysis(assessment: Assessment): Promise<AssessmentItemAnalysisDTO> {
+    const submissions = await this.storage.getSubmissionsByAssessment(assessment.id);
+    return {
+      assessmentId: assessment.id,
+      submissionCount: submissions.length,
+      questions: buildItemAnalysis(
+        assessment.questions,
+        submissions.map((submission) => submission.responses),
+      ),
+    };
+  }
+
   async getStudentCompetencyProgress(studentId: number) {
     return this.storage.getStudentCompetencyProgress(studentId);
   }
@@ -307,12 +382,17 @@ export class AssessmentService {
   async getSchoolComponentSkillsProgress(
     teacherId: number,
     grade?: string,
+    classId?: number,
   ): Promise<SchoolComponentSkillProgressDTO[]> {
-    return await this.storage.getSchoolComponentSkillsProgress(teacherId, grade);
+    return await this.storage.getSchoolComponentSkillsProgress(teacherId, grade, classId);
+  }
+
+  async getSchoolComponentSkillsProgressBySchool(schoolId: number): Promise<SchoolComponentSkillProgressDTO[]> {
+    return await this.storage.getSchoolComponentSkillsProgressBySchool(schoolId);
   }
 
-  async getSchoolSkillsStats(teacherId: number, grade?: string): Promise<SchoolSkillsStatsDTO> {
-    return await this.storage.getSchoolSkillsStats(teacherId, grade);
+  async getSchoolSkillsStats(teacherId: number, grade?: string, classId?: number): Promise<SchoolSkillsStatsDTO> {
+    return await this.storage.getSchoolSkillsStats(teacherId, grade, classId);
   }
 
   async getComponentSkill(id: number): Promise<ComponentSkill | undefined> {
@@ -324,7 +404,7 @@ export class AssessmentService {
     assessment: Assessment,
     componentSkills: ComponentSkill[],
     pdfContent?: string,
-  ): Promise<SubmissionGradeItemDTO[]> {
+  ): Promise<AiSkillGrade[]> {
     return await aiService.generateComponentSkillGrades(submission, assessment, componentSkills, pdfContent);
   }
 
@@ -359,8 +439,8 @@ export class AssessmentService {
     return await this.storage.updateGrade(gradeId, updates);
   }
 
-  async awardStickersForGrades(studentId: number, grades: SubmissionGradeRecord[]): Promise<Credential[]> {
-    return await this.storage.awardStickersForGrades(studentId, grades);
+  async awardCredentialsForStudent(studentId: number, approverId: number | null): Promise<Credential[]> {
+    return await credentialService.applyAwardRules(studentId, approverId);
   }
 
   async getUpcomingDeadlines(projectIds: number[]): Promise<UpcomingDeadlineDTO[]> {
@@ -396,6 +476,7 @@ export class AssessmentService {
       description: assessmentData.description,
       questions: assessmentData.questions,
       aiGenerated: true,
+      aiPromptVersion: assessmentData.promptVersion ?? null,
       createdBy: userId,
     });
   }
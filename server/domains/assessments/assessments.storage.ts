@@ -10,14 +10,12 @@ import {
 import type {
   AssessmentSubmissionSummaryRecord,
   ComponentSkillRecord,
-  CredentialRecord,
   GradeUpdateInput,
   SchoolComponentSkillProgressDTO,
   SchoolSkillsStatsDTO,
   SelfEvaluationCreateInput,
   StudentAssessmentSubmissionRecord,
   StudentCompetencyProgressRecord,
-  SubmissionGradeRecord,
   SubmissionGradeSummaryRecord,
   UpcomingDeadlineDTO,
 } from "./assessments.contracts";
@@ -36,7 +34,7 @@ export interface IAssessmentStorage {
   getStandaloneAssessments(): Promise<Assessment[]>;
   getAllAssessments(): Promise<Assessment[]>;
   updateAssessment(id: number, updates: Partial<InsertAssessment>): Promise<Assessment>;
-  deleteAssessment(id: number): Promise<void>;
+  deleteAssessment(id: number): Promise<string[]>;
 
   generateShareCode(assessmentId: number): Promise<string>;
   getAssessmentByShareCode(shareCode: string): Promise<Assessment | undefined>;
@@ -44,6 +42,11 @@ export interface IAssessmentStorage {
 
   createSubmission(submission: InsertSubmission): Promise<Submission>;
   getSubmission(id: number): Promise<Submission | undefined>;
+  getDraftSubmission(assessmentId: number, studentId: number): Promise<Submission | undefined>;
+  saveDraftSubmission(assessmentId: number, studentId: number, responses: unknown): Promise<Submission>;
+  finalizeDraftSubmission(draftId: number, submission: InsertSubmission): Promise<Submission>;
+  startSubmissionAttempt(assessmentId: number, studentId: number): Promise<Submission>;
+  getSubmissionAttempts(assessmentId: number, studentId: number): Promise<Submission[]>;
   getSubmissionsByStudent(studentId: number): Promise<SubmissionWithAssessment[]>;
   getSubmissionsByAssessment(assessmentId: number): Promise<AssessmentSubmissionSummaryRecord[]>;
   getStudentAssessmentSubmissions(studentId: number): Promise<StudentAssessmentSubmissionRecord[]>;
@@ -55,8 +58,6 @@ export interface IAssessmentStorage {
   getComponentSkill(id: number): Promise<ComponentSkillRecord | undefined>;
   getExistingGrade(submissionId: number, componentSkillId: number): Promise<Grade | undefined>;
   updateGrade(gradeId: number, updates: GradeUpdateInput): Promise<Grade>;
-  awardStickersForGrades(studentId: number, grades: SubmissionGradeRecord[]): Promise<CredentialRecord[]>;
-  checkAndAwardBadge(studentId: number, competencyId: number, gradedBy: number): Promise<CredentialRecord[]>;
 
   getSelfEvaluationsByAssessment(assessmentId: number): Promise<SelfEvaluation[]>;
   createSelfEvaluation(data: SelfEvaluationCreateInput): Promise<SelfEvaluation>;
@@ -65,8 +66,9 @@ export interface IAssessmentStorage {
 
   getUpcomingDeadlines(projectIds: number[]): Promise<UpcomingDeadlineDTO[]>;
   getStudentCompetencyProgress(studentId: number): Promise<StudentCompetencyProgressRecord[]>;
-  getSchoolComponentSkillsProgress(teacherId: number, grade?: string): Promise<SchoolComponentSkillProgressDTO[]>;
-  getSchoolSkillsStats(teacherId: number, grade?: string): Promise<SchoolSkillsStatsDTO>;
+  getSchoolComponentSkillsProgress(teacherId: number, grade?: string, classId?: number): Promise<SchoolComponentSkillProgressDTO[]>;
+  getSchoolComponentSkillsProgressBySchool(schoolId: number): Promise<SchoolComponentSkillProgressDTO[]>;
+  getSchoolSkillsStats(teacherId: number, grade?: string, classId?: number): Promise<SchoolSkillsStatsDTO>;
 }
 
 export class AssessmentStorage implements IAssessmentStorage {
@@ -115,7 +117,7 @@ export class AssessmentStorage implements IAssessmentStorage {
     return this.assessmentQueries.updateAssessment(id, updates);
   }
 
-  async deleteAssessment(id: number): Promise<void> {
+  async deleteAssessment(id: number): Promise<string[]> {
     return this.assessmentQueries.deleteAssessment(id);
   }
 
@@ -139,6 +141,26 @@ export class AssessmentStorage implements IAssessmentStorage {
     return this.submissionQueries.getSubmission(id);
   }
 
+  async getDraftSubmission(assessmentId: number, studentId: number): Promise<Submission | undefined> {
+    return this.submissionQueries.getDraftSubmission(assessmentId, studentId);
+  }
+
+  async saveDraftSubmission(assessmentId: number, studentId: number, responses: unknown): Promise<Submission> {
+    return this.submissionQueries.saveDraftSubmission(assessmentId, studentId, responses);
+  }
+
+  async finalizeDraftSubmission(draftId: number, submission: InsertSubmission): Promise<Submission> {
+    return this.submissionQueries.finalizeDraftSubmission(draftId, submission);
+  }
+
+  async startSubmissionAttempt(assessmentId: number, studentId: number): Promise<Submission> {
+    return this.submissionQueries.startSubmissionAttempt(assessmentId, studentId);
+  }
+
+  async getSubmissionAttempts(assessmentId: number, studentId: number): Promise<Submission[]> {
+    return this.submissionQueries.getSubmissionAttempts(assessmentId, studentId);
+  }
+
   async getSubmissionsByStudent(studentId: number): Promise<SubmissionWithAssessment[]> {
     return this.submissionQueries.getSubmissionsByStudent(studentId);
   }
@@ -179,13 +201,6 @@ export class AssessmentStorage implements IAssessmentStorage {
     return this.gradeQueries.updateGrade(gradeId, updates);
   }
 
-  async awardStickersForGrades(studentId: number, grades: SubmissionGradeRecord[]): Promise<CredentialRecord[]> {
-    return this.gradeQueries.awardStickersForGrades(studentId, grades);
-  }
-
-  async checkAndAwardBadge(studentId: number, competencyId: number, gradedBy: number): Promise<CredentialRecord[]> {
-    return this.gradeQueries.checkAndAwardBadge(studentId, competencyId, gradedBy);
-  }
 
   async getSelfEvaluationsByAssessment(assessmentId: number): Promise<SelfEvaluation[]> {
     return this.selfEvaluationQueries.getSelfEvaluationsByAssessment(assessmentId);
@@ -214,12 +229,17 @@ export class AssessmentStorage implements IAssessmentStorage {
   async getSchoolComponentSkillsProgress(
     teacherId: number,
     grade?: string,
+    classId?: number,
   ): Promise<SchoolComponentSkillProgressDTO[]> {
-    return this.analyticsQueries.getSchoolComponentSkillsProgress(teacherId, grade);
+    return this.analyticsQueries.getSchoolComponentSkillsProgress(teacherId, grade, classId);
+  }
+
+  async getSchoolComponentSkillsProgressBySchool(schoolId: number): Promise<SchoolComponentSkillProgressDTO[]> {
+    return this.analyticsQueries.getSchoolComponentSkillsProgressBySchool(schoolId);
   }
 
-  async getSchoolSkillsStats(teacherId: number, grade?: string): Promise<SchoolSkillsStatsDTO> {
-    return this.analyticsQueries.getSchoolSkillsStats(teacherId, grade);
+  async getSchoolSkillsStats(teacherId: number, grade?: string, classId?: number): Promise<SchoolSkillsStatsDTO> {
+    return this.analyticsQueries.getSchoolSkillsStats(teacherId, grade, classId);
   }
 }
 
@@ -1,4 +1,4 @@
-import { aiService, type AIService } from "../ai";
+import { aiService, tutorSessionService, type AIService, type ITutorSessionService } from "../ai";
 import {
   assessmentProjectGateway,
   type AssessmentProjectGateway,
@@ -13,6 +13,7 @@ interface AssessmentsDomainDependencies {
   storage?: IAssessmentStorage;
   projectGateway?: AssessmentProjectGateway;
   ai?: AIService;
+  tutorSessions?: ITutorSessionService;
 }
 
 export function createAssessmentsDomain(
@@ -21,9 +22,10 @@ export function createAssessmentsDomain(
   const storage = dependencies.storage ?? assessmentStorage;
   const projectGateway = dependencies.projectGateway ?? assessmentProjectGateway;
   const ai = dependencies.ai ?? aiService;
+  const tutorSessions = dependencies.tutorSessions ?? tutorSessionService;
 
   const service = new AssessmentService(storage, projectGateway);
-  const assessmentController = new AssessmentController(service, projectGateway);
+  const assessmentController = new AssessmentController(service, projectGateway, tutorSessions);
   const submissionController = new SubmissionController(service, projectGateway);
   const selfEvaluationController = new SelfEvaluationController(service, ai, projectGateway);
 
@@ -0,0 +1,230 @@
+import type {
+  ItemAnalysisOptionDTO,
+  ItemAnalysisQuestionDTO,
+  MultipleChoiceQuestionResultDTO,
+  MultipleChoiceScoreDTO,
+} from "../../../shared/contracts/api";
+import { parseQuestionOptions } from "../../../shared/question-types";
+
+type RubricLevel = "emerging" | "developing" | "proficient" | "applying";
+
+interface MultipleChoiceKey {
+  questionId: string;
+  text: string;
+  options: string[];
+  correctAnswer: string;
+  points: number;
+}
+
+export const DEFAULT_MULTIPLE_CHOICE_POINTS = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function normalizeAnswer(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function getQuestionId(question: Record<string, unknown>, index: number): string {
+  if (typeof question.id === "string" || typeof question.id === "number") {
+    return String(question.id);
+  }
+  return String(index);
+}
+
+/**
+ * Multiple-choice questions that carry a correct answer matching one of their
+ * options. Anything else is left for the teacher or the AI to grade.
+ */
+function getMultipleChoiceKeys(questions: unknown): MultipleChoiceKey[] {
+  if (!Array.isArray(questions)) {
+    return [];
+  }
+
+  return questions.flatMap((question, index) => {
+    if (!isRecord(question) || question.type !== "multiple-choice") {
+      return [];
+    }
+
+    const options = parseQuestionOptions(question.options);
+    const correctAnswer = typeof question.correctAnswer === "string" ? question.correctAnswer : "";
+    const matchingOption = options.find((option) => normalizeAnswer(option) === normalizeAnswer(correctAnswer));
+    if (!correctAnswer.trim() || !matchingOption) {
+      return [];
+    }
+
+    const points = typeof question.points === "number" && question.points > 0
+      ? question.points
+      : DEFAULT_MULTIPLE_CHOICE_POINTS;
+
+    return [{
+      questionId: getQuestionId(question, index),
+      text: typeof question.text === "string" ? question.text : "",
+      options,
+      correctAnswer: matchingOption,
+      points,
+    }];
+  });
+}
+
+function getAnswerMap(responses: unknown): Map<string, string> {
+  const answers = new Map<string, string>();
+
+  if (Array.isArray(responses)) {
+    responses.forEach((response, index) => {
+      if (typeof response === "string") {
+        answers.set(String(index), response);
+        return;
+      }
+      if (isRecord(response) && typeof response.answer === "string") {
+        const questionId = typeof response.questionId === "string" || typeof response.questionId === "number"
+          ? String(response.questionId)
+          : String(index);
+        answers.set(questionId, response.answer);
+      }
+    });
+    return answers;
+  }
+
+  if (isRecord(responses)) {
+    Object.entries(responses).forEach(([questionId, answer]) => {
+      if (typeof answer === "string") {
+        answers.set(questionId, answer);
+      }
+    });
+  }
+
+  return answers;
+}
+
+/**
+ * True when every question can be scored from its answer key, so grading
+ * never needs the model.
+ */
+export function isFullyAutoGradable(questions: unknown): boolean {
+  return Array.isArray(questions) &&
+    questions.length > 0 &&
+    getMultipleChoiceKeys(questions).length === questions.length;
+}
+
+export function scoreMultipleChoiceResponses(
+  questions: unknown,
+  responses: unknown,
+): MultipleChoiceScoreDTO | null {
+  const keys = getMultipleChoiceKeys(questions);
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const answers = getAnswerMap(responses);
+  const results: MultipleChoiceQuestionResultDTO[] = keys.map((key) => {
+    const answer = answers.get(key.questionId) ?? null;
+    const isCorrect = answer !== null && normalizeAnswer(answer) === normalizeAnswer(key.correctAnswer);
+    return {
+      questionId: key.questionId,
+      answer,
+      correctAnswer: key.correctAnswer,
+      isCorrect,
+      points: key.points,
+      earnedPoints: isCorrect ? key.points : 0,
+    };
+  });
+
+  const totalPoints = results.reduce((sum, result) => sum + result.points, 0);
+  const earnedPoints = results.reduce((sum, result) => sum + result.earnedPoints, 0);
+
+  return {
+    earnedPoints,
+    totalPoints,
+    percentage: totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0,
+    correctCount: results.filter((result) => result.isCorrect).length,
+    questionCount: results.length,
+    results,
+  };
+}
+
+export function getRubricLevelForPercentage(percentage: number): { rubricLevel: RubricLevel; score: number } {
+  if (percentage >= 90) {
+    return { rubricLevel: "applying", score: 4 };
+  }
+  if (percentage >= 75) {
+    return { rubricLevel: "proficient", score: 3 };
+  }
+  if (percentage >= 50) {
+    return { rubricLevel: "developing", score: 2 };
+  }
+  return { rubricLevel: "emerging", score: 1 };
+}
+
+export function buildItemAnalysis(questions: unknown, submissionResponses: unknown[]): ItemAnalysisQuestionDTO[] {
+  const keys = getMultipleChoiceKeys(questions);
+  const answerMaps = submissionResponses.map(getAnswerMap);
+
+  return keys.map((key) => {
+    const optionCounts = new Map<string, number>(key.options.map((option) => [option, 0]));
+    let otherCount = 0;
+    let unansweredCount = 0;
+
+    answerMaps.forEach((answers) => {
+      const answer = answers.get(key.questionId);
+      if (answer === undefined || !answer.trim()) {
+        unansweredCount += 1;
+        return;
+      }
+
+      const option = key.options.find((candidate) => normalizeAnswer(candidate) === normalizeAnswer(answer));
+      if (option === undefined) {
+        otherCount += 1;
+        return;
+      }
+      optionCounts.set(option, (optionCounts.get(option) ?? 0) + 1);
+    });
+
+    const responseCount = answerMaps.length;
+    const options: ItemAnalysisOptionDTO[] = key.options.map((option) => {
+      const count = optionCounts.get(option) ?? 0;
+      return {
+        option,
+        count,
+        percentage: responseCount > 0 ? Math.round((count / responseCount) * 100) : 0,
+        isCorrect: option === key.correctAnswer,
+      };
+    });
+    const correctCount = optionCounts.get(key.correctAnswer) ?? 0;
+
+    return {
+      questionId: key.questionId,
+      text: key.text,
+      correctAnswer: key.correctAnswer,
+      points: key.points,
+      responseCount,
+      correctCount,
+      percentCorrect: responseCount > 0 ? Math.round((correctCount / responseCount) * 100) : 0,
+      unansweredCount,
+      otherCount,
+      options,
+    };
+  });
+}
+
+/**
+ * Drops the correct answers from a stored auto-grade result so a student who
+ * can still resubmit sees which questions were wrong but not the key.
+ */
+export function hideCorrectAnswers<T>(autoGradeResult: T): T {
+  if (!isRecord(autoGradeResult) || !Array.isArray(autoGradeResult.results)) {
+    return autoGradeResult;
+  }
+
+  return {
+    ...autoGradeResult,
+    results: autoGradeResult.results.map((result) => {
+      if (!isRecord(result)) {
+        return result;
+      }
+      const { correctAnswer: _correctAnswer, ...rest } = result;
+      return rest;
+    }),
+  };
+}
@@ -11,6 +11,7 @@ import type { AssessmentService } from "../assessments.service";
 import type { AssessmentProjectGateway } from "../assessment-project-gateway";
 import { canTeacherManageAssessment } from "../assessment-ownership";
 import { canUserAccessAssessment, filterAccessibleAssessments } from "../assessment-access";
+import { stripAnswerKeys } from "../../../../shared/question-types";
 
 export function registerAssessmentCoreRoutes(
   router: Router,
@@ -85,6 +86,10 @@ export function registerAssessmentCoreRoutes(
         return res.status(403).json({ message: "Access denied" });
       }
 
+      if (req.user.role === UserRole.STUDENT) {
+        return res.json(stripAnswerKeys(assessment));
+      }
+
       res.json(assessment);
     } catch (error) {
       console.error("Error fetching assessment:", error);
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
+import { meterUsage } from "../../plans";
+import { auditContext, auditService } from "../../audit";
 import { validateIntParam, aiLimiter } from "../../../middleware/security";
 import { UserRole } from "../../../../shared/schema";
+import type { AssessmentItemAnalysisDTO } from "../../../../shared/contracts/api";
 import type { AssessmentService } from "../assessments.service";
 import type { AssessmentProjectGateway } from "../assessment-project-gateway";
 import { canTeacherManageAssessment } from "../assessment-ownership";
@@ -43,6 +46,11 @@ export function registerAssessmentLifecycleRoutes(
       }
 
       await service.deleteAssessment(assessmentId);
+      await auditService.record(auditContext(req), {
+        action: "assessment.delete",
+        target: { type: "assessment", id: assessmentId, label: assessment.title },
+        before: { title: assessment.title, milestoneId: assessment.milestoneId, createdBy: assessment.createdBy },
+      });
       res.json({ message: "Assessment deleted successfully" });
     } catch (error) {
       console.error("Error deleting assessment:", error);
@@ -55,7 +63,7 @@ export function registerAssessmentLifecycleRoutes(
     }
   });
 
-  router.post('/milestones/:id/generate-assessment', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), aiLimiter, async (req: AuthenticatedRequest, res) => {
+  router.post('/milestones/:id/generate-assessment', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), aiLimiter, meterUsage("ai_generation"), async (req: AuthenticatedRequest, res) => {
     try {
       const userId = req.user!.id;
 
@@ -111,4 +119,29 @@ export function registerAssessmentLifecycleRoutes(
       res.status(500).json({ message: "Failed to fetch submissions" });
     }
   });
+
+  router.get('/:id/item-analysis', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), async (req: AuthenticatedRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const assessmentId = parseInt(req.params.id);
+      const assessment = await service.getAssessment(assessmentId);
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+
+      const canAccess = await canUserAccessAssessment(assessment, req.user, projectGateway);
+      if (!canAccess) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const itemAnalysis: AssessmentItemAnalysisDTO = await service.getItemAnalysis(assessment);
+      res.json(itemAnalysis);
+    } catch (error) {
+      console.error("Error building item analysis:", error);
+      res.status(500).json({ message: "Failed to build item analysis" });
+    }
+  });
 }
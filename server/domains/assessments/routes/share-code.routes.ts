@@ -5,6 +5,7 @@ import { validateIntParam } from "../../../middleware/security";
 import type { AssessmentProjectGateway } from "../assessment-project-gateway";
 import { canTeacherManageAssessment } from "../assessment-ownership";
 import { canUserAccessAssessment } from "../assessment-access";
+import { stripAnswerKeys } from "../../../../shared/question-types";
 
 interface AssessmentShareCodeService {
   getAssessment(assessmentId: number): Promise<Assessment | undefined>;
@@ -68,7 +69,7 @@ export function registerAssessmentShareCodeRoutes(
       }
 
       if (req.user.role === "student") {
-        return res.json(assessment);
+        return res.json(stripAnswerKeys(assessment));
       }
 
       return res.json(assessment);
@@ -3,6 +3,7 @@ import { requireAuth, type AuthenticatedRequest } from "../../auth";
 import { validateIntParam } from "../../../middleware/security";
 import type { AssessmentService } from "../assessments.service";
 import type { AssessmentProjectGateway } from "../assessment-project-gateway";
+import { stripAnswerKeys } from "../../../../shared/question-types";
 
 export function registerAssessmentStudentRoutes(
   router: Router,
@@ -116,6 +117,9 @@ export function registerAssessmentStudentRoutes(
       }
 
       const submissionsWithCredentials = await service.getStudentAssessmentSubmissions(studentId);
+      if (role === 'student') {
+        return res.json(submissionsWithCredentials.map((submission) => stripAnswerKeys(submission)));
+      }
       res.json(submissionsWithCredentials);
     } catch (error) {
       console.error("Error fetching student assessment submissions:", error);
@@ -1,10 +1,11 @@
 import { Router } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
+import { parseOptionalIntQuery } from "../../../utils/routeHelpers";
 import { UserRole } from "../../../../shared/schema";
 
 interface AssessmentTeacherSkillsService {
-  getSchoolComponentSkillsProgress(teacherId: number, grade?: string): Promise<unknown>;
-  getSchoolSkillsStats(teacherId: number, grade?: string): Promise<unknown>;
+  getSchoolComponentSkillsProgress(teacherId: number, grade?: string, classId?: number): Promise<unknown>;
+  getSchoolSkillsStats(teacherId: number, grade?: string, classId?: number): Promise<unknown>;
 }
 
 export function registerAssessmentTeacherSkillsRoutes(
@@ -19,7 +20,8 @@ export function registerAssessmentTeacherSkillsRoutes(
 
       const teacherId = req.user!.id;
       const grade = typeof req.query.grade === "string" ? req.query.grade : undefined;
-      const skillsProgress = await service.getSchoolComponentSkillsProgress(teacherId, grade);
+      // Optional ?classId= narrows the school view to students enrolled in one class
+      const skillsProgress = await service.getSchoolComponentSkillsProgress(teacherId, grade, parseOptionalIntQuery(req.query.classId));
       res.json(skillsProgress);
     } catch (error) {
       console.error("Error fetching school component skills progress:", error);
@@ -35,7 +37,7 @@ export function registerAssessmentTeacherSkillsRoutes(
 
       const teacherId = req.user!.id;
       const grade = typeof req.query.grade === "string" ? req.query.grade : undefined;
-      const stats = await service.getSchoolSkillsStats(teacherId, grade);
+      const stats = await service.getSchoolSkillsStats(teacherId, grade, parseOptionalIntQuery(req.query.classId));
       res.json(stats);
     } catch (error) {
       console.error("Error fetching school skills stats:", error);
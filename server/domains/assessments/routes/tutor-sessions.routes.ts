@@ -0,0 +1,95 @@
+import { Router, type Response } from "express";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
+import { meterUsage } from "../../plans";
+import type { ITutorSessionService } from "../../ai";
+import { validateIntParam, aiLimiter } from "../../../middleware/security";
+import { NotFoundError } from "../../../utils/errorTypes";
+import { UserRole, type Assessment } from "../../../../shared/schema";
+import type { AssessmentService } from "../assessments.service";
+import type { AssessmentProjectGateway } from "../assessment-project-gateway";
+import { canUserAccessAssessment } from "../assessment-access";
+
+// Teacher views of students' AI tutor conversations on one assessment
+export function registerAssessmentTutorSessionRoutes(
+  router: Router,
+  service: AssessmentService,
+  projectGateway: AssessmentProjectGateway,
+  tutorSessions: ITutorSessionService,
+) {
+  // Sends the 404/403 itself and returns null when the teacher can't see the assessment
+  async function loadAccessibleAssessment(req: AuthenticatedRequest, res: Response): Promise<Assessment | null> {
+    const assessment = await service.getAssessment(parseInt(req.params.id));
+    if (!assessment) {
+      res.status(404).json({ message: "Assessment not found" });
+      return null;
+    }
+
+    const canAccess = await canUserAccessAssessment(assessment, req.user!, projectGateway);
+    if (!canAccess) {
+      res.status(403).json({ message: "Access denied" });
+      return null;
+    }
+    return assessment;
+  }
+
+  router.get('/:id/tutor-sessions', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const assessment = await loadAccessibleAssessment(req, res);
+      if (!assessment) {
+        return;
+      }
+
+      const search = typeof req.query.search === "string" ? req.query.search : undefined;
+      res.json(await tutorSessions.listSessions(assessment.id, req.user!, search));
+    } catch (error) {
+      console.error("Error fetching tutor sessions:", error);
+      res.status(500).json({ message: "Failed to fetch tutor sessions" });
+    }
+  });
+
+  router.get('/:id/tutor-sessions/:sessionId', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), validateIntParam('sessionId'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const assessment = await loadAccessibleAssessment(req, res);
+      if (!assessment) {
+        return;
+      }
+
+      res.json(await tutorSessions.getSession(assessment.id, parseInt(req.params.sessionId), req.user!));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return res.status(404).json({ message: "Tutor session not found" });
+      }
+      console.error("Error fetching tutor session:", error);
+      res.status(500).json({ message: "Failed to fetch tutor session" });
+    }
+  });
+
+  router.get('/:id/tutor-misconceptions', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const assessment = await loadAccessibleAssessment(req, res);
+      if (!assessment) {
+        return;
+      }
+
+      res.json(await tutorSessions.getMisconceptions(assessment.id));
+    } catch (error) {
+      console.error("Error fetching tutor misconceptions:", error);
+      res.status(500).json({ message: "Failed to fetch tutor misconceptions" });
+    }
+  });
+
+  // Re-reads the latest conversations for every skill; returns only the skills it summarized
+  router.post('/:id/tutor-misconceptions/refresh', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('id'), aiLimiter, meterUsage('ai_generation'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const assessment = await loadAccessibleAssessment(req, res);
+      if (!assessment) {
+        return;
+      }
+
+      res.json(await tutorSessions.refreshMisconceptions(assessment.id));
+    } catch (error) {
+      console.error("Error summarizing tutor misconceptions:", error);
+      res.status(500).json({ message: "Failed to summarize tutor misconceptions" });
+    }
+  });
+}
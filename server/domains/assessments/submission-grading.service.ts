@@ -5,11 +5,19 @@ import type {
   Submission,
 } from "../../../shared/schema";
 import type {
+  MultipleChoiceScoreDTO,
   SubmissionGradeItemDTO,
   SubmissionGradeRequestDTO,
 } from "../../../shared/contracts/api";
+import { formatAnswerForDisplay, stripAnswerKeys } from "../../../shared/question-types";
+import type { AiSkillGrade } from "../ai";
 import type { AssessmentService } from "./assessments.service";
 import type { CredentialRecord, SubmissionGradeRecord } from "./assessments.contracts";
+import {
+  getRubricLevelForPercentage,
+  isFullyAutoGradable,
+  scoreMultipleChoiceResponses,
+} from "./multiple-choice-scoring";
 
 interface SubmissionGradeInput {
   submissionId: number;
@@ -31,7 +39,7 @@ interface PreviewFeedbackInput {
 }
 
 type ExistingGradeRef = { id: number };
-type QuestionRecord = { text?: string };
+type QuestionRecord = { text?: string; type?: unknown };
 type GradeWriteScore = string | number | null | undefined;
 type RubricLevel = "emerging" | "developing" | "proficient" | "applying";
 
@@ -39,7 +47,7 @@ export interface GradeSubmissionResult {
   grades: SubmissionGradeRecord[];
   feedback: string | null | undefined;
   submission: Awaited<ReturnType<AssessmentService["updateSubmission"]>>;
-  stickersAwarded: CredentialRecord[];
+  credentialsAwarded: CredentialRecord[];
 }
 
 export interface PreviewFeedbackResult {
@@ -88,8 +96,21 @@ export class SubmissionGradingService {
 
     let finalFeedback = feedback;
     const finalGrade = grade;
-
-    if (generateAiFeedback) {
+    const autoGradeResult = isFullyAutoGradable(assessment.questions)
+      ? scoreMultipleChoiceResponses(assessment.questions, submission.responses)
+      : null;
+
+    if (generateAiFeedback && autoGradeResult) {
+      // Every question has an answer key, so grade deterministically without the model
+      if (!manualGradeItems || manualGradeItems.length === 0) {
+        savedGrades = await Promise.all(
+          this.buildAutoGradeItems(assessment, autoGradeResult).map((gradeItem) =>
+            this.upsertGrade(submissionId, graderId, gradeItem),
+          ),
+        );
+      }
+      finalFeedback = feedback ?? this.buildAutoGradeFeedback(autoGradeResult);
+    } else if (generateAiFeedback) {
       try {
         const pdfContent = await this.extractPdfText(assessment.pdfUrl);
 
@@ -116,7 +137,7 @@ export class SubmissionGradingService {
     if (finalGrade !== undefined) {
       updateData.grade = finalGrade;
     }
-    if (generateAiFeedback) {
+    if (generateAiFeedback && !autoGradeResult) {
       updateData.aiGeneratedFeedback = true;
     }
 
@@ -125,16 +146,24 @@ export class SubmissionGradingService {
       updateData as unknown as Partial<InsertSubmission>,
     );
 
-    let awardedStickers: CredentialRecord[] = [];
+    let credentialsAwarded: CredentialRecord[] = [];
     if (savedGrades.length > 0 && submission.studentId != null) {
-      awardedStickers = await this.service.awardStickersForGrades(submission.studentId, savedGrades);
+      // Awarding is a side effect of grading; a rules problem must not lose the saved grades
+      try {
+        credentialsAwarded = await this.service.awardCredentialsForStudent(
+          submission.studentId,
+          graderId ?? assessment.createdBy ?? null,
+        );
+      } catch (error) {
+        console.error("Error awarding credentials after grading:", error);
+      }
     }
 
     return {
       grades: savedGrades,
       feedback: finalFeedback,
       submission: updatedSubmission,
-      stickersAwarded: awardedStickers,
+      credentialsAwarded,
     };
   }
 
@@ -163,7 +192,7 @@ export class SubmissionGradingService {
     const question = questions[questionIndex];
     const questionText = this.sanitizeForPrompt(question.text ?? "");
     const responseText = this.sanitizeForPrompt(
-      this.getResponseForQuestion(submission.responses, questionIndex),
+      formatAnswerForDisplay(question.type, this.getResponseForQuestion(submission.responses, questionIndex)),
     );
 
     if (!questionText || !responseText) {
@@ -193,9 +222,10 @@ export class SubmissionGradingService {
     });
 
     const pdfContent = await this.extractPdfText(assessment.pdfUrl);
+    // Students see this feedback before submitting, so the model must not see the answer key
     const aiSkillGrades = await this.generateAiGrades(
       draftSubmission,
-      assessment,
+      stripAnswerKeys(assessment),
       pdfContent,
     );
     const feedback = await this.service.generateStudentFeedback(draftSubmission, aiSkillGrades);
@@ -225,6 +255,7 @@ export class SubmissionGradingService {
           graderId,
           gradeItem,
           this.normalizeScoreForWrite(gradeItem.score),
+          gradeItem.promptVersion,
         ),
       ),
     );
@@ -234,7 +265,7 @@ export class SubmissionGradingService {
     submission: Submission,
     assessment: Assessment,
     pdfContent: string | undefined,
-  ): Promise<SubmissionGradeItemDTO[]> {
+  ): Promise<AiSkillGrade[]> {
     const componentSkillIds = Array.isArray(assessment.componentSkillIds)
       ? assessment.componentSkillIds.filter((id): id is number => typeof id === "number")
       : [];
@@ -261,11 +292,35 @@ export class SubmissionGradingService {
     );
   }
 
+  private buildAutoGradeItems(
+    assessment: Assessment,
+    autoGradeResult: MultipleChoiceScoreDTO,
+  ): SubmissionGradeItemDTO[] {
+    const componentSkillIds = Array.isArray(assessment.componentSkillIds)
+      ? assessment.componentSkillIds.filter((id): id is number => typeof id === "number")
+      : [];
+    const { rubricLevel, score } = getRubricLevelForPercentage(autoGradeResult.percentage);
+
+    return componentSkillIds.map((componentSkillId) => ({
+      componentSkillId,
+      rubricLevel,
+      score,
+      feedback: this.buildAutoGradeFeedback(autoGradeResult),
+    }));
+  }
+
+  private buildAutoGradeFeedback(autoGradeResult: MultipleChoiceScoreDTO): string {
+    const { correctCount, questionCount, earnedPoints, totalPoints, percentage } = autoGradeResult;
+    return `Answered ${correctCount} of ${questionCount} multiple-choice questions correctly (${earnedPoints}/${totalPoints} points, ${percentage}%).`;
+  }
+
+  // Grades from a request are the teacher's own, so only model suggestions carry a prompt version
   private async upsertGrade(
     submissionId: number,
     graderId: number | null,
     gradeItem: SubmissionGradeItemDTO,
     createScoreOverride?: GradeWriteScore,
+    aiPromptVersion: string | null = null,
   ): Promise<SubmissionGradeRecord> {
     const existingGradeRaw = await this.service.getExistingGrade(
       submissionId,
@@ -279,6 +334,7 @@ export class SubmissionGradingService {
         score: normalizedScore,
         feedback: gradeItem.feedback ?? null,
         gradedBy: graderId,
+        aiPromptVersion,
       });
     }
 
@@ -289,6 +345,7 @@ export class SubmissionGradingService {
       score: this.normalizeCreateScore(createScoreOverride ?? gradeItem.score),
       feedback: gradeItem.feedback ?? null,
       gradedBy: graderId,
+      aiPromptVersion,
     });
   }
 
@@ -342,7 +399,7 @@ export class SubmissionGradingService {
 
     return value.filter(this.isRecord).map((question) => {
       const textVal = typeof question.text === "string" ? question.text : (typeof question.question === "string" ? question.question : "");
-      return { text: textVal };
+      return { text: textVal, type: question.type };
     });
   }
 
@@ -395,6 +452,13 @@ export class SubmissionGradingService {
       studentId: input.studentId,
       responses: input.responses,
       artifacts: null,
+      isDraft: true,
+      lastSavedAt: null,
+      startedAt: null,
+      isLate: false,
+      autoGradeResult: null,
+      attemptNumber: 1,
+      previousSubmissionId: null,
       submittedAt: null,
       gradedAt: null,
       feedback: null,
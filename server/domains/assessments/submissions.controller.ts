@@ -1,9 +1,16 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { type AssessmentService } from './assessments.service';
 import { requireAuth, requireRole, type AuthenticatedRequest } from '../auth';
-import { UserRole } from '../../../shared/schema';
+import { auditContext, auditService } from '../audit';
+import { UserRole, type Assessment, type Submission } from '../../../shared/schema';
+import type { AuditSnapshot } from '../../../shared/audit';
+import type { SubmissionGradeSummaryRecord } from './assessments.contracts';
 import type {
+  SubmissionAttemptDTO,
+  SubmissionAttemptHistoryDTO,
   SubmissionCreateRequestDTO,
+  SubmissionDraftDTO,
   SubmissionFeedbackPreviewRequestDTO,
   SubmissionFeedbackPreviewResponseDTO,
   SubmissionDTO,
@@ -20,6 +27,34 @@ import {
 } from "./assessment-project-gateway";
 import { canUserAccessAssessment } from "./assessment-access";
 import { canTeacherManageAssessment } from "./assessment-ownership";
+import { evaluateAttemptEligibility, hasAttemptsLeft, type AttemptEligibility } from "./assessment-attempts";
+import { hideCorrectAnswers } from "./multiple-choice-scoring";
+import {
+  evaluateSubmissionTiming,
+  getAssessmentWindowStatus,
+  getAttemptExpiresAt,
+} from "./assessment-timing";
+
+const draftSaveSchema = z.object({
+  responses: z.array(z.object({
+    questionId: z.union([z.string().max(100), z.number()]),
+    answer: z.string().max(20000),
+  })).max(200),
+});
+
+// Feedback plus one `skill <id>` entry per graded component skill, so the audit diff shows which levels moved
+function gradeAuditSnapshot(
+  submission: Pick<Submission, "feedback">,
+  grades: SubmissionGradeSummaryRecord[],
+): AuditSnapshot {
+  const snapshot: AuditSnapshot = { feedback: submission.feedback ?? null };
+  grades.forEach((grade) => {
+    if (grade.componentSkillId !== null) {
+      snapshot[`skill ${grade.componentSkillId}`] = { rubricLevel: grade.rubricLevel, score: grade.score };
+    }
+  });
+  return snapshot;
+}
 
 export class SubmissionController {
   private static readonly FEEDBACK_PREVIEW_LIMIT = 3;
@@ -47,22 +82,45 @@ export class SubmissionController {
         }
 
         const payload: SubmissionCreateRequestDTO = req.body;
+        let isLate = false;
+        let attemptNumber = 1;
+        let previousSubmissionId: number | null = null;
+        let canResubmit = false;
 
         if (typeof payload.assessmentId === "number") {
-          const existingSubmissions = await this.service.getSubmissionsByStudent(userId);
-          const alreadySubmitted = existingSubmissions.some(
-            (sub) => sub.assessmentId === payload.assessmentId
-          );
-          if (alreadySubmitted) {
-            return res.status(400).json({ message: "Assessment already submitted" });
+          const assessment = await this.service.getAssessment(payload.assessmentId);
+          if (!assessment) {
+            return res.status(404).json({ message: "Assessment not found" });
+          }
+
+          const attempts = await this.service.getSubmissionAttempts(payload.assessmentId, userId);
+          const eligibility = evaluateAttemptEligibility(assessment, attempts);
+          if (!eligibility.allowed) {
+            return res.status(400).json({ message: eligibility.message });
+          }
+          attemptNumber = eligibility.attemptNumber;
+          previousSubmissionId = eligibility.previousSubmissionId;
+          canResubmit = hasAttemptsLeft(assessment, attempts.length + 1);
+
+          const draft = await this.service.getDraftSubmission(payload.assessmentId, userId);
+          const timing = evaluateSubmissionTiming(assessment, draft?.startedAt);
+          if (!timing.allowed) {
+            return res.status(403).json({ message: timing.message });
           }
+          isLate = timing.isLate;
         }
 
-        const submission: SubmissionDTO = await this.service.createSubmission(payload, userId);
+        const submission: SubmissionDTO = await this.service.createSubmission(payload, userId, {
+          isLate,
+          attemptNumber,
+          previousSubmissionId,
+        });
         if (typeof payload.assessmentId === "number") {
           this.clearFeedbackPreviewCount(req, userId, payload.assessmentId);
         }
-        res.json(submission);
+        res.json(canResubmit
+          ? { ...submission, autoGradeResult: hideCorrectAnswers(submission.autoGradeResult) }
+          : submission);
         if (typeof submission.id === "number") {
           this.enqueueAutoGradeSubmission(submission.id);
         }
@@ -119,10 +177,10 @@ export class SubmissionController {
           return res.status(403).json({ message: "Access denied" });
         }
 
-        const existingSubmissions = await this.service.getSubmissionsByStudent(req.user.id);
-        const alreadySubmitted = existingSubmissions.some((submission) => submission.assessmentId === assessmentId);
-        if (alreadySubmitted) {
-          return res.status(400).json({ message: "Assessment already submitted" });
+        const attempts = await this.service.getSubmissionAttempts(assessmentId, req.user.id);
+        const eligibility = evaluateAttemptEligibility(assessment, attempts);
+        if (!eligibility.allowed) {
+          return res.status(400).json({ message: eligibility.message });
         }
 
         const usedCount = this.getFeedbackPreviewCount(req, req.user.id, assessmentId);
@@ -161,6 +219,92 @@ export class SubmissionController {
       }
     });
 
+    // Record when the student starts an assessment so time limits are enforced server-side
+    router.post('/start/:assessmentId', requireAuth, validateIntParam('assessmentId'), async (req: AuthenticatedRequest, res) => {
+      try {
+        const assessmentId = parseInt(req.params.assessmentId);
+        const access = await this.checkDraftAccess(req.user, assessmentId);
+        if (!access.allowed || !access.assessment || !access.eligibility) {
+          return res.status(access.status).json({ message: access.message });
+        }
+
+        const windowStatus = getAssessmentWindowStatus(access.assessment);
+        if (windowStatus === "not_open") {
+          return res.status(403).json({ message: "This assessment is not open yet" });
+        }
+        if (windowStatus === "closed") {
+          return res.status(403).json({ message: "This assessment is closed" });
+        }
+
+        const attempt = await this.service.startSubmissionAttempt(assessmentId, req.user!.id);
+        const responseBody: SubmissionAttemptDTO = {
+          assessmentId,
+          startedAt: attempt.startedAt,
+          expiresAt: getAttemptExpiresAt(access.assessment, attempt.startedAt),
+          serverTime: new Date(),
+          attemptNumber: access.eligibility.attemptNumber,
+          maxAttempts: access.assessment.maxAttempts ?? null,
+          previousSubmissionId: access.eligibility.previousSubmissionId,
+        };
+        res.json(responseBody);
+      } catch (error) {
+        console.error("Error starting assessment attempt:", error);
+        res.status(500).json({ message: "Failed to start assessment" });
+      }
+    });
+
+    // Get the student's latest autosaved draft for an assessment
+    router.get('/drafts/:assessmentId', requireAuth, validateIntParam('assessmentId'), async (req: AuthenticatedRequest, res) => {
+      try {
+        const assessmentId = parseInt(req.params.assessmentId);
+        const access = await this.checkDraftAccess(req.user, assessmentId);
+        if (!access.allowed) {
+          return res.status(access.status).json({ message: access.message });
+        }
+
+        const draft = await this.service.getDraftSubmission(assessmentId, req.user!.id);
+        res.json(draft ? this.toDraftDTO(draft) : null);
+      } catch (error) {
+        console.error("Error fetching submission draft:", error);
+        res.status(500).json({ message: "Failed to fetch draft" });
+      }
+    });
+
+    // Autosave the student's in-progress responses
+    router.put('/drafts/:assessmentId', requireAuth, validateIntParam('assessmentId'), async (req: AuthenticatedRequest, res) => {
+      try {
+        const assessmentId = parseInt(req.params.assessmentId);
+        const parseResult = draftSaveSchema.safeParse(req.body);
+        if (!parseResult.success) {
+          return res.status(400).json({
+            message: "Invalid draft payload",
+            errors: parseResult.error.errors,
+          });
+        }
+
+        const access = await this.checkDraftAccess(req.user, assessmentId);
+        if (!access.allowed || !access.assessment) {
+          return res.status(access.status).json({ message: access.message });
+        }
+
+        const existingDraft = await this.service.getDraftSubmission(assessmentId, req.user!.id);
+        const timing = evaluateSubmissionTiming(access.assessment, existingDraft?.startedAt);
+        if (!timing.allowed) {
+          return res.status(403).json({ message: timing.message });
+        }
+
+        const draft = await this.service.saveDraftSubmission(
+          assessmentId,
+          req.user!.id,
+          parseResult.data.responses,
+        );
+        res.json(this.toDraftDTO(draft));
+      } catch (error) {
+        console.error("Error saving submission draft:", error);
+        res.status(500).json({ message: "Failed to save draft" });
+      }
+    });
+
     // Get individual submission by ID
     router.get('/:id', requireAuth, validateIntParam('id'), async (req: AuthenticatedRequest, res) => {
       try {
@@ -177,6 +321,50 @@ export class SubmissionController {
       }
     });
 
+    // Every attempt in this submission's revision history, oldest first, with its grades
+    router.get('/:id/attempts', requireAuth, validateIntParam('id'), async (req: AuthenticatedRequest, res) => {
+      try {
+        const submissionId = parseInt(req.params.id);
+        const access = await this.checkSubmissionAccess(req.user, submissionId);
+        if (!access.allowed || !access.submission) {
+          return res.status(access.status).json({ message: access.message });
+        }
+
+        const { assessmentId, studentId } = access.submission;
+        if (assessmentId == null || studentId == null) {
+          return res.status(400).json({ message: "Submission has no assessment" });
+        }
+
+        const assessment = await this.service.getAssessment(assessmentId);
+        const attempts = await this.service.getSubmissionAttempts(assessmentId, studentId);
+        const history: SubmissionAttemptHistoryDTO = {
+          assessmentId,
+          studentId,
+          maxAttempts: assessment?.maxAttempts ?? null,
+          attempts: await Promise.all(
+            attempts.map(async (attempt) => ({
+              id: attempt.id,
+              attemptNumber: attempt.attemptNumber,
+              previousSubmissionId: attempt.previousSubmissionId,
+              responses: Array.isArray(attempt.responses) ? attempt.responses : [],
+              submittedAt: attempt.submittedAt,
+              gradedAt: attempt.gradedAt,
+              feedback: attempt.feedback,
+              isLate: attempt.isLate,
+              grades: (await this.service.getGradesBySubmission(attempt.id)).map((grade) => ({
+                ...grade,
+                submissionId: attempt.id,
+              })),
+            })),
+          ),
+        };
+        res.json(history);
+      } catch (error) {
+        console.error("Error fetching submission attempts:", error);
+        res.status(500).json({ message: "Failed to fetch submission attempts" });
+      }
+    });
+
     // Grade submission route - teacher and admin only
     router.post('/:submissionId/grade', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIntParam('submissionId'), async (req: AuthenticatedRequest, res) => {
       try {
@@ -189,6 +377,10 @@ export class SubmissionController {
           return res.status(400).json({ message: "Submission has no assessment" });
         }
 
+        if (submission.isDraft) {
+          return res.status(400).json({ message: "Draft submissions cannot be graded" });
+        }
+
         const assessment = await this.service.getAssessment(submission.assessmentId);
         if (!assessment) {
           return res.status(404).json({ message: "Assessment not found" });
@@ -203,6 +395,7 @@ export class SubmissionController {
           }
         }
 
+        const gradesBefore = await this.service.getGradesBySubmission(submissionId);
         const gradeRequest: SubmissionGradeRequestDTO = req.body;
         const rawBody = this.toRecord(req.body);
         const generateAiFeedback =
@@ -215,6 +408,15 @@ export class SubmissionController {
           generateAiFeedback,
         });
 
+        await auditService.record(auditContext(req), {
+          action: "submission.grade",
+          target: { type: "submission", id: submissionId, label: assessment.title },
+          before: gradeAuditSnapshot(submission, gradesBefore),
+          after: gradeAuditSnapshot(
+            { feedback: result.submission?.feedback ?? submission.feedback },
+            await this.service.getGradesBySubmission(submissionId),
+          ),
+        });
         res.json(result);
       } catch (error) {
         if (error instanceof SubmissionHttpError) {
@@ -377,6 +579,56 @@ export class SubmissionController {
     }
   }
 
+  private toDraftDTO(draft: SubmissionDTO): SubmissionDraftDTO {
+    return {
+      id: draft.id,
+      assessmentId: draft.assessmentId!,
+      responses: Array.isArray(draft.responses) ? draft.responses : [],
+      lastSavedAt: draft.lastSavedAt,
+    };
+  }
+
+  private async checkDraftAccess(
+    user: AuthenticatedRequest["user"],
+    assessmentId: number,
+  ): Promise<{
+    allowed: boolean;
+    status: number;
+    message: string;
+    assessment?: Assessment;
+    eligibility?: AttemptEligibility;
+  }> {
+    if (!user) {
+      return { allowed: false, status: 401, message: "Unauthorized" };
+    }
+
+    if (user.role !== UserRole.STUDENT) {
+      return { allowed: false, status: 403, message: "Only students can save drafts" };
+    }
+
+    const assessment = await this.service.getAssessment(assessmentId);
+    if (!assessment) {
+      return { allowed: false, status: 404, message: "Assessment not found" };
+    }
+
+    if (assessment.assessmentType !== "teacher") {
+      return { allowed: false, status: 400, message: "Drafts are only available for teacher assessments" };
+    }
+
+    const canAccess = await canUserAccessAssessment(assessment, user, this.projectGateway);
+    if (!canAccess) {
+      return { allowed: false, status: 403, message: "Access denied" };
+    }
+
+    const attempts = await this.service.getSubmissionAttempts(assessmentId, user.id);
+    const eligibility = evaluateAttemptEligibility(assessment, attempts);
+    if (!eligibility.allowed) {
+      return { allowed: false, status: 400, message: eligibility.message ?? "No attempts remaining" };
+    }
+
+    return { allowed: true, status: 200, message: "OK", assessment, eligibility };
+  }
+
   private async checkSubmissionAccess(
     user: AuthenticatedRequest["user"],
     submissionId: number,
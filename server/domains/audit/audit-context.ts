@@ -0,0 +1,6 @@
+import type { AuthenticatedRequest } from "../auth";
+import type { AuditContext } from "./audit.service";
+
+export function auditContext(req: AuthenticatedRequest): AuditContext {
+  return { actor: req.user!, ipAddress: req.ip ?? null };
+}
@@ -0,0 +1,63 @@
+import { AUDIT_ACTION_LABELS, type AuditChanges, type AuditSnapshot } from "../../../shared/audit";
+import type { AuditLogEntry } from "../../../shared/schema";
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/** Keeps only the fields that differ; null when there is nothing worth recording. */
+export function diffAuditValues(
+  before: AuditSnapshot | null | undefined,
+  after: AuditSnapshot | null | undefined,
+): AuditChanges | null {
+  if (!before && !after) {
+    return null;
+  }
+  if (!before || !after) {
+    return { before: before ?? null, after: after ?? null };
+  }
+
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach((key) => {
+    if (!sameValue(before[key], after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  });
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatChanges(changes: AuditChanges | null, side: keyof AuditChanges): string | null {
+  const values = changes?.[side];
+  return values ? JSON.stringify(values) : null;
+}
+
+/** The CSV export: one row per entry, newest first, with the diff as JSON columns. */
+export function formatAuditLogCsv(entries: AuditLogEntry[]): string {
+  const rows: Array<Array<string | number | null>> = [
+    ["time", "actor", "actor role", "action", "target type", "target id", "target", "before", "after", "ip address"],
+  ];
+  entries.forEach((entry) => {
+    rows.push([
+      entry.createdAt.toISOString(),
+      entry.actorUsername,
+      entry.actorRole,
+      AUDIT_ACTION_LABELS[entry.action],
+      entry.targetType,
+      entry.targetId,
+      entry.targetLabel,
+      formatChanges(entry.changes, "before"),
+      formatChanges(entry.changes, "after"),
+      entry.ipAddress,
+    ]);
+  });
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
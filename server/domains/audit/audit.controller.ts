@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { auditService, type IAuditService } from "./audit.service";
+import { authStorage, requireAuth, requireRole, type AuthenticatedRequest, type IAuthStorage } from "../auth";
+import { createSuccessResponse, resolveSchoolId, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+
+export class AuditController {
+  constructor(
+    private service: IAuditService = auditService,
+    private users: Pick<IAuthStorage, "getUser"> = authStorage,
+  ) {}
+
+  // Create Express router with the audit log routes (school admins only, scoped to their school)
+  createRouter(): Router {
+    const router = Router();
+    router.use(requireAuth, requireRole(UserRole.ADMIN));
+
+    // Newest first; filter with action, targetType, search, from, to, page and pageSize
+    router.get("/", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        createSuccessResponse(res, await this.service.search(schoolId, req.query));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch audit log");
+      }
+    });
+
+    // Same filters as the search, without paging
+    router.get("/export.csv", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        const csv = await this.service.exportCsv(schoolId, req.query);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        res.send(csv);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to export audit log");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const auditController = new AuditController();
+export const auditRouter = auditController.createRouter();
@@ -0,0 +1,84 @@
+import { auditStorage, type IAuditStorage } from "./audit.storage";
+import { diffAuditValues, formatAuditLogCsv } from "./audit-log";
+import {
+  auditLogQuerySchema,
+  type AuditAction,
+  type AuditSnapshot,
+  type AuditTargetType,
+} from "../../../shared/audit";
+import type { AuditLogPageDTO } from "../../../shared/contracts/api";
+import type { User } from "../../../shared/schema";
+import { ValidationError } from "../../utils/errorTypes";
+
+// Exports past this many rows should be narrowed with filters
+const AUDIT_EXPORT_LIMIT = 10000;
+
+/** Who acted and from where; built from the request with `auditContext`. */
+export interface AuditContext {
+  actor: Pick<User, "id" | "username" | "role" | "schoolId">;
+  ipAddress: string | null;
+}
+
+export interface AuditEvent {
+  action: AuditAction;
+  target: { type: AuditTargetType; id: number; label?: string | null };
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+export interface IAuditService {
+  record(context: AuditContext, event: AuditEvent): Promise<void>;
+  search(schoolId: number, query: unknown): Promise<AuditLogPageDTO>;
+  exportCsv(schoolId: number, query: unknown): Promise<string>;
+}
+
+function parseQuery(query: unknown) {
+  const parsed = auditLogQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    throw new ValidationError("Invalid audit log filters");
+  }
+  return parsed.data;
+}
+
+export class AuditService implements IAuditService {
+  constructor(private storage: IAuditStorage = auditStorage) {}
+
+  // The audited action has already happened, so a failed write is logged rather than surfaced
+  async record(context: AuditContext, event: AuditEvent): Promise<void> {
+    try {
+      await this.storage.insertEntry({
+        schoolId: context.actor.schoolId,
+        actorId: context.actor.id,
+        actorUsername: context.actor.username,
+        actorRole: context.actor.role,
+        action: event.action,
+        targetType: event.target.type,
+        targetId: event.target.id,
+        targetLabel: event.target.label ?? null,
+        changes: diffAuditValues(event.before, event.after),
+        ipAddress: context.ipAddress,
+      });
+    } catch (error) {
+      console.error(`Error writing audit log entry (${event.action}):`, error);
+    }
+  }
+
+  async search(schoolId: number, query: unknown): Promise<AuditLogPageDTO> {
+    const { page, pageSize, ...filters } = parseQuery(query);
+    const { entries, total } = await this.storage.searchEntries(schoolId, filters, pageSize, (page - 1) * pageSize);
+    return {
+      entries: entries.map(({ schoolId: _schoolId, ...entry }) => entry),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async exportCsv(schoolId: number, query: unknown): Promise<string> {
+    const { page: _page, pageSize: _pageSize, ...filters } = parseQuery(query);
+    const { entries } = await this.storage.searchEntries(schoolId, filters, AUDIT_EXPORT_LIMIT, 0);
+    return formatAuditLogCsv(entries);
+  }
+}
+
+export const auditService = new AuditService();
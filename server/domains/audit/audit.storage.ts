@@ -0,0 +1,70 @@
+import { and, count, desc, eq, gte, ilike, lte, or, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import { auditLogs, type AuditLogEntry, type InsertAuditLogEntry } from "../../../shared/schema";
+import type { AuditLogQuery } from "../../../shared/audit";
+
+export type AuditLogFilters = Omit<AuditLogQuery, "page" | "pageSize">;
+
+function filterConditions(schoolId: number, filters: AuditLogFilters): SQL | undefined {
+  const conditions: SQL[] = [eq(auditLogs.schoolId, schoolId)];
+  if (filters.action) {
+    conditions.push(eq(auditLogs.action, filters.action));
+  }
+  if (filters.targetType) {
+    conditions.push(eq(auditLogs.targetType, filters.targetType));
+  }
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    const matches = or(ilike(auditLogs.actorUsername, pattern), ilike(auditLogs.targetLabel, pattern));
+    if (matches) {
+      conditions.push(matches);
+    }
+  }
+  if (filters.from) {
+    conditions.push(gte(auditLogs.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(auditLogs.createdAt, filters.to));
+  }
+  return and(...conditions);
+}
+
+// Append-only by design: there is no update or delete
+export interface IAuditStorage {
+  insertEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  searchEntries(
+    schoolId: number,
+    filters: AuditLogFilters,
+    limit: number,
+    offset: number,
+  ): Promise<{ entries: AuditLogEntry[]; total: number }>;
+}
+
+export class AuditStorage implements IAuditStorage {
+  async insertEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLogs).values(entry).returning();
+    return created;
+  }
+
+  async searchEntries(
+    schoolId: number,
+    filters: AuditLogFilters,
+    limit: number,
+    offset: number,
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const where = filterConditions(schoolId, filters);
+    const [entries, [totalRow]] = await Promise.all([
+      db
+        .select()
+        .from(auditLogs)
+        .where(where)
+        .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ value: count() }).from(auditLogs).where(where),
+    ]);
+    return { entries, total: totalRow?.value ?? 0 };
+  }
+}
+
+export const auditStorage = new AuditStorage();
@@ -0,0 +1,14 @@
+// Export controller and router
+export { auditRouter, AuditController } from './audit.controller';
+
+// Export service
+export {
+  auditService,
+  type IAuditService,
+  type AuditContext,
+  type AuditEvent,
+} from './audit.service';
+export { auditContext } from './audit-context';
+
+// Export storage
+export { auditStorage, type IAuditStorage } from './audit.storage';
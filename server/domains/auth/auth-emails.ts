@@ -0,0 +1,48 @@
+import type { User } from '../../../shared/schema';
+import type { MailMessage } from '../../integrations/mail';
+
+type EmailUser = Pick<User, 'firstName'> & { email: string };
+
+function greeting(user: EmailUser): string {
+  return user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderLinkEmail(user: EmailUser, subject: string, lines: string[], label: string, link: string): MailMessage {
+  return {
+    to: user.email,
+    subject,
+    text: [greeting(user), '', ...lines, '', `${label}: ${link}`, ''].join('\n'),
+    html: [
+      `<p>${escapeHtml(greeting(user))}</p>`,
+      ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+      `<p><a href="${escapeHtml(link)}">${escapeHtml(label)}</a></p>`,
+    ].join('\n'),
+  };
+}
+
+export function renderPasswordResetEmail(user: EmailUser, token: string, baseUrl: string): MailMessage {
+  return renderLinkEmail(
+    user,
+    'Reset your MasteryMap password',
+    [
+      'We received a request to reset your password. The link below works once and expires in 1 hour.',
+      "If you didn't ask for this, you can ignore this email; your password won't change.",
+    ],
+    'Reset password',
+    `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`,
+  );
+}
+
+export function renderEmailConfirmationEmail(user: EmailUser, token: string, baseUrl: string): MailMessage {
+  return renderLinkEmail(
+    user,
+    'Confirm your MasteryMap email address',
+    ['Please confirm this is your email address. The link below expires in 24 hours.'],
+    'Confirm email',
+    `${baseUrl}/confirm-email?token=${encodeURIComponent(token)}`,
+  );
+}
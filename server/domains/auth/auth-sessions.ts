@@ -0,0 +1,127 @@
+import type { AuthToken } from '../../../shared/schema';
+import type { AuthSessionDTO } from '../../../shared/contracts/api';
+
+// Concurrent refreshes from several tabs can present the just-rotated token; don't treat that as theft
+export const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export type RefreshTokenState = 'valid' | 'missing' | 'expired' | 'rotated' | 'reused';
+
+type SessionTokenFields = Pick<AuthToken, 'type' | 'expiresAt' | 'rotatedAt'>;
+
+/**
+ * Classifies a stored refresh token. `rotated` is a replaced token seen again
+ * within the grace window; `reused` is one seen after it, which means the
+ * token leaked and the whole session should be revoked.
+ */
+export function classifyRefreshToken(
+  record: SessionTokenFields | undefined,
+  now: Date = new Date(),
+): RefreshTokenState {
+  if (!record || record.type !== 'refresh') {
+    return 'missing';
+  }
+  if (record.rotatedAt) {
+    return now.getTime() - record.rotatedAt.getTime() <= REFRESH_REUSE_GRACE_MS ? 'rotated' : 'reused';
+  }
+  return record.expiresAt.getTime() <= now.getTime() ? 'expired' : 'valid';
+}
+
+export function normalizeClientInfo(client: SessionClientInfo = {}): { userAgent: string | null; ipAddress: string | null } {
+  return {
+    userAgent: client.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+    ipAddress: client.ipAddress?.replace(/^::ffff:/, '').slice(0, 64) || null,
+  };
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/** A short human-readable label such as "Chrome on Windows" for the sessions list. */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? 'Unknown device';
+}
+
+type SessionRow = Pick<
+  AuthToken,
+  'id' | 'sessionId' | 'userAgent' | 'ipAddress' | 'createdAt' | 'lastUsedAt' | 'expiresAt' | 'rotatedAt' | 'type'
+>;
+
+// Refresh tokens issued before sessions existed get their own id until they rotate into a session
+export function sessionKeyFor(row: Pick<AuthToken, 'id' | 'sessionId'>): string {
+  return row.sessionId ?? `legacy-${row.id}`;
+}
+
+export function parseLegacySessionKey(sessionKey: string): number | null {
+  const match = sessionKey.match(/^legacy-(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * One entry per session from its live (unrotated, unexpired) refresh token.
+ * `signedInAt` is the oldest token seen for the session, which is the login
+ * time as long as its rotated predecessors haven't been cleaned up yet.
+ */
+export function summarizeSessions(
+  rows: SessionRow[],
+  currentSessionId: string | null,
+  now: Date = new Date(),
+): AuthSessionDTO[] {
+  const signedInAt = new Map<string, Date>();
+  rows.forEach((row) => {
+    const sessionId = sessionKeyFor(row);
+    const earliest = signedInAt.get(sessionId);
+    if (row.createdAt && (!earliest || row.createdAt < earliest)) {
+      signedInAt.set(sessionId, row.createdAt);
+    }
+  });
+
+  return rows
+    .filter((row) => classifyRefreshToken(row, now) === 'valid')
+    .map((row) => {
+      const sessionId = sessionKeyFor(row);
+      return {
+        id: sessionId,
+        device: describeUserAgent(row.userAgent),
+        userAgent: row.userAgent,
+        ipAddress: row.ipAddress,
+        signedInAt: signedInAt.get(sessionId) ?? row.createdAt,
+        lastUsedAt: row.lastUsedAt ?? row.createdAt,
+        current: sessionId === currentSessionId,
+      };
+    })
+    .sort((a, b) => {
+      if (a.current !== b.current) {
+        return a.current ? -1 : 1;
+      }
+      return new Date(b.lastUsedAt ?? 0).getTime() - new Date(a.lastUsedAt ?? 0).getTime();
+    });
+}
@@ -0,0 +1,106 @@
+import type { SchoolSsoProvider, UpsertUser, User } from '../../../shared/schema';
+import type { SsoDomainRule, SsoErrorCode, SsoRole } from '../../../shared/school-sso';
+import type { SchoolSsoProviderDTO } from '../../../shared/contracts/api';
+import type { OidcIdTokenClaims } from '../../integrations/oidc';
+
+export const SSO_STATE_COOKIE = 'sso_state';
+export const SSO_STATE_TTL_SECONDS = 10 * 60;
+export const SSO_CALLBACK_PATH = '/api/auth/sso/callback';
+
+/** Carried through the provider round trip in a signed, short-lived cookie. */
+export interface SsoLoginState {
+  schoolId: number;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export class SsoLoginError extends Error {
+  constructor(readonly code: SsoErrorCode, message: string = code) {
+    super(message);
+    this.name = 'SsoLoginError';
+    Object.setPrototypeOf(this, SsoLoginError.prototype);
+  }
+}
+
+export type SsoAccountResolution =
+  | { kind: 'existing'; user: User }
+  | { kind: 'link'; user: User }
+  | { kind: 'create' };
+
+export function emailDomainOf(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 && at < email.length - 1 ? email.slice(at + 1).trim().toLowerCase() : null;
+}
+
+/** The role for an email address under a school's rules, or null when its domain isn't allowed. */
+export function resolveSsoRole(email: string, rules: SsoDomainRule[]): SsoRole | null {
+  const domain = emailDomainOf(email);
+  return rules.find((rule) => rule.domain === domain)?.role ?? null;
+}
+
+// Google sends a boolean; some providers send the string "true"
+export function isEmailVerified(claims: Pick<OidcIdTokenClaims, 'email_verified'>): boolean {
+  return claims.email_verified === true || claims.email_verified === 'true';
+}
+
+/**
+ * Chooses the local account for a provider sign-in. A linked identity wins;
+ * otherwise an account with the same (verified) email is linked. Neither may
+ * belong to a different school, so one school's provider can't sign in to
+ * another school's accounts.
+ */
+export function resolveSsoAccount(
+  schoolId: number,
+  identityUser: User | undefined,
+  emailUser: User | undefined,
+): SsoAccountResolution {
+  const user = identityUser ?? emailUser;
+  if (!user) {
+    return { kind: 'create' };
+  }
+  if (user.schoolId !== schoolId) {
+    throw new SsoLoginError('account_conflict');
+  }
+  return identityUser ? { kind: 'existing', user } : { kind: 'link', user };
+}
+
+/** Fields for a just-in-time account; the password is an unusable random hash supplied by the caller. */
+export function buildSsoUser(
+  claims: OidcIdTokenClaims,
+  provider: Pick<SchoolSsoProvider, 'schoolId'>,
+  role: SsoRole,
+  passwordHash: string,
+): UpsertUser {
+  const email = claims.email!.trim().toLowerCase();
+  const [localPart] = email.split('@');
+  const nameParts = claims.name?.trim().split(/\s+/) ?? [];
+  return {
+    username: email,
+    password: passwordHash,
+    email,
+    emailVerifiedAt: new Date(),
+    firstName: claims.given_name?.trim() || nameParts[0] || localPart,
+    lastName: claims.family_name?.trim() || nameParts.slice(1).join(' ') || null,
+    role,
+    schoolId: provider.schoolId,
+    tier: 'enterprise',
+  };
+}
+
+// The client secret never leaves the server; admins only see whether one is stored
+export function toSchoolSsoProviderDTO(provider: SchoolSsoProvider): SchoolSsoProviderDTO {
+  return {
+    displayName: provider.displayName,
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+    hasClientSecret: Boolean(provider.clientSecret),
+    allowedDomains: provider.allowedDomains,
+    enabled: provider.enabled,
+    updatedAt: provider.updatedAt,
+  };
+}
+
+export function ssoErrorCodeFor(error: unknown): SsoErrorCode {
+  return error instanceof SsoLoginError ? error.code : 'failed';
+}
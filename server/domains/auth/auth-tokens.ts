@@ -0,0 +1,40 @@
+import { createHash, randomBytes } from 'crypto';
+import type { AuthToken } from '../../../shared/schema';
+
+export type EmailLinkTokenType = Extract<AuthToken['type'], 'reset' | 'confirmation'>;
+
+export const EMAIL_LINK_TOKEN_TTL_MS: Record<EmailLinkTokenType, number> = {
+  reset: 60 * 60 * 1000, // 1 hour
+  confirmation: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+// A new link isn't emailed while the previous one is younger than this
+export const EMAIL_LINK_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export function generateEmailLinkToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/** Email link tokens are stored hashed so a leaked auth_tokens row can't be used to reset a password. */
+export function hashEmailLinkToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+export function emailLinkTokenExpiry(type: EmailLinkTokenType, now: Date = new Date()): Date {
+  return new Date(now.getTime() + EMAIL_LINK_TOKEN_TTL_MS[type]);
+}
+
+export function isEmailLinkTokenValid(
+  record: Pick<AuthToken, 'type' | 'expiresAt'> | undefined,
+  type: EmailLinkTokenType,
+  now: Date = new Date(),
+): boolean {
+  return !!record && record.type === type && record.expiresAt.getTime() > now.getTime();
+}
+
+export function isWithinResendCooldown(
+  latest: Pick<AuthToken, 'createdAt'> | undefined,
+  now: Date = new Date(),
+): boolean {
+  return !!latest?.createdAt && now.getTime() - latest.createdAt.getTime() < EMAIL_LINK_RESEND_COOLDOWN_MS;
+}
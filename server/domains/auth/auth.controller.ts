@@ -1,24 +1,36 @@
 import { Router, type NextFunction, type Request, type Response } from "express";
 import { z } from "zod";
 import {
+  confirmEmailSchema,
+  forgotPasswordSchema,
   loginSchema,
   registerSchema,
+  resetPasswordSchema,
   type UpsertUser,
   type User,
   UserRole,
 } from "../../../shared/schema";
 import type {
+  AuthConfirmEmailRequestDTO,
   AuthCurrentUserResponseDTO,
+  AuthForgotPasswordRequestDTO,
   AuthLoginRequestDTO,
   AuthLoginResponseDTO,
   AuthRegisterRequestDTO,
   AuthRegisterResponseDTO,
+  AuthResetPasswordRequestDTO,
+  AuthSessionDTO,
+  SchoolSsoSettingsDTO,
+  SsoDiscoveryDTO,
 } from "../../../shared/contracts/api";
+import type { SchoolSsoProviderInput } from "../../../shared/school-sso";
 import { authLimiter } from "../../middleware/security";
 import { createSuccessResponse, sendErrorResponse } from "../../utils/routeHelpers";
 import { isTransientDatabaseError, withDatabaseRetry } from "../../db";
 import type { IAuthStorage } from "./auth.storage";
 import type { JWTPayload } from "./auth.service";
+import type { SessionClientInfo } from "./auth-sessions";
+import { SSO_STATE_COOKIE, ssoErrorCodeFor } from "./auth-sso";
 
 export interface AuthenticatedRequest extends Request {
   user?: User;
@@ -26,12 +38,12 @@ export interface AuthenticatedRequest extends Request {
 
 export interface AuthServicePort {
   verifyAccessToken(token: string): JWTPayload | null;
-  registerUser(userData: UpsertUser): Promise<{
+  registerUser(userData: UpsertUser, client?: SessionClientInfo): Promise<{
     user: User;
     accessToken: string;
     refreshToken: string;
   }>;
-  loginUser(username: string, password: string): Promise<{
+  loginUser(username: string, password: string, client?: SessionClientInfo): Promise<{
     user: User;
     accessToken: string;
     refreshToken: string;
@@ -39,12 +51,32 @@ export interface AuthServicePort {
   setAuthCookies(res: Response, accessToken: string, refreshToken: string): void;
   revokeRefreshToken(token: string): Promise<void>;
   clearAuthCookies(res: Response): void;
-  refreshUserTokens(refreshToken: string): Promise<{
+  refreshUserTokens(refreshToken: string, client?: SessionClientInfo): Promise<{
     user: User;
     accessToken: string;
     refreshToken: string;
   }>;
   resetUserPassword(userId: number, newPassword: string, adminUser: User): Promise<void>;
+  requestPasswordReset(identifier: string): Promise<void>;
+  resetPasswordWithToken(token: string, newPassword: string): Promise<void>;
+  sendEmailConfirmation(user: User): Promise<void>;
+  confirmEmail(token: string): Promise<User>;
+  getUserSessions(userId: number, currentRefreshToken?: string): Promise<AuthSessionDTO[]>;
+  revokeSession(userId: number, sessionKey: string): Promise<boolean>;
+  revokeOtherSessions(userId: number, currentRefreshToken?: string): Promise<void>;
+  forceLogoutUser(userId: number, adminUser: User): Promise<void>;
+  setSsoStateCookie(res: Response, stateToken: string): void;
+  clearSsoStateCookie(res: Response): void;
+  discoverSsoProvider(email: string): Promise<SsoDiscoveryDTO | null>;
+  startSsoLogin(schoolId: number, loginHint?: string): Promise<{ authorizationUrl: string; stateToken: string }>;
+  completeSsoLogin(code: string, state: string, stateToken: string | undefined, client?: SessionClientInfo): Promise<{
+    user: User;
+    accessToken: string;
+    refreshToken: string;
+  }>;
+  getSchoolSsoSettings(schoolId: number): Promise<SchoolSsoSettingsDTO>;
+  saveSchoolSsoSettings(schoolId: number, input: SchoolSsoProviderInput): Promise<SchoolSsoSettingsDTO>;
+  deleteSchoolSsoSettings(schoolId: number): Promise<boolean>;
 }
 
 export type AuthStoragePort = Pick<
@@ -71,6 +103,10 @@ function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "Unknown error";
 }
 
+function getClientInfo(req: Request): SessionClientInfo {
+  return { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+}
+
 export function createRequireAuth(dependencies: {
   authService: Pick<AuthServicePort, "verifyAccessToken">;
   authStorage: Pick<AuthStoragePort, "getUser">;
@@ -92,7 +128,7 @@ export function createRequireAuth(dependencies: {
       }
 
       const user = await authStorage.getUser(payload.userId);
-      if (!user) {
+      if (!user || user.deactivatedAt) {
         sendErrorResponse(res, { message: "User not found", statusCode: 401 });
         return;
       }
@@ -155,11 +191,27 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
   const { authService, authStorage, requireAuth } = dependencies;
   const router = Router();
 
-  router.use("/login", authLimiter);
+  router.use(
+    ["/login", "/forgot-password", "/reset-password", "/confirm-email", "/resend-confirmation", "/sso"],
+    authLimiter,
+  );
 
   router.post("/register", async (req, res) => {
     try {
       const userData: AuthRegisterRequestDTO = registerSchema.parse(req.body);
+      // Guardian accounts are only created through an invite code, which links them to a student
+      if (userData.role === UserRole.GUARDIAN) {
+        sendErrorResponse(res, { message: "Guardian accounts need an invite code from the school", statusCode: 400 });
+        return;
+      }
+      if (userData.role === UserRole.DISTRICT_ADMIN) {
+        sendErrorResponse(res, { message: "District admin accounts are provisioned for the district", statusCode: 400 });
+        return;
+      }
+      if (userData.role === UserRole.ADMIN) {
+        sendErrorResponse(res, { message: "School admin accounts are provisioned for the school", statusCode: 400 });
+        return;
+      }
 
       const existingUser = await authStorage.getUserByUsername(userData.username);
       if (existingUser) {
@@ -171,7 +223,7 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
       const { user, accessToken, refreshToken } = await authService.registerUser({
         ...userData,
         tier,
-      });
+      }, getClientInfo(req));
 
       authService.setAuthCookies(res, accessToken, refreshToken);
       const userWithoutPassword: AuthRegisterResponseDTO = toAuthUserDTO(user);
@@ -200,7 +252,7 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
       const { username, password }: AuthLoginRequestDTO = loginSchema.parse(req.body);
 
       const { user, accessToken, refreshToken } = await withDatabaseRetry(
-        async () => authService.loginUser(username, password),
+        async () => authService.loginUser(username, password, getClientInfo(req)),
         {
           maxRetries: 2,
           baseDelayMs: 400,
@@ -221,6 +273,14 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
         return;
       }
 
+      if (error instanceof Error && error.message === "Account deactivated") {
+        sendErrorResponse(res, {
+          message: "This account has been deactivated. Contact your school administrator.",
+          statusCode: 403,
+        });
+        return;
+      }
+
       console.error("Login error:", error);
       sendErrorResponse(res, {
         message: "Invalid credentials",
@@ -257,7 +317,10 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
         return;
       }
 
-      const { accessToken, refreshToken: newRefreshToken } = await authService.refreshUserTokens(refreshToken);
+      const { accessToken, refreshToken: newRefreshToken } = await authService.refreshUserTokens(
+        refreshToken,
+        getClientInfo(req),
+      );
       authService.setAuthCookies(res, accessToken, newRefreshToken);
 
       createSuccessResponse(res, { message: "Tokens refreshed" });
@@ -318,6 +381,194 @@ export function createAuthRouter(dependencies: AuthRouterDependencies): Router {
     }
   });
 
+  router.post("/forgot-password", async (req, res) => {
+    try {
+      const { identifier }: AuthForgotPasswordRequestDTO = forgotPasswordSchema.parse(req.body);
+      await authService.requestPasswordReset(identifier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendErrorResponse(res, { message: "Invalid input", statusCode: 400, details: error.errors });
+        return;
+      }
+      // Logged but not reported, so the response never reveals whether an account exists
+      console.error("Forgot password error:", error);
+    }
+    createSuccessResponse(res, {
+      message: "If an account matches, a password reset link has been sent to its email address",
+    });
+  });
+
+  router.post("/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword }: AuthResetPasswordRequestDTO = resetPasswordSchema.parse(req.body);
+      await authService.resetPasswordWithToken(token, newPassword);
+      authService.clearAuthCookies(res);
+      createSuccessResponse(res, { message: "Password reset successfully. Please sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendErrorResponse(res, { message: "Invalid input", statusCode: 400, details: error.errors });
+        return;
+      }
+      if (getErrorMessage(error) === "Invalid or expired token") {
+        sendErrorResponse(res, { message: "This reset link is invalid or has expired", statusCode: 400 });
+        return;
+      }
+
+      console.error("Password reset error:", error);
+      sendErrorResponse(res, { message: "Password reset failed", statusCode: 500, error });
+    }
+  });
+
+  router.post("/confirm-email", async (req, res) => {
+    try {
+      const { token }: AuthConfirmEmailRequestDTO = confirmEmailSchema.parse(req.body);
+      await authService.confirmEmail(token);
+      createSuccessResponse(res, { message: "Email confirmed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        sendErrorResponse(res, { message: "Invalid input", statusCode: 400, details: error.errors });
+        return;
+      }
+      if (getErrorMessage(error) === "Invalid or expired token") {
+        sendErrorResponse(res, { message: "This confirmation link is invalid or has expired", statusCode: 400 });
+        return;
+      }
+
+      console.error("Email confirmation error:", error);
+      sendErrorResponse(res, { message: "Email confirmation failed", statusCode: 500, error });
+    }
+  });
+
+  router.post("/resend-confirmation", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      if (!req.user) {
+        sendErrorResponse(res, { message: "Not authenticated", statusCode: 401 });
+        return;
+      }
+
+      await authService.sendEmailConfirmation(req.user);
+      createSuccessResponse(res, { message: "Confirmation email sent" });
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      if (errorMessage === "Email already confirmed" || errorMessage === "No email address on file") {
+        sendErrorResponse(res, { message: errorMessage, statusCode: 400 });
+        return;
+      }
+      if (errorMessage === "Please wait before requesting another email") {
+        sendErrorResponse(res, { message: errorMessage, statusCode: 429 });
+        return;
+      }
+
+      console.error("Resend confirmation error:", error);
+      sendErrorResponse(res, { message: "Failed to send confirmation email", statusCode: 500, error });
+    }
+  });
+
+  router.get("/sessions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const sessions = await authService.getUserSessions(req.user!.id, req.cookies.refresh_token);
+      createSuccessResponse(res, sessions);
+    } catch (error) {
+      console.error("List sessions error:", error);
+      sendErrorResponse(res, { message: "Failed to fetch sessions", statusCode: 500, error });
+    }
+  });
+
+  // Signs out every other device; `?includeCurrent=true` signs out this one too
+  router.delete("/sessions", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const includeCurrent = req.query.includeCurrent === "true";
+      await authService.revokeOtherSessions(req.user!.id, includeCurrent ? undefined : req.cookies.refresh_token);
+      if (includeCurrent) {
+        authService.clearAuthCookies(res);
+      }
+      createSuccessResponse(res, { message: "Sessions revoked" });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      sendErrorResponse(res, { message: "Failed to revoke sessions", statusCode: 500, error });
+    }
+  });
+
+  router.delete("/sessions/:sessionId", requireAuth, async (req: AuthenticatedRequest, res) => {
+    try {
+      const sessions = await authService.getUserSessions(req.user!.id, req.cookies.refresh_token);
+      const revoked = await authService.revokeSession(req.user!.id, req.params.sessionId);
+      if (!revoked) {
+        sendErrorResponse(res, { message: "Session not found", statusCode: 404 });
+        return;
+      }
+
+      if (sessions.some((session) => session.current && session.id === req.params.sessionId)) {
+        authService.clearAuthCookies(res);
+      }
+      createSuccessResponse(res, { message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      sendErrorResponse(res, { message: "Failed to revoke session", statusCode: 500, error });
+    }
+  });
+
+  router.get("/sso/discover", async (req, res) => {
+    try {
+      const email = typeof req.query.email === "string" ? req.query.email.trim() : "";
+      if (!email.includes("@")) {
+        sendErrorResponse(res, { message: "A valid email address is required", statusCode: 400 });
+        return;
+      }
+
+      const discovery = await authService.discoverSsoProvider(email);
+      if (!discovery) {
+        sendErrorResponse(res, { message: "No single sign-on provider for this email domain", statusCode: 404 });
+        return;
+      }
+      createSuccessResponse(res, discovery);
+    } catch (error) {
+      console.error("SSO discovery error:", error);
+      sendErrorResponse(res, { message: "Failed to look up single sign-on", statusCode: 500, error });
+    }
+  });
+
+  // Browser navigations rather than API calls, so failures redirect back to the login page
+  router.get("/sso/:schoolId/start", async (req, res) => {
+    try {
+      const schoolId = Number.parseInt(req.params.schoolId, 10);
+      const loginHint = typeof req.query.login_hint === "string" ? req.query.login_hint : undefined;
+      const { authorizationUrl, stateToken } = await authService.startSsoLogin(schoolId, loginHint);
+      authService.setSsoStateCookie(res, stateToken);
+      res.redirect(302, authorizationUrl);
+    } catch (error) {
+      console.error("SSO start error:", error);
+      res.redirect(302, `/login?sso_error=${ssoErrorCodeFor(error)}`);
+    }
+  });
+
+  router.get("/sso/callback", async (req, res) => {
+    const stateToken: string | undefined = req.cookies[SSO_STATE_COOKIE];
+    authService.clearSsoStateCookie(res);
+
+    try {
+      if (typeof req.query.error === "string") {
+        console.error("SSO provider returned an error:", req.query.error, req.query.error_description);
+        res.redirect(302, "/login?sso_error=provider_error");
+        return;
+      }
+
+      const code = typeof req.query.code === "string" ? req.query.code : "";
+      const state = typeof req.query.state === "string" ? req.query.state : "";
+      const { accessToken, refreshToken } = await authService.completeSsoLogin(
+        code,
+        state,
+        stateToken,
+        getClientInfo(req),
+      );
+      authService.setAuthCookies(res, accessToken, refreshToken);
+      res.redirect(302, "/");
+    } catch (error) {
+      console.error("SSO callback error:", error);
+      res.redirect(302, `/login?sso_error=${ssoErrorCodeFor(error)}`);
+    }
+  });
+
   router.get("/user", requireAuth, async (req: AuthenticatedRequest, res) => {
     try {
       if (!req.user) {
@@ -355,7 +606,7 @@ export function createAnalyticsRouter(dependencies: AnalyticsRouterDependencies)
           return;
         }
 
-        const analyticsData = await authStorage.getAnalyticsDashboard(req.user.schoolId);
+        const analyticsData = await authStorage.getAnalyticsDashboard([req.user.schoolId]);
         createSuccessResponse(res, analyticsData);
       } catch (error) {
         console.error("Analytics error:", error);
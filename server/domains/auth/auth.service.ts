@@ -1,9 +1,48 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { randomBytes } from 'crypto';
+import { randomBytes, randomUUID } from 'crypto';
 import type { Response } from 'express';
 import { authStorage } from './auth.storage';
-import type { User, UpsertUser } from '../../../shared/schema';
+import {
+  emailLinkTokenExpiry,
+  generateEmailLinkToken,
+  hashEmailLinkToken,
+  isEmailLinkTokenValid,
+  isWithinResendCooldown,
+} from './auth-tokens';
+import { renderEmailConfirmationEmail, renderPasswordResetEmail } from './auth-emails';
+import {
+  classifyRefreshToken,
+  normalizeClientInfo,
+  sessionKeyFor,
+  summarizeSessions,
+  type SessionClientInfo,
+} from './auth-sessions';
+import {
+  buildSsoUser,
+  emailDomainOf,
+  isEmailVerified,
+  resolveSsoAccount,
+  resolveSsoRole,
+  SSO_CALLBACK_PATH,
+  SSO_STATE_COOKIE,
+  SSO_STATE_TTL_SECONDS,
+  SsoLoginError,
+  toSchoolSsoProviderDTO,
+  type SsoLoginState,
+} from './auth-sso';
+import { APP_BASE_URL, mailTransport } from '../../integrations/mail';
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  createRandomToken,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+} from '../../integrations/oidc';
+import type { AuthToken, User, UpsertUser } from '../../../shared/schema';
+import type { SchoolSsoProviderInput } from '../../../shared/school-sso';
+import type { AuthSessionDTO, SchoolSsoSettingsDTO, SsoDiscoveryDTO } from '../../../shared/contracts/api';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
@@ -50,32 +89,55 @@ export class AuthService {
     return randomBytes(32).toString('hex');
   }
 
-  static async storeRefreshToken(userId: number, token: string): Promise<void> {
+  static async storeRefreshToken(
+    userId: number,
+    token: string,
+    client: SessionClientInfo = {},
+    sessionId: string = randomUUID(),
+  ): Promise<void> {
     const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    await authStorage.deleteExpiredAuthTokens(userId);
     await authStorage.createAuthToken({
       userId,
       token,
       type: 'refresh',
       expiresAt,
+      sessionId,
+      ...normalizeClientInfo(client),
+      lastUsedAt: new Date(),
     });
   }
 
+  // Logging out ends the whole session, including its rotated predecessors
   static async revokeRefreshToken(token: string): Promise<void> {
+    const tokenRecord = await authStorage.getAuthToken(token);
+    if (tokenRecord?.type === 'refresh') {
+      await authStorage.deleteSession(tokenRecord.userId, sessionKeyFor(tokenRecord));
+      return;
+    }
     await authStorage.deleteAuthToken(token);
   }
 
-  static async validateRefreshToken(token: string): Promise<boolean> {
+  /**
+   * Returns the stored refresh token if it can be exchanged. A token that was
+   * already rotated is a replay: past the grace window the whole session is
+   * revoked, since either the legitimate client or an attacker holds a copy.
+   */
+  static async validateRefreshToken(token: string): Promise<AuthToken | null> {
     const tokenRecord = await authStorage.getAuthToken(token);
-    if (!tokenRecord || tokenRecord.type !== 'refresh') {
-      return false;
-    }
+    const state = classifyRefreshToken(tokenRecord);
 
-    if (tokenRecord.expiresAt < new Date()) {
+    if (state === 'reused' && tokenRecord) {
+      console.error(`Refresh token reuse detected for user ${tokenRecord.userId}; revoking session`);
+      await authStorage.deleteSession(tokenRecord.userId, sessionKeyFor(tokenRecord));
+      return null;
+    }
+    if (state === 'expired') {
       await authStorage.deleteAuthToken(token);
-      return false;
+      return null;
     }
 
-    return true;
+    return state === 'valid' ? tokenRecord! : null;
   }
 
   static setAuthCookies(res: Response, accessToken: string, refreshToken: string): void {
@@ -101,8 +163,23 @@ export class AuthService {
     res.clearCookie('refresh_token');
   }
 
+  // Lax rather than strict: the provider's redirect back to the callback is a cross-site navigation
+  static setSsoStateCookie(res: Response, stateToken: string): void {
+    res.cookie(SSO_STATE_COOKIE, stateToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/auth/sso',
+      maxAge: SSO_STATE_TTL_SECONDS * 1000,
+    });
+  }
+
+  static clearSsoStateCookie(res: Response): void {
+    res.clearCookie(SSO_STATE_COOKIE, { path: '/api/auth/sso' });
+  }
+
   // Business logic methods
-  static async registerUser(userData: UpsertUser): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+  static async registerUser(userData: UpsertUser, client: SessionClientInfo = {}): Promise<{ user: User; accessToken: string; refreshToken: string }> {
     // Check if user already exists
     const existingUser = await authStorage.getUserByUsername(userData.username);
     if (existingUser) {
@@ -126,12 +203,19 @@ export class AuthService {
     });
 
     // Store refresh token
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    await this.storeRefreshToken(user.id, tokens.refreshToken, client);
+
+    // Registration succeeds even if the confirmation email can't be sent; the user can request another
+    if (user.email) {
+      this.sendEmailConfirmation(user).catch((error) => {
+        console.error('Error sending email confirmation:', error);
+      });
+    }
 
     return { user, ...tokens };
   }
 
-  static async loginUser(username: string, password: string): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+  static async loginUser(username: string, password: string, client: SessionClientInfo = {}): Promise<{ user: User; accessToken: string; refreshToken: string }> {
     // Find user
     const user = await authStorage.getUserByUsername(username);
     if (!user) {
@@ -143,6 +227,9 @@ export class AuthService {
     if (!isValidPassword) {
       throw new Error('Invalid credentials');
     }
+    if (user.deactivatedAt) {
+      throw new Error('Account deactivated');
+    }
 
     // Generate tokens
     const tokens = this.generateTokens({
@@ -152,15 +239,18 @@ export class AuthService {
     });
 
     // Store refresh token
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    await this.storeRefreshToken(user.id, tokens.refreshToken, client);
 
     return { user, ...tokens };
   }
 
-  static async refreshUserTokens(refreshToken: string): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+  static async refreshUserTokens(
+    refreshToken: string,
+    client: SessionClientInfo = {},
+  ): Promise<{ user: User; accessToken: string; refreshToken: string }> {
     // Validate refresh token
-    const isValid = await this.validateRefreshToken(refreshToken);
-    if (!isValid) {
+    const tokenRecord = await this.validateRefreshToken(refreshToken);
+    if (!tokenRecord) {
       throw new Error('Invalid refresh token');
     }
 
@@ -172,7 +262,7 @@ export class AuthService {
 
     // Get user
     const user = await authStorage.getUser(payload.userId);
-    if (!user) {
+    if (!user || user.deactivatedAt) {
       throw new Error('User not found');
     }
 
@@ -183,13 +273,49 @@ export class AuthService {
       role: user.role,
     });
 
-    // Revoke old refresh token and store new one
-    await this.revokeRefreshToken(refreshToken);
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    // Rotate: keep the old token as a tripwire for reuse and continue the same session
+    await authStorage.markAuthTokenRotated(tokenRecord.id);
+    await this.storeRefreshToken(user.id, tokens.refreshToken, {
+      userAgent: client.userAgent ?? tokenRecord.userAgent,
+      ipAddress: client.ipAddress ?? tokenRecord.ipAddress,
+    }, tokenRecord.sessionId ?? randomUUID());
 
     return { user, ...tokens };
   }
 
+  static async getUserSessions(userId: number, currentRefreshToken?: string): Promise<AuthSessionDTO[]> {
+    const tokens = await authStorage.getRefreshTokensByUser(userId);
+    const current = currentRefreshToken ? tokens.find((token) => token.token === currentRefreshToken) : undefined;
+    return summarizeSessions(tokens, current ? sessionKeyFor(current) : null);
+  }
+
+  static async revokeSession(userId: number, sessionKey: string): Promise<boolean> {
+    return (await authStorage.deleteSession(userId, sessionKey)) > 0;
+  }
+
+  static async revokeOtherSessions(userId: number, currentRefreshToken?: string): Promise<void> {
+    const current = currentRefreshToken ? await authStorage.getAuthToken(currentRefreshToken) : undefined;
+    const keep = current && current.userId === userId && current.type === 'refresh' ? sessionKeyFor(current) : null;
+    await authStorage.deleteSessionsExcept(userId, keep);
+  }
+
+  static async forceLogoutUser(userId: number, adminUser: User): Promise<void> {
+    if (adminUser.role !== 'admin') {
+      throw new Error('Admin access required');
+    }
+
+    const targetUser = await authStorage.getUser(userId);
+    if (!targetUser) {
+      throw new Error('User not found');
+    }
+
+    if (!adminUser.schoolId || targetUser.schoolId !== adminUser.schoolId) {
+      throw new Error('Can only sign out users in your school');
+    }
+
+    await authStorage.deleteAuthTokensByUserId(userId, 'refresh');
+  }
+
   static async resetUserPassword(userId: number, newPassword: string, adminUser: User): Promise<void> {
     // Ensure admin access
     if (adminUser.role !== 'admin') {
@@ -213,4 +339,253 @@ export class AuthService {
     // Update the user's password
     await authStorage.updateUser(userId, { password: hashedPassword });
   }
-}
\ No newline at end of file
+
+  // Silently does nothing when no account matches so the endpoint can't be used to discover accounts
+  static async requestPasswordReset(identifier: string): Promise<void> {
+    const user = (await authStorage.getUserByUsername(identifier)) ?? (await authStorage.getUserByEmail(identifier));
+    if (!user?.email) {
+      return;
+    }
+
+    if (isWithinResendCooldown(await authStorage.getLatestAuthToken(user.id, 'reset'))) {
+      return;
+    }
+
+    const token = generateEmailLinkToken();
+    await authStorage.deleteAuthTokensByUserId(user.id, 'reset');
+    await authStorage.createAuthToken({
+      userId: user.id,
+      token: hashEmailLinkToken(token),
+      type: 'reset',
+      expiresAt: emailLinkTokenExpiry('reset'),
+    });
+    await mailTransport.send(renderPasswordResetEmail({ firstName: user.firstName, email: user.email }, token, APP_BASE_URL));
+  }
+
+  static async resetPasswordWithToken(token: string, newPassword: string): Promise<void> {
+    const tokenRecord = await authStorage.consumeAuthToken(hashEmailLinkToken(token), 'reset');
+    if (!isEmailLinkTokenValid(tokenRecord, 'reset')) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const user = await authStorage.getUser(tokenRecord!.userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const hashedPassword = await this.hashPassword(newPassword);
+    // Following the emailed link also proves the user owns the address
+    await authStorage.updateUser(user.id, {
+      password: hashedPassword,
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+    });
+
+    // Sign out every existing session and invalidate other outstanding reset links
+    await authStorage.deleteAuthTokensByUserId(user.id, 'refresh');
+    await authStorage.deleteAuthTokensByUserId(user.id, 'reset');
+  }
+
+  static async sendEmailConfirmation(user: User): Promise<void> {
+    if (!user.email) {
+      throw new Error('No email address on file');
+    }
+    if (user.emailVerifiedAt) {
+      throw new Error('Email already confirmed');
+    }
+    if (isWithinResendCooldown(await authStorage.getLatestAuthToken(user.id, 'confirmation'))) {
+      throw new Error('Please wait before requesting another email');
+    }
+
+    const token = generateEmailLinkToken();
+    await authStorage.deleteAuthTokensByUserId(user.id, 'confirmation');
+    await authStorage.createAuthToken({
+      userId: user.id,
+      token: hashEmailLinkToken(token),
+      type: 'confirmation',
+      expiresAt: emailLinkTokenExpiry('confirmation'),
+    });
+    await mailTransport.send(renderEmailConfirmationEmail({ firstName: user.firstName, email: user.email }, token, APP_BASE_URL));
+  }
+
+  static async confirmEmail(token: string): Promise<User> {
+    const tokenRecord = await authStorage.consumeAuthToken(hashEmailLinkToken(token), 'confirmation');
+    if (!isEmailLinkTokenValid(tokenRecord, 'confirmation')) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const user = await authStorage.getUser(tokenRecord!.userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return user.emailVerifiedAt ? user : await authStorage.updateUser(user.id, { emailVerifiedAt: new Date() });
+  }
+
+  // Single sign-on
+  static ssoRedirectUri(): string {
+    return `${APP_BASE_URL}${SSO_CALLBACK_PATH}`;
+  }
+
+  static async discoverSsoProvider(email: string): Promise<SsoDiscoveryDTO | null> {
+    const domain = emailDomainOf(email);
+    if (!domain) {
+      return null;
+    }
+
+    const provider = (await authStorage.getSsoProvidersByDomain(domain)).find((candidate) => candidate.enabled);
+    if (!provider) {
+      return null;
+    }
+
+    return {
+      schoolId: provider.schoolId,
+      displayName: provider.displayName,
+      startUrl: `/api/auth/sso/${provider.schoolId}/start?login_hint=${encodeURIComponent(email.trim())}`,
+    };
+  }
+
+  static async startSsoLogin(schoolId: number, loginHint?: string): Promise<{ authorizationUrl: string; stateToken: string }> {
+    const provider = await authStorage.getSsoProviderBySchool(schoolId);
+    if (!provider?.enabled) {
+      throw new SsoLoginError('not_configured');
+    }
+
+    const metadata = await discoverOidcProvider(provider.issuer);
+    const pkce = createPkcePair();
+    const loginState: SsoLoginState = {
+      schoolId,
+      state: createRandomToken(),
+      nonce: createRandomToken(),
+      codeVerifier: pkce.verifier,
+    };
+
+    return {
+      authorizationUrl: buildAuthorizationUrl(metadata, {
+        clientId: provider.clientId,
+        redirectUri: this.ssoRedirectUri(),
+        state: loginState.state,
+        nonce: loginState.nonce,
+        codeChallenge: pkce.challenge,
+        loginHint,
+      }),
+      stateToken: jwt.sign(loginState, JWT_SECRET, { expiresIn: SSO_STATE_TTL_SECONDS }),
+    };
+  }
+
+  /**
+   * Finishes an authorization code sign-in: checks the state cookie, verifies
+   * the ID token, then signs in the linked account, links an existing account
+   * with the same email in the school, or creates one with the role mapped
+   * from the email domain.
+   */
+  static async completeSsoLogin(
+    code: string,
+    state: string,
+    stateToken: string | undefined,
+    client: SessionClientInfo = {},
+  ): Promise<{ user: User; accessToken: string; refreshToken: string }> {
+    let loginState: SsoLoginState;
+    try {
+      loginState = jwt.verify(stateToken ?? '', JWT_SECRET) as SsoLoginState;
+    } catch (error) {
+      throw new SsoLoginError('invalid_state');
+    }
+    if (loginState.state !== state) {
+      throw new SsoLoginError('invalid_state');
+    }
+
+    const provider = await authStorage.getSsoProviderBySchool(loginState.schoolId);
+    if (!provider?.enabled) {
+      throw new SsoLoginError('not_configured');
+    }
+
+    const metadata = await discoverOidcProvider(provider.issuer);
+    const idToken = await exchangeAuthorizationCode(metadata, {
+      clientId: provider.clientId,
+      clientSecret: provider.clientSecret,
+      code,
+      redirectUri: this.ssoRedirectUri(),
+      codeVerifier: loginState.codeVerifier,
+    });
+    const claims = await verifyIdToken(metadata, idToken, { clientId: provider.clientId, nonce: loginState.nonce });
+
+    // Only a verified address can be trusted for domain rules and account linking
+    if (!claims.email || !isEmailVerified(claims)) {
+      throw new SsoLoginError('domain_not_allowed', 'Provider did not return a verified email address');
+    }
+    const email = claims.email.trim().toLowerCase();
+    const role = resolveSsoRole(email, provider.allowedDomains);
+    if (!role) {
+      throw new SsoLoginError('domain_not_allowed', `Email domain of ${email} is not allowed`);
+    }
+
+    const identityUser = await authStorage.getUserByIdentity(provider.issuer, claims.sub);
+    const emailUser = identityUser ? undefined : await authStorage.getUserByEmail(email);
+    const resolution = resolveSsoAccount(provider.schoolId, identityUser, emailUser);
+
+    let user: User;
+    if (resolution.kind === 'create') {
+      if (await authStorage.getUserByUsername(email)) {
+        throw new SsoLoginError('account_conflict', `Username ${email} is already taken`);
+      }
+      const unusablePassword = await this.hashPassword(randomBytes(32).toString('hex'));
+      user = await authStorage.createUser(buildSsoUser(claims, provider, role, unusablePassword));
+    } else if (resolution.kind === 'link' && !resolution.user.emailVerifiedAt) {
+      user = await authStorage.updateUser(resolution.user.id, { emailVerifiedAt: new Date() });
+    } else {
+      user = resolution.user;
+    }
+    if (user.deactivatedAt) {
+      throw new SsoLoginError('account_deactivated', `User ${user.id} is deactivated`);
+    }
+
+    await authStorage.linkUserIdentity({ userId: user.id, issuer: provider.issuer, subject: claims.sub, email });
+
+    const tokens = this.generateTokens({
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+    });
+    await this.storeRefreshToken(user.id, tokens.refreshToken, client);
+
+    return { user, ...tokens };
+  }
+
+  static async getSchoolSsoSettings(schoolId: number): Promise<SchoolSsoSettingsDTO> {
+    const provider = await authStorage.getSsoProviderBySchool(schoolId);
+    return {
+      provider: provider ? toSchoolSsoProviderDTO(provider) : null,
+      redirectUri: this.ssoRedirectUri(),
+    };
+  }
+
+  static async saveSchoolSsoSettings(schoolId: number, input: SchoolSsoProviderInput): Promise<SchoolSsoSettingsDTO> {
+    for (const rule of input.allowedDomains) {
+      const claimed = await authStorage.getSsoProvidersByDomain(rule.domain);
+      if (claimed.some((provider) => provider.schoolId !== schoolId)) {
+        throw new Error(`Email domain ${rule.domain} is already used by another school`);
+      }
+    }
+
+    // Fails with an OidcError when the issuer has no usable discovery document
+    await discoverOidcProvider(input.issuer);
+
+    const existing = await authStorage.getSsoProviderBySchool(schoolId);
+    const clientSecret = input.clientSecret === undefined ? existing?.clientSecret ?? null : input.clientSecret || null;
+    await authStorage.upsertSsoProvider({
+      schoolId,
+      displayName: input.displayName,
+      issuer: input.issuer,
+      clientId: input.clientId,
+      clientSecret,
+      allowedDomains: input.allowedDomains,
+      enabled: input.enabled,
+    });
+
+    return this.getSchoolSsoSettings(schoolId);
+  }
+
+  static async deleteSchoolSsoSettings(schoolId: number): Promise<boolean> {
+    return authStorage.deleteSsoProvider(schoolId);
+  }
+}
@@ -5,14 +5,20 @@ import {
   assessments,
   credentials,
   submissions,
+  schoolSsoProviders,
+  userIdentities,
   type User,
   type AuthToken,
   type InsertAuthToken,
+  type SchoolSsoProvider,
+  type InsertSchoolSsoProvider,
+  type InsertUserIdentity,
   UpsertUser,
   UserRole,
 } from "../../../shared/schema";
 import { db } from "../../db";
-import { eq, and, ne, sql } from "drizzle-orm";
+import { parseLegacySessionKey } from "./auth-sessions";
+import { eq, and, ne, sql, desc, lt, or, inArray } from "drizzle-orm";
 
 interface AnalyticsDashboardData {
   totalUsers: number;
@@ -64,6 +70,7 @@ export interface IAuthStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: UpsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<UpsertUser>): Promise<User>;
 
@@ -71,11 +78,27 @@ export interface IAuthStorage {
   createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
   getAuthToken(token: string): Promise<AuthToken | undefined>;
   deleteAuthToken(token: string): Promise<void>;
-  deleteAuthTokensByUserId(userId: number): Promise<void>;
+  deleteAuthTokensByUserId(userId: number, type?: AuthToken["type"]): Promise<void>;
+  consumeAuthToken(token: string, type: AuthToken["type"]): Promise<AuthToken | undefined>;
+  getLatestAuthToken(userId: number, type: AuthToken["type"]): Promise<AuthToken | undefined>;
+  getRefreshTokensByUser(userId: number): Promise<AuthToken[]>;
+  markAuthTokenRotated(id: number): Promise<void>;
+  deleteSession(userId: number, sessionKey: string): Promise<number>;
+  deleteSessionsExcept(userId: number, keepSessionKey: string | null): Promise<void>;
+  deleteExpiredAuthTokens(userId: number): Promise<void>;
+
+  // Single sign-on
+  getSsoProviderBySchool(schoolId: number): Promise<SchoolSsoProvider | undefined>;
+  getSsoProvidersByDomain(domain: string): Promise<SchoolSsoProvider[]>;
+  upsertSsoProvider(provider: InsertSchoolSsoProvider): Promise<SchoolSsoProvider>;
+  deleteSsoProvider(schoolId: number): Promise<boolean>;
+  getUserByIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  linkUserIdentity(identity: InsertUserIdentity): Promise<void>;
 
   // Admin operations
   getUsersBySchool(schoolId: number, excludeUserId: number): Promise<User[]>;
-  getAnalyticsDashboard(schoolId?: number): Promise<AnalyticsDashboardData>;
+  // Covers the given schools together, or every school when omitted
+  getAnalyticsDashboard(schoolIds?: number[]): Promise<AnalyticsDashboardData>;
   deleteUser(id: number): Promise<void>;
 }
 
@@ -114,6 +137,17 @@ export class AuthStorage implements IAuthStorage {
     return user;
   }
 
+  // Emails aren't unique, so the oldest account wins when several share one
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`)
+      .orderBy(users.id)
+      .limit(1);
+    return user;
+  }
+
   async createUser(userData: UpsertUser): Promise<User> {
     const [user] = await db.insert(users).values(userData).returning();
     return user;
@@ -146,8 +180,125 @@ export class AuthStorage implements IAuthStorage {
     await db.delete(authTokens).where(eq(authTokens.token, token));
   }
 
-  async deleteAuthTokensByUserId(userId: number): Promise<void> {
-    await db.delete(authTokens).where(eq(authTokens.userId, userId));
+  async deleteAuthTokensByUserId(userId: number, type?: AuthToken["type"]): Promise<void> {
+    await db
+      .delete(authTokens)
+      .where(type ? and(eq(authTokens.userId, userId), eq(authTokens.type, type)) : eq(authTokens.userId, userId));
+  }
+
+  // Deleting and returning in one statement keeps single-use tokens single-use under concurrent requests
+  async consumeAuthToken(token: string, type: AuthToken["type"]): Promise<AuthToken | undefined> {
+    const [tokenRecord] = await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.token, token), eq(authTokens.type, type)))
+      .returning();
+    return tokenRecord;
+  }
+
+  async getLatestAuthToken(userId: number, type: AuthToken["type"]): Promise<AuthToken | undefined> {
+    const [tokenRecord] = await db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.type, type)))
+      .orderBy(desc(authTokens.createdAt))
+      .limit(1);
+    return tokenRecord;
+  }
+
+  async getRefreshTokensByUser(userId: number): Promise<AuthToken[]> {
+    return await db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.type, "refresh")));
+  }
+
+  async markAuthTokenRotated(id: number): Promise<void> {
+    await db.update(authTokens).set({ rotatedAt: new Date() }).where(eq(authTokens.id, id));
+  }
+
+  private sessionCondition(sessionKey: string) {
+    const legacyId = parseLegacySessionKey(sessionKey);
+    return legacyId !== null ? eq(authTokens.id, legacyId) : eq(authTokens.sessionId, sessionKey);
+  }
+
+  async deleteSession(userId: number, sessionKey: string): Promise<number> {
+    const deleted = await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.type, "refresh"), this.sessionCondition(sessionKey)))
+      .returning({ id: authTokens.id });
+    return deleted.length;
+  }
+
+  async deleteSessionsExcept(userId: number, keepSessionKey: string | null): Promise<void> {
+    const legacyId = keepSessionKey ? parseLegacySessionKey(keepSessionKey) : null;
+    const keep = !keepSessionKey
+      ? undefined
+      : legacyId !== null
+        ? ne(authTokens.id, legacyId)
+        : or(sql`${authTokens.sessionId} is null`, ne(authTokens.sessionId, keepSessionKey));
+    await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.type, "refresh"), keep));
+  }
+
+  async deleteExpiredAuthTokens(userId: number): Promise<void> {
+    await db
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), lt(authTokens.expiresAt, new Date())));
+  }
+
+  // Single sign-on
+  async getSsoProviderBySchool(schoolId: number): Promise<SchoolSsoProvider | undefined> {
+    const [provider] = await db.select().from(schoolSsoProviders).where(eq(schoolSsoProviders.schoolId, schoolId));
+    return provider;
+  }
+
+  async getSsoProvidersByDomain(domain: string): Promise<SchoolSsoProvider[]> {
+    return await db
+      .select()
+      .from(schoolSsoProviders)
+      .where(sql`${schoolSsoProviders.allowedDomains} @> ${JSON.stringify([{ domain }])}::jsonb`)
+      .orderBy(schoolSsoProviders.id);
+  }
+
+  async upsertSsoProvider(provider: InsertSchoolSsoProvider): Promise<SchoolSsoProvider> {
+    const [saved] = await db
+      .insert(schoolSsoProviders)
+      .values(provider)
+      .onConflictDoUpdate({
+        target: schoolSsoProviders.schoolId,
+        set: { ...provider, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteSsoProvider(schoolId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schoolSsoProviders)
+      .where(eq(schoolSsoProviders.schoolId, schoolId))
+      .returning({ id: schoolSsoProviders.id });
+    return deleted.length > 0;
+  }
+
+  async getUserByIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  async linkUserIdentity(identity: InsertUserIdentity): Promise<void> {
+    const lastLoginAt = new Date();
+    await db
+      .insert(userIdentities)
+      .values({ ...identity, lastLoginAt })
+      .onConflictDoUpdate({
+        target: [userIdentities.issuer, userIdentities.subject],
+        set: { email: identity.email, lastLoginAt },
+      });
   }
 
   // Admin operations
@@ -160,29 +311,29 @@ export class AuthStorage implements IAuthStorage {
       ));
   }
 
-  async getAnalyticsDashboard(schoolId?: number): Promise<AnalyticsDashboardData> {
+  async getAnalyticsDashboard(schoolIds?: number[]): Promise<AnalyticsDashboardData> {
     const [allUsers, allProjects, allAssessments, allCredentials, allSubmissions] = await Promise.all([
-      schoolId
-        ? db.select().from(users).where(eq(users.schoolId, schoolId))
+      schoolIds
+        ? db.select().from(users).where(inArray(users.schoolId, schoolIds))
         : db.select().from(users),
-      schoolId
-        ? db.select().from(projects).where(eq(projects.schoolId, schoolId))
+      schoolIds
+        ? db.select().from(projects).where(inArray(projects.schoolId, schoolIds))
         : db.select().from(projects),
-      schoolId
+      schoolIds
         ? db
             .select({ id: assessments.id, createdAt: assessments.createdAt, title: assessments.title })
             .from(assessments)
             .innerJoin(users, eq(assessments.createdBy, users.id))
-            .where(eq(users.schoolId, schoolId))
+            .where(inArray(users.schoolId, schoolIds))
         : db.select({ id: assessments.id, createdAt: assessments.createdAt, title: assessments.title }).from(assessments),
-      schoolId
+      schoolIds
         ? db
             .select({ id: credentials.id, title: credentials.title, awardedAt: credentials.awardedAt })
             .from(credentials)
             .innerJoin(users, eq(credentials.studentId, users.id))
-            .where(eq(users.schoolId, schoolId))
+            .where(inArray(users.schoolId, schoolIds))
         : db.select({ id: credentials.id, title: credentials.title, awardedAt: credentials.awardedAt }).from(credentials),
-      schoolId
+      schoolIds
         ? db
             .select({
               id: submissions.id,
@@ -193,7 +344,7 @@ export class AuthStorage implements IAuthStorage {
             .from(submissions)
             .innerJoin(assessments, eq(submissions.assessmentId, assessments.id))
             .innerJoin(users, eq(assessments.createdBy, users.id))
-            .where(eq(users.schoolId, schoolId))
+            .where(and(inArray(users.schoolId, schoolIds), eq(submissions.isDraft, false)))
         : db
             .select({
               id: submissions.id,
@@ -201,7 +352,8 @@ export class AuthStorage implements IAuthStorage {
               submittedAt: submissions.submittedAt,
               gradedAt: submissions.gradedAt,
             })
-            .from(submissions),
+            .from(submissions)
+            .where(eq(submissions.isDraft, false)),
     ]);
 
     const now = new Date();
@@ -16,15 +16,33 @@ interface AuthDomainDependencies {
 function createDefaultAuthService(): AuthServicePort {
   return {
     verifyAccessToken: (token) => AuthService.verifyAccessToken(token),
-    registerUser: (userData) => AuthService.registerUser(userData),
-    loginUser: (username, password) => AuthService.loginUser(username, password),
+    registerUser: (userData, client) => AuthService.registerUser(userData, client),
+    loginUser: (username, password, client) => AuthService.loginUser(username, password, client),
     setAuthCookies: (res, accessToken, refreshToken) =>
       AuthService.setAuthCookies(res, accessToken, refreshToken),
     revokeRefreshToken: (token) => AuthService.revokeRefreshToken(token),
     clearAuthCookies: (res) => AuthService.clearAuthCookies(res),
-    refreshUserTokens: (refreshToken) => AuthService.refreshUserTokens(refreshToken),
+    refreshUserTokens: (refreshToken, client) => AuthService.refreshUserTokens(refreshToken, client),
     resetUserPassword: (userId, newPassword, adminUser) =>
       AuthService.resetUserPassword(userId, newPassword, adminUser),
+    requestPasswordReset: (identifier) => AuthService.requestPasswordReset(identifier),
+    resetPasswordWithToken: (token, newPassword) => AuthService.resetPasswordWithToken(token, newPassword),
+    sendEmailConfirmation: (user) => AuthService.sendEmailConfirmation(user),
+    confirmEmail: (token) => AuthService.confirmEmail(token),
+    getUserSessions: (userId, currentRefreshToken) => AuthService.getUserSessions(userId, currentRefreshToken),
+    revokeSession: (userId, sessionKey) => AuthService.revokeSession(userId, sessionKey),
+    revokeOtherSessions: (userId, currentRefreshToken) =>
+      AuthService.revokeOtherSessions(userId, currentRefreshToken),
+    forceLogoutUser: (userId, adminUser) => AuthService.forceLogoutUser(userId, adminUser),
+    setSsoStateCookie: (res, stateToken) => AuthService.setSsoStateCookie(res, stateToken),
+    clearSsoStateCookie: (res) => AuthService.clearSsoStateCookie(res),
+    discoverSsoProvider: (email) => AuthService.discoverSsoProvider(email),
+    startSsoLogin: (schoolId, loginHint) => AuthService.startSsoLogin(schoolId, loginHint),
+    completeSsoLogin: (code, state, stateToken, client) =>
+      AuthService.completeSsoLogin(code, state, stateToken, client),
+    getSchoolSsoSettings: (schoolId) => AuthService.getSchoolSsoSettings(schoolId),
+    saveSchoolSsoSettings: (schoolId, input) => AuthService.saveSchoolSsoSettings(schoolId, input),
+    deleteSchoolSsoSettings: (schoolId) => AuthService.deleteSchoolSsoSettings(schoolId),
   };
 }
 
@@ -12,6 +12,7 @@ export const authStorage = authDomain.authStorage;
 export { createAuthDomain } from "./composition";
 export { AuthService, type JWTPayload } from "./auth.service";
 export { type IAuthStorage } from "./auth.storage";
+export type { SessionClientInfo } from "./auth-sessions";
 export type {
   AuthenticatedRequest,
   AuthServicePort,
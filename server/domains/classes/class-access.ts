@@ -0,0 +1,36 @@
+import { UserRole, type SchoolClass, type User } from "../../../shared/schema";
+
+export type ClassManager = Pick<User, "id" | "role" | "schoolId">;
+
+// Admins manage every class in their school; teachers only the classes they teach
+export function canManageClass(schoolClass: Pick<SchoolClass, "schoolId" | "teacherId">, user: ClassManager): boolean {
+  if (!user.schoolId || schoolClass.schoolId !== user.schoolId) {
+    return false;
+  }
+  return user.role === UserRole.ADMIN || (user.role === UserRole.TEACHER && schoolClass.teacherId === user.id);
+}
+
+// Standalone assessments only; milestone assessments reach students through their project
+export function canAssignAssessmentToClass(
+  assessment: { milestoneId: number | null; createdBy: number | null },
+  creatorSchoolId: number | null,
+  user: ClassManager,
+): boolean {
+  if (assessment.milestoneId !== null) {
+    return false;
+  }
+  if (assessment.createdBy === user.id) {
+    return true;
+  }
+  return user.role === UserRole.ADMIN && user.schoolId !== null && creatorSchoolId === user.schoolId;
+}
+
+export function canAssignProjectToClass(
+  project: { teacherId: number | null; schoolId: number | null },
+  user: ClassManager,
+): boolean {
+  if (user.role === UserRole.ADMIN) {
+    return user.schoolId !== null && project.schoolId === user.schoolId;
+  }
+  return project.teacherId === user.id;
+}
@@ -0,0 +1,118 @@
+import { Router } from "express";
+import { classesService, type IClassesService } from "./classes.service";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../auth";
+import { createSuccessResponse, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+
+export class ClassesController {
+  constructor(private service: IClassesService = classesService) {}
+
+  // Create Express router with the class management routes
+  createRouter(): Router {
+    const router = Router();
+    const staffOnly = [requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN)];
+
+    // Standalone assessments assigned to the signed-in student's classes
+    router.get("/assessments", requireAuth, requireRole(UserRole.STUDENT), async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getStudentClassAssessments(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch class assessments");
+      }
+    });
+
+    // Teachers see the classes they teach; admins see every class in their school
+    router.get("/", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const includeArchived = req.query.includeArchived === "true";
+        createSuccessResponse(res, await this.service.getClasses(req.user!.id, includeArchived));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch classes");
+      }
+    });
+
+    router.post("/", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.createClass(req.user!.id, req.body), undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to create class");
+      }
+    });
+
+    router.get("/:id", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getClass(req.user!.id, parseInt(req.params.id)));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch class");
+      }
+    });
+
+    // Rename, reschedule, reassign (admins) or archive a class
+    router.patch("/:id", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.updateClass(req.user!.id, parseInt(req.params.id), req.body));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to update class");
+      }
+    });
+
+    router.delete("/:id", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.deleteClass(req.user!.id, parseInt(req.params.id));
+        createSuccessResponse(res, { message: "Class deleted" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to delete class");
+      }
+    });
+
+    // Enroll students; they also receive the projects already assigned to the class
+    router.post("/:id/students", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.addStudents(req.user!.id, parseInt(req.params.id), req.body));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to enroll students");
+      }
+    });
+
+    router.delete("/:id/students/:studentId", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.removeStudent(req.user!.id, parseInt(req.params.id), parseInt(req.params.studentId));
+        createSuccessResponse(res, { message: "Student removed from class" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to remove student");
+      }
+    });
+
+    router.get("/:id/assignments", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getAssignments(req.user!.id, parseInt(req.params.id)));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch class assignments");
+      }
+    });
+
+    // Assign a project or standalone assessment to the whole class
+    router.post("/:id/assignments", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const assignments = await this.service.assign(req.user!.id, parseInt(req.params.id), req.body);
+        createSuccessResponse(res, assignments, undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to assign to class");
+      }
+    });
+
+    router.delete("/:id/assignments/:assignmentId", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.unassign(req.user!.id, parseInt(req.params.id), parseInt(req.params.assignmentId));
+        createSuccessResponse(res, { message: "Class assignment removed" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to remove class assignment");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const classesController = new ClassesController();
+export const classesRouter = classesController.createRouter();
@@ -0,0 +1,225 @@
+import type { ZodError } from "zod";
+import { assessmentService } from "../assessments";
+import { projectsService } from "../projects";
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from "../../utils/errorTypes";
+import { UserRole, type SchoolClass, type User } from "../../../shared/schema";
+import {
+  classAssignmentInputSchema,
+  classInputSchema,
+  classStudentsSchema,
+  classUpdateSchema,
+} from "../../../shared/classes";
+import type {
+  ClassAssignmentDTO,
+  SchoolClassDTO,
+  SchoolClassDetailDTO,
+  StudentClassAssessmentDTO,
+} from "../../../shared/contracts/api";
+import { classesStorage, type IClassesStorage } from "./classes.storage";
+import { canAssignAssessmentToClass, canAssignProjectToClass, canManageClass } from "./class-access";
+
+export interface IClassesService {
+  getClasses(userId: number, includeArchived: boolean): Promise<SchoolClassDTO[]>;
+  getClass(userId: number, classId: number): Promise<SchoolClassDetailDTO>;
+  createClass(userId: number, body: unknown): Promise<SchoolClassDTO>;
+  updateClass(userId: number, classId: number, body: unknown): Promise<SchoolClassDTO>;
+  deleteClass(userId: number, classId: number): Promise<void>;
+  addStudents(userId: number, classId: number, body: unknown): Promise<SchoolClassDetailDTO>;
+  removeStudent(userId: number, classId: number, studentId: number): Promise<void>;
+  getAssignments(userId: number, classId: number): Promise<ClassAssignmentDTO[]>;
+  assign(userId: number, classId: number, body: unknown): Promise<ClassAssignmentDTO[]>;
+  unassign(userId: number, classId: number, assignmentId: number): Promise<void>;
+  getClassStudentIds(userId: number, classId: number): Promise<number[]>;
+  getStudentClassAssessments(studentId: number): Promise<StudentClassAssessmentDTO[]>;
+}
+
+function validationMessage(error: ZodError): string {
+  return error.issues[0]?.message ?? "Invalid request";
+}
+
+export class ClassesService implements IClassesService {
+  constructor(private storage: IClassesStorage = classesStorage) {}
+
+  private async getStaffUser(userId: number): Promise<User & { schoolId: number }> {
+    const user = await this.storage.getUser(userId);
+    if (!user) {
+      throw new NotFoundError("User", userId);
+    }
+    if (!user.schoolId) {
+      throw new ValidationError("Join a school before managing classes");
+    }
+    return { ...user, schoolId: user.schoolId };
+  }
+
+  private async getManagedClass(userId: number, classId: number): Promise<{ user: User; schoolClass: SchoolClass }> {
+    const user = await this.getStaffUser(userId);
+    const schoolClass = await this.storage.getClass(classId);
+    if (!schoolClass || schoolClass.schoolId !== user.schoolId) {
+      throw new NotFoundError("Class", classId);
+    }
+    if (!canManageClass(schoolClass, user)) {
+      throw new AuthorizationError("You can only manage classes you teach");
+    }
+    return { user, schoolClass };
+  }
+
+  private async getClassSummary(schoolClass: SchoolClass): Promise<SchoolClassDTO> {
+    const summaries = await this.storage.getClasses({ schoolId: schoolClass.schoolId, includeArchived: true });
+    const summary = summaries.find((candidate) => candidate.id === schoolClass.id);
+    if (!summary) {
+      throw new NotFoundError("Class", schoolClass.id);
+    }
+    return summary;
+  }
+
+  private async resolveTeacherId(user: User & { schoolId: number }, teacherId: number | undefined): Promise<number> {
+    if (teacherId === undefined || teacherId === user.id) {
+      return user.id;
+    }
+    if (user.role !== UserRole.ADMIN) {
+      throw new AuthorizationError("Only admins can create classes for another teacher");
+    }
+    const teacher = await this.storage.getUser(teacherId);
+    if (!teacher || teacher.schoolId !== user.schoolId || teacher.role !== UserRole.TEACHER) {
+      throw new ValidationError("Choose a teacher from your school", "teacherId");
+    }
+    return teacher.id;
+  }
+
+  async getClasses(userId: number, includeArchived: boolean): Promise<SchoolClassDTO[]> {
+    const user = await this.getStaffUser(userId);
+    return await this.storage.getClasses({
+      schoolId: user.schoolId,
+      teacherId: user.role === UserRole.ADMIN ? undefined : user.id,
+      includeArchived,
+    });
+  }
+
+  async getClass(userId: number, classId: number): Promise<SchoolClassDetailDTO> {
+    const { schoolClass } = await this.getManagedClass(userId, classId);
+    const [summary, students, assignments] = await Promise.all([
+      this.getClassSummary(schoolClass),
+      this.storage.getClassStudents(classId),
+      this.storage.getAssignments(classId),
+    ]);
+    return { ...summary, students, assignments };
+  }
+
+  async createClass(userId: number, body: unknown): Promise<SchoolClassDTO> {
+    const parsed = classInputSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error));
+    }
+    const user = await this.getStaffUser(userId);
+    const { teacherId, ...fields } = parsed.data;
+    const created = await this.storage.createClass({
+      ...fields,
+      schoolId: user.schoolId,
+      teacherId: await this.resolveTeacherId(user, teacherId),
+    });
+    return await this.getClassSummary(created);
+  }
+
+  async updateClass(userId: number, classId: number, body: unknown): Promise<SchoolClassDTO> {
+    const parsed = classUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error));
+    }
+    const { user, schoolClass } = await this.getManagedClass(userId, classId);
+    const { teacherId, archived, ...fields } = parsed.data;
+    const updated = await this.storage.updateClass(classId, {
+      ...fields,
+      ...(teacherId !== undefined
+        ? { teacherId: await this.resolveTeacherId({ ...user, schoolId: schoolClass.schoolId }, teacherId) }
+        : {}),
+      ...(archived !== undefined ? { archivedAt: archived ? schoolClass.archivedAt ?? new Date() : null } : {}),
+    });
+    return await this.getClassSummary(updated);
+  }
+
+  async deleteClass(userId: number, classId: number): Promise<void> {
+    const { schoolClass } = await this.getManagedClass(userId, classId);
+    if (schoolClass.rosterSourcedId) {
+      throw new ConflictError("Classes from a roster import can be archived but not deleted");
+    }
+    await this.storage.deleteClass(classId);
+  }
+
+  async addStudents(userId: number, classId: number, body: unknown): Promise<SchoolClassDetailDTO> {
+    const parsed = classStudentsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error));
+    }
+    const { schoolClass } = await this.getManagedClass(userId, classId);
+    const requestedIds = Array.from(new Set(parsed.data.studentIds));
+    const studentIds = await this.storage.getSchoolStudentIds(schoolClass.schoolId, requestedIds);
+    if (studentIds.length !== requestedIds.length) {
+      throw new ValidationError("Only active students from this school can be enrolled", "studentIds");
+    }
+    await this.storage.addStudents(classId, studentIds);
+    return await this.getClass(userId, classId);
+  }
+
+  async removeStudent(userId: number, classId: number, studentId: number): Promise<void> {
+    await this.getManagedClass(userId, classId);
+    await this.storage.removeStudent(classId, studentId);
+  }
+
+  async getAssignments(userId: number, classId: number): Promise<ClassAssignmentDTO[]> {
+    await this.getManagedClass(userId, classId);
+    return await this.storage.getAssignments(classId);
+  }
+
+  async assign(userId: number, classId: number, body: unknown): Promise<ClassAssignmentDTO[]> {
+    const parsed = classAssignmentInputSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Provide a projectId or an assessmentId");
+    }
+    const { user, schoolClass } = await this.getManagedClass(userId, classId);
+    if (schoolClass.archivedAt) {
+      throw new ValidationError("Unarchive the class before assigning work to it");
+    }
+
+    const input = parsed.data;
+    if ("projectId" in input) {
+      const project = await projectsService.getProject(input.projectId);
+      if (!project) {
+        throw new NotFoundError("Project", input.projectId);
+      }
+      if (!canAssignProjectToClass(project, user)) {
+        throw new AuthorizationError("You can only assign your own projects");
+      }
+      await this.storage.createAssignment({ classId, assignedBy: user.id, projectId: project.id });
+    } else {
+      const assessment = await assessmentService.getAssessment(input.assessmentId);
+      if (!assessment) {
+        throw new NotFoundError("Assessment", input.assessmentId);
+      }
+      const creator = assessment.createdBy ? await this.storage.getUser(assessment.createdBy) : undefined;
+      if (!canAssignAssessmentToClass(assessment, creator?.schoolId ?? null, user)) {
+        throw new AuthorizationError("Only standalone assessments you created can be assigned to a class");
+      }
+      await this.storage.createAssignment({ classId, assignedBy: user.id, assessmentId: assessment.id });
+    }
+    return await this.storage.getAssignments(classId);
+  }
+
+  async unassign(userId: number, classId: number, assignmentId: number): Promise<void> {
+    await this.getManagedClass(userId, classId);
+    const deleted = await this.storage.deleteAssignment(classId, assignmentId);
+    if (!deleted) {
+      throw new NotFoundError("Class assignment", assignmentId);
+    }
+  }
+
+  async getClassStudentIds(userId: number, classId: number): Promise<number[]> {
+    await this.getManagedClass(userId, classId);
+    return await this.storage.getClassStudentIds(classId);
+  }
+
+  async getStudentClassAssessments(studentId: number): Promise<StudentClassAssessmentDTO[]> {
+    return await this.storage.getStudentClassAssessments(studentId);
+  }
+}
+
+export const classesService = new ClassesService();
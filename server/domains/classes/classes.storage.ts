@@ -0,0 +1,304 @@
+import { and, asc, count, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  assessments,
+  classAssignments,
+  classEnrollments,
+  classes,
+  projectAssignments,
+  projects,
+  users,
+  UserRole,
+  type ClassAssignment,
+  type InsertSchoolClass,
+  type SchoolClass,
+  type User,
+} from "../../../shared/schema";
+import type {
+  ClassAssignmentDTO,
+  ClassStudentDTO,
+  SchoolClassDTO,
+  StudentClassAssessmentDTO,
+} from "../../../shared/contracts/api";
+
+type ClassesTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type ClassesExecutor = typeof db | ClassesTransaction;
+
+export interface ClassListFilters {
+  schoolId: number;
+  teacherId?: number;
+  includeArchived?: boolean;
+}
+
+export type NewClassAssignment =
+  | { classId: number; assignedBy: number; projectId: number }
+  | { classId: number; assignedBy: number; assessmentId: number };
+
+export interface IClassesStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getClasses(filters: ClassListFilters): Promise<SchoolClassDTO[]>;
+  getClass(classId: number): Promise<SchoolClass | undefined>;
+  createClass(schoolClass: InsertSchoolClass): Promise<SchoolClass>;
+  updateClass(classId: number, updates: Partial<InsertSchoolClass>): Promise<SchoolClass>;
+  deleteClass(classId: number): Promise<void>;
+  getClassStudents(classId: number): Promise<ClassStudentDTO[]>;
+  getClassStudentIds(classId: number): Promise<number[]>;
+  getSchoolStudentIds(schoolId: number, studentIds: number[]): Promise<number[]>;
+  addStudents(classId: number, studentIds: number[]): Promise<void>;
+  removeStudent(classId: number, studentId: number): Promise<void>;
+  getAssignments(classId: number): Promise<ClassAssignmentDTO[]>;
+  createAssignment(assignment: NewClassAssignment): Promise<ClassAssignment | undefined>;
+  deleteAssignment(classId: number, assignmentId: number): Promise<boolean>;
+  getStudentClassAssessments(studentId: number): Promise<StudentClassAssessmentDTO[]>;
+}
+
+/**
+ * Gives every student enrolled in the classes each project assigned to those
+ * classes, skipping students who already have the project. Run after
+ * enrollments change so late joiners pick up earlier class assignments.
+ */
+export async function fanOutClassProjects(executor: ClassesExecutor, classIds: number[]): Promise<void> {
+  if (classIds.length === 0) {
+    return;
+  }
+  await executor.execute(sql`
+    insert into ${projectAssignments} (project_id, student_id, progress)
+    select distinct ${classAssignments.projectId}, ${classEnrollments.studentId}, '0'
+    from ${classAssignments}
+    inner join ${classEnrollments} on ${classEnrollments.classId} = ${classAssignments.classId}
+    where ${inArray(classAssignments.classId, classIds)}
+      and ${isNotNull(classAssignments.projectId)}
+      and not exists (
+        select 1 from ${projectAssignments}
+        where ${projectAssignments.projectId} = ${classAssignments.projectId}
+          and ${projectAssignments.studentId} = ${classEnrollments.studentId}
+      )
+  `);
+}
+
+// Active students enrolled in the class; deactivated accounts keep their enrollment but drop out of class views
+export async function getEnrolledStudentIds(executor: ClassesExecutor, classId: number): Promise<number[]> {
+  const rows = await executor
+    .select({ studentId: classEnrollments.studentId })
+    .from(classEnrollments)
+    .innerJoin(users, eq(classEnrollments.studentId, users.id))
+    .where(and(eq(classEnrollments.classId, classId), isNull(users.deactivatedAt)));
+  return rows.map((row) => row.studentId);
+}
+
+export class ClassesStorage implements IClassesStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getClasses(filters: ClassListFilters): Promise<SchoolClassDTO[]> {
+    const conditions = [eq(classes.schoolId, filters.schoolId)];
+    if (filters.teacherId !== undefined) {
+      conditions.push(eq(classes.teacherId, filters.teacherId));
+    }
+    if (!filters.includeArchived) {
+      conditions.push(isNull(classes.archivedAt));
+    }
+
+    const rows = await db
+      .select({
+        id: classes.id,
+        name: classes.name,
+        period: classes.period,
+        term: classes.term,
+        classCode: classes.classCode,
+        teacherId: classes.teacherId,
+        teacherFirstName: users.firstName,
+        teacherLastName: users.lastName,
+        teacherUsername: users.username,
+        rosterSourcedId: classes.rosterSourcedId,
+        archivedAt: classes.archivedAt,
+      })
+      .from(classes)
+      .leftJoin(users, eq(classes.teacherId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(classes.name), asc(classes.period));
+
+    const classIds = rows.map((row) => row.id);
+    const counts = classIds.length
+      ? await db
+          .select({ classId: classEnrollments.classId, studentCount: count() })
+          .from(classEnrollments)
+          .innerJoin(users, eq(classEnrollments.studentId, users.id))
+          .where(and(inArray(classEnrollments.classId, classIds), isNull(users.deactivatedAt)))
+          .groupBy(classEnrollments.classId)
+      : [];
+    const countByClass = new Map(counts.map((row) => [row.classId, Number(row.studentCount)]));
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      period: row.period,
+      term: row.term,
+      classCode: row.classCode,
+      teacherId: row.teacherId,
+      teacherName: row.teacherId
+        ? [row.teacherFirstName, row.teacherLastName].filter(Boolean).join(" ") || row.teacherUsername
+        : null,
+      rosterManaged: row.rosterSourcedId !== null,
+      archivedAt: row.archivedAt,
+      studentCount: countByClass.get(row.id) ?? 0,
+    }));
+  }
+
+  async getClass(classId: number): Promise<SchoolClass | undefined> {
+    const [schoolClass] = await db.select().from(classes).where(eq(classes.id, classId));
+    return schoolClass;
+  }
+
+  async createClass(schoolClass: InsertSchoolClass): Promise<SchoolClass> {
+    const [created] = await db.insert(classes).values(schoolClass).returning();
+    return created;
+  }
+
+  async updateClass(classId: number, updates: Partial<InsertSchoolClass>): Promise<SchoolClass> {
+    const [updated] = await db
+      .update(classes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(classes.id, classId))
+      .returning();
+    return updated;
+  }
+
+  async deleteClass(classId: number): Promise<void> {
+    await db.delete(classes).where(eq(classes.id, classId));
+  }
+
+  async getClassStudents(classId: number): Promise<ClassStudentDTO[]> {
+    return await db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        grade: users.grade,
+      })
+      .from(classEnrollments)
+      .innerJoin(users, eq(classEnrollments.studentId, users.id))
+      .where(and(eq(classEnrollments.classId, classId), isNull(users.deactivatedAt)))
+      .orderBy(asc(users.lastName), asc(users.firstName), asc(users.username));
+  }
+
+  async getClassStudentIds(classId: number): Promise<number[]> {
+    return await getEnrolledStudentIds(db, classId);
+  }
+
+  async getSchoolStudentIds(schoolId: number, studentIds: number[]): Promise<number[]> {
+    if (studentIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(
+          inArray(users.id, studentIds),
+          eq(users.schoolId, schoolId),
+          eq(users.role, UserRole.STUDENT),
+          isNull(users.deactivatedAt),
+        ),
+      );
+    return rows.map((row) => row.id);
+  }
+
+  async addStudents(classId: number, studentIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(classEnrollments)
+        .values(studentIds.map((studentId) => ({ classId, studentId })))
+        .onConflictDoNothing();
+      await fanOutClassProjects(tx, [classId]);
+    });
+  }
+
+  async removeStudent(classId: number, studentId: number): Promise<void> {
+    await db
+      .delete(classEnrollments)
+      .where(and(eq(classEnrollments.classId, classId), eq(classEnrollments.studentId, studentId)));
+  }
+
+  async getAssignments(classId: number): Promise<ClassAssignmentDTO[]> {
+    const rows = await db
+      .select({
+        id: classAssignments.id,
+        projectId: classAssignments.projectId,
+        projectTitle: projects.title,
+        projectDueDate: projects.dueDate,
+        assessmentId: classAssignments.assessmentId,
+        assessmentTitle: assessments.title,
+        assessmentDueDate: assessments.dueDate,
+        assignedAt: classAssignments.assignedAt,
+      })
+      .from(classAssignments)
+      .leftJoin(projects, eq(classAssignments.projectId, projects.id))
+      .leftJoin(assessments, eq(classAssignments.assessmentId, assessments.id))
+      .where(eq(classAssignments.classId, classId))
+      .orderBy(asc(classAssignments.assignedAt));
+
+    return rows.map((row): ClassAssignmentDTO =>
+      row.projectId !== null
+        ? {
+            id: row.id,
+            type: "project",
+            itemId: row.projectId,
+            title: row.projectTitle ?? "Untitled project",
+            dueDate: row.projectDueDate,
+            assignedAt: row.assignedAt,
+          }
+        : {
+            id: row.id,
+            type: "assessment",
+            itemId: row.assessmentId!,
+            title: row.assessmentTitle ?? "Untitled assessment",
+            dueDate: row.assessmentDueDate,
+            assignedAt: row.assignedAt,
+          },
+    );
+  }
+
+  // Returns undefined when the item was already assigned to the class
+  async createAssignment(assignment: NewClassAssignment): Promise<ClassAssignment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(classAssignments).values(assignment).onConflictDoNothing().returning();
+      if (created?.projectId) {
+        await fanOutClassProjects(tx, [assignment.classId]);
+      }
+      return created;
+    });
+  }
+
+  // Students keep project assignments they already received so their work isn't lost
+  async deleteAssignment(classId: number, assignmentId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(classAssignments)
+      .where(and(eq(classAssignments.id, assignmentId), eq(classAssignments.classId, classId)))
+      .returning({ id: classAssignments.id });
+    return deleted.length > 0;
+  }
+
+  async getStudentClassAssessments(studentId: number): Promise<StudentClassAssessmentDTO[]> {
+    return await db
+      .selectDistinctOn([assessments.id], {
+        assessmentId: assessments.id,
+        title: assessments.title,
+        description: assessments.description,
+        dueDate: assessments.dueDate,
+        classId: classes.id,
+        className: classes.name,
+      })
+      .from(classEnrollments)
+      .innerJoin(classes, eq(classEnrollments.classId, classes.id))
+      .innerJoin(classAssignments, eq(classAssignments.classId, classes.id))
+      .innerJoin(assessments, eq(classAssignments.assessmentId, assessments.id))
+      .where(and(eq(classEnrollments.studentId, studentId), isNull(classes.archivedAt)))
+      .orderBy(assessments.id);
+  }
+}
+
+export const classesStorage = new ClassesStorage();
@@ -0,0 +1,14 @@
+// Export controller and router
+export { classesRouter, ClassesController } from './classes.controller';
+
+// Export service
+export { classesService, type IClassesService } from './classes.service';
+
+// Export storage
+export {
+  classesStorage,
+  fanOutClassProjects,
+  getEnrolledStudentIds,
+  type ClassesExecutor,
+  type IClassesStorage,
+} from './classes.storage';
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { competencyService, type ICompetencyService } from './competencies.service';
-import { requireAuth, type AuthenticatedRequest } from '../auth';
+import { requireAuth, requireRole, type AuthenticatedRequest } from '../auth';
+import { UserRole } from '../../../shared/schema';
+import { schoolMasteryRulesSchema } from '../../../shared/mastery-rules';
 
 export class CompetencyController {
   constructor(private service: ICompetencyService = competencyService) {}
@@ -194,6 +196,40 @@ export class CompetencyController {
       }
     });
 
+    // Mastery rules for the caller's school; teachers can see which rule drives progress views
+    router.get('/mastery-rules', requireAuth, async (req: AuthenticatedRequest, res) => {
+      try {
+        if (!req.user?.schoolId) {
+          return res.status(400).json({ message: "User is not assigned to a school" });
+        }
+        const rules = await this.service.getSchoolMasteryRules(req.user.schoolId);
+        res.json(rules);
+      } catch (error) {
+        console.error("Error fetching mastery rules:", error);
+        res.status(500).json({ message: "Failed to fetch mastery rules" });
+      }
+    });
+
+    router.put('/mastery-rules', requireAuth, requireRole(UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        if (!req.user?.schoolId) {
+          return res.status(400).json({ message: "User is not assigned to a school" });
+        }
+        const parsed = schoolMasteryRulesSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid mastery rules", errors: parsed.error.errors });
+        }
+        const rules = await this.service.updateSchoolMasteryRules(req.user.schoolId, parsed.data);
+        if (!rules) {
+          return res.status(404).json({ message: "School not found" });
+        }
+        res.json(rules);
+      } catch (error) {
+        console.error("Error updating mastery rules:", error);
+        res.status(500).json({ message: "Failed to update mastery rules" });
+      }
+    });
+
     return router;
   }
 }
@@ -6,6 +6,11 @@ import {
   type LearnerOutcome
 } from "../../../shared/schema";
 import type { ComponentSkillWithDetailsDTO } from "../../../shared/contracts/api";
+import {
+  DEFAULT_SCHOOL_MASTERY_RULES,
+  schoolMasteryRulesSchema,
+  type SchoolMasteryRules,
+} from "../../../shared/mastery-rules";
 
 type CompetencyWithSkills = Competency & { componentSkills: ComponentSkill[] };
 
@@ -30,6 +35,8 @@ export interface ICompetencyService {
   getComponentSkillsByIds(skillIds: number[]): Promise<ComponentSkillWithDetailsDTO[]>;
   getCompetenciesWithSkills(): Promise<CompetencyWithSkills[]>;
   getEnrichedComponentSkills(): Promise<ComponentSkillWithDetailsDTO[]>;
+  getSchoolMasteryRules(schoolId: number): Promise<SchoolMasteryRules>;
+  updateSchoolMasteryRules(schoolId: number, rules: SchoolMasteryRules): Promise<SchoolMasteryRules | null>;
 }
 
 export class CompetencyService implements ICompetencyService {
@@ -107,6 +114,17 @@ export class CompetencyService implements ICompetencyService {
   async getEnrichedComponentSkills(): Promise<ComponentSkillWithDetailsDTO[]> {
     return await this.storage.getAllComponentSkills();
   }
+
+  // Schools that never configured rules, or whose stored rules no longer parse, use the default
+  async getSchoolMasteryRules(schoolId: number): Promise<SchoolMasteryRules> {
+    const stored = await this.storage.getSchoolMasteryRules(schoolId);
+    const parsed = schoolMasteryRulesSchema.safeParse(stored);
+    return parsed.success ? parsed.data : DEFAULT_SCHOOL_MASTERY_RULES;
+  }
+
+  async updateSchoolMasteryRules(schoolId: number, rules: SchoolMasteryRules): Promise<SchoolMasteryRules | null> {
+    return await this.storage.updateSchoolMasteryRules(schoolId, rules);
+  }
 }
 
 export const competencyService = new CompetencyService();
@@ -5,11 +5,13 @@ import {
   componentSkills,
   bestStandards,
   learnerOutcomes,
+  schools,
   type Competency,
   type ComponentSkill,
   type BestStandard,
   type LearnerOutcome
 } from "../../../shared/schema";
+import type { SchoolMasteryRules } from "../../../shared/mastery-rules";
 
 export interface ICompetencyStorage {
   getCompetencies(): Promise<Competency[]>;
@@ -32,6 +34,10 @@ export interface ICompetencyStorage {
   getBestStandardsByIds(standardIds: number[]): Promise<BestStandard[]>;
   getCompetenciesWithSkills(): Promise<any[]>;
   getAllComponentSkills(): Promise<any[]>;
+
+  // Mastery rules
+  getSchoolMasteryRules(schoolId: number): Promise<SchoolMasteryRules | null>;
+  updateSchoolMasteryRules(schoolId: number, rules: SchoolMasteryRules): Promise<SchoolMasteryRules | null>;
 }
 
 export class CompetencyStorage implements ICompetencyStorage {
@@ -460,6 +466,24 @@ export class CompetencyStorage implements ICompetencyStorage {
       return [];
     }
   }
+
+  async getSchoolMasteryRules(schoolId: number): Promise<SchoolMasteryRules | null> {
+    const [school] = await db
+      .select({ masteryRules: schools.masteryRules })
+      .from(schools)
+      .where(eq(schools.id, schoolId))
+      .limit(1);
+    return school?.masteryRules ?? null;
+  }
+
+  async updateSchoolMasteryRules(schoolId: number, rules: SchoolMasteryRules): Promise<SchoolMasteryRules | null> {
+    const [school] = await db
+      .update(schools)
+      .set({ masteryRules: rules })
+      .where(eq(schools.id, schoolId))
+      .returning({ masteryRules: schools.masteryRules });
+    return school?.masteryRules ?? null;
+  }
 }
 
 export const competencyStorage = new CompetencyStorage();
@@ -5,4 +5,13 @@ export { competenciesRouter, CompetencyController } from './competencies.control
 export { competencyService, type ICompetencyService } from './competencies.service';
 
 // Export storage
-export { competencyStorage, type ICompetencyStorage } from './competencies.storage';
\ No newline at end of file
+export { competencyStorage, type ICompetencyStorage } from './competencies.storage';
+
+// Export mastery engine
+export {
+  calculateMastery,
+  scoreToMasteryLevel,
+  type MasteryEvidence,
+  type MasteryLevel,
+  type MasteryResult,
+} from './mastery-engine';
\ No newline at end of file
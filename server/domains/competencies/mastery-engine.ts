@@ -0,0 +1,126 @@
+import type { MasteryRule } from "../../../shared/mastery-rules";
+
+export type MasteryLevel = "emerging" | "developing" | "proficient" | "applying";
+
+export const MASTERY_LEVELS: readonly MasteryLevel[] = ["emerging", "developing", "proficient", "applying"];
+
+export interface MasteryEvidence {
+  rubricLevel: string | null;
+  score: string | number | null;
+  gradedAt: Date | string | null;
+}
+
+export interface MasteryResult {
+  rubricLevel: MasteryLevel;
+  /** Rule output on the 1-4 rubric scale, before rounding to a level. */
+  score: number;
+  evidenceCount: number;
+  lastAssessedAt: Date | null;
+  direction: "improving" | "declining" | "stable";
+}
+
+// A change smaller than this between the previous and current result reads as noise
+const TREND_THRESHOLD = 0.25;
+
+function toLevelValue(evidence: MasteryEvidence): number | null {
+  const levelIndex = evidence.rubricLevel ? MASTERY_LEVELS.indexOf(evidence.rubricLevel as MasteryLevel) : -1;
+  if (levelIndex >= 0) {
+    return levelIndex + 1;
+  }
+  const score = Number(evidence.score);
+  if (evidence.score === null || !Number.isFinite(score) || score <= 0) {
+    return null;
+  }
+  return Math.min(4, Math.max(1, score));
+}
+
+export function scoreToMasteryLevel(score: number): MasteryLevel {
+  if (score < 1.5) return "emerging";
+  if (score < 2.5) return "developing";
+  if (score < 3.5) return "proficient";
+  return "applying";
+}
+
+function decayingAverage(values: number[], recentWeight: number): number {
+  return values.slice(1).reduce((average, value) => average * (1 - recentWeight) + value * recentWeight, values[0]);
+}
+
+function nOfLastM(values: number[], required: number, window: number): number {
+  const recent = values.slice(-window);
+  for (let level = MASTERY_LEVELS.length; level >= 1; level--) {
+    if (recent.filter((value) => value >= level - 0.5).length >= required) {
+      return level;
+    }
+  }
+  // Not enough evidence yet: proficiency has to be shown N times, so cap the latest at developing
+  return Math.min(values[values.length - 1], 2);
+}
+
+/**
+ * Least-squares fit of `level = a * attempt^b` on log-log axes, evaluated at
+ * the latest attempt — the standards-based grading "power law" that rewards
+ * growth without letting one bad day erase it.
+ */
+function powerLaw(values: number[]): number {
+  if (values.length < 2) {
+    return values[0];
+  }
+  const xs = values.map((_, index) => Math.log(index + 1));
+  const ys = values.map((value) => Math.log(value));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const covariance = xs.reduce((sum, x, index) => sum + (x - meanX) * (ys[index] - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = covariance / variance;
+  const intercept = meanY - slope * meanX;
+  return Math.min(4, Math.max(1, Math.exp(intercept + slope * xs[xs.length - 1])));
+}
+
+function applyRule(values: number[], rule: MasteryRule): number {
+  switch (rule.type) {
+    case "most-recent":
+      return values[values.length - 1];
+    case "highest":
+      return Math.max(...values);
+    case "decaying-average":
+      return decayingAverage(values, rule.recentWeight);
+    case "n-of-last-m":
+      return nOfLastM(values, rule.required, rule.window);
+    case "power-law":
+      return powerLaw(values);
+  }
+}
+
+/**
+ * Turns a student's grade history for one component skill into a current
+ * rubric level under the given rule. Returns null when nothing gradable exists.
+ */
+export function calculateMastery(history: MasteryEvidence[], rule: MasteryRule): MasteryResult | null {
+  const ordered = history
+    .map((evidence) => ({ value: toLevelValue(evidence), gradedAt: evidence.gradedAt ? new Date(evidence.gradedAt) : null }))
+    .filter((evidence): evidence is { value: number; gradedAt: Date | null } => evidence.value !== null)
+    .sort((a, b) => (a.gradedAt?.getTime() ?? 0) - (b.gradedAt?.getTime() ?? 0));
+
+  if (ordered.length === 0) {
+    return null;
+  }
+
+  const values = ordered.map((evidence) => evidence.value);
+  const score = applyRule(values, rule);
+  const previousScore = values.length > 1 ? applyRule(values.slice(0, -1), rule) : score;
+
+  let direction: MasteryResult["direction"] = "stable";
+  if (score > previousScore + TREND_THRESHOLD) {
+    direction = "improving";
+  } else if (score < previousScore - TREND_THRESHOLD) {
+    direction = "declining";
+  }
+
+  return {
+    rubricLevel: scoreToMasteryLevel(score),
+    score: Math.round(score * 100) / 100,
+    evidenceCount: values.length,
+    lastAssessedAt: ordered[ordered.length - 1].gradedAt,
+    direction,
+  };
+}
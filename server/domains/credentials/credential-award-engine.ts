@@ -0,0 +1,179 @@
+import type { CredentialAwardRule } from "../../../shared/credential-award-rules";
+import type { Credential, InsertCredential } from "../../../shared/schema";
+import type { MasteryLevel } from "../competencies";
+
+const LEVEL_RANK: Record<MasteryLevel, number> = {
+  emerging: 1,
+  developing: 2,
+  proficient: 3,
+  applying: 4,
+};
+
+// Sticker colors double as the stored level; the client renders stickers by this color
+const STICKER_COLORS: Record<MasteryLevel, string> = {
+  emerging: "red",
+  developing: "yellow",
+  proficient: "blue",
+  applying: "green",
+};
+
+const LEVEL_LABELS: Record<MasteryLevel, string> = {
+  emerging: "Emerging",
+  developing: "Developing",
+  proficient: "Proficient",
+  applying: "Applying",
+};
+
+export interface CredentialSkillNode {
+  id: number;
+  name: string;
+  competencyId: number | null;
+}
+
+export interface CredentialCompetencyNode {
+  id: number;
+  name: string;
+  learnerOutcomeId: number | null;
+}
+
+export interface CredentialSubjectNode {
+  id: number;
+  name: string;
+}
+
+export interface CredentialAwardContext {
+  studentId: number;
+  rules: CredentialAwardRule[];
+  /** Current mastery level per component skill id. */
+  levels: Map<number, MasteryLevel>;
+  skills: CredentialSkillNode[];
+  competencies: CredentialCompetencyNode[];
+  subjects: CredentialSubjectNode[];
+  /** Everything the student already holds, including pending and revoked credentials. */
+  existing: Pick<Credential, "id" | "type" | "componentSkillId" | "competencyId" | "subjectArea" | "iconUrl" | "revokedAt">[];
+  /** Who the award is attributed to when the rule needs no approval. */
+  approverId: number | null;
+}
+
+export type CredentialAwardDecision =
+  | { action: "create"; credential: InsertCredential }
+  | { action: "upgrade"; credentialId: number; changes: Partial<InsertCredential> };
+
+function meetsLevel(level: MasteryLevel | undefined, minLevel: MasteryLevel): boolean {
+  return level !== undefined && LEVEL_RANK[level] >= LEVEL_RANK[minLevel];
+}
+
+function stickerLevel(iconUrl: string | null): MasteryLevel | undefined {
+  return (Object.keys(STICKER_COLORS) as MasteryLevel[]).find((level) => STICKER_COLORS[level] === iconUrl);
+}
+
+function approvalFor(rule: CredentialAwardRule, approverId: number | null): number | null {
+  return rule.requiresApproval ? null : approverId;
+}
+
+/**
+ * Decides which credentials a student has earned under the school's rules.
+ * Pure and idempotent: anything already held is skipped, a revoked credential
+ * is never re-awarded, and a sticker is only touched when the student has
+ * moved up a level since it was awarded.
+ */
+export function planCredentialAwards(context: CredentialAwardContext): CredentialAwardDecision[] {
+  const { studentId, rules, levels, skills, competencies, subjects, existing, approverId } = context;
+  const decisions: CredentialAwardDecision[] = [];
+  const skillsByCompetency = new Map<number, CredentialSkillNode[]>();
+  skills.forEach((skill) => {
+    if (skill.competencyId != null) {
+      skillsByCompetency.set(skill.competencyId, [...(skillsByCompetency.get(skill.competencyId) ?? []), skill]);
+    }
+  });
+
+  // Two rules of the same kind (e.g. stickers at proficient and at applying) must not award twice in one pass
+  const seenKinds = new Set<CredentialAwardRule["kind"]>();
+
+  for (const rule of rules) {
+    if (!rule.enabled || seenKinds.has(rule.kind)) {
+      continue;
+    }
+    seenKinds.add(rule.kind);
+
+    if (rule.kind === "skill-sticker") {
+      for (const skill of skills) {
+        const level = levels.get(skill.id);
+        if (!level || !meetsLevel(level, rule.minLevel)) {
+          continue;
+        }
+        const sticker = existing.find((credential) => credential.type === "sticker" && credential.componentSkillId === skill.id);
+        const details = {
+          title: `${LEVEL_LABELS[level]} ${skill.name}`,
+          description: `Achieved ${level} level in ${skill.name}`,
+          iconUrl: STICKER_COLORS[level],
+          approvedBy: approvalFor(rule, approverId),
+        };
+        if (!sticker) {
+          decisions.push({
+            action: "create",
+            credential: { studentId, type: "sticker", componentSkillId: skill.id, ...details },
+          });
+        } else if (!sticker.revokedAt) {
+          const heldLevel = stickerLevel(sticker.iconUrl);
+          if (heldLevel && LEVEL_RANK[level] > LEVEL_RANK[heldLevel]) {
+            decisions.push({ action: "upgrade", credentialId: sticker.id, changes: { ...details, awardedAt: new Date() } });
+          }
+        }
+      }
+    }
+
+    if (rule.kind === "competency-badge") {
+      for (const competency of competencies) {
+        const competencySkills = skillsByCompetency.get(competency.id) ?? [];
+        const alreadyHeld = existing.some((credential) => credential.type === "badge" && credential.competencyId === competency.id);
+        if (alreadyHeld || competencySkills.length === 0) {
+          continue;
+        }
+        if (competencySkills.every((skill) => meetsLevel(levels.get(skill.id), rule.minLevel))) {
+          decisions.push({
+            action: "create",
+            credential: {
+              studentId,
+              type: "badge",
+              competencyId: competency.id,
+              title: `${competency.name} Badge`,
+              description: `Achieved ${rule.minLevel} or above in all component skills for ${competency.name}`,
+              iconUrl: "gold",
+              approvedBy: approvalFor(rule, approverId),
+            },
+          });
+        }
+      }
+    }
+
+    if (rule.kind === "subject-plaque") {
+      for (const subject of subjects) {
+        const alreadyHeld = existing.some((credential) => credential.type === "plaque" && credential.subjectArea === subject.name);
+        const subjectSkills = competencies
+          .filter((competency) => competency.learnerOutcomeId === subject.id)
+          .flatMap((competency) => skillsByCompetency.get(competency.id) ?? []);
+        if (alreadyHeld || subjectSkills.length === 0) {
+          continue;
+        }
+        const metCount = subjectSkills.filter((skill) => meetsLevel(levels.get(skill.id), rule.minLevel)).length;
+        if (metCount / subjectSkills.length >= rule.minSkillShare) {
+          decisions.push({
+            action: "create",
+            credential: {
+              studentId,
+              type: "plaque",
+              subjectArea: subject.name,
+              title: `${subject.name} Plaque`,
+              description: `Reached ${rule.minLevel} or above in ${metCount} of ${subjectSkills.length} ${subject.name} skills`,
+              iconUrl: "purple",
+              approvedBy: approvalFor(rule, approverId),
+            },
+          });
+        }
+      }
+    }
+  }
+
+  return decisions;
+}
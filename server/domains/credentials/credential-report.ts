@@ -0,0 +1,137 @@
+import type {
+  CredentialReportBreakdownDTO,
+  CredentialReportEntryDTO,
+  CredentialReportPeriod,
+  TeacherCredentialReportDTO,
+} from "../../../shared/contracts/api";
+import type { Credential } from "../../../shared/schema";
+
+export const CREDENTIAL_REPORT_PERIODS: readonly CredentialReportPeriod[] = ["30d", "90d", "365d", "all"];
+
+const PERIOD_DAYS: Record<Exclude<CredentialReportPeriod, "all">, number> = {
+  "30d": 30,
+  "90d": 90,
+  "365d": 365,
+};
+
+const BREAKDOWN_LIMIT = 10;
+const RECENT_LIMIT = 25;
+
+export interface CredentialReportRow {
+  id: number;
+  studentId: number | null;
+  studentFirstName: string | null;
+  studentLastName: string | null;
+  studentUsername: string | null;
+  type: Credential["type"];
+  title: string;
+  componentSkillId: number | null;
+  componentSkillName: string | null;
+  competencyId: number | null;
+  competencyName: string | null;
+  subjectArea: string | null;
+  awardedAt: Date | null;
+  approvedBy: number | null;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+export function getReportWindowStart(period: CredentialReportPeriod, now: Date = new Date()): Date | null {
+  if (period === "all") {
+    return null;
+  }
+  return new Date(now.getTime() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+}
+
+// Weeks start on Monday (UTC) so buckets line up with school weeks
+function timelineBucket(date: Date, period: CredentialReportPeriod): string {
+  if (period === "365d" || period === "all") {
+    return date.toISOString().slice(0, 7);
+  }
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+function toEntry(row: CredentialReportRow): CredentialReportEntryDTO {
+  const fullName = [row.studentFirstName, row.studentLastName].filter(Boolean).join(" ");
+  return {
+    id: row.id,
+    studentId: row.studentId,
+    studentName: fullName || row.studentUsername || "Unknown student",
+    type: row.type,
+    title: row.title,
+    componentSkillName: row.componentSkillName,
+    competencyName: row.competencyName,
+    subjectArea: row.subjectArea,
+    awardedAt: row.awardedAt,
+    status: row.revokedAt ? "revoked" : row.approvedBy == null ? "pending" : "approved",
+    revokedAt: row.revokedAt,
+    revokedReason: row.revokedReason,
+  };
+}
+
+function breakdown(items: Array<{ id: number | null; name: string | null }>): CredentialReportBreakdownDTO[] {
+  const counts = new Map<number, CredentialReportBreakdownDTO>();
+  items.forEach(({ id, name }) => {
+    if (id == null) {
+      return;
+    }
+    const current = counts.get(id) ?? { id, name: name ?? `#${id}`, count: 0 };
+    counts.set(id, { ...current, count: current.count + 1 });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, BREAKDOWN_LIMIT);
+}
+
+/**
+ * Summarizes credentials for the students a teacher can see. Awarded counts
+ * and breakdowns cover approved, unrevoked credentials inside the period;
+ * pending approvals are listed regardless of when they were awarded.
+ */
+export function buildCredentialReport(
+  rows: CredentialReportRow[],
+  period: CredentialReportPeriod,
+  now: Date = new Date(),
+): TeacherCredentialReportDTO {
+  const windowStart = getReportWindowStart(period, now);
+  const inWindow = (date: Date | null) => windowStart === null || (date !== null && date >= windowStart);
+
+  const awarded = rows.filter((row) => !row.revokedAt && row.approvedBy != null && inWindow(row.awardedAt));
+  const pending = rows.filter((row) => !row.revokedAt && row.approvedBy == null);
+  const revoked = rows.filter((row) => row.revokedAt && inWindow(row.revokedAt));
+
+  const timeline = new Map<string, number>();
+  awarded.forEach((row) => {
+    if (row.awardedAt) {
+      const bucket = timelineBucket(row.awardedAt, period);
+      timeline.set(bucket, (timeline.get(bucket) ?? 0) + 1);
+    }
+  });
+
+  const newestFirst = (a: CredentialReportRow, b: CredentialReportRow) =>
+    (b.awardedAt?.getTime() ?? 0) - (a.awardedAt?.getTime() ?? 0);
+
+  return {
+    period,
+    totals: {
+      awarded: awarded.length,
+      pending: pending.length,
+      revoked: revoked.length,
+      studentsRecognized: new Set(awarded.map((row) => row.studentId)).size,
+    },
+    byType: {
+      sticker: awarded.filter((row) => row.type === "sticker").length,
+      badge: awarded.filter((row) => row.type === "badge").length,
+      plaque: awarded.filter((row) => row.type === "plaque").length,
+    },
+    byComponentSkill: breakdown(awarded.map((row) => ({ id: row.componentSkillId, name: row.componentSkillName }))),
+    byCompetency: breakdown(awarded.map((row) => ({ id: row.competencyId, name: row.competencyName }))),
+    timeline: Array.from(timeline.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([bucket, count]) => ({ bucket, count })),
+    pending: [...pending].sort(newestFirst).map(toEntry),
+    recent: [...awarded, ...revoked].sort(newestFirst).slice(0, RECENT_LIMIT).map(toEntry),
+  };
+}
@@ -1,6 +1,7 @@
-import { Router } from 'express';
-import { credentialService, type ICredentialService } from './credentials.service';
-import { requireAuth, requireRole, type AuthenticatedRequest } from '../auth';
+import { Router, type Request } from 'express';
+import { credentialService, type CredentialActor, type ICredentialService } from './credentials.service';
+import { CREDENTIAL_REPORT_PERIODS } from './credential-report';
+import { authService, requireAuth, requireRole, type AuthenticatedRequest } from '../auth';
 import { 
   handleRouteError, 
   handleEntityNotFound, 
@@ -8,7 +9,24 @@ import {
   createSuccessResponse,
   wrapRoute
 } from '../../utils/routeHelpers';
-import { insertCredentialSchema } from "../../../shared/schema";
+import { insertCredentialSchema, UserRole } from "../../../shared/schema";
+import { credentialAwardRulesSchema } from "../../../shared/credential-award-rules";
+import type { CredentialReportPeriod } from "../../../shared/contracts/api";
+import { z } from "zod";
+
+const revokeCredentialSchema = z.object({
+  reason: z.string().trim().min(3, "A reason is required").max(500),
+});
+
+// Badges can be fetched signed out, so the viewer is read from the cookie without requiring it
+function optionalViewerId(req: Request): number | null {
+  const accessToken: string | undefined = req.cookies?.access_token;
+  return (accessToken ? authService.verifyAccessToken(accessToken)?.userId : null) ?? null;
+}
+
+function toActor(user: NonNullable<AuthenticatedRequest["user"]>): CredentialActor {
+  return { id: user.id, role: user.role, schoolId: user.schoolId ?? null };
+}
 
 export class CredentialController {
   constructor(private service: ICredentialService = credentialService) {}
@@ -29,23 +47,165 @@ export class CredentialController {
       }
     });
 
-    // Get teacher credential stats
+    // Credentials report for students in the teacher's projects and school
     router.get('/teacher-stats', requireAuth, async (req: AuthenticatedRequest, res) => {
       try {
-        const userId = req.user!.id;
-
         if (req.user?.role !== 'teacher' && req.user?.role !== 'admin') {
           return res.status(403).json({ message: "Only teachers can view credential stats" });
         }
 
-        const credentials = await this.service.getTeacherStats(userId);
-        res.json(credentials);
+        const period = (req.query.period ?? "90d") as CredentialReportPeriod;
+        if (!CREDENTIAL_REPORT_PERIODS.includes(period)) {
+          return res.status(400).json({ message: `period must be one of ${CREDENTIAL_REPORT_PERIODS.join(", ")}` });
+        }
+
+        const report = await this.service.getTeacherStats(toActor(req.user), period);
+        res.json(report);
       } catch (error) {
         console.error("Error fetching teacher credential stats:", error);
         res.status(500).json({ message: "Failed to fetch teacher credential stats" });
       }
     });
 
+    // Get the school's automatic award rules
+    router.get('/award-rules', requireAuth, async (req: AuthenticatedRequest, res) => {
+      try {
+        if (!req.user?.schoolId) {
+          return res.status(400).json({ message: "User is not assigned to a school" });
+        }
+        const rules = await this.service.getCredentialAwardRules(req.user.schoolId);
+        res.json(rules);
+      } catch (error) {
+        console.error("Error fetching credential award rules:", error);
+        res.status(500).json({ message: "Failed to fetch credential award rules" });
+      }
+    });
+
+    // Replace the school's automatic award rules
+    router.put('/award-rules', requireAuth, requireRole(UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        if (!req.user?.schoolId) {
+          return res.status(400).json({ message: "User is not assigned to a school" });
+        }
+        const parsed = credentialAwardRulesSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid credential award rules", errors: parsed.error.errors });
+        }
+        const rules = await this.service.updateCredentialAwardRules(req.user.schoolId, parsed.data);
+        if (!rules) {
+          return res.status(404).json({ message: "School not found" });
+        }
+        res.json(rules);
+      } catch (error) {
+        console.error("Error updating credential award rules:", error);
+        res.status(500).json({ message: "Failed to update credential award rules" });
+      }
+    });
+
+    // Automatically awarded credentials waiting for teacher approval
+    router.get('/pending', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        const pending = await this.service.getPendingCredentials(toActor(req.user!));
+        res.json(pending);
+      } catch (error) {
+        console.error("Error fetching pending credentials:", error);
+        res.status(500).json({ message: "Failed to fetch pending credentials" });
+      }
+    });
+
+    // Approve a pending credential so the student can see it
+    router.post('/:id/approve', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        const credentialId = parseInt(req.params.id);
+        if (isNaN(credentialId)) {
+          return res.status(400).json({ message: "Invalid credential ID" });
+        }
+        const credential = await this.service.approveCredential(credentialId, toActor(req.user!));
+        if (!credential) {
+          return res.status(404).json({ message: "Credential not found" });
+        }
+        res.json(credential);
+      } catch (error) {
+        console.error("Error approving credential:", error);
+        res.status(500).json({ message: "Failed to approve credential" });
+      }
+    });
+
+    // Revoke a credential; it stays on record with who revoked it and why
+    router.post('/:id/revoke', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        const credentialId = parseInt(req.params.id);
+        if (isNaN(credentialId)) {
+          return res.status(400).json({ message: "Invalid credential ID" });
+        }
+        const parsed = revokeCredentialSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid revoke request", errors: parsed.error.errors });
+        }
+        const credential = await this.service.revokeCredential(credentialId, toActor(req.user!), parsed.data.reason);
+        if (!credential) {
+          return res.status(404).json({ message: "Credential not found" });
+        }
+        res.json(credential);
+      } catch (error) {
+        console.error("Error revoking credential:", error);
+        res.status(500).json({ message: "Failed to revoke credential" });
+      }
+    });
+
+    // Public Open Badges 3.0 issuer profile, including the key that signs exported badges
+    router.get('/issuers/:schoolId', async (req, res) => {
+      try {
+        const schoolId = req.params.schoolId === 'platform' ? null : parseInt(req.params.schoolId);
+        if (Number.isNaN(schoolId)) {
+          return res.status(400).json({ message: "Invalid issuer ID" });
+        }
+        const profile = await this.service.getIssuerProfile(schoolId);
+        if (!profile) {
+          return res.status(404).json({ message: "Issuer not found" });
+        }
+        res.type('application/ld+json').send(JSON.stringify(profile));
+      } catch (error) {
+        console.error("Error fetching issuer profile:", error);
+        res.status(500).json({ message: "Failed to fetch issuer profile" });
+      }
+    });
+
+    // Signed Open Badges 3.0 credential, for its student or anyone viewing their public portfolio
+    router.get('/:id/open-badge', async (req, res) => {
+      try {
+        const credentialId = parseInt(req.params.id);
+        if (isNaN(credentialId)) {
+          return res.status(400).json({ message: "Invalid credential ID" });
+        }
+        const result = await this.service.getOpenBadge(credentialId, optionalViewerId(req));
+        if (!result) {
+          return res.status(404).json({ message: "Credential not found" });
+        }
+        if (result.revoked) {
+          return res.status(410).json({ message: "This credential has been revoked" });
+        }
+        if (req.query.download !== undefined) {
+          res.attachment(`credential-${credentialId}.jsonld`);
+        }
+        res.type('application/ld+json').send(JSON.stringify(result.badge, null, 2));
+      } catch (error) {
+        console.error("Error exporting open badge:", error);
+        res.status(500).json({ message: "Failed to export credential" });
+      }
+    });
+
+    // Public verification: checks the proof and whether the issuer has since revoked the credential
+    router.post('/verify', async (req, res) => {
+      try {
+        const result = await this.service.verifyOpenBadge(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error("Error verifying open badge:", error);
+        res.status(500).json({ message: "Failed to verify credential" });
+      }
+    });
+
     // Award a new credential
     router.post('/', requireAuth, async (req: AuthenticatedRequest, res) => {
       try {
@@ -1,27 +1,95 @@
-import { credentialStorage, type ICredentialStorage } from './credentials.storage';
-import { 
+import { randomBytes } from 'crypto';
+import {
+  credentialStorage,
+  type ICredentialStorage,
+  type PendingCredentialRecord
+} from './credentials.storage';
+import { planCredentialAwards } from './credential-award-engine';
+import { buildCredentialReport, getReportWindowStart } from './credential-report';
+import {
+  buildIssuerProfile,
+  buildOpenBadgeCredential,
+  deriveSigningKeys,
+  parseOpenBadgeCredentialId,
+  signOpenBadgeCredential,
+  verifyOpenBadgeSignature,
+  type JsonObject,
+  type OpenBadgeSigningKeys
+} from './open-badges';
+import { calculateMastery, competencyService, type MasteryLevel } from '../competencies';
+import { APP_BASE_URL } from '../../integrations/mail';
+import {
+  UserRole,
   type Credential,
   type InsertCredential
 } from "../../../shared/schema";
+import type {
+  CredentialReportPeriod,
+  OpenBadgeVerificationDTO,
+  TeacherCredentialReportDTO
+} from "../../../shared/contracts/api";
+import {
+  credentialAwardRulesSchema,
+  DEFAULT_CREDENTIAL_AWARD_RULES,
+  type CredentialAwardRule
+} from "../../../shared/credential-award-rules";
+import { resolveMasteryRule } from "../../../shared/mastery-rules";
+
+function resolveOpenBadgesSecret(): string {
+  const secret = process.env.OPEN_BADGES_SIGNING_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("OPEN_BADGES_SIGNING_SECRET must be set to sign exported Open Badges.");
+  }
+  // Development badges only need to verify until the server restarts
+  return randomBytes(32).toString("hex");
+}
+
+/** The teacher or admin acting on credentials; scopes which students they can see. */
+export interface CredentialActor {
+  id: number;
+  role: string;
+  schoolId: number | null;
+}
 
 export interface ICredentialService {
   getStudentCredentials(studentId: number): Promise<Credential[]>;
-  getTeacherStats(teacherId: number): Promise<Credential[]>;
+  getTeacherStats(actor: CredentialActor, period: CredentialReportPeriod): Promise<TeacherCredentialReportDTO>;
+  getCredentialReport(studentIds: number[], period: CredentialReportPeriod): Promise<TeacherCredentialReportDTO>;
   awardCredential(credentialData: InsertCredential): Promise<Credential>;
   updateCredential(id: number, updates: Partial<InsertCredential>): Promise<Credential>;
+  applyAwardRules(studentId: number, approverId: number | null): Promise<Credential[]>;
+  getCredentialAwardRules(schoolId: number): Promise<CredentialAwardRule[]>;
+  updateCredentialAwardRules(schoolId: number, rules: CredentialAwardRule[]): Promise<CredentialAwardRule[] | null>;
+  getPendingCredentials(actor: CredentialActor): Promise<PendingCredentialRecord[]>;
+  approveCredential(id: number, actor: CredentialActor): Promise<Credential | null>;
+  revokeCredential(id: number, actor: CredentialActor, reason: string): Promise<Credential | null>;
+  getOpenBadge(id: number, viewerId: number | null): Promise<{ badge: JsonObject; revoked: boolean } | null>;
+  verifyOpenBadge(document: unknown): Promise<OpenBadgeVerificationDTO>;
+  getIssuerProfile(schoolId: number | null): Promise<JsonObject | null>;
 }
 
 export class CredentialService implements ICredentialService {
-  constructor(private storage: ICredentialStorage = credentialStorage) {}
+  constructor(
+    private storage: ICredentialStorage = credentialStorage,
+    private signingKeys: OpenBadgeSigningKeys = deriveSigningKeys(resolveOpenBadgesSecret()),
+    private baseUrl: string = APP_BASE_URL,
+  ) {}
 
   async getStudentCredentials(studentId: number): Promise<Credential[]> {
     return await this.storage.getCredentialsByStudent(studentId);
   }
 
-  async getTeacherStats(teacherId: number): Promise<Credential[]> {
-    // For now, return student credentials - this would be enhanced to show 
-    // credentials awarded by this teacher across their projects
-    return await this.storage.getCredentialsByStudent(teacherId);
+  async getTeacherStats(actor: CredentialActor, period: CredentialReportPeriod): Promise<TeacherCredentialReportDTO> {
+    const studentIds = await this.getVisibleStudentIds(actor);
+    return this.getCredentialReport(studentIds, period);
+  }
+
+  async getCredentialReport(studentIds: number[], period: CredentialReportPeriod): Promise<TeacherCredentialReportDTO> {
+    const rows = await this.storage.getCredentialReportRows(studentIds, getReportWindowStart(period));
+    return buildCredentialReport(rows, period);
   }
 
   async awardCredential(credentialData: InsertCredential): Promise<Credential> {
@@ -31,6 +99,165 @@ export class CredentialService implements ICredentialService {
   async updateCredential(id: number, updates: Partial<InsertCredential>): Promise<Credential> {
     return await this.storage.updateCredential(id, updates);
   }
+
+  /**
+   * Re-evaluates a student's current mastery against their school's award
+   * rules and persists whatever is newly earned. Safe to call after every
+   * grading pass; returns only the credentials created or upgraded.
+   */
+  async applyAwardRules(studentId: number, approverId: number | null): Promise<Credential[]> {
+    const schoolId = await this.storage.getUserSchoolId(studentId);
+    const rules = schoolId ? await this.getCredentialAwardRules(schoolId) : DEFAULT_CREDENTIAL_AWARD_RULES;
+    const masteryRules = schoolId ? await competencyService.getSchoolMasteryRules(schoolId) : null;
+
+    const history = await this.storage.getStudentGradeHistory(studentId);
+    const historyBySkill = new Map<number, typeof history>();
+    history.forEach((grade) => {
+      if (grade.componentSkillId != null) {
+        historyBySkill.set(grade.componentSkillId, [...(historyBySkill.get(grade.componentSkillId) ?? []), grade]);
+      }
+    });
+
+    const levels = new Map<number, MasteryLevel>();
+    historyBySkill.forEach((skillHistory, skillId) => {
+      const mastery = calculateMastery(skillHistory, resolveMasteryRule(masteryRules, skillId));
+      if (mastery) {
+        levels.set(skillId, mastery.rubricLevel);
+      }
+    });
+
+    if (levels.size === 0) {
+      return [];
+    }
+
+    const competencies = await competencyService.getCompetenciesWithSkills();
+    const decisions = planCredentialAwards({
+      studentId,
+      rules,
+      levels,
+      skills: competencies.flatMap((competency) => competency.componentSkills),
+      competencies,
+      subjects: await competencyService.getLearnerOutcomes(),
+      existing: await this.storage.getCredentialsByStudent(studentId, { includeHidden: true }),
+      approverId,
+    });
+
+    const awarded: Credential[] = [];
+    for (const decision of decisions) {
+      awarded.push(
+        decision.action === "create"
+          ? await this.storage.createCredential(decision.credential)
+          : await this.storage.updateCredential(decision.credentialId, decision.changes),
+      );
+    }
+    return awarded;
+  }
+
+  // Schools that never configured award rules, or whose stored rules no longer parse, use the default
+  async getCredentialAwardRules(schoolId: number): Promise<CredentialAwardRule[]> {
+    const stored = await this.storage.getCredentialAwardRules(schoolId);
+    const parsed = credentialAwardRulesSchema.safeParse(stored);
+    return parsed.success ? parsed.data : DEFAULT_CREDENTIAL_AWARD_RULES;
+  }
+
+  async updateCredentialAwardRules(schoolId: number, rules: CredentialAwardRule[]): Promise<CredentialAwardRule[] | null> {
+    return await this.storage.updateCredentialAwardRules(schoolId, rules);
+  }
+
+  async getPendingCredentials(actor: CredentialActor): Promise<PendingCredentialRecord[]> {
+    return await this.storage.getPendingCredentials(await this.getVisibleStudentIds(actor));
+  }
+
+  // Returns null when the credential doesn't exist, is revoked, or belongs to a student outside the actor's scope
+  async approveCredential(id: number, actor: CredentialActor): Promise<Credential | null> {
+    const credential = await this.getManageableCredential(id, actor);
+    if (!credential || credential.revokedAt) {
+      return null;
+    }
+    if (credential.approvedBy != null) {
+      return credential;
+    }
+    return await this.storage.updateCredential(id, { approvedBy: actor.id });
+  }
+
+  async revokeCredential(id: number, actor: CredentialActor, reason: string): Promise<Credential | null> {
+    const credential = await this.getManageableCredential(id, actor);
+    if (!credential) {
+      return null;
+    }
+    if (credential.revokedAt) {
+      return credential;
+    }
+    return await this.storage.revokeCredential(id, actor.id, reason);
+  }
+
+  // Pending credentials were never issued, so they have no portable form. Issued ones
+  // are shown to their student, or to anyone once the student publishes their portfolio.
+  async getOpenBadge(id: number, viewerId: number | null): Promise<{ badge: JsonObject; revoked: boolean } | null> {
+    const source = await this.storage.getOpenBadgeSource(id);
+    if (!source || source.credential.approvedBy == null) {
+      return null;
+    }
+    if (!source.onPublicPortfolio && source.credential.studentId !== viewerId) {
+      return null;
+    }
+    return {
+      badge: signOpenBadgeCredential(buildOpenBadgeCredential(source, this.baseUrl), this.signingKeys),
+      revoked: source.credential.revokedAt != null,
+    };
+  }
+
+  async verifyOpenBadge(document: unknown): Promise<OpenBadgeVerificationDTO> {
+    const signatureErrors = verifyOpenBadgeSignature(document, this.signingKeys.publicKey);
+    const badge = (document && typeof document === "object" ? document : {}) as JsonObject;
+    const issuer = badge.issuer && typeof badge.issuer === "object" && !Array.isArray(badge.issuer) ? badge.issuer : null;
+    const credentialId = parseOpenBadgeCredentialId(badge.id);
+    const source = credentialId != null ? await this.storage.getOpenBadgeSource(credentialId) : undefined;
+
+    const errors = [...signatureErrors];
+    if (!source || source.credential.approvedBy == null) {
+      errors.push("Credential is not known to this issuer");
+    } else if (source.credential.revokedAt) {
+      errors.push("Credential has been revoked by the issuer");
+    }
+
+    return {
+      verified: errors.length === 0,
+      signatureValid: signatureErrors.length === 0,
+      revoked: source?.credential.revokedAt != null,
+      revokedAt: source?.credential.revokedAt ?? null,
+      credentialId,
+      issuerName: typeof issuer?.name === "string" ? issuer.name : null,
+      errors,
+    };
+  }
+
+  async getIssuerProfile(schoolId: number | null): Promise<JsonObject | null> {
+    const school = schoolId != null ? await this.storage.getSchoolById(schoolId) : null;
+    if (schoolId != null && !school) {
+      return null;
+    }
+    return buildIssuerProfile(this.baseUrl, school ?? null, this.signingKeys.publicKeyMultibase);
+  }
+
+  // Admins see their whole school; teachers also see students in their projects
+  private async getVisibleStudentIds(actor: CredentialActor): Promise<number[]> {
+    const schoolStudentIds = actor.schoolId ? await this.storage.getSchoolStudentIds(actor.schoolId) : [];
+    if (actor.role === UserRole.ADMIN) {
+      return schoolStudentIds;
+    }
+    const projectStudentIds = await this.storage.getProjectStudentIds(actor.id);
+    return Array.from(new Set([...schoolStudentIds, ...projectStudentIds]));
+  }
+
+  private async getManageableCredential(id: number, actor: CredentialActor): Promise<Credential | null> {
+    const credential = await this.storage.getCredentialById(id);
+    if (!credential?.studentId) {
+      return null;
+    }
+    const visibleStudentIds = await this.getVisibleStudentIds(actor);
+    return visibleStudentIds.includes(credential.studentId) ? credential : null;
+  }
 }
 
-export const credentialService = new CredentialService();
\ No newline at end of file
+export const credentialService = new CredentialService();
@@ -1,15 +1,61 @@
-import { eq, desc } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
 import { db } from "../../db";
-import { 
+import {
+  competencies,
+  componentSkills,
   credentials,
+  grades,
+  portfolios,
+  projectAssignments,
+  projects,
+  projectTeamMembers,
+  projectTeams,
+  schools,
+  submissions,
+  users,
+  UserRole,
   type Credential,
-  type InsertCredential
+  type InsertCredential,
+  type School
 } from "../../../shared/schema";
+import type { CredentialAwardRule } from "../../../shared/credential-award-rules";
+import type { CredentialReportRow } from "./credential-report";
+import type { OpenBadgeSource } from "./open-badges";
+
+export interface StudentSkillGradeRecord {
+  componentSkillId: number | null;
+  rubricLevel: string | null;
+  score: string | null;
+  gradedAt: Date | null;
+}
+
+export type OpenBadgeSourceRecord = OpenBadgeSource & {
+  credential: Credential;
+  // The student has published their portfolio, which links the badge publicly
+  onPublicPortfolio: boolean;
+};
+
+export type PendingCredentialRecord = Credential & {
+  studentFirstName: string | null;
+  studentLastName: string | null;
+};
 
 export interface ICredentialStorage {
   createCredential(credential: InsertCredential): Promise<Credential>;
-  getCredentialsByStudent(studentId: number): Promise<Credential[]>;
+  getCredentialById(id: number): Promise<Credential | undefined>;
+  getCredentialsByStudent(studentId: number, options?: { includeHidden?: boolean }): Promise<Credential[]>;
   updateCredential(id: number, updates: Partial<InsertCredential>): Promise<Credential>;
+  revokeCredential(id: number, revokedBy: number, reason: string): Promise<Credential>;
+  getPendingCredentials(studentIds: number[]): Promise<PendingCredentialRecord[]>;
+  getSchoolStudentIds(schoolId: number): Promise<number[]>;
+  getProjectStudentIds(teacherId: number): Promise<number[]>;
+  getCredentialReportRows(studentIds: number[], since: Date | null): Promise<CredentialReportRow[]>;
+  getOpenBadgeSource(id: number): Promise<OpenBadgeSourceRecord | undefined>;
+  getSchoolById(schoolId: number): Promise<School | undefined>;
+  getStudentGradeHistory(studentId: number): Promise<StudentSkillGradeRecord[]>;
+  getUserSchoolId(userId: number): Promise<number | null>;
+  getCredentialAwardRules(schoolId: number): Promise<CredentialAwardRule[] | null>;
+  updateCredentialAwardRules(schoolId: number, rules: CredentialAwardRule[]): Promise<CredentialAwardRule[] | null>;
 }
 
 export class CredentialStorage implements ICredentialStorage {
@@ -21,11 +67,25 @@ export class CredentialStorage implements ICredentialStorage {
     return newCredential;
   }
 
-  async getCredentialsByStudent(studentId: number): Promise<Credential[]> {
+  async getCredentialById(id: number): Promise<Credential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(credentials)
+      .where(eq(credentials.id, id))
+      .limit(1);
+    return credential;
+  }
+
+  // Pending (no approver yet) and revoked credentials stay hidden from students unless asked for explicitly
+  async getCredentialsByStudent(studentId: number, options: { includeHidden?: boolean } = {}): Promise<Credential[]> {
     return await db
       .select()
       .from(credentials)
-      .where(eq(credentials.studentId, studentId))
+      .where(
+        options.includeHidden
+          ? eq(credentials.studentId, studentId)
+          : and(eq(credentials.studentId, studentId), isNotNull(credentials.approvedBy), isNull(credentials.revokedAt)),
+      )
       .orderBy(desc(credentials.awardedAt));
   }
 
@@ -37,6 +97,184 @@ export class CredentialStorage implements ICredentialStorage {
       .returning();
     return updatedCredential;
   }
+
+  async revokeCredential(id: number, revokedBy: number, reason: string): Promise<Credential> {
+    const [revokedCredential] = await db
+      .update(credentials)
+      .set({ revokedAt: new Date(), revokedBy, revokedReason: reason })
+      .where(eq(credentials.id, id))
+      .returning();
+    return revokedCredential;
+  }
+
+  async getPendingCredentials(studentIds: number[]): Promise<PendingCredentialRecord[]> {
+    if (studentIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({
+        credential: credentials,
+        studentFirstName: users.firstName,
+        studentLastName: users.lastName,
+      })
+      .from(credentials)
+      .innerJoin(users, eq(credentials.studentId, users.id))
+      .where(
+        and(
+          inArray(credentials.studentId, studentIds),
+          isNull(credentials.approvedBy),
+          isNull(credentials.revokedAt),
+        ),
+      )
+      .orderBy(desc(credentials.awardedAt));
+
+    return rows.map((row) => ({
+      ...row.credential,
+      studentFirstName: row.studentFirstName,
+      studentLastName: row.studentLastName,
+    }));
+  }
+
+  async getSchoolStudentIds(schoolId: number): Promise<number[]> {
+    const students = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.schoolId, schoolId), eq(users.role, UserRole.STUDENT)));
+    return students.map((student) => student.id);
+  }
+
+  // Students reached through the teacher's projects, either directly or through a project team
+  async getProjectStudentIds(teacherId: number): Promise<number[]> {
+    const [assigned, teamMembers] = await Promise.all([
+      db
+        .select({ studentId: projectAssignments.studentId })
+        .from(projectAssignments)
+        .innerJoin(projects, eq(projectAssignments.projectId, projects.id))
+        .where(eq(projects.teacherId, teacherId)),
+      db
+        .select({ studentId: projectTeamMembers.studentId })
+        .from(projectTeamMembers)
+        .innerJoin(projectTeams, eq(projectTeamMembers.teamId, projectTeams.id))
+        .innerJoin(projects, eq(projectTeams.projectId, projects.id))
+        .where(eq(projects.teacherId, teacherId)),
+    ]);
+    return Array.from(
+      new Set([...assigned, ...teamMembers].map((row) => row.studentId).filter((id): id is number => id != null)),
+    );
+  }
+
+  // Rows awarded or revoked since the window start, plus every pending award regardless of age
+  async getCredentialReportRows(studentIds: number[], since: Date | null): Promise<CredentialReportRow[]> {
+    if (studentIds.length === 0) {
+      return [];
+    }
+    const inScope = inArray(credentials.studentId, studentIds);
+    return await db
+      .select({
+        id: credentials.id,
+        studentId: credentials.studentId,
+        studentFirstName: users.firstName,
+        studentLastName: users.lastName,
+        studentUsername: users.username,
+        type: credentials.type,
+        title: credentials.title,
+        componentSkillId: credentials.componentSkillId,
+        componentSkillName: componentSkills.name,
+        competencyId: competencies.id,
+        competencyName: competencies.name,
+        subjectArea: credentials.subjectArea,
+        awardedAt: credentials.awardedAt,
+        approvedBy: credentials.approvedBy,
+        revokedAt: credentials.revokedAt,
+        revokedReason: credentials.revokedReason,
+      })
+      .from(credentials)
+      .leftJoin(users, eq(credentials.studentId, users.id))
+      .leftJoin(componentSkills, eq(credentials.componentSkillId, componentSkills.id))
+      // Stickers roll up to the competency of their component skill
+      .leftJoin(competencies, sql`${competencies.id} = coalesce(${credentials.competencyId}, ${componentSkills.competencyId})`)
+      .where(
+        since
+          ? and(
+              inScope,
+              or(gte(credentials.awardedAt, since), gte(credentials.revokedAt, since), isNull(credentials.approvedBy)),
+            )
+          : inScope,
+      )
+      .orderBy(desc(credentials.awardedAt));
+  }
+
+  async getOpenBadgeSource(id: number): Promise<OpenBadgeSourceRecord | undefined> {
+    const [row] = await db
+      .select({
+        credential: credentials,
+        school: schools,
+        studentEmail: users.email,
+        componentSkillName: componentSkills.name,
+        competencyName: competencies.name,
+        onPublicPortfolio: sql<boolean>`exists (
+          select 1 from ${portfolios}
+          where ${portfolios.studentId} = ${credentials.studentId} and ${portfolios.isPublic} = true
+        )`,
+      })
+      .from(credentials)
+      .leftJoin(users, eq(credentials.studentId, users.id))
+      .leftJoin(schools, eq(users.schoolId, schools.id))
+      .leftJoin(componentSkills, eq(credentials.componentSkillId, componentSkills.id))
+      .leftJoin(competencies, sql`${competencies.id} = coalesce(${credentials.competencyId}, ${componentSkills.competencyId})`)
+      .where(eq(credentials.id, id))
+      .limit(1);
+    return row;
+  }
+
+  async getSchoolById(schoolId: number): Promise<School | undefined> {
+    const [school] = await db
+      .select()
+      .from(schools)
+      .where(eq(schools.id, schoolId))
+      .limit(1);
+    return school;
+  }
+
+  async getStudentGradeHistory(studentId: number): Promise<StudentSkillGradeRecord[]> {
+    return await db
+      .select({
+        componentSkillId: grades.componentSkillId,
+        rubricLevel: grades.rubricLevel,
+        score: grades.score,
+        gradedAt: grades.gradedAt,
+      })
+      .from(grades)
+      .innerJoin(submissions, eq(grades.submissionId, submissions.id))
+      .where(eq(submissions.studentId, studentId));
+  }
+
+  async getUserSchoolId(userId: number): Promise<number | null> {
+    const [user] = await db
+      .select({ schoolId: users.schoolId })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return user?.schoolId ?? null;
+  }
+
+  async getCredentialAwardRules(schoolId: number): Promise<CredentialAwardRule[] | null> {
+    const [school] = await db
+      .select({ credentialAwardRules: schools.credentialAwardRules })
+      .from(schools)
+      .where(eq(schools.id, schoolId))
+      .limit(1);
+    return school?.credentialAwardRules ?? null;
+  }
+
+  async updateCredentialAwardRules(schoolId: number, rules: CredentialAwardRule[]): Promise<CredentialAwardRule[] | null> {
+    const [school] = await db
+      .update(schools)
+      .set({ credentialAwardRules: rules })
+      .where(eq(schools.id, schoolId))
+      .returning({ credentialAwardRules: schools.credentialAwardRules });
+    return school?.credentialAwardRules ?? null;
+  }
 }
 
-export const credentialStorage = new CredentialStorage();
\ No newline at end of file
+export const credentialStorage = new CredentialStorage();
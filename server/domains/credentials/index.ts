@@ -3,6 +3,7 @@ export { credentialsRouter, CredentialController } from './credentials.controlle
 
 // Export service
 export { credentialService, type ICredentialService } from './credentials.service';
+export { CREDENTIAL_REPORT_PERIODS } from './credential-report';
 
 // Export storage
 export { credentialStorage, type ICredentialStorage } from './credentials.storage';
\ No newline at end of file
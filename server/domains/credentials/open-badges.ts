@@ -0,0 +1,240 @@
+import { createHash, createPrivateKey, createPublicKey, randomBytes, sign, verify, type KeyObject } from "crypto";
+import type { Credential, School } from "../../../shared/schema";
+
+export const OPEN_BADGES_CONTEXT = [
+  "https://www.w3.org/ns/credentials/v2",
+  "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json",
+] as const;
+
+const CRYPTOSUITE = "eddsa-jcs-2022";
+
+// PKCS#8 DER header for a raw 32-byte Ed25519 seed (RFC 8410)
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+// Multicodec prefix for an Ed25519 public key, as used by Multikey
+const ED25519_MULTICODEC_PREFIX = Buffer.from([0xed, 0x01]);
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+const ACHIEVEMENT_TYPES: Record<Credential["type"], string> = {
+  sticker: "Competency",
+  badge: "Badge",
+  plaque: "Award",
+};
+
+export interface OpenBadgeSigningKeys {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  publicKeyMultibase: string;
+}
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+export type JsonObject = { [key: string]: JsonValue };
+
+export interface OpenBadgeSource {
+  credential: Pick<Credential, "id" | "type" | "title" | "description" | "awardedAt" | "subjectArea">;
+  school: Pick<School, "id" | "name" | "address" | "city" | "state" | "zipCode"> | null;
+  studentEmail: string | null;
+  componentSkillName: string | null;
+  competencyName: string | null;
+}
+
+export function base58btcEncode(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString("hex") || "0"}`);
+  let encoded = "";
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+  const leadingZeros = bytes.findIndex((byte) => byte !== 0);
+  return "1".repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded;
+}
+
+export function base58btcDecode(text: string): Buffer | null {
+  let value = BigInt(0);
+  for (const character of text) {
+    const digit = BASE58_ALPHABET.indexOf(character);
+    if (digit === -1) {
+      return null;
+    }
+    value = value * BigInt(58) + BigInt(digit);
+  }
+  const hex = value === BigInt(0) ? "" : value.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  const leadingZeros = text.match(/^1*/)?.[0].length ?? 0;
+  return Buffer.concat([Buffer.alloc(leadingZeros), body]);
+}
+
+/** JSON Canonicalization Scheme (RFC 8785) for the plain JSON values credentials contain. */
+export function canonicalize(value: JsonValue): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  const keys = Object.keys(value).sort();
+  return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(",")}}`;
+}
+
+function sha256(text: string): Buffer {
+  return createHash("sha256").update(text, "utf8").digest();
+}
+
+/** Derives a stable Ed25519 key pair from a server secret so exported badges stay verifiable across restarts. */
+export function deriveSigningKeys(secret: string): OpenBadgeSigningKeys {
+  const seed = sha256(`open-badges:${secret}`);
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = createPublicKey(privateKey);
+  const rawPublicKey = publicKey.export({ format: "der", type: "spki" }).subarray(-32);
+  return {
+    privateKey,
+    publicKey,
+    publicKeyMultibase: `z${base58btcEncode(Buffer.concat([ED25519_MULTICODEC_PREFIX, rawPublicKey]))}`,
+  };
+}
+
+export function issuerIdFor(baseUrl: string, schoolId: number | null): string {
+  return `${baseUrl}/api/credentials/issuers/${schoolId ?? "platform"}`;
+}
+
+export function openBadgeIdFor(baseUrl: string, credentialId: number): string {
+  return `${baseUrl}/api/credentials/${credentialId}/open-badge`;
+}
+
+export function parseOpenBadgeCredentialId(badgeId: unknown): number | null {
+  const match = typeof badgeId === "string" ? badgeId.match(/\/api\/credentials\/(\d+)\/open-badge$/) : null;
+  return match ? Number(match[1]) : null;
+}
+
+export function buildIssuerProfile(
+  baseUrl: string,
+  school: OpenBadgeSource["school"],
+  publicKeyMultibase?: string,
+): JsonObject {
+  const id = issuerIdFor(baseUrl, school?.id ?? null);
+  const profile: JsonObject = {
+    id,
+    type: ["Profile"],
+    name: school?.name ?? "MasteryMap",
+  };
+  if (school && (school.address || school.city || school.state || school.zipCode)) {
+    profile.address = {
+      type: ["Address"],
+      ...(school.address ? { streetAddress: school.address } : {}),
+      ...(school.city ? { addressLocality: school.city } : {}),
+      ...(school.state ? { addressRegion: school.state } : {}),
+      ...(school.zipCode ? { postalCode: school.zipCode } : {}),
+    };
+  }
+  if (publicKeyMultibase) {
+    profile["@context"] = [...OPEN_BADGES_CONTEXT];
+    profile.verificationMethod = [
+      { id: `${id}#key-1`, type: "Multikey", controller: id, publicKeyMultibase },
+    ];
+  }
+  return profile;
+}
+
+/** Builds the unsigned Open Badges 3.0 OpenBadgeCredential for one credentials row. */
+export function buildOpenBadgeCredential(
+  source: OpenBadgeSource,
+  baseUrl: string,
+  salt: string = randomBytes(8).toString("hex"),
+): JsonObject {
+  const { credential, school, studentEmail, componentSkillName, competencyName } = source;
+  const badgeId = openBadgeIdFor(baseUrl, credential.id);
+  const alignedTo = componentSkillName ?? competencyName ?? credential.subjectArea;
+
+  const credentialSubject: JsonObject = {
+    type: ["AchievementSubject"],
+    achievement: {
+      id: `${badgeId}#achievement`,
+      type: ["Achievement"],
+      achievementType: ACHIEVEMENT_TYPES[credential.type],
+      name: credential.title,
+      description: credential.description ?? credential.title,
+      criteria: { narrative: credential.description ?? `Awarded for ${alignedTo ?? credential.title}` },
+      ...(alignedTo ? { tag: [alignedTo] } : {}),
+    },
+  };
+
+  // The learner is identified by a salted email hash so the public assertion doesn't expose the address;
+  // a fresh random salt per export stops precomputed lookups and linking one learner's badges together
+  if (studentEmail) {
+    credentialSubject.identifier = [
+      {
+        type: "IdentityObject",
+        identityType: "emailAddress",
+        hashed: true,
+        salt,
+        identityHash: `sha256$${sha256(`${studentEmail.trim().toLowerCase()}${salt}`).toString("hex")}`,
+      },
+    ];
+  }
+
+  return {
+    "@context": [...OPEN_BADGES_CONTEXT],
+    id: badgeId,
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    issuer: buildIssuerProfile(baseUrl, school),
+    validFrom: (credential.awardedAt ?? new Date()).toISOString(),
+    name: credential.title,
+    credentialSubject,
+  };
+}
+
+function proofHashData(document: JsonObject, proofConfig: JsonObject): Buffer {
+  return Buffer.concat([sha256(canonicalize(proofConfig)), sha256(canonicalize(document))]);
+}
+
+/** Adds a Data Integrity proof using the eddsa-jcs-2022 cryptosuite. */
+export function signOpenBadgeCredential(
+  document: JsonObject,
+  keys: OpenBadgeSigningKeys,
+  created: Date = new Date(),
+): JsonObject {
+  const issuer = document.issuer as JsonObject;
+  const proofConfig: JsonObject = {
+    "@context": document["@context"],
+    type: "DataIntegrityProof",
+    cryptosuite: CRYPTOSUITE,
+    created: created.toISOString(),
+    verificationMethod: `${issuer.id}#key-1`,
+    proofPurpose: "assertionMethod",
+  };
+  const signature = sign(null, proofHashData(document, proofConfig), keys.privateKey);
+  const { "@context": _context, ...proof } = proofConfig;
+  return { ...document, proof: { ...proof, proofValue: `z${base58btcEncode(signature)}` } };
+}
+
+/**
+ * Checks a signed credential's proof against our public key. Returns the
+ * problems found; an empty list means the document is exactly what we signed.
+ */
+export function verifyOpenBadgeSignature(signed: unknown, publicKey: KeyObject): string[] {
+  if (!signed || typeof signed !== "object" || Array.isArray(signed)) {
+    return ["Credential must be a JSON object"];
+  }
+  const { proof, ...document } = signed as JsonObject;
+  if (!proof || typeof proof !== "object" || Array.isArray(proof)) {
+    return ["Credential has no proof"];
+  }
+  const { proofValue, ...proofOptions } = proof;
+  if (proofOptions.type !== "DataIntegrityProof" || proofOptions.cryptosuite !== CRYPTOSUITE) {
+    return [`Unsupported proof; expected a DataIntegrityProof using ${CRYPTOSUITE}`];
+  }
+  const issuer = document.issuer as JsonObject | undefined;
+  if (!issuer || typeof issuer !== "object" || proofOptions.verificationMethod !== `${issuer.id}#key-1`) {
+    return ["Proof verification method does not belong to the credential issuer"];
+  }
+  const signature = typeof proofValue === "string" && proofValue.startsWith("z") ? base58btcDecode(proofValue.slice(1)) : null;
+  if (!signature) {
+    return ["Proof value is not base58btc multibase"];
+  }
+  const proofConfig = { ...proofOptions, "@context": document["@context"] };
+  return verify(null, proofHashData(document, proofConfig), publicKey, signature) ? [] : ["Signature does not match the credential"];
+}
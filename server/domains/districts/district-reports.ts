@@ -0,0 +1,94 @@
+import type { DistrictSkillMasteryDTO, DistrictSkillMasteryReportDTO } from "../../../shared/contracts/api";
+
+/** One school's skill tracker rows, as the school-wide skills tracker computes them. */
+export interface SchoolSkillProgress {
+  schoolId: number;
+  schoolName: string;
+  skills: Array<{
+    id: number;
+    name: string;
+    competencyName: string;
+    learnerOutcomeName: string;
+    averageScore: number;
+    studentsAssessed: number;
+    rubricDistribution: DistrictSkillMasteryDTO["rubricDistribution"];
+  }>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function passRate(distribution: DistrictSkillMasteryDTO["rubricDistribution"], studentsAssessed: number): number {
+  return studentsAssessed > 0 ? round(((distribution.proficient + distribution.applying) / studentsAssessed) * 100) : 0;
+}
+
+/**
+ * Combines per-school skill trackers into one district view. Each school's
+ * levels already follow its own mastery rules, so students are only counted,
+ * never re-scored; averages are weighted by the students assessed.
+ */
+export function aggregateDistrictSkillMastery(perSchool: SchoolSkillProgress[]): DistrictSkillMasteryReportDTO {
+  const skills = new Map<number, DistrictSkillMasteryDTO & { scoreTotal: number }>();
+
+  perSchool.forEach(({ schoolId, schoolName, skills: schoolSkills }) => {
+    schoolSkills.forEach((skill) => {
+      if (skill.studentsAssessed === 0) {
+        return;
+      }
+      const current = skills.get(skill.id) ?? {
+        componentSkillId: skill.id,
+        name: skill.name,
+        competencyName: skill.competencyName,
+        learnerOutcomeName: skill.learnerOutcomeName,
+        studentsAssessed: 0,
+        averageScore: 0,
+        passRate: 0,
+        rubricDistribution: { emerging: 0, developing: 0, proficient: 0, applying: 0 },
+        schools: [],
+        scoreTotal: 0,
+      };
+      current.studentsAssessed += skill.studentsAssessed;
+      current.scoreTotal += skill.averageScore * skill.studentsAssessed;
+      (Object.keys(current.rubricDistribution) as Array<keyof typeof current.rubricDistribution>).forEach((level) => {
+        current.rubricDistribution[level] += skill.rubricDistribution[level];
+      });
+      current.schools.push({
+        schoolId,
+        schoolName,
+        studentsAssessed: skill.studentsAssessed,
+        averageScore: round(skill.averageScore),
+        passRate: passRate(skill.rubricDistribution, skill.studentsAssessed),
+      });
+      skills.set(skill.id, current);
+    });
+  });
+
+  const districtSkills = Array.from(skills.values())
+    .map(({ scoreTotal, ...skill }) => ({
+      ...skill,
+      averageScore: round(scoreTotal / skill.studentsAssessed),
+      passRate: passRate(skill.rubricDistribution, skill.studentsAssessed),
+    }))
+    .sort((a, b) => b.studentsAssessed - a.studentsAssessed || a.name.localeCompare(b.name));
+
+  const schools = perSchool.map(({ schoolId, schoolName, skills: schoolSkills }) => {
+    const assessed = schoolSkills.filter((skill) => skill.studentsAssessed > 0);
+    // Student-skill pairs, so a student assessed in three skills counts three times
+    const studentsAssessed = assessed.reduce((sum, skill) => sum + skill.studentsAssessed, 0);
+    const passing = assessed.reduce(
+      (sum, skill) => sum + skill.rubricDistribution.proficient + skill.rubricDistribution.applying,
+      0,
+    );
+    const summary: DistrictSkillMasteryReportDTO["schools"][number] = {
+      schoolId,
+      schoolName,
+      skillsAssessed: assessed.length,
+      averageScore: studentsAssessed > 0
+        ? round(assessed.reduce((sum, skill) => sum + skill.averageScore * skill.studentsAssessed, 0) / studentsAssessed)
+        : 0,
+      passRate: studentsAssessed > 0 ? round((passing / studentsAssessed) * 100) : 0,
+    };
+    return summary;
+  });
+
+  return { skills: districtSkills, schools };
+}
@@ -0,0 +1,74 @@
+import type {
+  DistrictProjectTemplate,
+  Milestone,
+  Project,
+  districtProjectTemplates,
+} from "../../../shared/schema";
+import type { DistrictProjectTemplateDTO, ProjectCreateRequestDTO } from "../../../shared/contracts/api";
+
+export type NewDistrictProjectTemplate = typeof districtProjectTemplates.$inferInsert;
+
+/**
+ * Copies what a school needs to start from the project: its description,
+ * skills, standards and milestone outline. Dates, assignments, teams and
+ * assessments stay with the source school.
+ */
+export function snapshotProjectTemplate(
+  project: Project,
+  milestones: Milestone[],
+  districtId: number,
+  publishedBy: number,
+): NewDistrictProjectTemplate {
+  return {
+    districtId,
+    sourceProjectId: project.id,
+    publishedBy,
+    title: project.title,
+    description: project.description,
+    subjectArea: project.subjectArea,
+    gradeLevel: project.gradeLevel,
+    estimatedDuration: project.estimatedDuration,
+    componentSkillIds: project.componentSkillIds ?? [],
+    bestStandardIds: project.bestStandardIds ?? [],
+    learningOutcomes: project.learningOutcomes ?? [],
+    requiredResources: project.requiredResources ?? [],
+    milestones: [...milestones]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.id - b.id)
+      .map((milestone, index) => ({
+        title: milestone.title,
+        description: milestone.description,
+        order: index + 1,
+      })),
+  };
+}
+
+export function templateToProjectRequest(template: DistrictProjectTemplate): ProjectCreateRequestDTO {
+  return {
+    title: template.title,
+    description: template.description,
+    componentSkillIds: template.componentSkillIds ?? [],
+    bestStandardIds: template.bestStandardIds ?? [],
+    subjectArea: template.subjectArea,
+    gradeLevel: template.gradeLevel,
+    estimatedDuration: template.estimatedDuration,
+    learningOutcomes: template.learningOutcomes ?? [],
+    requiredResources: template.requiredResources ?? [],
+  };
+}
+
+export function toTemplateDTO(template: DistrictProjectTemplate): DistrictProjectTemplateDTO {
+  return {
+    id: template.id,
+    sourceProjectId: template.sourceProjectId,
+    title: template.title,
+    description: template.description,
+    subjectArea: template.subjectArea,
+    gradeLevel: template.gradeLevel,
+    estimatedDuration: template.estimatedDuration,
+    componentSkillIds: template.componentSkillIds ?? [],
+    bestStandardIds: template.bestStandardIds ?? [],
+    learningOutcomes: template.learningOutcomes ?? [],
+    milestones: template.milestones ?? [],
+    publishedAt: template.createdAt,
+  };
+}
@@ -0,0 +1,177 @@
+import { Router } from "express";
+import { districtsService, type IDistrictsService } from "./districts.service";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../auth";
+import { CREDENTIAL_REPORT_PERIODS } from "../credentials";
+import { meterUsage } from "../plans";
+import { createSuccessResponse, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+import type { CredentialReportPeriod } from "../../../shared/contracts/api";
+
+export class DistrictsController {
+  constructor(private service: IDistrictsService = districtsService) {}
+
+  // Create Express router with the district console and shared template routes
+  createRouter(): Router {
+    const router = Router();
+    const districtAdminOnly = [requireAuth, requireRole(UserRole.DISTRICT_ADMIN)];
+
+    router.get("/current", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getDistrict(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district");
+      }
+    });
+
+    router.get("/reports/usage", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getUsageReport(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district usage");
+      }
+    });
+
+    router.get("/reports/skill-mastery", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getSkillMasteryReport(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district skill mastery");
+      }
+    });
+
+    router.get("/reports/credentials", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const period = (req.query.period ?? "90d") as CredentialReportPeriod;
+        if (!CREDENTIAL_REPORT_PERIODS.includes(period)) {
+          return res.status(400).json({ message: `period must be one of ${CREDENTIAL_REPORT_PERIODS.join(", ")}` });
+        }
+        createSuccessResponse(res, await this.service.getCredentialReport(req.user!.id, period));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district credentials");
+      }
+    });
+
+    // Projects from the district's schools that can be published as templates
+    router.get("/projects", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const search = typeof req.query.search === "string" ? req.query.search : "";
+        createSuccessResponse(res, await this.service.searchProjects(req.user!.id, search));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district projects");
+      }
+    });
+
+    // District admins see what they published; school staff see their district's templates
+    router.get(
+      "/templates",
+      requireAuth,
+      requireRole(UserRole.DISTRICT_ADMIN, UserRole.ADMIN, UserRole.TEACHER),
+      async (req: AuthenticatedRequest, res) => {
+        try {
+          createSuccessResponse(res, await this.service.getTemplates(req.user!.id));
+        } catch (error) {
+          sendDomainError(res, error, "Failed to fetch project templates");
+        }
+      },
+    );
+
+    router.post("/templates", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.publishTemplate(req.user!.id, req.body), undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to publish project template");
+      }
+    });
+
+    router.delete("/templates/:templateId", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.deleteTemplate(req.user!.id, parseInt(req.params.templateId));
+        createSuccessResponse(res, { message: "Template removed" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to remove project template");
+      }
+    });
+
+    // Copies a template into a new draft project owned by the teacher
+    router.post("/templates/:templateId/use", requireAuth, requireRole(UserRole.TEACHER), meterUsage("project"), async (req: AuthenticatedRequest, res) => {
+      try {
+        const project = await this.service.useTemplate(req.user!.id, parseInt(req.params.templateId));
+        createSuccessResponse(res, project, undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to create project from template");
+      }
+    });
+
+    router.get("/framework/mastery-rules", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getMasteryRules(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district mastery rules");
+      }
+    });
+
+    router.put("/framework/mastery-rules", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.updateMasteryRules(req.user!.id, req.body));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to update district mastery rules");
+      }
+    });
+
+    router.get("/framework/award-rules", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getCredentialAwardRules(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch district award rules");
+      }
+    });
+
+    router.put("/framework/award-rules", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.updateCredentialAwardRules(req.user!.id, req.body));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to update district award rules");
+      }
+    });
+
+    // Overwrites the mastery and award rules of every school in the district
+    router.post("/framework/publish", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.publishFramework(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to publish district framework");
+      }
+    });
+
+    router.get("/plans", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getSchoolPlans(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch school plans");
+      }
+    });
+
+    router.put("/schools/:schoolId/plan", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const plan = await this.service.updateSchoolPlan(req.user!.id, parseInt(req.params.schoolId), req.body);
+        createSuccessResponse(res, plan);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to update school plan");
+      }
+    });
+
+    // Month-to-date estimated AI cost per school and feature
+    router.get("/ai-costs", ...districtAdminOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getSchoolAiCosts(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch AI costs");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const districtsController = new DistrictsController();
+export const districtsRouter = districtsController.createRouter();
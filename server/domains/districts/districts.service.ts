@@ -0,0 +1,300 @@
+import { authStorage } from "../auth";
+import { assessmentService } from "../assessments";
+import { credentialService } from "../credentials";
+import { projectsService } from "../projects";
+import { plansService } from "../plans";
+import { aiUsageService } from "../ai-usage";
+import { AuthorizationError, NotFoundError, ValidationError } from "../../utils/errorTypes";
+import { UserRole, type District, type Project, type School } from "../../../shared/schema";
+import { districtTemplatePublishSchema } from "../../../shared/districts";
+import { schoolPlanUpdateSchema } from "../../../shared/plans";
+import {
+  DEFAULT_SCHOOL_MASTERY_RULES,
+  schoolMasteryRulesSchema,
+  type SchoolMasteryRules,
+} from "../../../shared/mastery-rules";
+import {
+  DEFAULT_CREDENTIAL_AWARD_RULES,
+  credentialAwardRulesSchema,
+  type CredentialAwardRule,
+} from "../../../shared/credential-award-rules";
+import type {
+  CredentialReportPeriod,
+  DistrictCredentialReportDTO,
+  DistrictDTO,
+  DistrictFrameworkPublishDTO,
+  DistrictProjectOptionDTO,
+  DistrictProjectTemplateDTO,
+  DistrictSchoolAiCostDTO,
+  DistrictSchoolPlanDTO,
+  DistrictSkillMasteryReportDTO,
+  DistrictUsageReportDTO,
+} from "../../../shared/contracts/api";
+import { districtsStorage, type IDistrictsStorage } from "./districts.storage";
+import { aggregateDistrictSkillMastery } from "./district-reports";
+import { snapshotProjectTemplate, templateToProjectRequest, toTemplateDTO } from "./district-templates";
+
+const USAGE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface IDistrictsService {
+  getDistrict(userId: number): Promise<DistrictDTO>;
+  getUsageReport(userId: number, now?: Date): Promise<DistrictUsageReportDTO>;
+  getSkillMasteryReport(userId: number): Promise<DistrictSkillMasteryReportDTO>;
+  getCredentialReport(userId: number, period: CredentialReportPeriod): Promise<DistrictCredentialReportDTO>;
+  searchProjects(userId: number, search: string): Promise<DistrictProjectOptionDTO[]>;
+  getTemplates(userId: number): Promise<DistrictProjectTemplateDTO[]>;
+  publishTemplate(userId: number, body: unknown): Promise<DistrictProjectTemplateDTO>;
+  deleteTemplate(userId: number, templateId: number): Promise<void>;
+  useTemplate(userId: number, templateId: number): Promise<Project>;
+  getMasteryRules(userId: number): Promise<SchoolMasteryRules>;
+  updateMasteryRules(userId: number, body: unknown): Promise<SchoolMasteryRules>;
+  getCredentialAwardRules(userId: number): Promise<CredentialAwardRule[]>;
+  updateCredentialAwardRules(userId: number, body: unknown): Promise<CredentialAwardRule[]>;
+  publishFramework(userId: number, now?: Date): Promise<DistrictFrameworkPublishDTO>;
+  getSchoolPlans(userId: number): Promise<DistrictSchoolPlanDTO[]>;
+  updateSchoolPlan(userId: number, schoolId: number, body: unknown): Promise<DistrictSchoolPlanDTO>;
+  getSchoolAiCosts(userId: number): Promise<DistrictSchoolAiCostDTO[]>;
+}
+
+function resolveMasteryRules(district: District): SchoolMasteryRules {
+  const parsed = schoolMasteryRulesSchema.safeParse(district.masteryRules);
+  return parsed.success ? parsed.data : DEFAULT_SCHOOL_MASTERY_RULES;
+}
+
+function resolveCredentialAwardRules(district: District): CredentialAwardRule[] {
+  const parsed = credentialAwardRulesSchema.safeParse(district.credentialAwardRules);
+  return parsed.success ? parsed.data : DEFAULT_CREDENTIAL_AWARD_RULES;
+}
+
+export class DistrictsService implements IDistrictsService {
+  constructor(private storage: IDistrictsStorage = districtsStorage) {}
+
+  // The district a district admin runs, with its schools
+  private async getAdminDistrict(userId: number): Promise<{ district: District; schools: School[] }> {
+    const user = await this.storage.getUser(userId);
+    if (!user || user.role !== UserRole.DISTRICT_ADMIN) {
+      throw new AuthorizationError("Only district admins can manage the district");
+    }
+    const district = user.districtId ? await this.storage.getDistrict(user.districtId) : undefined;
+    if (!district) {
+      throw new NotFoundError("District");
+    }
+    return { district, schools: await this.storage.getDistrictSchools(district.id) };
+  }
+
+  // District admins use their own district; teachers and school admins use their school's
+  private async getMemberDistrictId(userId: number): Promise<number | null> {
+    const user = await this.storage.getUser(userId);
+    if (!user) {
+      throw new NotFoundError("User", userId);
+    }
+    if (user.role === UserRole.DISTRICT_ADMIN) {
+      return user.districtId;
+    }
+    if (user.role !== UserRole.TEACHER && user.role !== UserRole.ADMIN) {
+      throw new AuthorizationError("District templates are shared with school staff");
+    }
+    const school = user.schoolId ? await this.storage.getSchool(user.schoolId) : undefined;
+    return school?.districtId ?? null;
+  }
+
+  async getDistrict(userId: number): Promise<DistrictDTO> {
+    const { district, schools } = await this.getAdminDistrict(userId);
+    return {
+      id: district.id,
+      name: district.name,
+      state: district.state,
+      frameworkPublishedAt: district.frameworkPublishedAt,
+      schools: schools.map((school) => ({ id: school.id, name: school.name, city: school.city, state: school.state })),
+    };
+  }
+
+  async getUsageReport(userId: number, now: Date = new Date()): Promise<DistrictUsageReportDTO> {
+    const { schools } = await this.getAdminDistrict(userId);
+    const schoolIds = schools.map((school) => school.id);
+    const [overview, usage] = await Promise.all([
+      authStorage.getAnalyticsDashboard(schoolIds),
+      this.storage.getSchoolUsage(schoolIds, new Date(now.getTime() - USAGE_WINDOW_MS)),
+    ]);
+    return {
+      overview,
+      schools: usage.map((counts) => ({
+        ...counts,
+        schoolName: schools.find((school) => school.id === counts.schoolId)?.name ?? `School ${counts.schoolId}`,
+      })),
+    };
+  }
+
+  async getSkillMasteryReport(userId: number): Promise<DistrictSkillMasteryReportDTO> {
+    const { schools } = await this.getAdminDistrict(userId);
+    const perSchool = await Promise.all(
+      schools.map(async (school) => ({
+        schoolId: school.id,
+        schoolName: school.name,
+        skills: await assessmentService.getSchoolComponentSkillsProgressBySchool(school.id),
+      })),
+    );
+    return aggregateDistrictSkillMastery(perSchool);
+  }
+
+  async getCredentialReport(userId: number, period: CredentialReportPeriod): Promise<DistrictCredentialReportDTO> {
+    const { schools } = await this.getAdminDistrict(userId);
+    const studentIdsBySchool = await this.storage.getStudentIdsBySchool(schools.map((school) => school.id));
+    const allStudentIds = Array.from(studentIdsBySchool.values()).flat();
+
+    const [{ pending: _pending, recent: _recent, ...overview }, schoolReports] = await Promise.all([
+      credentialService.getCredentialReport(allStudentIds, period),
+      Promise.all(
+        schools.map(async (school) => ({
+          school,
+          report: await credentialService.getCredentialReport(studentIdsBySchool.get(school.id) ?? [], period),
+        })),
+      ),
+    ]);
+
+    return {
+      ...overview,
+      schools: schoolReports.map(({ school, report }) => ({
+        schoolId: school.id,
+        schoolName: school.name,
+        ...report.totals,
+      })),
+    };
+  }
+
+  async searchProjects(userId: number, search: string): Promise<DistrictProjectOptionDTO[]> {
+    const { schools } = await this.getAdminDistrict(userId);
+    return this.storage.searchProjects(schools.map((school) => school.id), search.trim());
+  }
+
+  async getTemplates(userId: number): Promise<DistrictProjectTemplateDTO[]> {
+    const districtId = await this.getMemberDistrictId(userId);
+    if (!districtId) {
+      return [];
+    }
+    const templates = await this.storage.getTemplates(districtId);
+    return templates.map(toTemplateDTO);
+  }
+
+  async publishTemplate(userId: number, body: unknown): Promise<DistrictProjectTemplateDTO> {
+    const parsed = districtTemplatePublishSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.issues[0]?.message ?? "Invalid request");
+    }
+    const { district, schools } = await this.getAdminDistrict(userId);
+    const project = await projectsService.getProject(parsed.data.projectId);
+    if (!project || !schools.some((school) => school.id === project.schoolId)) {
+      throw new NotFoundError("Project", parsed.data.projectId);
+    }
+    const milestones = await projectsService.getMilestonesByProject(project.id);
+    const template = await this.storage.createTemplate(snapshotProjectTemplate(project, milestones, district.id, userId));
+    return toTemplateDTO(template);
+  }
+
+  async deleteTemplate(userId: number, templateId: number): Promise<void> {
+    const { district } = await this.getAdminDistrict(userId);
+    if (!(await this.storage.deleteTemplate(district.id, templateId))) {
+      throw new NotFoundError("Template", templateId);
+    }
+  }
+
+  async useTemplate(userId: number, templateId: number): Promise<Project> {
+    const user = await this.storage.getUser(userId);
+    if (!user || user.role !== UserRole.TEACHER) {
+      throw new AuthorizationError("Only teachers can start a project from a template");
+    }
+    const districtId = await this.getMemberDistrictId(userId);
+    const template = districtId ? await this.storage.getTemplate(districtId, templateId) : undefined;
+    if (!template) {
+      throw new NotFoundError("Template", templateId);
+    }
+
+    const project = await projectsService.createProject(templateToProjectRequest(template), user.id, user.schoolId);
+    for (const milestone of template.milestones ?? []) {
+      await projectsService.createMilestone(
+        { projectId: project.id, title: milestone.title, description: milestone.description, order: milestone.order },
+        user.id,
+        user.role,
+      );
+    }
+    return project;
+  }
+
+  async getMasteryRules(userId: number): Promise<SchoolMasteryRules> {
+    const { district } = await this.getAdminDistrict(userId);
+    return resolveMasteryRules(district);
+  }
+
+  async updateMasteryRules(userId: number, body: unknown): Promise<SchoolMasteryRules> {
+    const parsed = schoolMasteryRulesSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid mastery rules");
+    }
+    const { district } = await this.getAdminDistrict(userId);
+    const updated = await this.storage.updateFramework(district.id, { masteryRules: parsed.data });
+    if (!updated) {
+      throw new NotFoundError("District", district.id);
+    }
+    return resolveMasteryRules(updated);
+  }
+
+  async getCredentialAwardRules(userId: number): Promise<CredentialAwardRule[]> {
+    const { district } = await this.getAdminDistrict(userId);
+    return resolveCredentialAwardRules(district);
+  }
+
+  async updateCredentialAwardRules(userId: number, body: unknown): Promise<CredentialAwardRule[]> {
+    const parsed = credentialAwardRulesSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid award rules");
+    }
+    const { district } = await this.getAdminDistrict(userId);
+    const updated = await this.storage.updateFramework(district.id, { credentialAwardRules: parsed.data });
+    if (!updated) {
+      throw new NotFoundError("District", district.id);
+    }
+    return resolveCredentialAwardRules(updated);
+  }
+
+  async publishFramework(userId: number, now: Date = new Date()): Promise<DistrictFrameworkPublishDTO> {
+    const { district } = await this.getAdminDistrict(userId);
+    const schoolsUpdated = await this.storage.publishFramework(
+      district.id,
+      { masteryRules: resolveMasteryRules(district), credentialAwardRules: resolveCredentialAwardRules(district) },
+      now,
+    );
+    return { publishedAt: now, schoolsUpdated };
+  }
+
+  async getSchoolPlans(userId: number): Promise<DistrictSchoolPlanDTO[]> {
+    const { schools } = await this.getAdminDistrict(userId);
+    return Promise.all(
+      schools.map(async (school) => ({
+        schoolId: school.id,
+        schoolName: school.name,
+        ...(await plansService.getSchoolUsage(school.id)),
+      })),
+    );
+  }
+
+  async updateSchoolPlan(userId: number, schoolId: number, body: unknown): Promise<DistrictSchoolPlanDTO> {
+    const parsed = schoolPlanUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid plan");
+    }
+    const { schools } = await this.getAdminDistrict(userId);
+    const school = schools.find((candidate) => candidate.id === schoolId);
+    if (!school) {
+      throw new NotFoundError("School", schoolId);
+    }
+    const usage = await plansService.setSchoolPlan(school.id, parsed.data.planId);
+    return { schoolId: school.id, schoolName: school.name, ...usage };
+  }
+
+  async getSchoolAiCosts(userId: number): Promise<DistrictSchoolAiCostDTO[]> {
+    const { schools } = await this.getAdminDistrict(userId);
+    return aiUsageService.getSchoolCosts(schools);
+  }
+}
+
+export const districtsService = new DistrictsService();
@@ -0,0 +1,215 @@
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  districtProjectTemplates,
+  districts,
+  projects,
+  schools,
+  submissions,
+  users,
+  UserRole,
+  type District,
+  type DistrictProjectTemplate,
+  type School,
+  type User,
+} from "../../../shared/schema";
+import type { SchoolMasteryRules } from "../../../shared/mastery-rules";
+import type { CredentialAwardRule } from "../../../shared/credential-award-rules";
+import type { DistrictProjectOptionDTO, DistrictSchoolUsageDTO } from "../../../shared/contracts/api";
+import type { NewDistrictProjectTemplate } from "./district-templates";
+
+const PROJECT_OPTION_LIMIT = 50;
+
+export type SchoolUsageCounts = Omit<DistrictSchoolUsageDTO, "schoolName">;
+
+export interface DistrictFrameworkUpdate {
+  masteryRules?: SchoolMasteryRules;
+  credentialAwardRules?: CredentialAwardRule[];
+}
+
+export interface IDistrictsStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getSchool(id: number): Promise<School | undefined>;
+  getDistrict(id: number): Promise<District | undefined>;
+  getDistrictSchools(districtId: number): Promise<School[]>;
+  getSchoolUsage(schoolIds: number[], since: Date): Promise<SchoolUsageCounts[]>;
+  getStudentIdsBySchool(schoolIds: number[]): Promise<Map<number, number[]>>;
+  searchProjects(schoolIds: number[], search: string): Promise<DistrictProjectOptionDTO[]>;
+  getTemplates(districtId: number): Promise<DistrictProjectTemplate[]>;
+  getTemplate(districtId: number, templateId: number): Promise<DistrictProjectTemplate | undefined>;
+  createTemplate(template: NewDistrictProjectTemplate): Promise<DistrictProjectTemplate>;
+  deleteTemplate(districtId: number, templateId: number): Promise<boolean>;
+  updateFramework(districtId: number, update: DistrictFrameworkUpdate): Promise<District | undefined>;
+  publishFramework(districtId: number, framework: Required<DistrictFrameworkUpdate>, publishedAt: Date): Promise<number>;
+}
+
+export class DistrictsStorage implements IDistrictsStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getSchool(id: number): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, id));
+    return school;
+  }
+
+  async getDistrict(id: number): Promise<District | undefined> {
+    const [district] = await db.select().from(districts).where(eq(districts.id, id));
+    return district;
+  }
+
+  async getDistrictSchools(districtId: number): Promise<School[]> {
+    return await db.select().from(schools).where(eq(schools.districtId, districtId)).orderBy(asc(schools.name));
+  }
+
+  async getSchoolUsage(schoolIds: number[], since: Date): Promise<SchoolUsageCounts[]> {
+    if (schoolIds.length === 0) {
+      return [];
+    }
+
+    const [userRows, projectRows, submissionRows] = await Promise.all([
+      db
+        .select({
+          schoolId: users.schoolId,
+          students: sql<number>`count(*) filter (where ${users.role} = ${UserRole.STUDENT})`.mapWith(Number),
+          teachers: sql<number>`count(*) filter (where ${users.role} = ${UserRole.TEACHER})`.mapWith(Number),
+          activeUsers: sql<number>`count(*) filter (where ${users.updatedAt} > ${since})`.mapWith(Number),
+        })
+        .from(users)
+        .where(and(inArray(users.schoolId, schoolIds), isNull(users.deactivatedAt)))
+        .groupBy(users.schoolId),
+      db
+        .select({
+          schoolId: projects.schoolId,
+          projects: count(),
+          activeProjects: sql<number>`count(*) filter (where ${projects.status} = 'active')`.mapWith(Number),
+        })
+        .from(projects)
+        .where(inArray(projects.schoolId, schoolIds))
+        .groupBy(projects.schoolId),
+      db
+        .select({ schoolId: users.schoolId, submissions: count() })
+        .from(submissions)
+        .innerJoin(users, eq(submissions.studentId, users.id))
+        .where(and(inArray(users.schoolId, schoolIds), eq(submissions.isDraft, false), gte(submissions.submittedAt, since)))
+        .groupBy(users.schoolId),
+    ]);
+
+    return schoolIds.map((schoolId) => {
+      const userCounts = userRows.find((row) => row.schoolId === schoolId);
+      const projectCounts = projectRows.find((row) => row.schoolId === schoolId);
+      return {
+        schoolId,
+        students: userCounts?.students ?? 0,
+        teachers: userCounts?.teachers ?? 0,
+        activeUsers: userCounts?.activeUsers ?? 0,
+        projects: projectCounts?.projects ?? 0,
+        activeProjects: projectCounts?.activeProjects ?? 0,
+        submissionsLast30Days: submissionRows.find((row) => row.schoolId === schoolId)?.submissions ?? 0,
+      };
+    });
+  }
+
+  async getStudentIdsBySchool(schoolIds: number[]): Promise<Map<number, number[]>> {
+    const bySchool = new Map<number, number[]>(schoolIds.map((schoolId) => [schoolId, []]));
+    if (schoolIds.length === 0) {
+      return bySchool;
+    }
+    const rows = await db
+      .select({ id: users.id, schoolId: users.schoolId })
+      .from(users)
+      .where(and(inArray(users.schoolId, schoolIds), eq(users.role, UserRole.STUDENT), isNull(users.deactivatedAt)));
+    rows.forEach((row) => {
+      if (row.schoolId !== null) {
+        bySchool.get(row.schoolId)?.push(row.id);
+      }
+    });
+    return bySchool;
+  }
+
+  async searchProjects(schoolIds: number[], search: string): Promise<DistrictProjectOptionDTO[]> {
+    if (schoolIds.length === 0) {
+      return [];
+    }
+    const conditions = [inArray(projects.schoolId, schoolIds)];
+    if (search) {
+      conditions.push(ilike(projects.title, `%${search}%`));
+    }
+    const rows = await db
+      .select({
+        id: projects.id,
+        title: projects.title,
+        status: projects.status,
+        schoolId: schools.id,
+        schoolName: schools.name,
+        teacherFirstName: users.firstName,
+        teacherLastName: users.lastName,
+        teacherUsername: users.username,
+      })
+      .from(projects)
+      .innerJoin(schools, eq(projects.schoolId, schools.id))
+      .leftJoin(users, eq(projects.teacherId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(projects.updatedAt))
+      .limit(PROJECT_OPTION_LIMIT);
+
+    return rows.map(({ teacherFirstName, teacherLastName, teacherUsername, ...row }) => ({
+      ...row,
+      teacherName: [teacherFirstName, teacherLastName].filter(Boolean).join(" ") || teacherUsername,
+    }));
+  }
+
+  async getTemplates(districtId: number): Promise<DistrictProjectTemplate[]> {
+    return await db
+      .select()
+      .from(districtProjectTemplates)
+      .where(eq(districtProjectTemplates.districtId, districtId))
+      .orderBy(desc(districtProjectTemplates.createdAt));
+  }
+
+  async getTemplate(districtId: number, templateId: number): Promise<DistrictProjectTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(districtProjectTemplates)
+      .where(and(eq(districtProjectTemplates.id, templateId), eq(districtProjectTemplates.districtId, districtId)));
+    return template;
+  }
+
+  async createTemplate(template: NewDistrictProjectTemplate): Promise<DistrictProjectTemplate> {
+    const [created] = await db.insert(districtProjectTemplates).values(template).returning();
+    return created;
+  }
+
+  async deleteTemplate(districtId: number, templateId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(districtProjectTemplates)
+      .where(and(eq(districtProjectTemplates.id, templateId), eq(districtProjectTemplates.districtId, districtId)))
+      .returning({ id: districtProjectTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async updateFramework(districtId: number, update: DistrictFrameworkUpdate): Promise<District | undefined> {
+    const [district] = await db.update(districts).set(update).where(eq(districts.id, districtId)).returning();
+    return district;
+  }
+
+  // Overwrites every school's rules in one transaction so schools never end up on a mix of frameworks
+  async publishFramework(
+    districtId: number,
+    framework: Required<DistrictFrameworkUpdate>,
+    publishedAt: Date,
+  ): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(schools)
+        .set(framework)
+        .where(eq(schools.districtId, districtId))
+        .returning({ id: schools.id });
+      await tx.update(districts).set({ frameworkPublishedAt: publishedAt }).where(eq(districts.id, districtId));
+      return updated.length;
+    });
+  }
+}
+
+export const districtsStorage = new DistrictsStorage();
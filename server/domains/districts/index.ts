@@ -0,0 +1,8 @@
+// Export controller and router
+export { districtsRouter, DistrictsController } from './districts.controller';
+
+// Export service
+export { districtsService, type IDistrictsService } from './districts.service';
+
+// Export storage
+export { districtsStorage, type IDistrictsStorage } from './districts.storage';
@@ -0,0 +1,35 @@
+import { randomInt } from "crypto";
+import { UserRole, type GuardianInvite, type User } from "../../../shared/schema";
+import {
+  GUARDIAN_INVITE_ALPHABET,
+  GUARDIAN_INVITE_CODE_LENGTH,
+  GUARDIAN_INVITE_TTL_DAYS,
+} from "../../../shared/guardians";
+
+export type GuardianStaff = Pick<User, "id" | "role" | "schoolId">;
+
+// Teachers and admins invite guardians for active students in their own school
+export function canManageStudentGuardians(
+  student: Pick<User, "role" | "schoolId" | "deactivatedAt">,
+  user: GuardianStaff,
+): boolean {
+  if (student.role !== UserRole.STUDENT || student.deactivatedAt || !student.schoolId) {
+    return false;
+  }
+  return (user.role === UserRole.TEACHER || user.role === UserRole.ADMIN) && user.schoolId === student.schoolId;
+}
+
+export function isInviteRedeemable(invite: Pick<GuardianInvite, "expiresAt" | "redeemedAt">, now: Date = new Date()): boolean {
+  return !invite.redeemedAt && invite.expiresAt.getTime() > now.getTime();
+}
+
+export function inviteExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + GUARDIAN_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function generateGuardianInviteCode(pick: (max: number) => number = randomInt): string {
+  return Array.from(
+    { length: GUARDIAN_INVITE_CODE_LENGTH },
+    () => GUARDIAN_INVITE_ALPHABET[pick(GUARDIAN_INVITE_ALPHABET.length)],
+  ).join("");
+}
@@ -0,0 +1,38 @@
+import { guardiansService, type IGuardiansService } from './guardians.service';
+import { getWeeklySummarySchedule, isWeeklySummaryDue, type WeeklySummarySchedule } from './guardian-summary';
+
+const SUMMARY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Sends weekly progress summaries to guardians from this process. Each link
+ * records when it was last summarized, so a restart on summary day doesn't
+ * email a family twice.
+ */
+export function startGuardianSummarySchedule(
+  service: IGuardiansService = guardiansService,
+  schedule: WeeklySummarySchedule = getWeeklySummarySchedule(),
+): () => void {
+  let lastRunAt: Date | null = null;
+  let running = false;
+
+  const check = async () => {
+    const now = new Date();
+    if (running || !isWeeklySummaryDue(now, schedule, lastRunAt)) {
+      return;
+    }
+    running = true;
+    try {
+      await service.sendWeeklySummaries(now);
+      lastRunAt = now;
+    } catch (error) {
+      console.error("Error sending guardian weekly summaries:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, SUMMARY_CHECK_INTERVAL_MS);
+  timer.unref();
+  void check();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,108 @@
+import type { User } from "../../../shared/schema";
+import type { MailMessage } from "../../integrations/mail";
+
+const DEFAULT_SUMMARY_WEEKDAY_UTC = 5; // Friday
+const DEFAULT_SUMMARY_HOUR_UTC = 16;
+
+// A link already summarized within this window is skipped, so a restart on summary day doesn't email twice
+export const SUMMARY_RESEND_AFTER_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface WeeklySummarySchedule {
+  weekdayUtc: number;
+  hourUtc: number;
+}
+
+export interface GuardianWeeklyActivity {
+  studentId: number;
+  studentName: string;
+  credentials: Array<{ title: string; type: string }>;
+  submittedCount: number;
+  gradedCount: number;
+  upcomingDeadlines: Array<{ title: string; projectTitle: string | null; dueDate: Date }>;
+}
+
+export type SummaryRecipient = Pick<User, "id" | "firstName"> & { email: string };
+
+function parseBoundedInt(value: string | undefined, min: number, max: number, fallback: number): number {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+}
+
+export function getWeeklySummarySchedule(env: NodeJS.ProcessEnv = process.env): WeeklySummarySchedule {
+  return {
+    weekdayUtc: parseBoundedInt(env.GUARDIAN_SUMMARY_WEEKDAY_UTC, 0, 6, DEFAULT_SUMMARY_WEEKDAY_UTC),
+    hourUtc: parseBoundedInt(env.GUARDIAN_SUMMARY_HOUR_UTC, 0, 23, DEFAULT_SUMMARY_HOUR_UTC),
+  };
+}
+
+/** True once on the configured UTC weekday, on the first check at or after the configured hour. */
+export function isWeeklySummaryDue(now: Date, schedule: WeeklySummarySchedule, lastRunAt: Date | null): boolean {
+  if (now.getUTCDay() !== schedule.weekdayUtc || now.getUTCHours() < schedule.hourUtc) {
+    return false;
+  }
+  return !lastRunAt || lastRunAt.toISOString().slice(0, 10) !== now.toISOString().slice(0, 10);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function activityLines(activity: GuardianWeeklyActivity): string[] {
+  const lines = [
+    `Submitted ${plural(activity.submittedCount, "assessment")}; ${plural(activity.gradedCount, "assessment")} graded`,
+  ];
+  if (activity.credentials.length > 0) {
+    lines.push(`Earned: ${activity.credentials.map((credential) => `${credential.title} (${credential.type})`).join(", ")}`);
+  }
+  activity.upcomingDeadlines.forEach((deadline) => {
+    const project = deadline.projectTitle ? ` for ${deadline.projectTitle}` : "";
+    lines.push(`Due ${deadline.dueDate.toISOString().slice(0, 10)}: ${deadline.title}${project}`);
+  });
+  return lines;
+}
+
+export function renderGuardianSummaryEmail(
+  recipient: SummaryRecipient,
+  activities: GuardianWeeklyActivity[],
+  baseUrl: string,
+): MailMessage {
+  const greeting = recipient.firstName ? `Hi ${recipient.firstName},` : "Hi,";
+  const link = `${baseUrl}/guardian/dashboard`;
+  const subject =
+    activities.length === 1
+      ? `This week in MasteryMap: ${activities[0].studentName}`
+      : "This week in MasteryMap: your students' progress";
+  return {
+    to: recipient.email,
+    subject,
+    text: [
+      greeting,
+      "",
+      "Here's a summary of the past week:",
+      "",
+      ...activities.flatMap((activity) => [activity.studentName, ...activityLines(activity).map((line) => `- ${line}`), ""]),
+      `See the full progress view: ${link}`,
+      "",
+    ].join("\n"),
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      "<p>Here's a summary of the past week:</p>",
+      ...activities.map(
+        (activity) =>
+          `<p><strong>${escapeHtml(activity.studentName)}</strong></p>\n<ul>\n${activityLines(activity)
+            .map((line) => `<li>${escapeHtml(line)}</li>`)
+            .join("\n")}\n</ul>`,
+      ),
+      `<p><a href="${escapeHtml(link)}">See the full progress view</a></p>`,
+    ].join("\n"),
+  };
+}
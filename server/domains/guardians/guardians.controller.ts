@@ -0,0 +1,111 @@
+import { Router, type Request } from "express";
+import { guardiansService, type IGuardiansService } from "./guardians.service";
+import { authService, requireAuth, requireRole, type AuthenticatedRequest } from "../auth";
+import { checkGuardianStudentAccess } from "../../middleware/resourceAccess";
+import { authLimiter } from "../../middleware/security";
+import { createSuccessResponse, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+import type { AuthRegisterResponseDTO } from "../../../shared/contracts/api";
+
+function getClientInfo(req: Request) {
+  return { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+}
+
+export class GuardiansController {
+  constructor(private service: IGuardiansService = guardiansService) {}
+
+  // Create Express router with the guardian routes
+  createRouter(): Router {
+    const router = Router();
+    const guardianOnly = [requireAuth, requireRole(UserRole.GUARDIAN)];
+    const staffOnly = [requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN)];
+    const linkedStudent = [...guardianOnly, checkGuardianStudentAccess("studentId")];
+
+    // Create a guardian account from an invite code and sign it in
+    router.post("/register", authLimiter, async (req, res) => {
+      try {
+        const { user, accessToken, refreshToken } = await this.service.register(req.body, getClientInfo(req));
+        authService.setAuthCookies(res, accessToken, refreshToken);
+        const { password: _password, ...userWithoutPassword } = user;
+        const created: AuthRegisterResponseDTO = userWithoutPassword;
+        createSuccessResponse(res, created, undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to create guardian account");
+      }
+    });
+
+    // Link another student to the signed-in guardian
+    router.post("/redeem", authLimiter, ...guardianOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.redeemInvite(req.user!.id, req.body));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to redeem invite code");
+      }
+    });
+
+    router.get("/students", ...guardianOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getStudentsProgress(req.user!.id));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch student progress");
+      }
+    });
+
+    router.get("/students/:studentId/competency-progress", ...linkedStudent, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getStudentCompetencyProgress(parseInt(req.params.studentId)));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch competency progress");
+      }
+    });
+
+    router.get("/students/:studentId/portfolio", ...linkedStudent, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getStudentPortfolio(parseInt(req.params.studentId)));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch portfolio");
+      }
+    });
+
+    // Turn the weekly progress email on or off for one student
+    router.patch("/students/:studentId", ...linkedStudent, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.updateLink(req.user!.id, parseInt(req.params.studentId), req.body);
+        createSuccessResponse(res, { message: "Summary preference saved" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to save summary preference");
+      }
+    });
+
+    // Staff: single-use codes a family redeems to link to a student
+    router.post("/invites", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.createInvite(req.user!.id, req.body), undefined, 201);
+      } catch (error) {
+        sendDomainError(res, error, "Failed to create invite code");
+      }
+    });
+
+    router.get("/roster/:studentId", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getStudentGuardians(req.user!.id, parseInt(req.params.studentId)));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch guardians");
+      }
+    });
+
+    router.delete("/roster/:studentId/links/:linkId", ...staffOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        await this.service.removeLink(req.user!.id, parseInt(req.params.studentId), parseInt(req.params.linkId));
+        createSuccessResponse(res, { message: "Guardian unlinked" });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to unlink guardian");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const guardiansController = new GuardiansController();
+export const guardiansRouter = guardiansController.createRouter();
@@ -0,0 +1,257 @@
+import type { ZodError } from "zod";
+import { assessmentService } from "../assessments";
+import { authService, authStorage, type SessionClientInfo } from "../auth";
+import { credentialService } from "../credentials";
+import { portfolioService } from "../portfolio";
+import { projectsService } from "../projects";
+import { APP_BASE_URL, mailTransport, type MailTransport } from "../../integrations/mail";
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from "../../utils/errorTypes";
+import { UserRole, type Credential, type User } from "../../../shared/schema";
+import {
+  guardianInviteCreateSchema,
+  guardianLinkUpdateSchema,
+  guardianRedeemSchema,
+  guardianRegisterSchema,
+} from "../../../shared/guardians";
+import type {
+  GuardianInviteDTO,
+  GuardianStudentPortfolioDTO,
+  GuardianStudentProgressDTO,
+  StudentGuardiansDTO,
+} from "../../../shared/contracts/api";
+import { guardiansStorage, type IGuardiansStorage } from "./guardians.storage";
+import { canManageStudentGuardians, generateGuardianInviteCode, inviteExpiry } from "./guardian-access";
+import { SUMMARY_RESEND_AFTER_MS, renderGuardianSummaryEmail, type GuardianWeeklyActivity } from "./guardian-summary";
+
+export interface GuardianRegistration {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface IGuardiansService {
+  register(body: unknown, client?: SessionClientInfo): Promise<GuardianRegistration>;
+  redeemInvite(guardianId: number, body: unknown): Promise<GuardianStudentProgressDTO[]>;
+  getStudentsProgress(guardianId: number): Promise<GuardianStudentProgressDTO[]>;
+  getStudentCompetencyProgress(studentId: number): Promise<unknown>;
+  getStudentPortfolio(studentId: number): Promise<GuardianStudentPortfolioDTO>;
+  updateLink(guardianId: number, studentId: number, body: unknown): Promise<void>;
+  createInvite(userId: number, body: unknown): Promise<GuardianInviteDTO>;
+  getStudentGuardians(userId: number, studentId: number): Promise<StudentGuardiansDTO>;
+  removeLink(userId: number, studentId: number, linkId: number): Promise<void>;
+  sendWeeklySummaries(now?: Date): Promise<number>;
+}
+
+function validationMessage(error: ZodError): string {
+  return error.issues[0]?.message ?? "Invalid request";
+}
+
+function toCredentialSummary(credential: Credential): GuardianStudentProgressDTO["credentials"][number] {
+  return {
+    id: credential.id,
+    title: credential.title,
+    description: credential.description,
+    type: credential.type,
+    awardedAt: credential.awardedAt,
+  };
+}
+
+export class GuardiansService implements IGuardiansService {
+  constructor(
+    private storage: IGuardiansStorage = guardiansStorage,
+    private mail: MailTransport = mailTransport,
+    private baseUrl: string = APP_BASE_URL,
+  ) {}
+
+  private async getManagedStudent(userId: number, studentId: number): Promise<User> {
+    const [user, student] = await Promise.all([this.storage.getUser(userId), this.storage.getUser(studentId)]);
+    if (!user) {
+      throw new NotFoundError("User", userId);
+    }
+    if (!student || student.role !== UserRole.STUDENT || student.schoolId !== user.schoolId) {
+      throw new NotFoundError("Student", studentId);
+    }
+    if (!canManageStudentGuardians(student, user)) {
+      throw new AuthorizationError("You can only invite guardians for active students in your school");
+    }
+    return student;
+  }
+
+  /** Creates a guardian account from an invite code; the code is held while the account is created. */
+  async register(body: unknown, client?: SessionClientInfo): Promise<GuardianRegistration> {
+    const parsed = guardianRegisterSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error));
+    }
+    const { code, ...account } = parsed.data;
+    if (await authStorage.getUserByUsername(account.username)) {
+      throw new ConflictError("Username already exists");
+    }
+    const invite = await this.storage.claimInvite(code, new Date());
+    if (!invite) {
+      throw new ValidationError("This invite code is invalid, expired or already used", "code");
+    }
+
+    let registration: GuardianRegistration;
+    try {
+      registration = await authService.registerUser(
+        { ...account, role: UserRole.GUARDIAN, tier: "free", schoolId: null, schoolName: null },
+        client,
+      );
+    } catch (error) {
+      await this.storage.releaseInvite(invite.id);
+      throw error;
+    }
+    await this.storage.linkGuardian(invite, registration.user.id);
+    return registration;
+  }
+
+  async redeemInvite(guardianId: number, body: unknown): Promise<GuardianStudentProgressDTO[]> {
+    const parsed = guardianRedeemSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error), "code");
+    }
+    const invite = await this.storage.claimInvite(parsed.data.code, new Date());
+    if (!invite) {
+      throw new ValidationError("This invite code is invalid, expired or already used", "code");
+    }
+    await this.storage.linkGuardian(invite, guardianId);
+    return await this.getStudentsProgress(guardianId);
+  }
+
+  // Fields are picked one by one so account details and staff-only data never reach a guardian
+  async getStudentsProgress(guardianId: number): Promise<GuardianStudentProgressDTO[]> {
+    const [studentIds, links] = await Promise.all([
+      this.storage.getLinkedStudentIds(guardianId),
+      this.storage.getLinks(guardianId),
+    ]);
+    const records = await projectsService.getStudentsProgress(studentIds);
+    return await Promise.all(
+      records.map(async (record) => {
+        // Revoked credentials are hidden from families just as they are from students
+        const visibleCredentials = (await credentialService.getStudentCredentials(record.id)).map(toCredentialSummary);
+        return {
+          id: record.id,
+          username: record.username,
+          firstName: record.firstName,
+          lastName: record.lastName,
+          grade: record.grade,
+          schoolName: record.schoolName,
+          weeklySummary: links.find((link) => link.studentId === record.id)?.weeklySummary ?? false,
+          projects: record.projects,
+          credentials: visibleCredentials,
+          competencyProgress: record.competencyProgress,
+          totalCredentials: visibleCredentials.length,
+          stickers: visibleCredentials.filter((credential) => credential.type === "sticker").length,
+          badges: visibleCredentials.filter((credential) => credential.type === "badge").length,
+          plaques: visibleCredentials.filter((credential) => credential.type === "plaque").length,
+        };
+      }),
+    );
+  }
+
+  async getStudentCompetencyProgress(studentId: number): Promise<unknown> {
+    return await assessmentService.getStudentCompetencyProgress(studentId);
+  }
+
+  async getStudentPortfolio(studentId: number): Promise<GuardianStudentPortfolioDTO> {
+    const [artifacts, studentCredentials] = await Promise.all([
+      portfolioService.getStudentArtifacts(studentId),
+      credentialService.getStudentCredentials(studentId),
+    ]);
+    return {
+      studentId,
+      artifacts: artifacts.map((artifact) => ({
+        id: artifact.id,
+        title: artifact.title,
+        description: artifact.description,
+        artifactUrl: artifact.artifactUrl,
+        artifactType: artifact.artifactType,
+        projectTitle: artifact.projectTitle,
+        milestoneTitle: artifact.milestoneTitle,
+        createdAt: artifact.createdAt,
+      })),
+      credentials: studentCredentials.map(toCredentialSummary),
+    };
+  }
+
+  async updateLink(guardianId: number, studentId: number, body: unknown): Promise<void> {
+    const parsed = guardianLinkUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error), "weeklySummary");
+    }
+    const updated = await this.storage.updateLink(guardianId, studentId, parsed.data);
+    if (!updated) {
+      throw new NotFoundError("Student", studentId);
+    }
+  }
+
+  async createInvite(userId: number, body: unknown): Promise<GuardianInviteDTO> {
+    const parsed = guardianInviteCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(validationMessage(parsed.error), "studentId");
+    }
+    const student = await this.getManagedStudent(userId, parsed.data.studentId);
+    const invite = await this.storage.createInvite({
+      code: generateGuardianInviteCode(),
+      studentId: student.id,
+      createdBy: userId,
+      expiresAt: inviteExpiry(),
+    });
+    return {
+      id: invite.id,
+      code: invite.code,
+      studentId: invite.studentId,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  async getStudentGuardians(userId: number, studentId: number): Promise<StudentGuardiansDTO> {
+    await this.getManagedStudent(userId, studentId);
+    const [guardians, openInvites] = await Promise.all([
+      this.storage.getStudentGuardians(studentId),
+      this.storage.getOpenInvites(studentId, new Date()),
+    ]);
+    return { guardians, openInvites };
+  }
+
+  async removeLink(userId: number, studentId: number, linkId: number): Promise<void> {
+    await this.getManagedStudent(userId, studentId);
+    const deleted = await this.storage.deleteLink(studentId, linkId);
+    if (!deleted) {
+      throw new NotFoundError("Guardian link", linkId);
+    }
+  }
+
+  /** Emails each opted-in guardian one summary covering all of their linked students. Returns the number sent. */
+  async sendWeeklySummaries(now: Date = new Date()): Promise<number> {
+    const links = await this.storage.getSummaryLinks(new Date(now.getTime() - SUMMARY_RESEND_AFTER_MS));
+    const byGuardian = new Map<number, typeof links>();
+    links.forEach((link) => {
+      byGuardian.set(link.guardianId, [...(byGuardian.get(link.guardianId) ?? []), link]);
+    });
+
+    let sent = 0;
+    for (const guardianLinks of Array.from(byGuardian.values())) {
+      const [first] = guardianLinks;
+      try {
+        const activities: GuardianWeeklyActivity[] = [];
+        for (const link of guardianLinks) {
+          activities.push(await this.storage.getWeeklyActivity(link.studentId, now));
+        }
+        await this.mail.send(
+          renderGuardianSummaryEmail({ id: first.guardianId, firstName: first.firstName, email: first.email }, activities, this.baseUrl),
+        );
+        await this.storage.markSummariesSent(guardianLinks.map((link) => link.linkId), now);
+        sent += 1;
+      } catch (error) {
+        // Left unmarked so the next run retries this guardian
+        console.error(`Error sending weekly summary to guardian ${first.guardianId}:`, error);
+      }
+    }
+    return sent;
+  }
+}
+
+export const guardiansService = new GuardiansService();
@@ -0,0 +1,283 @@
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, or } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  credentials,
+  guardianInvites,
+  guardianLinks,
+  milestones,
+  projectAssignments,
+  projectTeamMembers,
+  projectTeams,
+  projects,
+  submissions,
+  users,
+  UserRole,
+  type GuardianInvite,
+  type GuardianLink,
+  type User,
+} from "../../../shared/schema";
+import type { GuardianInviteDTO, StudentGuardianDTO } from "../../../shared/contracts/api";
+import type { GuardianWeeklyActivity } from "./guardian-summary";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface NewGuardianInvite {
+  code: string;
+  studentId: number;
+  createdBy: number;
+  expiresAt: Date;
+}
+
+export interface SummaryLinkRecord {
+  linkId: number;
+  guardianId: number;
+  studentId: number;
+  email: string;
+  firstName: string | null;
+}
+
+function displayName(user: Pick<User, "firstName" | "lastName" | "username">): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+}
+
+export interface IGuardiansStorage {
+  getUser(id: number): Promise<User | undefined>;
+  getLinks(guardianId: number): Promise<GuardianLink[]>;
+  getLinkedStudentIds(guardianId: number): Promise<number[]>;
+  hasLink(guardianId: number, studentId: number): Promise<boolean>;
+  updateLink(guardianId: number, studentId: number, updates: { weeklySummary: boolean }): Promise<GuardianLink | undefined>;
+  createInvite(invite: NewGuardianInvite): Promise<GuardianInvite>;
+  claimInvite(code: string, now: Date): Promise<GuardianInvite | undefined>;
+  releaseInvite(inviteId: number): Promise<void>;
+  linkGuardian(invite: GuardianInvite, guardianId: number): Promise<void>;
+  getStudentGuardians(studentId: number): Promise<StudentGuardianDTO[]>;
+  getOpenInvites(studentId: number, now: Date): Promise<GuardianInviteDTO[]>;
+  deleteLink(studentId: number, linkId: number): Promise<boolean>;
+  getSummaryLinks(sentBefore: Date): Promise<SummaryLinkRecord[]>;
+  getWeeklyActivity(studentId: number, now: Date): Promise<GuardianWeeklyActivity>;
+  markSummariesSent(linkIds: number[], sentAt: Date): Promise<void>;
+}
+
+export class GuardiansStorage implements IGuardiansStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return user;
+  }
+
+  async getLinks(guardianId: number): Promise<GuardianLink[]> {
+    return await db.select().from(guardianLinks).where(eq(guardianLinks.guardianId, guardianId));
+  }
+
+  // Deactivated students drop out of the guardian's view but keep the link in case they return
+  async getLinkedStudentIds(guardianId: number): Promise<number[]> {
+    const rows = await db
+      .select({ studentId: guardianLinks.studentId })
+      .from(guardianLinks)
+      .innerJoin(users, eq(guardianLinks.studentId, users.id))
+      .where(and(eq(guardianLinks.guardianId, guardianId), eq(users.role, UserRole.STUDENT), isNull(users.deactivatedAt)));
+    return rows.map((row) => row.studentId);
+  }
+
+  async hasLink(guardianId: number, studentId: number): Promise<boolean> {
+    const linkedStudentIds = await this.getLinkedStudentIds(guardianId);
+    return linkedStudentIds.includes(studentId);
+  }
+
+  async updateLink(
+    guardianId: number,
+    studentId: number,
+    updates: { weeklySummary: boolean },
+  ): Promise<GuardianLink | undefined> {
+    const [updated] = await db
+      .update(guardianLinks)
+      .set(updates)
+      .where(and(eq(guardianLinks.guardianId, guardianId), eq(guardianLinks.studentId, studentId)))
+      .returning();
+    return updated;
+  }
+
+  async createInvite(invite: NewGuardianInvite): Promise<GuardianInvite> {
+    const [created] = await db.insert(guardianInvites).values(invite).returning();
+    return created;
+  }
+
+  // Marks the invite used in one statement so two families can't redeem the same code
+  async claimInvite(code: string, now: Date): Promise<GuardianInvite | undefined> {
+    const [claimed] = await db
+      .update(guardianInvites)
+      .set({ redeemedAt: now })
+      .where(and(eq(guardianInvites.code, code), isNull(guardianInvites.redeemedAt), gt(guardianInvites.expiresAt, now)))
+      .returning();
+    return claimed;
+  }
+
+  async releaseInvite(inviteId: number): Promise<void> {
+    await db.update(guardianInvites).set({ redeemedAt: null }).where(eq(guardianInvites.id, inviteId));
+  }
+
+  async linkGuardian(invite: GuardianInvite, guardianId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(guardianInvites).set({ redeemedBy: guardianId }).where(eq(guardianInvites.id, invite.id));
+      await tx
+        .insert(guardianLinks)
+        .values({ guardianId, studentId: invite.studentId })
+        .onConflictDoNothing({ target: [guardianLinks.guardianId, guardianLinks.studentId] });
+    });
+  }
+
+  async getStudentGuardians(studentId: number): Promise<StudentGuardianDTO[]> {
+    const rows = await db
+      .select({
+        linkId: guardianLinks.id,
+        guardianId: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        linkedAt: guardianLinks.createdAt,
+      })
+      .from(guardianLinks)
+      .innerJoin(users, eq(guardianLinks.guardianId, users.id))
+      .where(eq(guardianLinks.studentId, studentId))
+      .orderBy(asc(guardianLinks.createdAt));
+    return rows.map((row) => ({
+      linkId: row.linkId,
+      guardianId: row.guardianId,
+      name: displayName(row),
+      email: row.email,
+      linkedAt: row.linkedAt,
+    }));
+  }
+
+  async getOpenInvites(studentId: number, now: Date): Promise<GuardianInviteDTO[]> {
+    return await db
+      .select({
+        id: guardianInvites.id,
+        code: guardianInvites.code,
+        studentId: guardianInvites.studentId,
+        expiresAt: guardianInvites.expiresAt,
+        createdAt: guardianInvites.createdAt,
+      })
+      .from(guardianInvites)
+      .where(
+        and(
+          eq(guardianInvites.studentId, studentId),
+          isNull(guardianInvites.redeemedAt),
+          gt(guardianInvites.expiresAt, now),
+        ),
+      )
+      .orderBy(desc(guardianInvites.createdAt));
+  }
+
+  async deleteLink(studentId: number, linkId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(guardianLinks)
+      .where(and(eq(guardianLinks.id, linkId), eq(guardianLinks.studentId, studentId)))
+      .returning({ id: guardianLinks.id });
+    return deleted.length > 0;
+  }
+
+  async getSummaryLinks(sentBefore: Date): Promise<SummaryLinkRecord[]> {
+    const students = db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.role, UserRole.STUDENT), isNull(users.deactivatedAt)));
+    const rows = await db
+      .select({
+        linkId: guardianLinks.id,
+        guardianId: guardianLinks.guardianId,
+        studentId: guardianLinks.studentId,
+        email: users.email,
+        firstName: users.firstName,
+      })
+      .from(guardianLinks)
+      .innerJoin(users, eq(guardianLinks.guardianId, users.id))
+      .where(
+        and(
+          eq(guardianLinks.weeklySummary, true),
+          isNull(users.deactivatedAt),
+          inArray(guardianLinks.studentId, students),
+          or(isNull(guardianLinks.lastSummarySentAt), lt(guardianLinks.lastSummarySentAt, sentBefore)),
+        ),
+      )
+      .orderBy(asc(guardianLinks.guardianId), asc(guardianLinks.studentId));
+    return rows.flatMap((row) => (row.email ? [{ ...row, email: row.email }] : []));
+  }
+
+  // The past week's work plus milestones due in the coming week
+  async getWeeklyActivity(studentId: number, now: Date): Promise<GuardianWeeklyActivity> {
+    const since = new Date(now.getTime() - WEEK_MS);
+    const until = new Date(now.getTime() + WEEK_MS);
+    const [student] = await db
+      .select({ username: users.username, firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(eq(users.id, studentId))
+      .limit(1);
+
+    const earned = await db
+      .select({ title: credentials.title, type: credentials.type })
+      .from(credentials)
+      .where(
+        and(
+          eq(credentials.studentId, studentId),
+          isNotNull(credentials.approvedBy),
+          isNull(credentials.revokedAt),
+          gte(credentials.awardedAt, since),
+        ),
+      )
+      .orderBy(asc(credentials.awardedAt));
+
+    const [submitted] = await db
+      .select({ total: count() })
+      .from(submissions)
+      .where(and(eq(submissions.studentId, studentId), eq(submissions.isDraft, false), gte(submissions.submittedAt, since)));
+
+    const [graded] = await db
+      .select({ total: count() })
+      .from(submissions)
+      .where(and(eq(submissions.studentId, studentId), gte(submissions.gradedAt, since)));
+
+    const assignedProjectIds = db
+      .select({ projectId: projectAssignments.projectId })
+      .from(projectAssignments)
+      .where(eq(projectAssignments.studentId, studentId));
+    const teamProjectIds = db
+      .select({ projectId: projectTeams.projectId })
+      .from(projectTeamMembers)
+      .innerJoin(projectTeams, eq(projectTeamMembers.teamId, projectTeams.id))
+      .where(eq(projectTeamMembers.studentId, studentId));
+
+    const deadlines = await db
+      .select({ title: milestones.title, projectTitle: projects.title, dueDate: milestones.dueDate })
+      .from(milestones)
+      .leftJoin(projects, eq(milestones.projectId, projects.id))
+      .where(
+        and(
+          or(inArray(milestones.projectId, assignedProjectIds), inArray(milestones.projectId, teamProjectIds)),
+          gte(milestones.dueDate, now),
+          lte(milestones.dueDate, until),
+        ),
+      )
+      .orderBy(asc(milestones.dueDate));
+
+    return {
+      studentId,
+      studentName: student ? displayName(student) : "Your student",
+      credentials: earned,
+      submittedCount: submitted?.total ?? 0,
+      gradedCount: graded?.total ?? 0,
+      upcomingDeadlines: deadlines.flatMap((deadline) =>
+        deadline.dueDate ? [{ title: deadline.title, projectTitle: deadline.projectTitle, dueDate: deadline.dueDate }] : [],
+      ),
+    };
+  }
+
+  async markSummariesSent(linkIds: number[], sentAt: Date): Promise<void> {
+    if (linkIds.length === 0) {
+      return;
+    }
+    await db.update(guardianLinks).set({ lastSummarySentAt: sentAt }).where(inArray(guardianLinks.id, linkIds));
+  }
+}
+
+export const guardiansStorage = new GuardiansStorage();
@@ -0,0 +1,11 @@
+// Export controller and router
+export { guardiansRouter, GuardiansController } from './guardians.controller';
+
+// Export service
+export { guardiansService, type IGuardiansService } from './guardians.service';
+
+// Export storage
+export { guardiansStorage, type IGuardiansStorage } from './guardians.storage';
+
+// Export weekly summary schedule
+export { startGuardianSummarySchedule } from './guardian-summary-schedule';
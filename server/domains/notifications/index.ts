@@ -5,4 +5,10 @@ export { notificationsRouter, NotificationController } from './notifications.con
 export { notificationService, type INotificationService } from './notifications.service';
 
 // Export storage
-export { notificationStorage, type INotificationStorage } from './notifications.storage';
\ No newline at end of file
+export { notificationStorage, type INotificationStorage } from './notifications.storage';
+
+// Export real-time stream
+export { notificationStream, NotificationStream } from './notification-stream';
+
+// Export email digest schedule
+export { startNotificationDigestSchedule } from './notification-digest-schedule';
\ No newline at end of file
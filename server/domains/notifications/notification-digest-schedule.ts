@@ -0,0 +1,37 @@
+import { notificationService, type INotificationService } from './notifications.service';
+import { getDigestHourUtc, isDigestDue } from './notification-email';
+
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Sends daily notification digests from this process. Digest rows are marked
+ * as sent, so a restart on the same day doesn't email anyone twice.
+ */
+export function startNotificationDigestSchedule(
+  service: INotificationService = notificationService,
+  digestHourUtc: number = getDigestHourUtc(),
+): () => void {
+  let lastRunAt: Date | null = null;
+  let running = false;
+
+  const check = async () => {
+    const now = new Date();
+    if (running || !isDigestDue(now, digestHourUtc, lastRunAt)) {
+      return;
+    }
+    running = true;
+    try {
+      await service.sendDailyDigests();
+      lastRunAt = now;
+    } catch (error) {
+      console.error("Error sending notification digests:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, DIGEST_CHECK_INTERVAL_MS);
+  timer.unref();
+  void check();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_EMAIL_DELIVERY,
+  NOTIFICATION_TYPES,
+  URGENT_NOTIFICATION_TYPES,
+  type EmailDelivery,
+  type NotificationType,
+} from "../../../shared/notification-preferences";
+import type { Notification, User } from "../../../shared/schema";
+import type { MailMessage } from "../../integrations/mail";
+
+const DEFAULT_DIGEST_HOUR_UTC = 7;
+
+/** True once per UTC day, on the first check at or after the configured hour. */
+export function isDigestDue(now: Date, digestHourUtc: number, lastRunAt: Date | null): boolean {
+  if (now.getUTCHours() < digestHourUtc) {
+    return false;
+  }
+  return !lastRunAt || lastRunAt.toISOString().slice(0, 10) !== now.toISOString().slice(0, 10);
+}
+
+export function getDigestHourUtc(value: string | undefined = process.env.NOTIFICATION_DIGEST_HOUR_UTC): number {
+  const hour = value?.trim() ? Number(value) : NaN;
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_DIGEST_HOUR_UTC;
+}
+
+export type EmailRecipient = Pick<User, "id" | "email" | "firstName" | "role">;
+
+interface LinkMetadata {
+  projectId?: unknown;
+  assessmentId?: unknown;
+  submissionId?: unknown;
+}
+
+function isNotificationType(type: string): type is NotificationType {
+  return (NOTIFICATION_TYPES as readonly string[]).includes(type);
+}
+
+function positiveId(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Decides how a notification is emailed; urgent types ignore the recipient's preference. */
+export function resolveEmailDelivery(
+  notification: Pick<Notification, "type">,
+  preferences: ReadonlyMap<string, EmailDelivery>,
+): EmailDelivery {
+  if (isNotificationType(notification.type) && URGENT_NOTIFICATION_TYPES.includes(notification.type)) {
+    return "instant";
+  }
+  return preferences.get(notification.type) ?? DEFAULT_EMAIL_DELIVERY;
+}
+
+/** Deep link into the app for a notification, most specific metadata first. */
+export function notificationLink(
+  notification: Pick<Notification, "type" | "metadata">,
+  role: string,
+  baseUrl: string,
+): string {
+  const metadata = (notification.metadata ?? {}) as LinkMetadata;
+  const submissionId = positiveId(metadata.submissionId);
+  const assessmentId = positiveId(metadata.assessmentId);
+  const projectId = positiveId(metadata.projectId);
+  const isTeacher = role === "teacher" || role === "admin";
+
+  if (notification.type === "safety_incident") {
+    return `${baseUrl}/teacher/dashboard`;
+  }
+  if (assessmentId && submissionId && isTeacher) {
+    return `${baseUrl}/teacher/assessments/${assessmentId}/submissions/${submissionId}`;
+  }
+  if (assessmentId) {
+    return isTeacher ? `${baseUrl}/teacher/assessments/${assessmentId}` : `${baseUrl}/student/assessments/${assessmentId}`;
+  }
+  if (projectId) {
+    return isTeacher ? `${baseUrl}/teacher/projects` : `${baseUrl}/student/projects/${projectId}`;
+  }
+  return `${baseUrl}/`;
+}
+
+function greeting(recipient: EmailRecipient): string {
+  return recipient.firstName ? `Hi ${recipient.firstName},` : "Hi,";
+}
+
+export function renderNotificationEmail(
+  notification: Pick<Notification, "type" | "title" | "message" | "metadata">,
+  recipient: EmailRecipient & { email: string },
+  baseUrl: string,
+): MailMessage {
+  const link = notificationLink(notification, recipient.role, baseUrl);
+  return {
+    to: recipient.email,
+    subject: notification.title,
+    text: `${greeting(recipient)}\n\n${notification.message}\n\nOpen in MasteryMap: ${link}\n`,
+    html: [
+      `<p>${escapeHtml(greeting(recipient))}</p>`,
+      `<p><strong>${escapeHtml(notification.title)}</strong></p>`,
+      `<p>${escapeHtml(notification.message).replace(/\n/g, "<br>")}</p>`,
+      `<p><a href="${escapeHtml(link)}">Open in MasteryMap</a></p>`,
+    ].join("\n"),
+  };
+}
+
+export function renderDigestEmail(
+  notifications: Array<Pick<Notification, "type" | "title" | "message" | "metadata">>,
+  recipient: EmailRecipient & { email: string },
+  baseUrl: string,
+): MailMessage {
+  const items = notifications.map((notification) => ({
+    notification,
+    link: notificationLink(notification, recipient.role, baseUrl),
+  }));
+  const count = notifications.length;
+  return {
+    to: recipient.email,
+    subject: `Your MasteryMap digest: ${count} new notification${count === 1 ? "" : "s"}`,
+    text: [
+      greeting(recipient),
+      "",
+      "Here's what happened since your last digest:",
+      "",
+      ...items.map(({ notification, link }) => `- ${notification.title}: ${notification.message}\n  ${link}`),
+      "",
+    ].join("\n"),
+    html: [
+      `<p>${escapeHtml(greeting(recipient))}</p>`,
+      "<p>Here's what happened since your last digest:</p>",
+      "<ul>",
+      ...items.map(
+        ({ notification, link }) =>
+          `<li><a href="${escapeHtml(link)}"><strong>${escapeHtml(notification.title)}</strong></a><br>${escapeHtml(notification.message)}</li>`,
+      ),
+      "</ul>",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,73 @@
+import type { Notification } from "../../../shared/schema";
+
+export type NotificationListener = (notification: Notification) => void;
+
+// Browsers wait this long before reconnecting a dropped EventSource
+export const STREAM_RETRY_MS = 5000;
+// Comment frames keep proxies from closing idle connections
+export const STREAM_HEARTBEAT_MS = 25000;
+
+/** Serializes a notification as one server-sent event whose id is the notification id. */
+export function formatNotificationEvent(notification: Notification): string {
+  return `id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`;
+}
+
+export function formatRetryDirective(retryMs: number = STREAM_RETRY_MS): string {
+  return `retry: ${retryMs}\n\n`;
+}
+
+export function formatHeartbeat(): string {
+  return `: heartbeat\n\n`;
+}
+
+/** Reads the reconnection cursor from the Last-Event-ID header or the `lastEventId` query fallback. */
+export function parseLastEventId(value: unknown): number | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== "string" || !/^\d+$/.test(raw.trim())) {
+    return null;
+  }
+  const id = Number(raw.trim());
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * In-process fan-out of newly inserted notifications to the connected
+ * streams of their recipient. Each server instance only sees its own
+ * inserts; clients catch up on anything else through last-event-id replay.
+ */
+export class NotificationStream {
+  private listeners = new Map<number, Set<NotificationListener>>();
+
+  subscribe(userId: number, listener: NotificationListener): () => void {
+    const userListeners = this.listeners.get(userId) ?? new Set<NotificationListener>();
+    userListeners.add(listener);
+    this.listeners.set(userId, userListeners);
+
+    return () => {
+      userListeners.delete(listener);
+      if (userListeners.size === 0 && this.listeners.get(userId) === userListeners) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  publish(notification: Notification): void {
+    const userListeners = this.listeners.get(notification.userId);
+    if (!userListeners) {
+      return;
+    }
+    for (const listener of Array.from(userListeners)) {
+      try {
+        listener(notification);
+      } catch (error) {
+        console.error("Error delivering notification to stream:", error);
+      }
+    }
+  }
+
+  subscriberCount(userId: number): number {
+    return this.listeners.get(userId)?.size ?? 0;
+  }
+}
+
+export const notificationStream = new NotificationStream();
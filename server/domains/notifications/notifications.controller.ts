@@ -1,6 +1,15 @@
 import { Router } from 'express';
 import { notificationService, type INotificationService } from './notifications.service';
+import {
+  formatHeartbeat,
+  formatNotificationEvent,
+  formatRetryDirective,
+  parseLastEventId,
+  STREAM_HEARTBEAT_MS,
+} from './notification-stream';
 import { requireAuth, type AuthenticatedRequest } from '../auth';
+import type { Notification } from '../../../shared/schema';
+import { notificationPreferencesUpdateSchema } from '../../../shared/notification-preferences';
 
 export class NotificationController {
   constructor(private service: INotificationService = notificationService) {}
@@ -21,6 +30,85 @@ export class NotificationController {
       }
     });
 
+    // Stream new notifications as server-sent events, replaying anything after Last-Event-ID
+    router.get('/stream', requireAuth, async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+      const lastEventId = parseLastEventId(req.get('Last-Event-ID') ?? req.query.lastEventId);
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write(formatRetryDirective());
+
+      // Buffer live events until the replay is written so nothing is sent twice or out of order
+      let lastSentId = lastEventId ?? 0;
+      let replaying = lastEventId !== null;
+      const pending: Notification[] = [];
+      const send = (notification: Notification) => {
+        if (notification.id > lastSentId) {
+          lastSentId = notification.id;
+          res.write(formatNotificationEvent(notification));
+        }
+      };
+
+      const unsubscribe = this.service.subscribe(userId, (notification) => {
+        if (replaying) {
+          pending.push(notification);
+        } else {
+          send(notification);
+        }
+      });
+      const heartbeat = setInterval(() => res.write(formatHeartbeat()), STREAM_HEARTBEAT_MS);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      if (lastEventId !== null) {
+        try {
+          const missed = await this.service.getMissedNotifications(userId, lastEventId);
+          missed.forEach(send);
+        } catch (error) {
+          console.error("Error replaying notifications:", error);
+        }
+        replaying = false;
+        pending.forEach(send);
+      }
+    });
+
+    // Get email delivery preferences for every notification type
+    router.get('/preferences', requireAuth, async (req: AuthenticatedRequest, res) => {
+      try {
+        const preferences = await this.service.getNotificationPreferences(req.user!.id);
+        res.json(preferences);
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+        res.status(500).json({ message: "Failed to fetch notification preferences" });
+      }
+    });
+
+    // Update email delivery preferences (urgent types can't be changed)
+    router.put('/preferences', requireAuth, async (req: AuthenticatedRequest, res) => {
+      try {
+        const parsed = notificationPreferencesUpdateSchema.safeParse(req.body?.preferences);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid notification preferences",
+            errors: parsed.error.flatten().fieldErrors,
+          });
+        }
+        const preferences = await this.service.updateNotificationPreferences(req.user!.id, parsed.data);
+        res.json(preferences);
+      } catch (error) {
+        console.error("Error updating notification preferences:", error);
+        res.status(500).json({ message: "Failed to update notification preferences" });
+      }
+    });
+
     // Mark notification as read
     router.post('/:id/mark-read', requireAuth, async (req: AuthenticatedRequest, res) => {
       try {
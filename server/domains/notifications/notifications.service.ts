@@ -1,14 +1,40 @@
 import { notificationStorage, type INotificationStorage } from './notifications.storage';
-import { type Notification } from "../../../shared/schema";
+import { notificationStream, type NotificationListener, type NotificationStream } from './notification-stream';
+import { renderDigestEmail, renderNotificationEmail, resolveEmailDelivery, type EmailRecipient } from './notification-email';
+import { APP_BASE_URL, mailTransport, type MailTransport } from '../../integrations/mail';
+import { type InsertNotification, type Notification } from "../../../shared/schema";
+import {
+  DEFAULT_EMAIL_DELIVERY,
+  NOTIFICATION_TYPES,
+  URGENT_NOTIFICATION_TYPES,
+  type EmailDelivery,
+  type NotificationPreferencesUpdate,
+} from "../../../shared/notification-preferences";
+import type { NotificationPreferenceDTO } from "../../../shared/contracts/api";
+
+// Upper bound on how many missed notifications a reconnecting stream replays
+const STREAM_REPLAY_LIMIT = 100;
 
 export interface INotificationService {
   getUserNotifications(userId: number): Promise<Notification[]>;
   markNotificationAsRead(notificationId: number, userId: number): Promise<void>;
   markAllNotificationsAsRead(userId: number): Promise<void>;
+  createNotification(values: InsertNotification): Promise<Notification>;
+  createNotifications(values: InsertNotification[]): Promise<Notification[]>;
+  getMissedNotifications(userId: number, lastEventId: number): Promise<Notification[]>;
+  subscribe(userId: number, listener: NotificationListener): () => void;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferenceDTO[]>;
+  updateNotificationPreferences(userId: number, preferences: NotificationPreferencesUpdate): Promise<NotificationPreferenceDTO[]>;
+  sendDailyDigests(): Promise<number>;
 }
 
 export class NotificationService implements INotificationService {
-  constructor(private storage: INotificationStorage = notificationStorage) {}
+  constructor(
+    private storage: INotificationStorage = notificationStorage,
+    private stream: NotificationStream = notificationStream,
+    private mail: MailTransport = mailTransport,
+    private baseUrl: string = APP_BASE_URL,
+  ) {}
 
   async getUserNotifications(userId: number): Promise<Notification[]> {
     return await this.storage.getNotificationsByUser(userId);
@@ -29,6 +55,133 @@ export class NotificationService implements INotificationService {
   async markAllNotificationsAsRead(userId: number): Promise<void> {
     await this.storage.markAllNotificationsAsRead(userId);
   }
+
+  async createNotification(values: InsertNotification): Promise<Notification> {
+    const [notification] = await this.createNotifications([values]);
+    return notification;
+  }
+
+  // All notification inserts go through here so connected streams see them immediately
+  async createNotifications(values: InsertNotification[]): Promise<Notification[]> {
+    const created = await this.storage.createNotifications(values);
+    created.forEach((notification) => this.stream.publish(notification));
+    // Email delivery must never hold up or fail the in-app notification
+    this.deliverEmails(created).catch((error) => {
+      console.error("Error emailing notifications:", error);
+    });
+    return created;
+  }
+
+  async getMissedNotifications(userId: number, lastEventId: number): Promise<Notification[]> {
+    return await this.storage.getNotificationsSince(userId, lastEventId, STREAM_REPLAY_LIMIT);
+  }
+
+  subscribe(userId: number, listener: NotificationListener): () => void {
+    return this.stream.subscribe(userId, listener);
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferenceDTO[]> {
+    const preferences = await this.getPreferenceMaps([userId]);
+    const userPreferences = preferences.get(userId) ?? new Map<string, EmailDelivery>();
+    return NOTIFICATION_TYPES.map((type) => ({
+      type,
+      emailDelivery: resolveEmailDelivery({ type }, userPreferences),
+      locked: URGENT_NOTIFICATION_TYPES.includes(type),
+    }));
+  }
+
+  async updateNotificationPreferences(
+    userId: number,
+    preferences: NotificationPreferencesUpdate,
+  ): Promise<NotificationPreferenceDTO[]> {
+    await this.storage.upsertNotificationPreferences(
+      userId,
+      preferences.filter((preference) => !URGENT_NOTIFICATION_TYPES.includes(preference.type)),
+    );
+    return await this.getNotificationPreferences(userId);
+  }
+
+  /** Emails each user one summary of their pending digest notifications. Returns the number of digests sent. */
+  async sendDailyDigests(): Promise<number> {
+    const pending = await this.storage.getPendingDigestNotifications();
+    const byUser = new Map<number, Notification[]>();
+    pending.forEach((notification) => {
+      byUser.set(notification.userId, [...(byUser.get(notification.userId) ?? []), notification]);
+    });
+
+    const recipients = await this.storage.getEmailRecipients(Array.from(byUser.keys()));
+    let sent = 0;
+    for (const recipient of recipients) {
+      const notifications = byUser.get(recipient.id) ?? [];
+      const ids = notifications.map((notification) => notification.id);
+      if (!recipient.email) {
+        await this.storage.updateEmailStatus(ids, "skipped");
+        continue;
+      }
+      try {
+        await this.mail.send(renderDigestEmail(notifications, { ...recipient, email: recipient.email }, this.baseUrl));
+        await this.storage.updateEmailStatus(ids, "sent");
+        sent += 1;
+      } catch (error) {
+        // Left pending so the next digest run retries them
+        console.error(`Error sending notification digest to user ${recipient.id}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  private async getPreferenceMaps(userIds: number[]): Promise<Map<number, Map<string, EmailDelivery>>> {
+    const rows = await this.storage.getNotificationPreferences(userIds);
+    const maps = new Map<number, Map<string, EmailDelivery>>();
+    rows.forEach((row) => {
+      const userPreferences = maps.get(row.userId) ?? new Map<string, EmailDelivery>();
+      userPreferences.set(row.type, row.emailDelivery ?? DEFAULT_EMAIL_DELIVERY);
+      maps.set(row.userId, userPreferences);
+    });
+    return maps;
+  }
+
+  private async deliverEmails(created: Notification[]): Promise<void> {
+    if (created.length === 0) {
+      return;
+    }
+    const userIds = Array.from(new Set(created.map((notification) => notification.userId)));
+    const [recipients, preferences] = await Promise.all([
+      this.storage.getEmailRecipients(userIds),
+      this.getPreferenceMaps(userIds),
+    ]);
+    const recipientsById = new Map<number, EmailRecipient>(recipients.map((recipient) => [recipient.id, recipient]));
+
+    const statuses: Record<NonNullable<Notification["emailStatus"]>, number[]> = {
+      sent: [],
+      pending_digest: [],
+      skipped: [],
+      failed: [],
+    };
+    for (const notification of created) {
+      const recipient = recipientsById.get(notification.userId);
+      const delivery = resolveEmailDelivery(notification, preferences.get(notification.userId) ?? new Map());
+      if (!recipient?.email || delivery === "off") {
+        statuses.skipped.push(notification.id);
+      } else if (delivery === "daily_digest") {
+        statuses.pending_digest.push(notification.id);
+      } else {
+        try {
+          await this.mail.send(renderNotificationEmail(notification, { ...recipient, email: recipient.email }, this.baseUrl));
+          statuses.sent.push(notification.id);
+        } catch (error) {
+          console.error(`Error emailing notification ${notification.id}:`, error);
+          statuses.failed.push(notification.id);
+        }
+      }
+    }
+
+    await Promise.all(
+      (Object.keys(statuses) as Array<keyof typeof statuses>).map((status) =>
+        this.storage.updateEmailStatus(statuses[status], status),
+      ),
+    );
+  }
 }
 
 export const notificationService = new NotificationService();
\ No newline at end of file
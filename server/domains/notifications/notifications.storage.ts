@@ -1,14 +1,27 @@
-import { eq, desc } from "drizzle-orm";
+import { and, asc, eq, desc, gt, inArray, sql } from "drizzle-orm";
 import { db } from "../../db";
 import { 
+  notificationPreferences,
   notifications,
-  type Notification
+  users,
+  type InsertNotification,
+  type Notification,
+  type NotificationPreference
 } from "../../../shared/schema";
+import type { NotificationPreferencesUpdate } from "../../../shared/notification-preferences";
+import type { EmailRecipient } from "./notification-email";
 
 export interface INotificationStorage {
   getNotificationsByUser(userId: number): Promise<Notification[]>;
   markNotificationAsRead(notificationId: number): Promise<void>;
   markAllNotificationsAsRead(userId: number): Promise<void>;
+  createNotifications(values: InsertNotification[]): Promise<Notification[]>;
+  getNotificationsSince(userId: number, afterId: number, limit: number): Promise<Notification[]>;
+  getEmailRecipients(userIds: number[]): Promise<EmailRecipient[]>;
+  getNotificationPreferences(userIds: number[]): Promise<NotificationPreference[]>;
+  upsertNotificationPreferences(userId: number, preferences: NotificationPreferencesUpdate): Promise<void>;
+  updateEmailStatus(notificationIds: number[], status: NonNullable<Notification["emailStatus"]>): Promise<void>;
+  getPendingDigestNotifications(): Promise<Notification[]>;
 }
 
 export class NotificationStorage implements INotificationStorage {
@@ -33,6 +46,74 @@ export class NotificationStorage implements INotificationStorage {
       .set({ read: true })
       .where(eq(notifications.userId, userId));
   }
+
+  async createNotifications(values: InsertNotification[]): Promise<Notification[]> {
+    if (values.length === 0) {
+      return [];
+    }
+    return await db.insert(notifications).values(values).returning();
+  }
+
+  // Oldest first so a reconnecting stream replays in delivery order
+  async getNotificationsSince(userId: number, afterId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), gt(notifications.id, afterId)))
+      .orderBy(asc(notifications.id))
+      .limit(limit);
+  }
+
+  async getEmailRecipients(userIds: number[]): Promise<EmailRecipient[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({ id: users.id, email: users.email, firstName: users.firstName, role: users.role })
+      .from(users)
+      .where(inArray(users.id, userIds));
+  }
+
+  async getNotificationPreferences(userIds: number[]): Promise<NotificationPreference[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async upsertNotificationPreferences(userId: number, preferences: NotificationPreferencesUpdate): Promise<void> {
+    if (preferences.length === 0) {
+      return;
+    }
+    await db
+      .insert(notificationPreferences)
+      .values(preferences.map((preference) => ({ userId, ...preference })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { emailDelivery: sql`excluded.email_delivery`, updatedAt: new Date() },
+      });
+  }
+
+  async updateEmailStatus(notificationIds: number[], status: NonNullable<Notification["emailStatus"]>): Promise<void> {
+    if (notificationIds.length === 0) {
+      return;
+    }
+    await db
+      .update(notifications)
+      .set({ emailStatus: status, emailedAt: status === "sent" ? new Date() : null })
+      .where(inArray(notifications.id, notificationIds));
+  }
+
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.emailStatus, "pending_digest"))
+      .orderBy(asc(notifications.userId), asc(notifications.id));
+  }
 }
 
 export const notificationStorage = new NotificationStorage();
\ No newline at end of file
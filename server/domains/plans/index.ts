@@ -0,0 +1,11 @@
+// Export controller and router
+export { plansRouter, PlansController } from './plans.controller';
+
+// Export service
+export { plansService, type IPlansService, type UsageSubject } from './plans.service';
+
+// Export storage
+export { plansStorage, type IPlansStorage } from './plans.storage';
+
+// Export usage metering middleware
+export { getMeteredReservationId, meterUsage, refundMeteredUsage } from './plans.middleware';
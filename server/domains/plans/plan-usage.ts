@@ -0,0 +1,45 @@
+import {
+  MONTHLY_USAGE_METRICS,
+  USAGE_METRICS,
+  type PlanDefinition,
+  type UsageMetric,
+} from "../../../shared/plans";
+import type { PlanUsageDTO } from "../../../shared/contracts/api";
+
+export interface UsageTotals {
+  /** Ledger sums since the start of the period. */
+  period: Record<UsageMetric, number>;
+  /** Ledger sums for all time. */
+  total: Record<UsageMetric, number>;
+  /** Projects that exist now, counted from the projects table so deleted projects free their slot. */
+  projects: number;
+}
+
+export function emptyMetricTotals(): Record<UsageMetric, number> {
+  return Object.fromEntries(USAGE_METRICS.map((metric) => [metric, 0])) as Record<UsageMetric, number>;
+}
+
+export function usedForMetric(totals: UsageTotals, metric: UsageMetric): number {
+  if (metric === "project") {
+    return totals.projects;
+  }
+  return MONTHLY_USAGE_METRICS.includes(metric) ? totals.period[metric] : totals.total[metric];
+}
+
+export function buildPlanUsage(
+  plan: PlanDefinition,
+  scope: PlanUsageDTO["scope"],
+  totals: UsageTotals,
+  periodStart: Date,
+): PlanUsageDTO {
+  return {
+    planId: plan.id,
+    scope,
+    periodStart,
+    usage: USAGE_METRICS.map((metric) => ({
+      metric,
+      used: usedForMetric(totals, metric),
+      limit: plan.quotas[metric],
+    })),
+  };
+}
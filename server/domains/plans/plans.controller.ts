@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { plansService, type IPlansService } from "./plans.service";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../auth";
+import { createSuccessResponse, sendDomainError } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+
+export class PlansController {
+  constructor(private service: IPlansService = plansService) {}
+
+  // Create Express router with the plan routes
+  createRouter(): Router {
+    const router = Router();
+
+    // The caller's plan: their school's, or their own free plan without a school
+    router.get("/usage", requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), async (req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.getUsage(req.user!));
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch plan usage");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const plansController = new PlansController();
+export const plansRouter = plansController.createRouter();
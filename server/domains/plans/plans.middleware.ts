@@ -0,0 +1,65 @@
+import type { NextFunction, Response } from "express";
+import type { AuthenticatedRequest } from "../auth";
+import type { UsageMetric } from "../../../shared/plans";
+import { QuotaExceededError } from "../../utils/errorTypes";
+import { sendQuotaExceededError } from "../../utils/routeHelpers";
+import { plansService, type IPlansService } from "./plans.service";
+
+type UsageAmount = (req: AuthenticatedRequest) => number;
+
+const USAGE_REFUNDED = "usageRefunded";
+const USAGE_RESERVATION = "usageReservationId";
+
+/**
+ * For responses that have already sent a success status, such as a stream
+ * that ends in an error event: the metered usage is released when it finishes.
+ */
+export function refundMeteredUsage(res: Response): void {
+  res.locals[USAGE_REFUNDED] = true;
+}
+
+/** The ledger entry meterUsage reserved for this request, if it metered one. */
+export function getMeteredReservationId(res: Response): number | undefined {
+  const reservationId = res.locals[USAGE_RESERVATION];
+  return typeof reservationId === "number" ? reservationId : undefined;
+}
+
+/**
+ * Reserves the request's usage against the caller's plan before the handler
+ * runs, answering 402 when it would go over, and releases the reservation if
+ * the handler fails. Runs after requireAuth (and after multer when the amount
+ * comes from the upload).
+ */
+export function meterUsage(
+  metric: UsageMetric,
+  getAmount: UsageAmount = () => 1,
+  service: IPlansService = plansService,
+) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      return next();
+    }
+
+    let reservationId: number;
+    try {
+      reservationId = await service.reserveUsage(user, metric, getAmount(req));
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return sendQuotaExceededError(res, error);
+      }
+      return next(error);
+    }
+
+    res.locals[USAGE_RESERVATION] = reservationId;
+    res.on("finish", () => {
+      if (res.statusCode < 400 && !res.locals[USAGE_REFUNDED]) {
+        return;
+      }
+      service.releaseUsage(reservationId).catch((error) => {
+        console.error("Error releasing plan usage:", error);
+      });
+    });
+    next();
+  };
+}
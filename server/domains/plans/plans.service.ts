@@ -0,0 +1,107 @@
+import { plansStorage, type IPlansStorage, type UsageScope } from "./plans.storage";
+import { buildPlanUsage, usedForMetric } from "./plan-usage";
+import {
+  PLANS,
+  describeQuotaExcess,
+  findQuotaExcess,
+  getPlan,
+  getUsagePeriodStart,
+  type PlanDefinition,
+  type PlanId,
+  type UsageMetric,
+} from "../../../shared/plans";
+import type { PlanUsageDTO } from "../../../shared/contracts/api";
+import type { User } from "../../../shared/schema";
+import { NotFoundError, QuotaExceededError } from "../../utils/errorTypes";
+
+/** The parts of a user that decide which plan a request counts against. */
+export type UsageSubject = Pick<User, "id" | "schoolId">;
+
+interface ResolvedPlan {
+  plan: PlanDefinition;
+  scope: UsageScope;
+  scopeType: PlanUsageDTO["scope"];
+}
+
+export interface IPlansService {
+  getUsage(subject: UsageSubject): Promise<PlanUsageDTO>;
+  getSchoolUsage(schoolId: number): Promise<PlanUsageDTO>;
+  setSchoolPlan(schoolId: number, planId: PlanId): Promise<PlanUsageDTO>;
+  // Records the usage up front, throwing QuotaExceededError instead when it would go over the plan
+  reserveUsage(subject: UsageSubject, metric: UsageMetric, amount?: number): Promise<number>;
+  releaseUsage(reservationId: number): Promise<void>;
+  // Ties a storage_bytes reservation to the uploaded file so deleting the file can free it
+  attachUploadedObject(reservationId: number, objectPath: string): Promise<void>;
+  releaseStorageUsage(objectPaths: string[]): Promise<void>;
+}
+
+export class PlansService implements IPlansService {
+  constructor(private storage: IPlansStorage = plansStorage) {}
+
+  private async resolvePlan(subject: UsageSubject): Promise<ResolvedPlan> {
+    const school = subject.schoolId ? await this.storage.getSchool(subject.schoolId) : undefined;
+    if (!school) {
+      return { plan: PLANS.free, scope: { userId: subject.id }, scopeType: "personal" };
+    }
+    return { plan: getPlan(school.planId), scope: { schoolId: school.id }, scopeType: "school" };
+  }
+
+  async getUsage(subject: UsageSubject): Promise<PlanUsageDTO> {
+    const { plan, scope, scopeType } = await this.resolvePlan(subject);
+    const periodStart = getUsagePeriodStart();
+    const totals = await this.storage.getUsageTotals(scope, periodStart);
+    return buildPlanUsage(plan, scopeType, totals, periodStart);
+  }
+
+  async getSchoolUsage(schoolId: number): Promise<PlanUsageDTO> {
+    const school = await this.storage.getSchool(schoolId);
+    if (!school) {
+      throw new NotFoundError("School", schoolId);
+    }
+    const periodStart = getUsagePeriodStart();
+    const totals = await this.storage.getUsageTotals({ schoolId }, periodStart);
+    return buildPlanUsage(getPlan(school.planId), "school", totals, periodStart);
+  }
+
+  async setSchoolPlan(schoolId: number, planId: PlanId): Promise<PlanUsageDTO> {
+    const school = await this.storage.setSchoolPlan(schoolId, planId);
+    if (!school) {
+      throw new NotFoundError("School", schoolId);
+    }
+    return this.getSchoolUsage(schoolId);
+  }
+
+  async reserveUsage(subject: UsageSubject, metric: UsageMetric, amount = 1): Promise<number> {
+    const { plan, scope } = await this.resolvePlan(subject);
+    const entry = {
+      schoolId: "schoolId" in scope ? scope.schoolId : null,
+      userId: subject.id,
+      metric,
+      quantity: amount,
+    };
+    if (plan.quotas[metric] === null || amount <= 0) {
+      return this.storage.reserveUsage(entry, scope, getUsagePeriodStart());
+    }
+
+    return this.storage.reserveUsage(entry, scope, getUsagePeriodStart(), (totals) => {
+      const excess = findQuotaExcess(plan, metric, usedForMetric(totals, metric), amount);
+      if (excess) {
+        throw new QuotaExceededError(describeQuotaExcess(excess), excess);
+      }
+    });
+  }
+
+  async releaseUsage(reservationId: number): Promise<void> {
+    await this.storage.releaseUsage(reservationId);
+  }
+
+  async attachUploadedObject(reservationId: number, objectPath: string): Promise<void> {
+    await this.storage.setUsageObjectPath(reservationId, objectPath);
+  }
+
+  async releaseStorageUsage(objectPaths: string[]): Promise<void> {
+    await this.storage.releaseStorageUsage(Array.from(new Set(objectPaths)));
+  }
+}
+
+export const plansService = new PlansService();
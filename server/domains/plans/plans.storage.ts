@@ -0,0 +1,139 @@
+import { and, count, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import { projects, schools, usageLedger, type School } from "../../../shared/schema";
+import type { PlanId, UsageMetric } from "../../../shared/plans";
+import { emptyMetricTotals, type UsageTotals } from "./plan-usage";
+
+/** Whose allowance a request counts against: the school, or the user when they have no school. */
+export type UsageScope = { schoolId: number } | { userId: number };
+
+type PlansTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type PlansExecutor = typeof db | PlansTransaction;
+
+export interface UsageEntry {
+  schoolId: number | null;
+  userId: number;
+  metric: UsageMetric;
+  quantity: number;
+}
+
+function ledgerScope(scope: UsageScope): SQL | undefined {
+  return "schoolId" in scope
+    ? eq(usageLedger.schoolId, scope.schoolId)
+    : and(isNull(usageLedger.schoolId), eq(usageLedger.userId, scope.userId));
+}
+
+function projectScope(scope: UsageScope): SQL | undefined {
+  return "schoolId" in scope
+    ? eq(projects.schoolId, scope.schoolId)
+    : and(isNull(projects.schoolId), eq(projects.teacherId, scope.userId));
+}
+
+// Serializes reservations against one allowance; personal scopes have no row to lock
+function scopeLockKey(scope: UsageScope): string {
+  return "schoolId" in scope ? `usage:school:${scope.schoolId}` : `usage:user:${scope.userId}`;
+}
+
+async function loadUsageTotals(executor: PlansExecutor, scope: UsageScope, periodStart: Date): Promise<UsageTotals> {
+  const [rows, [projectCount]] = await Promise.all([
+    executor
+      .select({
+        metric: usageLedger.metric,
+        period: sql<string>`coalesce(sum(${usageLedger.quantity}) filter (where ${usageLedger.createdAt} >= ${periodStart}), 0)`,
+        total: sql<string>`coalesce(sum(${usageLedger.quantity}), 0)`,
+      })
+      .from(usageLedger)
+      .where(ledgerScope(scope))
+      .groupBy(usageLedger.metric),
+    executor.select({ value: count() }).from(projects).where(projectScope(scope)),
+  ]);
+
+  const totals: UsageTotals = {
+    period: emptyMetricTotals(),
+    total: emptyMetricTotals(),
+    projects: projectCount?.value ?? 0,
+  };
+  rows.forEach((row) => {
+    // Postgres returns numeric sums as strings
+    totals.period[row.metric] = Number(row.period);
+    totals.total[row.metric] = Number(row.total);
+  });
+  return totals;
+}
+
+export interface IPlansStorage {
+  getSchool(id: number): Promise<School | undefined>;
+  setSchoolPlan(schoolId: number, planId: PlanId): Promise<School | undefined>;
+  /**
+   * Adds the entry to the ledger and returns its id. With `admit`, the scope's
+   * totals are read under a lock first and `admit` may throw to refuse the entry,
+   * so concurrent reservations can't both pass the same check.
+   */
+  reserveUsage(
+    entry: UsageEntry,
+    scope: UsageScope,
+    periodStart: Date,
+    admit?: (totals: UsageTotals) => void,
+  ): Promise<number>;
+  releaseUsage(id: number): Promise<void>;
+  setUsageObjectPath(id: number, objectPath: string): Promise<void>;
+  releaseStorageUsage(objectPaths: string[]): Promise<void>;
+  getUsageTotals(scope: UsageScope, periodStart: Date): Promise<UsageTotals>;
+}
+
+export class PlansStorage implements IPlansStorage {
+  async getSchool(id: number): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, id));
+    return school;
+  }
+
+  async setSchoolPlan(schoolId: number, planId: PlanId): Promise<School | undefined> {
+    const [school] = await db
+      .update(schools)
+      .set({ planId })
+      .where(eq(schools.id, schoolId))
+      .returning();
+    return school;
+  }
+
+  async reserveUsage(
+    entry: UsageEntry,
+    scope: UsageScope,
+    periodStart: Date,
+    admit?: (totals: UsageTotals) => void,
+  ): Promise<number> {
+    if (!admit) {
+      const [created] = await db.insert(usageLedger).values(entry).returning({ id: usageLedger.id });
+      return created.id;
+    }
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${scopeLockKey(scope)}))`);
+      admit(await loadUsageTotals(tx, scope, periodStart));
+      const [created] = await tx.insert(usageLedger).values(entry).returning({ id: usageLedger.id });
+      return created.id;
+    });
+  }
+
+  async releaseUsage(id: number): Promise<void> {
+    await db.delete(usageLedger).where(eq(usageLedger.id, id));
+  }
+
+  async setUsageObjectPath(id: number, objectPath: string): Promise<void> {
+    await db.update(usageLedger).set({ objectPath }).where(eq(usageLedger.id, id));
+  }
+
+  async releaseStorageUsage(objectPaths: string[]): Promise<void> {
+    if (objectPaths.length === 0) {
+      return;
+    }
+    await db
+      .delete(usageLedger)
+      .where(and(eq(usageLedger.metric, "storage_bytes"), inArray(usageLedger.objectPath, objectPaths)));
+  }
+
+  async getUsageTotals(scope: UsageScope, periodStart: Date): Promise<UsageTotals> {
+    return loadUsageTotals(db, scope, periodStart);
+  }
+}
+
+export const plansStorage = new PlansStorage();
@@ -2,7 +2,12 @@ import { Router } from "express";
 import { createHmac, timingSafeEqual } from "crypto";
 import { portfolioService, type IPortfolioService } from "./portfolio.service";
 import { requireAuth, type AuthenticatedRequest } from "../auth";
-import { insertPortfolioArtifactSchema } from "../../../shared/schema";
+import { auditContext, auditService, type IAuditService } from "../audit";
+import {
+  insertPortfolioArtifactSchema,
+  type InsertPortfolioArtifact,
+  type PortfolioArtifact,
+} from "../../../shared/schema";
 
 const LINK_SECRET =
   process.env.PORTFOLIO_LINK_SECRET || process.env.JWT_SECRET || "portfolio-link-dev-secret";
@@ -42,7 +47,32 @@ function parseExpiryDays(rawValue: unknown): number | undefined {
 }
 
 export class PortfolioController {
-  constructor(private service: IPortfolioService = portfolioService) {}
+  constructor(
+    private service: IPortfolioService = portfolioService,
+    private auditLog: Pick<IAuditService, "record"> = auditService,
+  ) {}
+
+  private async updateArtifact(
+    req: AuthenticatedRequest,
+    artifactId: number,
+    updates: Partial<InsertPortfolioArtifact>,
+  ): Promise<PortfolioArtifact> {
+    const studentId = req.user!.id;
+    const before = updates.isPublic === undefined
+      ? undefined
+      : await this.service.getArtifactForStudent(studentId, artifactId);
+    const artifact = await this.service.updateArtifactForStudent(studentId, artifactId, updates);
+
+    if (before && before.isPublic !== artifact.isPublic) {
+      await this.auditLog.record(auditContext(req), {
+        action: "portfolio_artifact.visibility",
+        target: { type: "portfolio_artifact", id: artifact.id, label: artifact.title },
+        before: { isPublic: before.isPublic },
+        after: { isPublic: artifact.isPublic },
+      });
+    }
+    return artifact;
+  }
 
   createRouter(): Router {
     const router = Router();
@@ -123,7 +153,7 @@ export class PortfolioController {
           updates.artifactType = req.body.artifactType.trim();
         }
 
-        const artifact = await this.service.updateArtifactForStudent(req.user.id, artifactId, updates);
+        const artifact = await this.updateArtifact(req, artifactId, updates);
         res.json(artifact);
       } catch (error) {
         console.error("Error updating portfolio artifact:", error);
@@ -148,7 +178,7 @@ export class PortfolioController {
           return res.status(400).json({ message: "isPublic must be a boolean" });
         }
 
-        const artifact = await this.service.updateArtifactForStudent(req.user.id, artifactId, { isPublic });
+        const artifact = await this.updateArtifact(req, artifactId, { isPublic });
         res.json(artifact);
       } catch (error) {
         console.error("Error updating artifact visibility:", error);
@@ -52,6 +52,7 @@ export interface StudentPortfolioSettings {
 export interface IPortfolioService {
   getStudentArtifacts(studentId: number): Promise<PortfolioArtifactWithContext[]>;
   createArtifact(artifactData: InsertPortfolioArtifact): Promise<PortfolioArtifact>;
+  getArtifactForStudent(studentId: number, artifactId: number): Promise<PortfolioArtifact | undefined>;
   updateArtifactForStudent(
     studentId: number,
     artifactId: number,
@@ -78,6 +79,11 @@ export class PortfolioService implements IPortfolioService {
     return this.storage.createPortfolioArtifact(artifactData);
   }
 
+  async getArtifactForStudent(studentId: number, artifactId: number): Promise<PortfolioArtifact | undefined> {
+    const artifact = await this.storage.getPortfolioArtifactById(artifactId);
+    return artifact?.studentId === studentId ? artifact : undefined;
+  }
+
   async updateArtifactForStudent(
     studentId: number,
     artifactId: number,
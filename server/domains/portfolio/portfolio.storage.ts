@@ -1,4 +1,4 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, isNotNull, isNull } from "drizzle-orm";
 import { db } from "../../db";
 import { 
   portfolioArtifacts,
@@ -137,7 +137,7 @@ export class PortfolioStorage implements IPortfolioStorage {
     return await db
       .select()
       .from(credentials)
-      .where(eq(credentials.studentId, studentId))
+      .where(and(eq(credentials.studentId, studentId), isNotNull(credentials.approvedBy), isNull(credentials.revokedAt)))
       .orderBy(desc(credentials.awardedAt));
   }
 
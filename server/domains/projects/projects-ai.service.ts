@@ -140,47 +140,6 @@ export class ProjectsAIService {
     return { ideas };
   }
 
-  async generateProjectIdeasForUser(
-    userId: number,
-    ideaParams: ProjectIdeaParams,
-  ): Promise<{ ideas: Awaited<ReturnType<typeof aiService.generateProjectIdeas>> }> {
-    const componentSkills = ideaParams.componentSkillIds.length > 0
-      ? await this.storage.getComponentSkillsByIds(ideaParams.componentSkillIds)
-      : [];
-    const bestStandards = (ideaParams.bestStandardIds?.length ?? 0) > 0
-      ? await this.storage.getBestStandardsByIds(ideaParams.bestStandardIds ?? [])
-      : [];
-    if (componentSkills.length === 0 && bestStandards.length === 0) {
-      throw new Error("No valid component skills or B.E.S.T. standards found for the provided IDs");
-    }
-
-    const user = await this.storage.getUser(userId);
-    if (user?.tier === "free") {
-      const now = new Date();
-      const lastDate = user.lastProjectGenerationDate;
-      let currentCount = user.projectGenerationCount || 0;
-
-      if (lastDate) {
-        const lastMonth = lastDate.getMonth();
-        const lastYear = lastDate.getFullYear();
-        const currentMonth = now.getMonth();
-        const currentYear = now.getFullYear();
-
-        if (lastMonth !== currentMonth || lastYear !== currentYear) {
-          currentCount = 0;
-        }
-      }
-
-      if (currentCount >= 5) {
-        throw new Error("Free tier limit reached. You can generate up to 5 project ideas per month.");
-      }
-
-      await this.storage.incrementProjectGenerationCount(userId);
-    }
-
-    return this.generateProjectIdeas(ideaParams);
-  }
-
   async generateProjectThumbnail(
     projectId: number,
     userId: number,
@@ -249,6 +208,7 @@ export class ProjectsAIService {
           dueDate,
           order: index + 1,
           aiGenerated: true,
+          aiPromptVersion: milestone.promptVersion ?? null,
         });
       }),
     );
@@ -296,6 +256,7 @@ export class ProjectsAIService {
           dueDate,
           order: index + 1,
           aiGenerated: true,
+          aiPromptVersion: milestone.promptVersion ?? null,
         });
 
         const assessment = await aiService.generateAssessmentFromComponentSkills(
@@ -18,6 +18,7 @@ import {
   type User,
 } from "../../../shared/schema";
 import { db } from "../../db";
+import { collectStoredObjectPaths } from "../../utils/storedObjects";
 import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
 
 export class ProjectsCoreQueries {
@@ -125,29 +126,40 @@ export class ProjectsCoreQueries {
     return updatedProject;
   }
 
-  async deleteProject(id: number): Promise<void> {
-    const projectMilestones = await db.select({ id: milestones.id }).from(milestones).where(eq(milestones.projectId, id));
+  /** Deletes the project and everything under it, returning the uploaded files those rows referenced. */
+  async deleteProject(id: number): Promise<string[]> {
+    const projectMilestones = await db
+      .select({ id: milestones.id, deliverableUrl: milestones.deliverableUrl })
+      .from(milestones)
+      .where(eq(milestones.projectId, id));
     const milestoneIds = projectMilestones.map((m) => m.id);
+    const storedObjects: unknown[] = projectMilestones.map((m) => m.deliverableUrl);
 
     if (milestoneIds.length > 0) {
       const milestoneAssessments = await db
-        .select({ id: assessments.id })
+        .select({ id: assessments.id, pdfUrl: assessments.pdfUrl })
         .from(assessments)
         .where(inArray(assessments.milestoneId, milestoneIds));
 
       const assessmentIds = milestoneAssessments.map((a) => a.id);
+      storedObjects.push(...milestoneAssessments.map((a) => a.pdfUrl));
 
       if (assessmentIds.length > 0) {
         const assessmentSubmissions = await db
-          .select({ id: submissions.id })
+          .select({ id: submissions.id, artifacts: submissions.artifacts, responses: submissions.responses })
           .from(submissions)
           .where(inArray(submissions.assessmentId, assessmentIds));
 
         const submissionIds = assessmentSubmissions.map((s) => s.id);
+        storedObjects.push(...assessmentSubmissions.flatMap((s) => [s.artifacts, s.responses]));
 
         if (submissionIds.length > 0) {
           await db.delete(grades).where(inArray(grades.submissionId, submissionIds));
-          await db.delete(portfolioArtifacts).where(inArray(portfolioArtifacts.submissionId, submissionIds));
+          const submissionArtifacts = await db
+            .delete(portfolioArtifacts)
+            .where(inArray(portfolioArtifacts.submissionId, submissionIds))
+            .returning({ artifactUrl: portfolioArtifacts.artifactUrl });
+          storedObjects.push(...submissionArtifacts.map((artifact) => artifact.artifactUrl));
           await db.delete(submissions).where(inArray(submissions.id, submissionIds));
         }
 
@@ -156,7 +168,11 @@ export class ProjectsCoreQueries {
         await db.delete(assessments).where(inArray(assessments.id, assessmentIds));
       }
 
-      await db.delete(portfolioArtifacts).where(inArray(portfolioArtifacts.milestoneId, milestoneIds));
+      const milestoneArtifacts = await db
+        .delete(portfolioArtifacts)
+        .where(inArray(portfolioArtifacts.milestoneId, milestoneIds))
+        .returning({ artifactUrl: portfolioArtifacts.artifactUrl });
+      storedObjects.push(...milestoneArtifacts.map((artifact) => artifact.artifactUrl));
       await db.delete(milestones).where(inArray(milestones.id, milestoneIds));
     }
 
@@ -173,6 +189,8 @@ export class ProjectsCoreQueries {
 
     await db.delete(projectAssignments).where(eq(projectAssignments.projectId, id));
     await db.delete(projects).where(eq(projects.id, id));
+
+    return collectStoredObjectPaths(storedObjects);
   }
 
   async createMilestone(milestone: InsertMilestone): Promise<Milestone> {
@@ -207,39 +225,16 @@ export class ProjectsCoreQueries {
     return updatedMilestone;
   }
 
-  async deleteMilestone(id: number): Promise<void> {
-    await db.delete(milestones).where(eq(milestones.id, id));
+  async deleteMilestone(id: number): Promise<string[]> {
+    const deleted = await db
+      .delete(milestones)
+      .where(eq(milestones.id, id))
+      .returning({ deliverableUrl: milestones.deliverableUrl });
+    return collectStoredObjectPaths(deleted.map((milestone) => milestone.deliverableUrl));
   }
 
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
   }
-
-  async incrementProjectGenerationCount(userId: number): Promise<User> {
-    const now = new Date();
-
-    const [updatedUser] = await db
-      .update(users)
-      .set({
-        projectGenerationCount: sql`
-          CASE 
-            WHEN ${users.lastProjectGenerationDate} IS NOT NULL 
-              AND EXTRACT(MONTH FROM ${users.lastProjectGenerationDate}) = EXTRACT(MONTH FROM NOW())
-              AND EXTRACT(YEAR FROM ${users.lastProjectGenerationDate}) = EXTRACT(YEAR FROM NOW())
-            THEN ${users.projectGenerationCount} + 1
-            ELSE 1
-          END
-        `,
-        lastProjectGenerationDate: now,
-      })
-      .where(eq(users.id, userId))
-      .returning();
-
-    if (!updatedUser) {
-      throw new Error("User not found");
-    }
-
-    return updatedUser;
-  }
 }
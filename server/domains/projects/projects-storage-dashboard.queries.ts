@@ -1,5 +1,7 @@
 import {
   assessments,
+  classEnrollments,
+  classes,
   credentials,
   grades,
   milestones,
@@ -9,9 +11,10 @@ import {
   projects,
   submissions,
   users,
+  type User,
 } from "../../../shared/schema";
 import { db } from "../../db";
-import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
 import type {
   TeacherCurrentMilestoneDTO,
   TeacherDashboardStatsDTO,
@@ -49,33 +52,65 @@ export function mergeStudentProjectAssignments(
 }
 
 export class ProjectsDashboardQueries {
-  async getTeacherDashboardStats(teacherId: number): Promise<TeacherDashboardStatsDTO> {
+  /**
+   * Students enrolled in a class from the teacher's school, or undefined when
+   * no class filter was requested. A class from another school yields no students.
+   */
+  private async getClassStudentIds(teacherId: number, classId?: number): Promise<Set<number> | undefined> {
+    if (!classId) {
+      return undefined;
+    }
+    const rows = await db
+      .select({ studentId: classEnrollments.studentId })
+      .from(classEnrollments)
+      .innerJoin(classes, eq(classEnrollments.classId, classes.id))
+      .innerJoin(users, eq(users.id, teacherId))
+      .where(and(eq(classEnrollments.classId, classId), eq(classes.schoolId, users.schoolId)));
+    return new Set(rows.map((row) => row.studentId));
+  }
+
+  async getTeacherDashboardStats(teacherId: number, classId?: number): Promise<TeacherDashboardStatsDTO> {
+    const classStudentIds = await this.getClassStudentIds(teacherId, classId);
     const teacherProjects = await db.select().from(projects).where(eq(projects.teacherId, teacherId));
 
-    const activeProjects = teacherProjects.filter((p) => p.status === "active").length;
+    const allProjectIds = teacherProjects.map((p) => p.id);
+    const studentAssignments = (
+      allProjectIds.length > 0
+        ? await db.select().from(projectAssignments).where(inArray(projectAssignments.projectId, allProjectIds))
+        : []
+    ).filter((a) => !classStudentIds || (a.studentId !== null && classStudentIds.has(a.studentId)));
 
-    const projectIds = teacherProjects.map((p) => p.id);
-    const studentAssignments =
-      projectIds.length > 0
-        ? await db.select().from(projectAssignments).where(inArray(projectAssignments.projectId, projectIds))
-        : [];
+    // With a class filter, only projects that reach the class count
+    const classProjectIds = new Set(studentAssignments.map((a) => a.projectId));
+    const scopedProjects = classStudentIds ? teacherProjects.filter((p) => classProjectIds.has(p.id)) : teacherProjects;
+    const activeProjects = scopedProjects.filter((p) => p.status === "active").length;
+    const projectIds = scopedProjects.map((p) => p.id);
 
     const totalStudents = new Set(studentAssignments.map((a) => a.studentId)).size;
 
-    const pendingSubmissions =
+    const pendingSubmissions = (
       projectIds.length > 0
         ? await db
-            .select()
+            .select({ studentId: submissions.studentId })
             .from(submissions)
             .innerJoin(assessments, eq(submissions.assessmentId, assessments.id))
             .innerJoin(milestones, eq(assessments.milestoneId, milestones.id))
-            .where(and(inArray(milestones.projectId, projectIds), sql`${submissions.gradedAt} IS NULL`))
-        : [];
+            .where(
+              and(
+                inArray(milestones.projectId, projectIds),
+                eq(submissions.isDraft, false),
+                sql`${submissions.gradedAt} IS NULL`,
+              ),
+            )
+        : []
+    ).filter((submission) => !classStudentIds || (submission.studentId !== null && classStudentIds.has(submission.studentId)));
 
-    const credentialsAwarded = await db
-      .select()
-      .from(credentials)
-      .where(eq(credentials.approvedBy, teacherId));
+    const credentialsAwarded = (
+      await db
+        .select({ studentId: credentials.studentId })
+        .from(credentials)
+        .where(and(eq(credentials.approvedBy, teacherId), isNull(credentials.revokedAt)))
+    ).filter((credential) => !classStudentIds || (credential.studentId !== null && classStudentIds.has(credential.studentId)));
 
     return {
       activeProjects,
@@ -86,15 +121,21 @@ export class ProjectsDashboardQueries {
     };
   }
 
-  async getTeacherProjects(teacherId: number): Promise<TeacherProjectOverviewDTO[]> {
+  async getTeacherProjects(teacherId: number, classId?: number): Promise<TeacherProjectOverviewDTO[]> {
+    const classStudentIds = await this.getClassStudentIds(teacherId, classId);
     const teacherProjects = await db.select().from(projects).where(eq(projects.teacherId, teacherId));
 
     const projectOverviews = await Promise.all(
       teacherProjects.map(async (project) => {
-        const assignments = await db
-          .select()
-          .from(projectAssignments)
-          .where(eq(projectAssignments.projectId, project.id));
+        const assignments = (
+          await db
+            .select()
+            .from(projectAssignments)
+            .where(eq(projectAssignments.projectId, project.id))
+        ).filter((a) => !classStudentIds || (a.studentId !== null && classStudentIds.has(a.studentId)));
+        if (classStudentIds && assignments.length === 0) {
+          return null;
+        }
 
         const milestonesList = await db
           .select()
@@ -117,15 +158,16 @@ export class ProjectsDashboardQueries {
       }),
     );
 
-    return projectOverviews;
+    return projectOverviews.flatMap((overview) => (overview ? [overview] : []));
   }
 
-  async getTeacherPendingTasks(teacherId: number): Promise<TeacherPendingTaskDTO[]> {
+  async getTeacherPendingTasks(teacherId: number, classId?: number): Promise<TeacherPendingTaskDTO[]> {
+    const classStudentIds = await this.getClassStudentIds(teacherId, classId);
     const teacherProjects = await db.select().from(projects).where(eq(projects.teacherId, teacherId));
     const projectIds = teacherProjects.map((p) => p.id);
 
     const pendingSubmissions =
-      projectIds.length > 0
+      projectIds.length > 0 && (!classStudentIds || classStudentIds.size > 0)
         ? await db
             .select({
               submissionId: submissions.id,
@@ -139,7 +181,14 @@ export class ProjectsDashboardQueries {
             .innerJoin(milestones, eq(assessments.milestoneId, milestones.id))
             .innerJoin(projects, eq(milestones.projectId, projects.id))
             .innerJoin(users, eq(submissions.studentId, users.id))
-            .where(and(inArray(milestones.projectId, projectIds), sql`${submissions.gradedAt} IS NULL`))
+            .where(
+              and(
+                inArray(milestones.projectId, projectIds),
+                eq(submissions.isDraft, false),
+                sql`${submissions.gradedAt} IS NULL`,
+                classStudentIds ? inArray(submissions.studentId, Array.from(classStudentIds)) : undefined,
+              ),
+            )
             .limit(10)
         : [];
 
@@ -187,112 +236,126 @@ export class ProjectsDashboardQueries {
     }));
   }
 
-  async getSchoolStudentsProgress(teacherId: number): Promise<SchoolStudentProgressRecord[]> {
+  async getSchoolStudentsProgress(teacherId: number, classId?: number): Promise<SchoolStudentProgressRecord[]> {
     const teacher = await db.select().from(users).where(eq(users.id, teacherId)).limit(1);
     if (!teacher.length || !teacher[0].schoolId) {
       throw new Error("Teacher school not found");
     }
 
     const schoolId = teacher[0].schoolId;
+    const classStudentIds = await this.getClassStudentIds(teacherId, classId);
+
+    const students = (
+      await db
+        .select()
+        .from(users)
+        .where(and(eq(users.schoolId, schoolId), eq(users.role, "student")))
+        .orderBy(asc(users.username))
+    ).filter((student) => !classStudentIds || classStudentIds.has(student.id));
+
+    return await Promise.all(students.map((student) => this.buildStudentProgress(student)));
+  }
 
+  /** Students by id with their projects, credentials and grades, in the shape of the school progress view. */
+  async getStudentsProgress(studentIds: number[]): Promise<SchoolStudentProgressRecord[]> {
+    if (studentIds.length === 0) {
+      return [];
+    }
     const students = await db
       .select()
       .from(users)
-      .where(and(eq(users.schoolId, schoolId), eq(users.role, "student")))
+      .where(and(inArray(users.id, studentIds), eq(users.role, "student")))
       .orderBy(asc(users.username));
+    return await Promise.all(students.map((student) => this.buildStudentProgress(student)));
+  }
 
-    const studentsWithProgress = await Promise.all(
-      students.map(async (student) => {
-        try {
-          const directAssignments = await db
-            .select({
-              projectId: projectAssignments.projectId,
-              projectTitle: projects.title,
-              projectDescription: projects.description,
-              projectStatus: projects.status,
-              teacherUsername: users.username,
-            })
-            .from(projectAssignments)
-            .innerJoin(projects, eq(projectAssignments.projectId, projects.id))
-            .innerJoin(users, eq(projects.teacherId, users.id))
-            .where(eq(projectAssignments.studentId, student.id));
-
-          const teamAssignments = await db
-            .select({
-              projectId: projects.id,
-              projectTitle: projects.title,
-              projectDescription: projects.description,
-              projectStatus: projects.status,
-              teacherUsername: users.username,
-            })
-            .from(projectTeamMembers)
-            .innerJoin(projectTeams, eq(projectTeamMembers.teamId, projectTeams.id))
-            .innerJoin(projects, eq(projectTeams.projectId, projects.id))
-            .innerJoin(users, eq(projects.teacherId, users.id))
-            .where(eq(projectTeamMembers.studentId, student.id));
-
-          const processedAssignments = mergeStudentProjectAssignments([
-            ...directAssignments,
-            ...teamAssignments,
-          ]);
-
-          const studentCredentials = await db
-            .select()
-            .from(credentials)
-            .where(eq(credentials.studentId, student.id))
-            .orderBy(desc(credentials.awardedAt));
-
-          const studentGrades = await db
-            .select({
-              componentSkillId: grades.componentSkillId,
-              score: grades.score,
-              gradedAt: grades.gradedAt,
-            })
-            .from(grades)
-            .innerJoin(submissions, eq(grades.submissionId, submissions.id))
-            .where(eq(submissions.studentId, student.id));
-
-          const competencyAverages = studentGrades.map((grade) => ({
-            competencyId: 1,
-            competencyName: "General Progress",
-            componentSkillId: grade.componentSkillId,
-            componentSkillName: `Component Skill ${grade.componentSkillId}`,
-            averageScore: grade.score ? parseFloat(grade.score.toString()) : 0,
-            submissionCount: 1,
-          }));
-
-          return {
-            ...student,
-            projects: processedAssignments,
-            credentials: studentCredentials.map((cred) => ({
-              id: cred.id,
-              title: cred.title,
-              description: cred.description,
-              type: cred.type,
-              awardedAt: cred.awardedAt,
-            })),
-            competencyProgress: competencyAverages,
-            totalCredentials: studentCredentials.length,
-            stickers: studentCredentials.filter((c) => c.type === "sticker").length,
-            badges: studentCredentials.filter((c) => c.type === "badge").length,
-            plaques: studentCredentials.filter((c) => c.type === "plaque").length,
-          };
-        } catch (studentError) {
-          console.error(`Error processing student ${student.id}:`, studentError);
-          return {
-            ...student,
-            projects: [],
-            credentials: [],
-            competencyProgress: [],
-            totalCredentials: 0,
-            stickers: 0,
-            badges: 0,
-            plaques: 0,
-          };
-        }
-      }),
-    );
-
-    return studentsWithProgress;
+  private async buildStudentProgress(student: User): Promise<SchoolStudentProgressRecord> {
+    try {
+      const directAssignments = await db
+        .select({
+          projectId: projectAssignments.projectId,
+          projectTitle: projects.title,
+          projectDescription: projects.description,
+          projectStatus: projects.status,
+          teacherUsername: users.username,
+        })
+        .from(projectAssignments)
+        .innerJoin(projects, eq(projectAssignments.projectId, projects.id))
+        .innerJoin(users, eq(projects.teacherId, users.id))
+        .where(eq(projectAssignments.studentId, student.id));
+
+      const teamAssignments = await db
+        .select({
+          projectId: projects.id,
+          projectTitle: projects.title,
+          projectDescription: projects.description,
+          projectStatus: projects.status,
+          teacherUsername: users.username,
+        })
+        .from(projectTeamMembers)
+        .innerJoin(projectTeams, eq(projectTeamMembers.teamId, projectTeams.id))
+        .innerJoin(projects, eq(projectTeams.projectId, projects.id))
+        .innerJoin(users, eq(projects.teacherId, users.id))
+        .where(eq(projectTeamMembers.studentId, student.id));
+
+      const processedAssignments = mergeStudentProjectAssignments([
+        ...directAssignments,
+        ...teamAssignments,
+      ]);
+
+      const studentCredentials = await db
+        .select()
+        .from(credentials)
+        .where(eq(credentials.studentId, student.id))
+        .orderBy(desc(credentials.awardedAt));
+
+      const studentGrades = await db
+        .select({
+          componentSkillId: grades.componentSkillId,
+          score: grades.score,
+          gradedAt: grades.gradedAt,
+        })
+        .from(grades)
+        .innerJoin(submissions, eq(grades.submissionId, submissions.id))
+        .where(eq(submissions.studentId, student.id));
+
+      const competencyAverages = studentGrades.map((grade) => ({
+        competencyId: 1,
+        competencyName: "General Progress",
+        componentSkillId: grade.componentSkillId,
+        componentSkillName: `Component Skill ${grade.componentSkillId}`,
+        averageScore: grade.score ? parseFloat(grade.score.toString()) : 0,
+        submissionCount: 1,
+      }));
+
+      return {
+        ...student,
+        projects: processedAssignments,
+        credentials: studentCredentials.map((cred) => ({
+          id: cred.id,
+          title: cred.title,
+          description: cred.description,
+          type: cred.type,
+          awardedAt: cred.awardedAt,
+        })),
+        competencyProgress: competencyAverages,
+        totalCredentials: studentCredentials.length,
+        stickers: studentCredentials.filter((c) => c.type === "sticker").length,
+        badges: studentCredentials.filter((c) => c.type === "badge").length,
+        plaques: studentCredentials.filter((c) => c.type === "plaque").length,
+      };
+    } catch (studentError) {
+      console.error(`Error processing student ${student.id}:`, studentError);
+      return {
+        ...student,
+        projects: [],
+        credentials: [],
+        competencyProgress: [],
+        totalCredentials: 0,
+        stickers: 0,
+        badges: 0,
+        plaques: 0,
+      };
+    }
   }
 }
@@ -17,6 +17,7 @@ import type {
   ProjectCreateRequestDTO,
   ComponentSkillWithDetailsDTO,
 } from "../../../shared/contracts/api";
+import { plansService, type IPlansService } from "../plans";
 import { portfolioStorage } from "../portfolio";
 import { assertProjectId, assertTeacherProjectAccess } from "./project-access";
 import { ProjectsAIService } from "./projects-ai.service";
@@ -35,7 +36,10 @@ type IdRecord = { id: number; [key: string]: unknown };
 export class ProjectsService {
   private aiOperations: ProjectsAIService;
 
-  constructor(private storage: IProjectsStorage = projectsStorage) {
+  constructor(
+    private storage: IProjectsStorage = projectsStorage,
+    private plans: IPlansService = plansService,
+  ) {
     this.aiOperations = new ProjectsAIService(
       this.storage,
       this.getAuthorizedProject.bind(this),
@@ -232,7 +236,8 @@ export class ProjectsService {
   async deleteProject(id: number, userId: number, userRole: string): Promise<void> {
     await this.getAuthorizedProject(id, userId, userRole);
 
-    return this.storage.deleteProject(id);
+    const storedObjects = await this.storage.deleteProject(id);
+    await this.releaseStoredObjects(storedObjects);
   }
 
   async startProject(id: number, userId: number, userRole: string): Promise<Project> {
@@ -410,7 +415,15 @@ export class ProjectsService {
     const { project } = await this.getMilestoneWithProjectOrThrow(id);
     this.assertProjectAccess(project, userId, userRole);
 
-    return this.storage.deleteMilestone(id);
+    const storedObjects = await this.storage.deleteMilestone(id);
+    await this.releaseStoredObjects(storedObjects);
+  }
+
+  // The rows are already gone, so a ledger failure is logged rather than failing the delete
+  private async releaseStoredObjects(objectPaths: string[]): Promise<void> {
+    await this.plans.releaseStorageUsage(objectPaths).catch((error) => {
+      console.error("Error releasing storage usage:", error);
+    });
   }
 
   // Team operations
@@ -485,20 +498,6 @@ export class ProjectsService {
     return this.aiOperations.generateProjectIdeas(ideaParams);
   }
 
-  async generateProjectIdeasForUser(
-    userId: number,
-    ideaParams: {
-      subject: string;
-      topic: string;
-      gradeLevel: string;
-      duration: string;
-      componentSkillIds: number[];
-      bestStandardIds?: number[];
-    },
-  ) {
-    return this.aiOperations.generateProjectIdeasForUser(userId, ideaParams);
-  }
-
   async generateProjectThumbnail(
     projectId: number,
     userId: number,
@@ -623,24 +622,28 @@ export class ProjectsService {
   }
 
   // Teacher dashboard methods
-  async getTeacherDashboardStats(teacherId: number) {
-    return await this.storage.getTeacherDashboardStats(teacherId);
+  async getTeacherDashboardStats(teacherId: number, classId?: number) {
+    return await this.storage.getTeacherDashboardStats(teacherId, classId);
   }
 
-  async getTeacherProjects(teacherId: number) {
-    return await this.storage.getTeacherProjects(teacherId);
+  async getTeacherProjects(teacherId: number, classId?: number) {
+    return await this.storage.getTeacherProjects(teacherId, classId);
   }
 
-  async getTeacherPendingTasks(teacherId: number) {
-    return await this.storage.getTeacherPendingTasks(teacherId);
+  async getTeacherPendingTasks(teacherId: number, classId?: number) {
+    return await this.storage.getTeacherPendingTasks(teacherId, classId);
   }
 
   async getTeacherCurrentMilestones(teacherId: number) {
     return await this.storage.getTeacherCurrentMilestones(teacherId);
   }
 
-  async getSchoolStudentsProgress(teacherId: number) {
-    return await this.storage.getSchoolStudentsProgress(teacherId);
+  async getSchoolStudentsProgress(teacherId: number, classId?: number) {
+    return await this.storage.getSchoolStudentsProgress(teacherId, classId);
+  }
+
+  async getStudentsProgress(studentIds: number[]) {
+    return await this.storage.getStudentsProgress(studentIds);
   }
 
   async getUser(id: number): Promise<User | undefined> {
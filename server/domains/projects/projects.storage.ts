@@ -44,13 +44,13 @@ export interface IProjectsStorage {
   getProjectsBySchool(schoolId: number): Promise<Project[]>;
   getProjectsByStudent(studentId: number): Promise<Project[]>;
   updateProject(id: number, updates: Partial<InsertProject>): Promise<Project>;
-  deleteProject(id: number): Promise<void>;
+  deleteProject(id: number): Promise<string[]>;
 
   createMilestone(milestone: InsertMilestone): Promise<Milestone>;
   getMilestone(id: number): Promise<Milestone | undefined>;
   getMilestonesByProject(projectId: number): Promise<Milestone[]>;
   updateMilestone(id: number, updates: Partial<InsertMilestone>): Promise<Milestone>;
-  deleteMilestone(id: number): Promise<void>;
+  deleteMilestone(id: number): Promise<string[]>;
 
   createProjectTeam(team: InsertProjectTeam): Promise<ProjectTeam>;
   getProjectTeams(projectId: number): Promise<ProjectTeam[]>;
@@ -88,17 +88,16 @@ export interface IProjectsStorage {
 
   getAssessmentsByMilestone(milestoneId: number): Promise<Assessment[]>;
 
-  getTeacherDashboardStats(teacherId: number): Promise<TeacherDashboardStatsDTO>;
-  getTeacherProjects(teacherId: number): Promise<TeacherProjectOverviewDTO[]>;
-  getTeacherPendingTasks(teacherId: number): Promise<TeacherPendingTaskDTO[]>;
+  getTeacherDashboardStats(teacherId: number, classId?: number): Promise<TeacherDashboardStatsDTO>;
+  getTeacherProjects(teacherId: number, classId?: number): Promise<TeacherProjectOverviewDTO[]>;
+  getTeacherPendingTasks(teacherId: number, classId?: number): Promise<TeacherPendingTaskDTO[]>;
   getTeacherCurrentMilestones(teacherId: number): Promise<TeacherCurrentMilestoneDTO[]>;
-  getSchoolStudentsProgress(teacherId: number): Promise<SchoolStudentProgressRecord[]>;
+  getSchoolStudentsProgress(teacherId: number, classId?: number): Promise<SchoolStudentProgressRecord[]>;
+  getStudentsProgress(studentIds: number[]): Promise<SchoolStudentProgressRecord[]>;
 
   getPublicProjects(filters?: PublicProjectFilters): Promise<Project[]>;
   toggleProjectVisibility(projectId: number, isPublic: boolean): Promise<Project>;
 
-  incrementProjectGenerationCount(userId: number): Promise<User>;
-
   getStudentCompetencyProgress(studentId: number): Promise<StudentCompetencyProgressRecord[]>;
 }
 
@@ -135,7 +134,7 @@ export class ProjectsStorage implements IProjectsStorage {
     return this.coreQueries.updateProject(id, updates);
   }
 
-  async deleteProject(id: number): Promise<void> {
+  async deleteProject(id: number): Promise<string[]> {
     return this.coreQueries.deleteProject(id);
   }
 
@@ -155,7 +154,7 @@ export class ProjectsStorage implements IProjectsStorage {
     return this.coreQueries.updateMilestone(id, updates);
   }
 
-  async deleteMilestone(id: number): Promise<void> {
+  async deleteMilestone(id: number): Promise<string[]> {
     return this.coreQueries.deleteMilestone(id);
   }
 
@@ -247,24 +246,28 @@ export class ProjectsStorage implements IProjectsStorage {
     return this.competencyQueries.getAssessmentsByMilestone(milestoneId);
   }
 
-  async getTeacherDashboardStats(teacherId: number): Promise<TeacherDashboardStatsDTO> {
-    return this.dashboardQueries.getTeacherDashboardStats(teacherId);
+  async getTeacherDashboardStats(teacherId: number, classId?: number): Promise<TeacherDashboardStatsDTO> {
+    return this.dashboardQueries.getTeacherDashboardStats(teacherId, classId);
   }
 
-  async getTeacherProjects(teacherId: number): Promise<TeacherProjectOverviewDTO[]> {
-    return this.dashboardQueries.getTeacherProjects(teacherId);
+  async getTeacherProjects(teacherId: number, classId?: number): Promise<TeacherProjectOverviewDTO[]> {
+    return this.dashboardQueries.getTeacherProjects(teacherId, classId);
   }
 
-  async getTeacherPendingTasks(teacherId: number): Promise<TeacherPendingTaskDTO[]> {
-    return this.dashboardQueries.getTeacherPendingTasks(teacherId);
+  async getTeacherPendingTasks(teacherId: number, classId?: number): Promise<TeacherPendingTaskDTO[]> {
+    return this.dashboardQueries.getTeacherPendingTasks(teacherId, classId);
   }
 
   async getTeacherCurrentMilestones(teacherId: number): Promise<TeacherCurrentMilestoneDTO[]> {
     return this.dashboardQueries.getTeacherCurrentMilestones(teacherId);
   }
 
-  async getSchoolStudentsProgress(teacherId: number): Promise<SchoolStudentProgressRecord[]> {
-    return this.dashboardQueries.getSchoolStudentsProgress(teacherId);
+  async getSchoolStudentsProgress(teacherId: number, classId?: number): Promise<SchoolStudentProgressRecord[]> {
+    return this.dashboardQueries.getSchoolStudentsProgress(teacherId, classId);
+  }
+
+  async getStudentsProgress(studentIds: number[]): Promise<SchoolStudentProgressRecord[]> {
+    return this.dashboardQueries.getStudentsProgress(studentIds);
   }
 
   async getPublicProjects(filters?: PublicProjectFilters): Promise<Project[]> {
@@ -275,10 +278,6 @@ export class ProjectsStorage implements IProjectsStorage {
     return this.publicQueries.toggleProjectVisibility(projectId, isPublic);
   }
 
-  async incrementProjectGenerationCount(userId: number): Promise<User> {
-    return this.coreQueries.incrementProjectGenerationCount(userId);
-  }
-
   async getStudentCompetencyProgress(studentId: number): Promise<StudentCompetencyProgressRecord[]> {
     return this.competencyQueries.getStudentCompetencyProgress(studentId);
   }
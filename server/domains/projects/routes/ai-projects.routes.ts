@@ -1,5 +1,6 @@
 import { Router, type Response } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
+import { meterUsage } from "../../plans";
 import { aiLimiter } from "../../../middleware/security";
 import { validateIdParam } from "../../../middleware/routeValidation";
 import { UserRole } from "../../../../shared/schema";
@@ -53,7 +54,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
     return true;
   };
 
-  router.post('/generate-ideas', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), aiLimiter, async (req: AuthenticatedRequest, res) => {
+  router.post('/generate-ideas', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), aiLimiter, meterUsage("ai_generation"), async (req: AuthenticatedRequest, res) => {
     try {
       const { subject, topic, gradeLevel, duration, componentSkillIds, bestStandardIds } = req.body;
 
@@ -77,7 +78,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
         return sendErrorResponse(res, { message: "Invalid B.E.S.T. standard IDs format", statusCode: 400 });
       }
 
-      const result = await projectsService.generateProjectIdeasForUser(req.user!.id, {
+      const result = await projectsService.generateProjectIdeas({
         subject,
         topic,
         gradeLevel,
@@ -89,14 +90,6 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
       createSuccessResponse(res, result);
     } catch (error) {
       console.error("Error generating project ideas:", error);
-      if (error instanceof Error && error.message.includes("Free tier limit reached")) {
-        return sendErrorResponse(res, {
-          message: error.message,
-          statusCode: 403,
-          error: "Forbidden",
-          details: { limitReached: true },
-        });
-      }
       if (error instanceof Error && error.message.includes("No valid component skills")) {
         return sendErrorResponse(res, { message: error.message, statusCode: 400 });
       }
@@ -148,7 +141,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
     });
   }));
 
-  router.post('/:id/generate-thumbnail', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIdParam('id'), aiLimiter, async (req: AuthenticatedRequest, res) => {
+  router.post('/:id/generate-thumbnail', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), validateIdParam('id'), aiLimiter, meterUsage("thumbnail"), async (req: AuthenticatedRequest, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const userId = req.user!.id;
@@ -188,7 +181,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
     }
   });
 
-  router.post('/generate-thumbnail-preview', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), aiLimiter, async (req: AuthenticatedRequest, res) => {
+  router.post('/generate-thumbnail-preview', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), aiLimiter, meterUsage("thumbnail"), async (req: AuthenticatedRequest, res) => {
     try {
       const parseResult = thumbnailPreviewSchema.safeParse(req.body);
       if (!parseResult.success) {
@@ -213,7 +206,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
     }
   });
 
-  router.post('/:id/generate-milestones', requireAuth, validateIdParam('id'), aiLimiter, async (req: AuthenticatedRequest, res) => {
+  router.post('/:id/generate-milestones', requireAuth, validateIdParam('id'), aiLimiter, meterUsage("ai_generation"), async (req: AuthenticatedRequest, res) => {
     try {
       const userId = req.user!.id;
       const userRole = req.user!.role;
@@ -256,7 +249,7 @@ export function registerProjectAIRoutes(router: Router, projectsService: Project
     }
   });
 
-  router.post('/:id/generate-milestones-and-assessments', requireAuth, async (req: AuthenticatedRequest, res) => {
+  router.post('/:id/generate-milestones-and-assessments', requireAuth, meterUsage("ai_generation"), async (req: AuthenticatedRequest, res) => {
     try {
       const userId = req.user!.id;
       const userRole = req.user!.role;
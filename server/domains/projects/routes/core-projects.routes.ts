@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
+import { meterUsage } from "../../plans";
+import { auditContext, auditService } from "../../audit";
 import { createSuccessResponse, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
 import { validateIdParam } from "../../../middleware/routeValidation";
 import { checkProjectAccess } from "../../../middleware/resourceAccess";
@@ -34,7 +36,7 @@ export function registerProjectCoreRoutes(router: Router, projectsService: Proje
     createSuccessResponse(res, updatedProject);
   }));
 
-  router.post('/', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), wrapRoute(async (req: AuthenticatedRequest, res) => {
+  router.post('/', requireAuth, requireRole(UserRole.TEACHER, UserRole.ADMIN), meterUsage("project"), wrapRoute(async (req: AuthenticatedRequest, res) => {
     const userId = req.user!.id;
     const payload: ProjectCreateRequestDTO = req.body;
 
@@ -111,7 +113,13 @@ export function registerProjectCoreRoutes(router: Router, projectsService: Proje
     const userId = req.user!.id;
     const userRole = req.user!.role;
 
+    const project = await projectsService.getProject(projectId);
     await projectsService.deleteProject(projectId, userId, userRole);
+    await auditService.record(auditContext(req), {
+      action: "project.delete",
+      target: { type: "project", id: projectId, label: project?.title },
+      before: project ? { title: project.title, status: project.status, teacherId: project.teacherId } : null,
+    });
     createSuccessResponse(res, { message: "Project deleted successfully" });
   }));
 
@@ -4,6 +4,7 @@ import { validateIdParam } from "../../../middleware/routeValidation";
 import { createSuccessResponse, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
 import type { ProjectsService } from "../projects.service";
 import { UserRole } from "../../../../shared/schema";
+import { stripAnswerKeys } from "../../../../shared/question-types";
 
 async function canUserAccessProject(
   projectsService: ProjectsService,
@@ -126,7 +127,10 @@ export function createProjectWorkflowRouters(projectsService: ProjectsService) {
     }
 
     const assessments = await projectsService.getAssessmentsByMilestone(milestoneId);
-    createSuccessResponse(res, assessments);
+    createSuccessResponse(
+      res,
+      req.user!.role === UserRole.STUDENT ? assessments.map((assessment) => stripAnswerKeys(assessment)) : assessments,
+    );
   }));
 
   milestonesRouter.get('/:id', requireAuth, validateIdParam('id'), wrapRoute(async (req: AuthenticatedRequest, res) => {
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
-import { createSuccessResponse, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
+import { createSuccessResponse, parseOptionalIntQuery, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
 import { UserRole } from "../../../../shared/schema";
 import type { ProjectsService } from "../projects.service";
 
@@ -41,7 +41,7 @@ schoolsRouter.get('/students-progress', requireAuth, requireRole(UserRole.TEACHE
 
   const teacherId = req.user!.id;
 
-  const studentsProgress = await projectsService.getSchoolStudentsProgress(teacherId);
+  const studentsProgress = await projectsService.getSchoolStudentsProgress(teacherId, parseOptionalIntQuery(req.query.classId));
   createSuccessResponse(res, studentsProgress);
 }));
 
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { requireAuth, requireRole, type AuthenticatedRequest } from "../../auth";
-import { createSuccessResponse, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
+import { createSuccessResponse, parseOptionalIntQuery, sendErrorResponse, wrapRoute } from "../../../utils/routeHelpers";
 import { UserRole } from "../../../../shared/schema";
 import type { ProjectsService } from "../projects.service";
 
@@ -14,7 +14,7 @@ teacherRouter.get('/dashboard-stats', requireAuth, requireRole(UserRole.TEACHER,
 
   const teacherId = req.user!.id;
 
-  const stats = await projectsService.getTeacherDashboardStats(teacherId);
+  const stats = await projectsService.getTeacherDashboardStats(teacherId, parseOptionalIntQuery(req.query.classId));
   createSuccessResponse(res, stats);
 }));
 
@@ -25,7 +25,7 @@ teacherRouter.get('/projects', requireAuth, requireRole(UserRole.TEACHER, UserRo
 
   const teacherId = req.user!.id;
 
-  const projects = await projectsService.getTeacherProjects(teacherId);
+  const projects = await projectsService.getTeacherProjects(teacherId, parseOptionalIntQuery(req.query.classId));
   createSuccessResponse(res, projects);
 }));
 
@@ -36,7 +36,7 @@ teacherRouter.get('/pending-tasks', requireAuth, requireRole(UserRole.TEACHER, U
 
   const teacherId = req.user!.id;
 
-  const tasks = await projectsService.getTeacherPendingTasks(teacherId);
+  const tasks = await projectsService.getTeacherPendingTasks(teacherId, parseOptionalIntQuery(req.query.classId));
   createSuccessResponse(res, tasks);
 }));
 
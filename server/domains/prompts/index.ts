@@ -0,0 +1,18 @@
+// Export controller and router
+export { promptRouter, PromptController } from './prompts.controller';
+
+// Export service
+export { promptService, PromptService, type IPromptService } from './prompts.service';
+export {
+  buildPromptRequest,
+  builtInPrompt,
+  builtInPromptResolver,
+  pinnedPromptResolver,
+  promptVersionLabel,
+  type PromptResolver,
+  type ResolvedPrompt,
+} from './prompt-resolver';
+export { DEFAULT_PROMPTS, type PromptTemplate } from './prompt-defaults';
+
+// Export storage
+export { promptStorage, type IPromptStorage } from './prompts.storage';
@@ -0,0 +1,561 @@
+import type { PromptKey } from "../../../shared/prompts";
+
+export interface PromptTemplate {
+  // Empty when the prompt is sent as a single user message
+  systemPrompt: string;
+  userTemplate: string;
+}
+
+/**
+ * The prompts the platform shipped with. They are version 1 of every prompt,
+ * used until an admin saves and activates a newer version.
+ */
+export const DEFAULT_PROMPTS: Record<PromptKey, PromptTemplate> = {
+  project_ideas: {
+    systemPrompt:
+      "You are an expert in project-based learning and curriculum design. Generate creative, engaging, and pedagogically sound project ideas that align with modern educational standards and XQ competency framework practices.",
+    userTemplate: `Generate 3 creative and engaging project-based learning ideas based on the following criteria:
+
+Subject: {{subject}}
+Topic/Theme: {{topic}}
+Grade Level: {{gradeLevel}}
+Duration: {{duration}}
+
+Target Component Skills:
+{{componentSkills}}
+
+Target B.E.S.T. Standards:
+{{standards}}
+
+For each project idea, provide:
+1. Title - An engaging and descriptive project title
+2. Overview - A brief 1-2 sentence summary
+3. Description - A detailed description of the project (2-3 paragraphs)
+4. Suggested Milestones - 3-5 key milestones with titles, descriptions, and estimated durations
+5. Assessment Suggestions - 2-3 different types of assessments that would work well
+6. Required Resources - List of materials, tools, or resources needed
+7. Learning Outcomes - Specific skills and knowledge students will gain
+8. Competency Alignment - How this project develops the selected component skills
+
+Make the projects authentic, relevant to students' lives, and designed to develop both subject knowledge and the specified component skills. If B.E.S.T. standards are provided, ensure milestones and outcomes clearly align to those benchmarks. Ensure they are appropriate for the specified grade level and can realistically be completed in the given timeframe.
+
+Return the response as a JSON array of project objects with the following structure:
+{
+  "title": "string",
+  "overview": "string",
+  "description": "string",
+  "suggestedMilestones": [
+    {
+      "title": "string",
+      "description": "string",
+      "estimatedDuration": "string"
+    }
+  ],
+  "assessmentSuggestions": [
+    {
+      "type": "string",
+      "description": "string"
+    }
+  ],
+  "requiredResources": ["string"],
+  "learningOutcomes": ["string"],
+  "competencyAlignment": ["string"]
+}`,
+  },
+
+  project_milestones: {
+    systemPrompt:
+      "You are an expert in project-based learning and milestone planning. Create well-structured, achievable milestones that guide student progress.",
+    userTemplate: `Generate 4-6 meaningful project milestones for the following project:
+
+Title: {{title}}
+Description: {{description}}
+Grade Level: {{gradeLevel}}
+Duration: {{duration}}
+
+Create milestones that:
+1. Break the project into logical phases
+2. Build upon each other progressively
+3. Are appropriate for the grade level and duration
+4. Include clear deliverables and checkpoints
+5. Are spaced appropriately throughout the project timeline
+
+For each milestone, provide:
+- Title: A clear, engaging milestone title
+- Description: 2-3 sentences explaining what students will accomplish
+- DueDate: When this milestone should be completed (relative to project start)
+- Order: The sequence number (1, 2, 3, etc.)
+
+Return as JSON array with this structure:
+[
+  {
+    "title": "string",
+    "description": "string",
+    "dueDate": "YYYY-MM-DD or relative date like '2 weeks'",
+    "order": 1
+  }
+]`,
+  },
+
+  skill_milestones: {
+    systemPrompt:
+      "You are an expert in competency-based education and project milestone design. Create milestones that systematically develop component skills through authentic project work.",
+    userTemplate: `Generate 3-5 meaningful project milestones that will develop the specified component skills:
+
+Project Title: {{projectTitle}}
+Project Description: {{projectDescription}}
+Project Due Date: {{projectDueDate}}
+
+Target Component Skills:
+{{componentSkills}}
+
+Create milestones that:
+1. Systematically develop each component skill
+2. Build progressively toward the final project goal
+3. Include authentic assessments and deliverables
+4. Are spaced appropriately throughout the project timeline
+5. Connect learning to real-world applications
+
+For each milestone, provide:
+- Title: A clear, engaging milestone title that reflects the skill focus
+- Description: 2-3 sentences explaining what students will accomplish and how it develops the targeted skills
+- DueDate: When this milestone should be completed (as a date string)
+- Order: The sequence number (1, 2, 3, etc.)
+
+Return as JSON with this structure:
+{
+  "milestones": [
+    {
+      "title": "string",
+      "description": "string",
+      "dueDate": "YYYY-MM-DD",
+      "order": 1
+    }
+  ]
+}`,
+  },
+
+  milestone_assessment: {
+    systemPrompt:
+      "You are an expert in educational assessment design. Create fair, comprehensive assessments that accurately measure student learning and skill development.",
+    userTemplate: `Generate a comprehensive assessment for the following project milestone:
+
+Milestone Title: {{title}}
+Milestone Description: {{description}}
+Due Date: {{dueDate}}
+
+Create an assessment that:
+1. Evaluates student understanding and skill development
+2. Includes a variety of question types
+3. Is appropriate for the milestone's learning objectives
+4. Provides opportunities for students to demonstrate mastery
+5. Includes clear rubric criteria for each question
+
+Generate 5-8 assessment questions with a mix of:
+- Open-ended questions for deep thinking
+- Short-answer questions for specific knowledge
+- Multiple-choice questions for foundational understanding
+
+For each question, provide:
+- ID: A unique identifier
+- Text: The question text
+- Type: 'open-ended', 'multiple-choice', or 'short-answer'
+- RubricCriteria: How to evaluate the response
+- SampleAnswer: An example of a good response
+
+Return as JSON with this structure:
+{
+  "title": "Assessment Title",
+  "description": "Brief description of what this assessment evaluates",
+  "questions": [
+    {
+      "id": "q1",
+      "text": "Question text here",
+      "type": "open-ended",
+      "rubricCriteria": "Evaluation criteria",
+      "sampleAnswer": "Example answer"
+    }
+  ]
+}`,
+  },
+
+  skill_assessment: {
+    systemPrompt:
+      "You are an expert in competency-based assessment and XQ framework implementation. Create assessments that authentically measure component skill development and mastery.",
+    userTemplate: `Generate a comprehensive competency-based assessment for the following milestone:
+
+Milestone Title: {{milestoneTitle}}
+Milestone Description: {{milestoneDescription}}
+Due Date: {{milestoneDueDate}}
+{{referenceDocument}}
+TARGET COMPONENT SKILLS TO ASSESS:
+{{componentSkills}}
+
+RELATED B.E.S.T. STANDARDS:
+{{standards}}
+
+ASSESSMENT REQUIREMENTS:
+1. Create EXACTLY {{questionCount}} questions total
+2. Use these question types and counts: {{questionTypes}}
+3. Questions should collectively assess the component skills listed above
+4. Use authentic, performance-based scenarios relevant to real-world application
+5. Rubric criteria must directly reference the skill's rubric levels (Emerging → Developing → Proficient → Applying)
+6. Questions should enable students to demonstrate mastery through varied approaches
+7. Each question should specify which component skill(s) it primarily assesses
+8. Ensure questions align to the listed B.E.S.T. standards where relevant and cite alignment in rubric criteria when possible
+
+QUESTION DESIGN PRINCIPLES:
+- Open-ended questions: Complex scenarios requiring skill application and analysis
+- Short-answer questions: Focused demonstration of specific skill competency
+- Multiple-choice questions: Assessment of foundational skill understanding with 4 answer choices
+
+Return as JSON with this exact structure:
+{
+  "title": "{{milestoneTitle}} - Component Skills Assessment",
+  "description": "This assessment systematically evaluates selected component skills through authentic performance tasks aligned to the XQ competency framework.",
+  "questions": [
+    {
+      "id": "q1",
+      "text": "Specific question text here",
+      "type": "open-ended",
+      "rubricCriteria": "Evaluation criteria explicitly referencing Emerging/Developing/Proficient/Applying levels",
+      "sampleAnswer": "Example response demonstrating Proficient level competency",
+      "componentSkillFocus": ["Component Skill Name"],
+      "choices": null
+    }
+  ]
+}
+
+For multiple-choice questions, include a "choices" array with 4 options and specify the correct answer in "sampleAnswer".`,
+  },
+
+  assessment_questions: {
+    systemPrompt:
+      "You are an expert in educational assessment design. Create engaging, pedagogically sound questions. Ensure all required fields, especially 'correctAnswer' for multiple-choice questions, are present and valid in the JSON output.",
+    userTemplate: `Generate 5-7 educational assessment questions for this learning milestone:
+
+Milestone: {{milestoneDescription}}
+Learning Objectives: {{learningObjectives}}
+Difficulty Level: {{difficulty}}
+
+Create a mix of question types:
+- 2-3 open-ended questions for deep thinking
+- 2-3 short-answer questions for specific concepts
+- 1-2 multiple-choice questions with 4 answer options each
+- For multiple-choice questions, provide exactly 4 answer choices in a "choices" array
+- Include a "correctAnswer" field that matches one of the choices exactly
+- The correctAnswer field is REQUIRED for all multiple-choice questions
+
+Each question should include:
+- Question text (string)
+- Type (string: "open-ended", "short-answer", "multiple-choice")
+- Rubric criteria for grading (string)
+- Sample answer (string, for open-ended and short-answer)
+- Choices (array of strings, for multiple-choice questions only)
+- Correct answer (string, for multiple-choice questions only)
+
+Return as JSON array of question objects. Ensure the JSON is valid and follows the specified structure.
+Example JSON structure:
+[
+  {
+    "text": "What is the capital of France?",
+    "type": "multiple-choice",
+    "rubricCriteria": "Correctly identify the capital city.",
+    "choices": ["Berlin", "Madrid", "Paris", "Rome"],
+    "correctAnswer": "Paris"
+  },
+  {
+    "text": "Explain the process of photosynthesis.",
+    "type": "open-ended",
+    "rubricCriteria": "Describe the key steps and components of photosynthesis.",
+    "sampleAnswer": "Photosynthesis is the process plants use to convert light energy into chemical energy..."
+  }
+]`,
+  },
+
+  student_feedback: {
+    systemPrompt: "You are an expert educator providing personalized, constructive feedback to students.",
+    userTemplate: `You are an expert educator providing personalized feedback to a student.
+Based on the submission and grades, provide constructive, encouraging feedback that:
+
+1. Acknowledges strengths and achievements
+2. Identifies specific areas for improvement
+3. Provides actionable next steps
+4. Maintains a positive, growth-oriented tone
+5. Connects to the learning objectives
+
+Student Responses: {{responses}}
+Grades Summary:
+{{grades}}
+
+Provide feedback that is:
+- Specific and detailed
+- Constructive and encouraging
+- Focused on learning growth
+- Approximately 100-200 words`,
+  },
+
+  component_skill_grade: {
+    systemPrompt:
+      "You are an expert in competency-based assessment and the XQ Framework. Provide accurate, fair evaluations of student component skill development.",
+    userTemplate: `You are an expert educator evaluating a student's component skill development. Analyze the student's submission to determine their current level for this specific component skill.
+
+Component Skill: {{skillName}}
+Skill Description: {{skillDescription}}
+Competency Area: {{competencyName}}
+Learning Outcome: {{learnerOutcomeName}}
+
+Assessment Questions and Student Responses:
+{{questionResponses}}
+{{referenceDocument}}
+Evaluate the student's performance on this component skill using the XQ Framework rubric levels:
+
+1. EMERGING (Score 1): Student shows initial awareness and attempts at the skill but needs significant support and guidance. Work demonstrates basic understanding but limited application.
+
+2. DEVELOPING (Score 2): Student demonstrates growing competence with the skill. Can apply it with some support and guidance. Shows understanding of core concepts but application may be inconsistent.
+
+3. PROFICIENT (Score 3): Student demonstrates solid competence with the skill. Can apply it independently in familiar contexts. Shows clear understanding and consistent application.
+
+4. APPLYING (Score 4): Student demonstrates advanced competence with the skill. Can apply it independently in new and complex contexts. Shows deep understanding and can transfer the skill to novel situations.
+
+Question types: "ranking" answers list items in the student's chosen order, "matching" answers pair each prompt with the student's choice, "numeric" answers are checked against the expected value and tolerance, and "file-upload" answers reference a file you cannot open. Use the provided checks for objective questions rather than re-deriving them.
+
+Based on the student's responses, determine:
+1. The appropriate rubric level (emerging, developing, proficient, or applying)
+2. Specific evidence from their responses that supports this level
+3. Constructive feedback for continued growth in this skill
+
+Respond in JSON format:
+{
+  "rubricLevel": "emerging|developing|proficient|applying",
+  "feedback": "Specific feedback about their skill demonstration and growth areas",
+  "score": 1|2|3|4
+}`,
+  },
+
+  question_grade: {
+    systemPrompt:
+      "You are an expert educator with extensive experience in assessment and grading. Provide fair, consistent, and educationally sound grades.",
+    userTemplate: `You are an expert educator grading a student's response to a specific question. Analyze the quality, accuracy, and depth of the student's answer.
+
+QUESTION: {{question}}
+
+STUDENT ANSWER: {{answer}}
+
+RUBRIC CRITERIA: {{rubricCriteria}}
+
+SAMPLE/IDEAL ANSWER: {{sampleAnswer}}
+{{referenceDocument}}
+
+Grade this response on a scale of 0-100 based on:
+1. Accuracy and correctness of information
+2. Completeness of the response
+3. Depth of understanding demonstrated
+4. Clarity and organization of thoughts
+5. Use of relevant examples or evidence
+6. Alignment with rubric criteria
+
+Consider:
+- A score of 90-100: Exceptional understanding, complete and accurate
+- A score of 80-89: Strong understanding, mostly complete and accurate
+- A score of 70-79: Good understanding, adequate response with minor gaps
+- A score of 60-69: Basic understanding, partially complete or some inaccuracies
+- A score of 50-59: Limited understanding, significant gaps or errors
+- A score of 0-49: Poor understanding, incorrect or insufficient response
+
+Respond with JSON in this format:
+{
+  "score": 85,
+  "rationale": "Brief explanation of the grade (1-2 sentences)"
+}`,
+  },
+
+  question_feedback: {
+    systemPrompt: "",
+    userTemplate: `You are an expert teacher grading a student's answer.
+Question: {{question}}
+Student's Answer: {{answer}}
+Rubric Level: {{rubricLevel}}
+
+Please provide constructive, encouraging feedback tailored to the student's answer
+and the expected rubric level. Limit your feedback to 2-3 sentences.`,
+  },
+
+  credential_suggestions: {
+    systemPrompt: "You are an expert educator designing meaningful micro-credentials for student achievements.",
+    userTemplate: `Based on this student's performance, suggest appropriate micro-credentials they have earned:
+
+Project: {{projectTitle}}
+Student Performance:
+{{grades}}
+
+Responses: {{responses}}
+
+Suggest 1-3 micro-credentials this student has demonstrated based on their work. Only suggest credentials for skills where they show proficient or applying level performance.
+
+For each credential, provide:
+- Type: Choose from 'badge', 'certificate', 'sticker', 'medal'
+- Title: A specific, meaningful credential name
+- Description: What achievement this recognizes (1-2 sentences)
+
+Return as JSON:
+{
+  "credentials": [
+    {
+      "type": "sticker",
+      "title": "Credential title",
+      "description": "Brief description of what this recognizes"
+    }
+  ]
+}`,
+  },
+
+  self_evaluation_feedback: {
+    systemPrompt:
+      "You are a safety-aware educational AI assistant. Always prioritize student safety and provide constructive learning guidance.",
+    userTemplate: `You are an AI tutor helping students improve their competency in "{{skillName}}".
+
+ASSESSMENT CONTEXT (TEACHER DESCRIPTION):
+{{assessmentDescription}}
+
+RUBRIC LEVELS:
+{{rubricLevels}}
+
+STUDENT SELF-EVALUATION:
+- Self-assessed level: {{selfAssessedLevel}}
+- Justification: {{justification}}
+- Examples provided: {{examples}}
+
+IMPORTANT SAFETY CHECK:
+First, analyze the student's response for any concerning content including:
+- References to homicide, murder, or harming others
+- Suicidal ideation or self-harm
+- Violence or threats
+- Inappropriate or dangerous content
+
+If ANY concerning content is detected, immediately flag it and do not provide educational feedback.
+
+TASKS:
+1. Safety Analysis: Check for risky content (yes/no)
+2. Educational Feedback: If safe, provide specific, actionable guidance aligned to the teacher's assessment description and rubric expectations to help the student progress from their current level to "applying" (the highest level)
+
+Respond in JSON format:
+{
+  "hasRiskyContent": boolean,
+  "riskType": "string or null",
+  "confidence": number (0-1),
+  "improvementFeedback": "string with specific recommendations for reaching mastery level"
+}`,
+  },
+
+  tutor_response: {
+    systemPrompt:
+      "You are a safety-aware educational AI tutor. Always prioritize student safety and provide constructive learning guidance.",
+    userTemplate: `You are an AI tutor helping a student develop their competency in "{{skillName}}".
+
+COMPONENT SKILL: {{skillName}}
+CURRENT LEVEL: {{currentLevel}}
+ASSESSMENT CONTEXT (TEACHER DESCRIPTION): {{assessmentDescription}}
+ASSESSMENT MATERIAL CONTEXT (TEACHER PDF): {{assessmentPdfContext}}
+{{finalTurnNote}}
+
+RUBRIC LEVELS:
+{{rubricLevels}}
+
+Previous conversation:
+{{history}}
+
+LATEST STUDENT RESPONSE TO CRITIQUE:
+{{latestStudentMessage}}
+
+RECENT TUTOR RESPONSES (DO NOT REPEAT THESE PHRASES):
+{{recentTutorMessages}}
+
+IMPORTANT SAFETY CHECK:
+First, analyze the student's messages for any concerning content including:
+- References to homicide, murder, or harming others
+- Suicidal ideation or self-harm
+- Violence or threats
+- Inappropriate or dangerous content
+
+If ANY concerning content is detected, immediately flag it and provide a safety response.
+
+TASKS:
+1. Safety Analysis: Check for risky content
+2. Educational Response: Provide detailed, constructive critique of the latest student response and align all feedback to the teacher's assessment description, teacher-provided PDF material context, and rubric.
+3. Suggested Evaluation: Suggest their current level based on evidence in the conversation.
+4. Continue/Terminate: Determine if the conversation should continue
+5. Summary: If this is the 3rd student response, provide a comprehensive summary and concluding statement. Do not ask a follow-up question.
+
+RUBRIC CALIBRATION RULES (CRITICAL):
+- If a student claims "proficient" or "applying", require concrete evidence, not general statements.
+- "proficient" should show consistent independent performance with specific context and outcomes.
+- "applying" should show transfer to complex/novel situations and impact on others (for example mentoring peers, leading, or adapting strategy).
+- If evidence does not meet the claimed level, explicitly and respectfully say the evidence currently fits a lower level, explain why, and state what evidence would justify moving up.
+
+RESPONSE STYLE (BALANCED + DETAILED):
+- Maintain a balanced tone: supportive but direct.
+- Avoid repeating wording from recent tutor responses.
+- The "response" field must include these exact section headers in this order:
+  1) Strengths
+  2) Constructive Critique
+  3) How to Improve Next Submission
+  4) Suggested Next Evidence
+- In "Constructive Critique" include at least 2 concrete gaps tied to rubric language.
+- In "How to Improve Next Submission" include specific, actionable steps the student can do in their next response.
+- If not final turn, end with exactly one targeted follow-up question.
+- If final turn, end with a concise summary and no follow-up question.
+
+Respond in JSON format:
+{
+  "response": "Your helpful educational response",
+  "suggestedEvaluation": {
+    "selfAssessedLevel": "emerging|developing|proficient|applying",
+    "confidence": 0.8
+  },
+  "shouldTerminate": false,
+  "safetyFlag": null
+}
+
+If safety concerns are detected:
+{
+  "response": "I'm concerned about what you've shared. Please talk to a trusted adult or counselor.",
+  "safetyFlag": "homicidal_ideation|suicidal_ideation|inappropriate_language",
+  "shouldTerminate": true
+}`,
+  },
+
+  tutor_misconceptions: {
+    systemPrompt:
+      "You are an instructional coach who reads student conversations with an AI tutor and reports patterns a teacher can act on. Never name or quote students by name.",
+    userTemplate: `Below are {{sessionCount}} conversations between students and an AI tutor about the component skill "{{skillName}}".
+
+RUBRIC LEVELS:
+{{rubricLevels}}
+
+CONVERSATIONS:
+{{conversations}}
+
+Identify the most common misconceptions or gaps in understanding that students showed about this skill. Only include a misconception if it appears in the student messages, not just in the tutor's critique. List at most 5, most common first.
+
+For each misconception give:
+- "misconception": one sentence describing the misunderstanding
+- "sessionCount": how many of the conversations show it
+- "example": a short paraphrase of what a student said that shows it, without names
+- "suggestion": one sentence on how the teacher could address it in class
+
+Respond in JSON format:
+{
+  "misconceptions": [
+    {
+      "misconception": "Treats collaboration as dividing up the work",
+      "sessionCount": 4,
+      "example": "A student described each member doing their own slide without discussing it",
+      "suggestion": "Model a group discussion where members build on each other's ideas"
+    }
+  ]
+}
+
+If the conversations show no clear misconceptions, respond with {"misconceptions": []}.`,
+  },
+};
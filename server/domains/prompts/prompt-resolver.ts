@@ -0,0 +1,59 @@
+import type { LlmCompletionRequest } from "../../integrations/llm";
+import {
+  PROMPT_DEFINITIONS,
+  formatPromptVersion,
+  renderPromptTemplate,
+  type PromptKey,
+} from "../../../shared/prompts";
+import { DEFAULT_PROMPTS, type PromptTemplate } from "./prompt-defaults";
+
+export interface ResolvedPrompt extends PromptTemplate {
+  key: PromptKey;
+  version: number;
+}
+
+/** Where the AI services get the prompt to use for each call. */
+export interface PromptResolver {
+  resolve(key: PromptKey): Promise<ResolvedPrompt>;
+}
+
+export function builtInPrompt(key: PromptKey): ResolvedPrompt {
+  return { key, version: 1, ...DEFAULT_PROMPTS[key] };
+}
+
+export const builtInPromptResolver: PromptResolver = {
+  resolve: async (key) => builtInPrompt(key),
+};
+
+/** Always answers with the given versions, e.g. to replay a fixture set through a candidate prompt. */
+export function pinnedPromptResolver(
+  pins: Partial<Record<PromptKey, ResolvedPrompt>>,
+  fallback: PromptResolver = builtInPromptResolver,
+): PromptResolver {
+  return {
+    resolve: async (key) => pins[key] ?? fallback.resolve(key),
+  };
+}
+
+/**
+ * The feature, messages and prompt stamp for a completion request; the caller
+ * adds sampling options. Without a system prompt the template is sent alone.
+ */
+export function buildPromptRequest(
+  prompt: ResolvedPrompt,
+  variables: Record<string, string | number>,
+): Pick<LlmCompletionRequest, "feature" | "messages" | "prompt"> {
+  const userContent = renderPromptTemplate(prompt.userTemplate, variables);
+  const systemContent = renderPromptTemplate(prompt.systemPrompt, variables);
+  return {
+    feature: PROMPT_DEFINITIONS[prompt.key].feature,
+    messages: systemContent.trim()
+      ? [{ role: "system", content: systemContent }, { role: "user", content: userContent }]
+      : [{ role: "user", content: userContent }],
+    prompt: { key: prompt.key, version: prompt.version },
+  };
+}
+
+export function promptVersionLabel(prompt: ResolvedPrompt): string {
+  return formatPromptVersion(prompt.key, prompt.version);
+}
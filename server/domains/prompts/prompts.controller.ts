@@ -0,0 +1,111 @@
+import { Router, type NextFunction, type Response } from "express";
+import { promptService, type IPromptService } from "./prompts.service";
+import { requireAuth, requireRole, type AuthenticatedRequest } from "../auth";
+import { auditContext, auditService, type IAuditService } from "../audit";
+import { ValidationError } from "../../utils/errorTypes";
+import { createSuccessResponse, handleAuthorizationError, sendDomainError } from "../../utils/routeHelpers";
+import { PROMPT_DEFINITIONS, type PromptKey } from "../../../shared/prompts";
+import { UserRole } from "../../../shared/schema";
+
+// Comma-separated usernames from PLATFORM_OPERATORS
+function parsePlatformOperators(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((username) => username.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function parseVersion(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError("Invalid prompt version");
+  }
+  return version;
+}
+
+// Versions are audited by number, which is only unique within a prompt, so the label names both
+function promptTarget(key: string, version: number) {
+  const label = PROMPT_DEFINITIONS[key as PromptKey]?.label ?? key;
+  return { type: "prompt_version" as const, id: version, label: `${label} v${version}` };
+}
+
+export class PromptController {
+  constructor(
+    private service: IPromptService = promptService,
+    private auditLog: Pick<IAuditService, "record"> = auditService,
+    private platformOperators: string[] = parsePlatformOperators(process.env.PLATFORM_OPERATORS),
+  ) {}
+
+  private isPlatformOperator(req: AuthenticatedRequest): boolean {
+    return this.platformOperators.includes(req.user!.username.toLowerCase());
+  }
+
+  // Create Express router with the prompt registry routes. Prompts are shared by every
+  // school, so school admins can read them but only platform operators can change them.
+  createRouter(): Router {
+    const router = Router();
+    router.use(requireAuth, requireRole(UserRole.ADMIN));
+    const operatorOnly = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      if (!this.isPlatformOperator(req)) {
+        return handleAuthorizationError(res, "Only platform operators can change prompts");
+      }
+      next();
+    };
+
+    router.get("/", async (_req: AuthenticatedRequest, res) => {
+      try {
+        createSuccessResponse(res, await this.service.listPrompts());
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch prompts");
+      }
+    });
+
+    router.get("/:key", async (req: AuthenticatedRequest, res) => {
+      try {
+        const prompt = await this.service.getPrompt(req.params.key);
+        createSuccessResponse(res, { ...prompt, canEdit: this.isPlatformOperator(req) });
+      } catch (error) {
+        sendDomainError(res, error, "Failed to fetch prompt");
+      }
+    });
+
+    // Saves a new version; `activate` also makes it the one AI features use
+    router.post("/:key/versions", operatorOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const created = await this.service.createVersion(req.params.key, req.body, req.user!.id);
+        await this.auditLog.record(auditContext(req), {
+          action: "prompt.create_version",
+          target: promptTarget(req.params.key, created.version),
+          after: { notes: created.notes, active: created.isActive },
+        });
+        if (created.isActive) {
+          await this.auditLog.record(auditContext(req), {
+            action: "prompt.activate",
+            target: promptTarget(req.params.key, created.version),
+          });
+        }
+        createSuccessResponse(res, created, "Prompt version saved");
+      } catch (error) {
+        sendDomainError(res, error, "Failed to save prompt version");
+      }
+    });
+
+    router.post("/:key/versions/:version/activate", operatorOnly, async (req: AuthenticatedRequest, res) => {
+      try {
+        const activated = await this.service.activateVersion(req.params.key, parseVersion(req.params.version));
+        await this.auditLog.record(auditContext(req), {
+          action: "prompt.activate",
+          target: promptTarget(req.params.key, activated.version),
+        });
+        createSuccessResponse(res, activated, "Prompt version activated");
+      } catch (error) {
+        sendDomainError(res, error, "Failed to activate prompt version");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const promptController = new PromptController();
+export const promptRouter = promptController.createRouter();
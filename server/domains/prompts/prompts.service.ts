@@ -0,0 +1,180 @@
+import { promptStorage, type IPromptStorage } from "./prompts.storage";
+import { DEFAULT_PROMPTS } from "./prompt-defaults";
+import { builtInPrompt, type PromptResolver, type ResolvedPrompt } from "./prompt-resolver";
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  findUnknownPromptVariables,
+  isPromptKey,
+  promptVersionCreateSchema,
+  type PromptKey,
+} from "../../../shared/prompts";
+import type {
+  PromptDetailDTO,
+  PromptSummaryDTO,
+  PromptVersionDTO,
+} from "../../../shared/contracts/api";
+import type { PromptVersion } from "../../../shared/schema";
+import { NotFoundError, ValidationError } from "../../utils/errorTypes";
+
+// Other server instances pick up an activation within this long
+const ACTIVE_PROMPT_CACHE_MS = 60_000;
+
+export interface IPromptService extends PromptResolver {
+  listPrompts(): Promise<PromptSummaryDTO[]>;
+  getPrompt(key: string): Promise<Omit<PromptDetailDTO, "canEdit">>;
+  getVersion(key: string, version: number): Promise<ResolvedPrompt>;
+  createVersion(key: string, body: unknown, userId: number): Promise<PromptVersionDTO>;
+  activateVersion(key: string, version: number): Promise<PromptVersionDTO>;
+}
+
+export function parsePromptKey(key: string): PromptKey {
+  if (!isPromptKey(key)) {
+    throw new NotFoundError("Prompt", key);
+  }
+  return key;
+}
+
+function toVersionDTO(row: PromptVersion): PromptVersionDTO {
+  return {
+    version: row.version,
+    systemPrompt: row.systemPrompt,
+    userTemplate: row.userTemplate,
+    notes: row.notes,
+    isActive: row.isActive,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    activatedAt: row.activatedAt,
+  };
+}
+
+function toResolvedPrompt(row: PromptVersion): ResolvedPrompt {
+  return { key: row.key, version: row.version, systemPrompt: row.systemPrompt, userTemplate: row.userTemplate };
+}
+
+// Stands in for the version 1 row until a key's first edit stores it
+function builtInVersionDTO(key: PromptKey): PromptVersionDTO {
+  return {
+    version: 1,
+    ...DEFAULT_PROMPTS[key],
+    notes: "Built-in prompt",
+    isActive: true,
+    createdBy: null,
+    createdAt: null,
+    activatedAt: null,
+  };
+}
+
+function toSummary(key: PromptKey, versions: PromptVersionDTO[]): PromptSummaryDTO {
+  const active = versions.find((version) => version.isActive) ?? builtInVersionDTO(key);
+  const { label, description, feature } = PROMPT_DEFINITIONS[key];
+  return {
+    key,
+    label,
+    description,
+    feature,
+    activeVersion: active.version,
+    latestVersion: Math.max(1, ...versions.map((version) => version.version)),
+    activatedAt: active.activatedAt,
+  };
+}
+
+export class PromptService implements IPromptService {
+  private activeCache: { expiresAt: number; prompts: Map<PromptKey, PromptVersion> } | null = null;
+
+  constructor(private storage: IPromptStorage = promptStorage) {}
+
+  // A registry outage falls back to the built-in prompts rather than failing AI features
+  async resolve(key: PromptKey): Promise<ResolvedPrompt> {
+    try {
+      const active = (await this.getActivePrompts()).get(key);
+      return active ? toResolvedPrompt(active) : builtInPrompt(key);
+    } catch (error) {
+      console.error(`Error loading active prompt ${key}; using the built-in version:`, error);
+      return builtInPrompt(key);
+    }
+  }
+
+  async listPrompts(): Promise<PromptSummaryDTO[]> {
+    const [active, latest] = await Promise.all([
+      this.storage.getActiveVersions(),
+      this.storage.getLatestVersionNumbers(),
+    ]);
+    return PROMPT_KEYS.map((key) => ({
+      ...toSummary(key, active.filter((row) => row.key === key).map(toVersionDTO)),
+      latestVersion: latest.get(key) ?? 1,
+    }));
+  }
+
+  async getPrompt(key: string): Promise<Omit<PromptDetailDTO, "canEdit">> {
+    const promptKey = parsePromptKey(key);
+    const rows = await this.storage.listVersions(promptKey);
+    const versions = rows.length > 0 ? rows.map(toVersionDTO) : [builtInVersionDTO(promptKey)];
+    return {
+      ...toSummary(promptKey, versions),
+      variables: [...PROMPT_DEFINITIONS[promptKey].variables],
+      versions,
+    };
+  }
+
+  async getVersion(key: string, version: number): Promise<ResolvedPrompt> {
+    const promptKey = parsePromptKey(key);
+    const row = await this.storage.getVersion(promptKey, version);
+    if (row) {
+      return toResolvedPrompt(row);
+    }
+    if (version === 1) {
+      return builtInPrompt(promptKey);
+    }
+    throw new NotFoundError(`Version ${version} of prompt ${promptKey}`);
+  }
+
+  async createVersion(key: string, body: unknown, userId: number): Promise<PromptVersionDTO> {
+    const promptKey = parsePromptKey(key);
+    const parsed = promptVersionCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid prompt version");
+    }
+    const { systemPrompt, userTemplate, notes, activate } = parsed.data;
+    const unknownNames = findUnknownPromptVariables(promptKey, `${systemPrompt}\n${userTemplate}`);
+    if (unknownNames.length > 0) {
+      throw new ValidationError(`Unknown placeholders: ${unknownNames.map((name) => `{{${name}}}`).join(", ")}`);
+    }
+
+    const created = await this.storage.createVersion(promptKey, DEFAULT_PROMPTS[promptKey], {
+      systemPrompt,
+      userTemplate,
+      notes: notes || null,
+      createdBy: userId,
+    });
+    // The first edit also stores the built-in version as the active row
+    this.activeCache = null;
+    return activate ? this.activateVersion(promptKey, created.version) : toVersionDTO(created);
+  }
+
+  async activateVersion(key: string, version: number): Promise<PromptVersionDTO> {
+    const promptKey = parsePromptKey(key);
+    const activated = await this.storage.activateVersion(promptKey, version);
+    if (!activated) {
+      // Activating version 1 of an unedited prompt changes nothing
+      if (version === 1 && (await this.storage.listVersions(promptKey)).length === 0) {
+        return builtInVersionDTO(promptKey);
+      }
+      throw new NotFoundError(`Version ${version} of prompt ${promptKey}`);
+    }
+    this.activeCache = null;
+    return toVersionDTO(activated);
+  }
+
+  private async getActivePrompts(): Promise<Map<PromptKey, PromptVersion>> {
+    if (this.activeCache && this.activeCache.expiresAt > Date.now()) {
+      return this.activeCache.prompts;
+    }
+    const rows = await this.storage.getActiveVersions();
+    const prompts = new Map(rows.map((row) => [row.key, row]));
+    this.activeCache = { expiresAt: Date.now() + ACTIVE_PROMPT_CACHE_MS, prompts };
+    return prompts;
+  }
+}
+
+export const promptService = new PromptService();
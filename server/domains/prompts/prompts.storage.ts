@@ -0,0 +1,101 @@
+import { and, desc, eq, max } from "drizzle-orm";
+import { db } from "../../db";
+import { promptVersions, type PromptVersion } from "../../../shared/schema";
+import type { PromptKey } from "../../../shared/prompts";
+import type { PromptTemplate } from "./prompt-defaults";
+
+export interface NewPromptVersion extends PromptTemplate {
+  notes: string | null;
+  createdBy: number | null;
+}
+
+export interface IPromptStorage {
+  listVersions(key: PromptKey): Promise<PromptVersion[]>;
+  getVersion(key: PromptKey, version: number): Promise<PromptVersion | undefined>;
+  getActiveVersions(): Promise<PromptVersion[]>;
+  getLatestVersionNumbers(): Promise<Map<PromptKey, number>>;
+  createVersion(key: PromptKey, builtIn: PromptTemplate, version: NewPromptVersion): Promise<PromptVersion>;
+  activateVersion(key: PromptKey, version: number): Promise<PromptVersion | undefined>;
+}
+
+export class PromptStorage implements IPromptStorage {
+  async listVersions(key: PromptKey): Promise<PromptVersion[]> {
+    return db.select().from(promptVersions).where(eq(promptVersions.key, key)).orderBy(desc(promptVersions.version));
+  }
+
+  async getVersion(key: PromptKey, version: number): Promise<PromptVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(promptVersions)
+      .where(and(eq(promptVersions.key, key), eq(promptVersions.version, version)));
+    return row;
+  }
+
+  async getActiveVersions(): Promise<PromptVersion[]> {
+    return db.select().from(promptVersions).where(eq(promptVersions.isActive, true));
+  }
+
+  async getLatestVersionNumbers(): Promise<Map<PromptKey, number>> {
+    const rows = await db
+      .select({ key: promptVersions.key, version: max(promptVersions.version) })
+      .from(promptVersions)
+      .groupBy(promptVersions.key);
+    return new Map(rows.map((row) => [row.key, row.version ?? 1]));
+  }
+
+  // The first saved version also stores the built-in one as version 1, so it can be reactivated later
+  async createVersion(key: PromptKey, builtIn: PromptTemplate, version: NewPromptVersion): Promise<PromptVersion> {
+    return db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ version: promptVersions.version })
+        .from(promptVersions)
+        .where(eq(promptVersions.key, key))
+        .orderBy(desc(promptVersions.version))
+        .limit(1);
+
+      let nextVersion = (existing[0]?.version ?? 0) + 1;
+      if (existing.length === 0) {
+        await tx.insert(promptVersions).values({
+          key,
+          version: 1,
+          ...builtIn,
+          notes: "Built-in prompt",
+          isActive: true,
+          activatedAt: new Date(),
+        });
+        nextVersion = 2;
+      }
+
+      const [created] = await tx
+        .insert(promptVersions)
+        .values({ key, version: nextVersion, ...version })
+        .returning();
+      return created;
+    });
+  }
+
+  async activateVersion(key: PromptKey, version: number): Promise<PromptVersion | undefined> {
+    return db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ id: promptVersions.id })
+        .from(promptVersions)
+        .where(and(eq(promptVersions.key, key), eq(promptVersions.version, version)));
+      if (!target) {
+        return undefined;
+      }
+
+      await tx
+        .update(promptVersions)
+        .set({ isActive: false })
+        .where(and(eq(promptVersions.key, key), eq(promptVersions.isActive, true)));
+      const [activated] = await tx
+        .update(promptVersions)
+        .set({ isActive: true, activatedAt: new Date() })
+        .where(eq(promptVersions.id, target.id))
+        .returning();
+      return activated;
+    });
+  }
+}
+
+export const promptStorage = new PromptStorage();
@@ -0,0 +1,8 @@
+// Export controller and router
+export { rosterRouter, RosterController } from './roster.controller';
+
+// Export service
+export { rosterService, type IRosterService } from './roster.service';
+
+// Export storage
+export { rosterStorage, type IRosterStorage } from './roster.storage';
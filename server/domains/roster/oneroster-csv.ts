@@ -0,0 +1,312 @@
+import { inflateRawSync } from "zlib";
+import { parse } from "csv-parse/sync";
+import { gradeLevelEnum, type GradeLevel } from "../../../shared/schema";
+import {
+  ONEROSTER_FILES,
+  type OneRosterBundle,
+  type OneRosterFileName,
+  type RosterClass,
+  type RosterEnrollment,
+  type RosterIssue,
+  type RosterOrg,
+  type RosterRole,
+  type RosterUser,
+} from "../../../shared/oneroster";
+
+const MAX_UNZIPPED_FILE_BYTES = 50 * 1024 * 1024;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+const ROLE_MAP: Record<string, RosterRole> = {
+  student: "student",
+  teacher: "teacher",
+  aide: "teacher",
+  proctor: "teacher",
+  administrator: "admin",
+  siteadministrator: "admin",
+};
+
+type CsvRow = Record<string, string>;
+
+export class RosterBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RosterBundleError";
+    Object.setPrototypeOf(this, RosterBundleError.prototype);
+  }
+}
+
+export function oneRosterFileName(path: string): OneRosterFileName | null {
+  const baseName = path.split(/[\\/]/).pop()?.toLowerCase() ?? "";
+  return ONEROSTER_FILES.find((file) => file.toLowerCase() === baseName) ?? null;
+}
+
+/**
+ * Extracts the OneRoster CSVs from a zip bundle. Only stored and deflated
+ * entries are supported, which covers what SIS exports produce.
+ */
+export function readOneRosterZip(buffer: Buffer): Map<OneRosterFileName, string> {
+  let endOfDirectory = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOfDirectory = offset;
+      break;
+    }
+  }
+  if (endOfDirectory < 0) {
+    throw new RosterBundleError("The upload is not a zip archive");
+  }
+
+  const files = new Map<OneRosterFileName, string>();
+  const entryCount = buffer.readUInt16LE(endOfDirectory + 10);
+  let offset = buffer.readUInt32LE(endOfDirectory + 16);
+
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new RosterBundleError("The zip archive is corrupt");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const fileName = oneRosterFileName(name);
+    if (!fileName || files.has(fileName)) {
+      continue;
+    }
+
+    if (localHeader + 30 > buffer.length) {
+      throw new RosterBundleError("The zip archive is corrupt");
+    }
+    const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(fileName, data.toString("utf8"));
+    } else if (method === 8) {
+      try {
+        files.set(fileName, inflateRawSync(data, { maxOutputLength: MAX_UNZIPPED_FILE_BYTES }).toString("utf8"));
+      } catch {
+        throw new RosterBundleError(`${fileName} could not be decompressed or is larger than 50 MB`);
+      }
+    } else {
+      throw new RosterBundleError(`${fileName} uses an unsupported zip compression method`);
+    }
+  }
+
+  return files;
+}
+
+function parseCsv(file: OneRosterFileName, text: string): Array<{ row: CsvRow; line: number }> {
+  try {
+    const records = parse(text, {
+      columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      relax_column_count: true,
+      info: true,
+    }) as Array<{ record: CsvRow; info: { lines: number } }>;
+    return records.map(({ record, info }) => ({ row: record, line: info.lines }));
+  } catch (error) {
+    // A half-read file would look like missing records, so the whole upload is rejected
+    throw new RosterBundleError(`Could not read ${file}: ${error instanceof Error ? error.message : "invalid CSV"}`);
+  }
+}
+
+function value(row: CsvRow, column: string): string | null {
+  const cell = row[column.toLowerCase()];
+  return cell ? cell : null;
+}
+
+function list(row: CsvRow, column: string): string[] {
+  return (value(row, column) ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// Blank status is an active record in bulk files; delta files mark removals with "tobedeleted"
+function isActive(row: CsvRow): boolean {
+  return value(row, "status")?.toLowerCase() !== "tobedeleted";
+}
+
+export function normalizeRosterGrade(grades: string[]): GradeLevel | null {
+  for (const grade of grades) {
+    const normalized = grade.toUpperCase() === "KG" ? "K" : /^\d{1,2}$/.test(grade) ? String(Number(grade)) : grade;
+    if ((gradeLevelEnum as readonly string[]).includes(normalized)) {
+      return normalized as GradeLevel;
+    }
+  }
+  return null;
+}
+
+function sourcedRows(
+  file: OneRosterFileName,
+  text: string | undefined,
+  issues: RosterIssue[],
+): Array<{ row: CsvRow; line: number; sourcedId: string }> {
+  if (text === undefined) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const rows: Array<{ row: CsvRow; line: number; sourcedId: string }> = [];
+  for (const { row, line } of parseCsv(file, text)) {
+    const sourcedId = value(row, "sourcedId");
+    if (!sourcedId) {
+      issues.push({ file, line, sourcedId: null, severity: "error", message: "Row has no sourcedId" });
+      continue;
+    }
+    if (seen.has(sourcedId)) {
+      issues.push({ file, line, sourcedId, severity: "error", message: "Duplicate sourcedId; only the first row is used" });
+      continue;
+    }
+    seen.add(sourcedId);
+    rows.push({ row, line, sourcedId });
+  }
+  return rows;
+}
+
+// A file left out of the bundle removes nothing, whatever the manifest says
+function readModes(files: Map<OneRosterFileName, string>): OneRosterBundle["modes"] {
+  const modes: OneRosterBundle["modes"] = {
+    users: "bulk",
+    classes: files.has("classes.csv") ? "bulk" : "delta",
+    enrollments: files.has("enrollments.csv") ? "bulk" : "delta",
+  };
+  const manifest = files.get("manifest.csv");
+  if (manifest === undefined) {
+    return modes;
+  }
+  for (const { row } of parseCsv("manifest.csv", manifest)) {
+    const property = value(row, "propertyName")?.toLowerCase();
+    const mode = value(row, "value")?.toLowerCase();
+    for (const key of Object.keys(modes) as Array<keyof typeof modes>) {
+      if (property === `file.${key}` && mode === "delta") {
+        modes[key] = "delta";
+      }
+    }
+  }
+  return modes;
+}
+
+/**
+ * Parses a OneRoster bundle into the records the import uses. Both 1.1 style
+ * users.csv (role and orgSourcedIds columns) and 1.2 roles.csv are accepted.
+ * Problems with rows are collected as issues rather than thrown so one bad
+ * row doesn't block the rest of the roster.
+ */
+export function parseOneRosterBundle(files: Map<OneRosterFileName, string>): OneRosterBundle {
+  // Without these an import would read as "everyone left", so refuse it outright
+  const missing = (["orgs.csv", "users.csv"] as const).filter((required) => !files.has(required));
+  if (missing.length > 0) {
+    throw new RosterBundleError(`${missing.join(" and ")} ${missing.length === 1 ? "is" : "are"} missing from the bundle`);
+  }
+
+  const issues: RosterIssue[] = [];
+
+  const orgs: RosterOrg[] = sourcedRows("orgs.csv", files.get("orgs.csv"), issues)
+    .filter(({ row }) => isActive(row))
+    .map(({ row, sourcedId }) => ({
+      sourcedId,
+      name: value(row, "name") ?? sourcedId,
+      type: value(row, "type")?.toLowerCase() ?? "school",
+      identifier: value(row, "identifier"),
+    }));
+
+  // 1.2 moved roles into roles.csv; a primary role wins over a secondary one in the same org
+  const rolesByUser = new Map<string, Array<{ org: string; role: string; primary: boolean }>>();
+  if (files.has("roles.csv")) {
+    for (const { row, line } of parseCsv("roles.csv", files.get("roles.csv")!)) {
+      const userSourcedId = value(row, "userSourcedId");
+      const org = value(row, "orgSourcedId");
+      const role = value(row, "role");
+      if (!userSourcedId || !org || !role || !isActive(row)) {
+        if (isActive(row)) {
+          issues.push({ file: "roles.csv", line, sourcedId: value(row, "sourcedId"), severity: "warning", message: "Role row is missing userSourcedId, orgSourcedId or role" });
+        }
+        continue;
+      }
+      const roles = rolesByUser.get(userSourcedId) ?? [];
+      roles.push({ org, role, primary: value(row, "roleType")?.toLowerCase() === "primary" });
+      rolesByUser.set(userSourcedId, roles);
+    }
+  }
+
+  const users: RosterUser[] = sourcedRows("users.csv", files.get("users.csv"), issues).map(({ row, line, sourcedId }) => {
+    const rawRoles =
+      rolesByUser.get(sourcedId) ??
+      list(row, "orgSourcedIds").map((org) => ({ org, role: value(row, "role") ?? "", primary: true }));
+    const roles: Record<string, RosterRole> = {};
+    let unsupportedRole: string | null = null;
+    for (const { org, role, primary } of [...rawRoles].sort((a, b) => Number(a.primary) - Number(b.primary))) {
+      const mapped = ROLE_MAP[role.toLowerCase()];
+      if (mapped) {
+        roles[org] = mapped;
+      } else if (primary || !unsupportedRole) {
+        unsupportedRole = role || "none";
+      }
+    }
+
+    return {
+      sourcedId,
+      line,
+      active: isActive(row) && value(row, "enabledUser")?.toLowerCase() !== "false",
+      username: value(row, "username"),
+      email: value(row, "email")?.toLowerCase() ?? null,
+      givenName: value(row, "preferredGivenName") ?? value(row, "givenName"),
+      familyName: value(row, "preferredFamilyName") ?? value(row, "familyName"),
+      grade: normalizeRosterGrade(list(row, "grades")),
+      roles,
+      unsupportedRole: Object.keys(roles).length > 0 ? null : unsupportedRole,
+    };
+  });
+
+  const termTitles = new Map(
+    sourcedRows("academicSessions.csv", files.get("academicSessions.csv"), issues).map(({ row, sourcedId }) => [
+      sourcedId,
+      value(row, "title") ?? sourcedId,
+    ]),
+  );
+
+  const classes: RosterClass[] = [];
+  for (const { row, line, sourcedId } of sourcedRows("classes.csv", files.get("classes.csv"), issues)) {
+    const schoolSourcedId = value(row, "schoolSourcedId");
+    if (!schoolSourcedId) {
+      issues.push({ file: "classes.csv", line, sourcedId, severity: "error", message: "Class has no schoolSourcedId" });
+      continue;
+    }
+    const terms = list(row, "termSourcedIds").map((term) => termTitles.get(term) ?? term);
+    classes.push({
+      sourcedId,
+      line,
+      active: isActive(row),
+      title: value(row, "title") ?? value(row, "classCode") ?? sourcedId,
+      classCode: value(row, "classCode"),
+      schoolSourcedId,
+      period: list(row, "periods").join(", ") || null,
+      term: terms.join(", ") || null,
+    });
+  }
+
+  const enrollments: RosterEnrollment[] = [];
+  for (const { row, line, sourcedId } of sourcedRows("enrollments.csv", files.get("enrollments.csv"), issues)) {
+    const classSourcedId = value(row, "classSourcedId");
+    const userSourcedId = value(row, "userSourcedId");
+    if (!classSourcedId || !userSourcedId) {
+      issues.push({ file: "enrollments.csv", line, sourcedId, severity: "error", message: "Enrollment is missing classSourcedId or userSourcedId" });
+      continue;
+    }
+    enrollments.push({
+      sourcedId,
+      line,
+      active: isActive(row),
+      classSourcedId,
+      userSourcedId,
+      role: value(row, "role")?.toLowerCase() ?? "student",
+      primary: value(row, "primary")?.toLowerCase() === "true",
+    });
+  }
+
+  return { orgs, users, classes, enrollments, modes: readModes(files), issues };
+}
@@ -0,0 +1,421 @@
+import type { GradeLevel, SchoolClass, User } from "../../../shared/schema";
+import type {
+  OneRosterBundle,
+  RosterImportSummary,
+  RosterIssue,
+  RosterOrg,
+  RosterRole,
+  RosterUser,
+} from "../../../shared/oneroster";
+
+export type ExistingRosterUser = Pick<
+  User,
+  "id" | "username" | "email" | "firstName" | "lastName" | "role" | "grade" | "rosterSourcedId" | "deactivatedAt"
+>;
+
+export type ExistingRosterClass = Pick<
+  SchoolClass,
+  "id" | "name" | "teacherId" | "classCode" | "period" | "term" | "rosterSourcedId" | "archivedAt"
+>;
+
+export interface ExistingRosterState {
+  school: { id: number; name: string; rosterSourcedId: string | null };
+  users: ExistingRosterUser[];
+  // Lowercased usernames that belong to users outside this school
+  takenUsernames: string[];
+  classes: ExistingRosterClass[];
+  enrollments: Array<{ classId: number; studentId: number }>;
+}
+
+export interface RosterUserFields {
+  username: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: RosterRole;
+  grade: GradeLevel | null;
+}
+
+export interface PlannedUserUpdate {
+  id: number;
+  sourcedId: string;
+  username: string;
+  changes: Partial<RosterUserFields> & { rosterSourcedId?: string; reactivate?: true };
+  changedFields: string[];
+}
+
+export interface PlannedClassFields {
+  name: string;
+  classCode: string | null;
+  period: string | null;
+  term: string | null;
+}
+
+export interface PlannedClassUpdate {
+  id: number;
+  sourcedId: string;
+  name: string;
+  changes: Partial<PlannedClassFields> & { unarchive?: true };
+  // Undefined leaves the teacher as is; null clears it
+  teacherSourcedId?: string | null;
+  changedFields: string[];
+}
+
+export interface RosterImportPlan {
+  org: RosterOrg | null;
+  linkSchool: boolean;
+  users: {
+    create: Array<{ sourcedId: string; fields: RosterUserFields }>;
+    update: PlannedUserUpdate[];
+    deactivate: Array<{ id: number; sourcedId: string | null; username: string }>;
+    unchanged: number;
+  };
+  classes: {
+    create: Array<{ sourcedId: string; fields: PlannedClassFields; teacherSourcedId: string | null }>;
+    update: PlannedClassUpdate[];
+    archive: Array<{ id: number; sourcedId: string | null; name: string }>;
+    unchanged: number;
+  };
+  enrollments: {
+    add: Array<{ classSourcedId: string; userSourcedId: string }>;
+    remove: Array<{ classId: number; studentId: number }>;
+  };
+  issues: RosterIssue[];
+}
+
+const ROLE_LABELS: Record<RosterRole, string> = { student: "student", teacher: "teacher", admin: "admin" };
+
+function pickOrg(
+  bundle: OneRosterBundle,
+  school: ExistingRosterState["school"],
+  orgSourcedId: string | undefined,
+): RosterOrg | string {
+  const schoolOrgs = bundle.orgs.filter((org) => org.type === "school");
+  if (orgSourcedId) {
+    return bundle.orgs.find((org) => org.sourcedId === orgSourcedId) ?? `Org ${orgSourcedId} is not in orgs.csv`;
+  }
+  const match =
+    bundle.orgs.find((org) => org.sourcedId === school.rosterSourcedId) ??
+    schoolOrgs.find((org) => org.name.trim().toLowerCase() === school.name.trim().toLowerCase()) ??
+    (schoolOrgs.length === 1 ? schoolOrgs[0] : undefined);
+  return match ?? "Choose which org in orgs.csv is this school";
+}
+
+function rosterUserFields(user: RosterUser, role: RosterRole): RosterUserFields {
+  return {
+    username: (user.username ?? user.email)!.trim(),
+    email: user.email,
+    firstName: user.givenName,
+    lastName: user.familyName,
+    role,
+    grade: role === "student" ? user.grade : null,
+  };
+}
+
+function userIssue(user: RosterUser, severity: RosterIssue["severity"], message: string): RosterIssue {
+  return { file: "users.csv", line: user.line, sourcedId: user.sourcedId, severity, message };
+}
+
+/**
+ * Compares a parsed bundle with the school's current users, classes and
+ * enrollments and lists the writes needed to match it. Existing users are
+ * matched by sourcedId, then by username or email for accounts created before
+ * the first import, so running the same bundle again plans no changes. The
+ * acting admin is never demoted or deactivated.
+ */
+export function planRosterImport(
+  bundle: OneRosterBundle,
+  existing: ExistingRosterState,
+  options: { orgSourcedId?: string; actingUserId: number },
+): RosterImportPlan {
+  const issues: RosterIssue[] = [...bundle.issues];
+  const plan: RosterImportPlan = {
+    org: null,
+    linkSchool: false,
+    users: { create: [], update: [], deactivate: [], unchanged: 0 },
+    classes: { create: [], update: [], archive: [], unchanged: 0 },
+    enrollments: { add: [], remove: [] },
+    issues,
+  };
+
+  const org = pickOrg(bundle, existing.school, options.orgSourcedId);
+  if (typeof org === "string") {
+    issues.push({ file: "orgs.csv", line: null, sourcedId: null, severity: "error", message: org });
+    return plan;
+  }
+  plan.org = org;
+  plan.linkSchool = existing.school.rosterSourcedId !== org.sourcedId;
+
+  // Users
+  const bySourcedId = new Map(existing.users.filter((user) => user.rosterSourcedId).map((user) => [user.rosterSourcedId!, user]));
+  const unlinked = existing.users.filter((user) => !user.rosterSourcedId);
+  const takenUsernames = new Set(existing.takenUsernames);
+  const claimedUsernames = new Map<string, string>();
+  const importedUsers = new Map<string, { role: RosterRole; existingId: number | null; active: boolean }>();
+  const matchedIds = new Set<number>();
+
+  for (const user of bundle.users) {
+    const role = user.roles[org.sourcedId];
+    if (!role) {
+      if (user.unsupportedRole && Object.keys(user.roles).length === 0) {
+        issues.push(userIssue(user, "warning", `Role "${user.unsupportedRole}" is not supported; user skipped`));
+      }
+      continue;
+    }
+    if (!user.username && !user.email) {
+      issues.push(userIssue(user, "error", "User has neither a username nor an email"));
+      continue;
+    }
+
+    const fields = rosterUserFields(user, role);
+    const usernameKey = fields.username.toLowerCase();
+    const match =
+      bySourcedId.get(user.sourcedId) ??
+      unlinked.find((candidate) => !matchedIds.has(candidate.id) && candidate.username.toLowerCase() === usernameKey) ??
+      (fields.email
+        ? unlinked.find((candidate) => !matchedIds.has(candidate.id) && candidate.email?.toLowerCase() === fields.email)
+        : undefined);
+
+    const holder = claimedUsernames.get(usernameKey);
+    const heldByOtherSchoolUser =
+      takenUsernames.has(usernameKey) ||
+      existing.users.some((candidate) => candidate.id !== match?.id && candidate.username.toLowerCase() === usernameKey);
+    if (holder || (heldByOtherSchoolUser && !(match && match.username.toLowerCase() === usernameKey))) {
+      issues.push(userIssue(user, "error", `Username ${fields.username} is already used by ${holder ? `user ${holder} in this file` : "another account"}`));
+      continue;
+    }
+    claimedUsernames.set(usernameKey, user.sourcedId);
+
+    if (!match) {
+      if (user.active) {
+        plan.users.create.push({ sourcedId: user.sourcedId, fields });
+        importedUsers.set(user.sourcedId, { role, existingId: null, active: true });
+      }
+      continue;
+    }
+
+    matchedIds.add(match.id);
+    importedUsers.set(user.sourcedId, { role, existingId: match.id, active: user.active });
+    if (!user.active) {
+      if (!match.deactivatedAt && match.id !== options.actingUserId) {
+        plan.users.deactivate.push({ id: match.id, sourcedId: user.sourcedId, username: match.username });
+      } else {
+        plan.users.unchanged++;
+      }
+      continue;
+    }
+
+    const update: PlannedUserUpdate = { id: match.id, sourcedId: user.sourcedId, username: match.username, changes: {}, changedFields: [] };
+    const setField = <K extends keyof RosterUserFields>(key: K, next: RosterUserFields[K], current: unknown) => {
+      if ((current ?? null) !== next) {
+        update.changes[key] = next;
+        update.changedFields.push(key);
+      }
+    };
+    setField("username", fields.username, match.username);
+    setField("email", fields.email, match.email?.toLowerCase() ?? null);
+    setField("firstName", fields.firstName, match.firstName);
+    setField("lastName", fields.lastName, match.lastName);
+    if (match.role === "admin" && role !== "admin") {
+      issues.push(userIssue(user, "warning", `Roster lists ${match.username} as a ${ROLE_LABELS[role]}; admin accounts keep their role`));
+    } else {
+      setField("role", role, match.role);
+    }
+    if (role === "student") {
+      setField("grade", fields.grade, match.grade);
+    }
+    if (match.rosterSourcedId !== user.sourcedId) {
+      update.changes.rosterSourcedId = user.sourcedId;
+      update.changedFields.push("linked to roster");
+    }
+    if (match.deactivatedAt) {
+      update.changes.reactivate = true;
+      update.changedFields.push("reactivated");
+    }
+
+    if (update.changedFields.length > 0) {
+      plan.users.update.push(update);
+    } else {
+      plan.users.unchanged++;
+    }
+  }
+
+  if (bundle.modes.users === "bulk") {
+    for (const user of existing.users) {
+      if (user.rosterSourcedId && !matchedIds.has(user.id) && !user.deactivatedAt && user.id !== options.actingUserId) {
+        plan.users.deactivate.push({ id: user.id, sourcedId: user.rosterSourcedId, username: user.username });
+      }
+    }
+  }
+
+  // Classes
+  const existingClasses = new Map(
+    existing.classes.filter((schoolClass) => schoolClass.rosterSourcedId).map((schoolClass) => [schoolClass.rosterSourcedId!, schoolClass]),
+  );
+  const importedClasses = bundle.classes.filter((rosterClass) => rosterClass.schoolSourcedId === org.sourcedId);
+  const seenClassIds = new Set<number>();
+  const existingUserIds = new Map(Array.from(importedUsers).map(([sourcedId, user]) => [sourcedId, user.existingId]));
+
+  const teachers = new Map<string, string>();
+  for (const enrollment of bundle.enrollments) {
+    const user = importedUsers.get(enrollment.userSourcedId);
+    if (enrollment.active && enrollment.role === "teacher" && user && user.role !== "student") {
+      if (!teachers.has(enrollment.classSourcedId) || enrollment.primary) {
+        teachers.set(enrollment.classSourcedId, enrollment.userSourcedId);
+      }
+    }
+  }
+
+  for (const rosterClass of importedClasses) {
+    const fields: PlannedClassFields = {
+      name: rosterClass.title,
+      classCode: rosterClass.classCode,
+      period: rosterClass.period,
+      term: rosterClass.term,
+    };
+    const teacherSourcedId = teachers.get(rosterClass.sourcedId) ?? null;
+    const match = existingClasses.get(rosterClass.sourcedId);
+
+    if (!match) {
+      if (rosterClass.active) {
+        plan.classes.create.push({ sourcedId: rosterClass.sourcedId, fields, teacherSourcedId });
+      }
+      continue;
+    }
+
+    seenClassIds.add(match.id);
+    if (!rosterClass.active) {
+      if (!match.archivedAt) {
+        plan.classes.archive.push({ id: match.id, sourcedId: rosterClass.sourcedId, name: match.name });
+      } else {
+        plan.classes.unchanged++;
+      }
+      continue;
+    }
+
+    const update: PlannedClassUpdate = { id: match.id, sourcedId: rosterClass.sourcedId, name: match.name, changes: {}, changedFields: [] };
+    for (const key of Object.keys(fields) as Array<keyof PlannedClassFields>) {
+      if ((match[key] ?? null) !== fields[key]) {
+        update.changes[key] = fields[key] as string;
+        update.changedFields.push(key);
+      }
+    }
+    const teacherId = teacherSourcedId ? existingUserIds.get(teacherSourcedId) ?? null : null;
+    if (teacherSourcedId ? teacherId === null || teacherId !== match.teacherId : match.teacherId !== null) {
+      update.teacherSourcedId = teacherSourcedId;
+      update.changedFields.push("teacher");
+    }
+    if (match.archivedAt) {
+      update.changes.unarchive = true;
+      update.changedFields.push("restored");
+    }
+
+    if (update.changedFields.length > 0) {
+      plan.classes.update.push(update);
+    } else {
+      plan.classes.unchanged++;
+    }
+  }
+
+  if (bundle.modes.classes === "bulk") {
+    for (const schoolClass of Array.from(existingClasses.values())) {
+      if (!seenClassIds.has(schoolClass.id) && !schoolClass.archivedAt) {
+        plan.classes.archive.push({ id: schoolClass.id, sourcedId: schoolClass.rosterSourcedId, name: schoolClass.name });
+      }
+    }
+  }
+
+  // Enrollments: only students in classes the roster manages
+  const archivedIds = new Set(plan.classes.archive.map((schoolClass) => schoolClass.id));
+  const activeClassIds = new Map<string, number | null>();
+  for (const rosterClass of importedClasses) {
+    const match = existingClasses.get(rosterClass.sourcedId);
+    if (rosterClass.active) {
+      activeClassIds.set(rosterClass.sourcedId, match?.id ?? null);
+    }
+  }
+
+  const existingEnrollments = new Set(existing.enrollments.map((enrollment) => `${enrollment.classId}:${enrollment.studentId}`));
+  const keptEnrollments = new Set<string>();
+  const removedEnrollments = new Set<string>();
+
+  for (const enrollment of bundle.enrollments) {
+    if (enrollment.role !== "student" || (!activeClassIds.has(enrollment.classSourcedId) && !existingClasses.has(enrollment.classSourcedId))) {
+      continue;
+    }
+    const student = importedUsers.get(enrollment.userSourcedId);
+    const classId = activeClassIds.get(enrollment.classSourcedId) ?? existingClasses.get(enrollment.classSourcedId)?.id ?? null;
+    const key = classId !== null && student?.existingId ? `${classId}:${student.existingId}` : null;
+
+    if (!enrollment.active) {
+      if (key && existingEnrollments.has(key)) {
+        removedEnrollments.add(key);
+      }
+      continue;
+    }
+    if (!student || student.role !== "student" || !student.active) {
+      issues.push({
+        file: "enrollments.csv",
+        line: enrollment.line,
+        sourcedId: enrollment.sourcedId,
+        severity: "warning",
+        message: `Student ${enrollment.userSourcedId} is not an active student in this import; enrollment skipped`,
+      });
+      continue;
+    }
+    if (!activeClassIds.has(enrollment.classSourcedId)) {
+      continue;
+    }
+    if (key && existingEnrollments.has(key)) {
+      keptEnrollments.add(key);
+    } else {
+      plan.enrollments.add.push({ classSourcedId: enrollment.classSourcedId, userSourcedId: enrollment.userSourcedId });
+    }
+  }
+
+  const rosterClassIds = new Set(Array.from(existingClasses.values(), (schoolClass) => schoolClass.id));
+  for (const enrollment of existing.enrollments) {
+    const key = `${enrollment.classId}:${enrollment.studentId}`;
+    const managed = rosterClassIds.has(enrollment.classId) && !archivedIds.has(enrollment.classId);
+    if (removedEnrollments.has(key) || (managed && bundle.modes.enrollments === "bulk" && !keptEnrollments.has(key))) {
+      plan.enrollments.remove.push(enrollment);
+    }
+  }
+
+  return plan;
+}
+
+export function summarizeRosterPlan(plan: RosterImportPlan): RosterImportSummary {
+  return {
+    users: {
+      create: plan.users.create.length,
+      update: plan.users.update.length,
+      deactivate: plan.users.deactivate.length,
+      unchanged: plan.users.unchanged,
+    },
+    classes: {
+      create: plan.classes.create.length,
+      update: plan.classes.update.length,
+      archive: plan.classes.archive.length,
+      unchanged: plan.classes.unchanged,
+    },
+    enrollments: { add: plan.enrollments.add.length, remove: plan.enrollments.remove.length },
+    schoolLinked: plan.linkSchool,
+    errors: plan.issues.filter((issue) => issue.severity === "error").length,
+    warnings: plan.issues.filter((issue) => issue.severity === "warning").length,
+  };
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The downloadable error report: one row per issue, spreadsheet friendly. */
+export function formatRosterIssuesCsv(issues: RosterIssue[]): string {
+  const rows = [["severity", "file", "line", "sourcedId", "message"]];
+  for (const issue of issues) {
+    rows.push([issue.severity, issue.file, issue.line === null ? "" : String(issue.line), issue.sourcedId ?? "", issue.message]);
+  }
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
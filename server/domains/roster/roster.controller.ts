@@ -0,0 +1,111 @@
+import { Router, type Response } from "express";
+import multer from "multer";
+import { rosterService, type IRosterService } from "./roster.service";
+import { RosterBundleError } from "./oneroster-csv";
+import { authStorage, requireAuth, requireRole, type AuthenticatedRequest, type IAuthStorage } from "../auth";
+import { createSuccessResponse, resolveSchoolId, sendDomainError, sendErrorResponse } from "../../utils/routeHelpers";
+import { UserRole } from "../../../shared/schema";
+
+// A zip bundle or the individual CSVs (manifest, orgs, users, roles, classes, enrollments, academicSessions)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024, files: 10 },
+});
+
+const uploadBundle = upload.array("files", 10);
+
+function sendRosterError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof RosterBundleError) {
+    sendErrorResponse(res, { message: error.message, statusCode: 400 });
+    return;
+  }
+  if (error instanceof multer.MulterError) {
+    sendErrorResponse(res, { message: error.message, statusCode: 400 });
+    return;
+  }
+  sendDomainError(res, error, fallbackMessage);
+}
+
+export class RosterController {
+  constructor(
+    private service: IRosterService = rosterService,
+    private users: Pick<IAuthStorage, "getUser"> = authStorage,
+  ) {}
+
+  // Create Express router with the roster import routes (school admins only)
+  createRouter(): Router {
+    const router = Router();
+    router.use(requireAuth, requireRole(UserRole.ADMIN));
+
+    // Recent imports for the admin's school
+    router.get("/imports", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        createSuccessResponse(res, await this.service.getImports(schoolId));
+      } catch (error) {
+        sendRosterError(res, error, "Failed to fetch roster imports");
+      }
+    });
+
+    // Upload a bundle and preview the changes without writing them
+    router.post(
+      "/imports",
+      (req, res, next) => uploadBundle(req, res, (error) => (error ? sendRosterError(res, error, "Upload failed") : next())),
+      async (req: AuthenticatedRequest, res) => {
+        try {
+          const schoolId = await resolveSchoolId(this.users, req, res);
+          if (schoolId === null) {
+            return;
+          }
+          const files = Array.isArray(req.files) ? req.files : [];
+          const orgSourcedId = typeof req.body.orgSourcedId === "string" && req.body.orgSourcedId.trim()
+            ? req.body.orgSourcedId.trim()
+            : undefined;
+          const preview = await this.service.previewImport(schoolId, req.user!.id, files, orgSourcedId);
+          createSuccessResponse(res, preview, undefined, 201);
+        } catch (error) {
+          sendRosterError(res, error, "Failed to preview roster import");
+        }
+      },
+    );
+
+    // Apply a previewed import in one transaction
+    router.post("/imports/:id/apply", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        const result = await this.service.applyImport(schoolId, req.user!.id, parseInt(req.params.id));
+        createSuccessResponse(res, result);
+      } catch (error) {
+        sendRosterError(res, error, "Failed to apply roster import");
+      }
+    });
+
+    // Downloadable error report for one import
+    router.get("/imports/:id/report.csv", async (req: AuthenticatedRequest, res) => {
+      try {
+        const schoolId = await resolveSchoolId(this.users, req, res);
+        if (schoolId === null) {
+          return;
+        }
+        const importId = parseInt(req.params.id);
+        const report = await this.service.getIssuesReport(schoolId, importId);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="roster-import-${importId}-report.csv"`);
+        res.send(report);
+      } catch (error) {
+        sendRosterError(res, error, "Failed to build roster import report");
+      }
+    });
+
+    return router;
+  }
+}
+
+export const rosterController = new RosterController();
+export const rosterRouter = rosterController.createRouter();
@@ -0,0 +1,213 @@
+import { randomBytes } from "crypto";
+import { AuthService } from "../auth";
+import { NotFoundError, ValidationError } from "../../utils/errorTypes";
+import type { RosterImport } from "../../../shared/schema";
+import type { OneRosterBundle, OneRosterFileName } from "../../../shared/oneroster";
+import type { RosterChangeDTO, RosterImportDTO, RosterImportPreviewDTO } from "../../../shared/contracts/api";
+import { rosterStorage, type IRosterStorage } from "./roster.storage";
+import { oneRosterFileName, parseOneRosterBundle, readOneRosterZip, RosterBundleError } from "./oneroster-csv";
+import { formatRosterIssuesCsv, planRosterImport, summarizeRosterPlan, type RosterImportPlan } from "./roster-plan";
+
+const MAX_PREVIEW_CHANGES = 500;
+const RECENT_IMPORTS_LIMIT = 20;
+
+export interface RosterUpload {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface IRosterService {
+  previewImport(
+    schoolId: number,
+    actingUserId: number,
+    uploads: RosterUpload[],
+    orgSourcedId?: string,
+  ): Promise<RosterImportPreviewDTO>;
+  getImports(schoolId: number): Promise<RosterImportDTO[]>;
+  applyImport(schoolId: number, actingUserId: number, importId: number): Promise<RosterImportPreviewDTO>;
+  getIssuesReport(schoolId: number, importId: number): Promise<string>;
+}
+
+function readUploads(uploads: RosterUpload[]): Map<OneRosterFileName, string> {
+  if (uploads.length === 0) {
+    throw new RosterBundleError("Upload a OneRoster zip bundle or its CSV files");
+  }
+  if (uploads.length === 1 && uploads[0].originalname.toLowerCase().endsWith(".zip")) {
+    return readOneRosterZip(uploads[0].buffer);
+  }
+
+  const files = new Map<OneRosterFileName, string>();
+  for (const upload of uploads) {
+    const fileName = oneRosterFileName(upload.originalname);
+    if (fileName) {
+      files.set(fileName, upload.buffer.toString("utf8"));
+    }
+  }
+  return files;
+}
+
+function bundleUsernames(bundle: OneRosterBundle): string[] {
+  return bundle.users.flatMap((user) => {
+    const username = user.username ?? user.email;
+    return username ? [username.trim()] : [];
+  });
+}
+
+function toRosterImportDTO(rosterImport: RosterImport): RosterImportDTO {
+  return {
+    id: rosterImport.id,
+    status: rosterImport.status,
+    fileNames: rosterImport.fileNames,
+    orgSourcedId: rosterImport.orgSourcedId,
+    summary: rosterImport.summary,
+    createdAt: rosterImport.createdAt,
+    appliedAt: rosterImport.appliedAt,
+  };
+}
+
+function describeChanges(plan: RosterImportPlan): RosterChangeDTO[] {
+  const userName = (fields: { firstName: string | null; lastName: string | null; username: string }) =>
+    [fields.firstName, fields.lastName].filter(Boolean).join(" ") || fields.username;
+
+  return [
+    ...plan.users.create.map(({ fields }): RosterChangeDTO => ({
+      kind: "user",
+      action: "create",
+      label: userName(fields),
+      detail: `${fields.role} · ${fields.username}`,
+    })),
+    ...plan.users.update.map((update): RosterChangeDTO => ({
+      kind: "user",
+      action: "update",
+      label: update.username,
+      detail: update.changedFields.join(", "),
+    })),
+    ...plan.users.deactivate.map((user): RosterChangeDTO => ({
+      kind: "user",
+      action: "deactivate",
+      label: user.username,
+      detail: null,
+    })),
+    ...plan.classes.create.map(({ fields }): RosterChangeDTO => ({
+      kind: "class",
+      action: "create",
+      label: fields.name,
+      detail: [fields.period && `Period ${fields.period}`, fields.term].filter(Boolean).join(" · ") || null,
+    })),
+    ...plan.classes.update.map((update): RosterChangeDTO => ({
+      kind: "class",
+      action: "update",
+      label: update.name,
+      detail: update.changedFields.join(", "),
+    })),
+    ...plan.classes.archive.map((schoolClass): RosterChangeDTO => ({
+      kind: "class",
+      action: "archive",
+      label: schoolClass.name,
+      detail: null,
+    })),
+  ];
+}
+
+function toPreviewDTO(rosterImport: RosterImport, plan: RosterImportPlan): RosterImportPreviewDTO {
+  const changes = describeChanges(plan);
+  return {
+    import: toRosterImportDTO(rosterImport),
+    orgs: rosterImport.bundle.orgs
+      .filter((org) => org.type === "school")
+      .map((org) => ({ sourcedId: org.sourcedId, name: org.name })),
+    changes: changes.slice(0, MAX_PREVIEW_CHANGES),
+    changesTruncated: changes.length > MAX_PREVIEW_CHANGES,
+    issues: plan.issues,
+  };
+}
+
+export class RosterService implements IRosterService {
+  constructor(private storage: IRosterStorage = rosterStorage) {}
+
+  async previewImport(
+    schoolId: number,
+    actingUserId: number,
+    uploads: RosterUpload[],
+    orgSourcedId?: string,
+  ): Promise<RosterImportPreviewDTO> {
+    const bundle = parseOneRosterBundle(readUploads(uploads));
+    const state = await this.storage.getRosterState(schoolId, bundleUsernames(bundle));
+    if (!state) {
+      throw new NotFoundError("School");
+    }
+
+    const plan = planRosterImport(bundle, state, { orgSourcedId, actingUserId });
+    const rosterImport = await this.storage.createRosterImport({
+      schoolId,
+      createdBy: actingUserId,
+      fileNames: uploads.map((upload) => upload.originalname),
+      orgSourcedId: plan.org?.sourcedId ?? null,
+      bundle,
+      summary: summarizeRosterPlan(plan),
+      issues: plan.issues,
+    });
+    return toPreviewDTO(rosterImport, plan);
+  }
+
+  async getImports(schoolId: number): Promise<RosterImportDTO[]> {
+    const imports = await this.storage.getRosterImports(schoolId, RECENT_IMPORTS_LIMIT);
+    return imports.map(toRosterImportDTO);
+  }
+
+  async applyImport(schoolId: number, actingUserId: number, importId: number): Promise<RosterImportPreviewDTO> {
+    const rosterImport = await this.storage.getRosterImport(importId, schoolId);
+    if (!rosterImport) {
+      throw new NotFoundError("Roster import", importId);
+    }
+    if (!rosterImport.orgSourcedId) {
+      throw new ValidationError("Choose which org in the bundle is this school and preview again");
+    }
+
+    // Applying the same import again is safe: it re-plans against the current data
+    const passwordHash = await AuthService.hashPassword(randomBytes(32).toString("hex"));
+    let plan: RosterImportPlan;
+    try {
+      plan = await this.storage.applyRosterPlan(
+        schoolId,
+        bundleUsernames(rosterImport.bundle),
+        (state) =>
+          planRosterImport(rosterImport.bundle, state, { orgSourcedId: rosterImport.orgSourcedId!, actingUserId }),
+        passwordHash,
+      );
+    } catch (error) {
+      await this.storage.updateRosterImport(importId, {
+        status: "failed",
+        issues: [
+          ...rosterImport.issues,
+          {
+            file: "",
+            line: null,
+            sourcedId: null,
+            severity: "error",
+            message: `Import failed and nothing was changed: ${error instanceof Error ? error.message : "unknown error"}`,
+          },
+        ],
+      });
+      throw error;
+    }
+
+    const updated = await this.storage.updateRosterImport(importId, {
+      status: "applied",
+      summary: summarizeRosterPlan(plan),
+      issues: plan.issues,
+      appliedAt: new Date(),
+    });
+    return toPreviewDTO(updated, plan);
+  }
+
+  async getIssuesReport(schoolId: number, importId: number): Promise<string> {
+    const rosterImport = await this.storage.getRosterImport(importId, schoolId);
+    if (!rosterImport) {
+      throw new NotFoundError("Roster import", importId);
+    }
+    return formatRosterIssuesCsv(rosterImport.issues);
+  }
+}
+
+export const rosterService = new RosterService();
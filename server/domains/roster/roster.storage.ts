@@ -0,0 +1,304 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../../db";
+import {
+  authTokens,
+  classEnrollments,
+  classes,
+  rosterImports,
+  schools,
+  users,
+  type RosterImport,
+  type School,
+} from "../../../shared/schema";
+import type { OneRosterBundle, RosterImportSummary, RosterIssue } from "../../../shared/oneroster";
+import { fanOutClassProjects } from "../classes";
+import type { ExistingRosterState, RosterImportPlan } from "./roster-plan";
+
+type RosterTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type RosterExecutor = typeof db | RosterTransaction;
+
+// Keeps IN lists well under the Postgres bind parameter limit
+const LOOKUP_CHUNK_SIZE = 1000;
+
+export interface NewRosterImport {
+  schoolId: number;
+  createdBy: number;
+  fileNames: string[];
+  orgSourcedId: string | null;
+  bundle: OneRosterBundle;
+  summary: RosterImportSummary;
+  issues: RosterIssue[];
+}
+
+export interface IRosterStorage {
+  getSchool(schoolId: number): Promise<School | undefined>;
+  getRosterState(schoolId: number, usernames: string[]): Promise<ExistingRosterState | undefined>;
+  createRosterImport(rosterImport: NewRosterImport): Promise<RosterImport>;
+  getRosterImport(importId: number, schoolId: number): Promise<RosterImport | undefined>;
+  getRosterImports(schoolId: number, limit: number): Promise<RosterImport[]>;
+  updateRosterImport(
+    importId: number,
+    updates: Partial<Pick<RosterImport, "status" | "summary" | "issues" | "appliedAt">>,
+  ): Promise<RosterImport>;
+  applyRosterPlan(
+    schoolId: number,
+    usernames: string[],
+    planFor: (state: ExistingRosterState) => RosterImportPlan,
+    newUserPasswordHash: string,
+  ): Promise<RosterImportPlan>;
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let start = 0; start < items.length; start += LOOKUP_CHUNK_SIZE) {
+    result.push(items.slice(start, start + LOOKUP_CHUNK_SIZE));
+  }
+  return result;
+}
+
+async function loadRosterState(
+  executor: RosterExecutor,
+  schoolId: number,
+  usernames: string[],
+): Promise<ExistingRosterState | undefined> {
+  const [school] = await executor.select().from(schools).where(eq(schools.id, schoolId));
+  if (!school) {
+    return undefined;
+  }
+
+  const schoolUsers = await executor
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      role: users.role,
+      grade: users.grade,
+      rosterSourcedId: users.rosterSourcedId,
+      deactivatedAt: users.deactivatedAt,
+    })
+    .from(users)
+    .where(eq(users.schoolId, schoolId));
+
+  // Usernames are unique across schools, so imported usernames held elsewhere can't be reused
+  const takenUsernames: string[] = [];
+  for (const chunk of chunks(Array.from(new Set(usernames.map((username) => username.toLowerCase()))))) {
+    const rows = await executor
+      .select({ username: users.username })
+      .from(users)
+      .where(
+        and(
+          inArray(sql<string>`lower(${users.username})`, chunk),
+          sql`${users.schoolId} is distinct from ${schoolId}`,
+        ),
+      );
+    takenUsernames.push(...rows.map((row) => row.username.toLowerCase()));
+  }
+
+  const schoolClasses = await executor
+    .select({
+      id: classes.id,
+      name: classes.name,
+      teacherId: classes.teacherId,
+      classCode: classes.classCode,
+      period: classes.period,
+      term: classes.term,
+      rosterSourcedId: classes.rosterSourcedId,
+      archivedAt: classes.archivedAt,
+    })
+    .from(classes)
+    .where(eq(classes.schoolId, schoolId));
+
+  const enrollments = await executor
+    .select({ classId: classEnrollments.classId, studentId: classEnrollments.studentId })
+    .from(classEnrollments)
+    .innerJoin(classes, eq(classEnrollments.classId, classes.id))
+    .where(eq(classes.schoolId, schoolId));
+
+  return {
+    school: { id: school.id, name: school.name, rosterSourcedId: school.rosterSourcedId },
+    users: schoolUsers,
+    takenUsernames,
+    classes: schoolClasses,
+    enrollments,
+  };
+}
+
+export class RosterStorage implements IRosterStorage {
+  async getSchool(schoolId: number): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, schoolId));
+    return school;
+  }
+
+  async getRosterState(schoolId: number, usernames: string[]): Promise<ExistingRosterState | undefined> {
+    return await loadRosterState(db, schoolId, usernames);
+  }
+
+  async createRosterImport(rosterImport: NewRosterImport): Promise<RosterImport> {
+    const [created] = await db.insert(rosterImports).values(rosterImport).returning();
+    return created;
+  }
+
+  async getRosterImport(importId: number, schoolId: number): Promise<RosterImport | undefined> {
+    const [rosterImport] = await db
+      .select()
+      .from(rosterImports)
+      .where(and(eq(rosterImports.id, importId), eq(rosterImports.schoolId, schoolId)));
+    return rosterImport;
+  }
+
+  async getRosterImports(schoolId: number, limit: number): Promise<RosterImport[]> {
+    return await db
+      .select()
+      .from(rosterImports)
+      .where(eq(rosterImports.schoolId, schoolId))
+      .orderBy(desc(rosterImports.createdAt))
+      .limit(limit);
+  }
+
+  async updateRosterImport(
+    importId: number,
+    updates: Partial<Pick<RosterImport, "status" | "summary" | "issues" | "appliedAt">>,
+  ): Promise<RosterImport> {
+    const [updated] = await db.update(rosterImports).set(updates).where(eq(rosterImports.id, importId)).returning();
+    return updated;
+  }
+
+  /**
+   * Re-plans against the rows read inside the transaction and writes the plan,
+   * so a preview that went stale can't apply outdated changes. Everything is
+   * rolled back if one write fails.
+   */
+  async applyRosterPlan(
+    schoolId: number,
+    usernames: string[],
+    planFor: (state: ExistingRosterState) => RosterImportPlan,
+    newUserPasswordHash: string,
+  ): Promise<RosterImportPlan> {
+    return await db.transaction(async (tx) => {
+      const state = await loadRosterState(tx, schoolId, usernames);
+      if (!state) {
+        throw new Error("School not found");
+      }
+      const plan = planFor(state);
+      if (!plan.org) {
+        return plan;
+      }
+
+      const now = new Date();
+      if (plan.linkSchool) {
+        await tx.update(schools).set({ rosterSourcedId: plan.org.sourcedId }).where(eq(schools.id, schoolId));
+      }
+
+      // Users
+      const userIds = new Map<string, number>();
+      for (const user of state.users) {
+        if (user.rosterSourcedId) {
+          userIds.set(user.rosterSourcedId, user.id);
+        }
+      }
+
+      for (const chunk of chunks(plan.users.create)) {
+        const created = await tx
+          .insert(users)
+          .values(
+            chunk.map(({ sourcedId, fields }) => ({
+              ...fields,
+              password: newUserPasswordHash,
+              schoolId,
+              schoolName: state.school.name,
+              rosterSourcedId: sourcedId,
+            })),
+          )
+          .returning({ id: users.id, rosterSourcedId: users.rosterSourcedId });
+        for (const user of created) {
+          userIds.set(user.rosterSourcedId!, user.id);
+        }
+      }
+
+      for (const update of plan.users.update) {
+        const { reactivate, ...changes } = update.changes;
+        await tx
+          .update(users)
+          .set({ ...changes, ...(reactivate ? { deactivatedAt: null } : {}), updatedAt: now })
+          .where(eq(users.id, update.id));
+        userIds.set(update.sourcedId, update.id);
+      }
+
+      const deactivatedIds = plan.users.deactivate.map((user) => user.id);
+      for (const chunk of chunks(deactivatedIds)) {
+        await tx.update(users).set({ deactivatedAt: now, updatedAt: now }).where(inArray(users.id, chunk));
+        // Signs them out everywhere; access tokens are also rejected once the account is deactivated
+        await tx.delete(authTokens).where(and(inArray(authTokens.userId, chunk), eq(authTokens.type, "refresh")));
+      }
+
+      // Classes
+      const classIds = new Map<string, number>();
+      for (const schoolClass of state.classes) {
+        if (schoolClass.rosterSourcedId) {
+          classIds.set(schoolClass.rosterSourcedId, schoolClass.id);
+        }
+      }
+      const teacherIdFor = (sourcedId: string | null | undefined) => (sourcedId ? userIds.get(sourcedId) ?? null : null);
+
+      for (const chunk of chunks(plan.classes.create)) {
+        const created = await tx
+          .insert(classes)
+          .values(
+            chunk.map(({ sourcedId, fields, teacherSourcedId }) => ({
+              ...fields,
+              schoolId,
+              teacherId: teacherIdFor(teacherSourcedId),
+              rosterSourcedId: sourcedId,
+            })),
+          )
+          .returning({ id: classes.id, rosterSourcedId: classes.rosterSourcedId });
+        for (const schoolClass of created) {
+          classIds.set(schoolClass.rosterSourcedId!, schoolClass.id);
+        }
+      }
+
+      for (const update of plan.classes.update) {
+        const { unarchive, ...changes } = update.changes;
+        await tx
+          .update(classes)
+          .set({
+            ...changes,
+            ...(update.teacherSourcedId !== undefined ? { teacherId: teacherIdFor(update.teacherSourcedId) } : {}),
+            ...(unarchive ? { archivedAt: null } : {}),
+            updatedAt: now,
+          })
+          .where(eq(classes.id, update.id));
+      }
+
+      for (const chunk of chunks(plan.classes.archive.map((schoolClass) => schoolClass.id))) {
+        await tx.update(classes).set({ archivedAt: now, updatedAt: now }).where(inArray(classes.id, chunk));
+      }
+
+      // Enrollments
+      const additions = plan.enrollments.add.flatMap(({ classSourcedId, userSourcedId }) => {
+        const classId = classIds.get(classSourcedId);
+        const studentId = userIds.get(userSourcedId);
+        return classId && studentId ? [{ classId, studentId }] : [];
+      });
+      for (const chunk of chunks(additions)) {
+        await tx.insert(classEnrollments).values(chunk).onConflictDoNothing();
+      }
+      // Newly enrolled students pick up the projects already assigned to their classes
+      for (const chunk of chunks(Array.from(new Set(additions.map((addition) => addition.classId))))) {
+        await fanOutClassProjects(tx, chunk);
+      }
+
+      for (const enrollment of plan.enrollments.remove) {
+        await tx
+          .delete(classEnrollments)
+          .where(and(eq(classEnrollments.classId, enrollment.classId), eq(classEnrollments.studentId, enrollment.studentId)));
+      }
+
+      return plan;
+    });
+  }
+}
+
+export const rosterStorage = new RosterStorage();
@@ -1,10 +1,31 @@
 import { Router } from 'express';
 import { safetyIncidentService, type ISafetyIncidentService } from './safety-incidents.service';
 import { requireAuth, requireRole, type AuthenticatedRequest } from '../auth';
-import { UserRole } from '../../../shared/schema';
+import { auditContext, auditService, type IAuditService } from '../audit';
+import { UserRole, type SafetyIncident } from '../../../shared/schema';
+
+function incidentAuditSnapshot(incident: SafetyIncident) {
+  return { resolved: incident.resolved, resolvedAt: incident.resolvedAt, resolvedBy: incident.resolvedBy };
+}
 
 export class SafetyIncidentController {
-  constructor(private service: ISafetyIncidentService = safetyIncidentService) {}
+  constructor(
+    private service: ISafetyIncidentService = safetyIncidentService,
+    private auditLog: Pick<IAuditService, "record"> = auditService,
+  ) {}
+
+  // Only resolutions are audited; reopening an incident is an ordinary status change
+  private async recordResolution(req: AuthenticatedRequest, before: SafetyIncident, after: SafetyIncident | undefined) {
+    if (!after?.resolved || before.resolved) {
+      return;
+    }
+    await this.auditLog.record(auditContext(req), {
+      action: "safety_incident.resolve",
+      target: { type: "safety_incident", id: after.id, label: after.incidentType },
+      before: incidentAuditSnapshot(before),
+      after: incidentAuditSnapshot(after),
+    });
+  }
 
   // Create Express router with all safety incident routes
   createRouter(): Router {
@@ -46,7 +67,13 @@ export class SafetyIncidentController {
         const incidentId = parseInt(req.params.id);
         const { status } = req.body;
 
-        await this.service.updateSafetyIncidentStatus(incidentId, status);
+        const before = await this.service.getSafetyIncident(incidentId);
+        if (!before) {
+          return res.status(404).json({ message: "Safety incident not found" });
+        }
+
+        const updated = await this.service.updateSafetyIncidentStatus(incidentId, status);
+        await this.recordResolution(req, before, updated);
         res.json({ message: "Safety incident status updated" });
       } catch (error) {
         console.error("Error updating safety incident status:", error);
@@ -60,7 +87,13 @@ export class SafetyIncidentController {
         const incidentId = parseInt(req.params.id);
         const userId = req.user!.id;
 
-        await this.service.resolveSafetyIncident(incidentId, userId);
+        const before = await this.service.getSafetyIncident(incidentId);
+        if (!before) {
+          return res.status(404).json({ message: "Safety incident not found" });
+        }
+
+        const resolved = await this.service.resolveSafetyIncident(incidentId, userId);
+        await this.recordResolution(req, before, resolved);
         res.json({ message: "Safety incident marked as resolved" });
       } catch (error) {
         console.error("Error resolving safety incident:", error);
@@ -6,9 +6,10 @@ import {
 
 export interface ISafetyIncidentService {
   getAllSafetyIncidents(): Promise<SafetyIncident[]>;
+  getSafetyIncident(incidentId: number): Promise<SafetyIncident | undefined>;
   createSafetyIncident(incident: InsertSafetyIncident): Promise<SafetyIncident>;
-  updateSafetyIncidentStatus(incidentId: number, status: string): Promise<void>;
-  resolveSafetyIncident(incidentId: number, userId: number): Promise<void>;
+  updateSafetyIncidentStatus(incidentId: number, status: string): Promise<SafetyIncident | undefined>;
+  resolveSafetyIncident(incidentId: number, userId: number): Promise<SafetyIncident | undefined>;
 }
 
 export class SafetyIncidentService implements ISafetyIncidentService {
@@ -18,20 +19,24 @@ export class SafetyIncidentService implements ISafetyIncidentService {
     return await this.storage.getSafetyIncidents();
   }
 
+  async getSafetyIncident(incidentId: number): Promise<SafetyIncident | undefined> {
+    return await this.storage.getSafetyIncident(incidentId);
+  }
+
   async createSafetyIncident(incident: InsertSafetyIncident): Promise<SafetyIncident> {
     return await this.storage.createSafetyIncident(incident);
   }
 
-  async updateSafetyIncidentStatus(incidentId: number, status: string): Promise<void> {
+  async updateSafetyIncidentStatus(incidentId: number, status: string): Promise<SafetyIncident | undefined> {
     if (!['open', 'investigating', 'resolved', 'closed'].includes(status)) {
       throw new Error("Invalid status");
     }
 
-    await this.storage.updateSafetyIncidentStatus(incidentId, status);
+    return await this.storage.updateSafetyIncidentStatus(incidentId, status);
   }
 
-  async resolveSafetyIncident(incidentId: number, userId: number): Promise<void> {
-    await this.storage.resolveSafetyIncident(incidentId, userId);
+  async resolveSafetyIncident(incidentId: number, userId: number): Promise<SafetyIncident | undefined> {
+    return await this.storage.resolveSafetyIncident(incidentId, userId);
   }
 }
 
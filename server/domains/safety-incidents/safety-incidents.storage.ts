@@ -8,9 +8,10 @@ import {
 
 export interface ISafetyIncidentStorage {
   getSafetyIncidents(): Promise<SafetyIncident[]>;
+  getSafetyIncident(incidentId: number): Promise<SafetyIncident | undefined>;
   createSafetyIncident(incident: InsertSafetyIncident): Promise<SafetyIncident>;
-  updateSafetyIncidentStatus(incidentId: number, status: string): Promise<void>;
-  resolveSafetyIncident(incidentId: number, userId: number): Promise<void>;
+  updateSafetyIncidentStatus(incidentId: number, status: string): Promise<SafetyIncident | undefined>;
+  resolveSafetyIncident(incidentId: number, userId: number): Promise<SafetyIncident | undefined>;
 }
 
 export class SafetyIncidentStorage implements ISafetyIncidentStorage {
@@ -21,6 +22,14 @@ export class SafetyIncidentStorage implements ISafetyIncidentStorage {
       .orderBy(desc(safetyIncidents.createdAt));
   }
 
+  async getSafetyIncident(incidentId: number): Promise<SafetyIncident | undefined> {
+    const [incident] = await db
+      .select()
+      .from(safetyIncidents)
+      .where(eq(safetyIncidents.id, incidentId));
+    return incident;
+  }
+
   async createSafetyIncident(incident: InsertSafetyIncident): Promise<SafetyIncident> {
     const [newIncident] = await db
       .insert(safetyIncidents)
@@ -29,26 +38,30 @@ export class SafetyIncidentStorage implements ISafetyIncidentStorage {
     return newIncident;
   }
 
-  async updateSafetyIncidentStatus(incidentId: number, status: string): Promise<void> {
+  async updateSafetyIncidentStatus(incidentId: number, status: string): Promise<SafetyIncident | undefined> {
     const isResolved = status === "resolved" || status === "closed";
-    await db
+    const [incident] = await db
       .update(safetyIncidents)
       .set({ 
         resolved: isResolved,
         resolvedAt: isResolved ? new Date() : null,
       })
-      .where(eq(safetyIncidents.id, incidentId));
+      .where(eq(safetyIncidents.id, incidentId))
+      .returning();
+    return incident;
   }
 
-  async resolveSafetyIncident(incidentId: number, userId: number): Promise<void> {
-    await db
+  async resolveSafetyIncident(incidentId: number, userId: number): Promise<SafetyIncident | undefined> {
+    const [incident] = await db
       .update(safetyIncidents)
       .set({
         resolved: true,
         resolvedAt: new Date(),
         resolvedBy: userId,
       })
-      .where(eq(safetyIncidents.id, incidentId));
+      .where(eq(safetyIncidents.id, incidentId))
+      .returning();
+    return incident;
   }
 }
 
@@ -7,6 +7,8 @@ import { testDatabaseConnection } from "./db";
 import { securityHeaders, apiLimiter } from "./middleware/security";
 import { errorHandler, notFoundHandler, handleUncaughtExceptions } from "./middleware/errorHandler";
 import cookieParser from 'cookie-parser';
+import { startNotificationDigestSchedule } from "./domains/notifications";
+import { startGuardianSummarySchedule } from "./domains/guardians";
 
 export const app = express();
 
@@ -98,6 +100,8 @@ export const appInit = (async () => {
       }, () => {
         log(`serving on port ${port}`);
       });
+      startNotificationDigestSchedule();
+      startGuardianSummarySchedule();
     }
 
     return app;
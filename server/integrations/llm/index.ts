@@ -0,0 +1,17 @@
+export {
+  createLlmProviderFromEnv,
+  FixtureLlmProvider,
+  LLM_FEATURES,
+  llmProvider,
+  OpenAIChatProvider,
+  resolveLlmModels,
+  type LlmCompletion,
+  type LlmCompletionRequest,
+  type LlmFeature,
+  type LlmFixture,
+  type LlmMessage,
+  type LlmModels,
+  type LlmProvider,
+  type LlmUsage,
+} from "./llmProvider";
+export { DEFAULT_LLM_FIXTURES, FIXTURE_TEXT_RESPONSE } from "./llmFixtures";
@@ -0,0 +1,137 @@
+import type { LlmFixture } from "./llmProvider";
+
+export const FIXTURE_TEXT_RESPONSE =
+  "Thoughtful work. Your answer shows a clear understanding of the main idea; add a specific example from the project to show how you applied it.";
+
+const json = (value: unknown) => JSON.stringify(value);
+
+const FIXTURE_QUESTIONS = [
+  {
+    id: "q1",
+    text: "Describe the problem your project addresses and explain who it affects.",
+    type: "open-ended",
+    rubricCriteria: "Proficient responses define the problem precisely and support it with evidence.",
+    sampleAnswer: "Our community garden lacks water in summer, which affects the families who rely on it for produce.",
+    choices: null,
+  },
+  {
+    id: "q2",
+    text: "Which step comes first when planning an investigation?",
+    type: "multiple-choice",
+    rubricCriteria: "Identifies the research question as the starting point.",
+    sampleAnswer: "Write a research question",
+    choices: ["Write a research question", "Collect data", "Draw conclusions", "Share results"],
+    correctAnswer: "Write a research question",
+  },
+];
+
+const FIXTURE_MILESTONES = [
+  { title: "Research and Planning", description: "Students investigate the problem and draft a project plan.", order: 1 },
+  { title: "Build and Test", description: "Students create a first version of their solution and gather feedback.", order: 2 },
+  { title: "Present and Reflect", description: "Students share their work with an audience and reflect on what they learned.", order: 3 },
+];
+
+/**
+ * Canned responses for each prompt the app sends, shaped like what the real
+ * models return. Order matters: the first matching fixture wins.
+ */
+export const DEFAULT_LLM_FIXTURES: LlmFixture[] = [
+  {
+    feature: "generation",
+    match: /project ideas/i,
+    content: json({
+      ideas: [
+        {
+          title: "Community Water Watch",
+          description: "Students measure and improve water use in a local space.",
+          overview: "Teams collect data on water use, design a conservation plan and present it to the people who run the space.",
+          suggestedMilestones: FIXTURE_MILESTONES.map(({ title, description }) => ({
+            title,
+            description,
+            estimatedDuration: "1 week",
+          })),
+          assessmentSuggestions: [{ type: "presentation", description: "Present the conservation plan to a community panel." }],
+          requiredResources: ["Water meters", "Spreadsheet software"],
+          learningOutcomes: ["Collect and analyze real-world data", "Communicate findings to an authentic audience"],
+          competencyAlignment: [],
+        },
+      ],
+    }),
+  },
+  {
+    feature: "generation",
+    match: /milestone/i,
+    content: json({ milestones: FIXTURE_MILESTONES }),
+  },
+  {
+    feature: "generation",
+    match: /assessment/i,
+    content: json({
+      title: "Milestone Assessment",
+      description: "Checks understanding of the milestone's key skills.",
+      questions: FIXTURE_QUESTIONS,
+    }),
+  },
+  {
+    feature: "grading",
+    match: /component skill development/i,
+    content: json({
+      rubricLevel: "proficient",
+      feedback: "The submission shows consistent, independent use of this skill with specific evidence.",
+    }),
+  },
+  {
+    feature: "grading",
+    match: /assessment and grading/i,
+    content: json({ score: 80, rationale: "The answer covers the main points of the rubric with one gap in supporting detail." }),
+  },
+  {
+    feature: "grading",
+    match: /micro-credentials/i,
+    content: json({
+      credentials: [
+        { type: "sticker", title: "Strong Start", description: "Showed solid early progress on this skill." },
+      ],
+    }),
+  },
+  {
+    feature: "tutor",
+    match: /educational AI tutor/i,
+    content: json({
+      response: [
+        "Strengths: You described your work clearly.",
+        "Constructive Critique: Your example is general, and it does not yet show the outcome of your actions.",
+        "How to Improve Next Submission: Name one specific situation and what changed because of it.",
+        "Suggested Next Evidence: A short reflection on a time you used this skill without help.",
+        "What is one moment where you used this skill on your own?",
+      ].join("\n\n"),
+      suggestedEvaluation: { selfAssessedLevel: "developing", confidence: 0.6 },
+      shouldTerminate: false,
+      safetyFlag: null,
+    }),
+  },
+  {
+    feature: "tutor",
+    match: /educational AI assistant/i,
+    content: json({
+      hasRiskyContent: false,
+      riskType: null,
+      confidence: 0.9,
+      improvementFeedback: "Add a concrete example of applying this skill and explain what you would do differently next time.",
+    }),
+  },
+  {
+    feature: "tutor",
+    match: /instructional coach/i,
+    content: json({
+      misconceptions: [
+        {
+          misconception: "Describes taking part in an activity as evidence of the skill without saying what they did",
+          sessionCount: 2,
+          example: "A student said they were in a group project but not what their own role was",
+          suggestion: "Practice rewriting a general claim as a specific example with an outcome",
+        },
+      ],
+    }),
+  },
+];
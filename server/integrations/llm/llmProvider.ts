@@ -0,0 +1,246 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { LlmFeature } from "../../../shared/ai-usage";
+import { DEFAULT_LLM_FIXTURES, FIXTURE_TEXT_RESPONSE } from "./llmFixtures";
+
+export { LLM_FEATURES, type LlmFeature } from "../../../shared/ai-usage";
+
+export type LlmModels = Record<LlmFeature, string>;
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  feature: LlmFeature;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  // Asks for a single JSON object back
+  json?: boolean;
+  // Registry prompt the messages were rendered from, kept with the usage record
+  prompt?: { key: string; version: number };
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+  finishReason?: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  modelFor(feature: LlmFeature): string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+  // Same as complete, handing each piece of the reply to onDelta as the model writes it
+  stream(request: LlmCompletionRequest, onDelta: (text: string) => void): Promise<LlmCompletion>;
+}
+
+const DEFAULT_AZURE_ENDPOINT = "https://trueaimopenai.openai.azure.com";
+const DEFAULT_AZURE_API_VERSION = "2025-01-01-preview";
+const DEFAULT_AZURE_DEPLOYMENT = "gpt-4o";
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+/**
+ * Talks to anything that speaks the OpenAI chat completions API: OpenAI itself,
+ * an Azure OpenAI resource (where the model is the deployment name), or a local
+ * server such as Ollama or llama.cpp.
+ */
+export class OpenAIChatProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private client: OpenAI,
+    private models: LlmModels,
+  ) {}
+
+  modelFor(feature: LlmFeature): string {
+    return this.models[feature];
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const completion = await this.client.chat.completions.create(this.toParams(request));
+
+    const choice = completion.choices[0];
+    return {
+      content: choice?.message?.content ?? "",
+      model: completion.model,
+      usage: completion.usage ? toLlmUsage(completion.usage) : undefined,
+      finishReason: choice?.finish_reason ?? undefined,
+    };
+  }
+
+  async stream(request: LlmCompletionRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    const chunks = await this.client.chat.completions.create({
+      ...this.toParams(request),
+      stream: true,
+      // Token counts arrive in a final chunk with no choices
+      stream_options: { include_usage: true },
+    });
+
+    const result: LlmCompletion = { content: "", model: this.modelFor(request.feature) };
+    for await (const chunk of chunks) {
+      result.model = chunk.model || result.model;
+      const choice = chunk.choices[0];
+      const text = choice?.delta?.content;
+      if (text) {
+        result.content += text;
+        onDelta(text);
+      }
+      if (choice?.finish_reason) {
+        result.finishReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        result.usage = toLlmUsage(chunk.usage);
+      }
+    }
+    return result;
+  }
+
+  private toParams(request: LlmCompletionRequest) {
+    return {
+      model: this.modelFor(request.feature),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      response_format: request.json ? { type: "json_object" as const } : undefined,
+    };
+  }
+}
+
+function toLlmUsage(usage: OpenAI.CompletionUsage): LlmUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+export interface LlmFixture {
+  feature?: LlmFeature;
+  // Tested against the system prompt, or the first message when there is none
+  match: RegExp;
+  content: string | ((request: LlmCompletionRequest) => string);
+}
+
+/**
+ * Answers from canned fixtures without any network access, so tests and
+ * offline development get the same response for the same prompt every time.
+ * Requests are kept in `requests` for assertions.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = "fixture";
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private fixtures: LlmFixture[] = DEFAULT_LLM_FIXTURES) {}
+
+  modelFor(feature: LlmFeature): string {
+    return `fixture-${feature}`;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+
+    const prompt = (request.messages.find((message) => message.role === "system") ?? request.messages[0])?.content ?? "";
+    const fixture = this.fixtures.find(
+      (candidate) => (!candidate.feature || candidate.feature === request.feature) && candidate.match.test(prompt),
+    );
+
+    let content = request.json ? "{}" : FIXTURE_TEXT_RESPONSE;
+    if (fixture) {
+      content = typeof fixture.content === "function" ? fixture.content(request) : fixture.content;
+    }
+    // Rough token counts (about four characters each) so usage dashboards have something to show offline
+    const promptTokens = Math.ceil(request.messages.reduce((total, message) => total + message.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      model: this.modelFor(request.feature),
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: "stop",
+    };
+  }
+
+  // Replays the fixture a word at a time so streaming clients see several deltas
+  async stream(request: LlmCompletionRequest, onDelta: (text: string) => void): Promise<LlmCompletion> {
+    const completion = await this.complete(request);
+    for (const piece of completion.content.match(/\s*\S+/g) ?? []) {
+      onDelta(piece);
+    }
+    return completion;
+  }
+}
+
+/** LLM_MODEL applies to every feature; LLM_MODEL_TUTOR, LLM_MODEL_GRADING and LLM_MODEL_GENERATION override it. */
+export function resolveLlmModels(env: NodeJS.ProcessEnv, fallback: string): LlmModels {
+  const base = env.LLM_MODEL || fallback;
+  return {
+    tutor: env.LLM_MODEL_TUTOR || base,
+    grading: env.LLM_MODEL_GRADING || base,
+    generation: env.LLM_MODEL_GENERATION || base,
+  };
+}
+
+/**
+ * Picks the provider from LLM_PROVIDER (`azure`, `openai`, `local` or `fixture`).
+ * Without it, Azure is used when an Azure key is set and OpenAI when
+ * OPENAI_API_KEY is set. The offline fixtures are only used when asked for,
+ * and never in production, so a missing key fails at startup instead of
+ * serving canned AI output.
+ */
+export function createLlmProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const azureApiKey = env.AZURE_OPENAI_API_KEY || env.AZURE_GPT41_API_KEY;
+  const kind = (env.LLM_PROVIDER || (azureApiKey ? "azure" : env.OPENAI_API_KEY ? "openai" : "")).toLowerCase();
+
+  if (!kind) {
+    throw new Error(
+      "No LLM provider configured; set AZURE_OPENAI_API_KEY, OPENAI_API_KEY or LLM_PROVIDER (LLM_PROVIDER=fixture for offline development)",
+    );
+  }
+  if (kind === "fixture") {
+    if (env.NODE_ENV === "production") {
+      throw new Error("LLM_PROVIDER=fixture only returns canned responses and can't be used in production");
+    }
+    return new FixtureLlmProvider();
+  }
+  if (kind === "azure") {
+    if (!azureApiKey) {
+      throw new Error("LLM_PROVIDER=azure requires AZURE_OPENAI_API_KEY");
+    }
+    const client = new AzureOpenAI({
+      apiKey: azureApiKey,
+      endpoint: env.AZURE_OPENAI_ENDPOINT || DEFAULT_AZURE_ENDPOINT,
+      apiVersion: env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+    });
+    return new OpenAIChatProvider("azure", client, resolveLlmModels(env, env.AZURE_OPENAI_DEPLOYMENT || DEFAULT_AZURE_DEPLOYMENT));
+  }
+  if (kind === "openai") {
+    if (!env.OPENAI_API_KEY) {
+      throw new Error("LLM_PROVIDER=openai requires OPENAI_API_KEY");
+    }
+    const client = new OpenAI({ apiKey: env.OPENAI_API_KEY, baseURL: env.OPENAI_BASE_URL || undefined });
+    return new OpenAIChatProvider("openai", client, resolveLlmModels(env, DEFAULT_OPENAI_MODEL));
+  }
+  if (kind === "local") {
+    // Local servers ignore the key, but the SDK refuses to start without one
+    const client = new OpenAI({ apiKey: env.LLM_API_KEY || "local", baseURL: env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL });
+    return new OpenAIChatProvider("local", client, resolveLlmModels(env, DEFAULT_LOCAL_MODEL));
+  }
+  throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}"; expected azure, openai, local or fixture`);
+}
+
+export const llmProvider: LlmProvider = createLlmProviderFromEnv();
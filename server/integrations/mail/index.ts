@@ -0,0 +1,10 @@
+export {
+  APP_BASE_URL,
+  createMailTransportFromEnv,
+  FileMailTransport,
+  mailTransport,
+  MemoryMailTransport,
+  SmtpMailTransport,
+  type MailMessage,
+  type MailTransport,
+} from "./mailTransport";
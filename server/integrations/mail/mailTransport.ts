@@ -0,0 +1,97 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+const DEFAULT_MAIL_FROM = "MasteryMap <no-reply@masterymap.local>";
+const DEFAULT_MAIL_FILE_DIR = ".mail-outbox";
+
+// Links in emails point here; set APP_BASE_URL to the public origin in deployed environments
+export const APP_BASE_URL = (process.env.APP_BASE_URL || "http://localhost:5000").replace(/\/+$/, "");
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; pass?: string },
+    private from: string = DEFAULT_MAIL_FROM,
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/** Writes each message as a JSON file so local setups can read what would have been sent. */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string, private from: string = DEFAULT_MAIL_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: this.from, ...message }, null, 2),
+      "utf8",
+    );
+  }
+}
+
+/** Keeps sent messages in memory; used by tests. */
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (`smtp`, `file` or `memory`).
+ * Without it, SMTP is used when SMTP_HOST is set and the file outbox otherwise.
+ */
+export function createMailTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_MAIL_FROM;
+  const kind = (env.MAIL_TRANSPORT || (env.SMTP_HOST ? "smtp" : "file")).toLowerCase();
+
+  if (kind === "memory") {
+    return new MemoryMailTransport();
+  }
+  if (kind === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new Error("MAIL_TRANSPORT=smtp requires SMTP_HOST");
+    }
+    const port = parseInt(env.SMTP_PORT || "587");
+    return new SmtpMailTransport(
+      {
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      },
+      from,
+    );
+  }
+  return new FileMailTransport(env.MAIL_FILE_DIR || DEFAULT_MAIL_FILE_DIR, from);
+}
+
+export const mailTransport: MailTransport = createMailTransportFromEnv();
@@ -0,0 +1,15 @@
+export {
+  buildAuthorizationUrl,
+  clearOidcCaches,
+  createPkcePair,
+  createRandomToken,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  OidcError,
+  verifyIdToken,
+  type OidcAuthorizationRequest,
+  type OidcCodeExchange,
+  type OidcIdTokenClaims,
+  type OidcProviderMetadata,
+} from "./oidcClient";
+export { createMockOidcProvider, type MockOidcProviderOptions } from "./mockOidcProvider";
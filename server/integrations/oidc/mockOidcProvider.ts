@@ -0,0 +1,174 @@
+import { createHash, generateKeyPairSync, randomBytes } from "crypto";
+import express, { Router, type Request } from "express";
+import jwt from "jsonwebtoken";
+
+const CODE_TTL_MS = 60_000;
+const ID_TOKEN_TTL_SECONDS = 300;
+
+export interface MockOidcProviderOptions {
+  // Public URL the router is mounted at, e.g. http://localhost:5000/mock-oidc
+  issuer: string;
+}
+
+interface PendingAuthorization {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  email: string;
+  expiresAt: number;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+}
+
+function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function namesFromEmail(email: string): { given_name: string; family_name: string } {
+  const [first = "Test", last = "User"] = email
+    .split("@")[0]
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1));
+  return { given_name: first, family_name: last };
+}
+
+function renderSignInPage(req: Request): string {
+  const hiddenFields = Object.entries(req.query)
+    .filter(([name, value]) => name !== "login_hint" && typeof value === "string")
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value as string)}">`)
+    .join("");
+  return `<!doctype html>
+<html><head><title>Mock OIDC sign-in</title></head>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+<h1>Mock identity provider</h1>
+<p>Enter any email address to sign in as that user. Nothing is checked.</p>
+<form method="get" action="authorize">${hiddenFields}
+<input type="email" name="login_hint" required autofocus style="width: 100%; padding: .5rem">
+<button type="submit" style="margin-top: 1rem; padding: .5rem 1rem">Continue</button>
+</form></body></html>`;
+}
+
+/**
+ * A minimal OpenID Connect provider for local development and tests. It signs
+ * in whoever's email is given as `login_hint` (or typed into its form), issues
+ * single-use authorization codes bound to PKCE, and signs ID tokens with a key
+ * generated at startup. Never mount it in production.
+ */
+export function createMockOidcProvider(options: MockOidcProviderOptions): Router {
+  const issuer = options.issuer.replace(/\/+$/, "");
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const keyId = randomBytes(8).toString("hex");
+  const pendingCodes = new Map<string, PendingAuthorization>();
+  const router = Router();
+
+  router.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+  });
+
+  router.get("/jwks", (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" }] });
+  });
+
+  router.get("/authorize", (req, res) => {
+    const clientId = queryString(req, "client_id");
+    const redirectUri = queryString(req, "redirect_uri");
+    const state = queryString(req, "state");
+    const codeChallenge = queryString(req, "code_challenge");
+    if (
+      queryString(req, "response_type") !== "code" ||
+      queryString(req, "code_challenge_method") !== "S256" ||
+      !clientId ||
+      !redirectUri ||
+      !codeChallenge
+    ) {
+      res.status(400).send("Invalid authorization request");
+      return;
+    }
+
+    const email = queryString(req, "login_hint")?.trim().toLowerCase();
+    if (!email || !email.includes("@")) {
+      res.type("html").send(renderSignInPage(req));
+      return;
+    }
+
+    const code = randomBytes(24).toString("base64url");
+    pendingCodes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge,
+      nonce: queryString(req, "nonce"),
+      email,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const callback = new URL(redirectUri);
+    callback.searchParams.set("code", code);
+    if (state) {
+      callback.searchParams.set("state", state);
+    }
+    res.redirect(302, callback.toString());
+  });
+
+  router.post("/token", express.urlencoded({ extended: false }), (req, res) => {
+    const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body as Record<string, string | undefined>;
+    const pending = code ? pendingCodes.get(code) : undefined;
+    if (code) {
+      pendingCodes.delete(code);
+    }
+
+    const verifierChallenge = code_verifier
+      ? createHash("sha256").update(code_verifier).digest("base64url")
+      : undefined;
+    if (
+      grant_type !== "authorization_code" ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.clientId !== client_id ||
+      pending.redirectUri !== redirect_uri ||
+      pending.codeChallenge !== verifierChallenge
+    ) {
+      res.status(400).json({ error: "invalid_grant" });
+      return;
+    }
+
+    const domain = pending.email.split("@")[1];
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: pending.clientId,
+        sub: createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+        email: pending.email,
+        email_verified: true,
+        hd: domain,
+        ...namesFromEmail(pending.email),
+      },
+      privateKey,
+      { algorithm: "RS256", keyid: keyId, expiresIn: ID_TOKEN_TTL_SECONDS },
+    );
+
+    res.json({
+      access_token: randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: ID_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    });
+  });
+
+  return router;
+}
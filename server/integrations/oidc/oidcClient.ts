@@ -0,0 +1,235 @@
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from "crypto";
+import jwt from "jsonwebtoken";
+
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "ES256", "ES384", "PS256"];
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  hd?: string;
+}
+
+export interface OidcAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  loginHint?: string;
+}
+
+export interface OidcCodeExchange {
+  clientId: string;
+  clientSecret?: string | null;
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+    Object.setPrototypeOf(this, OidcError.prototype);
+  }
+}
+
+type Fetch = typeof fetch;
+
+interface CachedEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const metadataCache = new Map<string, CachedEntry<OidcProviderMetadata>>();
+const jwksCache = new Map<string, CachedEntry<JsonWebKey[]>>();
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+export function createRandomToken(bytes = 32): string {
+  return base64Url(randomBytes(bytes));
+}
+
+/** PKCE (RFC 7636) verifier and S256 challenge. */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = createRandomToken(48);
+  return { verifier, challenge: base64Url(createHash("sha256").update(verifier).digest()) };
+}
+
+async function fetchJson(url: string, init: RequestInit, fetchImpl: Fetch): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new OidcError(`Could not reach ${url}: ${error instanceof Error ? error.message : "network error"}`);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body || typeof body !== "object") {
+    const reason = body && typeof body === "object" && "error" in body ? String(body.error) : `HTTP ${response.status}`;
+    throw new OidcError(`Request to ${url} failed: ${reason}`);
+  }
+  return body as Record<string, unknown>;
+}
+
+/** Loads and caches the provider's `.well-known/openid-configuration`. */
+export async function discoverOidcProvider(issuer: string, fetchImpl: Fetch = fetch): Promise<OidcProviderMetadata> {
+  const normalizedIssuer = issuer.replace(/\/+$/, "");
+  const cached = metadataCache.get(normalizedIssuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const document = await fetchJson(`${normalizedIssuer}/.well-known/openid-configuration`, {}, fetchImpl);
+  const endpoints = ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const;
+  for (const key of endpoints) {
+    if (typeof document[key] !== "string") {
+      throw new OidcError(`Discovery document is missing ${key}`);
+    }
+  }
+  // OpenID Connect Discovery requires the advertised issuer to match the one we were configured with
+  if (typeof document.issuer !== "string" || document.issuer.replace(/\/+$/, "") !== normalizedIssuer) {
+    throw new OidcError("Discovery document issuer does not match the configured issuer");
+  }
+
+  const metadata: OidcProviderMetadata = {
+    issuer: document.issuer,
+    authorization_endpoint: document.authorization_endpoint as string,
+    token_endpoint: document.token_endpoint as string,
+    jwks_uri: document.jwks_uri as string,
+  };
+  metadataCache.set(normalizedIssuer, { value: metadata, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+  return metadata;
+}
+
+export function buildAuthorizationUrl(metadata: OidcProviderMetadata, request: OidcAuthorizationRequest): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("client_id", request.clientId);
+  url.searchParams.set("redirect_uri", request.redirectUri);
+  url.searchParams.set("state", request.state);
+  url.searchParams.set("nonce", request.nonce);
+  url.searchParams.set("code_challenge", request.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  if (request.loginHint) {
+    url.searchParams.set("login_hint", request.loginHint);
+  }
+  return url.toString();
+}
+
+/** Exchanges an authorization code for tokens and returns the raw ID token. */
+export async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  exchange: OidcCodeExchange,
+  fetchImpl: Fetch = fetch,
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: exchange.code,
+    redirect_uri: exchange.redirectUri,
+    client_id: exchange.clientId,
+    code_verifier: exchange.codeVerifier,
+  });
+  if (exchange.clientSecret) {
+    body.set("client_secret", exchange.clientSecret);
+  }
+
+  const tokens = await fetchJson(
+    metadata.token_endpoint,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body,
+    },
+    fetchImpl,
+  );
+  if (typeof tokens.id_token !== "string") {
+    throw new OidcError("Token response did not include an ID token");
+  }
+  return tokens.id_token;
+}
+
+async function loadSigningKeys(jwksUri: string, fetchImpl: Fetch, forceRefresh: boolean): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (!forceRefresh && cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const document = await fetchJson(jwksUri, {}, fetchImpl);
+  const keys = Array.isArray(document.keys) ? (document.keys as JsonWebKey[]) : [];
+  jwksCache.set(jwksUri, { value: keys, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+  return keys;
+}
+
+// Providers rotate keys, so an unknown key id triggers one fresh JWKS download before giving up
+async function findSigningKey(jwksUri: string, kid: string | undefined, fetchImpl: Fetch): Promise<KeyObject> {
+  for (const forceRefresh of [false, true]) {
+    const keys = await loadSigningKeys(jwksUri, fetchImpl, forceRefresh);
+    const candidates = keys.filter((key) => key.use !== "enc" && (!kid || key.kid === kid));
+    if (candidates.length > 0) {
+      return createPublicKey({ key: candidates[0], format: "jwk" });
+    }
+  }
+  throw new OidcError("No matching signing key for the ID token");
+}
+
+/** Verifies the ID token signature, issuer, audience, expiry and nonce, and returns its claims. */
+export async function verifyIdToken(
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  expected: { clientId: string; nonce: string },
+  fetchImpl: Fetch = fetch,
+): Promise<OidcIdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new OidcError("ID token is not a valid JWT");
+  }
+
+  const key = await findSigningKey(metadata.jwks_uri, decoded.header.kid, fetchImpl);
+  let claims: OidcIdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: expected.clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as OidcIdTokenClaims;
+  } catch (error) {
+    throw new OidcError(`ID token rejected: ${error instanceof Error ? error.message : "verification failed"}`);
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw new OidcError("ID token nonce does not match the sign-in request");
+  }
+  if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+    throw new OidcError("ID token has no subject");
+  }
+  return claims;
+}
+
+export function clearOidcCaches(): void {
+  metadataCache.clear();
+  jwksCache.clear();
+}
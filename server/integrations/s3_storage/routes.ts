@@ -1,5 +1,7 @@
 import type { Express } from "express";
 import multer from "multer";
+import { requireAuth } from "../../domains/auth";
+import { getMeteredReservationId, meterUsage, plansService } from "../../domains/plans";
 import {
   ObjectStorageService,
   ObjectNotFoundError,
@@ -22,7 +24,7 @@ export function registerObjectStorageRoutes(app: Express): void {
    * This serves files from object storage. For public files, no auth needed.
    * For protected files, add authentication middleware and ACL checks.
    */
-  app.post("/api/uploads/file", upload.single("file"), async (req, res) => {
+  app.post("/api/uploads/file", requireAuth, upload.single("file"), meterUsage("storage_bytes", (req) => req.file?.size ?? 0), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file provided" });
@@ -42,6 +44,13 @@ export function registerObjectStorageRoutes(app: Express): void {
               originalName: req.file.originalname,
             });
 
+      const reservationId = getMeteredReservationId(res);
+      if (reservationId !== undefined) {
+        await plansService.attachUploadedObject(reservationId, objectPath).catch((error) => {
+          console.error("Error linking upload to storage usage:", error);
+        });
+      }
+
       res.json({ objectPath });
     } catch (error) {
       console.error("Error uploading file:", error);
@@ -1,7 +1,11 @@
-import type { Response, NextFunction } from 'express';
-import type { AuthenticatedRequest } from '../domains/auth';
+import type { Request, Response, NextFunction } from 'express';
+import { authService, type AuthenticatedRequest } from '../domains/auth';
 import { projectsStorage } from '../domains/projects/projects.storage';
 import { assessmentStorage } from '../domains/assessments/assessments.storage';
+import { guardiansStorage } from '../domains/guardians/guardians.storage';
+import { isGuardianApiPath } from '../../shared/guardians';
+import { isDistrictAdminApiPath } from '../../shared/districts';
+import { UserRole } from '../../shared/schema';
 import { handleEntityNotFound, handleAuthorizationError, handleRouteError } from '../utils/routeHelpers';
 
 /**
@@ -118,6 +122,55 @@ export const checkAssessmentAccess = (options: Partial<ResourceAccessOptions> =
 export const checkSubmissionAccess = (options: Partial<ResourceAccessOptions> = {}) => 
   checkResourceAccess({ ...options, resourceType: 'submission' });
 
+/**
+ * Guardians and district admins never pass the role checks above; none of the
+ * defaults list them, and neither belongs to a school. Their sessions are
+ * fenced to their own API areas instead, and every per-student guardian route
+ * also checks the guardian is linked to that student.
+ */
+export function restrictScopedRoleRoutes(req: Request, res: Response, next: NextFunction) {
+  const accessToken: string | undefined = req.cookies?.access_token;
+  const payload = accessToken ? authService.verifyAccessToken(accessToken) : null;
+  const path = req.baseUrl + req.path;
+  if (payload?.role === UserRole.GUARDIAN && !isGuardianApiPath(path)) {
+    return handleAuthorizationError(res, "Guardian accounts can only view their linked students");
+  }
+  if (payload?.role === UserRole.DISTRICT_ADMIN && !isDistrictAdminApiPath(path)) {
+    return handleAuthorizationError(res, "District admin accounts can only use the district console");
+  }
+  next();
+}
+
+/**
+ * Guardian access to one linked student, read from the route param
+ */
+export function checkGuardianStudentAccess(paramName: string = 'studentId') {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return handleAuthorizationError(res, "User not authenticated");
+      }
+      if (user.role !== UserRole.GUARDIAN) {
+        return handleAuthorizationError(res, "Insufficient role permissions");
+      }
+
+      const studentId = parseInt(req.params[paramName]);
+      if (isNaN(studentId)) {
+        return res.status(400).json({ message: `Invalid ${paramName}` });
+      }
+
+      // Unlinked and unknown students look the same so guardians can't probe for accounts
+      if (!(await guardiansStorage.hasLink(user.id, studentId))) {
+        return handleEntityNotFound(res, 'student');
+      }
+      next();
+    } catch (error) {
+      handleRouteError(res, error, 'check guardian access');
+    }
+  };
+}
+
 /**
  * Student-specific access middleware for their own submissions/projects
  */
@@ -11,8 +11,19 @@ import { aiRouter } from "./domains/ai";
 import { competenciesRouter } from "./domains/competencies";
 import { notificationsRouter } from "./domains/notifications";
 import { safetyIncidentsRouter } from "./domains/safety-incidents";
+import { rosterRouter } from "./domains/roster";
+import { classesRouter } from "./domains/classes";
+import { guardiansRouter } from "./domains/guardians";
+import { districtsRouter } from "./domains/districts";
+import { plansRouter } from "./domains/plans";
+import { auditRouter } from "./domains/audit";
+import { aiUsageRouter, trackAiUsageRequest } from "./domains/ai-usage";
+import { promptRouter } from "./domains/prompts";
 import { contactRouter } from "./domains/contact";
 import { registerObjectStorageRoutes } from "./integrations/s3_storage";
+import { APP_BASE_URL } from "./integrations/mail";
+import { createMockOidcProvider } from "./integrations/oidc";
+import { restrictScopedRoleRoutes } from "./middleware/resourceAccess";
 
 export function setupRoutes(app: Express) {
   app.get("/api/health", (_req, res) => {
@@ -22,6 +33,12 @@ export function setupRoutes(app: Express) {
     });
   });
 
+  // Guardian sessions only reach the guardian API; checked before any domain router runs
+  app.use("/api", restrictScopedRoleRoutes);
+
+  // Lets model calls made while handling a request be charged to its user and school
+  app.use("/api", trackAiUsageRequest);
+
   // Mount all domain routers
   app.use("/api/auth", authRouter);
   app.use("/api/projects", projectsRouter);
@@ -45,10 +62,23 @@ export function setupRoutes(app: Express) {
   app.use("/api/notifications", notificationsRouter);
   app.use("/api/safety-incidents", safetyIncidentsRouter);
   app.use("/api/teacher", teacherRouter);
+  app.use("/api/classes", classesRouter);
+  app.use("/api/guardian", guardiansRouter);
+  app.use("/api/districts", districtsRouter);
+  app.use("/api/plans", plansRouter);
+  app.use("/api/admin/roster", rosterRouter);
+  app.use("/api/admin/audit-logs", auditRouter);
+  app.use("/api/admin/ai-usage", aiUsageRouter);
+  app.use("/api/admin/prompts", promptRouter);
   app.use("/api/admin", adminRouter);
   app.use("/api/analytics", analyticsRouter);
   app.use("/api/contact", contactRouter);
 
+  // Local identity provider for trying single sign-on without a real Google Workspace or OIDC tenant
+  if (process.env.OIDC_MOCK_PROVIDER === "true" && process.env.NODE_ENV !== "production") {
+    app.use("/mock-oidc", createMockOidcProvider({ issuer: `${APP_BASE_URL}/mock-oidc` }));
+  }
+
   // Register object storage routes for file uploads
   registerObjectStorageRoutes(app);
 
@@ -1,5 +1,4 @@
-import { AzureOpenAI } from "openai";
-import type { ChatCompletion } from "openai/resources/chat/completions";
+import { llmProvider, type LlmFeature, type LlmProvider } from "../integrations/llm";
 import { sanitizeForPrompt } from "../middleware/security";
 import { AIServiceError, parseAIServiceError, createErrorContext } from "../utils/errorTypes";
 
@@ -11,13 +10,10 @@ import { AIServiceError, parseAIServiceError, createErrorContext } from "../util
  */
 
 export interface AIServiceConfig {
-  apiKey?: string;
-  endpoint?: string;
-  deployment?: string;
-  apiVersion?: string;
+  provider?: LlmProvider;
+  feature?: LlmFeature;
   maxTokens?: number;
   temperature?: number;
-  timeout?: number;
 }
 
 export interface AIMessage {
@@ -52,27 +48,16 @@ export interface AIGenerationOptions {
 }
 
 export abstract class BaseAIService {
-  protected openai: AzureOpenAI;
-  protected config: Required<AIServiceConfig>;
+  protected llm: LlmProvider;
+  protected config: Required<Omit<AIServiceConfig, 'provider'>>;
 
   constructor(config: AIServiceConfig = {}) {
+    this.llm = config.provider || llmProvider;
     this.config = {
-      apiKey: config.apiKey || process.env.AZURE_OPENAI_API_KEY || process.env.AZURE_GPT41_API_KEY || "",
-      endpoint: config.endpoint || process.env.AZURE_OPENAI_ENDPOINT || "https://trueaimopenai.openai.azure.com",
-      deployment: config.deployment || process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o",
-      apiVersion: config.apiVersion || process.env.AZURE_OPENAI_API_VERSION || "2025-01-01-preview",
+      feature: config.feature || 'generation',
       maxTokens: config.maxTokens || 1500,
       temperature: config.temperature || 0.7,
-      timeout: config.timeout || 30000,
     };
-
-    this.openai = new AzureOpenAI({
-      apiKey: this.config.apiKey,
-      endpoint: this.config.endpoint,
-      deployment: this.config.deployment,
-      apiVersion: this.config.apiVersion,
-      timeout: this.config.timeout,
-    });
   }
 
   /**
@@ -83,35 +68,25 @@ export abstract class BaseAIService {
     options: AIGenerationOptions = {}
   ): Promise<AIResponse> {
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.config.deployment,
+      const completion = await this.llm.complete({
+        feature: this.config.feature,
         messages,
-        max_tokens: options.maxTokens || this.config.maxTokens,
+        maxTokens: options.maxTokens || this.config.maxTokens,
         temperature: options.temperature || this.config.temperature,
-        top_p: options.topP,
-        frequency_penalty: options.frequencyPenalty,
-        presence_penalty: options.presencePenalty,
-        stream: false,
-      }) as ChatCompletion;
-
-      const choice = completion.choices[0];
-      if (!choice || !choice.message?.content) {
-        throw new AIServiceError('No valid response generated', 'OpenAI', undefined, 'generateResponse');
+        topP: options.topP,
+        frequencyPenalty: options.frequencyPenalty,
+        presencePenalty: options.presencePenalty,
+      });
+
+      if (!completion.content) {
+        throw new AIServiceError('No valid response generated', this.llm.name, undefined, 'generateResponse');
       }
 
-      return {
-        content: choice.message.content,
-        usage: completion.usage ? {
-          promptTokens: completion.usage.prompt_tokens,
-          completionTokens: completion.usage.completion_tokens,
-          totalTokens: completion.usage.total_tokens,
-        } : undefined,
-        model: completion.model,
-        finishReason: choice.finish_reason || undefined,
-      };
+      return completion;
     } catch (error) {
       const context = createErrorContext('generateResponse', undefined, {
-        deployment: this.config.deployment,
+        provider: this.llm.name,
+        model: this.llm.modelFor(this.config.feature),
         messageCount: messages.length
       });
       
@@ -5,10 +5,10 @@ import {
   assessments as assessmentsTable,
   componentSkills as componentSkillsTable,
   safetyIncidents as safetyIncidentsTable,
-  notifications as notificationsTable,
   projects as projectsTable,
   milestones as milestonesTable
 } from "../../shared/schema";
+import { notificationService } from "../domains/notifications";
 
 interface SafetyIncident {
   studentId: number;
@@ -122,8 +122,8 @@ export async function notifyTeacherOfSafetyIncident(incident: SafetyIncident): P
     });
 
     // Create in-app notifications for the targeted teachers
-    const notificationPromises = teachersToNotify.map(teacher => 
-      db.insert(notificationsTable).values({
+    await notificationService.createNotifications(
+      teachersToNotify.map(teacher => ({
         userId: teacher.id,
         type: 'safety_incident',
         title: (incident.incidentType.includes('homicidal') || incident.incidentType.includes('suicidal'))
@@ -138,11 +138,9 @@ export async function notifyTeacherOfSafetyIncident(incident: SafetyIncident): P
         },
         priority: (incident.incidentType.includes('homicidal') || incident.incidentType.includes('suicidal')) ? 'high' : 'medium',
         read: false
-      })
+      }))
     );
 
-    await Promise.all(notificationPromises);
-
   } catch (error) {
     console.error("Error notifying teachers of safety incident:", error);
   }
@@ -2,6 +2,8 @@
  * Standardized error types and utilities for consistent error handling
  */
 
+import type { QuotaExceededDetails } from '../../shared/plans';
+
 export interface ApiErrorResponse {
   code: string;
   message: string;
@@ -41,6 +43,7 @@ export class AppError extends Error {
     switch (statusCode) {
       case 400: return 'VALIDATION_ERROR';
       case 401: return 'UNAUTHORIZED';
+      case 402: return 'QUOTA_EXCEEDED';
       case 403: return 'FORBIDDEN';
       case 404: return 'NOT_FOUND';
       case 409: return 'CONFLICT';
@@ -102,6 +105,22 @@ export class ConflictError extends AppError {
   }
 }
 
+export class QuotaExceededError extends AppError {
+  public readonly quota: QuotaExceededDetails;
+
+  constructor(message: string, quota: QuotaExceededDetails, context?: string) {
+    super(message, 402, 'QUOTA_EXCEEDED', context);
+    this.quota = quota;
+  }
+
+  toJSON(): ApiErrorResponse & { quota: QuotaExceededDetails } {
+    return {
+      ...super.toJSON(),
+      quota: this.quota,
+    };
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded', context?: string) {
     super(message, 429, 'RATE_LIMITED', context);
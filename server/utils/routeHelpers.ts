@@ -1,6 +1,7 @@
 import type { Response } from 'express';
-import type { AuthenticatedRequest } from '../domains/auth';
+import type { AuthenticatedRequest, IAuthStorage } from '../domains/auth';
 import type { ApiErrorPayload } from '../../shared/contracts/api';
+import { AppError, QuotaExceededError } from './errorTypes';
 
 /**
  * Standardized error response utility to eliminate duplicated error handling
@@ -85,6 +86,10 @@ export function handleRouteError(
   action: string,
   statusCode: number = 500
 ): void {
+  if (error instanceof QuotaExceededError) {
+    sendQuotaExceededError(res, error);
+    return;
+  }
   createStandardErrorResponse(res, {
     message: `Failed to ${action}`,
     error: error as Error,
@@ -92,6 +97,33 @@ export function handleRouteError(
   });
 }
 
+/**
+ * Domain service error handler: client errors (AppError below 500) keep their
+ * status and message; anything else is logged and answered with the fallback
+ */
+export function sendDomainError(
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void {
+  if (error instanceof AppError && error.statusCode < 500) {
+    sendErrorResponse(res, { message: error.message, statusCode: error.statusCode });
+    return;
+  }
+  console.error(`${fallbackMessage}:`, error);
+  sendErrorResponse(res, { message: fallbackMessage, statusCode: 500, error });
+}
+
+/**
+ * Plan quota response: 402 with the plan, metric and limit so the client can explain it
+ */
+export function sendQuotaExceededError(
+  res: Response,
+  error: QuotaExceededError
+): void {
+  res.status(error.statusCode).json(error.toJSON());
+}
+
 /**
  * Entity not found response utility
  */
@@ -168,6 +200,31 @@ export function parseIntParam(
   return { value: parsed };
 }
 
+/**
+ * Parse an optional positive integer query value such as ?classId=
+ */
+export function parseOptionalIntQuery(queryValue: unknown): number | undefined {
+  const parsed = typeof queryValue === 'string' ? parseInt(queryValue) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * The signed-in admin's school, read from their stored account; answers 400
+ * and returns null when they have none
+ */
+export async function resolveSchoolId(
+  users: Pick<IAuthStorage, 'getUser'>,
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<number | null> {
+  const admin = await users.getUser(req.user!.id);
+  if (!admin?.schoolId) {
+    sendErrorResponse(res, { message: "Admin school not found", statusCode: 400 });
+    return null;
+  }
+  return admin.schoolId;
+}
+
 /**
  * Role checking utility
  */
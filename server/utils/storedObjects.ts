@@ -0,0 +1,37 @@
+import { parseFileUploadAnswer } from "../../shared/question-types";
+
+const OBJECT_PATH_PREFIX = "/objects/";
+
+function addObjectPaths(value: unknown, paths: Set<string>): void {
+  if (typeof value === "string") {
+    if (value.startsWith(OBJECT_PATH_PREFIX)) {
+      paths.add(value);
+      return;
+    }
+    // File-upload answers are stored as JSON strings inside submission responses
+    const file = value.startsWith("{") ? parseFileUploadAnswer(value) : null;
+    if (file?.objectPath.startsWith(OBJECT_PATH_PREFIX)) {
+      paths.add(file.objectPath);
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => addObjectPaths(item, paths));
+    return;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    Object.values(value).forEach((item) => addObjectPaths(item, paths));
+  }
+}
+
+/**
+ * Collects the uploaded-object paths referenced by deleted rows (URLs, artifact
+ * lists, submission responses) so their storage usage can be released.
+ */
+export function collectStoredObjectPaths(...values: unknown[]): string[] {
+  const paths = new Set<string>();
+  values.forEach((value) => addObjectPaths(value, paths));
+  return Array.from(paths);
+}
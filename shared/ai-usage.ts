@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/** What a model call is for; each feature can be routed to its own model and is costed separately. */
+export const LLM_FEATURES = ["tutor", "grading", "generation"] as const;
+export type LlmFeature = typeof LLM_FEATURES[number];
+
+export const LLM_FEATURE_LABELS: Record<LlmFeature, string> = {
+  tutor: "AI tutor",
+  grading: "Grading & feedback",
+  generation: "Content generation",
+};
+
+export const AI_CALL_OUTCOMES = ["success", "error"] as const;
+export type AiCallOutcome = typeof AI_CALL_OUTCOMES[number];
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices; override or add models with LLM_MODEL_PRICES. Models not listed (local ones) cost nothing.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+/** Providers report dated model names (`gpt-4o-2024-08-06`), so the longest listed prefix wins. */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): ModelPrice | null {
+  const name = model.toLowerCase();
+  const match = Object.keys(prices)
+    .filter((candidate) => name === candidate.toLowerCase() || name.startsWith(`${candidate.toLowerCase()}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/** Cost in millionths of a dollar; at a price per million tokens, each token costs its price in micro-dollars. */
+export function estimateCostMicros(price: ModelPrice | null, promptTokens: number, completionTokens: number): number {
+  if (!price) {
+    return 0;
+  }
+  return Math.round(promptTokens * price.input + completionTokens * price.output);
+}
+
+export function microsToUsd(micros: number): number {
+  return micros / 1_000_000;
+}
+
+export function formatUsd(amount: number): string {
+  return amount.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 1 ? 4 : 2,
+  });
+}
+
+export const DEFAULT_AI_BUDGET_ALERT_PERCENT = 80;
+
+export const aiBudgetUpdateSchema = z.object({
+  // null turns budget alerts off
+  monthlyBudgetUsd: z.number().positive().max(1_000_000).nullable(),
+  alertThresholdPercent: z.number().int().min(1).max(99).default(DEFAULT_AI_BUDGET_ALERT_PERCENT),
+});
+
+export type AiBudgetUpdateInput = z.input<typeof aiBudgetUpdateSchema>;
+
+export const aiUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+/**
+ * Budget percentages the school's month-to-date spend has reached: the alert
+ * threshold, then 100 once the budget is spent. Each is alerted once a month.
+ */
+export function findReachedBudgetLevels(spentMicros: number, budgetCents: number, alertThresholdPercent: number): number[] {
+  const budgetMicros = budgetCents * 10_000;
+  return [alertThresholdPercent, 100].filter((percent) => spentMicros * 100 >= budgetMicros * percent);
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+export const AUDIT_ACTIONS = [
+  "user.create",
+  "user.delete",
+  "user.password_reset",
+  "user.force_logout",
+  "submission.grade",
+  "project.delete",
+  "assessment.delete",
+  "portfolio_artifact.visibility",
+  "safety_incident.resolve",
+  "prompt.create_version",
+  "prompt.activate",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_TARGET_TYPES = [
+  "user",
+  "submission",
+  "project",
+  "assessment",
+  "portfolio_artifact",
+  "safety_incident",
+  "prompt_version",
+] as const;
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "user.create": "Created user",
+  "user.delete": "Deleted user",
+  "user.password_reset": "Reset password",
+  "user.force_logout": "Signed out user",
+  "submission.grade": "Graded submission",
+  "project.delete": "Deleted project",
+  "assessment.delete": "Deleted assessment",
+  "portfolio_artifact.visibility": "Changed portfolio visibility",
+  "safety_incident.resolve": "Resolved safety incident",
+  "prompt.create_version": "Saved AI prompt version",
+  "prompt.activate": "Activated AI prompt version",
+};
+
+export type AuditSnapshot = Record<string, unknown>;
+
+/** Only the fields that changed; `before` is null for creations and `after` is null for deletions. */
+export interface AuditChanges {
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+export const auditLogQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  // Matches the actor's username or the target's label
+  search: z.string().trim().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type AuditLogQuery = z.output<typeof auditLogQuerySchema>;
+export type AuditLogQueryInput = z.input<typeof auditLogQuerySchema>;
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullish()
+    .transform((value) => value || null);
+
+export const classInputSchema = z.object({
+  name: z.string().trim().min(1, "Class name is required").max(255),
+  period: optionalText(100),
+  term: optionalText(255),
+  classCode: optionalText(100),
+  // Admins can create a class for a teacher in their school; teachers always own what they create
+  teacherId: z.number().int().positive().optional(),
+});
+
+export type ClassInput = z.input<typeof classInputSchema>;
+
+export const classUpdateSchema = classInputSchema.partial().extend({
+  archived: z.boolean().optional(),
+});
+
+export type ClassUpdate = z.input<typeof classUpdateSchema>;
+
+export const classStudentsSchema = z.object({
+  studentIds: z.array(z.number().int().positive()).min(1, "Choose at least one student").max(500),
+});
+
+export const classAssignmentInputSchema = z.union([
+  z.object({ projectId: z.number().int().positive() }).strict(),
+  z.object({ assessmentId: z.number().int().positive() }).strict(),
+]);
+
+export type ClassAssignmentInput = z.input<typeof classAssignmentInputSchema>;
+
+export function classLabel(schoolClass: { name: string; period: string | null }): string {
+  return schoolClass.period ? `${schoolClass.name} (Period ${schoolClass.period})` : schoolClass.name;
+}
@@ -9,6 +9,18 @@ import type {
   Submission,
   User,
 } from "../schema";
+import type { MatchingPair, QuestionType } from "../question-types";
+import type { EmailDelivery, NotificationType } from "../notification-preferences";
+import type { SchoolSsoProviderInput, SsoDomainRule } from "../school-sso";
+import type { RosterImportSummary, RosterIssue } from "../oneroster";
+import type { ClassAssignmentInput, ClassInput, ClassUpdate } from "../classes";
+import type { GuardianLinkUpdate, GuardianRedeemInput, GuardianRegisterInput } from "../guardians";
+import type { DistrictTemplatePublishInput, ProjectTemplateMilestone } from "../districts";
+import type { PlanId, SchoolPlanUpdateInput, UsageMetric } from "../plans";
+import type { AuditAction, AuditChanges, AuditLogQueryInput, AuditTargetType } from "../audit";
+import type { AiBudgetUpdateInput, LlmFeature } from "../ai-usage";
+import type { PromptKey, PromptVersionCreateInput } from "../prompts";
+import type { TutorMisconception, TutorTurnRole } from "../tutor-stream";
 
 export type AuthUserDTO = Omit<User, "password">;
 export type ProjectDTO = Project;
@@ -50,6 +62,13 @@ export interface NotificationMetadataDTO {
   [key: string]: unknown;
 }
 
+export interface NotificationPreferenceDTO {
+  type: NotificationType;
+  emailDelivery: EmailDelivery;
+  // Urgent types are always emailed immediately and can't be changed
+  locked: boolean;
+}
+
 export interface AssessmentSubmissionGradeDTO {
   id: number;
   submissionId: number;
@@ -76,13 +95,20 @@ export interface AssessmentSubmissionSummaryDTO {
   grade?: string | number | null;
   grades?: AssessmentSubmissionGradeDTO[];
   assessmentId?: number;
+  startedAt?: Date | string | null;
+  isLate?: boolean;
+  autoGradeResult?: MultipleChoiceScoreDTO | null;
+  attemptNumber?: number;
+  previousSubmissionId?: number | null;
 }
 
 export interface StudentAssessmentQuestionDTO {
   id: string | number;
   text: string;
-  type?: "open-ended" | "multiple-choice" | "short-answer" | string;
+  type?: QuestionType | string;
   options?: string[] | string;
+  prompts?: string[];
+  tolerance?: number;
   rubricCriteria?: string | null;
   [key: string]: unknown;
 }
@@ -114,6 +140,7 @@ export interface StudentAssessmentSubmissionDTO {
   responses?: Record<string, string> | StudentAssessmentResponseDTO[] | null;
   submittedAt?: Date | string | null;
   feedback?: string | null;
+  attemptNumber?: number;
   status?: "graded" | "submitted" | "draft";
   earnedCredentials?: CredentialDTO[];
   questionGrades?: Record<string, { score: number; rubricLevel?: string | null; feedback?: string | null }>;
@@ -177,6 +204,57 @@ export interface TeacherDashboardStatsDTO {
   upcomingDeadlines: number;
 }
 
+export type CredentialReportPeriod = "30d" | "90d" | "365d" | "all";
+
+export interface CredentialReportEntryDTO {
+  id: number;
+  studentId: number | null;
+  studentName: string;
+  type: CredentialDTO["type"];
+  title: string;
+  componentSkillName: string | null;
+  competencyName: string | null;
+  subjectArea: string | null;
+  awardedAt: Date | string | null;
+  status: "approved" | "pending" | "revoked";
+  revokedAt: Date | string | null;
+  revokedReason: string | null;
+}
+
+export interface CredentialReportBreakdownDTO {
+  id: number;
+  name: string;
+  count: number;
+}
+
+export interface TeacherCredentialReportDTO {
+  period: CredentialReportPeriod;
+  totals: {
+    awarded: number;
+    pending: number;
+    revoked: number;
+    studentsRecognized: number;
+  };
+  byType: Record<CredentialDTO["type"], number>;
+  byComponentSkill: CredentialReportBreakdownDTO[];
+  byCompetency: CredentialReportBreakdownDTO[];
+  /** Awards per week for short periods, per month for a year or more. */
+  timeline: Array<{ bucket: string; count: number }>;
+  pending: CredentialReportEntryDTO[];
+  recent: CredentialReportEntryDTO[];
+}
+
+export interface OpenBadgeVerificationDTO {
+  /** True only when the signature is valid and the credential has not been revoked. */
+  verified: boolean;
+  signatureValid: boolean;
+  revoked: boolean;
+  revokedAt: Date | string | null;
+  credentialId: number | null;
+  issuerName: string | null;
+  errors: string[];
+}
+
 export interface AdminAnalyticsDashboardDTO {
   totalUsers: number;
   activeUsers: number;
@@ -292,6 +370,433 @@ export interface AuthRegisterRequestDTO {
   schoolId?: number;
 }
 
+export interface AuthForgotPasswordRequestDTO {
+  identifier: string;
+}
+
+export interface AuthResetPasswordRequestDTO {
+  token: string;
+  newPassword: string;
+}
+
+export interface AuthConfirmEmailRequestDTO {
+  token: string;
+}
+
+export interface AuthSessionDTO {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: Date | string | null;
+  lastUsedAt: Date | string | null;
+  current: boolean;
+}
+
+export interface SsoDiscoveryDTO {
+  schoolId: number;
+  displayName: string;
+  startUrl: string;
+}
+
+export interface SchoolSsoProviderDTO {
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  allowedDomains: SsoDomainRule[];
+  enabled: boolean;
+  updatedAt: Date | string | null;
+}
+
+export interface SchoolSsoSettingsDTO {
+  provider: SchoolSsoProviderDTO | null;
+  // Callback URL to register with the identity provider
+  redirectUri: string;
+}
+
+export type SchoolSsoProviderRequestDTO = SchoolSsoProviderInput;
+
+export interface SchoolClassDTO {
+  id: number;
+  name: string;
+  period: string | null;
+  term: string | null;
+  classCode: string | null;
+  teacherId: number | null;
+  teacherName: string | null;
+  // Kept in sync by roster imports; edits may be overwritten by the next import
+  rosterManaged: boolean;
+  archivedAt: Date | string | null;
+  studentCount: number;
+}
+
+export interface ClassStudentDTO {
+  id: number;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  grade: string | null;
+}
+
+export interface ClassAssignmentDTO {
+  id: number;
+  type: "project" | "assessment";
+  itemId: number;
+  title: string;
+  dueDate: Date | string | null;
+  assignedAt: Date | string | null;
+}
+
+export interface SchoolClassDetailDTO extends SchoolClassDTO {
+  students: ClassStudentDTO[];
+  assignments: ClassAssignmentDTO[];
+}
+
+export type ClassCreateRequestDTO = ClassInput;
+export type ClassUpdateRequestDTO = ClassUpdate;
+export type ClassAssignmentRequestDTO = ClassAssignmentInput;
+
+export interface StudentClassAssessmentDTO {
+  assessmentId: number;
+  title: string;
+  description: string | null;
+  dueDate: Date | string | null;
+  classId: number;
+  className: string;
+}
+
+export interface GuardianInviteDTO {
+  id: number;
+  code: string;
+  studentId: number;
+  expiresAt: Date | string;
+  createdAt: Date | string | null;
+}
+
+export interface StudentGuardianDTO {
+  linkId: number;
+  guardianId: number;
+  name: string;
+  email: string | null;
+  linkedAt: Date | string | null;
+}
+
+export interface StudentGuardiansDTO {
+  guardians: StudentGuardianDTO[];
+  openInvites: GuardianInviteDTO[];
+}
+
+// Same shape the teacher-facing student progress view reads, limited to fields a family may see
+export interface GuardianStudentProgressDTO {
+  id: number;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  grade: string | null;
+  schoolName: string | null;
+  weeklySummary: boolean;
+  projects: Array<{
+    projectId: number | null;
+    projectTitle: string | null;
+    projectDescription: string | null;
+    projectStatus: string | null;
+    teacherName: string | null;
+  }>;
+  credentials: Array<{
+    id: number;
+    title: string;
+    description: string | null;
+    type: string;
+    awardedAt: Date | string | null;
+  }>;
+  competencyProgress: Array<{
+    competencyId: number;
+    competencyName: string;
+    componentSkillId: number | null;
+    componentSkillName: string;
+    averageScore: number;
+    submissionCount: number;
+  }>;
+  totalCredentials: number;
+  stickers: number;
+  badges: number;
+  plaques: number;
+}
+
+export interface GuardianPortfolioArtifactDTO {
+  id: number;
+  title: string;
+  description: string | null;
+  artifactUrl: string | null;
+  artifactType: string | null;
+  projectTitle: string | null;
+  milestoneTitle: string | null;
+  createdAt: Date | string | null;
+}
+
+export interface GuardianStudentPortfolioDTO {
+  studentId: number;
+  artifacts: GuardianPortfolioArtifactDTO[];
+  credentials: GuardianStudentProgressDTO["credentials"];
+}
+
+export type GuardianRegisterRequestDTO = GuardianRegisterInput;
+export type GuardianRedeemRequestDTO = GuardianRedeemInput;
+export type GuardianLinkUpdateRequestDTO = GuardianLinkUpdate;
+
+export interface DistrictSchoolDTO {
+  id: number;
+  name: string;
+  city: string | null;
+  state: string | null;
+}
+
+export interface DistrictDTO {
+  id: number;
+  name: string;
+  state: string | null;
+  frameworkPublishedAt: Date | string | null;
+  schools: DistrictSchoolDTO[];
+}
+
+export interface DistrictSchoolUsageDTO {
+  schoolId: number;
+  schoolName: string;
+  students: number;
+  teachers: number;
+  /** Accounts updated in the last 30 days, matching the school admin dashboard. */
+  activeUsers: number;
+  projects: number;
+  activeProjects: number;
+  submissionsLast30Days: number;
+}
+
+export interface DistrictUsageReportDTO {
+  overview: AdminAnalyticsDashboardDTO;
+  schools: DistrictSchoolUsageDTO[];
+}
+
+export interface DistrictSkillMasterySchoolDTO {
+  schoolId: number;
+  schoolName: string;
+  studentsAssessed: number;
+  averageScore: number;
+  passRate: number;
+}
+
+export interface DistrictSkillMasteryDTO {
+  componentSkillId: number;
+  name: string;
+  competencyName: string;
+  learnerOutcomeName: string;
+  studentsAssessed: number;
+  averageScore: number;
+  passRate: number;
+  rubricDistribution: {
+    emerging: number;
+    developing: number;
+    proficient: number;
+    applying: number;
+  };
+  schools: DistrictSkillMasterySchoolDTO[];
+}
+
+export interface DistrictSkillMasteryReportDTO {
+  skills: DistrictSkillMasteryDTO[];
+  /** Per school, averaged over every skill weighted by the students assessed in it. */
+  schools: Array<Omit<DistrictSkillMasterySchoolDTO, "studentsAssessed"> & { skillsAssessed: number }>;
+}
+
+export interface DistrictCredentialReportDTO extends Omit<TeacherCredentialReportDTO, "pending" | "recent"> {
+  schools: Array<{ schoolId: number; schoolName: string } & TeacherCredentialReportDTO["totals"]>;
+}
+
+export interface DistrictProjectOptionDTO {
+  id: number;
+  title: string;
+  status: Project["status"];
+  schoolId: number;
+  schoolName: string;
+  teacherName: string | null;
+}
+
+export interface DistrictProjectTemplateDTO {
+  id: number;
+  sourceProjectId: number | null;
+  title: string;
+  description: string | null;
+  subjectArea: string | null;
+  gradeLevel: string | null;
+  estimatedDuration: string | null;
+  componentSkillIds: number[];
+  bestStandardIds: number[];
+  learningOutcomes: string[];
+  milestones: ProjectTemplateMilestone[];
+  publishedAt: Date | string | null;
+}
+
+export interface DistrictFrameworkPublishDTO {
+  publishedAt: Date | string;
+  schoolsUpdated: number;
+}
+
+export type DistrictTemplatePublishRequestDTO = DistrictTemplatePublishInput;
+
+export interface PlanUsageItemDTO {
+  metric: UsageMetric;
+  /** This month for AI metrics; running total for storage and projects. */
+  used: number;
+  limit: number | null;
+}
+
+export interface PlanUsageDTO {
+  planId: PlanId;
+  /** School users share their school's plan; users without a school have their own free plan. */
+  scope: "school" | "personal";
+  periodStart: Date | string;
+  usage: PlanUsageItemDTO[];
+}
+
+export interface DistrictSchoolPlanDTO extends PlanUsageDTO {
+  schoolId: number;
+  schoolName: string;
+}
+
+export type SchoolPlanUpdateRequestDTO = SchoolPlanUpdateInput;
+
+export interface AuditLogEntryDTO {
+  id: number;
+  actorId: number | null;
+  actorUsername: string;
+  actorRole: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: number;
+  targetLabel: string | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  createdAt: Date | string;
+}
+
+export interface AuditLogPageDTO {
+  entries: AuditLogEntryDTO[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type AuditLogQueryDTO = AuditLogQueryInput;
+
+export interface AiUsageTotalsDTO {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface AiUsageFeatureDTO extends AiUsageTotalsDTO {
+  feature: LlmFeature;
+}
+
+export interface AiUsageModelDTO extends AiUsageTotalsDTO {
+  provider: string;
+  model: string;
+}
+
+/** Cost per feature for one UTC day. */
+export interface AiUsageDayDTO extends Record<LlmFeature, number> {
+  date: string;
+}
+
+export interface AiBudgetDTO {
+  /** Null when budget alerts are off. */
+  monthlyBudgetUsd: number | null;
+  alertThresholdPercent: number;
+  monthToDateCostUsd: number;
+  periodStart: Date | string;
+}
+
+export interface AiUsageSummaryDTO {
+  since: Date | string;
+  days: number;
+  totals: AiUsageTotalsDTO;
+  features: AiUsageFeatureDTO[];
+  models: AiUsageModelDTO[];
+  daily: AiUsageDayDTO[];
+  budget: AiBudgetDTO;
+}
+
+export type AiBudgetUpdateRequestDTO = AiBudgetUpdateInput;
+
+/** Month-to-date cost per feature for one school in the district. */
+export interface DistrictSchoolAiCostDTO extends Record<LlmFeature, number> {
+  schoolId: number;
+  schoolName: string;
+  costUsd: number;
+  monthlyBudgetUsd: number | null;
+}
+
+export interface PromptSummaryDTO {
+  key: PromptKey;
+  label: string;
+  description: string;
+  feature: LlmFeature;
+  activeVersion: number;
+  latestVersion: number;
+  activatedAt: Date | string | null;
+}
+
+export interface PromptVersionDTO {
+  version: number;
+  systemPrompt: string;
+  userTemplate: string;
+  notes: string | null;
+  isActive: boolean;
+  createdBy: number | null;
+  createdAt: Date | string | null;
+  activatedAt: Date | string | null;
+}
+
+export interface PromptDetailDTO extends PromptSummaryDTO {
+  variables: string[];
+  // Newest first; version 1 is the built-in prompt
+  versions: PromptVersionDTO[];
+  // Only platform operators can save and activate versions
+  canEdit: boolean;
+}
+
+export type PromptVersionCreateRequestDTO = PromptVersionCreateInput;
+
+export interface RosterImportDTO {
+  id: number;
+  status: "previewed" | "applied" | "failed";
+  fileNames: string[];
+  orgSourcedId: string | null;
+  summary: RosterImportSummary | null;
+  createdAt: Date | string | null;
+  appliedAt: Date | string | null;
+}
+
+export interface RosterChangeDTO {
+  kind: "user" | "class";
+  action: "create" | "update" | "deactivate" | "archive";
+  label: string;
+  detail: string | null;
+}
+
+export interface RosterImportPreviewDTO {
+  import: RosterImportDTO;
+  // School orgs in the bundle, for choosing one when the match is ambiguous
+  orgs: Array<{ sourcedId: string; name: string }>;
+  changes: RosterChangeDTO[];
+  // True when the change list was cut short; the summary always has the full counts
+  changesTruncated: boolean;
+  issues: RosterIssue[];
+}
+
 export type AuthRegisterResponseDTO = AuthUserDTO;
 export type AuthLoginResponseDTO = AuthUserDTO;
 export type AuthCurrentUserResponseDTO = AuthUserDTO;
@@ -336,11 +841,113 @@ export type ProjectUpdateRequestDTO = Partial<ProjectCreateRequestDTO>;
 
 export interface AssessmentQuestionDTO {
   text: string;
-  type?: "open-ended" | "multiple-choice" | "short-answer" | string;
+  type?: QuestionType | string;
   rubricCriteria?: string;
+  options?: string[];
+  correctAnswer?: string;
+  points?: number;
+  tolerance?: number;
+  pairs?: MatchingPair[];
   [key: string]: unknown;
 }
 
+export interface MultipleChoiceQuestionResultDTO {
+  questionId: string;
+  answer: string | null;
+  correctAnswer?: string;
+  isCorrect: boolean;
+  points: number;
+  earnedPoints: number;
+}
+
+export interface MultipleChoiceScoreDTO {
+  earnedPoints: number;
+  totalPoints: number;
+  percentage: number;
+  correctCount: number;
+  questionCount: number;
+  results: MultipleChoiceQuestionResultDTO[];
+}
+
+export interface ItemAnalysisOptionDTO {
+  option: string;
+  count: number;
+  percentage: number;
+  isCorrect: boolean;
+}
+
+export interface ItemAnalysisQuestionDTO {
+  questionId: string;
+  text: string;
+  correctAnswer: string;
+  points: number;
+  responseCount: number;
+  correctCount: number;
+  percentCorrect: number;
+  unansweredCount: number;
+  otherCount: number;
+  options: ItemAnalysisOptionDTO[];
+}
+
+export interface AssessmentItemAnalysisDTO {
+  assessmentId: number;
+  submissionCount: number;
+  questions: ItemAnalysisQuestionDTO[];
+}
+
+export interface TutorChatRequestDTO {
+  // Omit to start a new conversation; the `session` event returns its id
+  sessionId?: number | null;
+  assessmentId?: number | null;
+  componentSkill: { id: number; name: string; rubricLevels?: Record<string, string> | null };
+  message: string;
+  // Greeting the client showed before the first message, kept as the session's first tutor turn
+  openingMessage?: string;
+  currentEvaluation?: { selfAssessedLevel?: string; justification?: string; examples?: string };
+}
+
+export interface TutorSessionSummaryDTO {
+  id: number;
+  studentId: number;
+  studentName: string;
+  componentSkillId: number | null;
+  componentSkillName: string | null;
+  studentTurnCount: number;
+  // Most recent safety flag raised in the conversation
+  safetyFlag: string | null;
+  finalSummary: string | null;
+  completedAt: Date | string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface TutorTurnDTO {
+  id: number;
+  role: TutorTurnRole;
+  content: string;
+  suggestedLevel: string | null;
+  safetyFlag: string | null;
+  createdAt: Date | string;
+}
+
+export interface TutorSessionDetailDTO extends TutorSessionSummaryDTO {
+  turns: TutorTurnDTO[];
+}
+
+export interface TutorSkillMisconceptionsDTO {
+  componentSkillId: number;
+  componentSkillName: string;
+  // Conversations available to summarize now, excluding safety incidents
+  sessionCount: number;
+  summary: {
+    misconceptions: TutorMisconception[];
+    // Conversations the summary was generated from
+    sessionCount: number;
+    aiPromptVersion: string | null;
+    generatedAt: Date | string;
+  } | null;
+}
+
 export interface AIAssessmentGenerationRequestDTO {
   milestoneTitle: string;
   milestoneDescription: string;
@@ -366,6 +973,7 @@ export interface AIAssessmentGenerationResponseDTO {
   title: string;
   description: string;
   questions: AIAssessmentGeneratedQuestionDTO[];
+  promptVersion?: string;
 }
 
 export interface FileUploadResponseDTO {
@@ -381,11 +989,17 @@ export interface AssessmentCreateRequestDTO {
   componentSkillIds?: number[];
   dueDate?: string | Date | null;
   aiGenerated?: boolean;
+  aiPromptVersion?: string | null;
   assessmentType?: "teacher" | "self-evaluation";
   allowSelfEvaluation?: boolean;
   shareCode?: string | null;
   shareCodeExpiresAt?: string | Date | null;
   pdfUrl?: string | null;
+  timeLimitMinutes?: number | null;
+  availableFrom?: string | Date | null;
+  availableUntil?: string | Date | null;
+  latePolicy?: "accept" | "reject" | "flag";
+  maxAttempts?: number | null;
   createdBy?: number | null;
 }
 
@@ -399,6 +1013,46 @@ export interface SubmissionCreateRequestDTO {
   selfEvaluationData?: unknown;
 }
 
+export interface SubmissionDraftSaveRequestDTO {
+  responses: StudentAssessmentResponseDTO[];
+}
+
+export interface SubmissionDraftDTO {
+  id: number;
+  assessmentId: number;
+  responses: StudentAssessmentResponseDTO[];
+  lastSavedAt: Date | string | null;
+}
+
+export interface SubmissionAttemptDTO {
+  assessmentId: number;
+  startedAt: Date | string | null;
+  expiresAt: Date | string | null;
+  serverTime: Date | string;
+  attemptNumber: number;
+  maxAttempts: number | null;
+  previousSubmissionId: number | null;
+}
+
+export interface SubmissionAttemptHistoryItemDTO {
+  id: number;
+  attemptNumber: number;
+  previousSubmissionId: number | null;
+  responses: StudentAssessmentResponseDTO[];
+  submittedAt: Date | string | null;
+  gradedAt: Date | string | null;
+  feedback: string | null;
+  isLate: boolean;
+  grades: AssessmentSubmissionGradeDTO[];
+}
+
+export interface SubmissionAttemptHistoryDTO {
+  assessmentId: number;
+  studentId: number;
+  maxAttempts: number | null;
+  attempts: SubmissionAttemptHistoryItemDTO[];
+}
+
 export interface SubmissionFeedbackPreviewRequestDTO {
   assessmentId: number;
   responses?: unknown;
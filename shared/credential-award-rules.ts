@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+const rubricLevelSchema = z.enum(["emerging", "developing", "proficient", "applying"]);
+
+const ruleBaseSchema = {
+  enabled: z.boolean().default(true),
+  minLevel: rubricLevelSchema.default("proficient"),
+  // Awards wait as pending (approvedBy null) until a teacher approves them
+  requiresApproval: z.boolean().default(false),
+};
+
+export const credentialAwardRuleSchema = z.discriminatedUnion("kind", [
+  // A sticker per component skill once the student's current level reaches minLevel
+  z.object({ kind: z.literal("skill-sticker"), ...ruleBaseSchema }),
+  // A badge per competency once every one of its component skills reaches minLevel
+  z.object({ kind: z.literal("competency-badge"), ...ruleBaseSchema }),
+  // A plaque per subject area (learner outcome) once enough of its skills reach minLevel
+  z.object({
+    kind: z.literal("subject-plaque"),
+    ...ruleBaseSchema,
+    minSkillShare: z.number().gt(0).max(1).default(0.8),
+  }),
+]);
+
+export type CredentialAwardRule = z.infer<typeof credentialAwardRuleSchema>;
+export type CredentialAwardRuleKind = CredentialAwardRule["kind"];
+
+export const credentialAwardRulesSchema = z.array(credentialAwardRuleSchema).max(20);
+
+export const CREDENTIAL_AWARD_RULE_LABELS: Record<CredentialAwardRuleKind, string> = {
+  "skill-sticker": "Sticker per component skill",
+  "competency-badge": "Badge per competency",
+  "subject-plaque": "Plaque per subject area",
+};
+
+export const DEFAULT_CREDENTIAL_AWARD_RULES: CredentialAwardRule[] = [
+  { kind: "skill-sticker", enabled: true, minLevel: "proficient", requiresApproval: false },
+  { kind: "competency-badge", enabled: true, minLevel: "proficient", requiresApproval: false },
+  { kind: "subject-plaque", enabled: true, minLevel: "proficient", minSkillShare: 0.8, requiresApproval: true },
+];
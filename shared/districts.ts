@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export interface ProjectTemplateMilestone {
+  title: string;
+  description: string | null;
+  order: number;
+}
+
+export const districtTemplatePublishSchema = z.object({
+  projectId: z.number().int().positive(),
+});
+
+export type DistrictTemplatePublishInput = z.input<typeof districtTemplatePublishSchema>;
+
+// District admins belong to no school, so their sessions stay inside the district console
+const DISTRICT_ADMIN_API_PREFIXES = ["/api/auth", "/api/districts", "/api/notifications", "/api/competencies"];
+
+export function isDistrictAdminApiPath(path: string): boolean {
+  return DISTRICT_ADMIN_API_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+export const GUARDIAN_INVITE_TTL_DAYS = 14;
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes survive being read aloud or copied from paper
+export const GUARDIAN_INVITE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const GUARDIAN_INVITE_CODE_LENGTH = 8;
+
+/** Uppercases a typed invite code and drops the spaces and dashes families add when copying it. */
+export function normalizeGuardianInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/** Shows a code as two groups of four, e.g. "ABCD-EFGH". */
+export function formatGuardianInviteCode(code: string): string {
+  return code.length === GUARDIAN_INVITE_CODE_LENGTH ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+const inviteCodeSchema = z
+  .string()
+  .transform(normalizeGuardianInviteCode)
+  .pipe(z.string().length(GUARDIAN_INVITE_CODE_LENGTH, "Enter the 8-character invite code"));
+
+export const guardianInviteCreateSchema = z.object({
+  studentId: z.number().int().positive(),
+});
+
+export const guardianRedeemSchema = z.object({
+  code: inviteCodeSchema,
+});
+
+export type GuardianRedeemInput = z.input<typeof guardianRedeemSchema>;
+
+export const guardianRegisterSchema = z.object({
+  code: inviteCodeSchema,
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  firstName: z.string().trim().min(1, "First Name is required"),
+  lastName: z.string().trim().min(1, "Last Name is required"),
+  email: z.string().email("Invalid email address"),
+});
+
+export type GuardianRegisterInput = z.input<typeof guardianRegisterSchema>;
+
+export const guardianLinkUpdateSchema = z.object({
+  weeklySummary: z.boolean(),
+});
+
+export type GuardianLinkUpdate = z.input<typeof guardianLinkUpdateSchema>;
+
+// The only API areas a guardian session may reach; everything else answers 403 before any route runs
+const GUARDIAN_API_PREFIXES = ["/api/auth", "/api/guardian", "/api/notifications"];
+
+export function isGuardianApiPath(path: string): boolean {
+  return GUARDIAN_API_PREFIXES.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
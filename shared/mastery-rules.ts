@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+export const MASTERY_RULE_TYPES = [
+  "most-recent",
+  "highest",
+  "decaying-average",
+  "n-of-last-m",
+  "power-law",
+] as const;
+
+export type MasteryRuleType = (typeof MASTERY_RULE_TYPES)[number];
+
+export const MASTERY_RULE_LABELS: Record<MasteryRuleType, string> = {
+  "most-recent": "Most recent",
+  highest: "Highest",
+  "decaying-average": "Decaying average",
+  "n-of-last-m": "N of last M at level",
+  "power-law": "Power law",
+};
+
+export const MASTERY_RULE_DESCRIPTIONS: Record<MasteryRuleType, string> = {
+  "most-recent": "The latest rubric level replaces earlier evidence.",
+  highest: "The best rubric level the student has ever demonstrated.",
+  "decaying-average": "A weighted average where each new grade counts for a fixed share of the result.",
+  "n-of-last-m": "A level counts once the student reaches it N times within their last M grades.",
+  "power-law": "A learning-curve fit over all evidence, predicting the student's current level.",
+};
+
+export const masteryRuleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("most-recent") }),
+  z.object({ type: z.literal("highest") }),
+  z.object({
+    type: z.literal("decaying-average"),
+    // Share of the result carried by the newest grade
+    recentWeight: z.number().gt(0).max(1).default(0.65),
+  }),
+  z.object({
+    type: z.literal("n-of-last-m"),
+    required: z.number().int().min(1).max(10).default(3),
+    window: z.number().int().min(1).max(10).default(4),
+  }),
+  z.object({ type: z.literal("power-law") }),
+]).superRefine((rule, ctx) => {
+  if (rule.type === "n-of-last-m" && rule.required > rule.window) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["required"], message: "N cannot be larger than M" });
+  }
+});
+
+export type MasteryRule = z.infer<typeof masteryRuleSchema>;
+
+export const schoolMasteryRulesSchema = z.object({
+  defaultRule: masteryRuleSchema,
+  // Overrides keyed by component skill id
+  componentSkillRules: z.record(z.string().regex(/^\d+$/), masteryRuleSchema).default({}),
+});
+
+export type SchoolMasteryRules = z.infer<typeof schoolMasteryRulesSchema>;
+
+export const DEFAULT_MASTERY_RULE: MasteryRule = { type: "decaying-average", recentWeight: 0.65 };
+
+export const DEFAULT_SCHOOL_MASTERY_RULES: SchoolMasteryRules = {
+  defaultRule: DEFAULT_MASTERY_RULE,
+  componentSkillRules: {},
+};
+
+export function resolveMasteryRule(rules: SchoolMasteryRules | null | undefined, componentSkillId: number): MasteryRule {
+  return rules?.componentSkillRules[String(componentSkillId)] ?? rules?.defaultRule ?? DEFAULT_MASTERY_RULE;
+}
+
+export function describeMasteryRule(rule: MasteryRule): string {
+  switch (rule.type) {
+    case "decaying-average":
+      return `${MASTERY_RULE_LABELS[rule.type]} (${Math.round(rule.recentWeight * 100)}% newest)`;
+    case "n-of-last-m":
+      return `${rule.required} of last ${rule.window} at level`;
+    default:
+      return MASTERY_RULE_LABELS[rule.type];
+  }
+}
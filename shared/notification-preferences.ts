@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+export const NOTIFICATION_TYPES = [
+  "assignment",
+  "deadline",
+  "feedback",
+  "grade",
+  "credential",
+  "system",
+  "safety_incident",
+  "ai_budget",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const emailDeliverySchema = z.enum(["instant", "daily_digest", "off"]);
+export type EmailDelivery = z.infer<typeof emailDeliverySchema>;
+
+// Safety incidents always email immediately, whatever the recipient's preference says
+export const URGENT_NOTIFICATION_TYPES: readonly NotificationType[] = ["safety_incident"];
+
+export const DEFAULT_EMAIL_DELIVERY: EmailDelivery = "instant";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  assignment: "New assignments",
+  deadline: "Upcoming deadlines",
+  feedback: "Feedback",
+  grade: "Grades",
+  credential: "Credentials",
+  system: "System announcements",
+  safety_incident: "Safety incidents",
+  ai_budget: "AI budget alerts",
+};
+
+export const EMAIL_DELIVERY_LABELS: Record<EmailDelivery, string> = {
+  instant: "Email right away",
+  daily_digest: "Daily digest",
+  off: "In-app only",
+};
+
+export const notificationPreferencesUpdateSchema = z
+  .array(
+    z.object({
+      type: z.enum(NOTIFICATION_TYPES),
+      emailDelivery: emailDeliverySchema,
+    }),
+  )
+  .max(NOTIFICATION_TYPES.length);
+
+export type NotificationPreferencesUpdate = z.infer<typeof notificationPreferencesUpdateSchema>;
@@ -0,0 +1,79 @@
+import type { GradeLevel } from "./schema";
+
+// Files read from a OneRoster 1.2 CSV bundle; everything else in the bundle is ignored
+export const ONEROSTER_FILES = ["manifest.csv", "orgs.csv", "users.csv", "roles.csv", "classes.csv", "enrollments.csv", "academicSessions.csv"] as const;
+
+export type OneRosterFileName = (typeof ONEROSTER_FILES)[number];
+
+// Bulk files list everything, so records missing from them are deactivated; delta files only carry changes
+export type OneRosterFileMode = "bulk" | "delta";
+
+export type RosterRole = "student" | "teacher" | "admin";
+
+export interface RosterOrg {
+  sourcedId: string;
+  name: string;
+  type: string;
+  identifier: string | null;
+}
+
+export interface RosterUser {
+  sourcedId: string;
+  line: number;
+  active: boolean;
+  username: string | null;
+  email: string | null;
+  givenName: string | null;
+  familyName: string | null;
+  grade: GradeLevel | null;
+  // Role per org sourcedId, from users.csv (1.1) or roles.csv (1.2)
+  roles: Record<string, RosterRole>;
+  unsupportedRole: string | null;
+}
+
+export interface RosterClass {
+  sourcedId: string;
+  line: number;
+  active: boolean;
+  title: string;
+  classCode: string | null;
+  schoolSourcedId: string;
+  period: string | null;
+  term: string | null;
+}
+
+export interface RosterEnrollment {
+  sourcedId: string;
+  line: number;
+  active: boolean;
+  classSourcedId: string;
+  userSourcedId: string;
+  role: string;
+  primary: boolean;
+}
+
+export interface RosterIssue {
+  file: string;
+  line: number | null;
+  sourcedId: string | null;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface OneRosterBundle {
+  orgs: RosterOrg[];
+  users: RosterUser[];
+  classes: RosterClass[];
+  enrollments: RosterEnrollment[];
+  modes: { users: OneRosterFileMode; classes: OneRosterFileMode; enrollments: OneRosterFileMode };
+  issues: RosterIssue[];
+}
+
+export interface RosterImportSummary {
+  users: { create: number; update: number; deactivate: number; unchanged: number };
+  classes: { create: number; update: number; archive: number; unchanged: number };
+  enrollments: { add: number; remove: number };
+  schoolLinked: boolean;
+  errors: number;
+  warnings: number;
+}
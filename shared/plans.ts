@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+export const PLAN_IDS = ["free", "standard", "enterprise"] as const;
+export type PlanId = typeof PLAN_IDS[number];
+
+export const USAGE_METRICS = ["ai_generation", "thumbnail", "tutor_turn", "storage_bytes", "project"] as const;
+export type UsageMetric = typeof USAGE_METRICS[number];
+
+// Monthly metrics reset on the first of each month (UTC); storage and projects are running totals
+export const MONTHLY_USAGE_METRICS: readonly UsageMetric[] = ["ai_generation", "thumbnail", "tutor_turn"];
+
+/** `null` means unlimited. */
+export type PlanQuotas = Record<UsageMetric, number | null>;
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  description: string;
+  quotas: PlanQuotas;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: "free",
+    name: "Free",
+    description: "Individual teachers without a school account",
+    quotas: { ai_generation: 5, thumbnail: 5, tutor_turn: 200, storage_bytes: 250 * MB, project: 25 },
+  },
+  standard: {
+    id: "standard",
+    name: "Standard",
+    description: "A school with everyday AI use",
+    quotas: { ai_generation: 300, thumbnail: 100, tutor_turn: 10000, storage_bytes: 20 * GB, project: 500 },
+  },
+  enterprise: {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "Unlimited use for the whole school",
+    quotas: { ai_generation: null, thumbnail: null, tutor_turn: null, storage_bytes: null, project: null },
+  },
+};
+
+export const USAGE_METRIC_LABELS: Record<UsageMetric, string> = {
+  ai_generation: "AI generations",
+  thumbnail: "Thumbnails",
+  tutor_turn: "AI tutor messages",
+  storage_bytes: "File storage",
+  project: "Projects",
+};
+
+const QUOTA_UNITS: Record<UsageMetric, string> = {
+  ai_generation: "AI generations",
+  thumbnail: "thumbnails",
+  tutor_turn: "AI tutor messages",
+  storage_bytes: "of file storage",
+  project: "projects",
+};
+
+export const schoolPlanUpdateSchema = z.object({
+  planId: z.enum(PLAN_IDS),
+});
+
+export type SchoolPlanUpdateInput = z.input<typeof schoolPlanUpdateSchema>;
+
+/** Sent with 402 responses so the client can say which limit was hit. */
+export interface QuotaExceededDetails {
+  planId: PlanId;
+  metric: UsageMetric;
+  limit: number;
+  used: number;
+}
+
+export function getPlan(planId: string | null | undefined): PlanDefinition {
+  return PLANS[planId as PlanId] ?? PLANS.free;
+}
+
+export function getUsagePeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/** Null when `amount` more still fits in the plan, otherwise what the 402 response reports. */
+export function findQuotaExcess(
+  plan: PlanDefinition,
+  metric: UsageMetric,
+  used: number,
+  amount: number,
+): QuotaExceededDetails | null {
+  const limit = plan.quotas[metric];
+  if (limit === null || amount <= 0 || used + amount <= limit) {
+    return null;
+  }
+  return { planId: plan.id, metric, limit, used };
+}
+
+export function formatUsageAmount(metric: UsageMetric, amount: number): string {
+  if (metric !== "storage_bytes") {
+    return amount.toLocaleString();
+  }
+  if (amount >= GB) {
+    return `${Math.round((amount / GB) * 10) / 10} GB`;
+  }
+  return `${Math.round((amount / MB) * 10) / 10} MB`;
+}
+
+export function describeQuotaExcess({ planId, metric, limit }: QuotaExceededDetails): string {
+  const plan = getPlan(planId);
+  const allowance = `${formatUsageAmount(metric, limit)} ${QUOTA_UNITS[metric]}`;
+  return MONTHLY_USAGE_METRICS.includes(metric)
+    ? `The ${plan.name} plan includes ${allowance} a month, and this month's allowance is used up.`
+    : `The ${plan.name} plan includes ${allowance}, and that limit has been reached.`;
+}
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import type { LlmFeature } from "./ai-usage";
+
+export const PROMPT_KEYS = [
+  "project_ideas",
+  "project_milestones",
+  "skill_milestones",
+  "milestone_assessment",
+  "skill_assessment",
+  "assessment_questions",
+  "student_feedback",
+  "component_skill_grade",
+  "question_grade",
+  "question_feedback",
+  "credential_suggestions",
+  "self_evaluation_feedback",
+  "tutor_response",
+  "tutor_misconceptions",
+] as const;
+export type PromptKey = typeof PROMPT_KEYS[number];
+
+export function isPromptKey(value: string): value is PromptKey {
+  return (PROMPT_KEYS as readonly string[]).includes(value);
+}
+
+export interface PromptDefinition {
+  label: string;
+  description: string;
+  feature: LlmFeature;
+  // Placeholders the template may use as {{name}}
+  variables: readonly string[];
+}
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  project_ideas: {
+    label: "Project ideas",
+    description: "Three project ideas from a subject, topic, grade level, component skills and standards",
+    feature: "generation",
+    variables: ["subject", "topic", "gradeLevel", "duration", "componentSkills", "standards"],
+  },
+  project_milestones: {
+    label: "Project milestones",
+    description: "Milestones for an existing project from its title and description",
+    feature: "generation",
+    variables: ["title", "description", "gradeLevel", "duration"],
+  },
+  skill_milestones: {
+    label: "Milestones from component skills",
+    description: "Milestones that develop the component skills chosen for a new project",
+    feature: "generation",
+    variables: ["projectTitle", "projectDescription", "projectDueDate", "componentSkills"],
+  },
+  milestone_assessment: {
+    label: "Milestone assessment",
+    description: "An assessment for a milestone from its title and description",
+    feature: "generation",
+    variables: ["title", "description", "dueDate"],
+  },
+  skill_assessment: {
+    label: "Assessment from component skills",
+    description: "An assessment with a set number and mix of questions covering component skills and standards",
+    feature: "generation",
+    variables: [
+      "milestoneTitle",
+      "milestoneDescription",
+      "milestoneDueDate",
+      "referenceDocument",
+      "componentSkills",
+      "standards",
+      "questionCount",
+      "questionTypes",
+    ],
+  },
+  assessment_questions: {
+    label: "Assessment questions",
+    description: "Tutor-generated practice questions for a milestone",
+    feature: "generation",
+    variables: ["milestoneDescription", "learningObjectives", "difficulty"],
+  },
+  student_feedback: {
+    label: "Submission feedback",
+    description: "Overall feedback to a student from their responses and grades",
+    feature: "grading",
+    variables: ["responses", "grades"],
+  },
+  component_skill_grade: {
+    label: "Component skill grading",
+    description: "Rubric level, score and feedback for one component skill on a submission",
+    feature: "grading",
+    variables: [
+      "skillName",
+      "skillDescription",
+      "competencyName",
+      "learnerOutcomeName",
+      "questionResponses",
+      "referenceDocument",
+    ],
+  },
+  question_grade: {
+    label: "Question grading",
+    description: "A 0-100 score and rationale for one answer",
+    feature: "grading",
+    variables: ["question", "answer", "rubricCriteria", "sampleAnswer", "referenceDocument"],
+  },
+  question_feedback: {
+    label: "Question feedback",
+    description: "Two or three sentences of feedback on one answer at a chosen rubric level",
+    feature: "grading",
+    variables: ["question", "answer", "rubricLevel"],
+  },
+  credential_suggestions: {
+    label: "Credential suggestions",
+    description: "Micro-credentials a graded submission has earned",
+    feature: "grading",
+    variables: ["projectTitle", "grades", "responses"],
+  },
+  self_evaluation_feedback: {
+    label: "Self-evaluation feedback and safety check",
+    description: "Screens a self-evaluation for risky content, then suggests how to reach the next level",
+    feature: "tutor",
+    variables: ["skillName", "assessmentDescription", "rubricLevels", "selfAssessedLevel", "justification", "examples"],
+  },
+  tutor_response: {
+    label: "AI tutor reply and safety check",
+    description: "The tutor's next chat message, suggested level and safety flag",
+    feature: "tutor",
+    variables: [
+      "skillName",
+      "currentLevel",
+      "assessmentDescription",
+      "assessmentPdfContext",
+      "finalTurnNote",
+      "rubricLevels",
+      "history",
+      "latestStudentMessage",
+      "recentTutorMessages",
+    ],
+  },
+  tutor_misconceptions: {
+    label: "Tutor misconceptions summary",
+    description: "Common misunderstandings across students' tutor conversations for one component skill",
+    feature: "tutor",
+    variables: ["skillName", "rubricLevels", "sessionCount", "conversations"],
+  },
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** Placeholder names used in a template, in order of first use. */
+export function findTemplateVariables(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(TEMPLATE_VARIABLE), (match) => match[1])));
+}
+
+/** Fills `{{name}}` placeholders; placeholders without a value render as empty text. */
+export function renderPromptTemplate(template: string, variables: Record<string, string | number>): string {
+  return template.replace(TEMPLATE_VARIABLE, (_match, name: string) =>
+    variables[name] === undefined ? "" : String(variables[name]),
+  );
+}
+
+/** Placeholders in a template that the prompt never fills. */
+export function findUnknownPromptVariables(key: PromptKey, template: string): string[] {
+  const known = new Set(PROMPT_DEFINITIONS[key].variables);
+  return findTemplateVariables(template).filter((name) => !known.has(name));
+}
+
+/** How an output names the prompt that produced it, e.g. `tutor_response@v3`. */
+export function formatPromptVersion(key: PromptKey, version: number): string {
+  return `${key}@v${version}`;
+}
+
+export const promptVersionCreateSchema = z.object({
+  // Empty sends the template as a single user message
+  systemPrompt: z.string().trim().max(20000).default(""),
+  userTemplate: z.string().trim().min(1).max(50000),
+  notes: z.string().trim().max(500).optional(),
+  activate: z.boolean().default(false),
+});
+
+export type PromptVersionCreateInput = z.input<typeof promptVersionCreateSchema>;
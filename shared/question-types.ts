@@ -0,0 +1,220 @@
+// Question types and answer encodings shared by the assessment editor, the
+// student player, teacher review and AI grading. Answers are always stored as
+// strings; structured answers (ranking, matching, file upload) are JSON-encoded.
+
+export const QUESTION_TYPES = [
+  "open-ended",
+  "multiple-choice",
+  "short-answer",
+  "file-upload",
+  "ranking",
+  "matching",
+  "numeric",
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  "open-ended": "Open-ended",
+  "multiple-choice": "Multiple Choice",
+  "short-answer": "Short Answer",
+  "file-upload": "File Upload",
+  ranking: "Ranking / Ordering",
+  matching: "Matching Pairs",
+  numeric: "Numeric",
+};
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface FileUploadAnswer {
+  objectPath: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string");
+}
+
+export function parseQuestionOptions(value: unknown): string[] {
+  const options = typeof value === "string" ? parseJson(value) : value;
+  if (!Array.isArray(options)) {
+    return [];
+  }
+
+  return options.filter((option): option is string => typeof option === "string" && option.trim().length > 0);
+}
+
+export function parseMatchingPairs(value: unknown): MatchingPair[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((pair) => {
+    if (typeof pair !== "object" || pair === null) {
+      return [];
+    }
+    const { left, right } = pair as Record<string, unknown>;
+    if (typeof left !== "string" || typeof right !== "string" || !left.trim() || !right.trim()) {
+      return [];
+    }
+    return [{ left: left.trim(), right: right.trim() }];
+  });
+}
+
+export function parseRankingAnswer(answer: string | null | undefined): string[] | null {
+  if (!answer) {
+    return null;
+  }
+  const parsed = parseJson(answer);
+  return Array.isArray(parsed) && parsed.every((item) => typeof item === "string") ? parsed : null;
+}
+
+export function parseMatchingAnswer(answer: string | null | undefined): Record<string, string> | null {
+  if (!answer) {
+    return null;
+  }
+  const parsed = parseJson(answer);
+  return isStringRecord(parsed) ? parsed : null;
+}
+
+export function parseFileUploadAnswer(answer: string | null | undefined): FileUploadAnswer | null {
+  if (!answer) {
+    return null;
+  }
+  const parsed = parseJson(answer);
+  if (typeof parsed !== "object" || parsed === null) {
+    return null;
+  }
+
+  const { objectPath, name, contentType, size } = parsed as Record<string, unknown>;
+  if (typeof objectPath !== "string" || !objectPath) {
+    return null;
+  }
+
+  return {
+    objectPath,
+    name: typeof name === "string" && name ? name : "Uploaded file",
+    contentType: typeof contentType === "string" ? contentType : "application/octet-stream",
+    size: typeof size === "number" ? size : 0,
+  };
+}
+
+export function parseNumericAnswer(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Null when either side is not a number, so callers can tell "wrong" from
+ * "not gradable".
+ */
+export function isNumericAnswerWithinTolerance(
+  answer: unknown,
+  correctAnswer: unknown,
+  tolerance: unknown,
+): boolean | null {
+  const value = parseNumericAnswer(answer);
+  const expected = parseNumericAnswer(correctAnswer);
+  if (value === null || expected === null) {
+    return null;
+  }
+  const allowedDifference = Math.abs(parseNumericAnswer(tolerance) ?? 0);
+  // Small epsilon so 0.1 + 0.2 style float noise doesn't fail an exact match
+  return Math.abs(value - expected) <= allowedDifference + 1e-9;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(Math.random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+  return shuffled;
+}
+
+/**
+ * Removes answer keys before an assessment is sent to a student. Ranking items
+ * are stored in their correct order and matching questions as pairs, so both
+ * are shuffled into a student-facing shape as well.
+ */
+export function stripAnswerKeys<T extends { questions?: unknown }>(assessment: T): T {
+  if (!Array.isArray(assessment.questions)) {
+    return assessment;
+  }
+
+  return {
+    ...assessment,
+    questions: assessment.questions.map((question) => {
+      if (typeof question !== "object" || question === null) {
+        return question;
+      }
+      const { correctAnswer: _correctAnswer, sampleAnswer: _sampleAnswer, pairs, ...rest } =
+        question as Record<string, unknown>;
+
+      if (rest.type === "ranking") {
+        return { ...rest, options: shuffle(parseQuestionOptions(rest.options)) };
+      }
+
+      if (rest.type === "matching") {
+        const matchingPairs = parseMatchingPairs(pairs);
+        return {
+          ...rest,
+          prompts: matchingPairs.map((pair) => pair.left),
+          options: shuffle(matchingPairs.map((pair) => pair.right)),
+        };
+      }
+
+      return rest;
+    }),
+  };
+}
+
+/**
+ * Plain-text rendering of a stored answer, used by teacher review and AI prompts.
+ */
+export function formatAnswerForDisplay(type: unknown, answer: string | null | undefined): string {
+  if (!answer || !answer.trim()) {
+    return "";
+  }
+
+  if (type === "ranking") {
+    const order = parseRankingAnswer(answer);
+    return order ? order.map((item, index) => `${index + 1}. ${item}`).join("\n") : answer;
+  }
+
+  if (type === "matching") {
+    const matches = parseMatchingAnswer(answer);
+    return matches
+      ? Object.entries(matches).map(([left, right]) => `${left} → ${right}`).join("\n")
+      : answer;
+  }
+
+  if (type === "file-upload") {
+    const file = parseFileUploadAnswer(answer);
+    return file ? `Uploaded file: ${file.name} (${file.contentType})` : answer;
+  }
+
+  return answer;
+}
@@ -7,21 +7,37 @@ import {
   index,
   serial,
   integer,
+  bigint,
   boolean,
   decimal,
   uuid,
   json,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { InferSelectModel } from 'drizzle-orm';
+import type { SchoolMasteryRules } from "./mastery-rules";
+import type { CredentialAwardRule } from "./credential-award-rules";
+import type { EmailDelivery } from "./notification-preferences";
+import type { SsoDomainRule } from "./school-sso";
+import type { OneRosterBundle, RosterImportSummary, RosterIssue } from "./oneroster";
+import type { ProjectTemplateMilestone } from "./districts";
+import { PLAN_IDS, USAGE_METRICS } from "./plans";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, type AuditChanges } from "./audit";
+import { AI_CALL_OUTCOMES, DEFAULT_AI_BUDGET_ALERT_PERCENT, LLM_FEATURES } from "./ai-usage";
+import { PROMPT_KEYS } from "./prompts";
+import { TUTOR_TURN_ROLES, type TutorMisconception } from "./tutor-stream";
 
 // Define UserRole enum for type safety
 export enum UserRole {
   ADMIN = 'admin',
   TEACHER = 'teacher',
-  STUDENT = 'student'
+  STUDENT = 'student',
+  GUARDIAN = 'guardian',
+  DISTRICT_ADMIN = 'district_admin'
 }
 
 export enum UserTier {
@@ -32,9 +48,11 @@ export enum UserTier {
 // Role utilities
 export const USER_ROLES = Object.values(UserRole);
 export const ROLE_HIERARCHY = {
+  [UserRole.DISTRICT_ADMIN]: 4,
   [UserRole.ADMIN]: 3,
   [UserRole.TEACHER]: 2,
   [UserRole.STUDENT]: 1,
+  [UserRole.GUARDIAN]: 0,
 } as const;
 
 // Session storage table.
@@ -48,14 +66,32 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Districts group schools; district admins report across them and publish shared templates and frameworks
+export const districts = pgTable("districts", {
+  id: serial("id").primaryKey(),
+  name: varchar("name").notNull(),
+  state: varchar("state"),
+  masteryRules: jsonb("mastery_rules").$type<SchoolMasteryRules>(), // Published to every school in the district; null uses the default rule
+  credentialAwardRules: jsonb("credential_award_rules").$type<CredentialAwardRule[]>(),
+  frameworkPublishedAt: timestamp("framework_published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Schools table
 export const schools = pgTable("schools", {
   id: serial("id").primaryKey(),
   name: varchar("name").notNull(),
+  districtId: integer("district_id").references(() => districts.id, { onDelete: "set null" }),
   address: varchar("address"),
   city: varchar("city"),
   state: varchar("state"),
   zipCode: varchar("zip_code"),
+  masteryRules: jsonb("mastery_rules").$type<SchoolMasteryRules>(), // How grade history rolls up into a current rubric level; null uses the default rule
+  credentialAwardRules: jsonb("credential_award_rules").$type<CredentialAwardRule[]>(), // Which stickers, badges and plaques are awarded automatically; null uses the default rules
+  rosterSourcedId: varchar("roster_sourced_id", { length: 255 }), // OneRoster org sourcedId once a roster import has linked the school
+  planId: varchar("plan_id", { enum: PLAN_IDS }).notNull().default("enterprise"), // Quotas for AI use, storage and projects; users without a school are on the free plan
+  aiMonthlyBudgetCents: integer("ai_monthly_budget_cents"), // Estimated model spend per month before admins are alerted; null turns alerts off
+  aiBudgetAlertPercent: integer("ai_budget_alert_percent").notNull().default(DEFAULT_AI_BUDGET_ALERT_PERCENT), // Early warning, as a share of the budget
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -67,17 +103,19 @@ export const users = pgTable("users", {
   firstName: varchar("first_name", { length: 255 }),
   lastName: varchar("last_name", { length: 255 }),
   email: varchar("email", { length: 255 }),
+  emailVerifiedAt: timestamp("email_verified_at"), // Set when the user follows an email confirmation or password reset link
   schoolName: varchar("school_name", { length: 255 }),
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default(UserRole.STUDENT),
   grade: varchar("grade", { length: 32 }),
   schoolId: integer("school_id").references(() => schools.id),
+  districtId: integer("district_id").references(() => districts.id, { onDelete: "set null" }), // District admins only; everyone else belongs to a school
   tier: varchar("tier", { enum: ["free", "enterprise"] }).notNull().default("free"),
-  projectGenerationCount: integer("project_generation_count").default(0),
-  lastProjectGenerationDate: timestamp("last_project_generation_date"),
+  rosterSourcedId: varchar("roster_sourced_id", { length: 255 }), // OneRoster user sourcedId; imports match on it so re-running is idempotent
+  deactivatedAt: timestamp("deactivated_at"), // Deactivated users can't sign in; set when a roster import drops them
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("users_school_roster_idx").on(table.schoolId, table.rosterSourcedId)]);
 
 // Authentication tokens table
 export const authTokens = pgTable("auth_tokens", {
@@ -87,8 +125,39 @@ export const authTokens = pgTable("auth_tokens", {
   type: varchar("type", { enum: ["refresh", "reset", "confirmation"] }).notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  // Refresh tokens only: every rotation of one login shares a sessionId
+  sessionId: varchar("session_id", { length: 64 }),
+  userAgent: varchar("user_agent", { length: 512 }),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  lastUsedAt: timestamp("last_used_at"),
+  rotatedAt: timestamp("rotated_at"), // Set once replaced; presenting a rotated token again revokes the session
+});
+
+// One OpenID Connect provider per school; users sign in through it when their email domain is allowed
+export const schoolSsoProviders = pgTable("school_sso_providers", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull().unique(),
+  displayName: varchar("display_name", { length: 100 }).notNull(),
+  issuer: varchar("issuer", { length: 512 }).notNull(),
+  clientId: varchar("client_id", { length: 255 }).notNull(),
+  clientSecret: varchar("client_secret", { length: 512 }),
+  allowedDomains: jsonb("allowed_domains").$type<SsoDomainRule[]>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Links an identity provider account (issuer + subject) to a local user
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  issuer: varchar("issuer", { length: 512 }).notNull(),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastLoginAt: timestamp("last_login_at"),
+}, (table) => [uniqueIndex("user_identities_issuer_subject_idx").on(table.issuer, table.subject)]);
+
 // XQ 3-Level Hierarchy: Learner Outcomes → Competencies → Component Skills
 export const learnerOutcomes = pgTable("learner_outcomes", {
   id: serial("id").primaryKey(),
@@ -159,6 +228,7 @@ export const milestones = pgTable("milestones", {
   dueDate: timestamp("due_date"),
   order: integer("order").default(0),
   aiGenerated: boolean("ai_generated").default(false),
+  aiPromptVersion: varchar("ai_prompt_version", { length: 64 }), // Prompt that generated it, e.g. "skill_milestones@v2"
   deliverableUrl: varchar("deliverable_url"),
   deliverableFileName: varchar("deliverable_file_name"),
   deliverableDescription: text("deliverable_description"),
@@ -215,9 +285,196 @@ export const notifications = pgTable("notifications", {
   priority: varchar("priority", { length: 20 }).default("medium"),
   createdAt: timestamp("created_at").defaultNow(),
   readAt: timestamp("read_at"),
+  emailStatus: varchar("email_status", { enum: ["sent", "pending_digest", "skipped", "failed"] }), // null until the email channel has handled it
+  emailedAt: timestamp("emailed_at"),
 });
 
 export type Notification = InferSelectModel<typeof notifications>;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+// Per-user email delivery choice for each notification type; missing rows use the default delivery
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(),
+  emailDelivery: varchar("email_delivery", { length: 20 }).$type<EmailDelivery>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("notification_preferences_user_type_idx").on(table.userId, table.type)]);
+
+export type NotificationPreference = InferSelectModel<typeof notificationPreferences>;
+
+// Classes (sections) taught by a teacher in one school; created by teachers or kept in sync by roster imports
+export const classes = pgTable("classes", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  teacherId: integer("teacher_id").references(() => users.id, { onDelete: "set null" }),
+  classCode: varchar("class_code", { length: 100 }),
+  period: varchar("period", { length: 100 }),
+  term: varchar("term", { length: 255 }),
+  rosterSourcedId: varchar("roster_sourced_id", { length: 255 }),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("classes_school_roster_idx").on(table.schoolId, table.rosterSourcedId)]);
+
+export const classEnrollments = pgTable("class_enrollments", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  enrolledAt: timestamp("enrolled_at").defaultNow(),
+}, (table) => [uniqueIndex("class_enrollments_class_student_idx").on(table.classId, table.studentId)]);
+
+// A project or standalone assessment given to every student in a class, including students enrolled later
+export const classAssignments = pgTable("class_assignments", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id, { onDelete: "cascade" }).notNull(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  assessmentId: integer("assessment_id").references(() => assessments.id, { onDelete: "cascade" }),
+  assignedBy: integer("assigned_by").references(() => users.id, { onDelete: "set null" }),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("class_assignments_class_project_idx").on(table.classId, table.projectId),
+  uniqueIndex("class_assignments_class_assessment_idx").on(table.classId, table.assessmentId),
+]);
+
+// Parents or guardians linked to the students whose progress they can see (read-only)
+export const guardianLinks = pgTable("guardian_links", {
+  id: serial("id").primaryKey(),
+  guardianId: integer("guardian_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  weeklySummary: boolean("weekly_summary").notNull().default(true), // Guardian opted in to the weekly progress email for this student
+  lastSummarySentAt: timestamp("last_summary_sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("guardian_links_guardian_student_idx").on(table.guardianId, table.studentId)]);
+
+// Single-use codes staff hand to a family; redeeming one links the guardian to the student
+export const guardianInvites = pgTable("guardian_invites", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 32 }).notNull().unique(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  redeemedBy: integer("redeemed_by").references(() => users.id, { onDelete: "set null" }),
+  redeemedAt: timestamp("redeemed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Snapshot of a project a district admin published; schools copy it into a new draft project
+export const districtProjectTemplates = pgTable("district_project_templates", {
+  id: serial("id").primaryKey(),
+  districtId: integer("district_id").references(() => districts.id, { onDelete: "cascade" }).notNull(),
+  sourceProjectId: integer("source_project_id").references(() => projects.id, { onDelete: "set null" }),
+  publishedBy: integer("published_by").references(() => users.id, { onDelete: "set null" }),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  subjectArea: varchar("subject_area"),
+  gradeLevel: varchar("grade_level"),
+  estimatedDuration: varchar("estimated_duration"),
+  componentSkillIds: jsonb("component_skill_ids").$type<number[]>().default([]),
+  bestStandardIds: jsonb("best_standard_ids").$type<number[]>().default([]),
+  learningOutcomes: jsonb("learning_outcomes").$type<string[]>().default([]),
+  requiredResources: jsonb("required_resources").$type<string[]>().default([]),
+  milestones: jsonb("milestones").$type<ProjectTemplateMilestone[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("district_project_templates_district_idx").on(table.districtId)]);
+
+// Metered plan usage. School users count against their school; users without a school against themselves
+export const usageLedger = pgTable("usage_ledger", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  metric: varchar("metric", { enum: USAGE_METRICS }).notNull(),
+  quantity: bigint("quantity", { mode: "number" }).notNull(),
+  objectPath: text("object_path"), // Uploaded file a storage_bytes entry is for, so deleting it frees the space
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("usage_ledger_school_metric_idx").on(table.schoolId, table.metric, table.createdAt),
+  index("usage_ledger_user_metric_idx").on(table.userId, table.metric, table.createdAt),
+  index("usage_ledger_object_path_idx").on(table.objectPath),
+]);
+
+// One row per model call; cost is estimated from the model's price when the call is made
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  feature: varchar("feature", { enum: LLM_FEATURES }).notNull(),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 255 }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costMicros: bigint("cost_micros", { mode: "number" }).notNull().default(0), // Millionths of a US dollar
+  latencyMs: integer("latency_ms").notNull(),
+  outcome: varchar("outcome", { enum: AI_CALL_OUTCOMES }).notNull(),
+  errorMessage: text("error_message"),
+  promptKey: varchar("prompt_key", { enum: PROMPT_KEYS }),
+  promptVersion: integer("prompt_version"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ai_usage_events_school_created_idx").on(table.schoolId, table.createdAt),
+]);
+
+// Budget alerts already sent, so each level notifies admins once per month
+export const aiBudgetAlerts = pgTable("ai_budget_alerts", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  percent: integer("percent").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("ai_budget_alerts_school_period_percent_idx").on(table.schoolId, table.periodStart, table.percent),
+]);
+
+// Saved versions of the AI prompts; a key with no rows uses its built-in version 1
+export const promptVersions = pgTable("prompt_versions", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { enum: PROMPT_KEYS }).notNull(),
+  version: integer("version").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  userTemplate: text("user_template").notNull(),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  activatedAt: timestamp("activated_at"),
+}, (table) => [
+  uniqueIndex("prompt_versions_key_version_idx").on(table.key, table.version),
+]);
+
+// Append-only record of sensitive actions; usernames and labels are copied so entries outlive deletions
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "set null" }),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorUsername: varchar("actor_username", { length: 255 }).notNull(),
+  actorRole: varchar("actor_role", { length: 50 }).notNull(),
+  action: varchar("action", { enum: AUDIT_ACTIONS }).notNull(),
+  targetType: varchar("target_type", { enum: AUDIT_TARGET_TYPES }).notNull(),
+  targetId: integer("target_id").notNull(),
+  targetLabel: varchar("target_label", { length: 255 }),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_logs_school_created_idx").on(table.schoolId, table.createdAt),
+  index("audit_logs_action_idx").on(table.action),
+]);
+
+// One OneRoster upload: previewed first, then applied; issues back the downloadable error report
+export const rosterImports = pgTable("roster_imports", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  status: varchar("status", { enum: ["previewed", "applied", "failed"] }).notNull().default("previewed"),
+  orgSourcedId: varchar("org_sourced_id", { length: 255 }), // The org in orgs.csv matched to this school; null when it couldn't be chosen
+  fileNames: jsonb("file_names").$type<string[]>().notNull(),
+  bundle: jsonb("bundle").$type<OneRosterBundle>().notNull(),
+  summary: jsonb("summary").$type<RosterImportSummary>(),
+  issues: jsonb("issues").$type<RosterIssue[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  appliedAt: timestamp("applied_at"),
+});
 
 // Student-Project Assignments (Legacy - keeping for backward compatibility)
 export const projectAssignments = pgTable("project_assignments", {
@@ -241,11 +498,17 @@ export const assessments = pgTable("assessments", {
   componentSkillIds: jsonb("component_skill_ids").$type<number[]>().default([]), // Array of component skill IDs for XQ competencies
   dueDate: timestamp("due_date"), // For standalone assessments
   aiGenerated: boolean("ai_generated").default(false),
+  aiPromptVersion: varchar("ai_prompt_version", { length: 64 }), // Prompt that generated it, e.g. "skill_assessment@v2"
   assessmentType: varchar("assessment_type", { enum: ["teacher", "self-evaluation"] }).default("teacher"),
   allowSelfEvaluation: boolean("allow_self_evaluation").default(false),
   shareCode: varchar("share_code", { length: 5 }).unique(), // 5-letter code for sharing
   shareCodeExpiresAt: timestamp("share_code_expires_at"), // Optional expiration for codes
   pdfUrl: text("pdf_url"), // URL to uploaded PDF in object storage (for teacher assessments with reading material)
+  timeLimitMinutes: integer("time_limit_minutes"), // Optional per-student time limit, counted from when the student starts
+  availableFrom: timestamp("available_from"), // Optional window start; students cannot start before this
+  availableUntil: timestamp("available_until"), // Optional window end; nothing is accepted after this
+  latePolicy: varchar("late_policy", { enum: ["accept", "reject", "flag"] }).default("flag"), // How work past the due date or time limit is handled
+  maxAttempts: integer("max_attempts").default(1), // Submissions allowed per student; null means unlimited
   createdBy: integer("created_by").references(() => users.id), // Track who created the assessment for ownership checks
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -256,6 +519,13 @@ export const submissions = pgTable("submissions", {
   studentId: integer("student_id").references(() => users.id),
   responses: jsonb("responses"), // Array of response objects
   artifacts: jsonb("artifacts"), // Array of file URLs/paths
+  isDraft: boolean("is_draft").notNull().default(false), // Autosaved work in progress; hidden from teachers until submitted
+  lastSavedAt: timestamp("last_saved_at"), // Last autosave time for drafts
+  startedAt: timestamp("started_at"), // When the student first opened the assessment (drives time limits)
+  isLate: boolean("is_late").notNull().default(false), // Submitted past the due date or time limit under the "flag" late policy
+  autoGradeResult: jsonb("auto_grade_result"), // Deterministic multiple-choice score computed at submit time
+  attemptNumber: integer("attempt_number").notNull().default(1), // 1-based attempt index per student and assessment
+  previousSubmissionId: integer("previous_submission_id").references((): AnyPgColumn => submissions.id), // Earlier attempt this submission revises
   submittedAt: timestamp("submitted_at").defaultNow(),
   gradedAt: timestamp("graded_at"),
   feedback: text("feedback"),
@@ -281,6 +551,48 @@ export const selfEvaluations = pgTable("self_evaluations", {
   teacherFeedback: text("teacher_feedback"),
 });
 
+// One AI tutor conversation about a component skill; a new one starts whenever the student picks a level
+export const tutorSessions = pgTable("tutor_sessions", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  assessmentId: integer("assessment_id").references(() => assessments.id, { onDelete: "cascade" }),
+  componentSkillId: integer("component_skill_id").references(() => componentSkills.id, { onDelete: "set null" }),
+  finalSummary: text("final_summary"), // The tutor's closing summary; null until the conversation ends without a safety flag
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("tutor_sessions_student_idx").on(table.studentId, table.createdAt),
+  index("tutor_sessions_assessment_idx").on(table.assessmentId, table.updatedAt),
+]);
+
+export const tutorTurns = pgTable("tutor_turns", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => tutorSessions.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role", { enum: TUTOR_TURN_ROLES }).notNull(),
+  content: text("content").notNull(),
+  // Tutor turns only: the level the tutor suggested and the safety check result
+  suggestedLevel: varchar("suggested_level", { enum: ["emerging", "developing", "proficient", "applying"] }),
+  safetyFlag: varchar("safety_flag", { length: 100 }),
+  aiPromptVersion: varchar("ai_prompt_version", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("tutor_turns_session_idx").on(table.sessionId, table.id),
+]);
+
+// Latest AI summary of what students misunderstood in their tutor sessions, one per assessment and skill
+export const tutorMisconceptionSummaries = pgTable("tutor_misconception_summaries", {
+  id: serial("id").primaryKey(),
+  assessmentId: integer("assessment_id").references(() => assessments.id, { onDelete: "cascade" }).notNull(),
+  componentSkillId: integer("component_skill_id").references(() => componentSkills.id, { onDelete: "cascade" }).notNull(),
+  misconceptions: jsonb("misconceptions").$type<TutorMisconception[]>().notNull(),
+  sessionCount: integer("session_count").notNull(),
+  aiPromptVersion: varchar("ai_prompt_version", { length: 64 }),
+  generatedAt: timestamp("generated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tutor_misconception_summaries_skill_idx").on(table.assessmentId, table.componentSkillId),
+]);
+
 export const grades = pgTable("grades", {
   id: serial("id").primaryKey(),
   submissionId: integer("submission_id").references(() => submissions.id),
@@ -290,6 +602,7 @@ export const grades = pgTable("grades", {
   feedback: text("feedback"),
   gradedBy: integer("graded_by").references(() => users.id),
   gradedAt: timestamp("graded_at").defaultNow(),
+  aiPromptVersion: varchar("ai_prompt_version", { length: 64 }), // Set while the grade is the model's suggestion; cleared when a teacher edits it
 });
 
 // Credentials System
@@ -305,6 +618,9 @@ export const credentials = pgTable("credentials", {
   iconUrl: varchar("icon_url"),
   awardedAt: timestamp("awarded_at").defaultNow(),
   approvedBy: integer("approved_by").references(() => users.id),
+  revokedAt: timestamp("revoked_at"), // Revoked credentials are kept for the audit trail but hidden from students
+  revokedBy: integer("revoked_by").references(() => users.id),
+  revokedReason: text("revoked_reason"),
 });
 
 // B.E.S.T. Standards table
@@ -520,7 +836,27 @@ export type Grade = typeof grades.$inferSelect;
 export type ProjectAssignment = typeof projectAssignments.$inferSelect;
 export type AuthToken = typeof authTokens.$inferSelect;
 export type InsertAuthToken = typeof authTokens.$inferInsert;
+export type SchoolSsoProvider = typeof schoolSsoProviders.$inferSelect;
+export type InsertSchoolSsoProvider = typeof schoolSsoProviders.$inferInsert;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type SchoolClass = typeof classes.$inferSelect;
+export type InsertSchoolClass = typeof classes.$inferInsert;
+export type ClassEnrollment = typeof classEnrollments.$inferSelect;
+export type ClassAssignment = typeof classAssignments.$inferSelect;
+export type GuardianLink = typeof guardianLinks.$inferSelect;
+export type GuardianInvite = typeof guardianInvites.$inferSelect;
+export type RosterImport = typeof rosterImports.$inferSelect;
+export type InsertUserIdentity = typeof userIdentities.$inferInsert;
 export type School = typeof schools.$inferSelect;
+export type District = typeof districts.$inferSelect;
+export type DistrictProjectTemplate = typeof districtProjectTemplates.$inferSelect;
+export type UsageLedgerEntry = typeof usageLedger.$inferSelect;
+export type AuditLogEntry = typeof auditLogs.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLogs.$inferInsert;
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = typeof aiUsageEvents.$inferInsert;
+export type PromptVersion = typeof promptVersions.$inferSelect;
+export type InsertPromptVersion = typeof promptVersions.$inferInsert;
 export type InsertSchool = typeof schools.$inferInsert;
 export type ProjectTeam = typeof projectTeams.$inferSelect;
 export type InsertProjectTeam = typeof projectTeams.$inferInsert;
@@ -528,6 +864,12 @@ export type BestStandard = typeof bestStandards.$inferSelect;
 export type InsertBestStandard = typeof bestStandards.$inferInsert;
 export type SelfEvaluation = typeof selfEvaluations.$inferSelect;
 export type InsertSelfEvaluation = typeof selfEvaluations.$inferInsert;
+export type TutorSession = typeof tutorSessions.$inferSelect;
+export type InsertTutorSession = typeof tutorSessions.$inferInsert;
+export type TutorTurn = typeof tutorTurns.$inferSelect;
+export type InsertTutorTurn = typeof tutorTurns.$inferInsert;
+export type TutorMisconceptionSummary = typeof tutorMisconceptionSummaries.$inferSelect;
+export type InsertTutorMisconceptionSummary = typeof tutorMisconceptionSummaries.$inferInsert;
 export type ContactRequest = typeof contactRequests.$inferSelect;
 export type InsertContactRequest = typeof contactRequests.$inferInsert;
 
@@ -567,6 +909,10 @@ export const insertAssessmentSchema = createInsertSchema(assessments).omit({
   dueDate: z.coerce.date().optional(),
   shareCode: z.string().length(5).optional(),
   shareCodeExpiresAt: z.coerce.date().optional(),
+  timeLimitMinutes: z.number().int().min(1).max(1440).nullable().optional(),
+  availableFrom: z.coerce.date().nullable().optional(),
+  availableUntil: z.coerce.date().nullable().optional(),
+  maxAttempts: z.number().int().min(1).max(20).nullable().optional(),
 }).refine((data) => {
   // For teacher assessments, questions are required and must have non-empty text
   if (data.assessmentType === "teacher") {
@@ -580,6 +926,14 @@ export const insertAssessmentSchema = createInsertSchema(assessments).omit({
 }, {
   message: "Teacher assessments must have at least one question with non-empty text",
   path: ["questions"]
+}).refine((data) => {
+  if (data.availableFrom && data.availableUntil) {
+    return data.availableFrom < data.availableUntil;
+  }
+  return true;
+}, {
+  message: "Availability window must end after it starts",
+  path: ["availableUntil"]
 });
 
 export const insertSelfEvaluationSchema = createInsertSchema(selfEvaluations).omit({
@@ -597,6 +951,9 @@ export const insertSubmissionSchema = createInsertSchema(submissions).omit({
 export const insertCredentialSchema = createInsertSchema(credentials).omit({
   id: true,
   awardedAt: true,
+  revokedAt: true,
+  revokedBy: true,
+  revokedReason: true,
 });
 
 export const insertPortfolioArtifactSchema = createInsertSchema(portfolioArtifacts).omit({
@@ -613,6 +970,10 @@ export const insertContactRequestSchema = createInsertSchema(contactRequests).om
 // Auth schemas
 export const registerSchema = createInsertSchema(users).omit({
   id: true,
+  districtId: true,
+  emailVerifiedAt: true,
+  rosterSourcedId: true,
+  deactivatedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -631,8 +992,24 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, 'Username or email is required').max(255),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset link is invalid'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const confirmEmailSchema = z.object({
+  token: z.string().min(1, 'Confirmation link is invalid'),
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  emailVerifiedAt: true,
+  rosterSourcedId: true,
+  deactivatedAt: true,
   createdAt: true,
   updatedAt: true,
 });
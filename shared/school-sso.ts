@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// Roles single sign-on can assign when it creates an account; admins are still created by an admin
+export const SSO_ROLES = ["student", "teacher"] as const;
+
+export type SsoRole = (typeof SSO_ROLES)[number];
+
+export const SSO_ROLE_LABELS: Record<SsoRole, string> = {
+  student: "Students",
+  teacher: "Teachers",
+};
+
+const domainPattern = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export const ssoDomainRuleSchema = z.object({
+  domain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((domain) => domain.replace(/^@/, ""))
+    .refine((domain) => domainPattern.test(domain), "Enter a domain such as students.example.org"),
+  role: z.enum(SSO_ROLES),
+});
+
+/** An email domain allowed to sign in, and the role given to accounts created from it. */
+export type SsoDomainRule = z.infer<typeof ssoDomainRuleSchema>;
+
+export const schoolSsoProviderSchema = z.object({
+  displayName: z.string().trim().min(1, "Display name is required").max(100),
+  issuer: z
+    .string()
+    .trim()
+    .url("Issuer must be a URL")
+    .transform((issuer) => issuer.replace(/\/+$/, "")),
+  clientId: z.string().trim().min(1, "Client ID is required").max(255),
+  // Omitted on update to keep the stored secret; public clients rely on PKCE alone
+  clientSecret: z.string().trim().max(512).optional(),
+  allowedDomains: z
+    .array(ssoDomainRuleSchema)
+    .min(1, "Add at least one allowed email domain")
+    .max(20)
+    .refine(
+      (rules) => new Set(rules.map((rule) => rule.domain)).size === rules.length,
+      "Each domain can only be listed once",
+    ),
+  enabled: z.boolean().default(true),
+});
+
+export type SchoolSsoProviderInput = z.infer<typeof schoolSsoProviderSchema>;
+
+export const SSO_ERROR_MESSAGES = {
+  provider_error: "Your school's sign-in provider reported a problem. Please try again.",
+  invalid_state: "The sign-in attempt expired. Please start again.",
+  not_configured: "Single sign-on isn't set up for this school.",
+  domain_not_allowed: "That account's email domain isn't allowed to sign in to this school.",
+  account_conflict: "An account with this email already belongs to another school. Contact your administrator.",
+  account_deactivated: "This account has been deactivated. Contact your school administrator.",
+  failed: "Single sign-on failed. Please try again.",
+} as const;
+
+export type SsoErrorCode = keyof typeof SSO_ERROR_MESSAGES;
+
+export function ssoErrorMessage(code: string | null): string {
+  return code && Object.hasOwn(SSO_ERROR_MESSAGES, code)
+    ? SSO_ERROR_MESSAGES[code as SsoErrorCode]
+    : SSO_ERROR_MESSAGES.failed;
+}
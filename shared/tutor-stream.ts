@@ -0,0 +1,77 @@
+export const TUTOR_TURN_ROLES = ["student", "tutor"] as const;
+export type TutorTurnRole = typeof TUTOR_TURN_ROLES[number];
+
+// The tutor wraps up with a summary on its reply to this many student messages
+export const TUTOR_STUDENT_TURN_LIMIT = 3;
+
+export interface TutorSuggestedEvaluation {
+  selfAssessedLevel?: string;
+  confidence?: number;
+}
+
+/**
+ * Server-sent events of one tutor reply, in order: `session` once, `delta`
+ * for each piece of the reply as the model writes it, then either `complete`
+ * or `error`. `complete` carries the safety check; when `safetyFlag` is set
+ * the streamed text must be discarded in favour of `response`.
+ */
+export type TutorStreamEvent =
+  | { type: "session"; sessionId: number }
+  | { type: "delta"; text: string }
+  | {
+      type: "complete";
+      turnId: number | null;
+      response: string;
+      suggestedEvaluation?: TutorSuggestedEvaluation;
+      shouldTerminate: boolean;
+      safetyFlag?: string;
+    }
+  | { type: "error"; message: string };
+
+/** One misunderstanding the tutor kept running into across a skill's sessions. */
+export interface TutorMisconception {
+  misconception: string;
+  // How many of the summarized sessions showed it
+  sessionCount: number;
+  example: string;
+  suggestion: string;
+}
+
+const TUTOR_STREAM_EVENT_TYPES = new Set<string>(["session", "delta", "complete", "error"]);
+
+export function formatTutorStreamEvent(event: TutorStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Splits buffered stream text into complete events. Whatever follows the last
+ * blank line is returned as `rest` to be prefixed to the next chunk; comments
+ * and events of unknown types are skipped.
+ */
+export function parseTutorStreamEvents(buffer: string): { events: TutorStreamEvent[]; rest: string } {
+  const frames = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = frames.pop() ?? "";
+  const events: TutorStreamEvent[] = [];
+
+  for (const frame of frames) {
+    let type = "message";
+    const dataLines: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) {
+        type = line.slice("event:".length).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice("data:".length).trimStart());
+      }
+    }
+    if (!TUTOR_STREAM_EVENT_TYPES.has(type) || dataLines.length === 0) {
+      continue;
+    }
+    try {
+      events.push({ ...JSON.parse(dataLines.join("\n")), type } as TutorStreamEvent);
+    } catch {
+      continue;
+    }
+  }
+  return { events, rest };
+}
@@ -1,6 +1,8 @@
 
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { AIService } from '../server/domains/ai/ai.service';
+import { FixtureLlmProvider } from '../server/integrations/llm';
+import { builtInPromptResolver } from '../server/domains/prompts/prompt-resolver';
 
 // Mock DB and Notifications BEFORE importing AI Service
 vi.mock('../server/db', () => ({
@@ -15,44 +17,16 @@ vi.mock('../server/domains/ai/openai.service', () => ({
     openAIService: {}
 }));
 
-// Mock OpenAI
-const { mockCreate } = vi.hoisted(() => {
-    return { mockCreate: vi.fn() };
-});
-
-vi.mock('openai', () => {
-    return {
-        default: vi.fn().mockImplementation(() => ({
-            chat: {
-                completions: {
-                    create: mockCreate
-                }
-            }
-        }))
-    };
-});
-
-// Mock DB and Notifications BEFORE importing AI Service
-vi.mock('../server/db', () => ({
-    db: {}
-}));
-
-vi.mock('../server/services/notifications', () => ({
-    notifyTeacherOfSafetyIncident: vi.fn()
-}));
-
-vi.mock('../server/domains/ai/openai.service', () => ({
-    openAIService: {}
-}));
-
-
 describe('AIService - Tutor Flow', () => {
     let aiService: AIService;
+    let llm: FixtureLlmProvider;
+
+    const tutorReply = (reply: object) => new FixtureLlmProvider([
+        { feature: 'tutor', match: /tutor/, content: JSON.stringify(reply) }
+    ]);
 
     beforeEach(() => {
         vi.clearAllMocks();
-        // We can instantiate it, the constructor injects openAIService but we mocked it or it uses default
-        aiService = new AIService();
     });
 
     it('should include summary instruction on 3rd student message', async () => {
@@ -65,21 +39,16 @@ describe('AIService - Tutor Flow', () => {
             { role: 'student', content: 'Msg 3' }
         ];
 
-        mockCreate.mockResolvedValue({
-            choices: [{
-                message: {
-                    content: JSON.stringify({
-                        response: "Summary",
-                        suggestedEvaluation: {},
-                        shouldTerminate: true
-                    })
-                }
-            }]
+        llm = tutorReply({
+            response: "Summary",
+            suggestedEvaluation: {},
+            shouldTerminate: true
         });
+        aiService = new AIService(undefined, llm, builtInPromptResolver);
 
         await aiService.generateTutorResponse({ name: 'Skill' }, history, {});
 
-        const callArgs = mockCreate.mock.calls[0][0];
+        const callArgs = llm.requests[0];
         const prompt = callArgs.messages[1].content;
         expect(prompt).toContain("NOTE: This is the FINAL turn.");
         expect(prompt).toContain("summarizing statement");
@@ -93,21 +62,16 @@ describe('AIService - Tutor Flow', () => {
             { role: 'student', content: 'Msg 2' }
         ];
 
-        mockCreate.mockResolvedValue({
-            choices: [{
-                message: {
-                    content: JSON.stringify({
-                        response: "Response",
-                        suggestedEvaluation: {},
-                        shouldTerminate: false
-                    })
-                }
-            }]
+        llm = tutorReply({
+            response: "Response",
+            suggestedEvaluation: {},
+            shouldTerminate: false
         });
+        aiService = new AIService(undefined, llm, builtInPromptResolver);
 
         await aiService.generateTutorResponse({ name: 'Skill' }, history, {});
 
-        const callArgs = mockCreate.mock.calls[0][0];
+        const callArgs = llm.requests[0];
         const prompt = callArgs.messages[1].content;
         expect(prompt).not.toContain("NOTE: This is the FINAL turn.");
     });
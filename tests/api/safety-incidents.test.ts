@@ -4,7 +4,9 @@ import { appInit } from '../../server/index';
 import { getTestApp } from '../helpers/test-app';
 import { testSchool } from '../fixtures/users';
 import { db } from '../../server/db';
-import { schools } from '../../shared/schema';
+import { schools, UserRole } from '../../shared/schema';
+import { authStorage } from '../../server/domains/auth/auth.storage';
+import bcrypt from 'bcryptjs';
 
 describe('Safety Incidents API', () => {
     let app: any;
@@ -37,11 +39,18 @@ describe('Safety Incidents API', () => {
         });
         authStudent = (studentRes.headers['set-cookie'] || []) as string[];
 
-        const adminRes = await request(app).post('/api/auth/register').send({
-            username: `admin-safe-${Date.now()}`,
+        // School admins can't self-register, so the admin is created directly
+        const adminUsername = `admin-safe-${Date.now()}`;
+        await authStorage.createUser({
+            username: adminUsername,
+            password: await bcrypt.hash('TestPassword123!', 10),
+            role: UserRole.ADMIN,
+            schoolId,
+            tier: 'enterprise',
+        });
+        const adminRes = await request(app).post('/api/auth/login').send({
+            username: adminUsername,
             password: 'TestPassword123!',
-            role: 'admin', firstName: 'Admin', lastName: 'User', email: 'admin@test.com', schoolName: 'Test School',
-            schoolId
         });
         authAdmin = (adminRes.headers['set-cookie'] || []) as string[];
     });
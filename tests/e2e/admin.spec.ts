@@ -1,14 +1,19 @@
 import { test, expect } from '@playwright/test';
 import { testSchool } from '../fixtures/users';
+import { provisionSchoolAdmin } from '../helpers/school-admin';
 
 test.describe('Admin Workflows', () => {
+    const adminUsername = `admin-e2e-${Date.now()}`;
+
+    test.beforeAll(async () => {
+        await provisionSchoolAdmin(adminUsername, 'Test123!', testSchool.name);
+    });
+
     test.beforeEach(async ({ page }) => {
         // Setup: Login as Admin
-        await page.goto('/register');
-        await page.fill('[name="username"]', `admin-e2e-${Date.now()}`);
+        await page.goto('/login');
+        await page.fill('[name="username"]', adminUsername);
         await page.fill('[name="password"]', 'Test123!');
-        await page.selectOption('[name="role"]', 'admin');
-        await page.selectOption('[name="schoolId"]', { label: testSchool.name });
         await page.click('button[type="submit"]');
     });
 
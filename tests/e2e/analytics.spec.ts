@@ -1,5 +1,6 @@
 import { test, expect } from '@playwright/test';
 import { testUsers, testSchool } from '../fixtures/users';
+import { provisionSchoolAdmin } from '../helpers/school-admin';
 
 test.describe('Analytics and Reporting', () => {
   test.describe('Teacher Analytics', () => {
@@ -77,15 +78,12 @@ test.describe('Analytics and Reporting', () => {
   });
 
   test.describe('Admin Analytics', () => {
+    test.beforeAll(async () => {
+      await provisionSchoolAdmin('e2e-analytics-admin', 'Test123!', testSchool.name);
+    });
+
     test.beforeEach(async ({ page }) => {
       // Setup: Login as admin
-      await page.goto('/register');
-      await page.fill('[name="username"]', 'e2e-analytics-admin');
-      await page.fill('[name="password"]', 'Test123!');
-      await page.selectOption('[name="role"]', 'admin');
-      await page.selectOption('[name="schoolId"]', { label: testSchool.name });
-      await page.click('button[type="submit"]');
-
       await page.goto('/login');
       await page.fill('[name="username"]', 'e2e-analytics-admin');
       await page.fill('[name="password"]', 'Test123!');
@@ -0,0 +1,26 @@
+// School admins can't register through /register, so browser tests provision one directly
+import bcrypt from 'bcryptjs';
+import { eq } from 'drizzle-orm';
+import { db } from '../../server/db';
+import { schools, UserRole } from '../../shared/schema';
+import { authStorage } from '../../server/domains/auth/auth.storage';
+
+export async function provisionSchoolAdmin(username: string, password: string, schoolName: string) {
+  const existingUser = await authStorage.getUserByUsername(username);
+  if (existingUser) {
+    return existingUser;
+  }
+
+  const school = await db.query.schools.findFirst({ where: eq(schools.name, schoolName) });
+  if (!school) {
+    throw new Error(`School "${schoolName}" not found`);
+  }
+
+  return authStorage.createUser({
+    username,
+    password: await bcrypt.hash(password, 10),
+    role: UserRole.ADMIN,
+    schoolId: school.id,
+    tier: 'enterprise',
+  });
+}
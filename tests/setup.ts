@@ -1,6 +1,9 @@
 import 'dotenv/config';
 import { beforeAll, afterAll, beforeEach } from 'vitest';
 
+// Tests run the AI services offline unless a provider is configured explicitly
+process.env.LLM_PROVIDER ??= 'fixture';
+
 
 // Test database setup
 beforeAll(async () => {
@@ -0,0 +1,111 @@
+import express from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Assessment, TutorSession, TutorTurn } from "../../shared/schema";
+import type { IAssessmentStorage } from "../../server/domains/assessments/assessments.storage";
+import type { ITutorStorage } from "../../server/domains/ai/tutor.storage";
+
+const canUserAccessAssessment = vi.hoisted(() => vi.fn());
+
+vi.mock("../../server/db", () => ({ db: {} }));
+vi.mock("../../server/domains/auth", () => ({
+  requireAuth: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = { id: 7, role: "student", tier: "free" };
+    next();
+  },
+  requireRole: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+  authStorage: {},
+}));
+vi.mock("../../server/domains/plans", () => ({
+  meterUsage: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+  refundMeteredUsage: vi.fn(),
+}));
+vi.mock("../../server/domains/assessments/assessment-access", () => ({ canUserAccessAssessment }));
+vi.mock("../../server/domains/assessments/assessment-project-gateway", () => ({ assessmentProjectGateway: {} }));
+
+import { AIController } from "../../server/domains/ai/ai.controller";
+
+function studentTurn(id: number): TutorTurn {
+  return { id, sessionId: 4, role: "student", content: `Message ${id}` } as TutorTurn;
+}
+
+describe("tutor chat", () => {
+  let assessmentsStorage: Pick<IAssessmentStorage, "getAssessment">;
+  let tutorSessions: Pick<ITutorStorage, "getSession" | "createSession" | "addTurn" | "getTurns" | "completeSession">;
+  let aiService: { streamTutorResponse: ReturnType<typeof vi.fn> };
+
+  function buildApp() {
+    const controller = new AIController(
+      aiService as never,
+      assessmentsStorage as IAssessmentStorage,
+      tutorSessions as ITutorStorage,
+    );
+    const app = express();
+    app.use(express.json());
+    app.use("/api/ai", controller.createRouter());
+    return app;
+  }
+
+  beforeEach(() => {
+    canUserAccessAssessment.mockReset().mockResolvedValue(true);
+    assessmentsStorage = {
+      getAssessment: vi.fn().mockResolvedValue({ id: 3, description: "Lab report", pdfUrl: null } as Assessment),
+    };
+    tutorSessions = {
+      getSession: vi.fn().mockResolvedValue({ id: 4, studentId: 7, completedAt: null } as TutorSession),
+      createSession: vi.fn().mockResolvedValue({ id: 4, studentId: 7 } as TutorSession),
+      addTurn: vi.fn().mockResolvedValue({ id: 9 }),
+      getTurns: vi.fn().mockResolvedValue([]),
+      completeSession: vi.fn(),
+    };
+    aiService = {
+      streamTutorResponse: vi.fn().mockResolvedValue({ response: "What do you notice?", shouldTerminate: false }),
+    };
+  });
+
+  it("refuses a session on an assessment the student can't access", async () => {
+    canUserAccessAssessment.mockResolvedValue(false);
+
+    const response = await request(buildApp())
+      .post("/api/ai/tutor/chat")
+      .send({ componentSkill: { id: 1, name: "Evidence" }, message: "Help", assessmentId: 3 });
+
+    expect(response.status).toBe(404);
+    expect(tutorSessions.createSession).not.toHaveBeenCalled();
+    expect(aiService.streamTutorResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects messages to a completed session", async () => {
+    vi.mocked(tutorSessions.getSession).mockResolvedValue({ id: 4, studentId: 7, completedAt: new Date() } as TutorSession);
+
+    const response = await request(buildApp())
+      .post("/api/ai/tutor/chat")
+      .send({ sessionId: 4, componentSkill: { id: 1, name: "Evidence" }, message: "One more thing", assessmentId: 3 });
+
+    expect(response.status).toBe(409);
+    expect(tutorSessions.addTurn).not.toHaveBeenCalled();
+    expect(aiService.streamTutorResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects messages past the turn limit before streaming a reply", async () => {
+    vi.mocked(tutorSessions.getTurns).mockResolvedValue([studentTurn(1), studentTurn(2), studentTurn(3)]);
+
+    const response = await request(buildApp())
+      .post("/api/ai/tutor/chat")
+      .send({ sessionId: 4, componentSkill: { id: 1, name: "Evidence" }, message: "Still there?", assessmentId: 3 });
+
+    expect(response.status).toBe(409);
+    expect(aiService.streamTutorResponse).not.toHaveBeenCalled();
+    expect(tutorSessions.completeSession).not.toHaveBeenCalled();
+  });
+
+  it("streams a reply on an assessment the student can access", async () => {
+    const response = await request(buildApp())
+      .post("/api/ai/tutor/chat")
+      .send({ componentSkill: { id: 1, name: "Evidence" }, message: "Help", assessmentId: 3 });
+
+    expect(response.status).toBe(200);
+    expect(tutorSessions.createSession).toHaveBeenCalledWith({ studentId: 7, assessmentId: 3, componentSkillId: 1 });
+    expect(response.text).toContain("What do you notice?");
+  });
+});
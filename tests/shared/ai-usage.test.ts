@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCostMicros,
+  findModelPrice,
+  findReachedBudgetLevels,
+} from "../../shared/ai-usage";
+import {
+  buildAiUsageSummary,
+  getUsageWindowStart,
+  parseModelPrices,
+} from "../../server/domains/ai-usage/ai-usage-summary";
+import { MeteredLlmProvider } from "../../server/domains/ai-usage/metered-llm-provider";
+import { AiUsageService, type AiCallRecord } from "../../server/domains/ai-usage/ai-usage.service";
+import type { IAiUsageStorage } from "../../server/domains/ai-usage/ai-usage.storage";
+import { FixtureLlmProvider, type LlmProvider } from "../../server/integrations/llm";
+import type { School } from "../../shared/schema";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+const subject = { userId: 7, schoolId: 3 };
+
+describe("AI cost estimates", () => {
+  it("prices dated model names by their longest listed prefix", () => {
+    expect(findModelPrice("gpt-4o-2024-08-06")).toEqual(DEFAULT_MODEL_PRICES["gpt-4o"]);
+    expect(findModelPrice("gpt-4o-mini-2024-07-18")).toEqual(DEFAULT_MODEL_PRICES["gpt-4o-mini"]);
+    expect(findModelPrice("llama3.1")).toBeNull();
+  });
+
+  it("counts cost in micro-dollars and treats unpriced models as free", () => {
+    expect(estimateCostMicros({ input: 2.5, output: 10 }, 1000, 500)).toBe(7500);
+    expect(estimateCostMicros(null, 1000, 500)).toBe(0);
+  });
+
+  it("merges configured prices over the defaults and ignores bad config", () => {
+    const prices = parseModelPrices('{"llama3.1": {"input": 0.1, "output": 0.2}, "broken": {"input": "x"}}');
+    expect(prices["llama3.1"]).toEqual({ input: 0.1, output: 0.2 });
+    expect(prices["gpt-4o"]).toEqual(DEFAULT_MODEL_PRICES["gpt-4o"]);
+    expect(prices.broken).toBeUndefined();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(parseModelPrices("not json")).toBe(DEFAULT_MODEL_PRICES);
+    errorSpy.mockRestore();
+  });
+
+  it("reports the alert threshold and the full budget once reached", () => {
+    // $100 budget is 100,000,000 micro-dollars
+    expect(findReachedBudgetLevels(79_000_000, 10_000, 80)).toEqual([]);
+    expect(findReachedBudgetLevels(80_000_000, 10_000, 80)).toEqual([80]);
+    expect(findReachedBudgetLevels(120_000_000, 10_000, 80)).toEqual([80, 100]);
+  });
+});
+
+describe("AI usage summary", () => {
+  it("fills every day in the window and averages latency per call", () => {
+    const since = getUsageWindowStart(3, new Date("2026-03-10T15:00:00Z"));
+    const row = { calls: 4, errors: 1, promptTokens: 400, completionTokens: 100, costMicros: 2_000_000, latencyMs: 2000 };
+
+    const summary = buildAiUsageSummary({
+      since,
+      days: 3,
+      features: [{ feature: "tutor", ...row }],
+      models: [{ provider: "azure", model: "gpt-4o", ...row }],
+      daily: [{ date: "2026-03-09", feature: "tutor", costMicros: 2_000_000 }],
+      budget: { monthlyBudgetUsd: null, alertThresholdPercent: 80, monthToDateCostUsd: 2, periodStart: since },
+    });
+
+    expect(since.toISOString()).toBe("2026-03-08T00:00:00.000Z");
+    expect(summary.daily.map((day) => day.date)).toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+    expect(summary.daily[1]).toMatchObject({ tutor: 2, grading: 0, generation: 0 });
+    expect(summary.totals).toMatchObject({ calls: 4, errors: 1, costUsd: 2, averageLatencyMs: 500 });
+    expect(summary.features.map((feature) => feature.feature)).toEqual(["tutor", "grading", "generation"]);
+    expect(summary.features[1]).toMatchObject({ calls: 0, averageLatencyMs: 0 });
+  });
+});
+
+describe("metered LLM provider", () => {
+  it("records successful calls with tokens and the request's user", async () => {
+    const recorded: AiCallRecord[] = [];
+    const provider = new MeteredLlmProvider(
+      new FixtureLlmProvider([{ match: /.*/, content: "Hello there" }]),
+      { recordCall: async (call) => void recorded.push(call) },
+      () => subject,
+    );
+
+    const completion = await provider.complete({ feature: "tutor", messages: [{ role: "user", content: "Hi" }] });
+
+    expect(completion.content).toBe("Hello there");
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0]).toMatchObject({
+      subject,
+      feature: "tutor",
+      provider: "fixture",
+      model: "fixture-tutor",
+      outcome: "success",
+      completionTokens: 3,
+    });
+  });
+
+  it("records failures and rethrows them", async () => {
+    const recorded: AiCallRecord[] = [];
+    const failing: LlmProvider = {
+      name: "azure",
+      modelFor: () => "gpt-4o",
+      complete: async () => {
+        throw new Error("rate limited");
+      },
+    };
+    const provider = new MeteredLlmProvider(failing, { recordCall: async (call) => void recorded.push(call) }, () => null);
+
+    await expect(provider.complete({ feature: "grading", messages: [] })).rejects.toThrow("rate limited");
+    expect(recorded[0]).toMatchObject({ subject: null, model: "gpt-4o", outcome: "error", errorMessage: "rate limited" });
+  });
+});
+
+describe("AI budget alerts", () => {
+  const school = { id: 3, name: "Hillside High", aiMonthlyBudgetCents: 10_000, aiBudgetAlertPercent: 80 } as School;
+  const call: AiCallRecord = {
+    subject,
+    feature: "generation",
+    provider: "azure",
+    model: "gpt-4o",
+    promptTokens: 1000,
+    completionTokens: 1000,
+    latencyMs: 900,
+    outcome: "success",
+  };
+
+  function buildService(spentMicros: number) {
+    const claimed = new Set<number>();
+    const storage = {
+      insertEvent: vi.fn().mockResolvedValue(undefined),
+      getSchool: vi.fn().mockResolvedValue(school),
+      getSchoolFeatureCosts: vi.fn().mockResolvedValue([{ schoolId: 3, feature: "generation", costMicros: spentMicros }]),
+      claimBudgetAlert: vi.fn(async (_schoolId: number, _periodStart: Date, percent: number) => {
+        const isNew = !claimed.has(percent);
+        claimed.add(percent);
+        return isNew;
+      }),
+      getSchoolAdminIds: vi.fn().mockResolvedValue([11, 12]),
+    };
+    const notifications = { createNotifications: vi.fn().mockResolvedValue([]) };
+    const service = new AiUsageService(storage as unknown as IAiUsageStorage, notifications, DEFAULT_MODEL_PRICES);
+    return { service, storage, notifications };
+  }
+
+  it("stores the estimated cost with each call", async () => {
+    const { service, storage } = buildService(0);
+    await service.recordCall(call);
+    expect(storage.insertEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ schoolId: 3, userId: 7, costMicros: 12_500, outcome: "success" }),
+    );
+  });
+
+  it("notifies school admins once when spending reaches the alert threshold", async () => {
+    const { service, notifications } = buildService(85_000_000);
+
+    await service.recordCall(call);
+    await service.recordCall(call);
+
+    expect(notifications.createNotifications).toHaveBeenCalledTimes(1);
+    const [created] = notifications.createNotifications.mock.calls[0];
+    expect(created).toHaveLength(2);
+    expect(created[0]).toMatchObject({ userId: 11, type: "ai_budget", title: "AI budget 80% used", priority: "medium" });
+  });
+
+  it("sends a single alert for the full budget when it jumps past both levels", async () => {
+    const { service, notifications } = buildService(150_000_000);
+
+    await service.recordCall(call);
+
+    expect(notifications.createNotifications).toHaveBeenCalledTimes(1);
+    expect(notifications.createNotifications.mock.calls[0][0][0]).toMatchObject({ title: "AI budget reached", priority: "high" });
+  });
+
+  it("skips budget checks for calls without a school", async () => {
+    const { service, storage } = buildService(150_000_000);
+    await service.recordCall({ ...call, subject: null });
+    expect(storage.getSchool).not.toHaveBeenCalled();
+  });
+});
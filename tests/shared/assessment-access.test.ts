@@ -19,6 +19,10 @@ function makeAssessment(overrides: Partial<Assessment>): Assessment {
     shareCode: null,
     shareCodeExpiresAt: null,
     pdfUrl: null,
+    timeLimitMinutes: null,
+    availableFrom: null,
+    availableUntil: null,
+    latePolicy: "flag",
     createdBy: null,
     createdAt: null,
     ...overrides,
@@ -38,8 +42,6 @@ function makeUser(overrides: Partial<User>): User {
     role: "teacher",
     schoolId: null,
     tier: "free",
-    projectGenerationCount: 0,
-    lastProjectGenerationDate: null,
     createdAt: null,
     updatedAt: null,
     ...overrides,
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { evaluateAttemptEligibility, hasAttemptsLeft } from "../../server/domains/assessments/assessment-attempts";
+
+const graded = (id: number, attemptNumber: number) => ({ id, attemptNumber, gradedAt: new Date("2026-01-01") });
+
+describe("assessment attempts", () => {
+  it("allows the first attempt", () => {
+    expect(evaluateAttemptEligibility({ maxAttempts: 1 }, [])).toEqual({
+      allowed: true,
+      attemptNumber: 1,
+      previousSubmissionId: null,
+      attemptsRemaining: 1,
+    });
+  });
+
+  it("links a resubmission to the latest graded attempt", () => {
+    const eligibility = evaluateAttemptEligibility({ maxAttempts: 3 }, [graded(4, 1), graded(9, 2)]);
+    expect(eligibility).toMatchObject({ allowed: true, attemptNumber: 3, previousSubmissionId: 9, attemptsRemaining: 1 });
+  });
+
+  it("blocks resubmission while the previous attempt is ungraded", () => {
+    const eligibility = evaluateAttemptEligibility({ maxAttempts: 3 }, [{ id: 4, attemptNumber: 1, gradedAt: null }]);
+    expect(eligibility.allowed).toBe(false);
+    expect(eligibility.message).toContain("still being reviewed");
+  });
+
+  it("enforces the attempt limit and treats null as unlimited", () => {
+    expect(evaluateAttemptEligibility({ maxAttempts: 1 }, [graded(4, 1)]).message).toBe("Assessment already submitted");
+    expect(evaluateAttemptEligibility({ maxAttempts: 2 }, [graded(4, 1), graded(5, 2)]).message)
+      .toBe("You have used all 2 attempts for this assessment");
+    expect(evaluateAttemptEligibility({ maxAttempts: null }, [graded(4, 1), graded(5, 2)])).toMatchObject({
+      allowed: true,
+      attemptsRemaining: null,
+    });
+  });
+
+  it("reports whether a resubmission is still possible", () => {
+    expect(hasAttemptsLeft({ maxAttempts: 1 }, 1)).toBe(false);
+    expect(hasAttemptsLeft({ maxAttempts: 3 }, 2)).toBe(true);
+    expect(hasAttemptsLeft({ maxAttempts: null }, 5)).toBe(true);
+  });
+});
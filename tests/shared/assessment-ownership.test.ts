@@ -19,6 +19,10 @@ function makeAssessment(overrides: Partial<Assessment>): Assessment {
     shareCode: null,
     shareCodeExpiresAt: null,
     pdfUrl: null,
+    timeLimitMinutes: null,
+    availableFrom: null,
+    availableUntil: null,
+    latePolicy: "flag",
     createdBy: null,
     createdAt: null,
     ...overrides,
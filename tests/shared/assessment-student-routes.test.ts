@@ -0,0 +1,70 @@
+import express from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AssessmentService } from "../../server/domains/assessments/assessments.service";
+import type { AssessmentProjectGateway } from "../../server/domains/assessments/assessment-project-gateway";
+
+const currentUser = vi.hoisted(() => ({ value: { id: 7, role: "student", tier: "free" } as Record<string, unknown> }));
+
+vi.mock("../../server/domains/auth", () => ({
+  requireAuth: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = currentUser.value;
+    next();
+  },
+}));
+
+import { registerAssessmentStudentRoutes } from "../../server/domains/assessments/routes/student.routes";
+
+const submittedQuestions = [
+  { id: "r1", text: "Order the planets", type: "ranking", options: ["Mercury", "Venus", "Earth"] },
+  {
+    id: "m1",
+    text: "Match the capitals",
+    type: "matching",
+    pairs: [{ left: "France", right: "Paris" }, { left: "Spain", right: "Madrid" }],
+  },
+  { id: "n1", text: "Speed of sound (m/s)?", type: "numeric", correctAnswer: "343", tolerance: 5 },
+];
+
+function buildApp(service: Pick<AssessmentService, "getStudentAssessmentSubmissions">) {
+  const app = express();
+  const router = express.Router();
+  registerAssessmentStudentRoutes(router, service as unknown as AssessmentService, {} as AssessmentProjectGateway);
+  app.use("/api", router);
+  return app;
+}
+
+describe("student assessment submission routes", () => {
+  let service: Pick<AssessmentService, "getStudentAssessmentSubmissions">;
+
+  beforeEach(() => {
+    service = {
+      getStudentAssessmentSubmissions: vi.fn().mockResolvedValue([
+        { id: 21, assessmentId: 3, assessmentTitle: "Science check", questions: submittedQuestions },
+      ]),
+    };
+  });
+
+  it("hides ranking order, matching pairs and numeric answers from the student", async () => {
+    currentUser.value = { id: 7, role: "student", tier: "free" };
+
+    const response = await request(buildApp(service)).get("/api/student/assessment-submissions/7");
+    const [ranking, matching, numeric] = response.body[0].questions;
+
+    expect(response.status).toBe(200);
+    expect([...ranking.options].sort()).toEqual(["Earth", "Mercury", "Venus"]);
+    expect(matching).not.toHaveProperty("pairs");
+    expect([...matching.options].sort()).toEqual(["Madrid", "Paris"]);
+    expect(numeric).not.toHaveProperty("correctAnswer");
+    expect(numeric.tolerance).toBe(5);
+  });
+
+  it("keeps the answer keys for teachers reviewing the student", async () => {
+    currentUser.value = { id: 2, role: "teacher", tier: "enterprise" };
+
+    const response = await request(buildApp(service)).get("/api/student/assessment-submissions/7");
+
+    expect(response.status).toBe(200);
+    expect(response.body[0].questions).toEqual(submittedQuestions);
+  });
+});
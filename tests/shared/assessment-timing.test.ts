@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateSubmissionTiming,
+  getAssessmentWindowStatus,
+  getAttemptExpiresAt,
+  TIME_LIMIT_GRACE_MS,
+  type AssessmentTimingSettings,
+} from "../../server/domains/assessments/assessment-timing";
+
+function makeSettings(overrides: Partial<AssessmentTimingSettings>): AssessmentTimingSettings {
+  return {
+    dueDate: null,
+    timeLimitMinutes: null,
+    availableFrom: null,
+    availableUntil: null,
+    latePolicy: "flag",
+    ...overrides,
+  };
+}
+
+const start = new Date("2026-03-01T10:00:00Z");
+const minutesAfterStart = (minutes: number) => new Date(start.getTime() + minutes * 60_000);
+
+describe("assessment timing", () => {
+  it("reports the availability window status", () => {
+    const settings = makeSettings({
+      availableFrom: minutesAfterStart(0),
+      availableUntil: minutesAfterStart(60),
+    });
+
+    expect(getAssessmentWindowStatus(settings, minutesAfterStart(-1))).toBe("not_open");
+    expect(getAssessmentWindowStatus(settings, minutesAfterStart(30))).toBe("open");
+    expect(getAssessmentWindowStatus(settings, minutesAfterStart(61))).toBe("closed");
+  });
+
+  it("expires at the earlier of the time limit and the window close", () => {
+    expect(getAttemptExpiresAt(makeSettings({ timeLimitMinutes: 30 }), start)).toEqual(minutesAfterStart(30));
+    expect(
+      getAttemptExpiresAt(makeSettings({ timeLimitMinutes: 30, availableUntil: minutesAfterStart(10) }), start),
+    ).toEqual(minutesAfterStart(10));
+    expect(getAttemptExpiresAt(makeSettings({}), start)).toBeNull();
+  });
+
+  it("accepts on-time work without a late flag", () => {
+    const result = evaluateSubmissionTiming(makeSettings({ timeLimitMinutes: 30 }), start, minutesAfterStart(29));
+    expect(result).toEqual({ allowed: true, isLate: false });
+  });
+
+  it("allows a short grace period after the time limit", () => {
+    const settings = makeSettings({ timeLimitMinutes: 30, latePolicy: "reject" });
+    const submittedAt = new Date(minutesAfterStart(30).getTime() + TIME_LIMIT_GRACE_MS - 1000);
+    expect(evaluateSubmissionTiming(settings, start, submittedAt).allowed).toBe(true);
+  });
+
+  it("applies the late policy past the time limit or due date", () => {
+    const overTime = minutesAfterStart(45);
+
+    expect(evaluateSubmissionTiming(makeSettings({ timeLimitMinutes: 30, latePolicy: "flag" }), start, overTime))
+      .toEqual({ allowed: true, isLate: true });
+    expect(evaluateSubmissionTiming(makeSettings({ timeLimitMinutes: 30, latePolicy: "accept" }), start, overTime))
+      .toEqual({ allowed: true, isLate: false });
+
+    const rejected = evaluateSubmissionTiming(
+      makeSettings({ dueDate: minutesAfterStart(10), latePolicy: "reject" }),
+      start,
+      overTime,
+    );
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.message).toBe("Late submissions are not accepted for this assessment");
+  });
+
+  it("rejects a timed submission with no recorded start", () => {
+    expect(evaluateSubmissionTiming(makeSettings({ timeLimitMinutes: 30, latePolicy: "accept" }), null, start)).toEqual({
+      allowed: false,
+      isLate: false,
+      message: "Start this timed assessment before submitting",
+    });
+    expect(evaluateSubmissionTiming(makeSettings({}), null, start).allowed).toBe(true);
+  });
+
+  it("rejects work outside the availability window regardless of late policy", () => {
+    const settings = makeSettings({
+      availableFrom: minutesAfterStart(0),
+      availableUntil: minutesAfterStart(60),
+      latePolicy: "accept",
+    });
+
+    expect(evaluateSubmissionTiming(settings, null, minutesAfterStart(-5)).allowed).toBe(false);
+    expect(evaluateSubmissionTiming(settings, start, minutesAfterStart(90))).toEqual({
+      allowed: false,
+      isLate: false,
+      message: "This assessment is closed",
+    });
+  });
+});
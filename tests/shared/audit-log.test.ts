@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { diffAuditValues, formatAuditLogCsv } from "../../server/domains/audit/audit-log";
+import { auditLogQuerySchema } from "../../shared/audit";
+import type { AuditLogEntry } from "../../shared/schema";
+
+const entry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+  id: 1,
+  schoolId: 3,
+  actorId: 7,
+  actorUsername: "ms.rivera",
+  actorRole: "teacher",
+  action: "submission.grade",
+  targetType: "submission",
+  targetId: 42,
+  targetLabel: "Water cycle, quiz",
+  changes: { before: { feedback: null }, after: { feedback: "Nice \"work\"" } },
+  ipAddress: "203.0.113.9",
+  createdAt: new Date("2026-03-02T10:15:00Z"),
+  ...overrides,
+});
+
+describe("audit log diff", () => {
+  it("keeps only the fields that changed", () => {
+    expect(
+      diffAuditValues(
+        { feedback: "Good", "skill 4": { rubricLevel: "developing", score: "2" }, "skill 5": { rubricLevel: "proficient", score: "3" } },
+        { feedback: "Good", "skill 4": { rubricLevel: "proficient", score: "3" }, "skill 5": { rubricLevel: "proficient", score: "3" } },
+      ),
+    ).toEqual({
+      before: { "skill 4": { rubricLevel: "developing", score: "2" } },
+      after: { "skill 4": { rubricLevel: "proficient", score: "3" } },
+    });
+  });
+
+  it("records added fields against null", () => {
+    expect(diffAuditValues({ feedback: "Good" }, { feedback: "Good", "skill 9": "applying" })).toEqual({
+      before: { "skill 9": null },
+      after: { "skill 9": "applying" },
+    });
+  });
+
+  it("keeps whole snapshots for creations and deletions", () => {
+    expect(diffAuditValues(null, { username: "new.student" })).toEqual({ before: null, after: { username: "new.student" } });
+    expect(diffAuditValues({ title: "Old project" }, undefined)).toEqual({ before: { title: "Old project" }, after: null });
+  });
+
+  it("returns null when nothing changed or nothing was captured", () => {
+    expect(diffAuditValues({ isPublic: true }, { isPublic: true })).toBeNull();
+    expect(diffAuditValues(undefined, undefined)).toBeNull();
+  });
+});
+
+describe("audit log export", () => {
+  it("writes a header and quotes cells that need it", () => {
+    const csv = formatAuditLogCsv([entry()]);
+    const [header, row] = csv.trimEnd().split("\r\n");
+
+    expect(header).toBe("time,actor,actor role,action,target type,target id,target,before,after,ip address");
+    expect(row).toBe(
+      '2026-03-02T10:15:00.000Z,ms.rivera,teacher,Graded submission,submission,42,"Water cycle, quiz",' +
+        '"{""feedback"":null}","{""feedback"":""Nice \\""work\\""""}",203.0.113.9',
+    );
+  });
+
+  it("leaves empty cells for missing diffs and addresses", () => {
+    const csv = formatAuditLogCsv([
+      entry({ action: "user.password_reset", targetType: "user", targetLabel: "sam", changes: null, ipAddress: null }),
+    ]);
+    expect(csv.trimEnd().split("\r\n")[1]).toBe("2026-03-02T10:15:00.000Z,ms.rivera,teacher,Reset password,user,42,sam,,,");
+  });
+});
+
+describe("audit log filters", () => {
+  it("coerces query strings and applies paging defaults", () => {
+    expect(auditLogQuerySchema.parse({ from: "2026-03-01T00:00:00.000Z", page: "2" })).toEqual({
+      from: new Date("2026-03-01T00:00:00.000Z"),
+      page: 2,
+      pageSize: 50,
+    });
+  });
+
+  it("rejects unknown actions and oversized pages", () => {
+    expect(auditLogQuerySchema.safeParse({ action: "user.promote" }).success).toBe(false);
+    expect(auditLogQuerySchema.safeParse({ pageSize: "500" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyRefreshToken,
+  describeUserAgent,
+  normalizeClientInfo,
+  parseLegacySessionKey,
+  summarizeSessions,
+} from "../../server/domains/auth/auth-sessions";
+
+const now = new Date("2026-03-01T10:00:00Z");
+const nextWeek = new Date("2026-03-08T10:00:00Z");
+
+const CHROME_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+const SAFARI_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+
+function token(overrides: Partial<Parameters<typeof summarizeSessions>[0][number]>) {
+  return {
+    id: 1,
+    type: "refresh" as const,
+    sessionId: "session-a",
+    userAgent: CHROME_WINDOWS,
+    ipAddress: "10.0.0.1",
+    createdAt: new Date("2026-03-01T09:00:00Z"),
+    lastUsedAt: new Date("2026-03-01T09:00:00Z"),
+    expiresAt: nextWeek,
+    rotatedAt: null,
+    ...overrides,
+  };
+}
+
+describe("auth sessions", () => {
+  it("treats a rotated token as reuse only after the grace window", () => {
+    expect(classifyRefreshToken(token({}), now)).toBe("valid");
+    expect(classifyRefreshToken(token({ rotatedAt: new Date("2026-03-01T09:59:55Z") }), now)).toBe("rotated");
+    expect(classifyRefreshToken(token({ rotatedAt: new Date("2026-03-01T09:50:00Z") }), now)).toBe("reused");
+    expect(classifyRefreshToken(token({ expiresAt: now }), now)).toBe("expired");
+    expect(classifyRefreshToken(undefined, now)).toBe("missing");
+  });
+
+  it("labels common browsers and platforms", () => {
+    expect(describeUserAgent(CHROME_WINDOWS)).toBe("Chrome on Windows");
+    expect(describeUserAgent(SAFARI_IPHONE)).toBe("Safari on iOS");
+    expect(describeUserAgent(null)).toBe("Unknown device");
+  });
+
+  it("strips the IPv4-mapped prefix from client addresses", () => {
+    expect(normalizeClientInfo({ ipAddress: "::ffff:192.168.1.4", userAgent: "" })).toEqual({
+      ipAddress: "192.168.1.4",
+      userAgent: null,
+    });
+  });
+
+  it("lists one entry per live session with the current device first", () => {
+    const sessions = summarizeSessions(
+      [
+        token({ id: 1, createdAt: new Date("2026-02-27T08:00:00Z"), rotatedAt: new Date("2026-02-28T08:00:00Z") }),
+        token({ id: 2, lastUsedAt: new Date("2026-03-01T09:30:00Z") }),
+        token({ id: 3, sessionId: "session-b", userAgent: SAFARI_IPHONE, lastUsedAt: new Date("2026-03-01T09:45:00Z") }),
+        token({ id: 4, sessionId: null, userAgent: null, expiresAt: now }),
+      ],
+      "session-a",
+      now,
+    );
+
+    expect(sessions.map((session) => [session.id, session.device, session.current])).toEqual([
+      ["session-a", "Chrome on Windows", true],
+      ["session-b", "Safari on iOS", false],
+    ]);
+    expect(sessions[0].signedInAt).toEqual(new Date("2026-02-27T08:00:00Z"));
+  });
+
+  it("gives tokens issued before sessions their own key", () => {
+    const [legacy] = summarizeSessions([token({ id: 9, sessionId: null })], null, now);
+    expect(legacy.id).toBe("legacy-9");
+    expect(parseLegacySessionKey(legacy.id)).toBe(9);
+    expect(parseLegacySessionKey("session-a")).toBeNull();
+  });
+});
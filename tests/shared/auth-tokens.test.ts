@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  emailLinkTokenExpiry,
+  generateEmailLinkToken,
+  hashEmailLinkToken,
+  isEmailLinkTokenValid,
+  isWithinResendCooldown,
+} from "../../server/domains/auth/auth-tokens";
+import { renderEmailConfirmationEmail, renderPasswordResetEmail } from "../../server/domains/auth/auth-emails";
+
+const now = new Date("2026-03-01T10:00:00Z");
+
+describe("email link tokens", () => {
+  it("stores a hash that differs from the emailed token", () => {
+    const token = generateEmailLinkToken();
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashEmailLinkToken(token)).not.toBe(token);
+    expect(hashEmailLinkToken(token)).toBe(hashEmailLinkToken(token));
+  });
+
+  it("expires reset links after an hour and confirmation links after a day", () => {
+    expect(emailLinkTokenExpiry("reset", now).toISOString()).toBe("2026-03-01T11:00:00.000Z");
+    expect(emailLinkTokenExpiry("confirmation", now).toISOString()).toBe("2026-03-02T10:00:00.000Z");
+  });
+
+  it("accepts only unexpired tokens of the expected type", () => {
+    const expiresAt = new Date("2026-03-01T10:30:00Z");
+    expect(isEmailLinkTokenValid({ type: "reset", expiresAt }, "reset", now)).toBe(true);
+    expect(isEmailLinkTokenValid({ type: "confirmation", expiresAt }, "reset", now)).toBe(false);
+    expect(isEmailLinkTokenValid({ type: "reset", expiresAt: now }, "reset", now)).toBe(false);
+    expect(isEmailLinkTokenValid(undefined, "reset", now)).toBe(false);
+  });
+
+  it("holds back a new email while the previous link is under a minute old", () => {
+    expect(isWithinResendCooldown({ createdAt: new Date("2026-03-01T09:59:30Z") }, now)).toBe(true);
+    expect(isWithinResendCooldown({ createdAt: new Date("2026-03-01T09:58:00Z") }, now)).toBe(false);
+    expect(isWithinResendCooldown(undefined, now)).toBe(false);
+  });
+
+  it("links emails to the reset and confirmation pages", () => {
+    const user = { firstName: "Ada", email: "ada@example.org" };
+    expect(renderPasswordResetEmail(user, "abc", "https://mastery.example.org").text).toContain(
+      "https://mastery.example.org/reset-password?token=abc",
+    );
+    expect(renderEmailConfirmationEmail(user, "abc", "https://mastery.example.org")).toMatchObject({
+      to: "ada@example.org",
+      subject: "Confirm your MasteryMap email address",
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  canAssignAssessmentToClass,
+  canAssignProjectToClass,
+  canManageClass,
+} from "../../server/domains/classes/class-access";
+import { classAssignmentInputSchema, classInputSchema } from "../../shared/classes";
+import { UserRole } from "../../shared/schema";
+
+const teacher = { id: 10, role: UserRole.TEACHER, schoolId: 1 };
+const otherTeacher = { id: 11, role: UserRole.TEACHER, schoolId: 1 };
+const admin = { id: 20, role: UserRole.ADMIN, schoolId: 1 };
+const otherSchoolAdmin = { id: 30, role: UserRole.ADMIN, schoolId: 2 };
+
+describe("class access helpers", () => {
+  it("lets teachers manage only the classes they teach", () => {
+    const schoolClass = { schoolId: 1, teacherId: 10 };
+    expect(canManageClass(schoolClass, teacher)).toBe(true);
+    expect(canManageClass(schoolClass, otherTeacher)).toBe(false);
+  });
+
+  it("lets admins manage every class in their own school only", () => {
+    const schoolClass = { schoolId: 1, teacherId: 10 };
+    expect(canManageClass(schoolClass, admin)).toBe(true);
+    expect(canManageClass(schoolClass, otherSchoolAdmin)).toBe(false);
+  });
+
+  it("denies students even when they are named as the teacher", () => {
+    expect(canManageClass({ schoolId: 1, teacherId: 5 }, { id: 5, role: UserRole.STUDENT, schoolId: 1 })).toBe(false);
+  });
+
+  it("only assigns standalone assessments the user created, or school assessments for admins", () => {
+    const standalone = { milestoneId: null, createdBy: 10 };
+    expect(canAssignAssessmentToClass(standalone, 1, teacher)).toBe(true);
+    expect(canAssignAssessmentToClass(standalone, 1, otherTeacher)).toBe(false);
+    expect(canAssignAssessmentToClass(standalone, 1, admin)).toBe(true);
+    expect(canAssignAssessmentToClass(standalone, 1, otherSchoolAdmin)).toBe(false);
+    expect(canAssignAssessmentToClass({ milestoneId: 4, createdBy: 10 }, 1, teacher)).toBe(false);
+  });
+
+  it("only assigns projects the teacher owns, or school projects for admins", () => {
+    const project = { teacherId: 10, schoolId: 1 };
+    expect(canAssignProjectToClass(project, teacher)).toBe(true);
+    expect(canAssignProjectToClass(project, otherTeacher)).toBe(false);
+    expect(canAssignProjectToClass(project, admin)).toBe(true);
+    expect(canAssignProjectToClass(project, otherSchoolAdmin)).toBe(false);
+  });
+});
+
+describe("class request schemas", () => {
+  it("trims optional fields to null", () => {
+    expect(classInputSchema.parse({ name: " Biology ", period: " ", term: "Fall" })).toEqual({
+      name: "Biology",
+      period: null,
+      term: "Fall",
+      classCode: null,
+    });
+  });
+
+  it("accepts exactly one of projectId or assessmentId", () => {
+    expect(classAssignmentInputSchema.safeParse({ projectId: 3 }).success).toBe(true);
+    expect(classAssignmentInputSchema.safeParse({ assessmentId: 3 }).success).toBe(true);
+    expect(classAssignmentInputSchema.safeParse({ projectId: 3, assessmentId: 4 }).success).toBe(false);
+    expect(classAssignmentInputSchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  planCredentialAwards,
+  type CredentialAwardContext,
+} from "../../server/domains/credentials/credential-award-engine";
+import { DEFAULT_CREDENTIAL_AWARD_RULES, credentialAwardRulesSchema } from "../../shared/credential-award-rules";
+
+function context(overrides: Partial<CredentialAwardContext> = {}): CredentialAwardContext {
+  return {
+    studentId: 7,
+    rules: DEFAULT_CREDENTIAL_AWARD_RULES,
+    levels: new Map(),
+    skills: [
+      { id: 1, name: "Evidence", competencyId: 10 },
+      { id: 2, name: "Reasoning", competencyId: 10 },
+      { id: 3, name: "Fractions", competencyId: 20 },
+    ],
+    competencies: [
+      { id: 10, name: "Argumentation", learnerOutcomeId: 100 },
+      { id: 20, name: "Number Sense", learnerOutcomeId: 200 },
+    ],
+    subjects: [
+      { id: 100, name: "Critical Thinking" },
+      { id: 200, name: "Mathematics" },
+    ],
+    existing: [],
+    approverId: 99,
+    ...overrides,
+  };
+}
+
+describe("credential award engine", () => {
+  it("awards a sticker only once the skill reaches the rule's level", () => {
+    const decisions = planCredentialAwards(
+      context({ levels: new Map([[1, "proficient"], [2, "developing"]]) }),
+    );
+
+    const stickers = decisions.filter((decision) => decision.action === "create" && decision.credential.type === "sticker");
+    expect(stickers).toHaveLength(1);
+    expect(stickers[0]).toMatchObject({
+      credential: { componentSkillId: 1, iconUrl: "blue", title: "Proficient Evidence", approvedBy: 99 },
+    });
+  });
+
+  it("upgrades an existing sticker when the student moves up a level and is otherwise idempotent", () => {
+    const existing = [
+      { id: 5, type: "sticker" as const, componentSkillId: 1, competencyId: null, subjectArea: null, iconUrl: "blue", revokedAt: null },
+    ];
+
+    const upgraded = planCredentialAwards(context({ levels: new Map([[1, "applying"]]), existing }));
+    expect(upgraded).toEqual([
+      expect.objectContaining({ action: "upgrade", credentialId: 5, changes: expect.objectContaining({ iconUrl: "green" }) }),
+    ]);
+
+    expect(planCredentialAwards(context({ levels: new Map([[1, "proficient"]]), existing }))).toEqual([]);
+  });
+
+  it("awards a competency badge when every component skill meets the level", () => {
+    const decisions = planCredentialAwards(
+      context({ levels: new Map([[1, "proficient"], [2, "applying"]]) }),
+    );
+
+    expect(decisions).toContainEqual(
+      expect.objectContaining({
+        action: "create",
+        credential: expect.objectContaining({ type: "badge", competencyId: 10, title: "Argumentation Badge" }),
+      }),
+    );
+  });
+
+  it("leaves plaques pending approval under the default rules", () => {
+    const decisions = planCredentialAwards(context({ levels: new Map([[3, "applying"]]) }));
+    const plaque = decisions.find((decision) => decision.action === "create" && decision.credential.type === "plaque");
+
+    expect(plaque).toMatchObject({
+      credential: { subjectArea: "Mathematics", title: "Mathematics Plaque", approvedBy: null },
+    });
+  });
+
+  it("skips disabled rules and respects a custom plaque share", () => {
+    const rules = credentialAwardRulesSchema.parse([
+      { kind: "skill-sticker", enabled: false },
+      { kind: "subject-plaque", minSkillShare: 0.5 },
+    ]);
+    const decisions = planCredentialAwards(context({ rules, levels: new Map([[1, "proficient"]]) }));
+
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({
+      action: "create",
+      credential: { type: "plaque", subjectArea: "Critical Thinking", approvedBy: 99 },
+    });
+  });
+});
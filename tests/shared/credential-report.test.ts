@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { buildCredentialReport, type CredentialReportRow } from "../../server/domains/credentials/credential-report";
+
+const now = new Date("2026-03-31T12:00:00Z");
+
+function row(overrides: Partial<CredentialReportRow>): CredentialReportRow {
+  return {
+    id: 1,
+    studentId: 7,
+    studentFirstName: "Ada",
+    studentLastName: "Lovelace",
+    studentUsername: "ada",
+    type: "sticker",
+    title: "Proficient Evidence",
+    componentSkillId: 1,
+    componentSkillName: "Evidence",
+    competencyId: 10,
+    competencyName: "Argumentation",
+    subjectArea: null,
+    awardedAt: new Date("2026-03-25T09:00:00Z"),
+    approvedBy: 99,
+    revokedAt: null,
+    revokedReason: null,
+    ...overrides,
+  };
+}
+
+describe("credential report", () => {
+  it("counts approved credentials inside the period by type, skill and competency", () => {
+    const report = buildCredentialReport(
+      [
+        row({ id: 1 }),
+        row({ id: 2, studentId: 8, componentSkillId: 2, componentSkillName: "Reasoning" }),
+        row({ id: 3, type: "badge", componentSkillId: null, componentSkillName: null }),
+        row({ id: 4, awardedAt: new Date("2025-12-01T09:00:00Z") }),
+      ],
+      "30d",
+      now,
+    );
+
+    expect(report.totals).toEqual({ awarded: 3, pending: 0, revoked: 0, studentsRecognized: 2 });
+    expect(report.byType).toEqual({ sticker: 2, badge: 1, plaque: 0 });
+    expect(report.byCompetency).toEqual([{ id: 10, name: "Argumentation", count: 3 }]);
+    expect(report.byComponentSkill).toEqual([
+      { id: 1, name: "Evidence", count: 1 },
+      { id: 2, name: "Reasoning", count: 1 },
+    ]);
+  });
+
+  it("lists pending approvals regardless of age and keeps revoked credentials out of the totals", () => {
+    const report = buildCredentialReport(
+      [
+        row({ id: 1, approvedBy: null, awardedAt: new Date("2025-06-01T09:00:00Z") }),
+        row({ id: 2, revokedAt: new Date("2026-03-30T09:00:00Z"), revokedReason: "Awarded to the wrong student" }),
+      ],
+      "30d",
+      now,
+    );
+
+    expect(report.totals).toMatchObject({ awarded: 0, pending: 1, revoked: 1 });
+    expect(report.pending.map((entry) => entry.id)).toEqual([1]);
+    expect(report.recent).toEqual([
+      expect.objectContaining({ id: 2, status: "revoked", revokedReason: "Awarded to the wrong student", studentName: "Ada Lovelace" }),
+    ]);
+  });
+
+  it("buckets the timeline by Monday-starting week for short periods and by month for long ones", () => {
+    const rows = [
+      row({ id: 1, awardedAt: new Date("2026-03-25T09:00:00Z") }),
+      row({ id: 2, awardedAt: new Date("2026-03-29T09:00:00Z") }),
+      row({ id: 3, awardedAt: new Date("2026-03-30T09:00:00Z") }),
+    ];
+
+    expect(buildCredentialReport(rows, "30d", now).timeline).toEqual([
+      { bucket: "2026-03-23", count: 2 },
+      { bucket: "2026-03-30", count: 1 },
+    ]);
+    expect(buildCredentialReport(rows, "365d", now).timeline).toEqual([{ bucket: "2026-03", count: 3 }]);
+  });
+});
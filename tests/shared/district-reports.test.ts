@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { aggregateDistrictSkillMastery } from "../../server/domains/districts/district-reports";
+import {
+  snapshotProjectTemplate,
+  templateToProjectRequest,
+} from "../../server/domains/districts/district-templates";
+import { isDistrictAdminApiPath } from "../../shared/districts";
+import type { DistrictProjectTemplate, Milestone, Project } from "../../shared/schema";
+
+const skill = (id: number, averageScore: number, distribution: [number, number, number, number]) => ({
+  id,
+  name: `Skill ${id}`,
+  competencyName: "Communication",
+  learnerOutcomeName: "Collaborator",
+  averageScore,
+  studentsAssessed: distribution.reduce((sum, count) => sum + count, 0),
+  rubricDistribution: {
+    emerging: distribution[0],
+    developing: distribution[1],
+    proficient: distribution[2],
+    applying: distribution[3],
+  },
+});
+
+describe("district skill mastery", () => {
+  it("weights averages by students assessed and counts proficient or applying as passing", () => {
+    const report = aggregateDistrictSkillMastery([
+      { schoolId: 1, schoolName: "North", skills: [skill(7, 2, [1, 2, 1, 0])] },
+      { schoolId: 2, schoolName: "South", skills: [skill(7, 3.5, [0, 0, 2, 2]), skill(8, 4, [0, 0, 0, 1])] },
+    ]);
+
+    const combined = report.skills.find((entry) => entry.componentSkillId === 7);
+    expect(combined).toMatchObject({
+      studentsAssessed: 8,
+      averageScore: 2.75,
+      passRate: 62.5,
+      rubricDistribution: { emerging: 1, developing: 2, proficient: 3, applying: 2 },
+    });
+    expect(combined?.schools.map((school) => [school.schoolName, school.passRate])).toEqual([
+      ["North", 25],
+      ["South", 100],
+    ]);
+    expect(report.skills.map((entry) => entry.componentSkillId)).toEqual([7, 8]);
+
+    const south = report.schools.find((school) => school.schoolId === 2);
+    expect(south).toMatchObject({ skillsAssessed: 2, averageScore: 3.6, passRate: 100 });
+  });
+
+  it("skips skills nobody has been assessed on", () => {
+    const report = aggregateDistrictSkillMastery([
+      { schoolId: 1, schoolName: "North", skills: [skill(7, 0, [0, 0, 0, 0])] },
+    ]);
+
+    expect(report.skills).toEqual([]);
+  });
+});
+
+describe("district project templates", () => {
+  const project = {
+    id: 20,
+    title: "River study",
+    description: "Map the local watershed",
+    subjectArea: "Science",
+    gradeLevel: "7",
+    estimatedDuration: "4 weeks",
+    componentSkillIds: [3, 4],
+    bestStandardIds: null,
+    learningOutcomes: ["Collect water samples"],
+    requiredResources: null,
+    dueDate: new Date("2026-05-01"),
+  } as unknown as Project;
+
+  const milestones = [
+    { id: 2, title: "Present", description: null, order: 5, dueDate: new Date("2026-04-30") },
+    { id: 1, title: "Sample", description: "Visit three sites", order: 2, dueDate: new Date("2026-04-10") },
+  ] as unknown as Milestone[];
+
+  it("snapshots the outline and renumbers milestones without dates", () => {
+    const snapshot = snapshotProjectTemplate(project, milestones, 4, 9);
+
+    expect(snapshot).toMatchObject({
+      districtId: 4,
+      sourceProjectId: 20,
+      publishedBy: 9,
+      bestStandardIds: [],
+      requiredResources: [],
+    });
+    expect(snapshot.milestones).toEqual([
+      { title: "Sample", description: "Visit three sites", order: 1 },
+      { title: "Present", description: null, order: 2 },
+    ]);
+    expect(snapshot).not.toHaveProperty("dueDate");
+  });
+
+  it("turns a template into a project request without the source school's details", () => {
+    const template = {
+      ...snapshotProjectTemplate(project, milestones, 4, 9),
+      id: 5,
+      createdAt: new Date(),
+    } as DistrictProjectTemplate;
+
+    expect(templateToProjectRequest(template)).toEqual({
+      title: "River study",
+      description: "Map the local watershed",
+      componentSkillIds: [3, 4],
+      bestStandardIds: [],
+      subjectArea: "Science",
+      gradeLevel: "7",
+      estimatedDuration: "4 weeks",
+      learningOutcomes: ["Collect water samples"],
+      requiredResources: [],
+    });
+  });
+});
+
+describe("district admin route fence", () => {
+  it("allows only the district console and shared account routes", () => {
+    expect(isDistrictAdminApiPath("/api/districts/reports/usage")).toBe(true);
+    expect(isDistrictAdminApiPath("/api/auth/me")).toBe(true);
+    expect(isDistrictAdminApiPath("/api/competencies/3lb")).toBe(true);
+    expect(isDistrictAdminApiPath("/api/projects")).toBe(false);
+    expect(isDistrictAdminApiPath("/api/districtsx")).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  canManageStudentGuardians,
+  generateGuardianInviteCode,
+  isInviteRedeemable,
+} from "../../server/domains/guardians/guardian-access";
+import {
+  getWeeklySummarySchedule,
+  isWeeklySummaryDue,
+  renderGuardianSummaryEmail,
+} from "../../server/domains/guardians/guardian-summary";
+import {
+  formatGuardianInviteCode,
+  guardianRedeemSchema,
+  isGuardianApiPath,
+} from "../../shared/guardians";
+import { UserRole } from "../../shared/schema";
+
+const student = { role: UserRole.STUDENT, schoolId: 1, deactivatedAt: null };
+
+describe("guardian access helpers", () => {
+  it("lets teachers and admins invite guardians only for active students in their school", () => {
+    expect(canManageStudentGuardians(student, { id: 10, role: UserRole.TEACHER, schoolId: 1 })).toBe(true);
+    expect(canManageStudentGuardians(student, { id: 20, role: UserRole.ADMIN, schoolId: 1 })).toBe(true);
+    expect(canManageStudentGuardians(student, { id: 30, role: UserRole.ADMIN, schoolId: 2 })).toBe(false);
+    expect(canManageStudentGuardians(student, { id: 40, role: UserRole.GUARDIAN, schoolId: 1 })).toBe(false);
+    expect(
+      canManageStudentGuardians({ ...student, deactivatedAt: new Date() }, { id: 10, role: UserRole.TEACHER, schoolId: 1 }),
+    ).toBe(false);
+  });
+
+  it("accepts an invite once and only before it expires", () => {
+    const now = new Date("2026-05-01T12:00:00Z");
+    expect(isInviteRedeemable({ expiresAt: new Date("2026-05-02T00:00:00Z"), redeemedAt: null }, now)).toBe(true);
+    expect(isInviteRedeemable({ expiresAt: new Date("2026-04-30T00:00:00Z"), redeemedAt: null }, now)).toBe(false);
+    expect(isInviteRedeemable({ expiresAt: new Date("2026-05-02T00:00:00Z"), redeemedAt: now }, now)).toBe(false);
+  });
+
+  it("generates codes that survive the way families type them back", () => {
+    const code = generateGuardianInviteCode();
+    expect(code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    const typed = formatGuardianInviteCode(code).toLowerCase().replace("-", " - ");
+    expect(guardianRedeemSchema.parse({ code: typed }).code).toBe(code);
+    expect(guardianRedeemSchema.safeParse({ code: "ABC" }).success).toBe(false);
+  });
+
+  it("fences guardian sessions to the guardian, auth and notification APIs", () => {
+    expect(isGuardianApiPath("/api/guardian/students")).toBe(true);
+    expect(isGuardianApiPath("/api/auth/user")).toBe(true);
+    expect(isGuardianApiPath("/api/notifications")).toBe(true);
+    expect(isGuardianApiPath("/api/schools/students-progress")).toBe(false);
+    expect(isGuardianApiPath("/api/students/competency-progress")).toBe(false);
+    expect(isGuardianApiPath("/api/guardians-export")).toBe(false);
+  });
+});
+
+describe("guardian weekly summary", () => {
+  it("runs once on the configured weekday at or after the configured hour", () => {
+    const schedule = { weekdayUtc: 5, hourUtc: 16 };
+    const fridayEvening = new Date("2026-05-01T16:10:00Z");
+    expect(isWeeklySummaryDue(new Date("2026-05-01T15:59:00Z"), schedule, null)).toBe(false);
+    expect(isWeeklySummaryDue(fridayEvening, schedule, null)).toBe(true);
+    expect(isWeeklySummaryDue(new Date("2026-05-01T20:00:00Z"), schedule, fridayEvening)).toBe(false);
+    expect(isWeeklySummaryDue(new Date("2026-05-02T16:10:00Z"), schedule, fridayEvening)).toBe(false);
+    expect(isWeeklySummaryDue(new Date("2026-05-08T16:10:00Z"), schedule, fridayEvening)).toBe(true);
+    expect(getWeeklySummarySchedule({ GUARDIAN_SUMMARY_WEEKDAY_UTC: "1", GUARDIAN_SUMMARY_HOUR_UTC: "30" })).toEqual({
+      weekdayUtc: 1,
+      hourUtc: 16,
+    });
+  });
+
+  it("summarizes each linked student and escapes names in the HTML body", () => {
+    const email = renderGuardianSummaryEmail(
+      { id: 7, firstName: "Dana", email: "dana@example.com" },
+      [
+        {
+          studentId: 3,
+          studentName: "Sam <Lee>",
+          credentials: [{ title: "Collaboration", type: "badge" }],
+          submittedCount: 2,
+          gradedCount: 1,
+          upcomingDeadlines: [{ title: "Draft", projectTitle: "River Study", dueDate: new Date("2026-05-05T00:00:00Z") }],
+        },
+      ],
+      "https://app.example.com",
+    );
+    expect(email.subject).toBe("This week in MasteryMap: Sam <Lee>");
+    expect(email.text).toContain("- Submitted 2 assessments; 1 assessment graded");
+    expect(email.text).toContain("- Earned: Collaboration (badge)");
+    expect(email.text).toContain("- Due 2026-05-05: Draft for River Study");
+    expect(email.html).toContain("<strong>Sam &lt;Lee&gt;</strong>");
+    expect(email.html).toContain('href="https://app.example.com/guardian/dashboard"');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createLlmProviderFromEnv,
+  FixtureLlmProvider,
+  FIXTURE_TEXT_RESPONSE,
+  OpenAIChatProvider,
+} from "../../server/integrations/llm";
+import { OpenAIService } from "../../server/domains/ai/openai.service";
+import { builtInPromptResolver } from "../../server/domains/prompts/prompt-resolver";
+
+// The AI services default to the metered provider, whose storage needs a database
+vi.mock("../../server/db", () => ({ db: {} }));
+
+describe("LLM provider selection", () => {
+  it("refuses to start without a provider, and never serves fixtures in production", () => {
+    expect(() => createLlmProviderFromEnv({})).toThrow("No LLM provider configured");
+    expect(() => createLlmProviderFromEnv({ LLM_PROVIDER: "fixture", NODE_ENV: "production" })).toThrow("production");
+  });
+
+  it("prefers Azure, then OpenAI, when keys are present", () => {
+    expect(createLlmProviderFromEnv({ AZURE_GPT41_API_KEY: "key", OPENAI_API_KEY: "key" }).name).toBe("azure");
+    expect(createLlmProviderFromEnv({ OPENAI_API_KEY: "key" }).name).toBe("openai");
+  });
+
+  it("honours LLM_PROVIDER and rejects unknown or unconfigured providers", () => {
+    expect(createLlmProviderFromEnv({ LLM_PROVIDER: "local" }).name).toBe("local");
+    expect(createLlmProviderFromEnv({ LLM_PROVIDER: "fixture", OPENAI_API_KEY: "key" }).name).toBe("fixture");
+    expect(() => createLlmProviderFromEnv({ LLM_PROVIDER: "openai" })).toThrow("OPENAI_API_KEY");
+    expect(() => createLlmProviderFromEnv({ LLM_PROVIDER: "bard" })).toThrow("Unknown LLM_PROVIDER");
+  });
+
+  it("routes each feature to its configured model", () => {
+    const provider = createLlmProviderFromEnv({
+      LLM_PROVIDER: "local",
+      LLM_MODEL: "llama3.1:70b",
+      LLM_MODEL_TUTOR: "llama3.1:8b",
+    });
+    expect(provider).toBeInstanceOf(OpenAIChatProvider);
+    expect(provider.modelFor("tutor")).toBe("llama3.1:8b");
+    expect(provider.modelFor("grading")).toBe("llama3.1:70b");
+    expect(provider.modelFor("generation")).toBe("llama3.1:70b");
+  });
+
+  it("uses the Azure deployment as the default model", () => {
+    const provider = createLlmProviderFromEnv({ AZURE_OPENAI_API_KEY: "key", AZURE_OPENAI_DEPLOYMENT: "gpt-4.1" });
+    expect(provider.modelFor("grading")).toBe("gpt-4.1");
+  });
+});
+
+describe("fixture LLM provider", () => {
+  it("answers the same prompt the same way and records requests", async () => {
+    const provider = new FixtureLlmProvider();
+    const request = {
+      feature: "grading" as const,
+      messages: [
+        { role: "system" as const, content: "You are an expert educator with extensive experience in assessment and grading." },
+        { role: "user" as const, content: "Grade this answer." },
+      ],
+      json: true,
+    };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first).toEqual(second);
+    expect(JSON.parse(first.content)).toMatchObject({ score: 80 });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it("falls back to an empty object or a fixed sentence", async () => {
+    const provider = new FixtureLlmProvider([]);
+    const messages = [{ role: "user" as const, content: "Anything" }];
+
+    expect((await provider.complete({ feature: "tutor", messages, json: true })).content).toBe("{}");
+    expect((await provider.complete({ feature: "tutor", messages })).content).toBe(FIXTURE_TEXT_RESPONSE);
+  });
+
+  it("only matches fixtures for the requested feature", async () => {
+    const provider = new FixtureLlmProvider([{ feature: "tutor", match: /.*/, content: "tutor reply" }]);
+    const messages = [{ role: "user" as const, content: "Hello" }];
+
+    expect((await provider.complete({ feature: "tutor", messages })).content).toBe("tutor reply");
+    expect((await provider.complete({ feature: "grading", messages })).content).toBe(FIXTURE_TEXT_RESPONSE);
+  });
+
+  it("serves the AI services offline", async () => {
+    const provider = new FixtureLlmProvider();
+    const service = new OpenAIService(provider, builtInPromptResolver);
+
+    const grade = await service.generateQuestionGrade("What is 2 + 2?", "4", "Correct arithmetic", "4");
+    const ideas = await service.generateProjectIdeas({
+      subject: "Science",
+      topic: "Water",
+      gradeLevel: "8",
+      duration: "4 weeks",
+      componentSkills: [],
+    });
+
+    expect(grade.score).toBe(80);
+    expect(ideas[0].title).toBe("Community Water Watch");
+    expect(provider.requests.map((request) => request.feature)).toEqual(["grading", "generation"]);
+  });
+});
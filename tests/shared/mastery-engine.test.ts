@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { calculateMastery, type MasteryEvidence } from "../../server/domains/competencies/mastery-engine";
+import { resolveMasteryRule, schoolMasteryRulesSchema } from "../../shared/mastery-rules";
+
+function history(...levels: string[]): MasteryEvidence[] {
+  return levels.map((rubricLevel, index) => ({
+    rubricLevel,
+    score: null,
+    gradedAt: new Date(Date.UTC(2026, 0, index + 1)),
+  }));
+}
+
+describe("mastery engine", () => {
+  it("orders evidence by grading date before applying the rule", () => {
+    const evidence = history("emerging", "applying").reverse();
+    expect(calculateMastery(evidence, { type: "most-recent" })?.rubricLevel).toBe("applying");
+    expect(calculateMastery(evidence, { type: "highest" })?.rubricLevel).toBe("applying");
+  });
+
+  it("weights recent grades more heavily with a decaying average", () => {
+    const result = calculateMastery(history("emerging", "developing", "proficient"), {
+      type: "decaying-average",
+      recentWeight: 0.65,
+    });
+    expect(result?.score).toBeCloseTo(2.53, 2);
+    expect(result?.rubricLevel).toBe("proficient");
+    expect(result?.direction).toBe("improving");
+  });
+
+  it("requires N of the last M grades at a level", () => {
+    const rule = { type: "n-of-last-m" as const, required: 2, window: 3 };
+    expect(calculateMastery(history("proficient", "developing", "proficient"), rule)?.rubricLevel).toBe("proficient");
+    expect(calculateMastery(history("proficient", "emerging", "emerging", "proficient"), rule)?.rubricLevel).toBe("emerging");
+    // One demonstration isn't enough evidence of proficiency
+    expect(calculateMastery(history("applying"), rule)?.rubricLevel).toBe("developing");
+  });
+
+  it("fits a power-law learning curve", () => {
+    const result = calculateMastery(history("emerging", "developing", "developing", "proficient"), { type: "power-law" });
+    expect(result?.score).toBeGreaterThan(2.5);
+    expect(result?.score).toBeLessThanOrEqual(4);
+    expect(result?.evidenceCount).toBe(4);
+  });
+
+  it("falls back to numeric scores and ignores ungraded rows", () => {
+    const result = calculateMastery(
+      [
+        { rubricLevel: null, score: "3.6", gradedAt: "2026-01-02" },
+        { rubricLevel: null, score: null, gradedAt: "2026-01-03" },
+      ],
+      { type: "most-recent" },
+    );
+    expect(result).toMatchObject({ rubricLevel: "applying", evidenceCount: 1 });
+    expect(calculateMastery([], { type: "highest" })).toBeNull();
+  });
+
+  it("resolves per-skill overrides before the school default", () => {
+    const rules = schoolMasteryRulesSchema.parse({
+      defaultRule: { type: "highest" },
+      componentSkillRules: { "7": { type: "n-of-last-m" } },
+    });
+    expect(resolveMasteryRule(rules, 7)).toEqual({ type: "n-of-last-m", required: 3, window: 4 });
+    expect(resolveMasteryRule(rules, 8)).toEqual({ type: "highest" });
+    expect(resolveMasteryRule(null, 8).type).toBe("decaying-average");
+    expect(schoolMasteryRulesSchema.safeParse({ defaultRule: { type: "n-of-last-m", required: 5, window: 2 } }).success)
+      .toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildItemAnalysis,
+  getRubricLevelForPercentage,
+  hideCorrectAnswers,
+  isFullyAutoGradable,
+  scoreMultipleChoiceResponses,
+} from "../../server/domains/assessments/multiple-choice-scoring";
+
+const questions = [
+  { id: "q1", text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Lyon", "Nice"], correctAnswer: "Paris" },
+  { id: "q2", text: "2 + 2?", type: "multiple-choice", options: ["3", "4"], correctAnswer: "4", points: 3 },
+];
+
+describe("multiple-choice scoring", () => {
+  it("scores responses against the answer key with point weights", () => {
+    const score = scoreMultipleChoiceResponses(questions, [
+      { questionId: "q1", answer: " paris " },
+      { questionId: "q2", answer: "3" },
+    ]);
+
+    expect(score).toMatchObject({
+      earnedPoints: 1,
+      totalPoints: 4,
+      percentage: 25,
+      correctCount: 1,
+      questionCount: 2,
+    });
+    expect(score?.results[1]).toMatchObject({ questionId: "q2", isCorrect: false, earnedPoints: 0 });
+  });
+
+  it("ignores questions without a valid answer key", () => {
+    const mixed = [
+      ...questions,
+      { id: "q3", text: "Explain.", type: "open-ended" },
+      { id: "q4", text: "Pick one", type: "multiple-choice", options: ["A", "B"], correctAnswer: "C" },
+    ];
+
+    expect(isFullyAutoGradable(questions)).toBe(true);
+    expect(isFullyAutoGradable(mixed)).toBe(false);
+    expect(scoreMultipleChoiceResponses(mixed, [])?.questionCount).toBe(2);
+    expect(scoreMultipleChoiceResponses([{ id: "q3", text: "Explain.", type: "open-ended" }], [])).toBeNull();
+  });
+
+  it("maps percentages onto rubric levels", () => {
+    expect(getRubricLevelForPercentage(95)).toEqual({ rubricLevel: "applying", score: 4 });
+    expect(getRubricLevelForPercentage(75)).toEqual({ rubricLevel: "proficient", score: 3 });
+    expect(getRubricLevelForPercentage(50)).toEqual({ rubricLevel: "developing", score: 2 });
+    expect(getRubricLevelForPercentage(10)).toEqual({ rubricLevel: "emerging", score: 1 });
+  });
+
+  it("builds answer distributions per question", () => {
+    const [analysis] = buildItemAnalysis(questions, [
+      [{ questionId: "q1", answer: "Paris" }],
+      [{ questionId: "q1", answer: "Lyon" }],
+      [{ questionId: "q1", answer: "Lyon" }],
+      [],
+    ]);
+
+    expect(analysis).toMatchObject({
+      questionId: "q1",
+      responseCount: 4,
+      correctCount: 1,
+      percentCorrect: 25,
+      unansweredCount: 1,
+    });
+    expect(analysis.options).toEqual([
+      { option: "Paris", count: 1, percentage: 25, isCorrect: true },
+      { option: "Lyon", count: 2, percentage: 50, isCorrect: false },
+      { option: "Nice", count: 0, percentage: 0, isCorrect: false },
+    ]);
+  });
+
+  it("hides correct answers from auto-grade results", () => {
+    const result = scoreMultipleChoiceResponses(questions, [{ questionId: "q1", answer: "Lyon" }]);
+    const hidden = hideCorrectAnswers(result);
+
+    expect(hidden?.results.every((item) => !("correctAnswer" in item))).toBe(true);
+    expect(hidden?.results[0]).toMatchObject({ questionId: "q1", answer: "Lyon", isCorrect: false });
+    expect(hidden?.percentage).toBe(result?.percentage);
+    expect(hideCorrectAnswers(null)).toBeNull();
+  });
+});
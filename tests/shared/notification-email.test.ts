@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDigestHourUtc,
+  isDigestDue,
+  notificationLink,
+  renderDigestEmail,
+  renderNotificationEmail,
+  resolveEmailDelivery,
+} from "../../server/domains/notifications/notification-email";
+import type { EmailDelivery } from "../../shared/notification-preferences";
+
+const baseUrl = "https://mastery.example.org";
+const teacher = { id: 5, email: "teacher@example.org", firstName: "Grace", role: "teacher" };
+const student = { id: 7, email: "ada@example.org", firstName: "Ada", role: "student" };
+
+describe("notification email", () => {
+  it("uses the recipient's preference per type but always sends safety incidents immediately", () => {
+    const preferences = new Map<string, EmailDelivery>([
+      ["grade", "daily_digest"],
+      ["safety_incident", "off"],
+    ]);
+    expect(resolveEmailDelivery({ type: "grade" }, preferences)).toBe("daily_digest");
+    expect(resolveEmailDelivery({ type: "feedback" }, preferences)).toBe("instant");
+    expect(resolveEmailDelivery({ type: "safety_incident" }, preferences)).toBe("instant");
+  });
+
+  it("deep-links to the most specific page for the recipient's role", () => {
+    const metadata = { projectId: 3, assessmentId: 12, submissionId: 40 };
+    expect(notificationLink({ type: "feedback", metadata }, "teacher", baseUrl)).toBe(
+      `${baseUrl}/teacher/assessments/12/submissions/40`,
+    );
+    expect(notificationLink({ type: "feedback", metadata }, "student", baseUrl)).toBe(`${baseUrl}/student/assessments/12`);
+    expect(notificationLink({ type: "assignment", metadata: { projectId: 3 } }, "student", baseUrl)).toBe(
+      `${baseUrl}/student/projects/3`,
+    );
+    expect(notificationLink({ type: "system", metadata: null }, "student", baseUrl)).toBe(`${baseUrl}/`);
+  });
+
+  it("escapes notification text in the HTML body", () => {
+    const email = renderNotificationEmail(
+      { type: "safety_incident", title: "URGENT", message: "Student <b>ada</b> triggered an alert", metadata: { studentId: 7 } },
+      teacher,
+      baseUrl,
+    );
+    expect(email).toMatchObject({ to: "teacher@example.org", subject: "URGENT" });
+    expect(email.html).toContain("Student &lt;b&gt;ada&lt;/b&gt; triggered an alert");
+    expect(email.text).toContain(`${baseUrl}/teacher/dashboard`);
+  });
+
+  it("summarizes digest notifications with a link for each", () => {
+    const email = renderDigestEmail(
+      [
+        { type: "grade", title: "New grade", message: "Essay graded", metadata: { assessmentId: 12 } },
+        { type: "credential", title: "Badge earned", message: "Argumentation", metadata: null },
+      ],
+      student,
+      baseUrl,
+    );
+    expect(email.subject).toBe("Your MasteryMap digest: 2 new notifications");
+    expect(email.text).toContain(`- New grade: Essay graded\n  ${baseUrl}/student/assessments/12`);
+  });
+
+  it("runs the digest once per UTC day at or after the configured hour", () => {
+    const morning = new Date("2026-03-02T07:15:00Z");
+    expect(isDigestDue(new Date("2026-03-02T06:59:00Z"), 7, null)).toBe(false);
+    expect(isDigestDue(morning, 7, null)).toBe(true);
+    expect(isDigestDue(new Date("2026-03-02T09:00:00Z"), 7, morning)).toBe(false);
+    expect(isDigestDue(new Date("2026-03-03T07:00:00Z"), 7, morning)).toBe(true);
+    expect(getDigestHourUtc("18")).toBe(18);
+    expect(getDigestHourUtc("25")).toBe(7);
+    expect(getDigestHourUtc(undefined)).toBe(7);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  formatNotificationEvent,
+  NotificationStream,
+  parseLastEventId,
+} from "../../server/domains/notifications/notification-stream";
+import type { Notification } from "../../shared/schema";
+
+function notification(overrides: Partial<Notification>): Notification {
+  return {
+    id: 1,
+    userId: 7,
+    type: "safety_incident",
+    title: "URGENT: Safety Incident Reported",
+    message: "Student ada triggered a safety alert",
+    metadata: null,
+    read: false,
+    priority: "high",
+    createdAt: new Date("2026-03-01T10:00:00Z"),
+    readAt: null,
+    emailStatus: null,
+    emailedAt: null,
+    ...overrides,
+  };
+}
+
+describe("notification stream", () => {
+  it("delivers published notifications only to the recipient's subscribers until they unsubscribe", () => {
+    const stream = new NotificationStream();
+    const teacher = vi.fn();
+    const otherUser = vi.fn();
+    const unsubscribe = stream.subscribe(7, teacher);
+    stream.subscribe(8, otherUser);
+
+    stream.publish(notification({ id: 1 }));
+    unsubscribe();
+    stream.publish(notification({ id: 2 }));
+
+    expect(teacher).toHaveBeenCalledTimes(1);
+    expect(teacher).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }));
+    expect(otherUser).not.toHaveBeenCalled();
+    expect(stream.subscriberCount(7)).toBe(0);
+  });
+
+  it("keeps delivering to other subscribers when one listener throws", () => {
+    const stream = new NotificationStream();
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const healthy = vi.fn();
+    stream.subscribe(7, () => {
+      throw new Error("connection gone");
+    });
+    stream.subscribe(7, healthy);
+
+    stream.publish(notification({}));
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+  });
+
+  it("formats events with the notification id so browsers resume from it", () => {
+    const event = formatNotificationEvent(notification({ id: 42 }));
+    expect(event.startsWith("id: 42\nevent: notification\ndata: {")).toBe(true);
+    expect(event.endsWith("\n\n")).toBe(true);
+    expect(JSON.parse(event.split("data: ")[1]).id).toBe(42);
+  });
+
+  it("accepts only positive integer last-event ids", () => {
+    expect(parseLastEventId("17")).toBe(17);
+    expect(parseLastEventId(["9", "10"])).toBe(9);
+    expect(parseLastEventId("0")).toBeNull();
+    expect(parseLastEventId("abc")).toBeNull();
+    expect(parseLastEventId(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  buildAuthorizationUrl,
+  clearOidcCaches,
+  createMockOidcProvider,
+  createPkcePair,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  OidcError,
+  verifyIdToken,
+  type OidcProviderMetadata,
+} from "../../server/integrations/oidc";
+import {
+  buildSsoUser,
+  resolveSsoAccount,
+  resolveSsoRole,
+  SsoLoginError,
+} from "../../server/domains/auth/auth-sso";
+import { schoolSsoProviderSchema } from "../../shared/school-sso";
+import type { User } from "../../shared/schema";
+
+const CLIENT_ID = "masterymap-test";
+const REDIRECT_URI = "http://localhost:5000/api/auth/sso/callback";
+
+let server: Server;
+let issuer: string;
+
+beforeAll(async () => {
+  server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mock-oidc`;
+  server.on("request", express().use("/mock-oidc", createMockOidcProvider({ issuer })));
+  clearOidcCaches();
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+async function authorize(metadata: OidcProviderMetadata, email: string, nonce = "nonce-1") {
+  const pkce = createPkcePair();
+  const url = buildAuthorizationUrl(metadata, {
+    clientId: CLIENT_ID,
+    redirectUri: REDIRECT_URI,
+    state: "state-1",
+    nonce,
+    codeChallenge: pkce.challenge,
+    loginHint: email,
+  });
+  const response = await fetch(url, { redirect: "manual" });
+  const callback = new URL(response.headers.get("location") ?? "");
+  return { code: callback.searchParams.get("code") ?? "", state: callback.searchParams.get("state"), pkce };
+}
+
+function user(overrides: Partial<User>): User {
+  return { id: 1, schoolId: 7, role: "student", email: "ada@students.lakeside.org", ...overrides } as User;
+}
+
+describe("OIDC sign-in against the mock provider", () => {
+  it("completes the authorization code flow with PKCE and a verified ID token", async () => {
+    const metadata = await discoverOidcProvider(issuer);
+    const { code, state, pkce } = await authorize(metadata, "ada.lovelace@students.lakeside.org");
+    expect(state).toBe("state-1");
+
+    const idToken = await exchangeAuthorizationCode(metadata, {
+      clientId: CLIENT_ID,
+      code,
+      redirectUri: REDIRECT_URI,
+      codeVerifier: pkce.verifier,
+    });
+    const claims = await verifyIdToken(metadata, idToken, { clientId: CLIENT_ID, nonce: "nonce-1" });
+
+    expect(claims).toMatchObject({
+      iss: issuer,
+      aud: CLIENT_ID,
+      email: "ada.lovelace@students.lakeside.org",
+      email_verified: true,
+      given_name: "Ada",
+      family_name: "Lovelace",
+    });
+  });
+
+  it("rejects a wrong PKCE verifier and reused codes", async () => {
+    const metadata = await discoverOidcProvider(issuer);
+    const { code, pkce } = await authorize(metadata, "grace@lakeside.org");
+    const exchange = { clientId: CLIENT_ID, code, redirectUri: REDIRECT_URI, codeVerifier: createPkcePair().verifier };
+
+    await expect(exchangeAuthorizationCode(metadata, exchange)).rejects.toBeInstanceOf(OidcError);
+    await expect(
+      exchangeAuthorizationCode(metadata, { ...exchange, codeVerifier: pkce.verifier }),
+    ).rejects.toThrow(/invalid_grant/);
+  });
+
+  it("rejects ID tokens for another client or sign-in attempt", async () => {
+    const metadata = await discoverOidcProvider(issuer);
+    const { code, pkce } = await authorize(metadata, "grace@lakeside.org", "nonce-2");
+    const idToken = await exchangeAuthorizationCode(metadata, {
+      clientId: CLIENT_ID,
+      code,
+      redirectUri: REDIRECT_URI,
+      codeVerifier: pkce.verifier,
+    });
+
+    await expect(verifyIdToken(metadata, idToken, { clientId: CLIENT_ID, nonce: "nonce-1" })).rejects.toThrow(/nonce/);
+    await expect(verifyIdToken(metadata, idToken, { clientId: "other-app", nonce: "nonce-2" })).rejects.toThrow(/audience/);
+  });
+});
+
+describe("school SSO policy", () => {
+  const rules = schoolSsoProviderSchema.shape.allowedDomains.parse([
+    { domain: "@Students.Lakeside.org", role: "student" },
+    { domain: "lakeside.org", role: "teacher" },
+  ]);
+
+  it("maps email domains to roles exactly", () => {
+    expect(resolveSsoRole("Ada@students.lakeside.org", rules)).toBe("student");
+    expect(resolveSsoRole("grace@lakeside.org", rules)).toBe("teacher");
+    expect(resolveSsoRole("eve@evil-lakeside.org", rules)).toBeNull();
+    expect(resolveSsoRole("no-domain", rules)).toBeNull();
+  });
+
+  it("links existing accounts only within the provider's school", () => {
+    expect(resolveSsoAccount(7, undefined, undefined)).toEqual({ kind: "create" });
+    expect(resolveSsoAccount(7, undefined, user({ id: 2 }))).toMatchObject({ kind: "link", user: { id: 2 } });
+    expect(resolveSsoAccount(7, user({ id: 3 }), undefined)).toMatchObject({ kind: "existing" });
+    expect(() => resolveSsoAccount(7, undefined, user({ schoolId: 8 }))).toThrow(SsoLoginError);
+    expect(() => resolveSsoAccount(7, undefined, user({ schoolId: null }))).toThrow(SsoLoginError);
+  });
+
+  it("creates school accounts from ID token claims", () => {
+    const created = buildSsoUser(
+      { iss: issuer, sub: "abc", aud: CLIENT_ID, exp: 0, iat: 0, email: "Ada@Students.Lakeside.org", name: "Ada King Lovelace" },
+      { schoolId: 7 },
+      "student",
+      "hash",
+    );
+    expect(created).toMatchObject({
+      username: "ada@students.lakeside.org",
+      firstName: "Ada",
+      lastName: "King Lovelace",
+      role: "student",
+      schoolId: 7,
+      tier: "enterprise",
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  parseOneRosterBundle,
+  readOneRosterZip,
+  RosterBundleError,
+} from "../../server/domains/roster/oneroster-csv";
+import {
+  formatRosterIssuesCsv,
+  planRosterImport,
+  summarizeRosterPlan,
+  type ExistingRosterState,
+  type ExistingRosterUser,
+} from "../../server/domains/roster/roster-plan";
+import type { OneRosterFileName } from "../../shared/oneroster";
+
+const ORGS = `sourcedId,status,dateLastModified,name,type,identifier,parentSourcedId
+district-1,,,Riverside District,district,,
+school-1,,,Riverside High,school,RHS,district-1
+`;
+
+const USERS = `sourcedId,status,enabledUser,username,givenName,familyName,email,grades
+t-1,,true,mrivera,Maria,Rivera,mrivera@riverside.org,
+s-1,,true,ada.l,Ada,Lovelace,ada@riverside.org,09
+s-2,,true,alan.t,Alan,Turing,alan@riverside.org,KG
+g-1,,true,guardian1,Grace,Hopper,grace@example.com,
+`;
+
+const ROLES = `sourcedId,status,userSourcedId,roleType,role,orgSourcedId
+r-1,,t-1,primary,teacher,school-1
+r-2,,s-1,primary,student,school-1
+r-3,,s-2,primary,student,school-1
+r-4,,g-1,primary,guardian,school-1
+`;
+
+const CLASSES = `sourcedId,status,title,classCode,schoolSourcedId,termSourcedIds,periods
+c-1,,Biology,BIO-1,school-1,term-1,2
+`;
+
+const ENROLLMENTS = `sourcedId,status,classSourcedId,schoolSourcedId,userSourcedId,role,primary
+e-1,,c-1,school-1,t-1,teacher,true
+e-2,,c-1,school-1,s-1,student,false
+e-3,,c-1,school-1,s-2,student,false
+`;
+
+const SESSIONS = `sourcedId,status,title,type,startDate,endDate
+term-1,,Fall 2026,term,2026-08-20,2026-12-18
+`;
+
+function bundleFiles(overrides: Partial<Record<OneRosterFileName, string>> = {}): Map<OneRosterFileName, string> {
+  const files: Partial<Record<OneRosterFileName, string>> = {
+    "orgs.csv": ORGS,
+    "users.csv": USERS,
+    "roles.csv": ROLES,
+    "classes.csv": CLASSES,
+    "enrollments.csv": ENROLLMENTS,
+    "academicSessions.csv": SESSIONS,
+    ...overrides,
+  };
+  return new Map(Object.entries(files).filter(([, text]) => text !== undefined) as Array<[OneRosterFileName, string]>);
+}
+
+function emptyState(users: ExistingRosterUser[] = []): ExistingRosterState {
+  return {
+    school: { id: 1, name: "Riverside High", rosterSourcedId: null },
+    users,
+    takenUsernames: [],
+    classes: [],
+    enrollments: [],
+  };
+}
+
+function existingUser(overrides: Partial<ExistingRosterUser>): ExistingRosterUser {
+  return {
+    id: 100,
+    username: "someone",
+    email: null,
+    firstName: null,
+    lastName: null,
+    role: "student",
+    grade: null,
+    rosterSourcedId: null,
+    deactivatedAt: null,
+    ...overrides,
+  };
+}
+
+// Mirrors what applying a plan writes, so a second run can be planned against it
+function stateAfterApplying(state: ExistingRosterState, files = bundleFiles()): ExistingRosterState {
+  const bundle = parseOneRosterBundle(files);
+  const plan = planRosterImport(bundle, state, { actingUserId: 1 });
+  let nextId = 500;
+  const users = state.users.map((user) => {
+    const update = plan.users.update.find((candidate) => candidate.id === user.id);
+    const deactivated = plan.users.deactivate.some((candidate) => candidate.id === user.id);
+    const { reactivate, ...changes } = update?.changes ?? {};
+    return {
+      ...user,
+      ...changes,
+      deactivatedAt: deactivated ? new Date() : reactivate ? null : user.deactivatedAt,
+    };
+  });
+  const userIds = new Map(users.filter((user) => user.rosterSourcedId).map((user) => [user.rosterSourcedId!, user.id]));
+  for (const { sourcedId, fields } of plan.users.create) {
+    const id = nextId++;
+    users.push(existingUser({ ...fields, id, rosterSourcedId: sourcedId }));
+    userIds.set(sourcedId, id);
+  }
+  const classes = plan.classes.create.map(({ sourcedId, fields, teacherSourcedId }) => ({
+    ...fields,
+    id: nextId++,
+    teacherId: teacherSourcedId ? userIds.get(teacherSourcedId) ?? null : null,
+    rosterSourcedId: sourcedId,
+    archivedAt: null,
+  }));
+  const enrollments = plan.enrollments.add.map(({ classSourcedId, userSourcedId }) => ({
+    classId: classes.find((schoolClass) => schoolClass.rosterSourcedId === classSourcedId)!.id,
+    studentId: userIds.get(userSourcedId)!,
+  }));
+  return {
+    ...state,
+    school: { ...state.school, rosterSourcedId: plan.org!.sourcedId },
+    users,
+    classes: [...state.classes, ...classes],
+    enrollments: [...state.enrollments, ...enrollments],
+  };
+}
+
+function storedZip(entries: Array<{ name: string; text: string; deflate?: boolean }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const raw = Buffer.from(entry.text, "utf8");
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("OneRoster CSV parsing", () => {
+  it("reads 1.2 roles, normalizes grades and resolves term titles", () => {
+    const bundle = parseOneRosterBundle(bundleFiles());
+
+    expect(bundle.users.find((user) => user.sourcedId === "t-1")?.roles).toEqual({ "school-1": "teacher" });
+    expect(bundle.users.find((user) => user.sourcedId === "s-1")?.grade).toBe("9");
+    expect(bundle.users.find((user) => user.sourcedId === "s-2")?.grade).toBe("K");
+    expect(bundle.users.find((user) => user.sourcedId === "g-1")?.unsupportedRole).toBe("guardian");
+    expect(bundle.classes[0]).toMatchObject({ title: "Biology", period: "2", term: "Fall 2026" });
+    expect(bundle.modes).toEqual({ users: "bulk", classes: "bulk", enrollments: "bulk" });
+  });
+
+  it("reads 1.1 roles from users.csv and delta modes from the manifest", () => {
+    const bundle = parseOneRosterBundle(
+      bundleFiles({
+        "roles.csv": undefined,
+        "users.csv": `sourcedId,status,enabledUser,orgSourcedIds,role,username,givenName,familyName,email,grades
+t-1,,true,school-1,teacher,mrivera,Maria,Rivera,mrivera@riverside.org,
+s-1,tobedeleted,true,school-1,student,ada.l,Ada,Lovelace,ada@riverside.org,9
+`,
+        "manifest.csv": `propertyName,value
+file.users,delta
+file.classes,bulk
+file.enrollments,absent
+`,
+      }),
+    );
+
+    expect(bundle.users.map((user) => [user.sourcedId, user.roles["school-1"], user.active])).toEqual([
+      ["t-1", "teacher", true],
+      ["s-1", "student", false],
+    ]);
+    expect(bundle.modes.users).toBe("delta");
+    expect(bundle.modes.classes).toBe("bulk");
+  });
+
+  it("rejects a bundle without users.csv", () => {
+    expect(() => parseOneRosterBundle(bundleFiles({ "users.csv": undefined }))).toThrow(RosterBundleError);
+  });
+
+  it("treats files left out of the bundle as delta so nothing is removed", () => {
+    const bundle = parseOneRosterBundle(bundleFiles({ "classes.csv": undefined, "enrollments.csv": undefined }));
+
+    expect(bundle.modes).toEqual({ users: "bulk", classes: "delta", enrollments: "delta" });
+  });
+
+  it("extracts stored and deflated CSVs from a zip, ignoring folders and other files", () => {
+    const files = readOneRosterZip(
+      storedZip([
+        { name: "export/orgs.csv", text: ORGS },
+        { name: "export/users.csv", text: USERS, deflate: true },
+        { name: "export/readme.txt", text: "hello" },
+      ]),
+    );
+
+    expect(Array.from(files.keys())).toEqual(["orgs.csv", "users.csv"]);
+    expect(files.get("users.csv")).toBe(USERS);
+    expect(() => readOneRosterZip(Buffer.from("not a zip"))).toThrow(RosterBundleError);
+  });
+});
+
+describe("roster import planning", () => {
+  it("plans creates for a new school and nothing on a second run", () => {
+    const first = planRosterImport(parseOneRosterBundle(bundleFiles()), emptyState(), { actingUserId: 1 });
+
+    expect(summarizeRosterPlan(first)).toMatchObject({
+      users: { create: 3, update: 0, deactivate: 0 },
+      classes: { create: 1 },
+      enrollments: { add: 2, remove: 0 },
+      schoolLinked: true,
+      warnings: 1,
+    });
+    expect(first.classes.create[0].teacherSourcedId).toBe("t-1");
+
+    const rerun = planRosterImport(parseOneRosterBundle(bundleFiles()), stateAfterApplying(emptyState()), { actingUserId: 1 });
+    expect(summarizeRosterPlan(rerun)).toMatchObject({
+      users: { create: 0, update: 0, deactivate: 0, unchanged: 3 },
+      classes: { create: 0, update: 0, archive: 0, unchanged: 1 },
+      enrollments: { add: 0, remove: 0 },
+      schoolLinked: false,
+    });
+  });
+
+  it("links existing accounts by username or email instead of duplicating them", () => {
+    const state = emptyState([
+      existingUser({ id: 7, username: "mrivera", role: "teacher" }),
+      existingUser({ id: 8, username: "ada-old", email: "ADA@riverside.org", grade: "9" }),
+    ]);
+
+    const plan = planRosterImport(parseOneRosterBundle(bundleFiles()), state, { actingUserId: 1 });
+
+    expect(plan.users.create.map((user) => user.sourcedId)).toEqual(["s-2"]);
+    expect(plan.users.update.find((user) => user.id === 8)?.changes).toMatchObject({
+      username: "ada.l",
+      rosterSourcedId: "s-1",
+    });
+  });
+
+  it("deactivates roster users missing from a bulk file and removes their enrollments", () => {
+    const applied = stateAfterApplying(emptyState());
+    const withoutAlan = bundleFiles({
+      "users.csv": USERS.replace(/^s-2,.*\n/m, ""),
+      "enrollments.csv": ENROLLMENTS.replace(/^e-3,.*\n/m, ""),
+    });
+
+    const plan = planRosterImport(parseOneRosterBundle(withoutAlan), applied, { actingUserId: 1 });
+
+    expect(plan.users.deactivate.map((user) => user.username)).toEqual(["alan.t"]);
+    expect(plan.enrollments.remove).toHaveLength(1);
+  });
+
+  it("never demotes or deactivates the admin running the import", () => {
+    const state = emptyState([
+      existingUser({ id: 1, username: "mrivera", role: "admin", rosterSourcedId: "t-1" }),
+      existingUser({ id: 2, username: "gone", role: "teacher", rosterSourcedId: "t-9" }),
+    ]);
+
+    const plan = planRosterImport(parseOneRosterBundle(bundleFiles()), state, { actingUserId: 1 });
+
+    expect(plan.users.update.find((user) => user.id === 1)?.changes.role).toBeUndefined();
+    expect(plan.users.deactivate.map((user) => user.id)).toEqual([2]);
+    expect(plan.issues.some((issue) => issue.message.includes("admin accounts keep their role"))).toBe(true);
+  });
+
+  it("reports usernames held by another school as errors and skips those users", () => {
+    const state = { ...emptyState(), takenUsernames: ["ada.l"] };
+
+    const plan = planRosterImport(parseOneRosterBundle(bundleFiles()), state, { actingUserId: 1 });
+
+    expect(plan.users.create.map((user) => user.sourcedId)).toEqual(["t-1", "s-2"]);
+    expect(plan.issues).toContainEqual(
+      expect.objectContaining({ file: "users.csv", sourcedId: "s-1", severity: "error" }),
+    );
+  });
+
+  it("asks for the org when the bundle has several schools and none match", () => {
+    const orgs = `${ORGS}school-2,,,Lakeside Middle,school,,district-1\n`;
+    const state = { ...emptyState(), school: { id: 1, name: "Another Name", rosterSourcedId: null } };
+
+    const plan = planRosterImport(parseOneRosterBundle(bundleFiles({ "orgs.csv": orgs })), state, { actingUserId: 1 });
+
+    expect(plan.org).toBeNull();
+    expect(summarizeRosterPlan(plan).errors).toBe(1);
+  });
+});
+
+describe("roster error report", () => {
+  it("writes one escaped CSV row per issue", () => {
+    const csv = formatRosterIssuesCsv([
+      { file: "users.csv", line: 4, sourcedId: "s-1", severity: "error", message: 'Username "ada" is taken, again' },
+    ]);
+
+    expect(csv).toBe('severity,file,line,sourcedId,message\r\nerror,users.csv,4,s-1,"Username ""ada"" is taken, again"\r\n');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  base58btcDecode,
+  base58btcEncode,
+  buildOpenBadgeCredential,
+  canonicalize,
+  deriveSigningKeys,
+  parseOpenBadgeCredentialId,
+  signOpenBadgeCredential,
+  verifyOpenBadgeSignature,
+  type JsonObject,
+  type OpenBadgeSource,
+} from "../../server/domains/credentials/open-badges";
+import { CredentialService } from "../../server/domains/credentials/credentials.service";
+import type { ICredentialStorage, OpenBadgeSourceRecord } from "../../server/domains/credentials/credentials.storage";
+import type { Credential } from "../../shared/schema";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+const keys = deriveSigningKeys("test-secret");
+const baseUrl = "https://mastery.example.org";
+
+const source: OpenBadgeSource = {
+  credential: {
+    id: 42,
+    type: "badge",
+    title: "Argumentation Badge",
+    description: "Achieved proficient or above in all component skills for Argumentation",
+    awardedAt: new Date("2026-03-01T10:00:00Z"),
+    subjectArea: null,
+  },
+  school: { id: 3, name: "Lakeside High", address: "1 Lake Rd", city: "Orlando", state: "FL", zipCode: "32801" },
+  studentEmail: "Ada@Example.org",
+  componentSkillName: null,
+  competencyName: "Argumentation",
+};
+
+function signedBadge(): JsonObject {
+  return signOpenBadgeCredential(buildOpenBadgeCredential(source, baseUrl), keys, new Date("2026-03-02T00:00:00Z"));
+}
+
+describe("open badges export", () => {
+  it("canonicalizes objects with sorted keys at every depth", () => {
+    expect(canonicalize({ b: [2, { d: 1, c: "x" }], a: null })).toBe('{"a":null,"b":[2,{"c":"x","d":1}]}');
+  });
+
+  it("round-trips base58btc including leading zero bytes", () => {
+    const bytes = Buffer.from([0, 0, 1, 2, 255]);
+    expect(base58btcDecode(base58btcEncode(bytes))).toEqual(bytes);
+  });
+
+  it("builds an OpenBadgeCredential issued by the student's school", () => {
+    const badge = signedBadge();
+    expect(badge.type).toEqual(["VerifiableCredential", "OpenBadgeCredential"]);
+    expect(badge.issuer).toMatchObject({
+      id: `${baseUrl}/api/credentials/issuers/3`,
+      name: "Lakeside High",
+      address: { addressLocality: "Orlando", postalCode: "32801" },
+    });
+    expect(JSON.stringify(badge)).not.toContain("Ada@Example.org");
+    expect(parseOpenBadgeCredentialId(badge.id)).toBe(42);
+  });
+
+  it("verifies its own signature and rejects tampering or a different key", () => {
+    const badge = signedBadge();
+    expect(verifyOpenBadgeSignature(badge, keys.publicKey)).toEqual([]);
+
+    const tampered = JSON.parse(JSON.stringify(badge));
+    tampered.name = "Something Else";
+    expect(verifyOpenBadgeSignature(tampered, keys.publicKey)).toEqual(["Signature does not match the credential"]);
+
+    expect(verifyOpenBadgeSignature(badge, deriveSigningKeys("other-secret").publicKey)).toHaveLength(1);
+    expect(verifyOpenBadgeSignature({ ...badge, proof: undefined }, keys.publicKey)).toEqual(["Credential has no proof"]);
+  });
+});
+
+describe("open badge access", () => {
+  function serviceFor(onPublicPortfolio: boolean): CredentialService {
+    const credential = { ...source.credential, studentId: 7, approvedBy: 2, revokedAt: null } as Credential;
+    const record: OpenBadgeSourceRecord = { ...source, credential, onPublicPortfolio };
+    const storage = { getOpenBadgeSource: vi.fn(async () => record) } as unknown as ICredentialStorage;
+    return new CredentialService(storage, keys, baseUrl);
+  }
+
+  it("serves a badge on a published portfolio to anyone, linked from the configured base URL", async () => {
+    const result = await serviceFor(true).getOpenBadge(42, null);
+    expect(result?.badge.id).toBe(`${baseUrl}/api/credentials/42/open-badge`);
+  });
+
+  it("serves an unpublished badge only to its student", async () => {
+    const service = serviceFor(false);
+    expect(await service.getOpenBadge(42, null)).toBeNull();
+    expect(await service.getOpenBadge(42, 8)).toBeNull();
+    expect(await service.getOpenBadge(42, 7)).not.toBeNull();
+  });
+
+  it("salts the recipient identity differently on each export", () => {
+    const recipient = (badge: JsonObject) => JSON.stringify((badge.credentialSubject as JsonObject).identifier);
+    expect(recipient(buildOpenBadgeCredential(source, baseUrl))).not.toBe(recipient(buildOpenBadgeCredential(source, baseUrl)));
+  });
+});
@@ -0,0 +1,214 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildPlanUsage,
+  emptyMetricTotals,
+  usedForMetric,
+  type UsageTotals,
+} from "../../server/domains/plans/plan-usage";
+import { getMeteredReservationId, meterUsage, refundMeteredUsage } from "../../server/domains/plans/plans.middleware";
+import { PlansService, type IPlansService } from "../../server/domains/plans/plans.service";
+import type { IPlansStorage, UsageEntry } from "../../server/domains/plans/plans.storage";
+import type { AuthenticatedRequest } from "../../server/domains/auth";
+import { QuotaExceededError } from "../../server/utils/errorTypes";
+import { collectStoredObjectPaths } from "../../server/utils/storedObjects";
+import {
+  PLANS,
+  describeQuotaExcess,
+  findQuotaExcess,
+  getPlan,
+  getUsagePeriodStart,
+} from "../../shared/plans";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+const totals = (overrides: Partial<UsageTotals> = {}): UsageTotals => ({
+  period: emptyMetricTotals(),
+  total: emptyMetricTotals(),
+  projects: 0,
+  ...overrides,
+});
+
+describe("plan quotas", () => {
+  it("allows requests that fit and reports the ones that do not", () => {
+    expect(findQuotaExcess(PLANS.free, "ai_generation", 4, 1)).toBeNull();
+    expect(findQuotaExcess(PLANS.free, "ai_generation", 5, 1)).toEqual({
+      planId: "free",
+      metric: "ai_generation",
+      limit: 5,
+      used: 5,
+    });
+  });
+
+  it("never limits unlimited metrics or empty amounts", () => {
+    expect(findQuotaExcess(PLANS.enterprise, "tutor_turn", 1_000_000, 1)).toBeNull();
+    expect(findQuotaExcess(PLANS.free, "storage_bytes", 250 * 1024 * 1024, 0)).toBeNull();
+  });
+
+  it("falls back to the free plan for unknown plan ids", () => {
+    expect(getPlan("gold").id).toBe("free");
+    expect(getPlan("standard").id).toBe("standard");
+  });
+
+  it("starts the usage period on the first of the month in UTC", () => {
+    expect(getUsagePeriodStart(new Date("2026-03-17T23:30:00-05:00")).toISOString()).toBe(
+      "2026-03-01T00:00:00.000Z",
+    );
+  });
+
+  it("describes monthly and running limits differently", () => {
+    expect(describeQuotaExcess({ planId: "free", metric: "thumbnail", limit: 5, used: 5 })).toBe(
+      "The Free plan includes 5 thumbnails a month, and this month's allowance is used up.",
+    );
+    expect(
+      describeQuotaExcess({ planId: "free", metric: "storage_bytes", limit: 250 * 1024 * 1024, used: 0 }),
+    ).toBe("The Free plan includes 250 MB of file storage, and that limit has been reached.");
+  });
+});
+
+describe("plan usage", () => {
+  it("reads monthly metrics from the period and running metrics from all time", () => {
+    const usage = totals({
+      period: { ...emptyMetricTotals(), ai_generation: 2, storage_bytes: 10 },
+      total: { ...emptyMetricTotals(), ai_generation: 40, storage_bytes: 500 },
+      projects: 3,
+    });
+
+    expect(usedForMetric(usage, "ai_generation")).toBe(2);
+    expect(usedForMetric(usage, "storage_bytes")).toBe(500);
+    expect(usedForMetric(usage, "project")).toBe(3);
+  });
+
+  it("lists every metric with the plan limit", () => {
+    const periodStart = new Date("2026-03-01T00:00:00Z");
+    const usage = buildPlanUsage(PLANS.standard, "school", totals({ projects: 7 }), periodStart);
+
+    expect(usage).toMatchObject({ planId: "standard", scope: "school", periodStart });
+    expect(usage.usage.map((item) => item.metric)).toEqual([
+      "ai_generation",
+      "thumbnail",
+      "tutor_turn",
+      "storage_bytes",
+      "project",
+    ]);
+    expect(usage.usage.find((item) => item.metric === "project")).toEqual({
+      metric: "project",
+      used: 7,
+      limit: 500,
+    });
+  });
+});
+
+describe("usage reservations", () => {
+  // Stands in for the locked transaction: nothing else runs between admit and the insert
+  function ledgerStorage(entries: UsageEntry[]): IPlansStorage {
+    return {
+      getSchool: vi.fn(async () => undefined),
+      setSchoolPlan: vi.fn(),
+      getUsageTotals: vi.fn(),
+      reserveUsage: vi.fn(async (entry: UsageEntry, _scope, _periodStart, admit) => {
+        await Promise.resolve();
+        const period = emptyMetricTotals();
+        entries.forEach((existing) => {
+          period[existing.metric] += existing.quantity;
+        });
+        admit?.(totals({ period }));
+        entries.push(entry);
+        return entries.length;
+      }),
+      releaseUsage: vi.fn(async () => undefined),
+    };
+  }
+
+  it("admits only the requests that fit when they arrive together", async () => {
+    const entries: UsageEntry[] = Array.from({ length: 4 }, () => ({
+      schoolId: null,
+      userId: 9,
+      metric: "ai_generation" as const,
+      quantity: 1,
+    }));
+    const service = new PlansService(ledgerStorage(entries));
+
+    const results = await Promise.allSettled([
+      service.reserveUsage({ id: 9, schoolId: null }, "ai_generation"),
+      service.reserveUsage({ id: 9, schoolId: null }, "ai_generation"),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(QuotaExceededError);
+    expect(entries).toHaveLength(5);
+  });
+
+  function meteredRequest(service: IPlansService) {
+    const res = Object.assign(new EventEmitter(), { statusCode: 200, locals: {} }) as unknown as Response;
+    const req = { user: { id: 9, schoolId: null } } as AuthenticatedRequest;
+    const next = vi.fn();
+    return { res, run: () => meterUsage("tutor_turn", undefined, service)(req, res, next), next };
+  }
+
+  it("keeps the reservation for a successful response and releases it otherwise", async () => {
+    const service = { reserveUsage: vi.fn(async () => 11), releaseUsage: vi.fn(async () => undefined) } as unknown as IPlansService;
+
+    const ok = meteredRequest(service);
+    await ok.run();
+    ok.res.emit("finish");
+    expect(ok.next).toHaveBeenCalled();
+    expect(service.releaseUsage).not.toHaveBeenCalled();
+
+    const failed = meteredRequest(service);
+    await failed.run();
+    failed.res.statusCode = 500;
+    failed.res.emit("finish");
+    expect(service.releaseUsage).toHaveBeenCalledWith(11);
+  });
+
+  it("releases the reservation when a stream is refunded after its success status", async () => {
+    const service = { reserveUsage: vi.fn(async () => 12), releaseUsage: vi.fn(async () => undefined) } as unknown as IPlansService;
+    const streamed = meteredRequest(service);
+
+    await streamed.run();
+    refundMeteredUsage(streamed.res);
+    streamed.res.emit("finish");
+
+    expect(service.releaseUsage).toHaveBeenCalledWith(12);
+  });
+
+  it("exposes the reservation so an upload can be linked to it", async () => {
+    const service = { reserveUsage: vi.fn(async () => 13), releaseUsage: vi.fn(async () => undefined) } as unknown as IPlansService;
+    const upload = meteredRequest(service);
+
+    expect(getMeteredReservationId(upload.res)).toBeUndefined();
+    await upload.run();
+
+    expect(getMeteredReservationId(upload.res)).toBe(13);
+  });
+});
+
+describe("stored object usage", () => {
+  it("collects uploaded files from urls, artifact lists and file-upload answers", () => {
+    const fileAnswer = JSON.stringify({ objectPath: "/objects/bucket/answer.pdf", name: "answer.pdf" });
+
+    const paths = collectStoredObjectPaths(
+      ["/objects/bucket/reading.pdf", null, "https://example.org/external.pdf"],
+      [{ artifacts: ["/objects/bucket/essay.docx"], responses: [{ questionId: "q1", answer: fileAnswer }, { answer: "Paris" }] }],
+      "/objects/bucket/reading.pdf",
+    );
+
+    expect(paths).toEqual(["/objects/bucket/reading.pdf", "/objects/bucket/essay.docx", "/objects/bucket/answer.pdf"]);
+  });
+
+  it("releases storage usage for each deleted file once", async () => {
+    const storage = {
+      setUsageObjectPath: vi.fn(async () => undefined),
+      releaseStorageUsage: vi.fn(async () => undefined),
+    } as unknown as IPlansStorage;
+    const service = new PlansService(storage);
+
+    await service.attachUploadedObject(21, "/objects/bucket/essay.docx");
+    await service.releaseStorageUsage(["/objects/bucket/essay.docx", "/objects/bucket/essay.docx"]);
+
+    expect(storage.setUsageObjectPath).toHaveBeenCalledWith(21, "/objects/bucket/essay.docx");
+    expect(storage.releaseStorageUsage).toHaveBeenCalledWith(["/objects/bucket/essay.docx"]);
+  });
+});
@@ -0,0 +1,75 @@
+import express from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ProjectsService } from "../../server/domains/projects/projects.service";
+
+const currentUser = vi.hoisted(() => ({ value: { id: 7, role: "student", tier: "free" } as Record<string, unknown> }));
+
+vi.mock("../../server/domains/auth", () => ({
+  requireAuth: (req: { user?: unknown }, _res: unknown, next: () => void) => {
+    req.user = currentUser.value;
+    next();
+  },
+  requireRole: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import { createProjectWorkflowRouters } from "../../server/domains/projects/routes/project-workflow.routes";
+
+const milestoneAssessment = {
+  id: 3,
+  title: "Checkpoint quiz",
+  milestoneId: 11,
+  questions: [
+    { id: "q1", text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Lyon"], correctAnswer: "Paris" },
+    { id: "q2", text: "Explain your method", type: "open-ended", sampleAnswer: "A worked example" },
+    { id: "q3", text: "Order the steps", type: "ranking", options: ["Hypothesis", "Experiment", "Conclusion"] },
+    {
+      id: "q4",
+      text: "Match the units",
+      type: "matching",
+      pairs: [{ left: "Force", right: "Newton" }, { left: "Energy", right: "Joule" }],
+    },
+    { id: "q5", text: "Speed of sound (m/s)?", type: "numeric", correctAnswer: "343", tolerance: 5 },
+  ],
+};
+
+function buildApp(service: Pick<ProjectsService, "getMilestone" | "getProject" | "getProjectsByUser" | "getAssessmentsByMilestone">) {
+  const app = express();
+  const { milestonesRouter } = createProjectWorkflowRouters(service as unknown as ProjectsService);
+  app.use("/api/milestones", milestonesRouter);
+  return app;
+}
+
+describe("milestone assessment routes", () => {
+  let service: Pick<ProjectsService, "getMilestone" | "getProject" | "getProjectsByUser" | "getAssessmentsByMilestone">;
+
+  beforeEach(() => {
+    service = {
+      getMilestone: vi.fn().mockResolvedValue({ id: 11, projectId: 5 }),
+      getProject: vi.fn().mockResolvedValue({ id: 5, teacherId: 2, schoolId: 1 }),
+      getProjectsByUser: vi.fn().mockResolvedValue([{ id: 5 }]),
+      getAssessmentsByMilestone: vi.fn().mockResolvedValue([milestoneAssessment]),
+    } as unknown as typeof service;
+  });
+
+  it("strips answer keys from the assessments a student sees", async () => {
+    currentUser.value = { id: 7, role: "student", tier: "free" };
+
+    const response = await request(buildApp(service)).get("/api/milestones/11/assessments");
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(response.body)).not.toContain("correctAnswer");
+    expect(JSON.stringify(response.body)).not.toContain("sampleAnswer");
+    expect(JSON.stringify(response.body)).not.toContain("pairs");
+    expect(JSON.stringify(response.body)).not.toContain("343");
+  });
+
+  it("keeps answer keys for the teacher who owns the project", async () => {
+    currentUser.value = { id: 2, role: "teacher", tier: "free", schoolId: 1 };
+
+    const response = await request(buildApp(service)).get("/api/milestones/11/assessments");
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(response.body)).toContain("\"correctAnswer\":\"Paris\"");
+  });
+});
@@ -44,56 +44,18 @@ function buildStorage(overrides: Partial<IProjectsStorage>): IProjectsStorage {
     getSchoolStudentsProgress: vi.fn(),
     getPublicProjects: vi.fn(),
     toggleProjectVisibility: vi.fn(),
-    incrementProjectGenerationCount: vi.fn(),
     ...overrides,
   } as unknown as IProjectsStorage;
 }
 
-describe("projects AI service limits", () => {
+describe("projects AI service", () => {
   afterEach(() => {
     vi.restoreAllMocks();
   });
 
-  it("blocks free-tier users at 5 generations in the current month", async () => {
-    const now = new Date();
+  it("generates ideas from the requested component skills", async () => {
     const storage = buildStorage({
       getComponentSkillsByIds: vi.fn().mockResolvedValue([{ id: 1, name: "Skill 1" }]),
-      getUser: vi.fn().mockResolvedValue({
-        id: 5,
-        tier: "free",
-        projectGenerationCount: 5,
-        lastProjectGenerationDate: now,
-      }),
-      incrementProjectGenerationCount: vi.fn(),
-    });
-
-    const service = new ProjectsAIService(storage, vi.fn() as any);
-
-    await expect(
-      service.generateProjectIdeasForUser(5, {
-        subject: "Science",
-        topic: "Ecosystems",
-        gradeLevel: "6",
-        duration: "3-4 weeks",
-        componentSkillIds: [1],
-      }),
-    ).rejects.toThrow("Free tier limit reached");
-    expect(storage.incrementProjectGenerationCount).not.toHaveBeenCalled();
-  });
-
-  it("resets the limit when last generation was in a previous month", async () => {
-    const previousMonth = new Date();
-    previousMonth.setMonth(previousMonth.getMonth() - 1);
-
-    const storage = buildStorage({
-      getComponentSkillsByIds: vi.fn().mockResolvedValue([{ id: 1, name: "Skill 1" }]),
-      getUser: vi.fn().mockResolvedValue({
-        id: 5,
-        tier: "free",
-        projectGenerationCount: 5,
-        lastProjectGenerationDate: previousMonth,
-      }),
-      incrementProjectGenerationCount: vi.fn().mockResolvedValue({ id: 5 }),
     });
     vi.spyOn(aiService, "generateProjectIdeas").mockResolvedValue([
       {
@@ -111,53 +73,35 @@ describe("projects AI service limits", () => {
     const service = new ProjectsAIService(storage, vi.fn() as any);
 
     await expect(
-      service.generateProjectIdeasForUser(5, {
-        subject: "Science",
-        topic: "Ecosystems",
-        gradeLevel: "6",
-        duration: "3-4 weeks",
+      service.generateProjectIdeas({
+        subject: "Math",
+        topic: "Fractions",
+        gradeLevel: "5",
+        duration: "1-2 weeks",
         componentSkillIds: [1],
       }),
     ).resolves.toMatchObject({ ideas: expect.any(Array) });
-    expect(storage.incrementProjectGenerationCount).toHaveBeenCalledWith(5);
+    expect(storage.getComponentSkillsByIds).toHaveBeenCalledWith([1]);
   });
 
-  it("does not increment monthly count for enterprise users", async () => {
+  it("rejects ideas when none of the requested skills exist", async () => {
     const storage = buildStorage({
-      getComponentSkillsByIds: vi.fn().mockResolvedValue([{ id: 1, name: "Skill 1" }]),
-      getUser: vi.fn().mockResolvedValue({
-        id: 9,
-        tier: "enterprise",
-        projectGenerationCount: 999,
-        lastProjectGenerationDate: new Date(),
-      }),
-      incrementProjectGenerationCount: vi.fn(),
+      getComponentSkillsByIds: vi.fn().mockResolvedValue([]),
     });
-    vi.spyOn(aiService, "generateProjectIdeas").mockResolvedValue([
-      {
-        title: "Idea",
-        description: "Desc",
-        overview: "Overview",
-        suggestedMilestones: [],
-        assessmentSuggestions: [],
-        requiredResources: [],
-        learningOutcomes: [],
-        competencyAlignment: [],
-      },
-    ] as any);
+    const generateIdeas = vi.spyOn(aiService, "generateProjectIdeas");
 
     const service = new ProjectsAIService(storage, vi.fn() as any);
 
     await expect(
-      service.generateProjectIdeasForUser(9, {
-        subject: "Math",
-        topic: "Fractions",
-        gradeLevel: "5",
-        duration: "1-2 weeks",
-        componentSkillIds: [1],
+      service.generateProjectIdeas({
+        subject: "Science",
+        topic: "Ecosystems",
+        gradeLevel: "6",
+        duration: "3-4 weeks",
+        componentSkillIds: [99],
       }),
-    ).resolves.toMatchObject({ ideas: expect.any(Array) });
-    expect(storage.incrementProjectGenerationCount).not.toHaveBeenCalled();
+    ).rejects.toThrow("No valid component skills");
+    expect(generateIdeas).not.toHaveBeenCalled();
   });
 
   it("persists generated thumbnail path to project record", async () => {
@@ -0,0 +1,214 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it, vi } from "vitest";
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  findUnknownPromptVariables,
+  formatPromptVersion,
+  renderPromptTemplate,
+} from "../../shared/prompts";
+import type { PromptVersion } from "../../shared/schema";
+import { DEFAULT_PROMPTS } from "../../server/domains/prompts/prompt-defaults";
+import { builtInPrompt, buildPromptRequest } from "../../server/domains/prompts/prompt-resolver";
+import { PromptService } from "../../server/domains/prompts/prompts.service";
+import type { IPromptStorage } from "../../server/domains/prompts/prompts.storage";
+import {
+  comparePromptVersions,
+  parseGradingEvalCases,
+  quadraticWeightedKappa,
+  summarizeAgreement,
+  type GradingEvalCase,
+} from "../../server/domains/ai/prompt-evaluation";
+import { MeteredLlmProvider } from "../../server/domains/ai-usage/metered-llm-provider";
+import type { AiCallRecord } from "../../server/domains/ai-usage/ai-usage.service";
+import { FixtureLlmProvider } from "../../server/integrations/llm";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+function promptRow(overrides: Partial<PromptVersion>): PromptVersion {
+  return {
+    id: 1,
+    key: "student_feedback",
+    version: 2,
+    systemPrompt: "Be brief.",
+    userTemplate: "Feedback on {{responses}}",
+    notes: null,
+    isActive: true,
+    createdBy: 5,
+    createdAt: new Date("2026-09-01T10:00:00Z"),
+    activatedAt: new Date("2026-09-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+function fakeStorage(overrides: Partial<IPromptStorage> = {}): IPromptStorage {
+  return {
+    listVersions: vi.fn().mockResolvedValue([]),
+    getVersion: vi.fn().mockResolvedValue(undefined),
+    getActiveVersions: vi.fn().mockResolvedValue([]),
+    getLatestVersionNumbers: vi.fn().mockResolvedValue(new Map()),
+    createVersion: vi.fn(async (key, _builtIn, version) => promptRow({ key, isActive: false, activatedAt: null, ...version })),
+    activateVersion: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe("prompt templates", () => {
+  it("fills placeholders and leaves missing values empty", () => {
+    expect(renderPromptTemplate("Skill: {{skillName}} ({{ level }}){{missing}}", { skillName: "Evidence", level: 3 })).toBe(
+      "Skill: Evidence (3)",
+    );
+  });
+
+  it("flags placeholders a prompt does not provide", () => {
+    expect(findUnknownPromptVariables("tutor_response", "{{skillName}} {{studentName}} {{gradeLevel}}")).toEqual([
+      "studentName",
+      "gradeLevel",
+    ]);
+  });
+
+  it("only uses declared variables in the built-in prompts", () => {
+    for (const key of PROMPT_KEYS) {
+      const { systemPrompt, userTemplate } = DEFAULT_PROMPTS[key];
+      expect(findUnknownPromptVariables(key, `${systemPrompt}\n${userTemplate}`), key).toEqual([]);
+    }
+  });
+
+  it("sends the template alone when a prompt has no system message and stamps the version", () => {
+    const request = buildPromptRequest({ ...builtInPrompt("question_feedback"), version: 4 }, {});
+
+    expect(request.feature).toBe(PROMPT_DEFINITIONS.question_feedback.feature);
+    expect(request.messages.map((message) => message.role)).toEqual(["user"]);
+    expect(request.prompt).toEqual({ key: "question_feedback", version: 4 });
+    expect(formatPromptVersion("question_feedback", 4)).toBe("question_feedback@v4");
+  });
+});
+
+describe("prompt service", () => {
+  it("uses the active stored version and falls back to the built-in prompt", async () => {
+    const service = new PromptService(fakeStorage({ getActiveVersions: vi.fn().mockResolvedValue([promptRow({})]) }));
+
+    expect(await service.resolve("student_feedback")).toMatchObject({ version: 2, systemPrompt: "Be brief." });
+    expect(await service.resolve("project_ideas")).toEqual(builtInPrompt("project_ideas"));
+  });
+
+  it("keeps AI features working when the registry can't be read", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const service = new PromptService(fakeStorage({ getActiveVersions: vi.fn().mockRejectedValue(new Error("db down")) }));
+
+    expect(await service.resolve("tutor_response")).toEqual(builtInPrompt("tutor_response"));
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it("rejects unknown prompts, empty templates and undeclared placeholders", async () => {
+    const storage = fakeStorage();
+    const service = new PromptService(storage);
+
+    await expect(service.createVersion("essay_grader", { userTemplate: "Grade it" }, 5)).rejects.toThrow("Prompt");
+    await expect(service.createVersion("student_feedback", { userTemplate: "" }, 5)).rejects.toThrow("Invalid prompt version");
+    await expect(
+      service.createVersion("student_feedback", { userTemplate: "Hi {{studentName}}" }, 5),
+    ).rejects.toThrow("Unknown placeholders: {{studentName}}");
+    expect(storage.createVersion).not.toHaveBeenCalled();
+  });
+
+  it("activates a new version on request and refreshes the active prompt", async () => {
+    const activated = promptRow({ version: 2, userTemplate: "Short feedback on {{responses}}" });
+    const storage = fakeStorage({
+      activateVersion: vi.fn().mockResolvedValue(activated),
+      getActiveVersions: vi.fn().mockResolvedValueOnce([]).mockResolvedValue([activated]),
+    });
+    const service = new PromptService(storage);
+
+    expect((await service.resolve("student_feedback")).version).toBe(1);
+    const created = await service.createVersion(
+      "student_feedback",
+      { systemPrompt: "", userTemplate: activated.userTemplate, activate: true },
+      5,
+    );
+
+    expect(created).toMatchObject({ version: 2, isActive: true });
+    expect(storage.createVersion).toHaveBeenCalledWith(
+      "student_feedback",
+      DEFAULT_PROMPTS.student_feedback,
+      expect.objectContaining({ createdBy: 5, notes: null }),
+    );
+    expect((await service.resolve("student_feedback")).version).toBe(2);
+  });
+
+  it("treats version 1 of an unedited prompt as the built-in one", async () => {
+    const service = new PromptService(fakeStorage());
+
+    expect(await service.getVersion("project_ideas", 1)).toEqual(builtInPrompt("project_ideas"));
+    expect(await service.activateVersion("project_ideas", 1)).toMatchObject({ version: 1, notes: "Built-in prompt" });
+    await expect(service.getVersion("project_ideas", 2)).rejects.toThrow("Version 2 of prompt project_ideas");
+  });
+});
+
+describe("prompt stamping", () => {
+  it("records the prompt version with each metered call", async () => {
+    const recorded: AiCallRecord[] = [];
+    const provider = new MeteredLlmProvider(new FixtureLlmProvider(), { recordCall: async (call) => void recorded.push(call) }, () => null);
+
+    await provider.complete({ ...buildPromptRequest(builtInPrompt("question_feedback"), {}), json: false });
+
+    expect(recorded[0]).toMatchObject({ feature: "grading", prompt: { key: "question_feedback", version: 1 } });
+  });
+});
+
+describe("grading prompt evaluation", () => {
+  it("scores agreement with quadratic-weighted kappa", () => {
+    expect(quadraticWeightedKappa([["emerging", "emerging"], ["proficient", "proficient"]])).toBe(1);
+    expect(quadraticWeightedKappa([["emerging", "applying"], ["applying", "emerging"]])).toBeLessThan(0);
+    expect(quadraticWeightedKappa([["developing", "developing"]])).toBeNull();
+    expect(quadraticWeightedKappa([])).toBeNull();
+  });
+
+  it("leaves failed gradings out of the agreement shares", () => {
+    const agreement = summarizeAgreement("component_skill_grade@v1", [
+      { caseId: "a", teacherLevel: "proficient", aiLevel: "proficient" },
+      { caseId: "b", teacherLevel: "emerging", aiLevel: "developing" },
+      { caseId: "c", teacherLevel: "emerging", aiLevel: "applying" },
+      { caseId: "d", teacherLevel: "applying", aiLevel: null },
+    ]);
+
+    expect(agreement).toMatchObject({ cases: 4, graded: 3 });
+    expect(agreement.exactAgreement).toBeCloseTo(1 / 3);
+    expect(agreement.adjacentAgreement).toBeCloseTo(2 / 3);
+  });
+
+  it("validates fixture files case by case", () => {
+    const cases = parseGradingEvalCases(JSON.parse(readFileSync("scripts/fixtures/grading-eval-cases.json", "utf8")));
+    expect(cases.length).toBeGreaterThan(0);
+    expect(() => parseGradingEvalCases([{ ...cases[0], teacherLevel: "excellent" }])).toThrow("Evaluation case 1");
+    expect(() => parseGradingEvalCases({})).toThrow("JSON array");
+  });
+
+  it("replays the same cases through both versions and lists the ones that changed", async () => {
+    const cases = parseGradingEvalCases(JSON.parse(readFileSync("scripts/fixtures/grading-eval-cases.json", "utf8")));
+    const firstAnswer = (evalCase: GradingEvalCase) => (evalCase.responses as Array<{ answer: string }>)[0].answer;
+    // Version 1 grades everything "developing"; version 2 agrees with the teacher
+    const llm = new FixtureLlmProvider([
+      {
+        feature: "grading",
+        match: /.*/,
+        content: (request) => {
+          const userContent = request.messages[request.messages.length - 1].content;
+          const evalCase = cases.find((candidate) => userContent.includes(firstAnswer(candidate)));
+          const rubricLevel = request.prompt?.version === 1 ? "developing" : evalCase?.teacherLevel;
+          return JSON.stringify({ rubricLevel, feedback: "" });
+        },
+      },
+    ]);
+    const candidate = { ...builtInPrompt("component_skill_grade"), version: 2 };
+
+    const comparison = await comparePromptVersions(cases, builtInPrompt("component_skill_grade"), candidate, llm);
+
+    expect(comparison.a.promptVersion).toBe("component_skill_grade@v1");
+    expect(comparison.b).toMatchObject({ promptVersion: "component_skill_grade@v2", exactAgreement: 1, weightedKappa: 1 });
+    expect(comparison.a.exactAgreement).toBeLessThan(1);
+    expect(comparison.changedCases.every((change) => change.a === "developing" && change.b === change.teacherLevel)).toBe(true);
+    expect(llm.requests).toHaveLength(cases.length * 2);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatAnswerForDisplay,
+  isNumericAnswerWithinTolerance,
+  parseFileUploadAnswer,
+  parseMatchingAnswer,
+  parseRankingAnswer,
+  stripAnswerKeys,
+} from "../../shared/question-types";
+import { formatQuestionResponsesForPrompt } from "../../server/domains/ai/question-response-prompt";
+
+describe("question types", () => {
+  it("parses structured answers and rejects malformed ones", () => {
+    expect(parseRankingAnswer('["b","a"]')).toEqual(["b", "a"]);
+    expect(parseRankingAnswer("not json")).toBeNull();
+    expect(parseMatchingAnswer('{"France":"Paris"}')).toEqual({ France: "Paris" });
+    expect(parseMatchingAnswer('["Paris"]')).toBeNull();
+    expect(parseFileUploadAnswer('{"objectPath":"/objects/bucket/abc","name":"essay.pdf"}')).toMatchObject({
+      objectPath: "/objects/bucket/abc",
+      name: "essay.pdf",
+    });
+    expect(parseFileUploadAnswer('{"name":"essay.pdf"}')).toBeNull();
+  });
+
+  it("checks numeric answers against the tolerance", () => {
+    expect(isNumericAnswerWithinTolerance("9.8", "9.81", 0.05)).toBe(true);
+    expect(isNumericAnswerWithinTolerance("9.7", "9.81", 0.05)).toBe(false);
+    expect(isNumericAnswerWithinTolerance("0.3", 0.1 + 0.2, 0)).toBe(true);
+    expect(isNumericAnswerWithinTolerance("ten", "10", 0)).toBeNull();
+  });
+
+  it("formats structured answers as readable text", () => {
+    expect(formatAnswerForDisplay("ranking", '["b","a"]')).toBe("1. b\n2. a");
+    expect(formatAnswerForDisplay("matching", '{"France":"Paris"}')).toBe("France → Paris");
+    expect(formatAnswerForDisplay("short-answer", "Because")).toBe("Because");
+  });
+
+  it("builds grading prompts with pre-computed objective checks", () => {
+    const prompt = formatQuestionResponsesForPrompt(
+      [
+        { id: "n1", text: "g?", type: "numeric", correctAnswer: "9.81", tolerance: 0.05 },
+        { id: "r1", text: "Order", type: "ranking", options: ["a", "b", "c"] },
+        { id: "f1", text: "Upload your lab report", type: "file-upload", rubricCriteria: "Clear method" },
+      ],
+      [
+        { questionId: "n1", answer: "9.8" },
+        { questionId: "r1", answer: '["a","c","b"]' },
+        { questionId: "f1", answer: '{"objectPath":"/objects/b/1","name":"lab.pdf","contentType":"application/pdf"}' },
+      ],
+    );
+
+    expect(prompt).toContain("Check: within tolerance");
+    expect(prompt).toContain("Check: 1 of 3 items in the correct position");
+    expect(prompt).toContain("Student answer: Uploaded file: lab.pdf (application/pdf)");
+    expect(prompt).toContain("Rubric criteria: Clear method");
+  });
+
+  it("strips answer keys before assessments reach students", () => {
+    const stripped = stripAnswerKeys({
+      id: 1,
+      questions: [
+        { id: "q1", text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Lyon", "Nice"], correctAnswer: "Paris" },
+        { id: "q2", text: "2 + 2?", type: "multiple-choice", options: ["3", "4"], correctAnswer: "4", points: 3 },
+      ],
+    });
+    expect(stripped.questions).toEqual([
+      { id: "q1", text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Lyon", "Nice"] },
+      { id: "q2", text: "2 + 2?", type: "multiple-choice", options: ["3", "4"], points: 3 },
+    ]);
+  });
+
+  it("hides ranking order and matching pairs from students", () => {
+    const stripped = stripAnswerKeys({
+      id: 2,
+      questions: [
+        { id: "r1", text: "Order the planets", type: "ranking", options: ["Mercury", "Venus", "Earth"] },
+        {
+          id: "m1",
+          text: "Match the capitals",
+          type: "matching",
+          pairs: [{ left: "France", right: "Paris" }, { left: "Spain", right: "Madrid" }],
+        },
+      ],
+    });
+    const [ranking, matching] = stripped.questions as Array<Record<string, unknown>>;
+
+    expect([...(ranking.options as string[])].sort()).toEqual(["Earth", "Mercury", "Venus"]);
+    expect(matching).not.toHaveProperty("pairs");
+    expect(matching.prompts).toEqual(["France", "Spain"]);
+    expect([...(matching.options as string[])].sort()).toEqual(["Madrid", "Paris"]);
+  });
+
+  it("hides the numeric answer but keeps the tolerance students are told about", () => {
+    const stripped = stripAnswerKeys({
+      id: 3,
+      questions: [{ id: "n1", text: "Boiling point of water (°C)?", type: "numeric", correctAnswer: "100", tolerance: 0.5 }],
+    });
+
+    expect(stripped.questions).toEqual([
+      { id: "n1", text: "Boiling point of water (°C)?", type: "numeric", tolerance: 0.5 },
+    ]);
+  });
+});
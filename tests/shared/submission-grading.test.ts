@@ -3,7 +3,7 @@ import { SubmissionGradingService, SubmissionHttpError } from "../../server/doma
 import type { AssessmentService } from "../../server/domains/assessments/assessments.service";
 
 describe("submission grading service", () => {
-  it("grades a submission with manual grades and awards stickers", async () => {
+  it("grades a submission with manual grades and awards credentials", async () => {
     const getExistingGrade = vi.fn()
       .mockResolvedValueOnce({ id: 44 })
       .mockResolvedValueOnce(undefined);
@@ -11,7 +11,7 @@ describe("submission grading service", () => {
     const updateGrade = vi.fn().mockResolvedValue({ id: 44 });
     const createGrade = vi.fn().mockResolvedValue({ id: 45 });
     const updateSubmission = vi.fn().mockResolvedValue({ id: 10, feedback: "Nice work" });
-    const awardStickersForGrades = vi.fn().mockResolvedValue([{ id: 1, type: "sticker" }]);
+    const awardCredentialsForStudent = vi.fn().mockResolvedValue([{ id: 1, type: "sticker" }]);
 
     const service = {
       getExistingGrade,
@@ -20,7 +20,7 @@ describe("submission grading service", () => {
       getSubmission: vi.fn().mockResolvedValue({ id: 10, assessmentId: 20, studentId: 30 }),
       getAssessment: vi.fn().mockResolvedValue({ id: 20, componentSkillIds: [1, 2], pdfUrl: null }),
       updateSubmission,
-      awardStickersForGrades,
+      awardCredentialsForStudent,
     } as unknown as AssessmentService;
 
     const gradingService = new SubmissionGradingService(service);
@@ -42,7 +42,61 @@ describe("submission grading service", () => {
     expect(updateGrade).toHaveBeenCalledTimes(1);
     expect(createGrade).toHaveBeenCalledTimes(1);
     expect(updateSubmission).toHaveBeenCalledTimes(1);
-    expect(awardStickersForGrades).toHaveBeenCalledWith(30, result.grades);
+    expect(awardCredentialsForStudent).toHaveBeenCalledWith(30, 99);
+    expect(result.credentialsAwarded).toHaveLength(1);
+  });
+
+  it("grades fully multiple-choice assessments without calling the model", async () => {
+    const createGrade = vi.fn().mockImplementation(async (grade) => grade);
+    const generateComponentSkillGrades = vi.fn();
+    const generateStudentFeedback = vi.fn();
+    const updateSubmission = vi.fn().mockResolvedValue({ id: 10 });
+
+    const service = {
+      getExistingGrade: vi.fn().mockResolvedValue(undefined),
+      createGrade,
+      getSubmission: vi.fn().mockResolvedValue({
+        id: 10,
+        assessmentId: 20,
+        studentId: 30,
+        responses: [
+          { questionId: "q1", answer: "Paris" },
+          { questionId: "q2", answer: "4" },
+        ],
+      }),
+      getAssessment: vi.fn().mockResolvedValue({
+        id: 20,
+        componentSkillIds: [5],
+        pdfUrl: null,
+        questions: [
+          { id: "q1", text: "Capital of France?", type: "multiple-choice", options: ["Paris", "Lyon"], correctAnswer: "Paris" },
+          { id: "q2", text: "2 + 2?", type: "multiple-choice", options: ["3", "4"], correctAnswer: "4" },
+        ],
+      }),
+      generateComponentSkillGrades,
+      generateStudentFeedback,
+      updateSubmission,
+      awardCredentialsForStudent: vi.fn().mockResolvedValue([]),
+    } as unknown as AssessmentService;
+
+    const gradingService = new SubmissionGradingService(service);
+    const result = await gradingService.gradeSubmission({
+      submissionId: 10,
+      graderId: 99,
+      gradeRequest: {},
+      generateAiFeedback: true,
+    });
+
+    expect(generateComponentSkillGrades).not.toHaveBeenCalled();
+    expect(generateStudentFeedback).not.toHaveBeenCalled();
+    expect(createGrade).toHaveBeenCalledWith(
+      expect.objectContaining({ componentSkillId: 5, rubricLevel: "applying", score: "4" }),
+    );
+    expect(result.feedback).toContain("Answered 2 of 2");
+    expect(updateSubmission).toHaveBeenCalledWith(
+      10,
+      expect.not.objectContaining({ aiGeneratedFeedback: true }),
+    );
   });
 
   it("generates preview feedback using the AI grading pipeline", async () => {
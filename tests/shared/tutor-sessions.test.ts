@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+import { AIService } from "../../server/domains/ai/ai.service";
+import { TutorSessionService } from "../../server/domains/ai/tutor-sessions.service";
+import type { ITutorStorage, TutorSessionListRecord } from "../../server/domains/ai/tutor.storage";
+import { builtInPromptResolver } from "../../server/domains/prompts/prompt-resolver";
+import { FixtureLlmProvider } from "../../server/integrations/llm";
+import { NotFoundError } from "../../server/utils/errorTypes";
+import type { InsertTutorMisconceptionSummary, TutorMisconceptionSummary, TutorTurn } from "../../shared/schema";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+const createdAt = new Date("2026-03-02T10:00:00Z");
+const teacher = { id: 40, role: "teacher", schoolId: 2 };
+
+function sessionRecord(overrides: Partial<TutorSessionListRecord> = {}): TutorSessionListRecord {
+  return {
+    id: 7,
+    studentId: 3,
+    assessmentId: 12,
+    componentSkillId: 5,
+    finalSummary: null,
+    completedAt: null,
+    createdAt,
+    updatedAt: createdAt,
+    studentFirstName: "Ada",
+    studentLastName: "Lovelace",
+    studentUsername: "ada",
+    componentSkillName: "Collaboration",
+    studentTurnCount: 2,
+    latestSafetyFlag: null,
+    ...overrides,
+  };
+}
+
+function turn(id: number, role: TutorTurn["role"], content: string): TutorTurn {
+  return { id, sessionId: 7, role, content, suggestedLevel: null, safetyFlag: null, aiPromptVersion: null, createdAt };
+}
+
+function createStorage(overrides: Partial<ITutorStorage> = {}): ITutorStorage {
+  const saved: TutorMisconceptionSummary[] = [];
+  return {
+    createSession: vi.fn(),
+    getSession: vi.fn(),
+    addTurn: vi.fn(),
+    getTurns: vi.fn(async () => [turn(1, "tutor", "Hi!"), turn(2, "student", "I did my part.")]),
+    completeSession: vi.fn(),
+    getVisibleStudentIds: vi.fn(async () => [3]),
+    listSessionsByAssessment: vi.fn(async () => [sessionRecord()]),
+    getSessionRecord: vi.fn(async () => sessionRecord()),
+    getSessionSkills: vi.fn(async () => [
+      { id: 5, name: "Collaboration", rubricLevels: { emerging: "Works alongside others" }, sessionCount: 3 },
+    ]),
+    getSkillConversations: vi.fn(async () => [
+      [turn(1, "tutor", "Tell me about teamwork."), turn(2, "student", "x".repeat(2000))],
+    ]),
+    getMisconceptionSummaries: vi.fn(async () => saved),
+    saveMisconceptionSummary: vi.fn(async (summary: InsertTutorMisconceptionSummary) => {
+      const row = { id: saved.length + 1, aiPromptVersion: null, generatedAt: createdAt, ...summary };
+      saved.push(row);
+      return row;
+    }),
+    ...overrides,
+  };
+}
+
+describe("tutor session service", () => {
+  it("lists sessions with the student's name, falling back to their username", async () => {
+    const storage = createStorage({
+      listSessionsByAssessment: vi.fn(async () => [
+        sessionRecord(),
+        sessionRecord({ id: 8, studentFirstName: null, studentLastName: null, latestSafetyFlag: "suicidal_ideation" }),
+      ]),
+    });
+    const service = new TutorSessionService(storage, { summarizeTutorMisconceptions: vi.fn() });
+
+    const sessions = await service.listSessions(12, teacher, "  teamwork  ");
+
+    expect(storage.getVisibleStudentIds).toHaveBeenCalledWith(teacher);
+    expect(storage.listSessionsByAssessment).toHaveBeenCalledWith(12, [3], "teamwork", 200);
+    expect(sessions.map((session) => [session.studentName, session.safetyFlag])).toEqual([
+      ["Ada Lovelace", null],
+      ["ada", "suicidal_ideation"],
+    ]);
+  });
+
+  it("passes a blank search on as no search", async () => {
+    const storage = createStorage();
+    await new TutorSessionService(storage, { summarizeTutorMisconceptions: vi.fn() }).listSessions(12, teacher, "   ");
+
+    expect(storage.listSessionsByAssessment).toHaveBeenCalledWith(12, [3], undefined, 200);
+  });
+
+  it("returns a transcript only for a session on the requested assessment", async () => {
+    const service = new TutorSessionService(createStorage(), { summarizeTutorMisconceptions: vi.fn() });
+
+    const detail = await service.getSession(12, 7, teacher);
+    expect(detail.turns.map((entry) => entry.role)).toEqual(["tutor", "student"]);
+
+    await expect(service.getSession(99, 7, teacher)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("hides the transcript of a student the teacher can't see", async () => {
+    const storage = createStorage({ getVisibleStudentIds: vi.fn(async () => [4, 5]) });
+    const service = new TutorSessionService(storage, { summarizeTutorMisconceptions: vi.fn() });
+
+    await expect(service.getSession(12, 7, teacher)).rejects.toBeInstanceOf(NotFoundError);
+    expect(storage.getTurns).not.toHaveBeenCalled();
+  });
+
+  it("summarizes each skill's conversations and keeps the result with its prompt version", async () => {
+    const storage = createStorage();
+    const summarizeTutorMisconceptions = vi.fn(async () => ({
+      misconceptions: [{ misconception: "Confuses splitting work with collaborating", sessionCount: 1, example: "", suggestion: "" }],
+      promptVersion: "tutor_misconceptions@v2",
+    }));
+    const service = new TutorSessionService(storage, { summarizeTutorMisconceptions });
+
+    expect((await service.getMisconceptions(12))[0].summary).toBeNull();
+    await service.refreshMisconceptions(12);
+
+    const [skill, conversations] = summarizeTutorMisconceptions.mock.calls[0] as unknown as [
+      { name: string; emerging?: string },
+      Array<Array<{ content: string }>>,
+    ];
+    expect(skill).toMatchObject({ name: "Collaboration", emerging: "Works alongside others" });
+    expect(conversations[0][1].content.length).toBeLessThan(700);
+
+    const [summary] = await service.getMisconceptions(12);
+    expect(summary).toMatchObject({
+      componentSkillName: "Collaboration",
+      sessionCount: 3,
+      summary: { sessionCount: 1, aiPromptVersion: "tutor_misconceptions@v2" },
+    });
+  });
+
+  it("skips skills without conversations to summarize", async () => {
+    const storage = createStorage({ getSkillConversations: vi.fn(async () => []) });
+    const summarizeTutorMisconceptions = vi.fn();
+    const service = new TutorSessionService(storage, { summarizeTutorMisconceptions });
+
+    expect(await service.refreshMisconceptions(12)).toEqual([]);
+    expect(summarizeTutorMisconceptions).not.toHaveBeenCalled();
+    expect(storage.saveMisconceptionSummary).not.toHaveBeenCalled();
+  });
+});
+
+describe("tutor misconceptions summary", () => {
+  const conversations = [[{ role: "tutor", content: "Tell me about teamwork." }, { role: "student", content: "I did my slides." }]];
+
+  it("sends the conversations through the registry prompt", async () => {
+    const llm = new FixtureLlmProvider();
+    const service = new AIService(undefined, llm, builtInPromptResolver);
+
+    const result = await service.summarizeTutorMisconceptions({ name: "Collaboration" }, conversations);
+
+    expect(result.promptVersion).toBe("tutor_misconceptions@v1");
+    expect(result.misconceptions).toHaveLength(1);
+    expect(llm.requests[0].prompt).toEqual({ key: "tutor_misconceptions", version: 1 });
+    expect(llm.requests[0].messages.at(-1)?.content).toContain("student: I did my slides.");
+  });
+
+  it("drops malformed entries from the model's answer", async () => {
+    const content = JSON.stringify({
+      misconceptions: [
+        { misconception: "  Thinks effort alone shows proficiency ", sessionCount: 2.6 },
+        { misconception: "" },
+        "not an object",
+      ],
+    });
+    const service = new AIService(
+      undefined,
+      new FixtureLlmProvider([{ feature: "tutor", match: /.*/, content }]),
+      builtInPromptResolver,
+    );
+
+    const { misconceptions } = await service.summarizeTutorMisconceptions({ name: "Collaboration" }, conversations);
+
+    expect(misconceptions).toEqual([
+      { misconception: "Thinks effort alone shows proficiency", sessionCount: 3, example: "", suggestion: "" },
+    ]);
+  });
+});
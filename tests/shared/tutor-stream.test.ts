@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import { formatTutorStreamEvent, parseTutorStreamEvents, type TutorStreamEvent } from "../../shared/tutor-stream";
+import { JsonStringFieldReader } from "../../server/domains/ai/json-field-stream";
+import { AIService } from "../../server/domains/ai/ai.service";
+import { builtInPromptResolver } from "../../server/domains/prompts/prompt-resolver";
+import { MeteredLlmProvider } from "../../server/domains/ai-usage/metered-llm-provider";
+import type { AiCallRecord } from "../../server/domains/ai-usage/ai-usage.service";
+import { FixtureLlmProvider, type LlmProvider } from "../../server/integrations/llm";
+
+vi.mock("../../server/db", () => ({ db: {} }));
+
+function readField(chunks: string[], field = "response"): string[] {
+  const pieces: string[] = [];
+  const reader = new JsonStringFieldReader(field, (text) => pieces.push(text));
+  chunks.forEach((chunk) => reader.push(chunk));
+  return pieces;
+}
+
+describe("streamed JSON field reader", () => {
+  it("passes the field's text on as it arrives and ignores the rest of the object", () => {
+    const pieces = readField(['{"resp', 'onse": "Stren', 'gths: clear.", "safetyFlag": "x"}']);
+    expect(pieces).toEqual(["Stren", "gths: clear."]);
+  });
+
+  it("decodes escapes split across chunks", () => {
+    const json = JSON.stringify({ response: 'Line one\nSays "hi" é \\ done', other: "ignored" });
+    const chunks = json.match(/.{1,3}/gs) ?? [];
+    expect(readField(chunks).join("")).toBe('Line one\nSays "hi" é \\ done');
+  });
+
+  it("stays silent when the field never appears", () => {
+    expect(readField(['{"safetyFlag": "suicidal_ideation"}'])).toEqual([]);
+  });
+});
+
+describe("tutor stream events", () => {
+  it("round-trips events split at arbitrary points", () => {
+    const events: TutorStreamEvent[] = [
+      { type: "session", sessionId: 4 },
+      { type: "delta", text: "Hello\n\nthere" },
+      { type: "complete", turnId: 9, response: "Hello there", shouldTerminate: false, safetyFlag: "inappropriate_language" },
+    ];
+    const wire = `: heartbeat\n\n${events.map(formatTutorStreamEvent).join("")}`;
+
+    const received: TutorStreamEvent[] = [];
+    let buffer = "";
+    for (let index = 0; index < wire.length; index += 7) {
+      const parsed = parseTutorStreamEvents(buffer + wire.slice(index, index + 7));
+      buffer = parsed.rest;
+      received.push(...parsed.events);
+    }
+
+    expect(received).toEqual(events);
+    expect(buffer).toBe("");
+  });
+
+  it("skips unknown event types and malformed data", () => {
+    const { events } = parseTutorStreamEvents('event: ping\ndata: {}\n\nevent: delta\ndata: {oops\n\nevent: delta\ndata: {"text":"ok"}\n\n');
+    expect(events).toEqual([{ type: "delta", text: "ok" }]);
+  });
+});
+
+describe("streaming LLM calls", () => {
+  it("replays fixtures as several deltas that add up to the reply", async () => {
+    const provider = new FixtureLlmProvider([{ match: /.*/, content: "One two three" }]);
+    const deltas: string[] = [];
+
+    const completion = await provider.stream({ feature: "tutor", messages: [{ role: "user", content: "Hi" }] }, (text) =>
+      deltas.push(text),
+    );
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(completion.content);
+  });
+
+  it("meters streamed calls like any other", async () => {
+    const recorded: AiCallRecord[] = [];
+    const provider = new MeteredLlmProvider(
+      new FixtureLlmProvider([{ match: /.*/, content: "Streamed" }]),
+      { recordCall: async (call) => void recorded.push(call) },
+      () => null,
+    );
+
+    await provider.stream({ feature: "tutor", messages: [{ role: "user", content: "Hi" }] }, () => {});
+
+    expect(recorded[0]).toMatchObject({ feature: "tutor", outcome: "success", completionTokens: 2 });
+  });
+});
+
+describe("streamed tutor replies", () => {
+  const history = [
+    { role: "tutor", content: "Tell me about a time you used this skill." },
+    { role: "student", content: "I led our group presentation." },
+  ];
+
+  it("streams the reply text and returns the parsed result with its prompt version", async () => {
+    const llm = new FixtureLlmProvider();
+    const service = new AIService(undefined, llm, builtInPromptResolver);
+    const pieces: string[] = [];
+
+    const result = await service.streamTutorResponse({ name: "Collaboration" }, history, (text) => pieces.push(text));
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join("")).toBe(result.response);
+    expect(result).toMatchObject({
+      suggestedEvaluation: { selfAssessedLevel: "developing" },
+      shouldTerminate: false,
+      promptVersion: "tutor_response@v1",
+    });
+    expect(llm.requests[0].prompt).toEqual({ key: "tutor_response", version: 1 });
+  });
+
+  it("reports the safety flag only once the whole reply has arrived", async () => {
+    const flagged = JSON.stringify({
+      response: "I'm concerned about what you've shared. Please talk to a trusted adult.",
+      safetyFlag: "suicidal_ideation",
+      shouldTerminate: true,
+    });
+    const service = new AIService(undefined, new FixtureLlmProvider([{ feature: "tutor", match: /.*/, content: flagged }]), builtInPromptResolver);
+    const pieces: string[] = [];
+
+    const result = await service.streamTutorResponse({ name: "Collaboration" }, history, (text) => pieces.push(text));
+
+    expect(pieces.join("")).toBe(result.response);
+    expect(result).toMatchObject({ safetyFlag: "suicidal_ideation", shouldTerminate: true });
+  });
+
+  it("falls back to a generic reply when the model call fails", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failing: LlmProvider = {
+      name: "azure",
+      modelFor: () => "gpt-4o",
+      complete: async () => {
+        throw new Error("timeout");
+      },
+      stream: async () => {
+        throw new Error("timeout");
+      },
+    };
+    const service = new AIService(undefined, failing, builtInPromptResolver);
+
+    const result = await service.streamTutorResponse({ name: "Collaboration" }, history, () => {});
+
+    expect(result.response).toContain("I'm here to help you develop this skill!");
+    expect(result.promptVersion).toBeUndefined();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/queryClient", () => ({ tryRefreshToken: vi.fn(async () => true) }));
+
+import { openNotificationStream } from "../../client/src/hooks/use-notification-stream";
+
+type Listener = (event: MessageEvent<string>) => void;
+
+class FakeEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = FakeEventSource.CONNECTING;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(readonly url: string, readonly init?: EventSourceInit) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeEventSource.OPEN;
+    this.onopen?.();
+  }
+
+  emit(id: string, data: unknown) {
+    const event = { data: JSON.stringify(data), lastEventId: id } as MessageEvent<string>;
+    this.listeners.get("notification")?.forEach((listener) => listener(event));
+  }
+
+  fail() {
+    this.readyState = FakeEventSource.CLOSED;
+    this.onerror?.();
+  }
+}
+
+describe("notification stream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeEventSource.instances = [];
+    vi.stubGlobal("EventSource", FakeEventSource);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("reopens a refused stream from the last notification it received", async () => {
+    const onNotification = vi.fn();
+    const onStreamingChange = vi.fn();
+    const close = openNotificationStream(onNotification, onStreamingChange);
+
+    const first = FakeEventSource.instances[0];
+    expect(first.url).toBe("/api/notifications/stream");
+    first.open();
+    first.emit("41", { id: 41, title: "Graded" });
+    first.emit("42", { id: 42, title: "New badge" });
+    first.fail();
+
+    expect(onStreamingChange).toHaveBeenLastCalledWith(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    const reopened = FakeEventSource.instances[1];
+    expect(reopened.url).toBe("/api/notifications/stream?lastEventId=42");
+    expect(reopened.init).toEqual({ withCredentials: true });
+    expect(onNotification).toHaveBeenCalledTimes(2);
+
+    close();
+    expect(reopened.closed).toBe(true);
+  });
+
+  it("opens without a cursor until a notification arrives", async () => {
+    openNotificationStream(vi.fn(), vi.fn());
+
+    FakeEventSource.instances[0].fail();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(FakeEventSource.instances[1].url).toBe("/api/notifications/stream");
+  });
+
+  it("stops reopening once closed", async () => {
+    const close = openNotificationStream(vi.fn(), vi.fn());
+
+    FakeEventSource.instances[0].fail();
+    close();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+});